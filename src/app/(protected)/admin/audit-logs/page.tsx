@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import AuditLogs from "@/features/audit-logs/routes/audit-logs";
+
+export const metadata: Metadata = {
+  title: "監査ログ | Camp App",
+  description: "プロジェクト・メンバー・ユーザーに対する操作の履歴を表示します。",
+};
+
+export default function AuditLogsPage() {
+  return <AuditLogs />;
+}
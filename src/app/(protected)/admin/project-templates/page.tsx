@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import AdminProjectTemplates from "@/features/project-templates/routes/admin-project-templates";
+
+export const metadata: Metadata = {
+  title: "プロジェクトテンプレート | Camp App",
+  description: "プロジェクトの作成時に選択できるテンプレートを管理します。",
+};
+
+export default function AdminProjectTemplatesPage() {
+  return <AdminProjectTemplates />;
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import AdminUserDetail from "@/features/admin-users/routes/admin-user-detail";
+
+export const metadata: Metadata = {
+  title: "ユーザー詳細 | Camp App",
+  description: "ユーザーの詳細情報とプロジェクト所属を表示します。",
+};
+
+export default function AdminUserDetailPage() {
+  return <AdminUserDetail />;
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import AdminUsersList from "@/features/admin-users/routes/admin-users-list";
+
+export const metadata: Metadata = {
+  title: "ユーザー管理 | Camp App",
+  description: "システムに登録されているユーザーを管理します。",
+};
+
+export default function AdminUsersPage() {
+  return <AdminUsersList />;
+}
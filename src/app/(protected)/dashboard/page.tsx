@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import Dashboard from "@/features/dashboard/routes/dashboard";
+
+export const metadata: Metadata = {
+  title: "ダッシュボード | Camp App",
+  description: "参加しているプロジェクトと最近の更新を表示します。",
+};
+
+export default function DashboardPage() {
+  return <Dashboard />;
+}
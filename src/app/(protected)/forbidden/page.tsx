@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import { ForbiddenPage } from "@/components/errors/forbidden";
+
+export const metadata: Metadata = {
+  title: "権限がありません | Camp App",
+  description: "このページを表示する権限がありません。",
+};
+
+export default function Forbidden() {
+  return <ForbiddenPage />;
+}
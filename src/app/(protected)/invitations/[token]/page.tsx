@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import AcceptInvitation from "@/features/projects/routes/accept-invitation";
+
+export const metadata: Metadata = {
+  title: "プロジェクトへの招待 | Camp App",
+  description: "プロジェクトへの招待を承諾します。",
+};
+
+export default function AcceptInvitationPage() {
+  return <AcceptInvitation />;
+}
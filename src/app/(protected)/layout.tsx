@@ -8,7 +8,11 @@ import { useRouter } from "next/navigation";
 import { useEffect } from "react";
 
 import { LoadingSpinner } from "@/components/ui";
+import { paths } from "@/config/paths";
 import { useAuth } from "@/features/auth/hooks/use-auth";
+import { useDashboardCommands } from "@/features/dashboard/hooks/use-dashboard-commands";
+import { RoutePermissionGuard } from "@/features/projects/components/route-permission-guard";
+import { useProjectCommands } from "@/features/projects/hooks/use-project-commands";
 
 // ================================================================================
 // 型定義
@@ -28,6 +32,9 @@ type ProtectedLayoutProps = {
  *
  * 認証が必要なページを保護します。
  * 未認証のユーザーは自動的にログインページにリダイレクトされます。
+ * 認証済みの場合は、ルートごとの権限要件（config/route-permissions.ts）を評価し、
+ * 権限が不足していれば403ページを表示します。
+ * また、ダッシュボード・プロジェクト関連のコマンドをコマンドパレットに登録します。
  *
  * @param props - レイアウトのプロパティ
  * @param props.children - レンダリングするページコンテンツ
@@ -39,14 +46,17 @@ const ProtectedLayout = ({ children }: ProtectedLayoutProps) => {
   // ================================================================================
   const { isAuthenticated, isLoading } = useAuth();
   const router = useRouter();
+  useDashboardCommands();
+  useProjectCommands();
 
   // ================================================================================
   // Effects
   // ================================================================================
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
-      // router.pushではなくrouter.replaceを使用して履歴に残さない
-      router.replace("/login");
+      // router.pushではなくrouter.replaceを使用して履歴に残さない（ログイン後に現在のページへ戻れるよう returnUrl を渡す）
+      const { pathname, search } = window.location;
+      router.replace(paths.login.getHref(`${pathname}${search}`));
     }
   }, [isAuthenticated, isLoading, router]);
 
@@ -58,8 +68,8 @@ const ProtectedLayout = ({ children }: ProtectedLayoutProps) => {
     return <LoadingSpinner message="認証情報を確認しています..." />;
   }
 
-  // 認証済みの場合は子要素を表示
-  return <>{children}</>;
+  // 認証済みの場合はルート権限を確認してから子要素を表示
+  return <RoutePermissionGuard>{children}</RoutePermissionGuard>;
 };
 
 export default ProtectedLayout;
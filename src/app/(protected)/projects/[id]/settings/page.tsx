@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+
+import ProjectSettings from "@/features/projects/routes/project-settings";
+
+export const metadata: Metadata = {
+  title: "プロジェクト設定 | Camp App",
+  description: "プロジェクトの基本情報・メンバーの招待ポリシーなどの設定を行います。",
+};
+
+export default function ProjectSettingsPage() {
+  return <ProjectSettings />;
+}
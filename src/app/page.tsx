@@ -1,6 +1,8 @@
 import Image from "next/image";
 import Link from "next/link";
 
+import { paths } from "@/config/paths";
+
 // ================================================================================
 // Component
 // ================================================================================
@@ -12,7 +14,7 @@ import Link from "next/link";
  *
  * 機能:
  * - プロジェクトの概要説明
- * - サンプルページへのナビゲーション
+ * - サンプルページ・ダッシュボード（ログイン後のトップページ）へのナビゲーション
  * - 主要機能の紹介カード
  * - 外部リンク（GitHub、Next.jsドキュメント）
  *
@@ -47,6 +49,12 @@ export default function Home(): React.ReactElement {
           >
             サンプルを見る
           </Link>
+          <Link
+            className="rounded border border-solid border-border transition-all flex items-center justify-center hover:bg-gray-100 hover:border-gray-300 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 sm:min-w-44"
+            href={paths.dashboard.getHref()}
+          >
+            ダッシュボード
+          </Link>
           <a
             className="rounded border border-solid border-border transition-all flex items-center justify-center hover:bg-gray-100 hover:border-gray-300 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 sm:min-w-44"
             href="https://github.com"
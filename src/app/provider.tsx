@@ -1,6 +1,5 @@
 "use client";
 
-import { PublicClientApplication } from "@azure/msal-browser";
 import { MsalProvider } from "@azure/msal-react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
@@ -8,20 +7,17 @@ import * as React from "react";
 import { ErrorBoundary } from "react-error-boundary";
 
 import { MainErrorFallback } from "@/components/errors/main";
+import { MaintenanceBanner } from "@/components/errors/maintenance-banner";
+import { MutationQueueIndicator } from "@/components/ui/mutation-queue";
+import { ToastViewport } from "@/components/ui/toast";
 import { env } from "@/config/env";
-import { msalConfig } from "@/config/msal";
+import { useAuthStore } from "@/features/auth/stores/auth-store";
+import { CommandPalette } from "@/features/command-palette/components/command-palette";
+import { useSampleCommands } from "@/features/sample-page-list/hooks/use-sample-commands";
+import { msalInstance } from "@/lib/msal";
 import { MSWProvider } from "@/lib/msw";
-import { queryConfig } from "@/lib/tanstack-query";
-
-// ================================================================================
-// MSAL Instance Initialization
-// ================================================================================
-
-// MSALインスタンス（本番モードのみ初期化）
-const msalInstance: PublicClientApplication | null = env.AUTH_MODE === "production" ? new PublicClientApplication(msalConfig) : null;
-
-// MSALインスタンスをエクスポート（他のモジュールで使用）
-export { msalInstance };
+import { setupMutationQueue } from "@/lib/mutation-queue";
+import { createMutationCache, createQueryCache, queryConfig } from "@/lib/tanstack-query";
 
 // ================================================================================
 // Auth Provider
@@ -50,6 +46,21 @@ const AuthProvider = ({ children }: AuthProviderProps) => {
   return <MsalProvider instance={msalInstance}>{children}</MsalProvider>;
 };
 
+// ================================================================================
+// Command Palette
+// ================================================================================
+
+/**
+ * コマンドパレットと、ページに依存しない共通のコマンド（サンプルページへの移動）を配置
+ *
+ * 認証が必要なコマンド（プロジェクトなど）は、保護されたルートのレイアウトで登録します。
+ */
+const GlobalCommandPalette = () => {
+  useSampleCommands();
+
+  return <CommandPalette />;
+};
+
 // ================================================================================
 // App Provider
 // ================================================================================
@@ -65,21 +76,37 @@ type AppProviderProps = {
  * - ErrorBoundary: エラー境界
  * - QueryClientProvider: TanStack Query
  * - ReactQueryDevtools: クエリデバッグツール（開発環境のみ）
+ * - GlobalCommandPalette: コマンドパレット（Cmd+K / Ctrl+K）
+ * - MaintenanceBanner: メンテナンス中のバナー
+ * - ToastViewport: トースト通知（ミューテーションの結果・APIエラー）
+ * - MutationQueueIndicator: 送信待ちの操作・再送時の競合
+ *
+ * 送信待ちにできるミューテーション（lib/mutation-queue）の保存・再送もここで開始します（ログイン中のユーザーごとに保存）。
  */
 export const AppProvider = ({ children }: AppProviderProps): React.ReactElement => {
   const [queryClient] = React.useState(
     () =>
       new QueryClient({
+        queryCache: createQueryCache(),
+        mutationCache: createMutationCache(),
         defaultOptions: queryConfig,
       })
   );
 
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+
+  React.useEffect(() => setupMutationQueue(queryClient, userId), [queryClient, userId]);
+
   return (
     <MSWProvider>
       <AuthProvider>
         <ErrorBoundary FallbackComponent={MainErrorFallback}>
           <QueryClientProvider client={queryClient}>
             {process.env.NODE_ENV === "development" && <ReactQueryDevtools />}
+            <GlobalCommandPalette />
+            <MaintenanceBanner />
+            <ToastViewport />
+            <MutationQueueIndicator />
             {children}
           </QueryClientProvider>
         </ErrorBoundary>
@@ -0,0 +1,70 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+
+import { ForbiddenPage } from "./forbidden";
+
+/**
+ * ForbiddenPageコンポーネントのストーリー
+ *
+ * 権限不足（403）時に表示されるページコンポーネント。
+ *
+ * @example
+ * ```tsx
+ * <ForbiddenPage />
+ * ```
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "components/errors/ForbiddenPage",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: ForbiddenPage,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "認証済みユーザーがページの表示に必要な権限を持たない場合に表示される403ページ。\n\n" +
+          "**使用場面:**\n" +
+          "- ルート権限ガードで権限不足を検出した場合\n" +
+          "- 閲覧者がメンバー管理ページなどに直接アクセスした場合",
+      },
+    },
+  },
+
+  // ================================================================================
+  // ドキュメント自動生成を有効化
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof ForbiddenPage>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * デフォルトの403表示
+ */
+export const Default: Story = {
+  name: "デフォルト",
+};
+
+/**
+ * メッセージ指定
+ */
+export const WithMessage: Story = {
+  name: "メッセージ指定",
+  args: {
+    message: "メンバー管理には project:manage_members 権限が必要です。",
+  },
+};
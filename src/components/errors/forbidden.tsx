@@ -0,0 +1,34 @@
+import Link from "next/link";
+
+import { paths } from "@/config/paths";
+
+type ForbiddenPageProps = {
+  /** 権限不足の理由など、補足メッセージ（省略時は既定の文言） */
+  message?: string;
+};
+
+/**
+ * 403 Forbidden ページ
+ *
+ * 認証済みだが、ページの表示に必要な権限を持たない場合に表示します。
+ * ログインページへのリダイレクトは行わず、その場で権限不足を通知します。
+ *
+ * @example
+ * ```tsx
+ * if (!permissions.has("project:manage_members")) {
+ *   return <ForbiddenPage />;
+ * }
+ * ```
+ */
+export const ForbiddenPage = ({ message = "このページを表示する権限がありません。" }: ForbiddenPageProps): React.ReactElement => {
+  return (
+    <div className="mt-52 flex flex-col items-center font-semibold" role="alert">
+      <h1 className="text-4xl mb-4">403 - Forbidden</h1>
+      <p className="text-lg mb-2 text-gray-600">{message}</p>
+      <p className="text-sm mb-8 text-gray-500">必要な権限については、プロジェクトの管理者にお問い合わせください。</p>
+      <Link href={paths.home.getHref()} replace className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+        Go to Home
+      </Link>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, userEvent, within } from "@storybook/test";
+import { AxiosError, AxiosHeaders } from "axios";
+
+import { ApiError, type ProblemDetails, ProblemTypes } from "@/lib/api-error";
+import { handleProblem, useMaintenanceStore } from "@/lib/problem-notices";
+
+import { MaintenanceBanner } from "./maintenance-banner";
+
+/**
+ * ストーリー用のProblem DetailsからApiErrorを生成
+ */
+const toApiError = (problem: ProblemDetails) =>
+  new ApiError(
+    new AxiosError(problem.title, "ERR_BAD_RESPONSE", undefined, undefined, {
+      data: problem,
+      status: problem.status ?? 500,
+      statusText: problem.title ?? "",
+      headers: {},
+      config: { headers: new AxiosHeaders() },
+    })
+  );
+
+const serviceUnavailable = toApiError({
+  type: ProblemTypes.SERVICE_UNAVAILABLE,
+  title: "Service Unavailable",
+  status: 503,
+  detail: "The service is under maintenance",
+  maintenance_until: "2025-04-01T18:00:00+09:00",
+});
+
+/**
+ * MaintenanceBannerコンポーネントのストーリー
+ *
+ * 共通のエラー処理によるメンテナンス中のバナー。
+ * AppProvider（Storybookのデコレーター）で配置されているため、各ストーリーではコンポーネントを配置せずに
+ * handleProblem にエラーを渡し、問題の種類の定義に従って表示されることを確認します。
+ *
+ * @example
+ * ```tsx
+ * <MaintenanceBanner />
+ * ```
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "components/errors/MaintenanceBanner",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: MaintenanceBanner,
+  render: () => <></>,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "表示方法が maintenance の問題の種類が発生した場合に、画面上部に表示するバナー。\n\n" +
+          "**主な機能:**\n" +
+          "- 拡張メンバーから組み立てたメンテナンスの終了予定時刻の表示\n" +
+          "- 閉じるボタンで非表示（クエリが成功した場合も自動で非表示）\n" +
+          "- toast の問題の種類は ToastViewport で表示",
+      },
+    },
+  },
+
+  // ================================================================================
+  // 各ストーリーの前に表示中のバナーをクリア
+  // ================================================================================
+  beforeEach: () => {
+    useMaintenanceStore.setState({ maintenance: null });
+  },
+
+  // ================================================================================
+  // ドキュメント自動生成を有効化
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof MaintenanceBanner>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * メンテナンス中のバナー
+ */
+export const Maintenance: Story = {
+  name: "メンテナンス中",
+  parameters: {
+    docs: {
+      description: {
+        story: "サービス停止中のエラー。画面上部にメンテナンスの終了予定時刻を含むバナーが表示されます。",
+      },
+    },
+  },
+  beforeEach: () => {
+    handleProblem(serviceUnavailable, ["toast", "maintenance"]);
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    const banner = await canvas.findByRole("status");
+    expect(within(banner).getByText("現在メンテナンス中です")).toBeInTheDocument();
+    expect(within(banner).getByText(/頃に再開する予定です/)).toBeInTheDocument();
+
+    await userEvent.click(canvas.getByRole("button", { name: "メンテナンスのお知らせを閉じる" }));
+    expect(canvas.queryByRole("status")).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * 処理対象外の表示方法
+ */
+export const InlineIgnored: Story = {
+  name: "呼び出し側で表示するエラー",
+  parameters: {
+    docs: {
+      description: {
+        story: "表示方法が inline の問題の種類（入力値の検証エラーなど）は、共通の処理では表示されません。",
+      },
+    },
+  },
+  beforeEach: () => {
+    handleProblem(
+      toApiError({
+        type: ProblemTypes.VALIDATION_ERROR,
+        title: "Validation Error",
+        status: 422,
+        detail: "The request contains invalid fields",
+        errors: { name: ["Project name must not be blank"] },
+      }),
+      ["toast", "maintenance"]
+    );
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(canvas.queryByRole("status")).not.toBeInTheDocument();
+  },
+};
@@ -0,0 +1,49 @@
+"use client";
+
+import { WrenchIcon, XIcon } from "lucide-react";
+
+import { useMaintenanceStore } from "@/lib/problem-notices";
+
+/**
+ * メンテナンス中のバナー
+ *
+ * lib/problem-types で表示方法が maintenance の問題の種類（サービス停止中など）が発生した場合に、
+ * TanStack Query の共通設定から useMaintenanceStore に設定された内容を画面上部に固定表示します。
+ * 閉じるボタンで閉じるか、クエリが成功する（サービスが再開する）まで表示します。
+ *
+ * アプリケーション全体で1つだけ配置してください（AppProvider で配置しています）。
+ *
+ * @example
+ * ```tsx
+ * <MaintenanceBanner />
+ * ```
+ */
+export const MaintenanceBanner = () => {
+  const maintenance = useMaintenanceStore((state) => state.maintenance);
+  const dismissMaintenance = useMaintenanceStore((state) => state.dismissMaintenance);
+
+  if (maintenance === null) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-50 flex items-start gap-3 border-b border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900"
+    >
+      <WrenchIcon className="mt-0.5 size-4 shrink-0" aria-hidden="true" />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium">{maintenance.title}</p>
+        <p>{maintenance.message}</p>
+      </div>
+      <button
+        type="button"
+        onClick={dismissMaintenance}
+        aria-label="メンテナンスのお知らせを閉じる"
+        className="rounded p-1 hover:bg-amber-100"
+      >
+        <XIcon className="size-4" aria-hidden="true" />
+      </button>
+    </div>
+  );
+};
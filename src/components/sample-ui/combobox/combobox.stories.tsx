@@ -0,0 +1,155 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, fn, userEvent, within } from "@storybook/test";
+import { useState } from "react";
+
+import { Label } from "../label";
+import { Combobox, type ComboboxOption } from "./combobox";
+
+const FRUITS: ComboboxOption[] = [
+  { value: "apple", label: "りんご", description: "Apple" },
+  { value: "banana", label: "バナナ", description: "Banana" },
+  { value: "cherry", label: "さくらんぼ", description: "Cherry", disabled: true, hint: "在庫なし" },
+  { value: "grape", label: "ぶどう", description: "Grape" },
+  { value: "melon", label: "メロン", description: "Melon" },
+];
+
+/**
+ * 入力値で選択肢を絞り込むデモ用のラッパー
+ */
+const ComboboxDemo = ({
+  options,
+  isLoading,
+  emptyMessage,
+  onSelect,
+}: {
+  options: ComboboxOption[];
+  isLoading?: boolean;
+  emptyMessage?: string;
+  onSelect: (option: ComboboxOption) => void;
+}) => {
+  const [keyword, setKeyword] = useState("");
+  const [selected, setSelected] = useState<ComboboxOption | null>(null);
+
+  const filtered = options.filter(
+    (option) => option.label.includes(keyword) || (option.description?.toLowerCase().includes(keyword.toLowerCase()) ?? false)
+  );
+
+  return (
+    <div className="w-80 space-y-2">
+      <Label htmlFor="fruit">果物</Label>
+      <Combobox
+        id="fruit"
+        placeholder="果物を検索"
+        inputValue={keyword}
+        onInputValueChange={setKeyword}
+        options={filtered}
+        selectedValue={selected?.value}
+        onSelect={(option) => {
+          setSelected(option);
+          setKeyword(option.label);
+          onSelect(option);
+        }}
+        isLoading={isLoading}
+        emptyMessage={emptyMessage}
+      />
+      <p className="text-muted-foreground text-sm">選択中: {selected?.label ?? "なし"}</p>
+    </div>
+  );
+};
+
+/**
+ * Comboboxコンポーネントのストーリー
+ *
+ * 入力欄と選択肢のリストを組み合わせたコンポーネント。
+ * 入力値・選択肢は呼び出し側で管理するため、API検索の候補表示にも使用できます。
+ *
+ * @example
+ * ```tsx
+ * <Combobox inputValue={keyword} onInputValueChange={setKeyword} options={options} onSelect={handleSelect} />
+ * ```
+ */
+const meta = {
+  title: "components/sample-ui/Combobox",
+  component: Combobox,
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component:
+          "WAI-ARIA の combobox パターンに沿った、検索付きの選択コンポーネント。\n\n" +
+          "**キーボード操作:**\n" +
+          "- ↓ / ↑: 選択肢を移動（選択不可の選択肢はスキップ）\n" +
+          "- Enter: アクティブな選択肢を選ぶ\n" +
+          "- Escape: リストを閉じる",
+      },
+    },
+  },
+  tags: ["autodocs"],
+  args: {
+    options: FRUITS,
+    inputValue: "",
+    onInputValueChange: fn(),
+    onSelect: fn(),
+  },
+} satisfies Meta<typeof Combobox>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * 基本的な使用例
+ *
+ * 入力すると選択肢が絞り込まれます。選択不可の選択肢はグレーアウトされます。
+ */
+export const Default: Story = {
+  render: (args) => <ComboboxDemo options={args.options} onSelect={args.onSelect} emptyMessage="該当する果物がありません" />,
+};
+
+/**
+ * 読み込み中
+ *
+ * 選択肢の取得中はスピナーと「検索中...」を表示します。
+ */
+export const Loading: Story = {
+  render: (args) => <ComboboxDemo options={[]} onSelect={args.onSelect} isLoading />,
+};
+
+/**
+ * 該当なし
+ *
+ * 入力があり選択肢が0件の場合は emptyMessage を表示します。
+ */
+export const Empty: Story = {
+  render: (args) => <ComboboxDemo options={[]} onSelect={args.onSelect} emptyMessage="該当する果物がありません" />,
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.type(canvas.getByRole("combobox"), "すいか");
+
+    await expect(canvas.getByText("該当する果物がありません")).toBeVisible();
+  },
+};
+
+/**
+ * キーボード操作
+ *
+ * ↓キーで選択肢を移動し、Enterで選択します。選択不可の「さくらんぼ」はスキップされます。
+ */
+export const KeyboardNavigation: Story = {
+  render: (args) => <ComboboxDemo options={args.options} onSelect={args.onSelect} />,
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    const input = canvas.getByRole("combobox");
+
+    await userEvent.click(input);
+    await userEvent.keyboard("{ArrowDown}{ArrowDown}{ArrowDown}");
+
+    await expect(input).toHaveAttribute("aria-activedescendant", expect.stringContaining("option-3"));
+
+    await userEvent.keyboard("{Enter}");
+
+    await expect(args.onSelect).toHaveBeenCalledWith(expect.objectContaining({ value: "grape" }));
+    await expect(input).toHaveValue("ぶどう");
+    await expect(input).toHaveAttribute("aria-expanded", "false");
+  },
+};
@@ -0,0 +1,283 @@
+"use client";
+
+import { CheckIcon, Loader2Icon } from "lucide-react";
+import * as React from "react";
+
+import { Input } from "@/components/sample-ui/input";
+import { cn } from "@/utils/cn";
+
+/**
+ * コンボボックスの選択肢
+ */
+type ComboboxOption = {
+  /** 選択肢の値 */
+  value: string;
+  /** 表示ラベル */
+  label: string;
+  /** ラベルの下に表示する補足テキスト */
+  description?: string;
+  /** ラベルの左に表示する要素（アイコン・アバターなど） */
+  leading?: React.ReactNode;
+  /** ラベルの右に表示する補足（「選択不可」の理由など） */
+  hint?: string;
+  /** 選択不可にするかどうか（表示はされますが、グレーアウトされ選択できません） */
+  disabled?: boolean;
+};
+
+type ComboboxProps = Omit<React.ComponentProps<"input">, "value" | "onChange" | "onSelect" | "role"> & {
+  /** 選択肢 */
+  options: ComboboxOption[];
+  /** 入力欄の値 */
+  inputValue: string;
+  /** 入力欄の値が変わったときのハンドラー */
+  onInputValueChange: (value: string) => void;
+  /** 選択肢が選ばれたときのハンドラー */
+  onSelect: (option: ComboboxOption) => void;
+  /** 選択中の値（チェックマークを表示します） */
+  selectedValue?: string | null;
+  /** 選択肢を読み込み中かどうか */
+  isLoading?: boolean;
+  /** 選択肢が0件のときのメッセージ（省略時はリストを表示しません） */
+  emptyMessage?: string;
+  /** リストのクラス名 */
+  listClassName?: string;
+};
+
+/**
+ * コンボボックスコンポーネント
+ *
+ * 入力欄と選択肢のリストを組み合わせた、WAI-ARIA の combobox パターンに沿ったコンポーネント。
+ * 入力値と選択肢は呼び出し側で管理するため、API検索などの非同期な候補表示に使用できます。
+ *
+ * キーボード操作:
+ * - ↓ / ↑: 選択肢を移動（選択不可の選択肢はスキップ）
+ * - Enter: アクティブな選択肢を選ぶ
+ * - Escape: リストを閉じる
+ *
+ * @example
+ * ```tsx
+ * <Combobox
+ *   inputValue={keyword}
+ *   onInputValueChange={setKeyword}
+ *   options={users.map((user) => ({ value: user.id, label: user.name, description: user.email }))}
+ *   onSelect={(option) => setUserId(option.value)}
+ *   isLoading={isFetching}
+ *   emptyMessage="該当するユーザーがいません"
+ * />
+ * ```
+ *
+ * @param props - Comboboxコンポーネントのプロパティ
+ * @returns コンボボックス要素
+ */
+function Combobox({
+  options,
+  inputValue,
+  onInputValueChange,
+  onSelect,
+  selectedValue = null,
+  isLoading = false,
+  emptyMessage,
+  className,
+  listClassName,
+  id,
+  disabled,
+  onFocus,
+  onBlur,
+  onKeyDown,
+  ...props
+}: ComboboxProps) {
+  const generatedId = React.useId();
+  const inputId = id ?? generatedId;
+  const listboxId = `${inputId}-listbox`;
+
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [activeValue, setActiveValue] = React.useState<string | null>(null);
+
+  // 選択肢が入れ替わってアクティブな値が無くなった場合は、アクティブな選択肢なしとして扱う
+  const activeIndex = options.findIndex((option) => option.value === activeValue && option.disabled !== true);
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+  const activeOptionId = activeIndex === -1 ? undefined : getOptionId(activeIndex);
+
+  const hasOptions = options.length > 0;
+  const showEmpty = !hasOptions && !isLoading && emptyMessage !== undefined && inputValue.trim() !== "";
+  const isListVisible = isOpen && (hasOptions || isLoading || showEmpty);
+
+  React.useEffect(() => {
+    if (activeOptionId === undefined) {
+      return;
+    }
+
+    document.getElementById(activeOptionId)?.scrollIntoView({ block: "nearest" });
+  }, [activeOptionId]);
+
+  /**
+   * 選択不可の選択肢をスキップして、direction の方向にある次の選択肢を返す
+   */
+  const findNextEnabled = (from: number, direction: 1 | -1) => {
+    for (let step = 1; step <= options.length; step++) {
+      const index = (from + direction * step + options.length) % options.length;
+
+      if (options[index].disabled !== true) {
+        return options[index];
+      }
+    }
+
+    return null;
+  };
+
+  const selectOption = (option: ComboboxOption) => {
+    if (option.disabled === true) {
+      return;
+    }
+
+    onSelect(option);
+    setIsOpen(false);
+    setActiveValue(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    onKeyDown?.(event);
+
+    if (event.defaultPrevented) {
+      return;
+    }
+
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        event.preventDefault();
+        setIsOpen(true);
+
+        const direction = event.key === "ArrowDown" ? 1 : -1;
+        const start = activeIndex === -1 ? (direction === 1 ? -1 : 0) : activeIndex;
+
+        setActiveValue(hasOptions ? (findNextEnabled(start, direction)?.value ?? null) : null);
+        break;
+      }
+      case "Enter": {
+        if (isListVisible && activeIndex !== -1) {
+          // フォームの送信を防ぎ、選択肢の確定として扱う
+          event.preventDefault();
+          selectOption(options[activeIndex]);
+        }
+        break;
+      }
+      case "Escape": {
+        if (isListVisible) {
+          // ダイアログ内で使用した場合に、ダイアログごと閉じないようにする
+          event.preventDefault();
+          event.stopPropagation();
+          setIsOpen(false);
+          setActiveValue(null);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  };
+
+  return (
+    <div data-slot="combobox" className={cn("relative", className)}>
+      <Input
+        id={inputId}
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={isListVisible}
+        aria-controls={listboxId}
+        aria-activedescendant={isListVisible ? activeOptionId : undefined}
+        value={inputValue}
+        disabled={disabled}
+        onChange={(event) => {
+          onInputValueChange(event.target.value);
+          setIsOpen(true);
+          setActiveValue(null);
+        }}
+        onFocus={(event) => {
+          onFocus?.(event);
+          setIsOpen(true);
+        }}
+        onBlur={(event) => {
+          onBlur?.(event);
+          setIsOpen(false);
+          setActiveValue(null);
+        }}
+        onKeyDown={handleKeyDown}
+        {...props}
+      />
+      {isLoading && (
+        <Loader2Icon
+          className="text-muted-foreground pointer-events-none absolute top-1/2 right-3 size-4 -translate-y-1/2 animate-spin"
+          aria-hidden="true"
+        />
+      )}
+
+      <ul
+        id={listboxId}
+        role="listbox"
+        data-slot="combobox-list"
+        hidden={!isListVisible}
+        className={cn(
+          "bg-popover text-popover-foreground absolute top-full right-0 left-0 z-50 mt-1 max-h-64 overflow-y-auto rounded-md border p-1 shadow-md",
+          listClassName
+        )}
+      >
+        {options.map((option, index) => {
+          const isActive = index === activeIndex;
+          const isSelected = option.value === selectedValue;
+
+          return (
+            <li
+              key={option.value}
+              id={getOptionId(index)}
+              role="option"
+              aria-selected={isSelected}
+              aria-disabled={option.disabled === true}
+              data-active={isActive}
+              data-disabled={option.disabled === true}
+              className={cn(
+                "relative flex cursor-default items-center gap-2 rounded-sm py-1.5 pr-8 pl-2 text-sm select-none",
+                "data-[active=true]:bg-accent data-[active=true]:text-accent-foreground",
+                "data-[disabled=true]:cursor-not-allowed data-[disabled=true]:opacity-50"
+              )}
+              // 入力欄のフォーカスを保ったまま選択できるようにする
+              onMouseDown={(event) => event.preventDefault()}
+              onMouseEnter={() => {
+                if (option.disabled !== true) {
+                  setActiveValue(option.value);
+                }
+              }}
+              onClick={() => selectOption(option)}
+            >
+              {option.leading}
+              <div className="flex min-w-0 flex-1 flex-col">
+                <span className="truncate">{option.label}</span>
+                {option.description !== undefined && <span className="text-muted-foreground truncate text-xs">{option.description}</span>}
+              </div>
+              {option.hint !== undefined && <span className="text-muted-foreground shrink-0 text-xs">{option.hint}</span>}
+              {isSelected && (
+                <span className="absolute right-2 flex size-3.5 items-center justify-center">
+                  <CheckIcon className="size-4" />
+                </span>
+              )}
+            </li>
+          );
+        })}
+        {!hasOptions && isLoading && (
+          <li role="presentation" className="text-muted-foreground px-2 py-1.5 text-sm">
+            検索中...
+          </li>
+        )}
+        {showEmpty && (
+          <li role="presentation" className="text-muted-foreground px-2 py-1.5 text-sm">
+            {emptyMessage}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+export { Combobox, type ComboboxOption };
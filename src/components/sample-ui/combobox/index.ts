@@ -0,0 +1,6 @@
+/**
+ * Combobox コンポーネントのエクスポート
+ *
+ * @module components/ui/combobox
+ */
+export { Combobox, type ComboboxOption } from "./combobox";
@@ -65,7 +65,8 @@ type ControlledSelectFieldProps<TFieldValues extends FieldValues> = {
   control: Control<TFieldValues>;
   name: FieldPath<TFieldValues>;
   label: string;
-  options: Array<{ value: string; label: string }>;
+  /** 選択肢（disabled の選択肢は表示のみで選択できません） */
+  options: Array<{ value: string; label: string; disabled?: boolean }>;
   required?: boolean;
 };
 
@@ -95,7 +96,7 @@ export function ControlledSelectField<TFieldValues extends FieldValues>({
             </SelectTrigger>
             <SelectContent>
               {options.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
+                <SelectItem key={option.value} value={option.value} disabled={option.disabled}>
                   {option.label}
                 </SelectItem>
               ))}
@@ -27,3 +27,5 @@
 
 export * from "./error-boundary";
 export * from "./loading-spinner";
+export * from "./mutation-queue";
+export * from "./toast";
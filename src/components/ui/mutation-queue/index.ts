@@ -0,0 +1 @@
+export * from "./mutation-queue-indicator";
@@ -0,0 +1,158 @@
+// ================================================================================
+// Imports
+// ================================================================================
+
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, userEvent, within } from "@storybook/test";
+import { onlineManager, useMutation } from "@tanstack/react-query";
+
+import { registerQueueableMutation, useMutationQueueStore } from "@/lib/mutation-queue";
+
+import { MutationQueueIndicator } from "./mutation-queue-indicator";
+
+// ================================================================================
+// ストーリー用のミューテーション
+// ================================================================================
+
+const saveQueue = registerQueueableMutation({
+  name: "stories/save",
+  label: "ストーリーの保存",
+  mutationFn: () => Promise.resolve(),
+  invalidates: () => [],
+});
+
+/**
+ * 送信待ちにできるミューテーションを実行するボタン
+ */
+const SaveButton = () => {
+  const saveMutation = useMutation({ ...saveQueue(), mutationFn: () => Promise.resolve() });
+
+  return (
+    <button type="button" onClick={() => saveMutation.mutate(undefined)} className="m-4 rounded border px-3 py-1">
+      保存
+    </button>
+  );
+};
+
+// ================================================================================
+// メタデータ
+// ================================================================================
+
+/**
+ * MutationQueueIndicatorコンポーネントのストーリー
+ *
+ * 送信待ちの操作の件数と、再送時に反映できなかった操作（競合）を表示するコンポーネント。
+ * AppProvider（Storybookのデコレーター）で配置されているため、各ストーリーではコンポーネントを配置せずに状態だけを用意します。
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "components/ui/MutationQueueIndicator",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: MutationQueueIndicator,
+  render: () => <></>,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "オフライン中・通信エラーで送信待ちになった操作と、再送時の競合を画面左下に表示するコンポーネント。\n\n" +
+          "**主な機能:**\n" +
+          "- 送信待ちの操作の件数・操作名の表示（接続が回復すると操作した順に送信）\n" +
+          "- 再送時に 4xx エラーで反映できなかった操作（競合）の表示\n\n" +
+          "**対象の操作:**\n" +
+          "- lib/mutation-queue の registerQueueableMutation で登録したミューテーション（メンバーロールの変更・プロジェクトの編集など）",
+      },
+    },
+  },
+
+  // ================================================================================
+  // 各ストーリーの前に競合をクリア
+  // ================================================================================
+  beforeEach: () => {
+    useMutationQueueStore.getState().clearConflicts();
+  },
+
+  // ================================================================================
+  // 自動生成ドキュメント
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof MutationQueueIndicator>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ================================================================================
+// ストーリー
+// ================================================================================
+
+/**
+ * オフライン中の送信待ち
+ */
+export const Queued: Story = {
+  name: "送信待ち",
+  parameters: {
+    docs: {
+      description: {
+        story: "オフライン中に保存すると送信待ちになり、件数と操作名が表示されます。",
+      },
+    },
+  },
+  render: () => <SaveButton />,
+  beforeEach: () => {
+    onlineManager.setOnline(false);
+
+    // 接続を回復すると、送信待ちの操作が送信されて表示が消える
+    return () => onlineManager.setOnline(true);
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(canvas.getByRole("button", { name: "保存" }));
+
+    const indicator = await canvas.findByRole("status");
+    expect(within(indicator).getByText("送信待ちの操作が 1 件あります")).toBeInTheDocument();
+    expect(within(indicator).getByText("ストーリーの保存")).toBeInTheDocument();
+  },
+};
+
+/**
+ * 再送時の競合
+ */
+export const Conflict: Story = {
+  name: "競合",
+  parameters: {
+    docs: {
+      description: {
+        story: "再送時に 4xx エラーになった操作。閉じるボタンで閉じるまで表示されます。",
+      },
+    },
+  },
+  beforeEach: () => {
+    useMutationQueueStore.getState().addConflict({
+      label: "メンバーロールの変更",
+      message: "プロジェクトマネージャーが1人もいなくなるため、この操作は実行できません。",
+    });
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    const conflict = await canvas.findByRole("alert");
+    expect(within(conflict).getByText("メンバーロールの変更を反映できませんでした")).toBeInTheDocument();
+
+    await userEvent.click(canvas.getByRole("button", { name: "メンバーロールの変更の競合を閉じる" }));
+    expect(canvas.queryByRole("alert")).not.toBeInTheDocument();
+  },
+};
@@ -0,0 +1,81 @@
+"use client";
+
+// ================================================================================
+// Imports
+// ================================================================================
+
+import { useMutationState } from "@tanstack/react-query";
+import { CloudOffIcon, TriangleAlertIcon, XIcon } from "lucide-react";
+
+import { getQueuedMutationLabel, isQueuedMutation, MUTATION_QUEUE_KEY, useMutationQueueStore } from "@/lib/mutation-queue";
+
+// ================================================================================
+// コンポーネント
+// ================================================================================
+
+/**
+ * 送信待ちの操作・再送時の競合の表示
+ *
+ * lib/mutation-queue に登録されたミューテーションのうち、オフライン中・通信エラーで送信待ちになった操作の件数と、
+ * 再送時に 4xx エラーで反映できなかった操作（競合）を画面左下に表示します。
+ * 競合は閉じるボタンで閉じるまで表示します。
+ * アプリケーション全体で1つだけ配置してください（AppProvider で配置しています）。
+ *
+ * @example
+ * ```tsx
+ * <MutationQueueIndicator />
+ * ```
+ */
+export const MutationQueueIndicator = () => {
+  const queuedMutations = useMutationState({
+    filters: { mutationKey: [MUTATION_QUEUE_KEY], status: "pending", predicate: isQueuedMutation },
+    select: (mutation) => ({ id: mutation.mutationId, label: getQueuedMutationLabel(mutation) }),
+  });
+  const conflicts = useMutationQueueStore((state) => state.conflicts);
+  const dismissConflict = useMutationQueueStore((state) => state.dismissConflict);
+
+  if (queuedMutations.length === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-label="送信待ちの操作" className="fixed bottom-4 left-4 z-50 w-80 max-w-[calc(100vw-2rem)] space-y-2 text-sm">
+      {queuedMutations.length > 0 && (
+        <div role="status" className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-amber-900 shadow-lg">
+          <p className="flex items-center gap-2 font-medium">
+            <CloudOffIcon className="size-4 shrink-0" aria-hidden="true" />
+            送信待ちの操作が {queuedMutations.length} 件あります
+          </p>
+          <p className="mt-1 text-xs">接続が回復すると、操作した順に送信します。</p>
+          <ul className="mt-2 list-disc pl-5 text-xs">
+            {queuedMutations.map(({ id, label }) => (
+              <li key={id}>{label}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {conflicts.map((conflict) => (
+        <div
+          key={conflict.id}
+          role="alert"
+          className="relative rounded-lg border border-red-200 bg-red-50 px-4 py-3 pr-10 text-red-900 shadow-lg"
+        >
+          <p className="flex items-center gap-2 font-medium">
+            <TriangleAlertIcon className="size-4 shrink-0" aria-hidden="true" />
+            {conflict.label}を反映できませんでした
+          </p>
+          <p className="mt-1">{conflict.message}</p>
+          <button
+            type="button"
+            onClick={() => dismissConflict(conflict.id)}
+            aria-label={`${conflict.label}の競合を閉じる`}
+            className="absolute top-2 right-2 rounded p-1 opacity-70 hover:bg-black/5 hover:opacity-100"
+          >
+            <XIcon className="size-4" aria-hidden="true" />
+          </button>
+        </div>
+      ))}
+    </section>
+  );
+};
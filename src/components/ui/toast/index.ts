@@ -0,0 +1 @@
+export * from "./toast-viewport";
@@ -0,0 +1,207 @@
+// ================================================================================
+// Imports
+// ================================================================================
+
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, fn, userEvent, within } from "@storybook/test";
+import { AxiosError, AxiosHeaders } from "axios";
+
+import { ApiError, ProblemTypes } from "@/lib/api-error";
+import { handleProblem } from "@/lib/problem-notices";
+import { toast, useToastStore } from "@/lib/toast";
+
+import { ToastViewport } from "./toast-viewport";
+
+// ================================================================================
+// メタデータ
+// ================================================================================
+
+/**
+ * ToastViewportコンポーネントのストーリー
+ *
+ * lib/toast で追加されたトースト通知を画面右下に表示するコンポーネント。
+ * AppProvider（Storybookのデコレーター）で配置されているため、各ストーリーではコンポーネントを配置せずに
+ * toast.success / toast.error などでトーストを追加し、表示を確認します。
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "components/ui/ToastViewport",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: ToastViewport,
+  render: () => <></>,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "ミューテーションの結果やAPIエラーをトーストで通知するコンポーネント。\n\n" +
+          "**主な機能:**\n" +
+          "- 成功・エラー・情報の表示\n" +
+          "- 「元に戻す」「再試行」などの操作ボタン\n" +
+          "- 一定時間で自動的に閉じる（マウスを乗せている間・フォーカスがある間は停止）\n" +
+          "- 同時に表示する件数の制限（超えた分は順に表示）\n\n" +
+          "**使用場面:**\n" +
+          "- ミューテーションの meta.successMessage / meta.errorMessage（lib/tanstack-query の createMutationCache）\n" +
+          "- 表示方法が toast の問題の種類のエラー（lib/problem-notices の handleProblem）",
+      },
+    },
+  },
+
+  // ================================================================================
+  // 各ストーリーの前に表示中のトーストをクリア
+  // ================================================================================
+  beforeEach: () => {
+    useToastStore.getState().clearToasts();
+  },
+
+  // ================================================================================
+  // 自動生成ドキュメント
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof ToastViewport>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ================================================================================
+// ストーリー
+// ================================================================================
+
+/**
+ * 成功
+ */
+export const Success: Story = {
+  name: "成功",
+  parameters: {
+    docs: {
+      description: {
+        story: "操作が成功した場合のトースト。閉じるボタンで閉じられます。",
+      },
+    },
+  },
+  beforeEach: () => {
+    toast.success({ title: "プロジェクトを作成しました", duration: null });
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    const item = await canvas.findByRole("status");
+    expect(within(item).getByText("プロジェクトを作成しました")).toBeInTheDocument();
+
+    await userEvent.click(canvas.getByRole("button", { name: "通知を閉じる" }));
+    expect(canvas.queryByRole("status")).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * 操作ボタン付き
+ */
+const undo = fn();
+
+export const WithAction: Story = {
+  name: "元に戻す",
+  parameters: {
+    docs: {
+      description: {
+        story: "操作ボタン付きのトースト。ボタンをクリックすると処理を実行し、トーストを閉じます。",
+      },
+    },
+  },
+  beforeEach: () => {
+    undo.mockClear();
+    toast.success({ title: "プロジェクトを削除しました", action: { label: "元に戻す", onClick: undo }, duration: null });
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("button", { name: "元に戻す" }));
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(canvas.queryByRole("status")).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * 問題の種類のエラー
+ */
+export const ProblemError: Story = {
+  name: "APIエラー",
+  parameters: {
+    docs: {
+      description: {
+        story: "表示方法が toast の問題の種類（クレジット不足）のエラー。拡張メンバーから組み立てたメッセージを表示します。",
+      },
+    },
+  },
+  beforeEach: () => {
+    const problem = {
+      type: ProblemTypes.INSUFFICIENT_CREDIT,
+      title: "Insufficient Credit",
+      status: 402,
+      detail: "Your credit balance is too low",
+      balance: 120,
+      required: 1500,
+    };
+
+    handleProblem(
+      new ApiError(
+        new AxiosError(problem.title, "ERR_BAD_REQUEST", undefined, undefined, {
+          data: problem,
+          status: problem.status,
+          statusText: problem.title,
+          headers: {},
+          config: { headers: new AxiosHeaders() },
+        })
+      ),
+      ["toast"]
+    );
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    const item = await canvas.findByRole("alert");
+    expect(within(item).getByText("クレジットが不足しています")).toBeInTheDocument();
+    expect(within(item).getByText(/1,500 クレジットが必要です（残高: 120 クレジット）/)).toBeInTheDocument();
+  },
+};
+
+/**
+ * 表示件数の制限
+ */
+export const Queued: Story = {
+  name: "表示待ち",
+  parameters: {
+    docs: {
+      description: {
+        story: "同時に表示するのは3件までで、超えた分は表示中のトーストが閉じてから順に表示します。",
+      },
+    },
+  },
+  beforeEach: () => {
+    ["メンバーを追加しました", "メンバーロールを更新しました", "メンバーを削除しました", "プロジェクトを更新しました"].forEach((title) => {
+      toast.success({ title, duration: null });
+    });
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findAllByRole("status")).toHaveLength(3);
+    expect(canvas.getByText("ほか 1 件の通知があります")).toBeInTheDocument();
+
+    await userEvent.click(canvas.getAllByRole("button", { name: "通知を閉じる" })[0]);
+    expect(await canvas.findByText("プロジェクトを更新しました")).toBeInTheDocument();
+    expect(canvas.queryByText(/件の通知があります/)).not.toBeInTheDocument();
+  },
+};
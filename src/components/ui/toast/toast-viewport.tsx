@@ -0,0 +1,124 @@
+"use client";
+
+// ================================================================================
+// Imports
+// ================================================================================
+
+import { AlertCircleIcon, CheckCircle2Icon, InfoIcon, XIcon } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+import { type Toast, TOAST_LIMIT, type ToastVariant, useToastStore } from "@/lib/toast";
+import { cn } from "@/utils/cn";
+
+// ================================================================================
+// 定数
+// ================================================================================
+
+const VARIANT_STYLES = {
+  default: { className: "border-gray-200 bg-white text-gray-900", icon: InfoIcon },
+  success: { className: "border-green-200 bg-green-50 text-green-900", icon: CheckCircle2Icon },
+  error: { className: "border-red-200 bg-red-50 text-red-900", icon: AlertCircleIcon },
+} as const satisfies Record<ToastVariant, { className: string; icon: React.ElementType }>;
+
+// ================================================================================
+// コンポーネント
+// ================================================================================
+
+/**
+ * トースト1件の表示
+ *
+ * duration が経過すると閉じます。マウスを乗せている間・フォーカスがある間は残り時間の計測を止めます。
+ */
+const ToastItem = ({ toast }: { toast: Toast }) => {
+  const dismissToast = useToastStore((state) => state.dismissToast);
+  const [isPaused, setIsPaused] = useState(false);
+  // 一時停止した場合に、再開後に使う残り時間
+  const remainingRef = useRef(toast.duration);
+
+  useEffect(() => {
+    const remaining = remainingRef.current;
+
+    if (isPaused || remaining === null) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    const timer = setTimeout(() => dismissToast(toast.id), remaining);
+
+    return () => {
+      clearTimeout(timer);
+      remainingRef.current = remaining - (Date.now() - startedAt);
+    };
+  }, [isPaused, dismissToast, toast.id]);
+
+  const { className, icon: Icon } = VARIANT_STYLES[toast.variant];
+
+  return (
+    <div
+      role={toast.variant === "error" ? "alert" : "status"}
+      className={cn("relative flex items-start gap-3 rounded-lg border px-4 py-3 pr-10 text-sm shadow-lg", className)}
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+      onFocus={() => setIsPaused(true)}
+      onBlur={() => setIsPaused(false)}
+    >
+      <Icon className="mt-0.5 size-4 shrink-0" aria-hidden="true" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="font-medium">{toast.title}</p>
+        {toast.description !== undefined && <p className="opacity-90">{toast.description}</p>}
+        {toast.action !== undefined && (
+          <button
+            type="button"
+            onClick={() => {
+              toast.action?.onClick();
+              dismissToast(toast.id);
+            }}
+            className="mt-1 rounded border border-current px-2 py-0.5 text-xs font-medium hover:bg-black/5"
+          >
+            {toast.action.label}
+          </button>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={() => dismissToast(toast.id)}
+        aria-label="通知を閉じる"
+        className="absolute top-2 right-2 rounded p-1 opacity-70 hover:bg-black/5 hover:opacity-100"
+      >
+        <XIcon className="size-4" aria-hidden="true" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * トースト通知の表示領域
+ *
+ * lib/toast の toast.success / toast.error などで追加されたトーストを、画面右下に古い順に積み重ねて表示します。
+ * 同時に表示するのは TOAST_LIMIT 件までで、超えた分は表示中のトーストが閉じてから順に表示します。
+ * アプリケーション全体で1つだけ配置してください（AppProvider で配置しています）。
+ *
+ * @example
+ * ```tsx
+ * <ToastViewport />
+ * ```
+ */
+export const ToastViewport = () => {
+  const toasts = useToastStore((state) => state.toasts);
+  const visibleToasts = toasts.slice(0, TOAST_LIMIT);
+  const queuedCount = toasts.length - visibleToasts.length;
+
+  return (
+    <section
+      aria-label="通知"
+      className="pointer-events-none fixed right-4 bottom-4 z-50 flex w-96 max-w-[calc(100vw-2rem)] flex-col gap-2"
+    >
+      {visibleToasts.map((toast) => (
+        <div key={toast.id} className="pointer-events-auto">
+          <ToastItem toast={toast} />
+        </div>
+      ))}
+      {queuedCount > 0 && <p className="text-right text-xs text-gray-500">ほか {queuedCount} 件の通知があります</p>}
+    </section>
+  );
+};
@@ -28,4 +28,5 @@ export const STORAGE_KEYS = {
   AUTH_TOKEN: "auth_token",
   USER_PREFERENCES: "user_preferences",
   THEME: "theme",
+  RECENT_COMMANDS: "recent_commands",
 } as const;
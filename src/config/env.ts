@@ -38,6 +38,13 @@ const createEnv = () => {
     // Storybookポート番号（オプション、Storybook環境でのみ設定される）
     STORYBOOK_PORT: z.string().optional(),
 
+    // モック認証のユーザーをシステム管理者（system_admin）にするフラグ（オプション、管理画面の確認用）
+    MOCK_SYSTEM_ADMIN: z
+      .string()
+      .refine((s) => s === "true" || s === "false")
+      .transform((s) => s === "true")
+      .optional(),
+
     // 認証モード設定（development: モック認証, production: Azure AD認証）
     AUTH_MODE: z.enum(["development", "production"]).optional().default("development"),
     // Azure AD設定（本番モード用）
@@ -54,6 +61,8 @@ const createEnv = () => {
     APP_MOCK_API_PORT: process.env.NEXT_PUBLIC_MOCK_API_PORT,
     STORYBOOK_PORT: storybookPort,
 
+    MOCK_SYSTEM_ADMIN: process.env.NEXT_PUBLIC_MOCK_SYSTEM_ADMIN,
+
     // Azure AD認証設定
     AUTH_MODE: process.env.NEXT_PUBLIC_AUTH_MODE,
     AZURE_CLIENT_ID: process.env.NEXT_PUBLIC_AZURE_CLIENT_ID,
@@ -22,6 +22,116 @@ export const paths = {
     getHref: () => "/",
   },
 
+  /**
+   * ログイン
+   * @param returnUrl - ログイン後に戻るURL（省略時はダッシュボード）
+   */
+  login: {
+    getHref: (returnUrl?: string) => (returnUrl === undefined ? "/login" : `/login?returnUrl=${encodeURIComponent(returnUrl)}`),
+  },
+
+  /**
+   * 403 Forbidden（APIが権限不足を返した場合の遷移先）
+   */
+  forbidden: {
+    getHref: () => "/forbidden",
+  },
+
+  /**
+   * ダッシュボード（ログイン後のトップページ）
+   */
+  dashboard: {
+    getHref: () => "/dashboard",
+  },
+
+  /**
+   * システム管理
+   */
+  admin: {
+    /**
+     * ユーザー管理
+     */
+    users: {
+      /**
+       * ユーザー一覧
+       */
+      list: {
+        getHref: () => "/admin/users",
+      },
+
+      /**
+       * ユーザー詳細
+       * @param id - ユーザーID
+       */
+      detail: {
+        getHref: (id: string) => `/admin/users/${id}`,
+      },
+    },
+
+    /**
+     * 監査ログ
+     */
+    auditLogs: {
+      getHref: () => "/admin/audit-logs",
+    },
+
+    /**
+     * プロジェクトテンプレート管理
+     */
+    projectTemplates: {
+      getHref: () => "/admin/project-templates",
+    },
+  },
+
+  /**
+   * プロジェクト管理
+   */
+  projects: {
+    /**
+     * プロジェクト一覧
+     */
+    list: {
+      getHref: () => "/projects",
+    },
+
+    /**
+     * プロジェクト詳細
+     * @param id - プロジェクトID
+     */
+    detail: {
+      getHref: (id: string) => `/projects/${id}`,
+    },
+
+    /**
+     * プロジェクトメンバー管理
+     * @param id - プロジェクトID
+     */
+    members: {
+      getHref: (id: string) => `/projects/${id}/members`,
+    },
+
+    /**
+     * プロジェクト設定
+     * @param id - プロジェクトID
+     */
+    settings: {
+      getHref: (id: string) => `/projects/${id}/settings`,
+    },
+  },
+
+  /**
+   * プロジェクトへの招待
+   */
+  invitations: {
+    /**
+     * 招待の承諾
+     * @param token - 招待トークン
+     */
+    accept: {
+      getHref: (token: string) => `/invitations/${token}`,
+    },
+  },
+
   /**
    * サンプルページ（デモ・参考実装）
    */
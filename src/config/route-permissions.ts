@@ -0,0 +1,119 @@
+/**
+ * ルートごとの権限要件を集中管理
+ *
+ * (protected) ルートグループ内のページに必要な権限を宣言的に定義します。
+ * ルートは先頭から順に評価され、最初に一致したルールが適用されます。
+ * そのため、より具体的なパターンを先に記述してください。
+ *
+ * @example
+ * ```ts
+ * matchRoutePermission("/projects/project-1/members")
+ * // => { rule: { pattern: "/projects/[id]/members", ... }, projectId: "project-1" }
+ * ```
+ */
+
+import type { Permission } from "@/features/projects/types";
+
+/**
+ * ルート権限ルール
+ */
+export type RoutePermissionRule = {
+  /** パスパターン（`[param]` 形式の動的セグメントに対応、前方一致） */
+  pattern: string;
+  /** ページの表示に必要な権限 */
+  permission: Permission;
+  /** プロジェクトIDを表す動的セグメント名（プロジェクト単位の権限を判定する場合に指定） */
+  projectParam?: string;
+};
+
+/**
+ * ルート権限ルール一覧
+ */
+export const ROUTE_PERMISSIONS: readonly RoutePermissionRule[] = [
+  {
+    pattern: "/admin/users",
+    permission: "system:manage_users",
+  },
+  {
+    pattern: "/admin/audit-logs",
+    permission: "system:view_audit_logs",
+  },
+  {
+    pattern: "/admin/project-templates",
+    permission: "system:admin",
+  },
+  {
+    pattern: "/projects/[id]/members",
+    permission: "project:manage_members",
+    projectParam: "id",
+  },
+  {
+    pattern: "/projects/[id]/settings",
+    permission: "project:manage_settings",
+    projectParam: "id",
+  },
+  {
+    pattern: "/projects/[id]",
+    permission: "project:view",
+    projectParam: "id",
+  },
+];
+
+/**
+ * ルート権限ルールの一致結果
+ */
+export type RoutePermissionMatch = {
+  rule: RoutePermissionRule;
+  /** projectParam に対応するプロジェクトID（プロジェクト単位のルールでない場合は null） */
+  projectId: string | null;
+};
+
+/**
+ * パスパターンとパスを照合し、動的セグメントの値を取り出す
+ *
+ * 一致しない場合は null を返します。
+ */
+const matchPattern = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = pathname.split("/").filter(Boolean);
+
+  if (pathSegments.length < patternSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (const [index, segment] of patternSegments.entries()) {
+    const pathSegment = pathSegments[index];
+    const dynamic = /^\[(.+)\]$/.exec(segment);
+
+    if (dynamic) {
+      params[dynamic[1]] = decodeURIComponent(pathSegment);
+    } else if (segment !== pathSegment) {
+      return null;
+    }
+  }
+
+  return params;
+};
+
+/**
+ * パスに適用される権限ルールを取得
+ *
+ * @param pathname - 現在のパス（例: "/projects/project-1/members"）
+ * @returns 一致したルールとプロジェクトID。権限要件のないパスの場合は null
+ */
+export const matchRoutePermission = (pathname: string): RoutePermissionMatch | null => {
+  for (const rule of ROUTE_PERMISSIONS) {
+    const params = matchPattern(rule.pattern, pathname);
+
+    if (params) {
+      return {
+        rule,
+        projectId: rule.projectParam !== undefined ? (params[rule.projectParam] ?? null) : null,
+      };
+    }
+  }
+
+  return null;
+};
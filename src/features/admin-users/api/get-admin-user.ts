@@ -0,0 +1,61 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type AdminUserOutput, adminUserOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ユーザー詳細取得（システム管理者向け）
+ *
+ * @param userId - ユーザーID
+ * @returns ユーザー詳細（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const user = await getAdminUser({ userId: "user-1" })
+ * console.log(user.data) // User
+ * ```
+ */
+export const getAdminUser = async ({ userId }: { userId: string }): Promise<AdminUserOutput> => {
+  const response = await api.get(`/api/v1/admin/users/${userId}`);
+
+  return adminUserOutputSchema.parse(response);
+};
+
+export const getAdminUserQueryOptions = ({ userId }: { userId: string }) => {
+  return queryOptions({
+    queryKey: ["admin", "users", userId] as const,
+    queryFn: () => getAdminUser({ userId }),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseAdminUserOptions = {
+  userId: string;
+  queryConfig?: QueryConfig<typeof getAdminUserQueryOptions>;
+};
+
+/**
+ * ユーザー詳細取得フック（システム管理者向け）
+ *
+ * @example
+ * ```tsx
+ * const { data } = useAdminUser({ userId: "user-1" })
+ * console.log(data.data) // User
+ * ```
+ */
+export const useAdminUser = ({ userId, queryConfig }: UseAdminUserOptions) => {
+  return useSuspenseQuery({
+    ...getAdminUserQueryOptions({ userId }),
+    ...queryConfig,
+  });
+};
@@ -0,0 +1,67 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type AdminUsersOutput, adminUsersOutputSchema } from "../types/api";
+import type { AdminUsersFilterInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ユーザー一覧取得（システム管理者向け）
+ *
+ * @param filters - 検索条件（キーワード・ステータス）
+ * @returns ユーザー一覧（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const users = await getAdminUsers({ filters: { q: "tanaka", status: "active" } })
+ * console.log(users.data) // User[]
+ * ```
+ */
+export const getAdminUsers = async ({ filters }: { filters: AdminUsersFilterInput }): Promise<AdminUsersOutput> => {
+  const response = await api.get("/api/v1/admin/users", {
+    params: {
+      q: filters.q.trim() || undefined,
+      is_active: filters.status === "all" ? undefined : filters.status === "active",
+    },
+  });
+
+  return adminUsersOutputSchema.parse(response);
+};
+
+export const getAdminUsersQueryOptions = ({ filters }: { filters: AdminUsersFilterInput }) => {
+  return queryOptions({
+    queryKey: ["admin", "users", filters] as const,
+    queryFn: () => getAdminUsers({ filters }),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseAdminUsersOptions = {
+  filters: AdminUsersFilterInput;
+  queryConfig?: QueryConfig<typeof getAdminUsersQueryOptions>;
+};
+
+/**
+ * ユーザー一覧取得フック（システム管理者向け）
+ *
+ * @example
+ * ```tsx
+ * const { data } = useAdminUsers({ filters: { q: "", status: "all" } })
+ * console.log(data.data) // User[]
+ * ```
+ */
+export const useAdminUsers = ({ filters, queryConfig }: UseAdminUsersOptions) => {
+  return useSuspenseQuery({
+    ...getAdminUsersQueryOptions({ filters }),
+    ...queryConfig,
+  });
+};
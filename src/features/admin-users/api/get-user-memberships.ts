@@ -0,0 +1,61 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type UserMembershipsOutput, userMembershipsOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ユーザーのプロジェクト所属一覧取得
+ *
+ * @param userId - ユーザーID
+ * @returns プロジェクト情報を含む所属一覧（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const memberships = await getUserMemberships({ userId: "user-1" })
+ * console.log(memberships.data) // UserMembership[]
+ * ```
+ */
+export const getUserMemberships = async ({ userId }: { userId: string }): Promise<UserMembershipsOutput> => {
+  const response = await api.get(`/api/v1/admin/users/${userId}/memberships`);
+
+  return userMembershipsOutputSchema.parse(response);
+};
+
+export const getUserMembershipsQueryOptions = ({ userId }: { userId: string }) => {
+  return queryOptions({
+    queryKey: ["admin", "users", userId, "memberships"] as const,
+    queryFn: () => getUserMemberships({ userId }),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseUserMembershipsOptions = {
+  userId: string;
+  queryConfig?: QueryConfig<typeof getUserMembershipsQueryOptions>;
+};
+
+/**
+ * ユーザーのプロジェクト所属一覧取得フック
+ *
+ * @example
+ * ```tsx
+ * const { data } = useUserMemberships({ userId: "user-1" })
+ * console.log(data.data) // UserMembership[]
+ * ```
+ */
+export const useUserMemberships = ({ userId, queryConfig }: UseUserMembershipsOptions) => {
+  return useSuspenseQuery({
+    ...getUserMembershipsQueryOptions({ userId }),
+    ...queryConfig,
+  });
+};
@@ -0,0 +1,5 @@
+export * from "./get-admin-user";
+export * from "./get-admin-users";
+export * from "./get-user-memberships";
+export * from "./update-user-roles";
+export * from "./update-user-status";
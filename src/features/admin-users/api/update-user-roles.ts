@@ -0,0 +1,69 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { adminUserOutputSchema } from "../types/api";
+import type { UpdateUserRolesInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ユーザーのシステムロール更新
+ *
+ * system_admin の付与・剥奪に使用します。指定したロールで置き換えられます。
+ *
+ * @param params - ユーザーIDと更新後のロール一覧
+ * @returns 更新されたユーザー（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * await updateUserRoles({ userId: "user-1", data: { roles: ["user", "system_admin"] } })
+ * ```
+ */
+export const updateUserRoles = async ({ userId, data }: { userId: string; data: UpdateUserRolesInput }) => {
+  const response = await api.patch(`/api/v1/admin/users/${userId}/roles`, data);
+
+  return adminUserOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseUpdateUserRolesOptions = {
+  mutationConfig?: MutationConfig<typeof updateUserRoles>;
+};
+
+/**
+ * システムロール更新フック
+ *
+ * ミューテーション成功時にユーザー関連（一覧・詳細）のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const updateRolesMutation = useUpdateUserRoles()
+ *
+ * updateRolesMutation.mutate({ userId: "user-1", data: { roles: ["user"] } })
+ * ```
+ */
+export const useUpdateUserRoles = ({ mutationConfig }: UseUpdateUserRolesOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "users"] }).catch((error) => {
+        logger.error("ユーザークエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: updateUserRoles,
+  });
+};
@@ -0,0 +1,67 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { adminUserOutputSchema } from "../types/api";
+import type { UpdateUserStatusInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ユーザーの有効化・無効化
+ *
+ * @param params - ユーザーIDと更新データ
+ * @returns 更新されたユーザー（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * await updateUserStatus({ userId: "user-1", data: { is_active: false } })
+ * ```
+ */
+export const updateUserStatus = async ({ userId, data }: { userId: string; data: UpdateUserStatusInput }) => {
+  const response = await api.patch(`/api/v1/admin/users/${userId}/status`, data);
+
+  return adminUserOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseUpdateUserStatusOptions = {
+  mutationConfig?: MutationConfig<typeof updateUserStatus>;
+};
+
+/**
+ * ユーザー有効化・無効化フック
+ *
+ * ミューテーション成功時にユーザー関連（一覧・詳細）のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const updateStatusMutation = useUpdateUserStatus()
+ *
+ * updateStatusMutation.mutate({ userId: "user-1", data: { is_active: false } })
+ * ```
+ */
+export const useUpdateUserStatus = ({ mutationConfig }: UseUpdateUserStatusOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "users"] }).catch((error) => {
+        logger.error("ユーザークエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: updateUserStatus,
+  });
+};
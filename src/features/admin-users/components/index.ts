@@ -0,0 +1,2 @@
+export * from "./system-role-badge";
+export * from "./user-status-badge";
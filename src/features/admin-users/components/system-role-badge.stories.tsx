@@ -0,0 +1,33 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+
+import { SystemRoleBadge } from "./system-role-badge";
+
+const meta = {
+  title: "features/admin-users/components/SystemRoleBadge",
+  component: SystemRoleBadge,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof SystemRoleBadge>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * システム管理者バッジ
+ */
+export const SystemAdmin: Story = {
+  args: {
+    role: "system_admin",
+  },
+};
+
+/**
+ * 一般ユーザーバッジ
+ */
+export const User: Story = {
+  args: {
+    role: "user",
+  },
+};
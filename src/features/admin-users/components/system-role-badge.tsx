@@ -0,0 +1,32 @@
+import type { SystemRole } from "../types";
+
+type SystemRoleBadgeProps = {
+  role: SystemRole;
+  className?: string;
+};
+
+/**
+ * システムロールを表示するバッジコンポーネント
+ *
+ * @param role システムロール
+ * @param className 追加のCSSクラス
+ *
+ * @example
+ * ```tsx
+ * <SystemRoleBadge role="system_admin" />
+ * ```
+ */
+export const SystemRoleBadge = ({ role, className = "" }: SystemRoleBadgeProps) => {
+  const config =
+    role === "system_admin"
+      ? { label: "システム管理者", colors: "bg-red-100 text-red-800 border-red-200" }
+      : { label: "一般ユーザー", colors: "bg-gray-100 text-gray-800 border-gray-200" };
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors ${config.colors} ${className}`}
+    >
+      {config.label}
+    </span>
+  );
+};
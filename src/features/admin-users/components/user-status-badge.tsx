@@ -0,0 +1,25 @@
+type UserStatusBadgeProps = {
+  isActive: boolean;
+};
+
+/**
+ * ユーザーの有効・無効状態を表示するバッジコンポーネント
+ *
+ * @param isActive 有効なユーザーかどうか
+ *
+ * @example
+ * ```tsx
+ * <UserStatusBadge isActive={user.is_active} />
+ * ```
+ */
+export const UserStatusBadge = ({ isActive }: UserStatusBadgeProps) => {
+  return (
+    <span
+      className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
+        isActive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+      }`}
+    >
+      {isActive ? "有効" : "無効"}
+    </span>
+  );
+};
@@ -0,0 +1,33 @@
+/**
+ * ユーザー管理機能のメッセージ定数
+ *
+ * エラーメッセージ、確認メッセージなど、
+ * ユーザーに表示されるメッセージを一元管理します。
+ *
+ * @module features/admin-users/constants/messages
+ */
+
+export const ADMIN_USER_MESSAGES = {
+  /**
+   * エラーメッセージ
+   */
+  ERRORS: {
+    STATUS_UPDATE_FAILED: "ユーザーステータスの更新に失敗しました",
+    ROLE_UPDATE_FAILED: "システムロールの更新に失敗しました",
+  },
+
+  /**
+   * 確認メッセージ
+   */
+  CONFIRM: {
+    activate: (userName: string) => `「${userName}」を有効化しますか？`,
+    deactivate: (userName: string) => `「${userName}」を無効化しますか？無効化されたユーザーはログインできなくなります。`,
+    grantAdmin: (userName: string) => `「${userName}」にシステム管理者権限を付与しますか？`,
+    revokeAdmin: (userName: string) => `「${userName}」のシステム管理者権限を剥奪しますか？`,
+  },
+
+  /**
+   * 自分自身に対する操作の制限
+   */
+  SELF_OPERATION_DISABLED: "自分自身のステータスやシステムロールは変更できません",
+} as const;
@@ -0,0 +1,4 @@
+export * from "./api";
+export * from "./components";
+export * from "./routes";
+export * from "./types";
@@ -0,0 +1,150 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { paths } from "@/config/paths";
+import { useUser } from "@/features/auth/stores/auth-store";
+
+import { useAdminUser, useUpdateUserRoles, useUpdateUserStatus, useUserMemberships } from "../../api";
+import { ADMIN_USER_MESSAGES } from "../../constants/messages";
+import type { SystemRole } from "../../types";
+
+/**
+ * ユーザー詳細ページで実行できる管理操作
+ */
+export type UserAdminAction = "activate" | "deactivate" | "grant_admin" | "revoke_admin";
+
+type UseAdminUserDetailLogicProps = {
+  userId: string;
+};
+
+/**
+ * system_admin を付与・剥奪した後のロール一覧を計算する
+ *
+ * ロールが空にならないよう、剥奪時は一般ユーザー（user）ロールを残します。
+ */
+const toggleSystemAdmin = (roles: SystemRole[], grant: boolean): SystemRole[] => {
+  if (grant) {
+    return roles.includes("system_admin") ? roles : [...roles, "system_admin"];
+  }
+
+  const rest = roles.filter((role) => role !== "system_admin");
+
+  return rest.length > 0 ? rest : ["user"];
+};
+
+/**
+ * ユーザー詳細ページのロジックを管理するカスタムフック
+ *
+ * ユーザー情報とプロジェクト所属の取得、有効化・無効化、system_admin の付与・剥奪を提供します。
+ * 自分自身に対する操作は、管理者が誤って自分を締め出すことを防ぐため無効化します。
+ *
+ * @param userId - ユーザーID
+ *
+ * @returns ユーザー詳細の状態と操作関数
+ * @returns user - ユーザー情報
+ * @returns memberships - プロジェクト所属一覧
+ * @returns isSelf - ログインユーザー自身かどうか
+ * @returns isAdmin - system_admin ロールを持っているかどうか
+ * @returns handleBackToList - ユーザー一覧ページへ遷移
+ * @returns handleViewProject - プロジェクト詳細ページへ遷移
+ * @returns handleAction - 管理操作の実行（成功時に true を返す）
+ * @returns actionError - 管理操作のエラーメッセージ
+ * @returns isProcessing - 管理操作の実行中フラグ
+ *
+ * @example
+ * ```tsx
+ * const { user, memberships, handleAction, isProcessing } = useAdminUserDetailLogic({ userId: 'user-1' })
+ *
+ * <button onClick={() => handleAction('deactivate')} disabled={isProcessing}>無効化</button>
+ * ```
+ */
+export const useAdminUserDetailLogic = ({ userId }: UseAdminUserDetailLogicProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const router = useRouter();
+  const currentUser = useUser();
+  const { data: userData } = useAdminUser({ userId });
+  const { data: membershipsData } = useUserMemberships({ userId });
+  const updateStatusMutation = useUpdateUserStatus();
+  const updateRolesMutation = useUpdateUserRoles();
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const user = userData.data;
+  const isSelf = currentUser?.id === user.id;
+  const isAdmin = user.roles.includes("system_admin");
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * ユーザー一覧ページへ遷移
+   */
+  const handleBackToList = () => {
+    router.push(paths.admin.users.list.getHref());
+  };
+
+  /**
+   * プロジェクト詳細ページへ遷移
+   */
+  const handleViewProject = (projectId: string) => {
+    router.push(`/projects/${projectId}`);
+  };
+
+  /**
+   * 管理操作の実行
+   *
+   * 処理フロー:
+   * 1. 操作に応じてステータス更新またはロール更新のリクエストを送信
+   * 2. 成功時: ユーザー関連のクエリが再取得され、true を返す
+   * 3. エラー時: エラーメッセージを状態に保存し、false を返す
+   */
+  const handleAction = async (action: UserAdminAction): Promise<boolean> => {
+    if (isSelf) {
+      setActionError(ADMIN_USER_MESSAGES.SELF_OPERATION_DISABLED);
+
+      return false;
+    }
+
+    setActionError(null);
+
+    const isStatusAction = action === "activate" || action === "deactivate";
+    const request = isStatusAction
+      ? updateStatusMutation.mutateAsync({ userId, data: { is_active: action === "activate" } })
+      : updateRolesMutation.mutateAsync({ userId, data: { roles: toggleSystemAdmin(user.roles, action === "grant_admin") } });
+
+    return request.then(
+      () => true,
+      (error: Error) => {
+        setActionError(
+          error?.message ??
+            (isStatusAction ? ADMIN_USER_MESSAGES.ERRORS.STATUS_UPDATE_FAILED : ADMIN_USER_MESSAGES.ERRORS.ROLE_UPDATE_FAILED)
+        );
+
+        return false;
+      }
+    );
+  };
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    user,
+    memberships: membershipsData.data,
+    isSelf,
+    isAdmin,
+    handleBackToList,
+    handleViewProject,
+    handleAction,
+    actionError,
+    clearActionError: () => setActionError(null),
+    isProcessing: updateStatusMutation.isPending || updateRolesMutation.isPending,
+  };
+};
@@ -0,0 +1,258 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, userEvent, within } from "@storybook/test";
+import { http, HttpResponse } from "msw";
+
+import AdminUserDetail from "./admin-user-detail";
+
+/**
+ * ストーリー用のユーザーデータ
+ */
+const user = {
+  id: "user-1",
+  azure_oid: "azure-oid-1",
+  email: "manager@example.com",
+  display_name: "田中 太郎",
+  roles: ["user"],
+  is_active: true,
+  created_at: "2024-01-15T00:00:00Z",
+  updated_at: "2024-01-15T00:00:00Z",
+  last_login: "2024-10-01T10:00:00Z",
+};
+
+/**
+ * ストーリー用のプロジェクト所属データ
+ */
+const memberships = [
+  {
+    id: "member-1",
+    project_id: "project-1",
+    user_id: "user-1",
+    role: "project_manager",
+    joined_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    project: {
+      id: "project-1",
+      name: "サンプルプロジェクト",
+      description: "これはサンプルプロジェクトです",
+      is_active: true,
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+      created_by: "user-1",
+      deleted_at: null,
+    },
+  },
+  {
+    id: "member-8",
+    project_id: "project-4",
+    user_id: "user-1",
+    role: "viewer",
+    joined_at: "2024-02-01T00:00:00Z",
+    updated_at: "2024-02-01T00:00:00Z",
+    project: {
+      id: "project-4",
+      name: "データ基盤構築",
+      description: null,
+      is_active: false,
+      created_at: "2024-01-05T00:00:00Z",
+      updated_at: "2024-04-20T00:00:00Z",
+      created_by: "user-5",
+      deleted_at: null,
+    },
+  },
+];
+
+/**
+ * ユーザー詳細・所属一覧を返すハンドラーを生成
+ */
+const userHandlers = (overrides: Partial<typeof user> = {}) => [
+  http.get("*/api/v1/admin/users/:userId/memberships", () => {
+    return HttpResponse.json({ data: memberships });
+  }),
+  http.get("*/api/v1/admin/users/:userId", () => {
+    return HttpResponse.json({ data: { ...user, ...overrides } });
+  }),
+];
+
+/**
+ * AdminUserDetailコンポーネントのストーリー
+ *
+ * システム管理者向けのユーザー詳細ページコンポーネント。
+ * ユーザー情報とプロジェクト所属を表示し、有効化・無効化と system_admin の付与・剥奪を提供します。
+ *
+ * @example
+ * ```tsx
+ * <AdminUserDetail />
+ * ```
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "features/admin-users/routes/admin-user-detail/AdminUserDetail",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: AdminUserDetail,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // Next.js設定
+    // ================================================================================
+    nextjs: {
+      appDirectory: true,
+      navigation: {
+        pathname: "/admin/users/user-1",
+        segments: [["id", "user-1"]],
+      },
+    },
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "システム管理者向けのユーザー詳細ページ。system:manage_users 権限が必要です。\n\n" +
+          "**主な機能:**\n" +
+          "- ユーザー情報（ロール・ステータス・最終ログイン）の表示\n" +
+          "- 有効化・無効化（確認ダイアログ付き）\n" +
+          "- system_admin の付与・剥奪（確認ダイアログ付き）\n" +
+          "- プロジェクト所属とロールの一覧表示\n" +
+          "- 自分自身に対する操作の無効化",
+      },
+    },
+  },
+
+  // ================================================================================
+  // ドキュメント自動生成を有効化
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof AdminUserDetail>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * デフォルト状態
+ */
+export const Default: Story = {
+  name: "デフォルト",
+  parameters: {
+    docs: {
+      description: {
+        story: "有効な一般ユーザーの詳細。所属プロジェクトとロールが一覧表示されます。",
+      },
+    },
+    msw: {
+      handlers: userHandlers(),
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByRole("heading", { name: "田中 太郎" });
+    expect(canvas.getByText("プロジェクト所属（2件）")).toBeInTheDocument();
+    expect(canvas.getByRole("button", { name: "無効化" })).toBeEnabled();
+    expect(canvas.getByRole("button", { name: "システム管理者権限を付与" })).toBeEnabled();
+  },
+};
+
+/**
+ * 無効化の確認
+ */
+export const DeactivateConfirm: Story = {
+  name: "無効化の確認ダイアログ",
+  parameters: {
+    docs: {
+      description: {
+        story: "無効化ボタンを押すと確認ダイアログが表示されます。",
+      },
+    },
+    msw: {
+      handlers: userHandlers(),
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("button", { name: "無効化" }));
+
+    const dialog = within(document.body);
+    await expect(dialog.findByText("ユーザーの無効化")).resolves.toBeInTheDocument();
+  },
+};
+
+/**
+ * 無効なシステム管理者
+ */
+export const InactiveAdmin: Story = {
+  name: "無効なシステム管理者",
+  parameters: {
+    docs: {
+      description: {
+        story: "無効化されたシステム管理者の詳細。有効化ボタンと権限剥奪ボタンが表示されます。",
+      },
+    },
+    msw: {
+      handlers: userHandlers({ roles: ["system_admin"], is_active: false }),
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByRole("button", { name: "有効化" });
+    expect(canvas.getByRole("button", { name: "システム管理者権限を剥奪" })).toBeInTheDocument();
+  },
+};
+
+/**
+ * 自分自身の詳細
+ */
+export const Self: Story = {
+  name: "自分自身",
+  parameters: {
+    docs: {
+      description: {
+        story: "ログインユーザー自身の詳細。誤って自分を締め出さないよう、管理操作はすべて無効化されます。",
+      },
+    },
+    msw: {
+      handlers: userHandlers({ id: "dev-user-uuid", display_name: "Development User", email: "dev.user@example.com" }),
+    },
+  },
+};
+
+/**
+ * 所属なし
+ */
+export const NoMemberships: Story = {
+  name: "所属なし",
+  parameters: {
+    docs: {
+      description: {
+        story: "どのプロジェクトにも所属していないユーザーの詳細。",
+      },
+    },
+    msw: {
+      handlers: [
+        http.get("*/api/v1/admin/users/:userId/memberships", () => {
+          return HttpResponse.json({ data: [] });
+        }),
+        http.get("*/api/v1/admin/users/:userId", () => {
+          return HttpResponse.json({ data: user });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByText("所属しているプロジェクトはありません");
+  },
+};
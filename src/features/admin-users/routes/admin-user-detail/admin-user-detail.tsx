@@ -0,0 +1,144 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { PageHeader } from "@/components/layout/page-header";
+import { PageLayout } from "@/components/layout/page-layout";
+import { Button } from "@/components/sample-ui/button";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+
+import { ADMIN_USER_MESSAGES } from "../../constants/messages";
+import { AdminUserDetailParamsSchema } from "../../types";
+import { useAdminUserDetailLogic, type UserAdminAction } from "./admin-user-detail.hook";
+import { MembershipsTable, UserActionDialog, UserInfo } from "./components";
+
+/**
+ * ユーザー詳細ページのコンテンツ
+ */
+const AdminUserDetailContent = () => {
+  const params = useParams();
+  const { id: userId } = AdminUserDetailParamsSchema.parse(params);
+  const {
+    user,
+    memberships,
+    isSelf,
+    isAdmin,
+    handleBackToList,
+    handleViewProject,
+    handleAction,
+    actionError,
+    clearActionError,
+    isProcessing,
+  } = useAdminUserDetailLogic({ userId });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [pendingAction, setPendingAction] = useState<UserAdminAction | null>(null);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const openDialog = (action: UserAdminAction) => {
+    clearActionError();
+    setPendingAction(action);
+  };
+
+  const confirmAction = () => {
+    if (!pendingAction) return;
+
+    handleAction(pendingAction)
+      .then((succeeded) => {
+        if (succeeded) {
+          setPendingAction(null);
+        }
+      })
+      .catch(() => {
+        // エラーはフック内で actionError に保存済み
+      });
+  };
+
+  return (
+    <PageLayout>
+      <PageHeader
+        title={user.display_name ?? user.email}
+        action={
+          <Button variant="outline" onClick={handleBackToList}>
+            一覧に戻る
+          </Button>
+        }
+      />
+
+      <div className="space-y-6">
+        <UserInfo user={user} />
+
+        {/* ============================================================ */}
+        {/* 管理操作 */}
+        {/* ============================================================ */}
+        <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">管理操作</h2>
+          <div className="flex flex-wrap gap-2">
+            {user.is_active ? (
+              <Button variant="destructive" onClick={() => openDialog("deactivate")} disabled={isSelf || isProcessing}>
+                無効化
+              </Button>
+            ) : (
+              <Button onClick={() => openDialog("activate")} disabled={isSelf || isProcessing}>
+                有効化
+              </Button>
+            )}
+            {isAdmin ? (
+              <Button variant="outline" onClick={() => openDialog("revoke_admin")} disabled={isSelf || isProcessing}>
+                システム管理者権限を剥奪
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => openDialog("grant_admin")} disabled={isSelf || isProcessing}>
+                システム管理者権限を付与
+              </Button>
+            )}
+          </div>
+          {isSelf && <p className="mt-3 text-sm text-gray-500">{ADMIN_USER_MESSAGES.SELF_OPERATION_DISABLED}</p>}
+        </div>
+
+        {/* ============================================================ */}
+        {/* プロジェクト所属 */}
+        {/* ============================================================ */}
+        <div>
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">プロジェクト所属（{memberships.length}件）</h2>
+          <MembershipsTable memberships={memberships} onViewProject={handleViewProject} />
+        </div>
+      </div>
+
+      {/* 操作確認ダイアログ */}
+      <UserActionDialog
+        action={pendingAction}
+        user={user}
+        onClose={() => setPendingAction(null)}
+        onConfirm={confirmAction}
+        isProcessing={isProcessing}
+        error={actionError}
+      />
+    </PageLayout>
+  );
+};
+
+/**
+ * ユーザー詳細ページ（Client Component）
+ *
+ * システム管理者向けのユーザー詳細です。ユーザー情報とプロジェクト所属を表示し、
+ * 有効化・無効化、system_admin の付与・剥奪を提供します。
+ */
+const AdminUserDetail = () => {
+  return (
+    <ErrorBoundary FallbackComponent={MainErrorFallback}>
+      <Suspense fallback={<LoadingSpinner fullScreen />}>
+        <AdminUserDetailContent />
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
+
+export default AdminUserDetail;
@@ -0,0 +1,3 @@
+export * from "./memberships-table";
+export * from "./user-action-dialog";
+export * from "./user-info";
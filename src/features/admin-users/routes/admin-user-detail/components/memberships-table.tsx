@@ -0,0 +1,88 @@
+"use client";
+
+import { format } from "date-fns";
+
+import { Button } from "@/components/sample-ui/button";
+import { RoleBadge } from "@/features/projects/components/role-badge";
+
+import type { UserMembership } from "../../../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type MembershipsTableProps = {
+  memberships: UserMembership[];
+  onViewProject: (projectId: string) => void;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * プロジェクト所属一覧テーブルコンポーネント
+ *
+ * ユーザーが所属しているプロジェクトと、各プロジェクトでのロールを表示します。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.memberships - 表示するプロジェクト所属の配列
+ * @param props.onViewProject - プロジェクト詳細表示時のコールバック関数
+ * @returns プロジェクト所属一覧テーブルコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <MembershipsTable memberships={memberships} onViewProject={(projectId) => console.log(projectId)} />
+ * ```
+ */
+export const MembershipsTable = ({ memberships, onViewProject }: MembershipsTableProps) => {
+  // ================================================================================
+  // Render - Empty State
+  // ================================================================================
+
+  if (memberships.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+        <p className="text-gray-500">所属しているプロジェクトはありません</p>
+      </div>
+    );
+  }
+
+  // ================================================================================
+  // Render - Table
+  // ================================================================================
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">プロジェクト名</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">ロール</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">参加日</th>
+            <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">アクション</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {memberships.map((membership) => (
+            <tr key={membership.id} className="hover:bg-gray-50">
+              <td className="whitespace-nowrap px-6 py-4">
+                <div className="text-sm font-medium text-gray-900">{membership.project.name}</div>
+                {!membership.project.is_active && <div className="text-xs text-gray-500">非アクティブ</div>}
+              </td>
+              <td className="whitespace-nowrap px-6 py-4">
+                <RoleBadge role={membership.role} />
+              </td>
+              <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">{format(new Date(membership.joined_at), "yyyy/MM/dd")}</td>
+              <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                <Button variant="outline" size="sm" onClick={() => onViewProject(membership.project_id)}>
+                  プロジェクトを表示
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
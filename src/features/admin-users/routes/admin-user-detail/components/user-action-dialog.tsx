@@ -0,0 +1,82 @@
+"use client";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+
+import { ADMIN_USER_MESSAGES } from "../../../constants/messages";
+import type { User } from "../../../types";
+import type { UserAdminAction } from "../admin-user-detail.hook";
+
+type UserActionDialogProps = {
+  /** 確認対象の操作（null の場合は非表示） */
+  action: UserAdminAction | null;
+  /** 対象ユーザー */
+  user: User;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 操作の確定処理 */
+  onConfirm: () => void;
+  /** 実行中かどうか */
+  isProcessing: boolean;
+  /** エラーメッセージ */
+  error?: string | null;
+};
+
+const ACTION_CONFIG = {
+  activate: { title: "ユーザーの有効化", label: "有効化", destructive: false, message: ADMIN_USER_MESSAGES.CONFIRM.activate },
+  deactivate: { title: "ユーザーの無効化", label: "無効化", destructive: true, message: ADMIN_USER_MESSAGES.CONFIRM.deactivate },
+  grant_admin: { title: "システム管理者権限の付与", label: "付与", destructive: false, message: ADMIN_USER_MESSAGES.CONFIRM.grantAdmin },
+  revoke_admin: { title: "システム管理者権限の剥奪", label: "剥奪", destructive: true, message: ADMIN_USER_MESSAGES.CONFIRM.revokeAdmin },
+} as const satisfies Record<UserAdminAction, unknown>;
+
+/**
+ * ユーザー管理操作の確認ダイアログコンポーネント
+ *
+ * 有効化・無効化、system_admin の付与・剥奪を実行する前に確認を求めます。
+ * 無効化と剥奪は破壊的な操作として強調表示します。
+ *
+ * @param props - UserActionDialogコンポーネントのプロパティ
+ * @returns 確認ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <UserActionDialog
+ *   action={pendingAction}
+ *   user={user}
+ *   onClose={() => setPendingAction(null)}
+ *   onConfirm={confirmAction}
+ *   isProcessing={isProcessing}
+ *   error={actionError}
+ * />
+ * ```
+ */
+export const UserActionDialog = ({ action, user, onClose, onConfirm, isProcessing, error }: UserActionDialogProps) => {
+  if (!action) {
+    return null;
+  }
+
+  const config = ACTION_CONFIG[action];
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{config.title}</DialogTitle>
+          <DialogDescription>{config.message(user.display_name ?? user.email)}</DialogDescription>
+        </DialogHeader>
+
+        {error && <ErrorMessage message={error} />}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isProcessing}>
+            キャンセル
+          </Button>
+          <Button variant={config.destructive ? "destructive" : "default"} onClick={onConfirm} disabled={isProcessing}>
+            {isProcessing ? "処理中..." : config.label}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,83 @@
+"use client";
+
+import { format } from "date-fns";
+
+import { SystemRoleBadge, UserStatusBadge } from "../../../components";
+import type { User } from "../../../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type UserInfoProps = {
+  user: User;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * ユーザー情報表示コンポーネント
+ *
+ * ユーザーの基本情報（表示名、メールアドレス、ロール、ステータス）と
+ * 詳細情報（Azure OID、作成日時、最終ログイン）をカード形式で表示します。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.user - 表示するユーザー情報
+ * @returns ユーザー情報表示コンポーネント
+ *
+ * @example
+ * ```tsx
+ * <UserInfo user={user} />
+ * ```
+ */
+export const UserInfo = ({ user }: UserInfoProps) => {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-4 text-lg font-semibold text-gray-900">基本情報</h2>
+      <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <dt className="text-sm font-medium text-gray-500">表示名</dt>
+          <dd className="mt-1 text-sm text-gray-900">{user.display_name ?? "未設定"}</dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">メールアドレス</dt>
+          <dd className="mt-1 text-sm text-gray-900">{user.email}</dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">システムロール</dt>
+          <dd className="mt-1 flex gap-1">
+            {user.roles.map((role) => (
+              <SystemRoleBadge key={role} role={role} />
+            ))}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">ステータス</dt>
+          <dd className="mt-1">
+            <UserStatusBadge isActive={user.is_active} />
+          </dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">作成日時</dt>
+          <dd className="mt-1 text-sm text-gray-900">{format(new Date(user.created_at), "yyyy/MM/dd HH:mm")}</dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">最終ログイン</dt>
+          <dd className="mt-1 text-sm text-gray-900">
+            {user.last_login !== null ? format(new Date(user.last_login), "yyyy/MM/dd HH:mm") : "未ログイン"}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">Azure OID</dt>
+          <dd className="mt-1 text-sm text-gray-500">{user.azure_oid}</dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">ユーザーID</dt>
+          <dd className="mt-1 text-sm text-gray-500">{user.id}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,3 @@
+export { default } from "./admin-user-detail";
+export * from "./admin-user-detail.hook";
+export * from "./components";
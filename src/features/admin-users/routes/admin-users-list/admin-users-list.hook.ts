@@ -0,0 +1,56 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+
+import { paths } from "@/config/paths";
+
+import { useAdminUsers } from "../../api";
+import type { AdminUsersFilterInput } from "../../types/forms";
+
+type UseAdminUsersListLogicProps = {
+  filters: AdminUsersFilterInput;
+};
+
+/**
+ * ユーザー一覧ページのロジックを管理するカスタムフック
+ *
+ * API層のuseAdminUsersを呼び出し、ページ固有のビジネスロジック（ナビゲーション）を追加します。
+ *
+ * @param filters - 検索条件
+ *
+ * @returns ユーザー一覧の状態と操作関数
+ * @returns users - ユーザーリスト
+ * @returns handleViewUser - ユーザー詳細ページへ遷移
+ *
+ * @example
+ * ```tsx
+ * const { users, handleViewUser } = useAdminUsersListLogic({ filters })
+ *
+ * <button onClick={() => handleViewUser(user.id)}>詳細</button>
+ * ```
+ */
+export const useAdminUsersListLogic = ({ filters }: UseAdminUsersListLogicProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const router = useRouter();
+  const { data } = useAdminUsers({ filters });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * ユーザー詳細ページへ遷移
+   */
+  const handleViewUser = (userId: string) => {
+    router.push(paths.admin.users.detail.getHref(userId));
+  };
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    users: data.data,
+    handleViewUser,
+  };
+};
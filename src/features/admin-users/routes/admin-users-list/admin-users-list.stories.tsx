@@ -0,0 +1,215 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, userEvent, within } from "@storybook/test";
+import { delay, http, HttpResponse } from "msw";
+
+import AdminUsersList from "./admin-users-list";
+
+/**
+ * ストーリー用のユーザーデータ
+ */
+const users = [
+  {
+    id: "user-1",
+    azure_oid: "azure-oid-1",
+    email: "manager@example.com",
+    display_name: "田中 太郎",
+    roles: ["user"],
+    is_active: true,
+    created_at: "2024-01-15T00:00:00Z",
+    updated_at: "2024-01-15T00:00:00Z",
+    last_login: "2024-10-01T10:00:00Z",
+  },
+  {
+    id: "user-2",
+    azure_oid: "azure-oid-2",
+    email: "retired@example.com",
+    display_name: "鈴木 花子",
+    roles: ["user"],
+    is_active: false,
+    created_at: "2024-02-01T00:00:00Z",
+    updated_at: "2024-06-01T00:00:00Z",
+    last_login: null,
+  },
+  {
+    id: "user-5",
+    azure_oid: "azure-oid-5",
+    email: "admin@example.com",
+    display_name: "山田 管理者",
+    roles: ["system_admin"],
+    is_active: true,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    last_login: "2024-10-05T14:00:00Z",
+  },
+];
+
+/**
+ * AdminUsersListコンポーネントのストーリー
+ *
+ * システム管理者向けのユーザー一覧ページコンポーネント。
+ * キーワード・ステータスでの検索と、ユーザー詳細への遷移を提供します。
+ *
+ * @example
+ * ```tsx
+ * <AdminUsersList />
+ * ```
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "features/admin-users/routes/admin-users-list/AdminUsersList",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: AdminUsersList,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // Next.js設定
+    // ================================================================================
+    nextjs: {
+      appDirectory: true,
+    },
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "システム管理者向けのユーザー一覧ページ。system:manage_users 権限が必要です。\n\n" +
+          "**主な機能:**\n" +
+          "- 表示名・メールアドレスでのキーワード検索\n" +
+          "- 有効・無効ステータスでの絞り込み\n" +
+          "- システムロール・最終ログインの表示\n" +
+          "- ユーザー詳細への遷移\n" +
+          "- MSWによるAPIモック",
+      },
+    },
+  },
+
+  // ================================================================================
+  // ドキュメント自動生成を有効化
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof AdminUsersList>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * デフォルト状態
+ */
+export const Default: Story = {
+  name: "デフォルト",
+  parameters: {
+    docs: {
+      description: {
+        story: "ユーザー一覧の初期状態。有効・無効、システム管理者を含むユーザーが表示されます。",
+      },
+    },
+    msw: {
+      handlers: [
+        http.get("*/api/v1/admin/users", () => {
+          return HttpResponse.json({ data: users });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByText("田中 太郎");
+    expect(canvas.getByText("山田 管理者")).toBeInTheDocument();
+    expect(canvas.getByText("システム管理者")).toBeInTheDocument();
+    expect(canvas.getByText("未ログイン")).toBeInTheDocument();
+  },
+};
+
+/**
+ * キーワード検索
+ */
+export const Search: Story = {
+  name: "キーワード検索",
+  parameters: {
+    docs: {
+      description: {
+        story: "キーワードを入力すると、検索条件をクエリパラメータとして再取得します。再取得中も直前の結果を表示し続けます。",
+      },
+    },
+    msw: {
+      handlers: [
+        http.get("*/api/v1/admin/users", ({ request }) => {
+          const q = new URL(request.url).searchParams.get("q") ?? "";
+
+          return HttpResponse.json({ data: users.filter((user) => user.email.includes(q)) });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByText("田中 太郎");
+    await userEvent.type(canvas.getByLabelText("キーワード"), "admin");
+
+    await expect(canvas.findByText("山田 管理者")).resolves.toBeInTheDocument();
+    expect(canvas.queryByText("田中 太郎")).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * ローディング状態
+ */
+export const Loading: Story = {
+  name: "ローディング中",
+  parameters: {
+    docs: {
+      description: {
+        story: "ユーザーデータの読み込み中の状態。検索フォームは表示されたまま、一覧部分にローディングスピナーが表示されます。",
+      },
+    },
+    msw: {
+      handlers: [
+        http.get("*/api/v1/admin/users", async () => {
+          await delay("infinite");
+
+          return HttpResponse.json({ data: [] });
+        }),
+      ],
+    },
+  },
+};
+
+/**
+ * 空の状態
+ */
+export const EmptyState: Story = {
+  name: "該当なし",
+  parameters: {
+    docs: {
+      description: {
+        story: "検索条件に一致するユーザーがいない場合の表示。",
+      },
+    },
+    msw: {
+      handlers: [
+        http.get("*/api/v1/admin/users", () => {
+          return HttpResponse.json({ data: [] });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByText("条件に一致するユーザーがいません");
+  },
+};
@@ -0,0 +1,54 @@
+"use client";
+
+import { Suspense, useDeferredValue, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { PageHeader } from "@/components/layout/page-header";
+import { PageLayout } from "@/components/layout/page-layout";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+
+import type { AdminUsersFilterInput } from "../../types/forms";
+import { useAdminUsersListLogic } from "./admin-users-list.hook";
+import { UserSearchForm, UsersTable } from "./components";
+
+/**
+ * ユーザー一覧ページのコンテンツ
+ */
+const AdminUsersListContent = ({ filters }: { filters: AdminUsersFilterInput }) => {
+  const { users, handleViewUser } = useAdminUsersListLogic({ filters });
+
+  return <UsersTable users={users} onViewUser={handleViewUser} />;
+};
+
+/**
+ * ユーザー管理（一覧）ページ（Client Component）
+ *
+ * システム管理者向けのユーザー一覧です。system:manage_users 権限が必要で、
+ * 権限の判定は (protected) レイアウトのルート権限ガードで行います。
+ *
+ * 検索条件は useDeferredValue で遅延させ、再検索中も直前の結果を表示し続けます。
+ */
+const AdminUsersList = () => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [filters, setFilters] = useState<AdminUsersFilterInput>({ q: "", status: "all" });
+  const deferredFilters = useDeferredValue(filters);
+
+  return (
+    <PageLayout>
+      <PageHeader title="ユーザー管理" description="システムに登録されているユーザーの検索・有効化・権限管理を行います" />
+
+      <UserSearchForm filters={filters} onChange={setFilters} />
+
+      <ErrorBoundary FallbackComponent={MainErrorFallback}>
+        <Suspense fallback={<LoadingSpinner />}>
+          <AdminUsersListContent filters={deferredFilters} />
+        </Suspense>
+      </ErrorBoundary>
+    </PageLayout>
+  );
+};
+
+export default AdminUsersList;
@@ -0,0 +1,2 @@
+export * from "./user-search-form";
+export * from "./users-table";
@@ -0,0 +1,72 @@
+"use client";
+
+import { Input } from "@/components/sample-ui/input";
+import { Label } from "@/components/sample-ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/sample-ui/select";
+
+import { type AdminUsersFilterInput, userStatusFilterSchema } from "../../../types/forms";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type UserSearchFormProps = {
+  /** 現在の検索条件 */
+  filters: AdminUsersFilterInput;
+  /** 検索条件の変更ハンドラー */
+  onChange: (filters: AdminUsersFilterInput) => void;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * ユーザー検索フォームコンポーネント
+ *
+ * 表示名・メールアドレスのキーワードと、有効・無効のステータスで絞り込みます。
+ * 入力のたびに onChange が呼ばれるため、呼び出し側で useDeferredValue などを使って
+ * 再検索中も直前の結果を表示し続けてください。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.filters - 現在の検索条件
+ * @param props.onChange - 検索条件の変更時のコールバック関数
+ * @returns ユーザー検索フォームコンポーネント
+ *
+ * @example
+ * ```tsx
+ * const [filters, setFilters] = useState<AdminUsersFilterInput>({ q: "", status: "all" })
+ *
+ * <UserSearchForm filters={filters} onChange={setFilters} />
+ * ```
+ */
+export const UserSearchForm = ({ filters, onChange }: UserSearchFormProps) => {
+  return (
+    <div role="search" className="mb-6 flex flex-wrap items-end gap-4">
+      <div className="flex min-w-64 flex-1 flex-col gap-2">
+        <Label htmlFor="admin-users-search">キーワード</Label>
+        <Input
+          id="admin-users-search"
+          type="search"
+          placeholder="表示名・メールアドレスで検索"
+          value={filters.q}
+          maxLength={100}
+          onChange={(e) => onChange({ ...filters, q: e.target.value })}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="admin-users-status">ステータス</Label>
+        <Select value={filters.status} onValueChange={(value) => onChange({ ...filters, status: userStatusFilterSchema.parse(value) })}>
+          <SelectTrigger id="admin-users-status" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">すべて</SelectItem>
+            <SelectItem value="active">有効</SelectItem>
+            <SelectItem value="inactive">無効</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+"use client";
+
+import { format } from "date-fns";
+
+import { Button } from "@/components/sample-ui/button";
+
+import { SystemRoleBadge, UserStatusBadge } from "../../../components";
+import type { User } from "../../../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type UsersTableProps = {
+  users: User[];
+  onViewUser: (userId: string) => void;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * ユーザー一覧テーブルコンポーネント
+ *
+ * システムに登録されているユーザーをテーブル形式で表示し、詳細への遷移を提供します。
+ *
+ * 機能:
+ * - ユーザー情報の表示（表示名、メールアドレス、システムロール、ステータス、最終ログイン）
+ * - 詳細ボタンの提供
+ * - 空状態の表示
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.users - 表示するユーザーの配列
+ * @param props.onViewUser - ユーザー詳細表示時のコールバック関数
+ * @returns ユーザー一覧テーブルコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <UsersTable users={users} onViewUser={(userId) => console.log('View:', userId)} />
+ * ```
+ */
+export const UsersTable = ({ users, onViewUser }: UsersTableProps) => {
+  // ================================================================================
+  // Render - Empty State
+  // ================================================================================
+
+  if (users.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+        <p className="text-gray-500">条件に一致するユーザーがいません</p>
+      </div>
+    );
+  }
+
+  // ================================================================================
+  // Render - Table
+  // ================================================================================
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">ユーザー</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">システムロール</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">ステータス</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">最終ログイン</th>
+            <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">アクション</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {users.map((user) => (
+            <tr key={user.id} className="hover:bg-gray-50">
+              <td className="whitespace-nowrap px-6 py-4">
+                <div className="text-sm font-medium text-gray-900">{user.display_name ?? "-"}</div>
+                <div className="text-sm text-gray-500">{user.email}</div>
+              </td>
+              <td className="whitespace-nowrap px-6 py-4">
+                <div className="flex gap-1">
+                  {user.roles.map((role) => (
+                    <SystemRoleBadge key={role} role={role} />
+                  ))}
+                </div>
+              </td>
+              <td className="whitespace-nowrap px-6 py-4">
+                <UserStatusBadge isActive={user.is_active} />
+              </td>
+              <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                {user.last_login !== null ? format(new Date(user.last_login), "yyyy/MM/dd HH:mm") : "未ログイン"}
+              </td>
+              <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                <Button variant="outline" size="sm" onClick={() => onViewUser(user.id)}>
+                  詳細
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
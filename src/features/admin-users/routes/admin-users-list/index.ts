@@ -0,0 +1,3 @@
+export { default } from "./admin-users-list";
+export * from "./admin-users-list.hook";
+export * from "./components";
@@ -0,0 +1,2 @@
+export * from "./admin-user-detail";
+export * from "./admin-users-list";
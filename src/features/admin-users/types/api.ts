@@ -0,0 +1,63 @@
+/**
+ * ユーザー管理API レスポンススキーマ
+ *
+ * APIから返されるレスポンスデータのランタイムバリデーション用スキーマ。
+ *
+ * @module features/admin-users/types/api
+ */
+
+import { z } from "zod";
+
+import { userMembershipSchema, userSchema } from ".";
+
+// ================================================================================
+// ユーザーレスポンススキーマ
+// ================================================================================
+
+/**
+ * ユーザー一覧レスポンススキーマ
+ *
+ * GET /api/v1/admin/users のレスポンス
+ */
+export const adminUsersOutputSchema = z.object({
+  data: z.array(userSchema),
+});
+
+/**
+ * ユーザー一覧レスポンス型
+ */
+export type AdminUsersOutput = z.infer<typeof adminUsersOutputSchema>;
+
+/**
+ * ユーザー詳細レスポンススキーマ
+ *
+ * GET /api/v1/admin/users/:userId のレスポンス
+ * PATCH /api/v1/admin/users/:userId/status のレスポンス
+ * PATCH /api/v1/admin/users/:userId/roles のレスポンス
+ */
+export const adminUserOutputSchema = z.object({
+  data: userSchema,
+});
+
+/**
+ * ユーザー詳細レスポンス型
+ */
+export type AdminUserOutput = z.infer<typeof adminUserOutputSchema>;
+
+// ================================================================================
+// プロジェクト所属レスポンススキーマ
+// ================================================================================
+
+/**
+ * ユーザーのプロジェクト所属一覧レスポンススキーマ
+ *
+ * GET /api/v1/admin/users/:userId/memberships のレスポンス
+ */
+export const userMembershipsOutputSchema = z.object({
+  data: z.array(userMembershipSchema),
+});
+
+/**
+ * ユーザーのプロジェクト所属一覧レスポンス型
+ */
+export type UserMembershipsOutput = z.infer<typeof userMembershipsOutputSchema>;
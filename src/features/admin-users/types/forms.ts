@@ -0,0 +1,67 @@
+/**
+ * ユーザー管理 入力スキーマ
+ *
+ * 検索条件とAPI呼び出し時の入力データのランタイムバリデーション用スキーマ。
+ *
+ * @module features/admin-users/types/forms
+ */
+
+import { z } from "zod";
+
+import { systemRoleSchema } from "./index";
+
+// ================================================================================
+// 検索条件スキーマ
+// ================================================================================
+
+/**
+ * ユーザーのステータス絞り込み条件スキーマ
+ */
+export const userStatusFilterSchema = z.enum(["all", "active", "inactive"]);
+
+/**
+ * ユーザーのステータス絞り込み条件型
+ */
+export type UserStatusFilter = z.infer<typeof userStatusFilterSchema>;
+
+/**
+ * ユーザー検索条件スキーマ
+ */
+export const adminUsersFilterSchema = z.object({
+  /** 表示名・メールアドレスの部分一致 */
+  q: z.string().max(100, "検索キーワードは100文字以内で入力してください"),
+  status: userStatusFilterSchema,
+});
+
+/**
+ * ユーザー検索条件型
+ */
+export type AdminUsersFilterInput = z.infer<typeof adminUsersFilterSchema>;
+
+// ================================================================================
+// ユーザー更新入力スキーマ
+// ================================================================================
+
+/**
+ * ユーザーステータス更新入力スキーマ
+ */
+export const updateUserStatusSchema = z.object({
+  is_active: z.boolean(),
+});
+
+/**
+ * ユーザーステータス更新入力型
+ */
+export type UpdateUserStatusInput = z.infer<typeof updateUserStatusSchema>;
+
+/**
+ * システムロール更新入力スキーマ
+ */
+export const updateUserRolesSchema = z.object({
+  roles: z.array(systemRoleSchema).min(1, "ロールを1つ以上指定してください"),
+});
+
+/**
+ * システムロール更新入力型
+ */
+export type UpdateUserRolesInput = z.infer<typeof updateUserRolesSchema>;
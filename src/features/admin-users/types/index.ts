@@ -0,0 +1,55 @@
+/**
+ * システム管理（ユーザー管理）機能の型定義
+ *
+ * ユーザー・プロジェクトのエンティティは features/projects の定義を共有します。
+ * - API レスポンススキーマ: api.ts を参照
+ * - 入力スキーマ: forms.ts を参照
+ * - ルートパラメータスキーマ: このファイル内で定義
+ *
+ * @module features/admin-users/types
+ */
+
+import { z } from "zod";
+
+import { projectMemberSchema, projectSchema } from "@/features/projects/types";
+
+export { type SystemRole, systemRoleSchema, type User, userSchema } from "@/features/projects/types";
+
+// ================================================================================
+// エンティティ（ドメインモデル）
+// ================================================================================
+
+/**
+ * ユーザーのプロジェクト所属情報スキーマ
+ *
+ * ユーザー詳細画面で表示するため、所属先のプロジェクト情報を必ず含みます。
+ */
+export const userMembershipSchema = projectMemberSchema.extend({
+  project: projectSchema,
+});
+
+/**
+ * ユーザーのプロジェクト所属情報型
+ */
+export type UserMembership = z.infer<typeof userMembershipSchema>;
+
+// ================================================================================
+// ルートパラメータ（パスパラメータ）
+// ================================================================================
+
+/**
+ * ユーザー詳細ルート パラメータスキーマ
+ *
+ * /admin/users/[id] のパラメータを検証
+ *
+ * @example
+ * ```tsx
+ * const params = useParams();
+ * const { id: userId } = AdminUserDetailParamsSchema.parse(params);
+ * ```
+ */
+export const AdminUserDetailParamsSchema = z.object({
+  id: z.string().min(1, "ユーザーIDは必須です"),
+});
+
+export type AdminUserDetailParams = z.infer<typeof AdminUserDetailParamsSchema>;
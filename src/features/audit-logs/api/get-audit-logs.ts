@@ -0,0 +1,83 @@
+import { infiniteQueryOptions, useSuspenseInfiniteQuery } from "@tanstack/react-query";
+
+import { PAGINATION } from "@/config/constants";
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type AuditLogsOutput, auditLogsOutputSchema } from "../types/api";
+import type { AuditLogFilterInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * 監査ログ一覧取得（カーソルページネーション）
+ *
+ * 「条件なし」（空文字・"all"）の検索条件はクエリパラメータから除外します。
+ *
+ * @param filters - 検索条件（実行者・プロジェクト・操作種別・期間）
+ * @param cursor - 前ページのレスポンスの next_cursor（先頭ページの場合は null）
+ * @returns 監査ログ一覧と次ページのカーソル（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const page = await getAuditLogs({ filters: EMPTY_AUDIT_LOG_FILTER, cursor: null })
+ * console.log(page.data) // AuditLogEntry[]
+ * console.log(page.next_cursor) // string | null
+ * ```
+ */
+export const getAuditLogs = async ({
+  filters,
+  cursor,
+}: {
+  filters: AuditLogFilterInput;
+  cursor: string | null;
+}): Promise<AuditLogsOutput> => {
+  const params = Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== "" && value !== "all"));
+
+  const response = await api.get("/api/v1/audit-logs", {
+    params: {
+      ...params,
+      cursor: cursor ?? undefined,
+      limit: PAGINATION.DEFAULT_PAGE_SIZE,
+    },
+  });
+
+  return auditLogsOutputSchema.parse(response);
+};
+
+export const getAuditLogsQueryOptions = ({ filters }: { filters: AuditLogFilterInput }) => {
+  return infiniteQueryOptions({
+    queryKey: ["audit-logs", filters] as const,
+    queryFn: ({ pageParam }) => getAuditLogs({ filters, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseAuditLogsOptions = {
+  filters: AuditLogFilterInput;
+  queryConfig?: QueryConfig<typeof getAuditLogsQueryOptions>;
+};
+
+/**
+ * 監査ログ一覧取得フック（無限スクロール・「さらに読み込む」用）
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useAuditLogs({ filters })
+ * const entries = data.pages.flatMap((page) => page.data)
+ * ```
+ */
+export const useAuditLogs = ({ filters, queryConfig }: UseAuditLogsOptions) => {
+  return useSuspenseInfiniteQuery({
+    ...getAuditLogsQueryOptions({ filters }),
+    ...queryConfig,
+  });
+};
@@ -0,0 +1,27 @@
+/**
+ * 監査ログの操作種別ラベル
+ *
+ * @module features/audit-logs/constants/actions
+ */
+
+import type { AuditAction } from "../types";
+
+/**
+ * 操作種別の表示ラベル
+ */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "project.created": "プロジェクト作成",
+  "project.updated": "プロジェクト更新",
+  "project.deleted": "プロジェクト完全削除",
+  "project.archived": "プロジェクトアーカイブ",
+  "project.unarchived": "アーカイブ解除",
+  "project.trashed": "ゴミ箱に移動",
+  "project.restored": "プロジェクト復元",
+  "project.ownership_transferred": "オーナー移譲",
+  "project.settings_updated": "プロジェクト設定変更",
+  "member.added": "メンバー追加",
+  "member.role_changed": "ロール変更",
+  "member.removed": "メンバー削除",
+  "user.status_changed": "ユーザーステータス変更",
+  "user.roles_changed": "システムロール変更",
+};
@@ -0,0 +1,59 @@
+"use client";
+
+import { useAuditLogs } from "../../api";
+import type { AuditLogFilterInput } from "../../types/forms";
+
+type UseAuditLogsLogicProps = {
+  filters: AuditLogFilterInput;
+};
+
+/**
+ * 監査ログ一覧のロジックを管理するカスタムフック
+ *
+ * カーソルページネーションで取得したページを1つの一覧にまとめ、続きの読み込みを提供します。
+ *
+ * @param filters - 検索条件
+ *
+ * @returns 監査ログ一覧の状態と操作関数
+ * @returns entries - 読み込み済みの監査ログ（新しい順）
+ * @returns hasNextPage - 続きのページがあるかどうか
+ * @returns handleLoadMore - 続きのページを読み込む
+ * @returns isLoadingMore - 続きのページを読み込み中かどうか
+ *
+ * @example
+ * ```tsx
+ * const { entries, hasNextPage, handleLoadMore, isLoadingMore } = useAuditLogsLogic({ filters })
+ * ```
+ */
+export const useAuditLogsLogic = ({ filters }: UseAuditLogsLogicProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data, hasNextPage, fetchNextPage, isFetchingNextPage } = useAuditLogs({ filters });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * 続きのページを読み込む
+   *
+   * 読み込み中の重複リクエストは発行しません。
+   */
+  const handleLoadMore = () => {
+    if (!hasNextPage || isFetchingNextPage) return;
+
+    fetchNextPage().catch(() => {
+      // エラーはクエリの状態として ErrorBoundary に伝播する
+    });
+  };
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    entries: data.pages.flatMap((page) => page.data),
+    hasNextPage,
+    handleLoadMore,
+    isLoadingMore: isFetchingNextPage,
+  };
+};
@@ -0,0 +1,229 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, userEvent, within } from "@storybook/test";
+import { delay, http, HttpResponse } from "msw";
+
+import AuditLogs from "./audit-logs";
+
+/**
+ * ストーリー用の監査ログを生成
+ */
+const createEntry = (index: number) => ({
+  id: `audit-${index}`,
+  action: index % 2 === 0 ? "member.role_changed" : "member.added",
+  actor: { id: "user-1", email: "manager@example.com", display_name: "田中 太郎" },
+  target_type: "member",
+  target_id: `member-${index}`,
+  project_id: "project-1",
+  project_name: "サンプルプロジェクト",
+  changes:
+    index % 2 === 0
+      ? { before: { user_id: `user-${index}`, role: "viewer" }, after: { user_id: `user-${index}`, role: "member" } }
+      : { before: null, after: { user_id: `user-${index}`, role: "viewer" } },
+  created_at: new Date(Date.UTC(2024, 9, 1, 0, 0, 0) - index * 60 * 60 * 1000).toISOString(),
+});
+
+const projectsHandler = http.get("*/api/v1/projects", () => {
+  return HttpResponse.json({
+    data: [
+      {
+        id: "project-1",
+        name: "サンプルプロジェクト",
+        description: null,
+        is_active: true,
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+        created_by: "user-1",
+        deleted_at: null,
+      },
+    ],
+    total: 1,
+    page: 1,
+    size: 100,
+    total_pages: 1,
+  });
+});
+
+/**
+ * AuditLogsコンポーネントのストーリー
+ *
+ * 監査ログ一覧ページコンポーネント。
+ * 実行者・プロジェクト・操作種別・期間での絞り込み、カーソルページネーション、JSON差分の展開表示を提供します。
+ *
+ * @example
+ * ```tsx
+ * <AuditLogs />
+ * ```
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "features/audit-logs/routes/audit-logs/AuditLogs",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: AuditLogs,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // Next.js設定
+    // ================================================================================
+    nextjs: {
+      appDirectory: true,
+    },
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "監査ログを表示するページコンポーネント。system:view_audit_logs 権限が必要です。\n\n" +
+          "**主な機能:**\n" +
+          "- 実行者・プロジェクト・操作種別・期間での絞り込み\n" +
+          "- カーソルページネーション（さらに読み込む）\n" +
+          "- 行の展開による変更内容（JSON差分）の表示\n" +
+          "- MSWによるAPIモック",
+      },
+    },
+  },
+
+  // ================================================================================
+  // ドキュメント自動生成を有効化
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof AuditLogs>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * デフォルト状態
+ */
+export const Default: Story = {
+  name: "デフォルト",
+  parameters: {
+    docs: {
+      description: {
+        story: "開発用モックの監査ログを表示した状態。モックハンドラーでの更新操作も記録されます。",
+      },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByText("プロジェクト作成");
+  },
+};
+
+/**
+ * 行の展開
+ */
+export const ExpandDiff: Story = {
+  name: "変更内容の展開",
+  parameters: {
+    docs: {
+      description: {
+        story: "「表示」ボタンで行を展開し、変更前後のJSON差分を表示します。",
+      },
+    },
+    msw: {
+      handlers: [
+        projectsHandler,
+        http.get("*/api/v1/audit-logs", () => {
+          return HttpResponse.json({ data: [createEntry(2)], next_cursor: null });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("button", { name: "表示" }));
+
+    expect(canvas.getByRole("button", { name: "閉じる" })).toHaveAttribute("aria-expanded", "true");
+    expect(canvas.getByText('"viewer"')).toBeInTheDocument();
+    expect(canvas.getByText('"member"')).toBeInTheDocument();
+  },
+};
+
+/**
+ * カーソルページネーション
+ */
+export const Pagination: Story = {
+  name: "ページネーション",
+  parameters: {
+    docs: {
+      description: {
+        story: "続きがある場合は「さらに読み込む」ボタンが表示され、次のカーソルで取得した結果が末尾に追加されます。",
+      },
+    },
+    msw: {
+      handlers: [
+        projectsHandler,
+        http.get("*/api/v1/audit-logs", ({ request }) => {
+          const cursor = new URL(request.url).searchParams.get("cursor");
+
+          return cursor === null
+            ? HttpResponse.json({ data: [1, 2, 3].map(createEntry), next_cursor: "3" })
+            : HttpResponse.json({ data: [4, 5].map(createEntry), next_cursor: null });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("button", { name: "さらに読み込む" }));
+
+    await expect(canvas.findByText("member:member-5")).resolves.toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: "さらに読み込む" })).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * ローディング状態
+ */
+export const Loading: Story = {
+  name: "ローディング中",
+  parameters: {
+    msw: {
+      handlers: [
+        projectsHandler,
+        http.get("*/api/v1/audit-logs", async () => {
+          await delay("infinite");
+
+          return HttpResponse.json({ data: [], next_cursor: null });
+        }),
+      ],
+    },
+  },
+};
+
+/**
+ * 該当なし
+ */
+export const EmptyState: Story = {
+  name: "該当なし",
+  parameters: {
+    msw: {
+      handlers: [
+        projectsHandler,
+        http.get("*/api/v1/audit-logs", () => {
+          return HttpResponse.json({ data: [], next_cursor: null });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByText("条件に一致する監査ログがありません");
+  },
+};
@@ -0,0 +1,82 @@
+"use client";
+
+import { Suspense, useDeferredValue, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { PageHeader } from "@/components/layout/page-header";
+import { PageLayout } from "@/components/layout/page-layout";
+import { Button } from "@/components/sample-ui/button";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+import { PAGINATION } from "@/config/constants";
+import { useProjects } from "@/features/projects/api/get-projects";
+
+import { type AuditLogFilterInput, EMPTY_AUDIT_LOG_FILTER } from "../../types/forms";
+import { useAuditLogsLogic } from "./audit-logs.hook";
+import { AuditLogFilters, AuditLogTable } from "./components";
+
+/**
+ * 監査ログ一覧（検索結果部分）
+ */
+const AuditLogList = ({ filters }: { filters: AuditLogFilterInput }) => {
+  const { entries, hasNextPage, handleLoadMore, isLoadingMore } = useAuditLogsLogic({ filters });
+
+  return (
+    <>
+      <AuditLogTable entries={entries} />
+      {hasNextPage && (
+        <div className="mt-4 flex justify-center">
+          <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? "読み込み中..." : "さらに読み込む"}
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
+
+/**
+ * 監査ログページのコンテンツ
+ */
+const AuditLogsContent = () => {
+  // プロジェクトの絞り込み候補（一覧はページ単位で返るため、1ページの最大件数で取得する）
+  const { data: projectsData } = useProjects({ size: Math.max(...PAGINATION.PAGE_SIZE_OPTIONS) });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [filters, setFilters] = useState<AuditLogFilterInput>(EMPTY_AUDIT_LOG_FILTER);
+  const deferredFilters = useDeferredValue(filters);
+
+  return (
+    <PageLayout>
+      <PageHeader title="監査ログ" description="プロジェクト・メンバー・ユーザーに対する操作の履歴を表示します" />
+
+      <AuditLogFilters projects={projectsData.data} onSearch={setFilters} />
+
+      <ErrorBoundary FallbackComponent={MainErrorFallback} resetKeys={[deferredFilters]}>
+        <Suspense fallback={<LoadingSpinner />}>
+          <AuditLogList filters={deferredFilters} />
+        </Suspense>
+      </ErrorBoundary>
+    </PageLayout>
+  );
+};
+
+/**
+ * 監査ログページ（Client Component）
+ *
+ * system:view_audit_logs 権限が必要で、権限の判定は (protected) レイアウトのルート権限ガードで行います。
+ * 検索条件は useDeferredValue で遅延させ、再検索中も直前の結果を表示し続けます。
+ */
+const AuditLogs = () => {
+  return (
+    <ErrorBoundary FallbackComponent={MainErrorFallback}>
+      <Suspense fallback={<LoadingSpinner fullScreen />}>
+        <AuditLogsContent />
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
+
+export default AuditLogs;
@@ -0,0 +1,70 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, within } from "@storybook/test";
+
+import { AuditDiff } from "./audit-diff";
+
+const meta = {
+  title: "features/audit-logs/routes/audit-logs/components/AuditDiff",
+  component: AuditDiff,
+  parameters: {
+    layout: "padded",
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof AuditDiff>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * 更新（変更・変更なしの混在）
+ */
+export const Updated: Story = {
+  args: {
+    changes: {
+      before: { name: "データ基盤構築", description: "分析基盤の構築", is_active: true },
+      after: { name: "データ基盤構築", description: null, is_active: false },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(canvas.getAllByText("変更")).toHaveLength(2);
+    expect(canvas.getByText("変更なし")).toBeInTheDocument();
+  },
+};
+
+/**
+ * 作成（すべて追加）
+ */
+export const Created: Story = {
+  args: {
+    changes: {
+      before: null,
+      after: { user_id: "user-2", email: "moderator@example.com", role: "project_moderator" },
+    },
+  },
+};
+
+/**
+ * 削除（すべて削除）
+ */
+export const Deleted: Story = {
+  args: {
+    changes: {
+      before: { user_id: "user-4", email: "viewer@example.com", role: "viewer" },
+      after: null,
+    },
+  },
+};
+
+/**
+ * 配列を含む変更
+ */
+export const WithArray: Story = {
+  args: {
+    changes: {
+      before: { email: "manager@example.com", roles: ["user"] },
+      after: { email: "manager@example.com", roles: ["user", "system_admin"] },
+    },
+  },
+};
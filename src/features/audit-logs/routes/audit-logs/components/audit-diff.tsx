@@ -0,0 +1,76 @@
+"use client";
+
+import type { AuditChanges } from "../../../types";
+import { diffChanges, type DiffKind, formatDiffValue } from "../../../utils/diff";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type AuditDiffProps = {
+  changes: AuditChanges;
+};
+
+// ================================================================================
+// Constants
+// ================================================================================
+
+const DIFF_STYLES: Record<DiffKind, { label: string; row: string }> = {
+  added: { label: "追加", row: "bg-green-50" },
+  removed: { label: "削除", row: "bg-red-50" },
+  changed: { label: "変更", row: "bg-yellow-50" },
+  unchanged: { label: "変更なし", row: "text-gray-400" },
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * 監査ログの変更内容（JSON差分）表示コンポーネント
+ *
+ * before / after をフィールド単位で比較し、追加・削除・変更を色分けして表示します。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.changes - 監査ログの変更内容
+ * @returns JSON差分表示コンポーネント
+ *
+ * @example
+ * ```tsx
+ * <AuditDiff changes={{ before: { role: "viewer" }, after: { role: "member" } }} />
+ * ```
+ */
+export const AuditDiff = ({ changes }: AuditDiffProps) => {
+  const entries = diffChanges(changes);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">記録された変更内容はありません</p>;
+  }
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="px-3 py-2 font-medium">フィールド</th>
+          <th className="px-3 py-2 font-medium">種別</th>
+          <th className="px-3 py-2 font-medium">変更前</th>
+          <th className="px-3 py-2 font-medium">変更後</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={entry.key} className={DIFF_STYLES[entry.kind].row}>
+            <td className="px-3 py-2 align-top font-mono font-medium">{entry.key}</td>
+            <td className="px-3 py-2 align-top">{DIFF_STYLES[entry.kind].label}</td>
+            <td className="px-3 py-2 align-top">
+              {entry.kind !== "added" && <pre className="whitespace-pre-wrap break-all font-mono">{formatDiffValue(entry.before)}</pre>}
+            </td>
+            <td className="px-3 py-2 align-top">
+              {entry.kind !== "removed" && <pre className="whitespace-pre-wrap break-all font-mono">{formatDiffValue(entry.after)}</pre>}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,94 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { ControlledDateField, ControlledInputField, ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+import type { Project } from "@/features/projects/types";
+
+import { AUDIT_ACTION_LABELS } from "../../../constants/actions";
+import { type AuditLogFilterInput, auditLogFilterSchema, EMPTY_AUDIT_LOG_FILTER } from "../../../types/forms";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type AuditLogFiltersProps = {
+  /** プロジェクト絞り込みの選択肢 */
+  projects: Pick<Project, "id" | "name">[];
+  /** 検索実行ハンドラー */
+  onSearch: (filters: AuditLogFilterInput) => void;
+};
+
+// ================================================================================
+// Constants
+// ================================================================================
+
+const ACTION_OPTIONS = [
+  { value: "all", label: "すべての操作" },
+  ...Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => ({ value, label })),
+];
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * 監査ログ検索フォームコンポーネント
+ *
+ * 実行者・プロジェクト・操作種別・期間で絞り込みます。
+ * 期間の前後関係はスキーマで検証し、不正な場合は検索を実行しません。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @returns 監査ログ検索フォームコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <AuditLogFilters projects={projects} onSearch={setFilters} />
+ * ```
+ */
+export const AuditLogFilters = ({ projects, onSearch }: AuditLogFiltersProps) => {
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const { control, handleSubmit, reset } = useForm<AuditLogFilterInput>({
+    resolver: zodResolver(auditLogFilterSchema),
+    defaultValues: EMPTY_AUDIT_LOG_FILTER,
+  });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const onSubmit = handleSubmit((data: AuditLogFilterInput) => {
+    onSearch(data);
+  });
+
+  const handleClear = () => {
+    reset(EMPTY_AUDIT_LOG_FILTER);
+    onSearch(EMPTY_AUDIT_LOG_FILTER);
+  };
+
+  return (
+    <form role="search" onSubmit={onSubmit} className="mb-6 rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-5">
+        <ControlledInputField control={control} name="actor" label="実行者" placeholder="表示名・メールアドレス" />
+        <ControlledSelectField
+          control={control}
+          name="project_id"
+          label="プロジェクト"
+          options={[{ value: "all", label: "すべてのプロジェクト" }, ...projects.map((p) => ({ value: p.id, label: p.name }))]}
+        />
+        <ControlledSelectField control={control} name="action" label="操作" options={ACTION_OPTIONS} />
+        <ControlledDateField control={control} name="from" label="開始日" />
+        <ControlledDateField control={control} name="to" label="終了日" />
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={handleClear}>
+          クリア
+        </Button>
+        <Button type="submit">検索</Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,136 @@
+"use client";
+
+import { format } from "date-fns";
+import { Fragment, useState } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+
+import { AUDIT_ACTION_LABELS } from "../../../constants/actions";
+import type { AuditLogEntry } from "../../../types";
+import { AuditDiff } from "./audit-diff";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type AuditLogTableProps = {
+  entries: AuditLogEntry[];
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * 監査ログ一覧テーブルコンポーネント
+ *
+ * 監査ログを新しい順に表示します。各行は展開でき、変更内容のJSON差分を表示します。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.entries - 表示する監査ログの配列
+ * @returns 監査ログ一覧テーブルコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <AuditLogTable entries={entries} />
+ * ```
+ */
+export const AuditLogTable = ({ entries }: AuditLogTableProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [expandedIds, setExpandedIds] = useState<ReadonlySet<string>>(new Set());
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+
+      return next;
+    });
+  };
+
+  // ================================================================================
+  // Render - Empty State
+  // ================================================================================
+
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+        <p className="text-gray-500">条件に一致する監査ログがありません</p>
+      </div>
+    );
+  }
+
+  // ================================================================================
+  // Render - Table
+  // ================================================================================
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">日時</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">操作</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">実行者</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">プロジェクト</th>
+            <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">変更内容</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {entries.map((entry) => {
+            const isExpanded = expandedIds.has(entry.id);
+            const detailId = `audit-log-detail-${entry.id}`;
+
+            return (
+              <Fragment key={entry.id}>
+                <tr className="hover:bg-gray-50">
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                    {format(new Date(entry.created_at), "yyyy/MM/dd HH:mm:ss")}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{AUDIT_ACTION_LABELS[entry.action]}</div>
+                    <div className="font-mono text-xs text-gray-500">
+                      {entry.target_type}:{entry.target_id}
+                    </div>
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <div className="text-sm text-gray-900">{entry.actor.display_name ?? "-"}</div>
+                    <div className="text-sm text-gray-500">{entry.actor.email}</div>
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">{entry.project_name ?? "-"}</td>
+                  <td className="whitespace-nowrap px-6 py-4 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      aria-expanded={isExpanded}
+                      aria-controls={detailId}
+                      onClick={() => toggleExpanded(entry.id)}
+                    >
+                      {isExpanded ? "閉じる" : "表示"}
+                    </Button>
+                  </td>
+                </tr>
+                {isExpanded && (
+                  <tr id={detailId}>
+                    <td colSpan={5} className="bg-gray-50 px-6 py-4">
+                      <AuditDiff changes={entry.changes} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
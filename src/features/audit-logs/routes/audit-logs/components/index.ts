@@ -0,0 +1,3 @@
+export * from "./audit-diff";
+export * from "./audit-log-filters";
+export * from "./audit-log-table";
@@ -0,0 +1,3 @@
+export { default } from "./audit-logs";
+export * from "./audit-logs.hook";
+export * from "./components";
@@ -0,0 +1,31 @@
+/**
+ * 監査ログAPI レスポンススキーマ
+ *
+ * APIから返されるレスポンスデータのランタイムバリデーション用スキーマ。
+ *
+ * @module features/audit-logs/types/api
+ */
+
+import { z } from "zod";
+
+import { auditLogEntrySchema } from ".";
+
+// ================================================================================
+// 監査ログレスポンススキーマ
+// ================================================================================
+
+/**
+ * 監査ログ一覧レスポンススキーマ
+ *
+ * GET /api/v1/audit-logs のレスポンス
+ * 新しい順に並び、続きがある場合は next_cursor に次ページ取得用のカーソルが入ります。
+ */
+export const auditLogsOutputSchema = z.object({
+  data: z.array(auditLogEntrySchema),
+  next_cursor: z.string().nullable(),
+});
+
+/**
+ * 監査ログ一覧レスポンス型
+ */
+export type AuditLogsOutput = z.infer<typeof auditLogsOutputSchema>;
@@ -0,0 +1,50 @@
+/**
+ * 監査ログ 検索条件スキーマ
+ *
+ * @module features/audit-logs/types/forms
+ */
+
+import { z } from "zod";
+
+import { auditActionSchema } from "./index";
+
+// ================================================================================
+// 検索条件スキーマ
+// ================================================================================
+
+/**
+ * 監査ログ検索条件スキーマ
+ *
+ * 選択項目は "all"、入力項目は空文字を「条件なし」として扱います。
+ * 日付は yyyy-MM-dd 形式で、両端を含みます。
+ */
+export const auditLogFilterSchema = z
+  .object({
+    /** 実行者の表示名・メールアドレスの部分一致 */
+    actor: z.string().max(100, "実行者は100文字以内で入力してください"),
+    /** プロジェクトID（"all" の場合は全プロジェクト） */
+    project_id: z.string().min(1),
+    action: z.union([auditActionSchema, z.literal("all")]),
+    from: z.union([z.iso.date(), z.literal("")]),
+    to: z.union([z.iso.date(), z.literal("")]),
+  })
+  .refine((filter) => filter.from === "" || filter.to === "" || filter.from <= filter.to, {
+    message: "終了日は開始日以降の日付を指定してください",
+    path: ["to"],
+  });
+
+/**
+ * 監査ログ検索条件型
+ */
+export type AuditLogFilterInput = z.infer<typeof auditLogFilterSchema>;
+
+/**
+ * 検索条件の初期値（すべて条件なし）
+ */
+export const EMPTY_AUDIT_LOG_FILTER: AuditLogFilterInput = {
+  actor: "",
+  project_id: "all",
+  action: "all",
+  from: "",
+  to: "",
+};
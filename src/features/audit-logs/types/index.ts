@@ -0,0 +1,108 @@
+/**
+ * 監査ログ機能の型定義
+ *
+ * ドメインモデル（監査ログエントリ、操作種別）の定義。
+ * - API レスポンススキーマ: api.ts を参照
+ * - 検索条件スキーマ: forms.ts を参照
+ *
+ * @module features/audit-logs/types
+ */
+
+import { z } from "zod";
+
+// ================================================================================
+// 値オブジェクト
+// ================================================================================
+
+/**
+ * 監査対象の操作種別スキーマ
+ *
+ * `<対象>.<操作>` 形式で表現します。
+ */
+export const auditActionSchema = z.enum([
+  "project.created",
+  "project.updated",
+  "project.deleted",
+  "project.archived",
+  "project.unarchived",
+  "project.trashed",
+  "project.restored",
+  "project.ownership_transferred",
+  "project.settings_updated",
+  "member.added",
+  "member.role_changed",
+  "member.removed",
+  "user.status_changed",
+  "user.roles_changed",
+]);
+
+/**
+ * 監査対象の操作種別型
+ */
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+/**
+ * 監査対象リソースの種類スキーマ
+ */
+export const auditTargetTypeSchema = z.enum(["project", "member", "user"]);
+
+/**
+ * 監査対象リソースの種類型
+ */
+export type AuditTargetType = z.infer<typeof auditTargetTypeSchema>;
+
+// ================================================================================
+// エンティティ（ドメインモデル）
+// ================================================================================
+
+/**
+ * 操作の実行者スキーマ
+ *
+ * 実行時点のスナップショットのため、ユーザーが削除・変更されていても当時の情報を保持します。
+ */
+export const auditActorSchema = z.object({
+  id: z.string(),
+  email: z.email(),
+  display_name: z.string().nullable(),
+});
+
+/**
+ * 操作の実行者型
+ */
+export type AuditActor = z.infer<typeof auditActorSchema>;
+
+/**
+ * 変更内容スキーマ
+ *
+ * 作成時は before が null、削除時は after が null になります。
+ */
+export const auditChangesSchema = z.object({
+  before: z.record(z.string(), z.unknown()).nullable(),
+  after: z.record(z.string(), z.unknown()).nullable(),
+});
+
+/**
+ * 変更内容型
+ */
+export type AuditChanges = z.infer<typeof auditChangesSchema>;
+
+/**
+ * 監査ログエントリスキーマ
+ */
+export const auditLogEntrySchema = z.object({
+  id: z.string(),
+  action: auditActionSchema,
+  actor: auditActorSchema,
+  target_type: auditTargetTypeSchema,
+  target_id: z.string(),
+  /** 操作対象のプロジェクト（ユーザー操作など、プロジェクトに属さない場合は null） */
+  project_id: z.string().nullable(),
+  project_name: z.string().nullable(),
+  changes: auditChangesSchema,
+  created_at: z.iso.datetime(),
+});
+
+/**
+ * 監査ログエントリ型
+ */
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
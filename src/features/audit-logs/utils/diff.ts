@@ -0,0 +1,71 @@
+/**
+ * 監査ログの変更内容（before / after）の差分計算
+ *
+ * @module features/audit-logs/utils/diff
+ */
+
+import type { AuditChanges } from "../types";
+
+/**
+ * 差分の種類
+ */
+export type DiffKind = "added" | "removed" | "changed" | "unchanged";
+
+/**
+ * フィールド単位の差分
+ */
+export type DiffEntry = {
+  key: string;
+  kind: DiffKind;
+  before: unknown;
+  after: unknown;
+};
+
+/**
+ * 値を比較用のJSON文字列に変換する
+ */
+const toJson = (value: unknown): string => JSON.stringify(value) ?? "undefined";
+
+/**
+ * before / after をフィールド単位で比較し、差分の一覧を返す
+ *
+ * キーは before → after の出現順に並べます。値の比較は JSON 文字列で行うため、
+ * ネストしたオブジェクトや配列も内容が同じであれば unchanged になります。
+ *
+ * @param changes - 監査ログの変更内容
+ * @returns フィールド単位の差分一覧
+ *
+ * @example
+ * ```ts
+ * diffChanges({ before: { role: "viewer" }, after: { role: "member" } })
+ * // => [{ key: "role", kind: "changed", before: "viewer", after: "member" }]
+ * ```
+ */
+export const diffChanges = ({ before, after }: AuditChanges): DiffEntry[] => {
+  const beforeRecord = before ?? {};
+  const afterRecord = after ?? {};
+  const keys = [...new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)])];
+
+  return keys.map((key) => {
+    const hasBefore = Object.hasOwn(beforeRecord, key);
+    const hasAfter = Object.hasOwn(afterRecord, key);
+    const entry = { key, before: beforeRecord[key], after: afterRecord[key] };
+
+    if (!hasBefore) {
+      return { ...entry, kind: "added" };
+    }
+    if (!hasAfter) {
+      return { ...entry, kind: "removed" };
+    }
+
+    return { ...entry, kind: toJson(entry.before) === toJson(entry.after) ? "unchanged" : "changed" };
+  });
+};
+
+/**
+ * 差分表示用に値を整形する
+ *
+ * @param value - 表示する値
+ * @returns 整形済みのJSON文字列
+ */
+export const formatDiffValue = (value: unknown): string => JSON.stringify(value, null, 2) ?? "undefined";
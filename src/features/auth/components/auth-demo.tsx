@@ -107,7 +107,7 @@ export const AuthDemo = () => {
         <div className="flex gap-3">
           {!isAuthenticated ? (
             <button
-              onClick={login}
+              onClick={() => login()}
               className="rounded-lg bg-blue-600 px-6 py-3 text-white transition-colors hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
             >
               ログイン
@@ -21,7 +21,8 @@ export const useAuth = () => {
     user,
     isAuthenticated,
     isLoading: false,
-    login: () => {
+    // returnUrl への遷移はログインページが行う（本番環境の login と同じ引数を受け取る）
+    login: (_returnUrl?: string) => {
       setUser(MOCK_AUTH.USER);
     },
     logout: () => logout(),
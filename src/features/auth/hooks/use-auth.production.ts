@@ -38,8 +38,14 @@ export const useAuth = () => {
     }
   }, [userData, setUser]);
 
-  const login = () => {
-    void instance.loginRedirect(loginRequest);
+  /**
+   * @param returnUrl - ログイン後に戻るアプリ内のパス（MSAL は認証後に redirectStartPage へ戻るため、そのまま渡す）
+   */
+  const login = (returnUrl?: string) => {
+    void instance.loginRedirect({
+      ...loginRequest,
+      redirectStartPage: returnUrl === undefined ? undefined : new URL(returnUrl, window.location.origin).href,
+    });
   };
 
   const logout = () => {
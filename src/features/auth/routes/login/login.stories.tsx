@@ -150,7 +150,7 @@ export const LoginAction: Story = {
  * 既に認証済みストーリー
  *
  * 既に認証済みのユーザーがログインページにアクセスした場合を表示します。
- * 実際のアプリケーションでは、認証済みユーザーは自動的にホームページにリダイレクトされます。
+ * 実際のアプリケーションでは、認証済みユーザーは自動的にダッシュボードにリダイレクトされます。
  */
 export const AlreadyAuthenticated: Story = {
   name: "既に認証済み",
@@ -161,7 +161,7 @@ export const AlreadyAuthenticated: Story = {
       description: {
         story:
           "既に認証済みのユーザーがログインページにアクセスした場合。\n\n" +
-          "実際のアプリケーションでは、認証済みユーザーは自動的にホームページにリダイレクトされるべきです。",
+          "実際のアプリケーションでは、認証済みユーザーは自動的にダッシュボードにリダイレクトされるべきです。",
       },
     },
   },
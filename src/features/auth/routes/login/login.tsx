@@ -9,9 +9,30 @@ import { useEffect } from "react";
 
 import { Button } from "@/components/sample-ui/button/button";
 import { LoadingSpinner } from "@/components/ui";
+import { paths } from "@/config/paths";
 
 import { useAuth } from "../../hooks/use-auth";
 
+// ================================================================================
+// ヘルパー関数
+// ================================================================================
+
+/**
+ * ログイン後の遷移先を取得する
+ *
+ * クエリパラメータ returnUrl がアプリ内のパスの場合はそのパス、それ以外はダッシュボードを返します。
+ * 外部サイトへのリダイレクト（オープンリダイレクト）を防ぐため、"//" や "/\" で始まるURL（プロトコル相対URL）は無視します。
+ */
+const getRedirectHref = () => {
+  const returnUrl = new URLSearchParams(window.location.search).get("returnUrl");
+
+  if (returnUrl === null || !returnUrl.startsWith("/") || returnUrl.startsWith("//") || returnUrl.startsWith("/\\")) {
+    return paths.dashboard.getHref();
+  }
+
+  return returnUrl;
+};
+
 // ================================================================================
 // コンポーネント
 // ================================================================================
@@ -24,7 +45,7 @@ import { useAuth } from "../../hooks/use-auth";
  *
  * 機能:
  * - Microsoftアカウントでのログイン
- * - 認証済みユーザーの自動リダイレクト
+ * - 認証済みユーザーの自動リダイレクト（returnUrl が指定されている場合は元のページへ）
  * - ローディング状態の表示
  *
  * @returns ログインページ要素
@@ -39,10 +60,10 @@ const LoginPage = () => {
   // ================================================================================
   // Effects
   // ================================================================================
-  // 認証済みユーザーはホームページにリダイレクト
+  // 認証済みユーザーは元のページ（returnUrl）またはダッシュボードにリダイレクト
   useEffect(() => {
     if (isAuthenticated && !isLoading) {
-      router.push("/");
+      router.push(getRedirectHref());
     }
   }, [isAuthenticated, isLoading, router]);
 
@@ -50,7 +71,8 @@ const LoginPage = () => {
   // Handlers
   // ================================================================================
   const handleLogin = () => {
-    login();
+    // 本番環境では Azure Entra ID の認証後に元のページ（returnUrl）へ直接戻る
+    login(getRedirectHref());
   };
 
   // ================================================================================
@@ -6,6 +6,8 @@ import type { AccountInfo } from "@azure/msal-browser";
 import { create } from "zustand";
 import { persist, type StorageValue } from "zustand/middleware";
 
+import { clearMutationQueue } from "@/lib/mutation-queue";
+
 import { AuthStorageSchema } from "./schemas/auth-storage.schema";
 
 // ================================================================================
@@ -101,7 +103,7 @@ const validatedSessionStorage = {
  */
 export const useAuthStore = create<AuthStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       // State
       user: null,
       isAuthenticated: false,
@@ -120,6 +122,12 @@ export const useAuthStore = create<AuthStore>()(
       },
 
       logout: () => {
+        // ログアウトしたユーザーの送信待ちの操作を、次にログインしたユーザーとして再送しない
+        const userId = get().user?.id;
+        if (userId !== undefined) {
+          clearMutationQueue(userId);
+        }
+
         set({
           user: null,
           isAuthenticated: false,
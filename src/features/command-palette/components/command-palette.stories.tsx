@@ -0,0 +1,120 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, fn, userEvent, within } from "@storybook/test";
+import { useCallback, useMemo } from "react";
+
+import { useRegisterCommands, useRegisterCommandSearch } from "../hooks/use-register-commands";
+import type { PaletteCommand, PaletteCommandSearch } from "../types";
+import { CommandPalette } from "./command-palette";
+
+const performAction = fn();
+
+const STORY_PROJECTS = ["Webサイトリニューアル", "社内ポータル刷新", "モバイルアプリ開発"];
+
+/**
+ * ストーリー用のコマンドと検索関数を登録する
+ *
+ * サンプルページのコマンドは AppProvider で登録済みのため、ここではプロジェクト関連のコマンドを追加します。
+ */
+const StoryCommands = ({ children }: { children: React.ReactNode }) => {
+  const commands = useMemo<PaletteCommand[]>(
+    () => [
+      { id: "story:projects", title: "プロジェクト一覧", group: "ページ", href: "/projects" },
+      { id: "story:create", title: "新規プロジェクト作成", group: "操作", keywords: ["create project"], perform: performAction },
+    ],
+    []
+  );
+  const search = useCallback<PaletteCommandSearch>(
+    async (query) =>
+      STORY_PROJECTS.filter((name) => name.includes(query)).map((name, index) => ({
+        id: `story:project-${index}`,
+        title: name,
+        group: "プロジェクト",
+        href: `/projects/${index + 1}`,
+      })),
+    []
+  );
+
+  useRegisterCommands("story", commands);
+  useRegisterCommandSearch("story", search);
+
+  return <>{children}</>;
+};
+
+const meta = {
+  title: "features/command-palette/components/CommandPalette",
+  component: CommandPalette,
+  parameters: {
+    layout: "centered",
+  },
+  decorators: [(story) => <StoryCommands>{story()}</StoryCommands>],
+  args: {
+    defaultOpen: true,
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof CommandPalette>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * 開いた状態
+ *
+ * キーワードが空の場合は、最近使った項目・登録されたコマンド・検索関数の結果をグループごとに表示します。
+ */
+export const Default: Story = {};
+
+/**
+ * キーワードで絞り込み
+ *
+ * 文字が順番どおりに含まれていれば一致とみなし、登録されたコマンドと検索関数の結果を表示します。
+ */
+export const Filtered: Story = {
+  // FIXME: @storybook/test v9安定版リリース待ち
+  // Vitest環境でダイアログ表示が正常に動作しない問題
+  play: async () => {
+    // ダイアログはPortalでレンダリングされるためdocument.bodyから検索
+    const body = within(document.body);
+
+    await userEvent.type(await body.findByRole("combobox", { name: "コマンドを検索" }), "ポータル");
+
+    expect(await body.findByRole("option", { name: /社内ポータル刷新/ })).toBeInTheDocument();
+    expect(body.queryByRole("option", { name: /プロジェクト一覧/ })).not.toBeInTheDocument();
+  },
+  tags: ["skip"],
+};
+
+/**
+ * キーボードで実行
+ *
+ * ↓ / ↑ で項目を移動し、Enter で選択中のコマンドを実行します。
+ */
+export const KeyboardNavigation: Story = {
+  // FIXME: @storybook/test v9安定版リリース待ち
+  // Vitest環境でダイアログ表示が正常に動作しない問題
+  play: async () => {
+    const body = within(document.body);
+
+    await userEvent.type(await body.findByRole("combobox", { name: "コマンドを検索" }), "create");
+    await expect(await body.findByRole("option", { name: /新規プロジェクト作成/, selected: true })).toBeInTheDocument();
+
+    await userEvent.keyboard("{Enter}");
+    await expect(performAction).toHaveBeenCalled();
+  },
+  tags: ["skip"],
+};
+
+/**
+ * 一致する項目がない場合
+ */
+export const NoResults: Story = {
+  // FIXME: @storybook/test v9安定版リリース待ち
+  // Vitest環境でダイアログ表示が正常に動作しない問題
+  play: async () => {
+    const body = within(document.body);
+
+    await userEvent.type(await body.findByRole("combobox", { name: "コマンドを検索" }), "zzzzzz");
+
+    expect(await body.findByText("一致する項目がありません")).toBeInTheDocument();
+  },
+  tags: ["skip"],
+};
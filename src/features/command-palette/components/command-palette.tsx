@@ -0,0 +1,226 @@
+"use client";
+
+import { SearchIcon } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useEffect, useId, useState } from "react";
+
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/sample-ui/dialog";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { cn } from "@/utils/cn";
+
+import { usePaletteCommands } from "../hooks/use-palette-commands";
+import { useRecentCommandsStore } from "../stores/recent-commands-store";
+import type { PaletteCommand } from "../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type CommandPaletteProps = {
+  /** 初期表示で開いておくかどうか（Storybook 用） */
+  defaultOpen?: boolean;
+};
+
+/**
+ * 選択肢の要素ID（aria-activedescendant で参照する）
+ */
+const toOptionId = (listboxId: string, index: number) => `${listboxId}-option-${index}`;
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * コマンドパレットコンポーネント
+ *
+ * Cmd+K（Windows / Linux では Ctrl+K）で開き、ページへの遷移や操作をキーワードで検索して実行します。
+ * 表示するコマンドは各 feature が useRegisterCommands / useRegisterCommandSearch で登録します。
+ * アプリケーション全体で1つだけ配置してください（AppProvider で配置しています）。
+ *
+ * キーボード操作:
+ * - Cmd+K / Ctrl+K: 開く・閉じる
+ * - ↓ / ↑: 項目を移動（端では反対側に戻る）
+ * - Home / End: 最初・最後の項目に移動
+ * - Enter: 選択中の項目を実行
+ * - Escape: 閉じる
+ *
+ * @example
+ * ```tsx
+ * <CommandPalette />
+ * ```
+ */
+export const CommandPalette = ({ defaultOpen = false }: CommandPaletteProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const router = useRouter();
+  const listboxId = useId();
+  const addRecent = useRecentCommandsStore((state) => state.addRecent);
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const debouncedQuery = useDebouncedValue(query, 200);
+
+  const { groups, isSearching } = usePaletteCommands({ query: debouncedQuery, enabled: isOpen });
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const commands = groups.flatMap((group) => group.commands);
+  const activeCommandIndex = Math.min(activeIndex, commands.length - 1);
+  // グループごとの先頭の項目が、全体で何番目の項目か
+  const groupOffsets = groups.map((_, index) => groups.slice(0, index).reduce((sum, group) => sum + group.commands.length, 0));
+
+  // ================================================================================
+  // Effects
+  // ================================================================================
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setIsOpen((open) => !open);
+        setQuery("");
+        setActiveIndex(0);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (activeCommandIndex >= 0) {
+      document.getElementById(toOptionId(listboxId, activeCommandIndex))?.scrollIntoView({ block: "nearest" });
+    }
+  }, [activeCommandIndex, listboxId]);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    setQuery("");
+    setActiveIndex(0);
+  };
+
+  /**
+   * コマンドを実行して、最近使った項目に記録する
+   */
+  const runCommand = (command: PaletteCommand) => {
+    handleOpenChange(false);
+    addRecent(command);
+
+    if (command.href !== undefined) {
+      router.push(command.href);
+    } else {
+      command.perform();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (commands.length === 0) {
+      return;
+    }
+
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setActiveIndex((activeCommandIndex + 1) % commands.length);
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex((activeCommandIndex - 1 + commands.length) % commands.length);
+        break;
+      case "Home":
+        event.preventDefault();
+        setActiveIndex(0);
+        break;
+      case "End":
+        event.preventDefault();
+        setActiveIndex(commands.length - 1);
+        break;
+      case "Enter":
+        event.preventDefault();
+        runCommand(commands[activeCommandIndex]);
+        break;
+      default:
+        break;
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="gap-0 overflow-hidden p-0 sm:max-w-xl">
+        <DialogTitle className="sr-only">コマンドパレット</DialogTitle>
+        <DialogDescription className="sr-only">ページへの移動や操作をキーワードで検索して実行します</DialogDescription>
+
+        <div className="flex items-center gap-2 border-b px-4">
+          <SearchIcon className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+          <input
+            type="text"
+            role="combobox"
+            aria-label="コマンドを検索"
+            aria-expanded={true}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={activeCommandIndex >= 0 ? toOptionId(listboxId, activeCommandIndex) : undefined}
+            autoComplete="off"
+            placeholder="ページ・プロジェクト・操作を検索"
+            className="h-12 w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+          />
+          {isSearching && <span className="shrink-0 text-xs text-muted-foreground">検索中...</span>}
+        </div>
+
+        <div id={listboxId} role="listbox" aria-label="コマンド" className="max-h-80 overflow-y-auto p-2">
+          {commands.length === 0 && !isSearching && (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">一致する項目がありません</p>
+          )}
+
+          {groups.map((group, groupIndex) => (
+            <div key={group.name} role="group" aria-labelledby={`${listboxId}-group-${groupIndex}`} className="mb-2 last:mb-0">
+              <div id={`${listboxId}-group-${groupIndex}`} className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+                {group.name}
+              </div>
+              {group.commands.map((command, commandIndex) => {
+                const index = groupOffsets[groupIndex] + commandIndex;
+                const isActive = index === activeCommandIndex;
+
+                return (
+                  <div
+                    key={`${group.name}-${command.id}`}
+                    id={toOptionId(listboxId, index)}
+                    role="option"
+                    aria-selected={isActive}
+                    className={cn("cursor-pointer rounded-md px-2 py-2 text-sm", isActive && "bg-accent text-accent-foreground")}
+                    onMouseMove={() => setActiveIndex(index)}
+                    onClick={() => runCommand(command)}
+                  >
+                    <div className="font-medium">{command.title}</div>
+                    {command.description !== undefined && (
+                      <div className="truncate text-xs text-muted-foreground">{command.description}</div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="border-t px-4 py-2 text-xs text-muted-foreground">↑↓ で移動 ・ Enter で実行 ・ Esc で閉じる</div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,2 @@
+export * from "./use-palette-commands";
+export * from "./use-register-commands";
@@ -0,0 +1,124 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import { logger } from "@/utils/logger";
+
+import { useCommandRegistryStore } from "../stores/command-registry-store";
+import { useRecentCommandsStore } from "../stores/recent-commands-store";
+import type { PaletteCommand } from "../types";
+import { filterCommands } from "../utils/fuzzy-match";
+
+/**
+ * 最近使った項目のグループ名
+ */
+export const RECENT_COMMANDS_GROUP = "最近使った項目";
+
+/**
+ * コマンドパレットに表示するグループ
+ */
+export type PaletteCommandGroup = {
+  /** グループ名 */
+  name: string;
+  /** グループに含まれるコマンド */
+  commands: PaletteCommand[];
+};
+
+type UsePaletteCommandsOptions = {
+  /** 検索キーワード（デバウンス済みの値を渡してください） */
+  query: string;
+  /** コマンドパレットが開いているかどうか（閉じている間は検索関数を呼び出しません） */
+  enabled: boolean;
+};
+
+/**
+ * コマンドの並び順を保ったまま、グループごとにまとめる
+ */
+const groupCommands = (commands: PaletteCommand[]): PaletteCommandGroup[] => {
+  const groups = new Map<string, PaletteCommand[]>();
+
+  for (const command of commands) {
+    groups.set(command.group, [...(groups.get(command.group) ?? []), command]);
+  }
+
+  return Array.from(groups, ([name, groupCommands]) => ({ name, commands: groupCommands }));
+};
+
+/**
+ * コマンドパレットに表示するコマンドを取得するフック
+ *
+ * 登録されたコマンドをキーワードであいまい検索し、登録された検索関数の結果（API検索など）を後ろに追加します。
+ * キーワードが空の場合は、先頭に最近使った項目を表示します。
+ * 最近使った項目のうち、表示中のページでしか使えない操作（perform のコマンド）は、登録されている間だけ表示します。
+ *
+ * @param query - 検索キーワード
+ * @param enabled - コマンドパレットが開いているかどうか
+ * @returns グループごとのコマンドと、検索関数の実行中フラグ
+ *
+ * @example
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(query, 200)
+ * const { groups, isSearching } = usePaletteCommands({ query: debouncedQuery, enabled: isOpen })
+ * ```
+ */
+export const usePaletteCommands = ({ query, enabled }: UsePaletteCommandsOptions) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const registeredCommands = useCommandRegistryStore((state) => state.commands);
+  const searchSourceIds = useCommandRegistryStore((state) => Object.keys(state.searches).sort().join(","));
+  const recents = useRecentCommandsStore((state) => state.recents);
+
+  const trimmedQuery = query.trim();
+  const { data: searchResults = [], isFetching: isSearching } = useQuery({
+    queryKey: ["command-palette", "search", trimmedQuery, searchSourceIds],
+    queryFn: async () => {
+      const searches = Object.values(useCommandRegistryStore.getState().searches);
+      const results = await Promise.allSettled(searches.map((search) => search(trimmedQuery)));
+
+      // 一部の検索関数が失敗しても、他の検索結果は表示する
+      return results.flatMap((result) => {
+        if (result.status === "rejected") {
+          logger.error("コマンドパレットの検索に失敗しました", result.reason);
+
+          return [];
+        }
+
+        return result.value;
+      });
+    },
+    enabled: enabled && searchSourceIds !== "",
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 30,
+  });
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const groups = useMemo(() => {
+    const commands = Object.values(registeredCommands).flat();
+    const commandIds = new Set(commands.map((command) => command.id));
+    const additionalResults = searchResults.filter((command) => !commandIds.has(command.id));
+
+    if (trimmedQuery !== "") {
+      return groupCommands([...filterCommands(commands, trimmedQuery), ...additionalResults]);
+    }
+
+    // 最近使った項目は、登録中のコマンドがあればそれを使い、なければ保存されている遷移先へ遷移する
+    const recentCommands = recents.flatMap((recent): PaletteCommand[] => {
+      const registered = commands.find((command) => command.id === recent.id);
+
+      if (registered) {
+        return [{ ...registered, group: RECENT_COMMANDS_GROUP }];
+      }
+
+      return recent.href === undefined ? [] : [{ ...recent, href: recent.href, group: RECENT_COMMANDS_GROUP }];
+    });
+
+    return groupCommands([...recentCommands, ...commands, ...additionalResults]);
+  }, [registeredCommands, searchResults, recents, trimmedQuery]);
+
+  return {
+    groups,
+    isSearching,
+  };
+};
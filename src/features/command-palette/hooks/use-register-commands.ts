@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+
+import { useCommandRegistryStore } from "../stores/command-registry-store";
+import type { PaletteCommand, PaletteCommandSearch } from "../types";
+
+/**
+ * コマンドパレットにコマンドを登録するフック
+ *
+ * 呼び出したコンポーネントがマウントされている間だけ、コマンドパレットにコマンドが表示されます。
+ * 表示中のページでのみ使える操作（「このプロジェクトにメンバーを追加」など）は、そのページのコンポーネントから登録してください。
+ * commands が変わるたびに登録し直すため、useMemo でメモ化した配列を渡してください。
+ *
+ * @param sourceId - 登録元ID（feature 名など、他の登録元と重複しない値）
+ * @param commands - 登録するコマンド
+ *
+ * @example
+ * ```tsx
+ * const commands = useMemo(() => [{ id: "projects:list", title: "プロジェクト一覧", group: "ナビゲーション", href: "/projects" }], [])
+ *
+ * useRegisterCommands("projects", commands)
+ * ```
+ */
+export const useRegisterCommands = (sourceId: string, commands: PaletteCommand[]) => {
+  const registerCommands = useCommandRegistryStore((state) => state.registerCommands);
+  const unregisterCommands = useCommandRegistryStore((state) => state.unregisterCommands);
+
+  useEffect(() => {
+    registerCommands(sourceId, commands);
+
+    return () => {
+      unregisterCommands(sourceId);
+    };
+  }, [sourceId, commands, registerCommands, unregisterCommands]);
+};
+
+/**
+ * コマンドパレットに検索関数を登録するフック
+ *
+ * コマンドパレットのキーワードで API 検索などを行い、結果をコマンドとして表示する場合に使用します。
+ * search が変わるたびに登録し直すため、useCallback でメモ化した関数を渡してください。
+ *
+ * @param sourceId - 登録元ID（feature 名など、他の登録元と重複しない値）
+ * @param search - キーワードからコマンドを検索する関数
+ *
+ * @example
+ * ```tsx
+ * const search = useCallback(async (query: string) => {
+ *   const { data } = await getProjects({ q: query, size: 10 })
+ *
+ *   return data.map((project) => ({ id: `project:${project.id}`, title: project.name, group: "プロジェクト", href: `/projects/${project.id}` }))
+ * }, [])
+ *
+ * useRegisterCommandSearch("projects", search)
+ * ```
+ */
+export const useRegisterCommandSearch = (sourceId: string, search: PaletteCommandSearch) => {
+  const registerSearch = useCommandRegistryStore((state) => state.registerSearch);
+  const unregisterSearch = useCommandRegistryStore((state) => state.unregisterSearch);
+
+  useEffect(() => {
+    registerSearch(sourceId, search);
+
+    return () => {
+      unregisterSearch(sourceId);
+    };
+  }, [sourceId, search, registerSearch, unregisterSearch]);
+};
@@ -0,0 +1,4 @@
+export * from "./components";
+export * from "./hooks";
+export * from "./stores";
+export * from "./types";
@@ -0,0 +1,67 @@
+// ================================================================================
+// Imports
+// ================================================================================
+
+import { create } from "zustand";
+
+import type { PaletteCommand, PaletteCommandSearch } from "../types";
+
+// ================================================================================
+// 型定義
+// ================================================================================
+
+export type CommandRegistryStore = {
+  // ================================================================================
+  // State
+  // ================================================================================
+  /** 登録元ID ごとのコマンド */
+  commands: Record<string, PaletteCommand[]>;
+  /** 登録元ID ごとの検索関数 */
+  searches: Record<string, PaletteCommandSearch>;
+
+  // ================================================================================
+  // Actions
+  // ================================================================================
+  registerCommands: (sourceId: string, commands: PaletteCommand[]) => void;
+  unregisterCommands: (sourceId: string) => void;
+  registerSearch: (sourceId: string, search: PaletteCommandSearch) => void;
+  unregisterSearch: (sourceId: string) => void;
+};
+
+// ================================================================================
+// Zustandストア
+// ================================================================================
+
+/**
+ * コマンドパレットに表示するコマンドの登録先となるZustandストア
+ *
+ * 各 feature が登録元ID を指定してコマンド・検索関数を登録します。
+ * 同じ登録元ID で再登録すると置き換わるため、表示中のページに応じてコマンドを差し替えられます。
+ * 直接使用せず、useRegisterCommands / useRegisterCommandSearch から登録してください。
+ */
+export const useCommandRegistryStore = create<CommandRegistryStore>()((set) => ({
+  // State
+  commands: {},
+  searches: {},
+
+  // Actions
+  registerCommands: (sourceId, commands) => {
+    set((state) => ({ commands: { ...state.commands, [sourceId]: commands } }));
+  },
+
+  unregisterCommands: (sourceId) => {
+    set((state) => ({
+      commands: Object.fromEntries(Object.entries(state.commands).filter(([id]) => id !== sourceId)),
+    }));
+  },
+
+  registerSearch: (sourceId, search) => {
+    set((state) => ({ searches: { ...state.searches, [sourceId]: search } }));
+  },
+
+  unregisterSearch: (sourceId) => {
+    set((state) => ({
+      searches: Object.fromEntries(Object.entries(state.searches).filter(([id]) => id !== sourceId)),
+    }));
+  },
+}));
@@ -0,0 +1,8 @@
+/**
+ * コマンドパレットストア統合エクスポート
+ *
+ * @module features/command-palette/stores
+ */
+
+export * from "./command-registry-store";
+export * from "./recent-commands-store";
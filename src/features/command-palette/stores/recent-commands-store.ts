@@ -0,0 +1,85 @@
+// ================================================================================
+// Imports
+// ================================================================================
+
+import { z } from "zod";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+import { STORAGE_KEYS } from "@/config/constants";
+
+import { type PaletteCommand, type RecentCommand, recentCommandSchema } from "../types";
+
+// ================================================================================
+// 定数
+// ================================================================================
+
+/**
+ * 最近使った項目として保持する件数
+ */
+export const MAX_RECENT_COMMANDS = 5;
+
+// ================================================================================
+// 型定義
+// ================================================================================
+
+export type RecentCommandsStore = {
+  // ================================================================================
+  // State
+  // ================================================================================
+  recents: RecentCommand[];
+
+  // ================================================================================
+  // Actions
+  // ================================================================================
+  addRecent: (command: PaletteCommand) => void;
+  clearRecents: () => void;
+};
+
+// ================================================================================
+// Zustandストア
+// ================================================================================
+
+/**
+ * コマンドパレットで最近使った項目を管理するZustandストア
+ *
+ * - localStorage に永続化（読み込み時に Zod でバリデーションし、不正なデータは破棄）
+ * - 新しく使った項目を先頭に追加し、同じIDの項目は重複させない
+ */
+export const useRecentCommandsStore = create<RecentCommandsStore>()(
+  persist(
+    (set) => ({
+      // State
+      recents: [],
+
+      // Actions
+      addRecent: (command) => {
+        const recent: RecentCommand = {
+          id: command.id,
+          title: command.title,
+          group: command.group,
+          description: command.description,
+          href: command.href,
+        };
+
+        set((state) => ({
+          recents: [recent, ...state.recents.filter((r) => r.id !== command.id)].slice(0, MAX_RECENT_COMMANDS),
+        }));
+      },
+
+      clearRecents: () => {
+        set({ recents: [] });
+      },
+    }),
+    {
+      name: STORAGE_KEYS.RECENT_COMMANDS,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ recents: state.recents }),
+      merge: (persisted, current) => {
+        const result = z.object({ recents: z.array(recentCommandSchema) }).safeParse(persisted);
+
+        return result.success ? { ...current, recents: result.data.recents.slice(0, MAX_RECENT_COMMANDS) } : current;
+      },
+    }
+  )
+);
@@ -0,0 +1,59 @@
+/**
+ * コマンドパレット 型定義
+ *
+ * @module features/command-palette/types
+ */
+
+import { z } from "zod";
+
+// ================================================================================
+// コマンド
+// ================================================================================
+
+/**
+ * コマンドパレットに表示するコマンド
+ *
+ * href を指定した場合はそのページへ遷移し、perform を指定した場合は関数を実行します。
+ */
+export type PaletteCommand = {
+  /** 一意なID（最近使った項目の記録に使用します） */
+  id: string;
+  /** 表示名 */
+  title: string;
+  /** グループ名（「ナビゲーション」「プロジェクト」「操作」など） */
+  group: string;
+  /** 表示名の下に表示する補足 */
+  description?: string;
+  /** 表示名以外で検索に一致させるキーワード */
+  keywords?: string[];
+} & ({ href: string; perform?: never } | { perform: () => void; href?: never });
+
+/**
+ * キーワードからコマンドを検索する関数
+ *
+ * API検索など非同期な候補を追加する場合に使用します。キーワードが空文字の場合も呼び出されます。
+ */
+export type PaletteCommandSearch = (query: string) => Promise<PaletteCommand[]>;
+
+// ================================================================================
+// 最近使った項目
+// ================================================================================
+
+/**
+ * 最近使った項目スキーマ
+ *
+ * localStorage に保存するため、関数（perform）は含めずに表示に必要な情報のみを保持します。
+ * perform のコマンドは、使用時に同じIDのコマンドが登録されている場合のみ表示します。
+ */
+export const recentCommandSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  group: z.string().min(1),
+  description: z.string().optional(),
+  href: z.string().optional(),
+});
+
+/**
+ * 最近使った項目型
+ */
+export type RecentCommand = z.infer<typeof recentCommandSchema>;
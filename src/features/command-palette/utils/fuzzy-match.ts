@@ -0,0 +1,93 @@
+/**
+ * コマンドパレットのあいまい検索ユーティリティ
+ *
+ * キーワードの文字が順番どおりに含まれていれば一致とみなし（"prjlst" → "Project List"）、
+ * 連続して一致するほど・先頭に近いほど高いスコアを付けます。
+ * 全角・半角と大文字・小文字は区別しません。
+ *
+ * @module features/command-palette/utils/fuzzy-match
+ */
+
+import type { PaletteCommand } from "../types";
+
+/**
+ * 比較用に文字列を正規化（全角英数字を半角に、大文字を小文字にする）
+ */
+const normalize = (value: string) => value.normalize("NFKC").toLowerCase();
+
+/**
+ * キーワードと文字列のあいまい一致のスコアを計算
+ *
+ * @returns 一致しない場合は null、一致する場合は 0 以上のスコア（大きいほどよく一致）
+ *
+ * @example
+ * ```ts
+ * fuzzyScore("pj", "Project") // 正の数
+ * fuzzyScore("xyz", "Project") // null
+ * ```
+ */
+export const fuzzyScore = (query: string, target: string): number | null => {
+  const q = normalize(query.trim());
+  const t = normalize(target);
+
+  if (q === "") {
+    return 0;
+  }
+
+  // 部分文字列として含まれる場合は、先頭に近いほど高いスコア
+  const index = t.indexOf(q);
+
+  if (index !== -1) {
+    return 1000 - index;
+  }
+
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+
+  for (const char of q) {
+    const found = t.indexOf(char, position);
+
+    if (found === -1) {
+      return null;
+    }
+
+    // 連続して一致した文字にボーナスを付け、離れているほど減点する
+    score += found === previousMatch + 1 ? 10 : 1 - Math.min(found - position, 5) / 10;
+    previousMatch = found;
+    position = found + 1;
+  }
+
+  return score;
+};
+
+/**
+ * キーワードに一致するコマンドをスコアの高い順に取得
+ *
+ * 表示名での一致を、補足・キーワードでの一致より優先します。
+ * キーワードが空文字の場合は、すべてのコマンドを登録順に返します。
+ *
+ * @example
+ * ```ts
+ * filterCommands(commands, "メンバー") // 「メンバーを追加」「メンバー管理」...
+ * ```
+ */
+export const filterCommands = (commands: PaletteCommand[], query: string): PaletteCommand[] => {
+  if (query.trim() === "") {
+    return commands;
+  }
+
+  return commands
+    .map((command) => {
+      const titleScore = fuzzyScore(query, command.title);
+      const extraScores = [command.description ?? "", ...(command.keywords ?? [])]
+        .map((text) => fuzzyScore(query, text))
+        .filter((score) => score !== null);
+      const extraScore = extraScores.length > 0 ? Math.max(...extraScores) / 2 : null;
+
+      return { command, score: titleScore ?? extraScore };
+    })
+    .filter((result): result is { command: PaletteCommand; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((result) => result.command);
+};
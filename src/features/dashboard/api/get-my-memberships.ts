@@ -0,0 +1,66 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type MyMembershipsOutput, myMembershipsOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ログインユーザーのプロジェクト所属一覧取得
+ *
+ * 有効期限が過ぎた所属と、ゴミ箱に移動したプロジェクトへの所属は含まれません。
+ *
+ * @returns プロジェクト情報・メンバー数を含む所属一覧（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const memberships = await getMyMemberships()
+ * console.log(memberships.data) // MyMembership[]
+ * ```
+ */
+export const getMyMemberships = async (): Promise<MyMembershipsOutput> => {
+  const response = await api.get("/api/v1/users/me/memberships");
+
+  return myMembershipsOutputSchema.parse(response);
+};
+
+/**
+ * プロジェクトの作成・更新・削除（["projects"] の無効化）に合わせて再取得されるよう、クエリキーを ["projects"] の配下に置いています。
+ */
+export const getMyMembershipsQueryOptions = () => {
+  return queryOptions({
+    queryKey: ["projects", "memberships", "me"] as const,
+    queryFn: () => getMyMemberships(),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseMyMembershipsOptions = {
+  queryConfig?: QueryConfig<typeof getMyMembershipsQueryOptions>;
+};
+
+/**
+ * ログインユーザーのプロジェクト所属一覧取得フック
+ *
+ * 同じクエリを使う複数のセクションから呼び出しても、リクエストは1回にまとめられます。
+ *
+ * @example
+ * ```tsx
+ * const { data } = useMyMemberships()
+ * console.log(data.data) // MyMembership[]
+ * ```
+ */
+export const useMyMemberships = ({ queryConfig }: UseMyMembershipsOptions = {}) => {
+  return useSuspenseQuery({
+    ...getMyMembershipsQueryOptions(),
+    ...queryConfig,
+  });
+};
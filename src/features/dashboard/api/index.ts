@@ -0,0 +1 @@
+export * from "./get-my-memberships";
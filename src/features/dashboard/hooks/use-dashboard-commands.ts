@@ -0,0 +1,34 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { paths } from "@/config/paths";
+import { useRegisterCommands } from "@/features/command-palette/hooks/use-register-commands";
+import type { PaletteCommand } from "@/features/command-palette/types";
+
+/**
+ * ダッシュボードへの移動をコマンドパレットに登録するフック
+ *
+ * 認証済みのページ全体で使用するため、保護されたルートのレイアウトで呼び出してください。
+ *
+ * @example
+ * ```tsx
+ * useDashboardCommands()
+ * ```
+ */
+export const useDashboardCommands = () => {
+  const commands = useMemo<PaletteCommand[]>(
+    () => [
+      {
+        id: "dashboard",
+        title: "ダッシュボード",
+        group: "ページ",
+        keywords: ["dashboard", "ホーム"],
+        href: paths.dashboard.getHref(),
+      },
+    ],
+    []
+  );
+
+  useRegisterCommands("dashboard", commands);
+};
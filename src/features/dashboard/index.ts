@@ -0,0 +1,4 @@
+export * from "./api";
+export * from "./hooks";
+export * from "./routes";
+export * from "./types";
@@ -0,0 +1,3 @@
+export * from "./member-management-links";
+export * from "./my-projects-by-role";
+export * from "./recent-projects";
@@ -0,0 +1,60 @@
+"use client";
+
+import { UsersIcon } from "lucide-react";
+import Link from "next/link";
+
+import { paths } from "@/config/paths";
+
+import type { MyMembership } from "../../../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type MemberManagementLinksProps = {
+  /** メンバー管理の権限を持つプロジェクト所属 */
+  memberships: MyMembership[];
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * メンバー管理ページへのショートカットを表示するコンポーネント
+ *
+ * プロジェクトマネージャー・権限管理者として参加しているプロジェクトのメンバー管理ページへ直接移動できます。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.memberships - メンバー管理の権限を持つプロジェクト所属
+ * @returns メンバー管理ページへのリンク一覧
+ *
+ * @example
+ * ```tsx
+ * <MemberManagementLinks memberships={getManageableMemberships(memberships)} />
+ * ```
+ */
+export const MemberManagementLinks = ({ memberships }: MemberManagementLinksProps) => {
+  if (memberships.length === 0) {
+    return <p className="text-sm text-gray-500">メンバーを管理しているプロジェクトはありません</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {memberships.map((membership) => (
+        <li key={membership.id}>
+          <Link
+            href={paths.projects.members.getHref(membership.project_id)}
+            className="flex items-center justify-between gap-2 rounded-md border border-gray-200 bg-white px-4 py-3 text-sm transition-colors hover:border-primary/50 hover:bg-gray-50"
+          >
+            <span className="flex min-w-0 items-center gap-2">
+              <UsersIcon className="size-4 shrink-0 text-gray-500" aria-hidden="true" />
+              <span className="truncate font-medium text-gray-900">{membership.project.name}</span>
+            </span>
+            <span className="shrink-0 text-xs text-gray-500">メンバー {membership.member_count}人 →</span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
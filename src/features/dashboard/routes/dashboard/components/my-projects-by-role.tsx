@@ -0,0 +1,91 @@
+"use client";
+
+import { UsersIcon } from "lucide-react";
+import Link from "next/link";
+
+import { Card, CardContent, CardHeader } from "@/components/sample-ui/card";
+import { paths } from "@/config/paths";
+import { ProjectStatusBadge } from "@/features/projects/components/project-status-badge";
+import { RoleBadge } from "@/features/projects/components/role-badge";
+import { PROJECT_ROLE_LABELS } from "@/features/projects/constants/roles";
+
+import type { MembershipGroup } from "../../../utils/memberships";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type MyProjectsByRoleProps = {
+  /** ロールごとのプロジェクト所属（上位ロールから順） */
+  groups: MembershipGroup[];
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * 参加しているプロジェクトをロールごとに表示するコンポーネント
+ *
+ * 各プロジェクトはメンバー数とライフサイクル状態を表示し、プロジェクト詳細ページへのリンクになります。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.groups - ロールごとのプロジェクト所属
+ * @returns 参加しているプロジェクトの一覧
+ *
+ * @example
+ * ```tsx
+ * <MyProjectsByRole groups={groupMembershipsByRole(memberships)} />
+ * ```
+ */
+export const MyProjectsByRole = ({ groups }: MyProjectsByRoleProps) => {
+  // ================================================================================
+  // Render - Empty State
+  // ================================================================================
+
+  if (groups.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+        <p className="text-gray-500">参加しているプロジェクトはありません</p>
+      </div>
+    );
+  }
+
+  // ================================================================================
+  // Render - Groups
+  // ================================================================================
+
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <section key={group.role} aria-label={`${PROJECT_ROLE_LABELS[group.role]}として参加しているプロジェクト`}>
+          <div className="mb-3 flex items-center gap-2">
+            <RoleBadge role={group.role} />
+            <span className="text-sm text-gray-500">{group.memberships.length}件</span>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {group.memberships.map((membership) => (
+              <Link key={membership.id} href={paths.projects.detail.getHref(membership.project_id)}>
+                <Card className="h-full gap-2 transition-all hover:border-primary/50 hover:shadow-lg">
+                  <CardHeader className="flex items-start justify-between gap-2">
+                    <h3 className="font-semibold text-foreground">{membership.project.name}</h3>
+                    {!membership.project.is_active && <ProjectStatusBadge project={membership.project} />}
+                  </CardHeader>
+                  <CardContent>
+                    {membership.project.description !== null && (
+                      <p className="mb-2 line-clamp-2 text-sm text-muted-foreground">{membership.project.description}</p>
+                    )}
+                    <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <UsersIcon className="size-4" aria-hidden="true" />
+                      メンバー {membership.member_count}人
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
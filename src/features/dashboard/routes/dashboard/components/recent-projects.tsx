@@ -0,0 +1,61 @@
+"use client";
+
+import { format } from "date-fns";
+import Link from "next/link";
+
+import { paths } from "@/config/paths";
+import { RoleBadge } from "@/features/projects/components/role-badge";
+
+import type { MyMembership } from "../../../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type RecentProjectsProps = {
+  /** 更新日時の新しい順に並んだプロジェクト所属 */
+  memberships: MyMembership[];
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * 最近更新されたプロジェクトを表示するコンポーネント
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.memberships - 更新日時の新しい順に並んだプロジェクト所属
+ * @returns 最近更新されたプロジェクトの一覧
+ *
+ * @example
+ * ```tsx
+ * <RecentProjects memberships={getRecentlyUpdatedMemberships(memberships, 5)} />
+ * ```
+ */
+export const RecentProjects = ({ memberships }: RecentProjectsProps) => {
+  if (memberships.length === 0) {
+    return <p className="text-sm text-gray-500">最近更新されたプロジェクトはありません</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+      {memberships.map((membership) => (
+        <li key={membership.id} className="flex items-center justify-between gap-4 px-4 py-3">
+          <div className="min-w-0">
+            <Link
+              href={paths.projects.detail.getHref(membership.project_id)}
+              className="block truncate text-sm font-medium text-gray-900 hover:underline"
+            >
+              {membership.project.name}
+            </Link>
+            <time dateTime={membership.project.updated_at} className="text-xs text-gray-500">
+              {format(new Date(membership.project.updated_at), "yyyy/MM/dd HH:mm")} に更新
+            </time>
+          </div>
+          <RoleBadge role={membership.role} />
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,59 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { useMyMemberships } from "../../api";
+import { getManageableMemberships, getRecentlyUpdatedMemberships, groupMembershipsByRole } from "../../utils/memberships";
+
+/**
+ * 最近更新されたプロジェクトとして表示する件数
+ */
+export const RECENT_PROJECTS_LIMIT = 5;
+
+/**
+ * ダッシュボードのロジックを管理するカスタムフック
+ *
+ * API層のuseMyMembershipsを呼び出し、ダッシュボードの各セクションに表示する形に集計します。
+ * 各セクションは個別のSuspense境界の内側でこのフックを呼び出します（リクエストは1回にまとめられます）。
+ *
+ * @returns ダッシュボードに表示する集計結果
+ * @returns membershipGroups - ロールごとのプロジェクト所属（上位ロールから順）
+ * @returns recentMemberships - 最近更新されたプロジェクトの所属（更新日時の新しい順）
+ * @returns manageableMemberships - メンバー管理の権限を持つプロジェクトの所属
+ * @returns projectCount - 参加しているプロジェクト数
+ *
+ * @example
+ * ```tsx
+ * const { membershipGroups, projectCount } = useDashboardLogic()
+ *
+ * <MyProjectsByRole groups={membershipGroups} />
+ * ```
+ */
+export const useDashboardLogic = () => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data } = useMyMemberships();
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const memberships = data.data;
+
+  const summary = useMemo(
+    () => ({
+      membershipGroups: groupMembershipsByRole(memberships),
+      recentMemberships: getRecentlyUpdatedMemberships(memberships, RECENT_PROJECTS_LIMIT),
+      manageableMemberships: getManageableMemberships(memberships),
+    }),
+    [memberships]
+  );
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    ...summary,
+    projectCount: memberships.length,
+  };
+};
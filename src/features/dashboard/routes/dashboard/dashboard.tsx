@@ -0,0 +1,117 @@
+"use client";
+
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { PageHeader } from "@/components/layout/page-header";
+import { PageLayout } from "@/components/layout/page-layout";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+import { useUser } from "@/features/auth/stores/auth-store";
+
+import { MemberManagementLinks, MyProjectsByRole, RecentProjects } from "./components";
+import { useDashboardLogic } from "./dashboard.hook";
+
+// ================================================================================
+// Sections
+// ================================================================================
+
+/**
+ * ダッシュボードのセクション
+ *
+ * セクションごとにSuspense・エラー境界を設け、読み込み中・エラーの表示が他のセクションに影響しないようにします。
+ */
+const DashboardSection = ({ title, children }: { title: string; children: React.ReactNode }) => {
+  return (
+    <section aria-label={title}>
+      <h2 className="mb-4 text-lg font-semibold text-gray-900">{title}</h2>
+      <ErrorBoundary FallbackComponent={MainErrorFallback}>
+        <Suspense fallback={<LoadingSpinner size="sm" />}>{children}</Suspense>
+      </ErrorBoundary>
+    </section>
+  );
+};
+
+/**
+ * 参加しているプロジェクト（ロールごと）
+ */
+const MyProjectsSection = () => {
+  const { membershipGroups } = useDashboardLogic();
+
+  return <MyProjectsByRole groups={membershipGroups} />;
+};
+
+/**
+ * 最近更新されたプロジェクト
+ */
+const RecentProjectsSection = () => {
+  const { recentMemberships } = useDashboardLogic();
+
+  return <RecentProjects memberships={recentMemberships} />;
+};
+
+/**
+ * メンバー管理へのショートカット
+ */
+const MemberManagementSection = () => {
+  const { manageableMemberships } = useDashboardLogic();
+
+  return <MemberManagementLinks memberships={manageableMemberships} />;
+};
+
+/**
+ * 参加しているプロジェクト数（読み込み中・エラー時は表示しない）
+ */
+const ProjectCount = () => {
+  const { projectCount } = useDashboardLogic();
+
+  return <>{projectCount}件のプロジェクトに参加しています</>;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * ダッシュボードページ（Client Component）
+ *
+ * ログインユーザーが参加しているプロジェクトをロールごとに表示し、
+ * 最近更新されたプロジェクトと、メンバーを管理しているプロジェクトへのショートカットを提供します。
+ * 各セクションは個別に読み込み、読み込み中はセクションごとにローディングを表示します。
+ */
+const Dashboard = () => {
+  const user = useUser();
+
+  return (
+    <PageLayout>
+      <PageHeader title="ダッシュボード" description={user ? `ようこそ、${user.name}さん` : undefined} />
+
+      <p className="mb-6 text-sm text-gray-600">
+        {/* 取得に失敗した場合は各セクションでエラーを表示するため、ここでは何も表示しない */}
+        <ErrorBoundary fallback={null}>
+          <Suspense fallback={null}>
+            <ProjectCount />
+          </Suspense>
+        </ErrorBoundary>
+      </p>
+
+      <div className="grid gap-8 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <DashboardSection title="参加しているプロジェクト">
+            <MyProjectsSection />
+          </DashboardSection>
+        </div>
+        <div className="space-y-8">
+          <DashboardSection title="最近更新されたプロジェクト">
+            <RecentProjectsSection />
+          </DashboardSection>
+          <DashboardSection title="メンバー管理">
+            <MemberManagementSection />
+          </DashboardSection>
+        </div>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default Dashboard;
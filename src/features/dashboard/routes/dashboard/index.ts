@@ -0,0 +1,3 @@
+export * from "./components";
+export { default } from "./dashboard";
+export * from "./dashboard.hook";
@@ -0,0 +1,29 @@
+/**
+ * ダッシュボードAPI レスポンススキーマ
+ *
+ * APIから返されるレスポンスデータのランタイムバリデーション用スキーマ。
+ *
+ * @module features/dashboard/types/api
+ */
+
+import { z } from "zod";
+
+import { myMembershipSchema } from ".";
+
+// ================================================================================
+// プロジェクト所属レスポンススキーマ
+// ================================================================================
+
+/**
+ * ログインユーザーのプロジェクト所属一覧レスポンススキーマ
+ *
+ * GET /api/v1/users/me/memberships のレスポンス
+ */
+export const myMembershipsOutputSchema = z.object({
+  data: z.array(myMembershipSchema),
+});
+
+/**
+ * ログインユーザーのプロジェクト所属一覧レスポンス型
+ */
+export type MyMembershipsOutput = z.infer<typeof myMembershipsOutputSchema>;
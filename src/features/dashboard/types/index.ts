@@ -0,0 +1,32 @@
+/**
+ * ダッシュボード機能の型定義
+ *
+ * プロジェクト・メンバーのエンティティは features/projects の定義を共有します。
+ * - API レスポンススキーマ: api.ts を参照
+ *
+ * @module features/dashboard/types
+ */
+
+import { z } from "zod";
+
+import { projectMemberSchema, projectSchema } from "@/features/projects/types";
+
+// ================================================================================
+// エンティティ（ドメインモデル）
+// ================================================================================
+
+/**
+ * ログインユーザーのプロジェクト所属情報スキーマ
+ *
+ * ダッシュボードで表示するため、所属先のプロジェクト情報とメンバー数を必ず含みます。
+ */
+export const myMembershipSchema = projectMemberSchema.extend({
+  project: projectSchema,
+  /** プロジェクトの有効なメンバー数（有効期限が過ぎたメンバーは含まない） */
+  member_count: z.number().int().nonnegative(),
+});
+
+/**
+ * ログインユーザーのプロジェクト所属情報型
+ */
+export type MyMembership = z.infer<typeof myMembershipSchema>;
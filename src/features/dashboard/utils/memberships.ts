@@ -0,0 +1,58 @@
+/**
+ * ダッシュボードに表示するプロジェクト所属の集計ユーティリティ
+ *
+ * @module features/dashboard/utils/memberships
+ */
+
+import { PROJECT_ROLE_PERMISSIONS } from "@/features/projects/constants/permissions";
+import { PROJECT_ROLE_LABELS } from "@/features/projects/constants/roles";
+import type { ProjectRole } from "@/features/projects/types";
+
+import type { MyMembership } from "../types";
+
+/**
+ * ロールごとのプロジェクト所属
+ */
+export type MembershipGroup = {
+  role: ProjectRole;
+  memberships: MyMembership[];
+};
+
+/**
+ * プロジェクト所属をロールごとにまとめる
+ *
+ * 上位ロールから順に並べ、所属のないロールは含めません。各ロール内はプロジェクト名順です。
+ *
+ * @example
+ * ```ts
+ * groupMembershipsByRole(memberships) // [{ role: "project_manager", memberships: [...] }, ...]
+ * ```
+ */
+export const groupMembershipsByRole = (memberships: MyMembership[]): MembershipGroup[] => {
+  return (Object.keys(PROJECT_ROLE_LABELS) as ProjectRole[])
+    .map((role) => ({
+      role,
+      memberships: memberships
+        .filter((membership) => membership.role === role)
+        .sort((a, b) => a.project.name.localeCompare(b.project.name, "ja")),
+    }))
+    .filter((group) => group.memberships.length > 0);
+};
+
+/**
+ * 最近更新されたプロジェクトの所属を、更新日時の新しい順に取得
+ *
+ * @param limit - 取得する件数
+ */
+export const getRecentlyUpdatedMemberships = (memberships: MyMembership[], limit: number): MyMembership[] => {
+  return [...memberships].sort((a, b) => b.project.updated_at.localeCompare(a.project.updated_at)).slice(0, limit);
+};
+
+/**
+ * メンバー管理の権限（project:manage_members）を持つプロジェクトの所属を取得
+ *
+ * プロジェクトマネージャー・権限管理者として参加しているプロジェクトが対象です。
+ */
+export const getManageableMemberships = (memberships: MyMembership[]): MyMembership[] => {
+  return memberships.filter((membership) => PROJECT_ROLE_PERMISSIONS[membership.role].includes("project:manage_members"));
+};
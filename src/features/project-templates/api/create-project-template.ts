@@ -0,0 +1,73 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { projectTemplateOutputSchema } from "../types/api";
+import type { ProjectTemplateInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトテンプレート作成（システム管理者のみ）
+ *
+ * @param data - テンプレートの入力データ
+ * @returns 作成されたテンプレート（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * await createProjectTemplate({
+ *   name: "受託開発",
+ *   description: "受託開発案件の標準構成",
+ *   project_description: "顧客向けの開発プロジェクト",
+ *   default_member_role: "member",
+ *   invite_policy: "managers_only",
+ * })
+ * ```
+ */
+export const createProjectTemplate = async (data: ProjectTemplateInput) => {
+  const response = await api.post("/api/v1/admin/project-templates", data);
+
+  return projectTemplateOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseCreateProjectTemplateOptions = {
+  mutationConfig?: MutationConfig<typeof createProjectTemplate>;
+};
+
+/**
+ * プロジェクトテンプレート作成フック
+ *
+ * ミューテーション成功時にテンプレート一覧のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const createTemplateMutation = useCreateProjectTemplate()
+ *
+ * createTemplateMutation.mutate(data)
+ * ```
+ */
+export const useCreateProjectTemplate = ({ mutationConfig }: UseCreateProjectTemplateOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["project-templates"] }).catch((error) => {
+        logger.error("テンプレート一覧クエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: createProjectTemplate,
+  });
+};
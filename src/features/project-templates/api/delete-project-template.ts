@@ -0,0 +1,60 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトテンプレート削除（システム管理者のみ）
+ *
+ * テンプレートを削除しても、作成済みのプロジェクトには影響しません。
+ *
+ * @example
+ * ```tsx
+ * await deleteProjectTemplate({ templateId: "template-1" })
+ * ```
+ */
+export const deleteProjectTemplate = ({ templateId }: { templateId: string }): Promise<void> => {
+  return api.delete(`/api/v1/admin/project-templates/${templateId}`);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseDeleteProjectTemplateOptions = {
+  mutationConfig?: MutationConfig<typeof deleteProjectTemplate>;
+};
+
+/**
+ * プロジェクトテンプレート削除フック
+ *
+ * ミューテーション成功時にテンプレート一覧のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const deleteTemplateMutation = useDeleteProjectTemplate()
+ *
+ * deleteTemplateMutation.mutate({ templateId: "template-1" })
+ * ```
+ */
+export const useDeleteProjectTemplate = ({ mutationConfig }: UseDeleteProjectTemplateOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["project-templates"] }).catch((error) => {
+        logger.error("テンプレート一覧クエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: deleteProjectTemplate,
+  });
+};
@@ -0,0 +1,61 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type ProjectTemplatesOutput, projectTemplatesOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトテンプレート一覧取得
+ *
+ * テンプレートからのプロジェクト作成で選択肢として使用するため、すべてのユーザーが取得できます。
+ *
+ * @returns テンプレート一覧（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const templates = await getProjectTemplates()
+ * console.log(templates.data) // ProjectTemplate[]
+ * ```
+ */
+export const getProjectTemplates = async (): Promise<ProjectTemplatesOutput> => {
+  const response = await api.get("/api/v1/project-templates");
+
+  return projectTemplatesOutputSchema.parse(response);
+};
+
+export const getProjectTemplatesQueryOptions = () => {
+  return queryOptions({
+    queryKey: ["project-templates"] as const,
+    queryFn: () => getProjectTemplates(),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseProjectTemplatesOptions = {
+  queryConfig?: QueryConfig<typeof getProjectTemplatesQueryOptions>;
+};
+
+/**
+ * プロジェクトテンプレート一覧取得フック
+ *
+ * @example
+ * ```tsx
+ * const { data } = useProjectTemplates()
+ * console.log(data.data) // ProjectTemplate[]
+ * ```
+ */
+export const useProjectTemplates = ({ queryConfig }: UseProjectTemplatesOptions = {}) => {
+  return useSuspenseQuery({
+    ...getProjectTemplatesQueryOptions(),
+    ...queryConfig,
+  });
+};
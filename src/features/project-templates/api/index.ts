@@ -0,0 +1,4 @@
+export * from "./create-project-template";
+export * from "./delete-project-template";
+export * from "./get-project-templates";
+export * from "./update-project-template";
@@ -0,0 +1,69 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { projectTemplateOutputSchema } from "../types/api";
+import type { ProjectTemplateInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトテンプレート更新（システム管理者のみ）
+ *
+ * テンプレートを更新しても、作成済みのプロジェクトには影響しません。
+ *
+ * @param params - テンプレートIDと更新データ
+ * @returns 更新されたテンプレート（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * await updateProjectTemplate({ templateId: "template-1", data })
+ * ```
+ */
+export const updateProjectTemplate = async ({ templateId, data }: { templateId: string; data: ProjectTemplateInput }) => {
+  const response = await api.put(`/api/v1/admin/project-templates/${templateId}`, data);
+
+  return projectTemplateOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseUpdateProjectTemplateOptions = {
+  mutationConfig?: MutationConfig<typeof updateProjectTemplate>;
+};
+
+/**
+ * プロジェクトテンプレート更新フック
+ *
+ * ミューテーション成功時にテンプレート一覧のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const updateTemplateMutation = useUpdateProjectTemplate()
+ *
+ * updateTemplateMutation.mutate({ templateId: "template-1", data })
+ * ```
+ */
+export const useUpdateProjectTemplate = ({ mutationConfig }: UseUpdateProjectTemplateOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["project-templates"] }).catch((error) => {
+        logger.error("テンプレート一覧クエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: updateProjectTemplate,
+  });
+};
@@ -0,0 +1,36 @@
+/**
+ * プロジェクトテンプレート機能のメッセージ定数
+ *
+ * エラーメッセージ、成功メッセージ、確認メッセージなど、
+ * ユーザーに表示されるメッセージを一元管理します。
+ *
+ * @module features/project-templates/constants/messages
+ */
+
+export const PROJECT_TEMPLATE_MESSAGES = {
+  /**
+   * エラーメッセージ
+   */
+  ERRORS: {
+    CREATE_FAILED: "テンプレートの作成に失敗しました",
+    UPDATE_FAILED: "テンプレートの更新に失敗しました",
+    DELETE_FAILED: "テンプレートの削除に失敗しました",
+  },
+
+  /**
+   * 成功メッセージ
+   */
+  SUCCESS: {
+    created: (name: string) => `テンプレート「${name}」を作成しました`,
+    updated: (name: string) => `テンプレート「${name}」を更新しました`,
+    deleted: (name: string) => `テンプレート「${name}」を削除しました`,
+  },
+
+  /**
+   * 確認メッセージ
+   */
+  CONFIRM: {
+    deleteTemplate: (name: string) => `テンプレート「${name}」を削除しますか？`,
+    DELETE_TEMPLATE_NOTE: "作成済みのプロジェクトには影響しません。",
+  },
+} as const;
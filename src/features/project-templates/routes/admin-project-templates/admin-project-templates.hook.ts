@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+
+import { ApiError } from "@/lib/api-error";
+
+import { useCreateProjectTemplate, useDeleteProjectTemplate, useProjectTemplates, useUpdateProjectTemplate } from "../../api";
+import { PROJECT_TEMPLATE_MESSAGES } from "../../constants/messages";
+import type { ProjectTemplate } from "../../types";
+import type { ProjectTemplateInput } from "../../types/forms";
+
+/**
+ * プロジェクトテンプレート管理ページのロジックを管理するカスタムフック
+ *
+ * テンプレートの一覧取得・作成・更新・削除を提供します。
+ * 作成・更新のエラーはフォームで表示するため例外として呼び出し元に伝え、削除のエラーは deleteError に保存します。
+ *
+ * @returns テンプレート管理の状態と操作関数
+ * @returns templates - テンプレート一覧
+ * @returns handleSave - テンプレートの作成（template が null の場合）または更新
+ * @returns handleDelete - テンプレートの削除（成功時に true を返す）
+ * @returns clearDeleteError - 削除のエラーメッセージをクリア
+ * @returns notice - 操作結果のメッセージ
+ * @returns deleteError - 削除のエラーメッセージ
+ * @returns isSaving - 作成・更新中フラグ
+ * @returns isDeleting - 削除中フラグ
+ *
+ * @example
+ * ```tsx
+ * const { templates, handleSave, handleDelete, isSaving } = useAdminProjectTemplatesLogic()
+ *
+ * await handleSave(null, data) // 新規作成
+ * await handleSave(template, data) // 更新
+ * ```
+ */
+export const useAdminProjectTemplatesLogic = () => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data } = useProjectTemplates();
+  const createTemplateMutation = useCreateProjectTemplate();
+  const updateTemplateMutation = useUpdateProjectTemplate();
+  const deleteTemplateMutation = useDeleteProjectTemplate();
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [notice, setNotice] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * テンプレートの作成・更新
+   *
+   * 処理フロー:
+   * 1. template が null の場合は作成、それ以外は更新のリクエストを送信
+   * 2. 成功時: テンプレート一覧が再取得され、結果のメッセージを表示
+   * 3. エラー時: 例外をそのまま投げる（フォームでエラーを表示する）
+   */
+  const handleSave = async (template: ProjectTemplate | null, input: ProjectTemplateInput) => {
+    setNotice(null);
+
+    if (template === null) {
+      const result = await createTemplateMutation.mutateAsync(input);
+      setNotice(PROJECT_TEMPLATE_MESSAGES.SUCCESS.created(result.data.name));
+
+      return;
+    }
+
+    const result = await updateTemplateMutation.mutateAsync({ templateId: template.id, data: input });
+    setNotice(PROJECT_TEMPLATE_MESSAGES.SUCCESS.updated(result.data.name));
+  };
+
+  /**
+   * テンプレートの削除
+   *
+   * @returns 削除できた場合は true（失敗時は deleteError にメッセージを設定）
+   */
+  const handleDelete = async (template: ProjectTemplate) => {
+    setNotice(null);
+    setDeleteError(null);
+
+    return deleteTemplateMutation
+      .mutateAsync({ templateId: template.id })
+      .then(() => {
+        setNotice(PROJECT_TEMPLATE_MESSAGES.SUCCESS.deleted(template.name));
+
+        return true;
+      })
+      .catch((error: unknown) => {
+        setDeleteError(error instanceof ApiError ? error.message : PROJECT_TEMPLATE_MESSAGES.ERRORS.DELETE_FAILED);
+
+        return false;
+      });
+  };
+
+  /**
+   * 削除のエラーメッセージをクリア
+   */
+  const clearDeleteError = () => {
+    setDeleteError(null);
+  };
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    templates: data.data,
+    handleSave,
+    handleDelete,
+    clearDeleteError,
+    notice,
+    deleteError,
+    isSaving: createTemplateMutation.isPending || updateTemplateMutation.isPending,
+    isDeleting: deleteTemplateMutation.isPending,
+  };
+};
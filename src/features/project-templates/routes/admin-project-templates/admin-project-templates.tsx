@@ -0,0 +1,106 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { PageHeader } from "@/components/layout/page-header";
+import { PageLayout } from "@/components/layout/page-layout";
+import { Button } from "@/components/sample-ui/button";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+
+import type { ProjectTemplate } from "../../types";
+import { useAdminProjectTemplatesLogic } from "./admin-project-templates.hook";
+import { DeleteProjectTemplateDialog, ProjectTemplateDialog, ProjectTemplatesTable } from "./components";
+
+/**
+ * 編集ダイアログの状態（null: 閉じている、"new": 新規作成、ProjectTemplate: 編集）
+ */
+type EditingTemplate = ProjectTemplate | "new" | null;
+
+/**
+ * プロジェクトテンプレート管理ページのコンテンツ
+ */
+const AdminProjectTemplatesContent = () => {
+  const { templates, handleSave, handleDelete, clearDeleteError, notice, deleteError, isSaving, isDeleting } =
+    useAdminProjectTemplatesLogic();
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [editing, setEditing] = useState<EditingTemplate>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ProjectTemplate | null>(null);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleCloseDeleteDialog = () => {
+    setDeleteTarget(null);
+    clearDeleteError();
+  };
+
+  const confirmDelete = (template: ProjectTemplate) => {
+    handleDelete(template)
+      .then((deleted) => {
+        if (deleted) {
+          setDeleteTarget(null);
+        }
+      })
+      .catch(() => {
+        // エラーは deleteError としてダイアログに表示する
+      });
+  };
+
+  return (
+    <PageLayout>
+      <PageHeader
+        title="プロジェクトテンプレート"
+        description="プロジェクトの作成時に選択できるテンプレート（プロジェクトの説明・既定のロール・招待ポリシー）を管理します"
+        action={<Button onClick={() => setEditing("new")}>テンプレートを作成</Button>}
+      />
+
+      {notice !== null && <p className="mb-4 text-sm text-green-700">{notice}</p>}
+
+      <ProjectTemplatesTable templates={templates} onEdit={setEditing} onDelete={setDeleteTarget} />
+
+      {/* 作成・編集ダイアログ（対象が変わるたびにフォームを初期化する） */}
+      {editing !== null && (
+        <ProjectTemplateDialog
+          key={editing === "new" ? "new" : editing.id}
+          template={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+          onSave={(input) => handleSave(editing === "new" ? null : editing, input)}
+          isSaving={isSaving}
+        />
+      )}
+
+      {/* 削除確認ダイアログ */}
+      <DeleteProjectTemplateDialog
+        template={deleteTarget}
+        onClose={handleCloseDeleteDialog}
+        onDelete={confirmDelete}
+        isDeleting={isDeleting}
+        error={deleteError}
+      />
+    </PageLayout>
+  );
+};
+
+/**
+ * プロジェクトテンプレート管理ページ（Client Component）
+ *
+ * システム管理者向けのテンプレート管理です。system:admin 権限が必要で、
+ * 権限の判定は (protected) レイアウトのルート権限ガードで行います。
+ * テンプレートを変更・削除しても、作成済みのプロジェクトには影響しません。
+ */
+const AdminProjectTemplates = () => {
+  return (
+    <ErrorBoundary FallbackComponent={MainErrorFallback}>
+      <Suspense fallback={<LoadingSpinner fullScreen />}>
+        <AdminProjectTemplatesContent />
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
+
+export default AdminProjectTemplates;
@@ -0,0 +1,70 @@
+"use client";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+
+import { PROJECT_TEMPLATE_MESSAGES } from "../../../constants/messages";
+import type { ProjectTemplate } from "../../../types";
+
+type DeleteProjectTemplateDialogProps = {
+  /** 削除するテンプレート（null の場合はダイアログを表示しない） */
+  template: ProjectTemplate | null;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 削除処理ハンドラー */
+  onDelete: (template: ProjectTemplate) => void;
+  /** 削除中かどうか */
+  isDeleting: boolean;
+  /** 削除エラーメッセージ */
+  error?: string | null;
+};
+
+/**
+ * プロジェクトテンプレート削除確認ダイアログコンポーネント
+ *
+ * @param props - DeleteProjectTemplateDialogコンポーネントのプロパティ
+ * @returns 削除確認ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <DeleteProjectTemplateDialog
+ *   template={deleteTarget}
+ *   onClose={() => setDeleteTarget(null)}
+ *   onDelete={handleDelete}
+ *   isDeleting={isDeleting}
+ *   error={deleteError}
+ * />
+ * ```
+ */
+export const DeleteProjectTemplateDialog = ({ template, onClose, onDelete, isDeleting, error }: DeleteProjectTemplateDialogProps) => {
+  if (!template) {
+    return null;
+  }
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>テンプレートの削除</DialogTitle>
+          <DialogDescription>{PROJECT_TEMPLATE_MESSAGES.CONFIRM.deleteTemplate(template.name)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">{PROJECT_TEMPLATE_MESSAGES.CONFIRM.DELETE_TEMPLATE_NOTE}</p>
+
+          {error && <ErrorMessage message={error} />}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isDeleting}>
+            キャンセル
+          </Button>
+          <Button variant="destructive" onClick={() => onDelete(template)} disabled={isDeleting}>
+            {isDeleting ? "削除中..." : "削除"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,3 @@
+export * from "./delete-project-template-dialog";
+export * from "./project-template-dialog";
+export * from "./project-templates-table";
@@ -0,0 +1,155 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import {
+  ControlledInputField,
+  ControlledRadioGroupField,
+  ControlledSelectField,
+  ControlledTextareaField,
+} from "@/components/sample-ui/form-field/controlled-form-field";
+import { PROJECT_ROLE_LABELS } from "@/features/projects/constants/roles";
+import { INVITE_POLICY_OPTIONS } from "@/features/projects/constants/settings";
+import { projectRoleSchema } from "@/features/projects/types";
+import { ApiError } from "@/lib/api-error";
+
+import { PROJECT_TEMPLATE_MESSAGES } from "../../../constants/messages";
+import type { ProjectTemplate } from "../../../types";
+import { type ProjectTemplateInput, projectTemplateInputSchema } from "../../../types/forms";
+
+type ProjectTemplateDialogProps = {
+  /** 編集するテンプレート（null の場合は新規作成） */
+  template: ProjectTemplate | null;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 保存処理ハンドラー */
+  onSave: (data: ProjectTemplateInput) => Promise<void>;
+  /** 保存中かどうか */
+  isSaving: boolean;
+};
+
+/**
+ * プロジェクトテンプレートの作成・編集ダイアログコンポーネント
+ *
+ * テンプレート名・説明と、テンプレートから作成するプロジェクトの説明・既定のロール・招待ポリシーを入力します。
+ * 既定のロールにプロジェクトマネージャーは選択できません。
+ * API がエラーを返した場合は、Problem Details の detail をフォームのエラーとして表示します。
+ *
+ * @example
+ * ```tsx
+ * <ProjectTemplateDialog
+ *   template={null}
+ *   onClose={() => setEditing(null)}
+ *   onSave={(data) => handleSave(null, data)}
+ *   isSaving={isSaving}
+ * />
+ * ```
+ */
+export const ProjectTemplateDialog = ({ template, onClose, onSave, isSaving }: ProjectTemplateDialogProps) => {
+  const isNew = template === null;
+
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setError,
+  } = useForm<ProjectTemplateInput>({
+    resolver: zodResolver(projectTemplateInputSchema),
+    defaultValues: {
+      name: template?.name ?? "",
+      description: template?.description ?? "",
+      project_description: template?.project_description ?? "",
+      default_member_role: template?.default_member_role ?? "member",
+      invite_policy: template?.invite_policy ?? "managers_only",
+    },
+  });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const onSubmit = handleSubmit((data: ProjectTemplateInput) => {
+    onSave(data)
+      .then(() => {
+        onClose();
+      })
+      .catch((error: unknown) => {
+        setError("root", {
+          message:
+            error instanceof ApiError
+              ? error.message
+              : isNew
+                ? PROJECT_TEMPLATE_MESSAGES.ERRORS.CREATE_FAILED
+                : PROJECT_TEMPLATE_MESSAGES.ERRORS.UPDATE_FAILED,
+        });
+      });
+  });
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "テンプレートの作成" : "テンプレートの編集"}</DialogTitle>
+          <DialogDescription>テンプレートから作成するプロジェクトの説明と設定を入力します</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={onSubmit} className="space-y-4">
+          <ControlledInputField control={control} name="name" label="テンプレート名" placeholder="テンプレート名を入力" required />
+
+          <ControlledTextareaField
+            control={control}
+            name="description"
+            label="テンプレートの説明"
+            placeholder="どのようなプロジェクトに使うテンプレートかを入力（任意）"
+            rows={2}
+          />
+
+          <ControlledTextareaField
+            control={control}
+            name="project_description"
+            label="プロジェクトの説明"
+            placeholder="作成するプロジェクトの説明を入力（任意）"
+            rows={3}
+          />
+
+          <ControlledSelectField
+            control={control}
+            name="default_member_role"
+            label="新しいメンバーの既定のロール"
+            options={projectRoleSchema.options.map((role) => ({
+              value: role,
+              label: PROJECT_ROLE_LABELS[role],
+              disabled: role === "project_manager",
+            }))}
+            required
+          />
+
+          <ControlledRadioGroupField
+            control={control}
+            name="invite_policy"
+            label="メンバーを招待・追加できるロール"
+            options={INVITE_POLICY_OPTIONS}
+            required
+          />
+
+          {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "保存中..." : "保存"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
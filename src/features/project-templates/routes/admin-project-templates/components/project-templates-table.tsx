@@ -0,0 +1,100 @@
+"use client";
+
+import { format } from "date-fns";
+
+import { Button } from "@/components/sample-ui/button";
+import { RoleBadge } from "@/features/projects/components/role-badge";
+import { INVITE_POLICY_LABELS } from "@/features/projects/constants/settings";
+
+import type { ProjectTemplate } from "../../../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type ProjectTemplatesTableProps = {
+  templates: ProjectTemplate[];
+  onEdit: (template: ProjectTemplate) => void;
+  onDelete: (template: ProjectTemplate) => void;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * プロジェクトテンプレート一覧テーブルコンポーネント
+ *
+ * テンプレートをテーブル形式で表示し、編集・削除の操作を提供します。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.templates - 表示するテンプレートの配列
+ * @param props.onEdit - 編集時のコールバック関数
+ * @param props.onDelete - 削除時のコールバック関数
+ * @returns テンプレート一覧テーブルコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <ProjectTemplatesTable templates={templates} onEdit={setEditing} onDelete={setDeleteTarget} />
+ * ```
+ */
+export const ProjectTemplatesTable = ({ templates, onEdit, onDelete }: ProjectTemplatesTableProps) => {
+  // ================================================================================
+  // Render - Empty State
+  // ================================================================================
+
+  if (templates.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+        <p className="text-gray-500">テンプレートがありません</p>
+      </div>
+    );
+  }
+
+  // ================================================================================
+  // Render - Table
+  // ================================================================================
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">テンプレート</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">既定のロール</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">招待ポリシー</th>
+            <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">更新日時</th>
+            <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">アクション</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {templates.map((template) => (
+            <tr key={template.id} className="hover:bg-gray-50">
+              <td className="px-6 py-4">
+                <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                <div className="text-sm text-gray-500">{template.description ?? "-"}</div>
+              </td>
+              <td className="whitespace-nowrap px-6 py-4">
+                <RoleBadge role={template.default_member_role} />
+              </td>
+              <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">{INVITE_POLICY_LABELS[template.invite_policy]}</td>
+              <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                {format(new Date(template.updated_at), "yyyy/MM/dd HH:mm")}
+              </td>
+              <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onEdit(template)} aria-label={`${template.name}を編集`}>
+                    編集
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onDelete(template)} aria-label={`${template.name}を削除`}>
+                    削除
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
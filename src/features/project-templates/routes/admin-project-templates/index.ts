@@ -0,0 +1,3 @@
+export { default } from "./admin-project-templates";
+export * from "./admin-project-templates.hook";
+export * from "./components";
@@ -0,0 +1 @@
+export * from "./admin-project-templates";
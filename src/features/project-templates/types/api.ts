@@ -0,0 +1,44 @@
+/**
+ * プロジェクトテンプレートAPI レスポンススキーマ
+ *
+ * APIから返されるレスポンスデータのランタイムバリデーション用スキーマ。
+ *
+ * @module features/project-templates/types/api
+ */
+
+import { z } from "zod";
+
+import { projectTemplateSchema } from ".";
+
+// ================================================================================
+// プロジェクトテンプレートレスポンススキーマ
+// ================================================================================
+
+/**
+ * テンプレート一覧レスポンススキーマ
+ *
+ * GET /api/v1/project-templates のレスポンス
+ */
+export const projectTemplatesOutputSchema = z.object({
+  data: z.array(projectTemplateSchema),
+});
+
+/**
+ * テンプレート一覧レスポンス型
+ */
+export type ProjectTemplatesOutput = z.infer<typeof projectTemplatesOutputSchema>;
+
+/**
+ * テンプレートレスポンススキーマ
+ *
+ * POST /api/v1/admin/project-templates のレスポンス
+ * PUT /api/v1/admin/project-templates/:templateId のレスポンス
+ */
+export const projectTemplateOutputSchema = z.object({
+  data: projectTemplateSchema,
+});
+
+/**
+ * テンプレートレスポンス型
+ */
+export type ProjectTemplateOutput = z.infer<typeof projectTemplateOutputSchema>;
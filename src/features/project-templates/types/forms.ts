@@ -0,0 +1,33 @@
+/**
+ * プロジェクトテンプレート 入力スキーマ
+ *
+ * フォーム入力とAPI呼び出し時の入力データのランタイムバリデーション用スキーマ。
+ *
+ * @module features/project-templates/types/forms
+ */
+
+import { z } from "zod";
+
+import { memberInvitePolicySchema, projectRoleSchema } from "@/features/projects/types";
+
+// ================================================================================
+// テンプレート入力スキーマ
+// ================================================================================
+
+/**
+ * テンプレート作成・更新入力スキーマ
+ *
+ * 既定のロールにプロジェクトマネージャーは指定できません（プロジェクト設定と同じ制約）。
+ */
+export const projectTemplateInputSchema = z.object({
+  name: z.string().min(1, "テンプレート名は必須です").max(100, "テンプレート名は100文字以内で入力してください"),
+  description: z.string().max(500, "説明は500文字以内で入力してください").nullable().optional(),
+  project_description: z.string().max(500, "プロジェクトの説明は500文字以内で入力してください").nullable().optional(),
+  default_member_role: projectRoleSchema.refine((role) => role !== "project_manager", "プロジェクトマネージャーは既定のロールにできません"),
+  invite_policy: memberInvitePolicySchema,
+});
+
+/**
+ * テンプレート作成・更新入力型
+ */
+export type ProjectTemplateInput = z.infer<typeof projectTemplateInputSchema>;
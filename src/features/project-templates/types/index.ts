@@ -0,0 +1,43 @@
+/**
+ * プロジェクトテンプレート機能の型定義
+ *
+ * ロール・招待ポリシーは features/projects の定義を共有します。
+ * - API レスポンススキーマ: api.ts を参照
+ * - 入力スキーマ: forms.ts を参照
+ *
+ * @module features/project-templates/types
+ */
+
+import { z } from "zod";
+
+import { memberInvitePolicySchema, projectRoleSchema } from "@/features/projects/types";
+
+// ================================================================================
+// エンティティ（ドメインモデル）
+// ================================================================================
+
+/**
+ * プロジェクトテンプレートスキーマ
+ *
+ * テンプレートから作成したプロジェクトには、プロジェクトの説明と設定（既定のロール・招待ポリシー）がコピーされます。
+ */
+export const projectTemplateSchema = z.object({
+  id: z.string(),
+  /** テンプレート名 */
+  name: z.string().min(1, "テンプレート名は必須です"),
+  /** テンプレートの用途の説明（テンプレートの選択時に表示） */
+  description: z.string().nullable(),
+  /** 作成するプロジェクトの説明 */
+  project_description: z.string().nullable(),
+  /** 作成するプロジェクトの、新しいメンバーの既定のロール */
+  default_member_role: projectRoleSchema,
+  /** 作成するプロジェクトの招待ポリシー */
+  invite_policy: memberInvitePolicySchema,
+  created_at: z.iso.datetime(),
+  updated_at: z.iso.datetime(),
+});
+
+/**
+ * プロジェクトテンプレート型
+ */
+export type ProjectTemplate = z.infer<typeof projectTemplateSchema>;
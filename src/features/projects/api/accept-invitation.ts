@@ -0,0 +1,79 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { ProjectMemberOutput } from "../types/api";
+import { projectMemberOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * 招待を承諾してプロジェクトに参加
+ *
+ * サインイン中のユーザーのメールアドレスが招待先と一致する必要があります。
+ *
+ * @param token 招待トークン
+ * @returns 作成されたプロジェクトメンバー
+ *
+ * @example
+ * ```tsx
+ * const { data: member } = await acceptInvitation({ token: 'invite-token' });
+ * router.push(`/projects/${member.project_id}`);
+ * ```
+ */
+export const acceptInvitation = async ({ token }: { token: string }): Promise<ProjectMemberOutput> => {
+  const response = await api.post(`/api/v1/invitations/${token}/accept`);
+
+  return projectMemberOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseAcceptInvitationOptions = {
+  mutationConfig?: Omit<UseMutationOptions<ProjectMemberOutput, Error, { token: string }, unknown>, "mutationFn">;
+};
+
+/**
+ * 招待承諾フック
+ *
+ * ミューテーション成功時に招待内容とプロジェクト関連のクエリキャッシュを無効化します
+ * （参加したプロジェクトの一覧・メンバーシップを再取得するため）。
+ *
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const acceptMutation = useAcceptInvitation({
+ *   mutationConfig: {
+ *     onSuccess: ({ data }) => router.push(`/projects/${data.project_id}`),
+ *   },
+ * });
+ *
+ * acceptMutation.mutate({ token });
+ * ```
+ */
+export const useAcceptInvitation = ({ mutationConfig }: UseAcceptInvitationOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      const [, { token }] = args;
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["invitations", token] }),
+        queryClient.invalidateQueries({ queryKey: ["projects"] }),
+      ]).catch((error) => {
+        logger.error("招待・プロジェクトクエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: acceptInvitation,
+  });
+};
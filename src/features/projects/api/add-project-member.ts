@@ -33,7 +33,7 @@ export const addProjectMember = async ({
   projectId: string;
   data: AddProjectMemberInput;
 }): Promise<ProjectMemberOutput> => {
-  const response = await api.post(`/projects/${projectId}/members`, data);
+  const response = await api.post(`/api/v1/projects/${projectId}/members`, data);
 
   return projectMemberOutputSchema.parse(response);
 };
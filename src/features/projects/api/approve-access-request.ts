@@ -0,0 +1,81 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { ApproveAccessRequestOutput } from "../types/api";
+import { approveAccessRequestOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * 権限リクエストを承認
+ *
+ * リクエストしたメンバーのロールを、メンバーのロール更新と同じ検証（ロール階層・最後のマネージャー保護）を経て変更します。
+ *
+ * @param projectId プロジェクトID
+ * @param requestId 権限リクエストID
+ * @returns 承認したリクエストと、ロールを変更したメンバー
+ *
+ * @example
+ * ```tsx
+ * await approveAccessRequest({ projectId: 'project-123', requestId: 'access-request-456' });
+ * ```
+ */
+export const approveAccessRequest = async ({
+  projectId,
+  requestId,
+}: {
+  projectId: string;
+  requestId: string;
+}): Promise<ApproveAccessRequestOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/access-requests/${requestId}/approve`);
+
+  return approveAccessRequestOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseApproveAccessRequestOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<ApproveAccessRequestOutput, Error, { requestId: string }, unknown>, "mutationFn">;
+};
+
+/**
+ * 権限リクエスト承認フック
+ *
+ * ミューテーション成功時に権限リクエストとプロジェクトメンバー一覧のクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const approveMutation = useApproveAccessRequest({ projectId: 'project-123' });
+ *
+ * approveMutation.mutate({ requestId: 'access-request-456' });
+ * ```
+ */
+export const useApproveAccessRequest = ({ projectId, mutationConfig }: UseApproveAccessRequestOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["projects", projectId, "access-requests"] }),
+        queryClient.invalidateQueries({ queryKey: ["projects", projectId, "members"] }),
+      ]).catch((error) => {
+        logger.error("権限リクエスト・メンバークエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: ({ requestId }: { requestId: string }) => approveAccessRequest({ projectId, requestId }),
+  });
+};
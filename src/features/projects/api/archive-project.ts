@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { type ProjectLifecycleOutput, projectLifecycleOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトのアーカイブ
+ *
+ * プロジェクトを非アクティブ（is_active: false）にします。
+ * アーカイブしたプロジェクトは一覧の既定の表示から外れ、閲覧のみ可能になります。
+ *
+ * @param projectId - プロジェクトID
+ * @returns アーカイブしたプロジェクト（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const archived = await archiveProject({ projectId: '123' });
+ * console.log(archived.data.is_active); // false
+ * ```
+ */
+export const archiveProject = async ({ projectId }: { projectId: string }): Promise<ProjectLifecycleOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/archive`);
+
+  return projectLifecycleOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseArchiveProjectOptions = {
+  mutationConfig?: MutationConfig<typeof archiveProject>;
+};
+
+/**
+ * ミューテーション成功時にプロジェクト一覧・詳細のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const archiveProjectMutation = useArchiveProject();
+ * archiveProjectMutation.mutate({ projectId });
+ * ```
+ */
+export const useArchiveProject = ({ mutationConfig }: UseArchiveProjectOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient
+        .invalidateQueries({
+          queryKey: ["projects"],
+        })
+        .catch((error) => {
+          logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
+        });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: archiveProject,
+  });
+};
@@ -0,0 +1,91 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { BulkAddMembersOutput } from "../types/api";
+import { bulkAddMembersOutputSchema } from "../types/api";
+import type { BulkAddMembersInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトメンバーを一括追加
+ *
+ * 一部の行が追加できなかった場合もエラーにはならず、
+ * レスポンスの failed に行ごとの失敗理由が含まれます。
+ *
+ * @param projectId プロジェクトID
+ * @param data 一括追加データ
+ * @returns 追加されたメンバーと、追加できなかった行の一覧
+ *
+ * @example
+ * ```tsx
+ * const { data } = await bulkAddMembers({
+ *   projectId: 'project-123',
+ *   data: {
+ *     members: [
+ *       { user_id: 'user-456', role: 'member' },
+ *       { user_id: 'user-789', role: 'viewer' }
+ *     ]
+ *   }
+ * });
+ * console.log(data.added.length, data.failed);
+ * ```
+ */
+export const bulkAddMembers = async ({
+  projectId,
+  data,
+}: {
+  projectId: string;
+  data: BulkAddMembersInput;
+}): Promise<BulkAddMembersOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/members/bulk`, data);
+
+  return bulkAddMembersOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseBulkAddMembersOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<BulkAddMembersOutput, Error, BulkAddMembersInput, unknown>, "mutationFn">;
+};
+
+/**
+ * プロジェクトメンバー一括追加フック
+ *
+ * ミューテーション成功時にプロジェクトメンバー一覧のクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const bulkAddMutation = useBulkAddMembers({ projectId: 'project-123' });
+ *
+ * const result = await bulkAddMutation.mutateAsync({
+ *   members: [{ user_id: 'user-456', role: 'member' }]
+ * });
+ * ```
+ */
+export const useBulkAddMembers = ({ projectId, mutationConfig }: UseBulkAddMembersOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects", projectId, "members"] }).catch((error) => {
+        logger.error("プロジェクトメンバークエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: (data: BulkAddMembersInput) => bulkAddMembers({ projectId, data }),
+  });
+};
@@ -0,0 +1,83 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { BulkRemoveMembersOutput } from "../types/api";
+import { bulkRemoveMembersOutputSchema } from "../types/api";
+import type { BulkRemoveMembersInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトメンバーを一括削除
+ *
+ * 一部のメンバーが削除できなかった場合もエラーにはならず、
+ * レスポンスの failed にメンバーごとの失敗理由が含まれます。
+ *
+ * @param projectId プロジェクトID
+ * @param data 一括削除データ
+ * @returns 削除されたメンバーIDと、削除できなかったメンバーの一覧
+ *
+ * @example
+ * ```tsx
+ * const { data } = await bulkRemoveMembers({
+ *   projectId: 'project-123',
+ *   data: { member_ids: ['member-456', 'member-789'] }
+ * });
+ * ```
+ */
+export const bulkRemoveMembers = async ({
+  projectId,
+  data,
+}: {
+  projectId: string;
+  data: BulkRemoveMembersInput;
+}): Promise<BulkRemoveMembersOutput> => {
+  const response = await api.delete(`/api/v1/projects/${projectId}/members/bulk`, { data });
+
+  return bulkRemoveMembersOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseBulkRemoveMembersOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<BulkRemoveMembersOutput, Error, BulkRemoveMembersInput, unknown>, "mutationFn">;
+};
+
+/**
+ * プロジェクトメンバー一括削除フック
+ *
+ * ミューテーション成功時にプロジェクトメンバー一覧のクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const bulkRemoveMutation = useBulkRemoveMembers({ projectId: 'project-123' });
+ *
+ * bulkRemoveMutation.mutate({ member_ids: ['member-456', 'member-789'] });
+ * ```
+ */
+export const useBulkRemoveMembers = ({ projectId, mutationConfig }: UseBulkRemoveMembersOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects", projectId, "members"] }).catch((error) => {
+        logger.error("プロジェクトメンバークエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: (data: BulkRemoveMembersInput) => bulkRemoveMembers({ projectId, data }),
+  });
+};
@@ -39,7 +39,7 @@ export const bulkUpdateRoles = async ({
   data: BulkUpdateRolesInput;
 }): Promise<ProjectMembersOutput> => {
   // 重要: エンドポイントは /members/bulk で、/roles サフィックスなし
-  const response = await api.patch(`/projects/${projectId}/members/bulk`, data);
+  const response = await api.patch(`/api/v1/projects/${projectId}/members/bulk`, data);
 
   return projectMembersOutputSchema.parse(response);
 };
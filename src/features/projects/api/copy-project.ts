@@ -0,0 +1,75 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { createProjectOutputSchema } from "../types/api";
+import type { CopyProjectInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * テンプレート・既存のプロジェクトからプロジェクトを作成
+ *
+ * 複製元の説明と設定（既定のロール・招待ポリシー）をコピーし、指定したメンバーを追加します。
+ * 作成者はプロジェクトマネージャーとして追加されます。
+ *
+ * @param data - プロジェクト名などの入力データ、複製元、追加するメンバー
+ * @returns 作成されたプロジェクト（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const project = await copyProject({
+ *   name: "Webサイトリニューアル 第2期",
+ *   description: "プロジェクトの説明",
+ *   source: { type: "project", project_id: "project-2", include_members: true },
+ *   members: [{ user_id: "user-2", role: "member" }],
+ * })
+ * ```
+ */
+export const copyProject = async (data: CopyProjectInput) => {
+  const response = await api.post("/api/v1/projects/copy", data);
+
+  return createProjectOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseCopyProjectOptions = {
+  mutationConfig?: MutationConfig<typeof copyProject>;
+};
+
+/**
+ * テンプレート・既存のプロジェクトからのプロジェクト作成フック
+ *
+ * ミューテーション成功時にプロジェクト関連のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const copyProjectMutation = useCopyProject()
+ *
+ * copyProjectMutation.mutate(data)
+ * ```
+ */
+export const useCopyProject = ({ mutationConfig }: UseCopyProjectOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] }).catch((error) => {
+        logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: copyProject,
+  });
+};
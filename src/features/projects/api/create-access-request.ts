@@ -0,0 +1,83 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { AccessRequestOutput } from "../types/api";
+import { accessRequestOutputSchema } from "../types/api";
+import type { CreateAccessRequestInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * 権限リクエストを作成
+ *
+ * 現在のロールより上位のロールへの変更を、プロジェクトマネージャー・権限管理者に依頼します。
+ * 承認待ちのリクエストがある間は、新しいリクエストを作成できません。
+ *
+ * @param projectId プロジェクトID
+ * @param data リクエストするロールと理由
+ * @returns 作成された権限リクエスト
+ *
+ * @example
+ * ```tsx
+ * await createAccessRequest({
+ *   projectId: 'project-123',
+ *   data: { requested_role: 'member', justification: '資料の更新を担当するため' },
+ * });
+ * ```
+ */
+export const createAccessRequest = async ({
+  projectId,
+  data,
+}: {
+  projectId: string;
+  data: CreateAccessRequestInput;
+}): Promise<AccessRequestOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/access-requests`, data);
+
+  return accessRequestOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseCreateAccessRequestOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<AccessRequestOutput, Error, CreateAccessRequestInput, unknown>, "mutationFn">;
+};
+
+/**
+ * 権限リクエスト作成フック
+ *
+ * ミューテーション成功時に権限リクエストのクエリキャッシュ（自分のリクエストを含む）を無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const createMutation = useCreateAccessRequest({ projectId: 'project-123' });
+ *
+ * createMutation.mutate({ requested_role: 'member', justification: '資料の更新を担当するため' });
+ * ```
+ */
+export const useCreateAccessRequest = ({ projectId, mutationConfig }: UseCreateAccessRequestOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects", projectId, "access-requests"] }).catch((error) => {
+        logger.error("権限リクエストクエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: (data: CreateAccessRequestInput) => createAccessRequest({ projectId, data }),
+  });
+};
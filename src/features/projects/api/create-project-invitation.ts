@@ -0,0 +1,82 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { ProjectInvitationOutput } from "../types/api";
+import { projectInvitationOutputSchema } from "../types/api";
+import type { CreateInvitationInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * メールアドレスでプロジェクトに招待
+ *
+ * サーバーは招待メール（承諾用のトークン付きURL）を送信し、承諾待ちの招待を作成します。
+ *
+ * @param projectId プロジェクトID
+ * @param data 招待データ
+ * @returns 作成された招待
+ *
+ * @example
+ * ```tsx
+ * await createProjectInvitation({
+ *   projectId: 'project-123',
+ *   data: { email: 'new.member@example.com', role: 'member' }
+ * });
+ * ```
+ */
+export const createProjectInvitation = async ({
+  projectId,
+  data,
+}: {
+  projectId: string;
+  data: CreateInvitationInput;
+}): Promise<ProjectInvitationOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/invitations`, data);
+
+  return projectInvitationOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseCreateProjectInvitationOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<ProjectInvitationOutput, Error, CreateInvitationInput, unknown>, "mutationFn">;
+};
+
+/**
+ * プロジェクト招待作成フック
+ *
+ * ミューテーション成功時にプロジェクト招待一覧のクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const createInvitationMutation = useCreateProjectInvitation({ projectId: 'project-123' });
+ *
+ * createInvitationMutation.mutate({ email: 'new.member@example.com', role: 'member' });
+ * ```
+ */
+export const useCreateProjectInvitation = ({ projectId, mutationConfig }: UseCreateProjectInvitationOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects", projectId, "invitations"] }).catch((error) => {
+        logger.error("プロジェクト招待クエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: (data: CreateInvitationInput) => createProjectInvitation({ projectId, data }),
+  });
+};
@@ -6,7 +6,6 @@ import { logger } from "@/utils/logger";
 
 import { createProjectOutputSchema } from "../types/api";
 import type { CreateProjectInput } from "../types/forms";
-import { getProjectsQueryOptions } from "./get-projects";
 
 // ================================================================================
 // API関数
@@ -23,8 +22,7 @@ import { getProjectsQueryOptions } from "./get-projects";
  * ```tsx
  * const project = await createProject({
  *   name: "新規プロジェクト",
- *   description: "プロジェクトの説明",
- *   is_active: true
+ *   description: "プロジェクトの説明"
  * })
  * console.log(project.data) // Project
  * ```
@@ -58,8 +56,7 @@ type UseCreateProjectOptions = {
  *
  * mutate({
  *   name: "新規プロジェクト",
- *   description: "説明",
- *   is_active: true
+ *   description: "説明"
  * })
  * ```
  */
@@ -73,7 +70,7 @@ export const useCreateProject = ({ mutationConfig }: UseCreateProjectOptions = {
     onSuccess: (...args) => {
       queryClient
         .invalidateQueries({
-          queryKey: getProjectsQueryOptions().queryKey,
+          queryKey: ["projects"],
         })
         .catch((error) => {
           logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
@@ -4,13 +4,16 @@ import { api } from "@/lib/api-client";
 import { MutationConfig } from "@/lib/tanstack-query";
 import { logger } from "@/utils/logger";
 
-import { getProjectsQueryOptions } from "./get-projects";
-
 // ================================================================================
 // API関数
 // ================================================================================
 
 /**
+ * プロジェクトをゴミ箱に移動
+ *
+ * ゴミ箱のプロジェクトは保持期間（utils/project-lifecycle の PROJECT_TRASH_RETENTION_DAYS）内であれば復元でき、
+ * 保持期間を過ぎると完全に削除されます。すぐに完全に削除する場合は purgeProject を使用してください。
+ *
  * @example
  * ```tsx
  * await deleteProject('123');
@@ -39,13 +42,13 @@ type UseDeleteProjectOptions = {
  *   const deleteProjectMutation = useDeleteProject({
  *     mutationConfig: {
  *       onSuccess: () => {
- *         console.log('プロジェクトが削除されました');
+ *         console.log('プロジェクトをゴミ箱に移動しました');
  *       },
  *     },
  *   });
  *
  *   const handleDelete = () => {
- *     if (confirm('本当に削除しますか?')) {
+ *     if (confirm('ゴミ箱に移動しますか?')) {
  *       deleteProjectMutation.mutate(projectId);
  *     }
  *   };
@@ -63,7 +66,7 @@ export const useDeleteProject = ({ mutationConfig }: UseDeleteProjectOptions = {
     onSuccess: (...args) => {
       queryClient
         .invalidateQueries({
-          queryKey: getProjectsQueryOptions().queryKey,
+          queryKey: ["projects"],
         })
         .catch((error) => {
           logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
@@ -0,0 +1,78 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { AccessRequestOutput } from "../types/api";
+import { accessRequestOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * 権限リクエストを却下
+ *
+ * 却下されたメンバーのロールは変更されません。メンバーは改めてリクエストを作成できます。
+ *
+ * @param projectId プロジェクトID
+ * @param requestId 権限リクエストID
+ * @returns 却下したリクエスト
+ *
+ * @example
+ * ```tsx
+ * await denyAccessRequest({ projectId: 'project-123', requestId: 'access-request-456' });
+ * ```
+ */
+export const denyAccessRequest = async ({
+  projectId,
+  requestId,
+}: {
+  projectId: string;
+  requestId: string;
+}): Promise<AccessRequestOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/access-requests/${requestId}/deny`);
+
+  return accessRequestOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseDenyAccessRequestOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<AccessRequestOutput, Error, { requestId: string }, unknown>, "mutationFn">;
+};
+
+/**
+ * 権限リクエスト却下フック
+ *
+ * ミューテーション成功時に権限リクエストのクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const denyMutation = useDenyAccessRequest({ projectId: 'project-123' });
+ *
+ * denyMutation.mutate({ requestId: 'access-request-456' });
+ * ```
+ */
+export const useDenyAccessRequest = ({ projectId, mutationConfig }: UseDenyAccessRequestOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects", projectId, "access-requests"] }).catch((error) => {
+        logger.error("権限リクエストクエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: ({ requestId }: { requestId: string }) => denyAccessRequest({ projectId, requestId }),
+  });
+};
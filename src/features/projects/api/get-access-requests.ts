@@ -0,0 +1,67 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import type { AccessRequestsOutput } from "../types/api";
+import { accessRequestsOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトの承認待ちの権限リクエスト一覧を取得
+ *
+ * @param projectId プロジェクトID
+ * @returns 承認待ちの権限リクエスト一覧（古い順）
+ *
+ * @example
+ * ```tsx
+ * const requests = await getAccessRequests('project-123')
+ * console.log(requests.data) // AccessRequest[]
+ * ```
+ */
+export const getAccessRequests = async (projectId: string): Promise<AccessRequestsOutput> => {
+  const response = await api.get(`/api/v1/projects/${projectId}/access-requests`);
+
+  return accessRequestsOutputSchema.parse(response);
+};
+
+export const getAccessRequestsQueryOptions = (projectId: string) => {
+  return queryOptions({
+    queryKey: ["projects", projectId, "access-requests"],
+    queryFn: () => getAccessRequests(projectId),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseAccessRequestsOptions = {
+  projectId: string;
+  queryConfig?: QueryConfig<typeof getAccessRequestsQueryOptions>;
+};
+
+/**
+ * 承認待ちの権限リクエスト一覧取得フック
+ *
+ * 権限リクエストの閲覧には project:manage_members 権限が必要です。
+ *
+ * @param projectId プロジェクトID
+ * @param queryConfig React Query設定
+ * @returns 承認待ちの権限リクエスト一覧
+ *
+ * @example
+ * ```tsx
+ * const { data } = useAccessRequests({ projectId: 'project-123' })
+ * console.log(data.data.length) // 承認待ちの件数
+ * ```
+ */
+export const useAccessRequests = ({ projectId, queryConfig }: UseAccessRequestsOptions) => {
+  return useSuspenseQuery({
+    ...getAccessRequestsQueryOptions(projectId),
+    ...queryConfig,
+  });
+};
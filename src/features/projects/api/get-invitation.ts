@@ -0,0 +1,67 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import type { InvitationDetailOutput } from "../types/api";
+import { invitationDetailOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * 招待トークンから招待内容を取得
+ *
+ * 取り消し済み・期限切れの招待も status とともに返ります。
+ *
+ * @param token 招待トークン（招待メールのURLに含まれる）
+ * @returns 招待先プロジェクトを含む招待内容
+ *
+ * @example
+ * ```tsx
+ * const invitation = await getInvitation('invite-token')
+ * console.log(invitation.data.project.name)
+ * ```
+ */
+export const getInvitation = async (token: string): Promise<InvitationDetailOutput> => {
+  const response = await api.get(`/api/v1/invitations/${token}`);
+
+  return invitationDetailOutputSchema.parse(response);
+};
+
+export const getInvitationQueryOptions = (token: string) => {
+  return queryOptions({
+    queryKey: ["invitations", token],
+    queryFn: () => getInvitation(token),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseInvitationOptions = {
+  token: string;
+  queryConfig?: QueryConfig<typeof getInvitationQueryOptions>;
+};
+
+/**
+ * 招待内容取得フック
+ *
+ * @param token 招待トークン
+ * @param queryConfig React Query設定
+ * @returns 招待内容
+ *
+ * @example
+ * ```tsx
+ * const { data } = useInvitation({ token: 'invite-token' })
+ * console.log(data.data.status) // "pending" | "accepted" | "revoked" | "expired"
+ * ```
+ */
+export const useInvitation = ({ token, queryConfig }: UseInvitationOptions) => {
+  return useSuspenseQuery({
+    ...getInvitationQueryOptions(token),
+    ...queryConfig,
+  });
+};
@@ -0,0 +1,63 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type MyAccessRequestOutput, myAccessRequestOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ログインユーザー自身の承認待ちの権限リクエストを取得
+ *
+ * @param projectId プロジェクトID
+ * @returns 承認待ちの権限リクエスト（ない場合は data: null）
+ *
+ * @example
+ * ```tsx
+ * const request = await getMyAccessRequest('project-123')
+ * console.log(request.data?.requested_role) // ProjectRole | undefined
+ * ```
+ */
+export const getMyAccessRequest = async (projectId: string): Promise<MyAccessRequestOutput> => {
+  const response = await api.get(`/api/v1/projects/${projectId}/access-requests/me`);
+
+  return myAccessRequestOutputSchema.parse(response);
+};
+
+export const getMyAccessRequestQueryOptions = (projectId: string) => {
+  return queryOptions({
+    queryKey: ["projects", projectId, "access-requests", "me"],
+    queryFn: () => getMyAccessRequest(projectId),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseMyAccessRequestOptions = {
+  projectId: string;
+  queryConfig?: QueryConfig<typeof getMyAccessRequestQueryOptions>;
+};
+
+/**
+ * 自分の承認待ちの権限リクエスト取得フック
+ *
+ * クエリキーが権限リクエスト一覧（["projects", projectId, "access-requests"]）の配下にあるため、
+ * 権限リクエスト系ミューテーションの無効化に合わせて自動的に再取得されます。
+ *
+ * @example
+ * ```tsx
+ * const { data } = useMyAccessRequest({ projectId: 'project-123' })
+ * const hasPendingRequest = data.data !== null
+ * ```
+ */
+export const useMyAccessRequest = ({ projectId, queryConfig }: UseMyAccessRequestOptions) => {
+  return useSuspenseQuery({
+    ...getMyAccessRequestQueryOptions(projectId),
+    ...queryConfig,
+  });
+};
@@ -0,0 +1,63 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type MyProjectMemberOutput, myProjectMemberOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ログインユーザー自身のプロジェクトメンバー情報を取得
+ *
+ * @param projectId プロジェクトID
+ * @returns 自分のメンバー情報（メンバーでない場合は data: null）
+ *
+ * @example
+ * ```tsx
+ * const me = await getMyProjectMember('project-123')
+ * console.log(me.data?.role) // ProjectRole | undefined
+ * ```
+ */
+export const getMyProjectMember = async (projectId: string): Promise<MyProjectMemberOutput> => {
+  const response = await api.get(`/api/v1/projects/${projectId}/members/me`);
+
+  return myProjectMemberOutputSchema.parse(response);
+};
+
+export const getMyProjectMemberQueryOptions = (projectId: string) => {
+  return queryOptions({
+    queryKey: ["projects", projectId, "members", "me"],
+    queryFn: () => getMyProjectMember(projectId),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseMyProjectMemberOptions = {
+  projectId: string;
+  queryConfig?: QueryConfig<typeof getMyProjectMemberQueryOptions>;
+};
+
+/**
+ * 自分のプロジェクトメンバー情報取得フック
+ *
+ * クエリキーがメンバー一覧（["projects", projectId, "members"]）の配下にあるため、
+ * メンバー系ミューテーションの無効化に合わせて自動的に再取得されます。
+ *
+ * @example
+ * ```tsx
+ * const { data } = useMyProjectMember({ projectId: 'project-123' })
+ * console.log(data.data?.role)
+ * ```
+ */
+export const useMyProjectMember = ({ projectId, queryConfig }: UseMyProjectMemberOptions) => {
+  return useSuspenseQuery({
+    ...getMyProjectMemberQueryOptions(projectId),
+    ...queryConfig,
+  });
+};
@@ -0,0 +1,69 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type ProjectCopyPreviewOutput, projectCopyPreviewOutputSchema } from "../types/api";
+import type { ProjectCopySource } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクト複製プレビュー取得
+ *
+ * テンプレート・既存のプロジェクトから作成する場合に、コピーされる説明・設定・メンバーを取得します。
+ * メンバーには、無効化されたユーザーなどコピー時に確認が必要な競合が含まれます。
+ *
+ * @param source - 複製元
+ * @returns コピーされる内容（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const preview = await getProjectCopyPreview({ type: "project", project_id: "project-1", include_members: true })
+ * console.log(preview.data.members) // コピーされるメンバー
+ * ```
+ */
+export const getProjectCopyPreview = async (source: ProjectCopySource): Promise<ProjectCopyPreviewOutput> => {
+  const params =
+    source.type === "template"
+      ? { template_id: source.template_id }
+      : { project_id: source.project_id, include_members: source.include_members };
+  const response = await api.get("/api/v1/projects/copy-preview", { params });
+
+  return projectCopyPreviewOutputSchema.parse(response);
+};
+
+export const getProjectCopyPreviewQueryOptions = (source: ProjectCopySource) => {
+  return queryOptions({
+    queryKey: ["projects", "copy-preview", source] as const,
+    queryFn: () => getProjectCopyPreview(source),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseProjectCopyPreviewOptions = {
+  source: ProjectCopySource;
+  queryConfig?: QueryConfig<typeof getProjectCopyPreviewQueryOptions>;
+};
+
+/**
+ * プロジェクト複製プレビュー取得フック
+ *
+ * @example
+ * ```tsx
+ * const { data } = useProjectCopyPreview({ source: { type: "template", template_id: "template-1" } })
+ * console.log(data.data.invite_policy)
+ * ```
+ */
+export const useProjectCopyPreview = ({ source, queryConfig }: UseProjectCopyPreviewOptions) => {
+  return useSuspenseQuery({
+    ...getProjectCopyPreviewQueryOptions(source),
+    ...queryConfig,
+  });
+};
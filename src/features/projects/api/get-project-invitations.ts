@@ -0,0 +1,67 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import type { ProjectInvitationsOutput } from "../types/api";
+import { projectInvitationsOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトの招待一覧を取得（承諾待ち・期限切れ）
+ *
+ * @param projectId プロジェクトID
+ * @returns プロジェクト招待一覧
+ *
+ * @example
+ * ```tsx
+ * const invitations = await getProjectInvitations('project-123')
+ * console.log(invitations.data) // ProjectInvitation[]
+ * ```
+ */
+export const getProjectInvitations = async (projectId: string): Promise<ProjectInvitationsOutput> => {
+  const response = await api.get(`/api/v1/projects/${projectId}/invitations`);
+
+  return projectInvitationsOutputSchema.parse(response);
+};
+
+export const getProjectInvitationsQueryOptions = (projectId: string) => {
+  return queryOptions({
+    queryKey: ["projects", projectId, "invitations"],
+    queryFn: () => getProjectInvitations(projectId),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseProjectInvitationsOptions = {
+  projectId: string;
+  queryConfig?: QueryConfig<typeof getProjectInvitationsQueryOptions>;
+};
+
+/**
+ * プロジェクト招待一覧取得フック
+ *
+ * 招待の閲覧には project:manage_members 権限が必要です。
+ *
+ * @param projectId プロジェクトID
+ * @param queryConfig React Query設定
+ * @returns プロジェクト招待一覧
+ *
+ * @example
+ * ```tsx
+ * const { data } = useProjectInvitations({ projectId: 'project-123' })
+ * console.log(data.data) // ProjectInvitation[]
+ * ```
+ */
+export const useProjectInvitations = ({ projectId, queryConfig }: UseProjectInvitationsOptions) => {
+  return useSuspenseQuery({
+    ...getProjectInvitationsQueryOptions(projectId),
+    ...queryConfig,
+  });
+};
@@ -23,7 +23,7 @@ import { projectMembersOutputSchema } from "../types/api";
  * ```
  */
 export const getProjectMembers = async (projectId: string): Promise<ProjectMembersOutput> => {
-  const response = await api.get(`/projects/${projectId}/members`);
+  const response = await api.get(`/api/v1/projects/${projectId}/members`);
 
   return projectMembersOutputSchema.parse(response);
 };
@@ -0,0 +1,61 @@
+import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type ProjectSettingsOutput, projectSettingsOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクト設定取得
+ *
+ * @param projectId - プロジェクトID
+ * @returns プロジェクト設定（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const settings = await getProjectSettings({ projectId: "project-1" })
+ * console.log(settings.data.default_member_role) // "member"
+ * ```
+ */
+export const getProjectSettings = async ({ projectId }: { projectId: string }): Promise<ProjectSettingsOutput> => {
+  const response = await api.get(`/api/v1/projects/${projectId}/settings`);
+
+  return projectSettingsOutputSchema.parse(response);
+};
+
+export const getProjectSettingsQueryOptions = ({ projectId }: { projectId: string }) => {
+  return queryOptions({
+    queryKey: ["projects", projectId, "settings"] as const,
+    queryFn: () => getProjectSettings({ projectId }),
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseProjectSettingsOptions = {
+  projectId: string;
+  queryConfig?: QueryConfig<typeof getProjectSettingsQueryOptions>;
+};
+
+/**
+ * プロジェクト設定取得フック
+ *
+ * @example
+ * ```tsx
+ * const { data } = useProjectSettings({ projectId: "project-1" })
+ * console.log(data.data) // ProjectSettings
+ * ```
+ */
+export const useProjectSettings = ({ projectId, queryConfig }: UseProjectSettingsOptions) => {
+  return useSuspenseQuery({
+    ...getProjectSettingsQueryOptions({ projectId }),
+    ...queryConfig,
+  });
+};
@@ -3,34 +3,55 @@ import { queryOptions, useSuspenseQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api-client";
 import { QueryConfig } from "@/lib/tanstack-query";
 
+import type { ProjectLifecycleStatus } from "../types";
 import { type ProjectsOutput, projectsOutputSchema } from "../types/api";
+import type { ProjectsListQuery } from "../types/forms";
 
 // ================================================================================
 // API関数
 // ================================================================================
 
+type GetProjectsParams = Partial<Omit<ProjectsListQuery, "status">> & {
+  /** ライフサイクル状態での絞り込み（省略時はゴミ箱以外のすべて） */
+  status?: ProjectLifecycleStatus;
+};
+
 /**
  * プロジェクト一覧取得
  *
- * @returns プロジェクト一覧（ランタイムバリデーション済み）
+ * ページ・並び順・キーワード・ライフサイクル状態をクエリパラメータとして送り、
+ * 指定したページのプロジェクトと総数をサーバーから取得します。省略した条件はサーバーの初期値になります。
+ *
+ * @param page - ページ番号（1始まり）
+ * @param size - 1ページの件数
+ * @param sort - 並び順（先頭に "-" が付いている場合は降順）
+ * @param q - プロジェクト名・説明の部分一致
+ * @param status - ライフサイクル状態での絞り込み（省略時はゴミ箱以外のすべて）
+ * @returns プロジェクト一覧とページ情報（ランタイムバリデーション済み）
  * @throws {z.ZodError} レスポンスが期待する形式でない場合
  *
  * @example
  * ```tsx
- * const projects = await getProjects()
+ * const projects = await getProjects({ status: 'archived', page: 2, sort: 'name' })
  * console.log(projects.data) // Project[]
+ * console.log(projects.total) // 検索条件に一致する総数
  * ```
  */
-export const getProjects = async (): Promise<ProjectsOutput> => {
-  const response = await api.get("/api/v1/projects");
+export const getProjects = async ({ page, size, sort, q, status }: GetProjectsParams = {}): Promise<ProjectsOutput> => {
+  const response = await api.get("/api/v1/projects", {
+    params: { page, size, sort, q: q?.trim() || undefined, status },
+  });
 
   return projectsOutputSchema.parse(response);
 };
 
-export const getProjectsQueryOptions = () => {
+/**
+ * 一覧の無効化には ["projects"] を指定してください（検索条件ごとの一覧・プロジェクト詳細をまとめて無効化します）。
+ */
+export const getProjectsQueryOptions = ({ page, size, sort, q, status }: GetProjectsParams = {}) => {
   return queryOptions({
-    queryKey: ["projects"] as const,
-    queryFn: getProjects,
+    queryKey: ["projects", { page, size, sort, q, status }] as const,
+    queryFn: () => getProjects({ page, size, sort, q, status }),
   });
 };
 
@@ -38,7 +59,7 @@ export const getProjectsQueryOptions = () => {
 // Hooks
 // ================================================================================
 
-type UseProjectsOptions = {
+type UseProjectsOptions = GetProjectsParams & {
   queryConfig?: QueryConfig<typeof getProjectsQueryOptions>;
 };
 
@@ -47,13 +68,14 @@ type UseProjectsOptions = {
  *
  * @example
  * ```tsx
- * const { data } = useProjects()
+ * const { data } = useProjects({ status: 'active', page: 1, size: 20 })
  * console.log(data.data) // Project[]
+ * console.log(data.total_pages) // 総ページ数
  * ```
  */
-export const useProjects = ({ queryConfig }: UseProjectsOptions = {}) => {
+export const useProjects = ({ queryConfig, ...params }: UseProjectsOptions = {}) => {
   return useSuspenseQuery({
-    ...getProjectsQueryOptions(),
+    ...getProjectsQueryOptions(params),
     ...queryConfig,
   });
 };
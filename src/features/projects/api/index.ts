@@ -1,10 +1,35 @@
+export * from "./accept-invitation";
 export * from "./add-project-member";
+export * from "./approve-access-request";
+export * from "./archive-project";
+export * from "./bulk-add-members";
+export * from "./bulk-remove-members";
 export * from "./bulk-update-roles";
+export * from "./copy-project";
+export * from "./create-access-request";
 export * from "./create-project";
+export * from "./create-project-invitation";
 export * from "./delete-project";
+export * from "./deny-access-request";
+export * from "./get-access-requests";
+export * from "./get-invitation";
+export * from "./get-my-access-request";
+export * from "./get-my-project-member";
 export * from "./get-project";
+export * from "./get-project-copy-preview";
+export * from "./get-project-invitations";
 export * from "./get-project-members";
+export * from "./get-project-settings";
 export * from "./get-projects";
+export * from "./lookup-users";
+export * from "./purge-project";
 export * from "./remove-project-member";
+export * from "./resend-project-invitation";
+export * from "./restore-project";
+export * from "./revoke-project-invitation";
+export * from "./search-users";
+export * from "./transfer-ownership";
+export * from "./unarchive-project";
 export * from "./update-member-role";
 export * from "./update-project";
+export * from "./update-project-settings";
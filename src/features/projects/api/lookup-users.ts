@@ -0,0 +1,28 @@
+import { api } from "@/lib/api-client";
+
+import { type LookupUsersOutput, lookupUsersOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * メールアドレスでユーザーを照会
+ *
+ * メンバーインポートのプレビューで、ファイルに記載されたメールアドレスをユーザーに解決するために使用します。
+ * 見つからないメールアドレスは結果に含まれません。
+ *
+ * @param emails 照会するメールアドレス
+ * @returns 一致したユーザー一覧（ランタイムバリデーション済み）
+ *
+ * @example
+ * ```tsx
+ * const { data: users } = await lookupUsersByEmail({ emails: ['member@example.com'] })
+ * console.log(users) // User[]
+ * ```
+ */
+export const lookupUsersByEmail = async ({ emails }: { emails: string[] }): Promise<LookupUsersOutput> => {
+  const response = await api.post("/api/v1/users/lookup", { emails });
+
+  return lookupUsersOutputSchema.parse(response);
+};
@@ -0,0 +1,61 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ゴミ箱のプロジェクトを完全に削除
+ *
+ * ゴミ箱にあるプロジェクトのみ削除できます。完全に削除したプロジェクトは復元できません。
+ *
+ * @example
+ * ```tsx
+ * await purgeProject({ projectId: '123' });
+ * ```
+ */
+export const purgeProject = ({ projectId }: { projectId: string }): Promise<void> => {
+  return api.delete(`/api/v1/projects/${projectId}/purge`);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UsePurgeProjectOptions = {
+  mutationConfig?: MutationConfig<typeof purgeProject>;
+};
+
+/**
+ * ミューテーション成功時にプロジェクト一覧のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const purgeProjectMutation = usePurgeProject();
+ * purgeProjectMutation.mutate({ projectId });
+ * ```
+ */
+export const usePurgeProject = ({ mutationConfig }: UsePurgeProjectOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient
+        .invalidateQueries({
+          queryKey: ["projects"],
+        })
+        .catch((error) => {
+          logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
+        });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: purgeProject,
+  });
+};
@@ -23,7 +23,7 @@ import { logger } from "@/utils/logger";
  * ```
  */
 export const removeProjectMember = ({ projectId, memberId }: { projectId: string; memberId: string }): Promise<void> => {
-  return api.delete(`/projects/${projectId}/members/${memberId}`);
+  return api.delete(`/api/v1/projects/${projectId}/members/${memberId}`);
 };
 
 // ================================================================================
@@ -0,0 +1,78 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import type { ProjectInvitationOutput } from "../types/api";
+import { projectInvitationOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクト招待を再送
+ *
+ * 招待メールを再送し、有効期限を延長します。期限切れの招待も再送により承諾待ちに戻ります。
+ *
+ * @param projectId プロジェクトID
+ * @param invitationId 招待ID
+ * @returns 更新された招待
+ *
+ * @example
+ * ```tsx
+ * await resendProjectInvitation({ projectId: 'project-123', invitationId: 'invitation-456' });
+ * ```
+ */
+export const resendProjectInvitation = async ({
+  projectId,
+  invitationId,
+}: {
+  projectId: string;
+  invitationId: string;
+}): Promise<ProjectInvitationOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/invitations/${invitationId}/resend`);
+
+  return projectInvitationOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseResendProjectInvitationOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<ProjectInvitationOutput, Error, { invitationId: string }, unknown>, "mutationFn">;
+};
+
+/**
+ * プロジェクト招待再送フック
+ *
+ * ミューテーション成功時にプロジェクト招待一覧のクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const resendMutation = useResendProjectInvitation({ projectId: 'project-123' });
+ *
+ * resendMutation.mutate({ invitationId: 'invitation-456' });
+ * ```
+ */
+export const useResendProjectInvitation = ({ projectId, mutationConfig }: UseResendProjectInvitationOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects", projectId, "invitations"] }).catch((error) => {
+        logger.error("プロジェクト招待クエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: ({ invitationId }: { invitationId: string }) => resendProjectInvitation({ projectId, invitationId }),
+  });
+};
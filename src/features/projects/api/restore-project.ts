@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { type ProjectLifecycleOutput, projectLifecycleOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ゴミ箱からプロジェクトを復元
+ *
+ * ゴミ箱に移動したプロジェクトを元の状態（アクティブまたはアーカイブ）に戻します。
+ * 保持期間を過ぎて完全に削除されたプロジェクトは復元できません。
+ *
+ * @param projectId - プロジェクトID
+ * @returns 復元したプロジェクト（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const restored = await restoreProject({ projectId: '123' });
+ * console.log(restored.data.deleted_at); // null
+ * ```
+ */
+export const restoreProject = async ({ projectId }: { projectId: string }): Promise<ProjectLifecycleOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/restore`);
+
+  return projectLifecycleOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseRestoreProjectOptions = {
+  mutationConfig?: MutationConfig<typeof restoreProject>;
+};
+
+/**
+ * ミューテーション成功時にプロジェクト一覧・詳細のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const restoreProjectMutation = useRestoreProject();
+ * restoreProjectMutation.mutate({ projectId });
+ * ```
+ */
+export const useRestoreProject = ({ mutationConfig }: UseRestoreProjectOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient
+        .invalidateQueries({
+          queryKey: ["projects"],
+        })
+        .catch((error) => {
+          logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
+        });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: restoreProject,
+  });
+};
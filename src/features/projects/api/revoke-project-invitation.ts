@@ -0,0 +1,67 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクト招待を取り消し
+ *
+ * 取り消した招待のURLからは参加できなくなります。
+ *
+ * @param projectId プロジェクトID
+ * @param invitationId 招待ID
+ * @returns void
+ *
+ * @example
+ * ```tsx
+ * await revokeProjectInvitation({ projectId: 'project-123', invitationId: 'invitation-456' });
+ * ```
+ */
+export const revokeProjectInvitation = ({ projectId, invitationId }: { projectId: string; invitationId: string }): Promise<void> => {
+  return api.delete(`/api/v1/projects/${projectId}/invitations/${invitationId}`);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseRevokeProjectInvitationOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<void, Error, { invitationId: string }, unknown>, "mutationFn">;
+};
+
+/**
+ * プロジェクト招待取り消しフック
+ *
+ * ミューテーション成功時にプロジェクト招待一覧のクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const revokeMutation = useRevokeProjectInvitation({ projectId: 'project-123' });
+ *
+ * revokeMutation.mutate({ invitationId: 'invitation-456' });
+ * ```
+ */
+export const useRevokeProjectInvitation = ({ projectId, mutationConfig }: UseRevokeProjectInvitationOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects", projectId, "invitations"] }).catch((error) => {
+        logger.error("プロジェクト招待クエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: ({ invitationId }: { invitationId: string }) => revokeProjectInvitation({ projectId, invitationId }),
+  });
+};
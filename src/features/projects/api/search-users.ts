@@ -0,0 +1,84 @@
+import { keepPreviousData, queryOptions, useQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { QueryConfig } from "@/lib/tanstack-query";
+
+import { type SearchUsersOutput, searchUsersOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * ユーザーを表示名・メールアドレスで検索
+ *
+ * signal を渡すと、中断されたリクエストは axios 側でキャンセルされます。
+ *
+ * @param q 検索キーワード（部分一致）
+ * @param signal リクエスト中断用の AbortSignal
+ * @returns 一致したユーザー一覧（ランタイムバリデーション済み）
+ *
+ * @example
+ * ```tsx
+ * const users = await searchUsers({ q: 'tanaka' })
+ * console.log(users.data) // User[]
+ * ```
+ */
+export const searchUsers = async ({ q, signal }: { q: string; signal?: AbortSignal }): Promise<SearchUsersOutput> => {
+  const response = await api.get("/api/v1/users/search", {
+    params: { q },
+    signal,
+  });
+
+  return searchUsersOutputSchema.parse(response);
+};
+
+/**
+ * ユーザー検索のクエリオプション
+ *
+ * TanStack Query が渡す signal を API 関数に引き継ぐため、
+ * キーワードが変わって古いクエリが使われなくなると、実行中のリクエストは中断されます。
+ */
+export const searchUsersQueryOptions = (q: string) => {
+  return queryOptions({
+    queryKey: ["users", "search", q],
+    queryFn: ({ signal }) => searchUsers({ q, signal }),
+    enabled: q !== "",
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 30,
+  });
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseSearchUsersOptions = {
+  /** 検索キーワード（前後の空白は除去されます。空文字の場合は検索しません） */
+  query: string;
+  queryConfig?: QueryConfig<typeof searchUsersQueryOptions>;
+};
+
+/**
+ * ユーザー検索フック
+ *
+ * 入力中のキーワードで検索するため、Suspense ではなく isFetching で読み込み状態を扱います。
+ * キーワードのデバウンスは呼び出し側で行ってください。
+ *
+ * @param query 検索キーワード
+ * @param queryConfig React Query設定
+ * @returns 検索結果（キーワード変更中は直前の結果を保持します）
+ *
+ * @example
+ * ```tsx
+ * const debouncedKeyword = useDebouncedValue(keyword, 300)
+ * const { data, isFetching } = useSearchUsers({ query: debouncedKeyword })
+ * console.log(data?.data) // User[] | undefined
+ * ```
+ */
+export const useSearchUsers = ({ query, queryConfig }: UseSearchUsersOptions) => {
+  return useQuery({
+    ...searchUsersQueryOptions(query.trim()),
+    ...queryConfig,
+  });
+};
@@ -0,0 +1,83 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import { type TransferOwnershipOutput, transferOwnershipOutputSchema } from "../types/api";
+import type { TransferOwnershipInput } from "../types/forms";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトのオーナーを移譲
+ *
+ * 新オーナーは project_manager になり、現オーナーは previous_owner_role に変更されます。
+ * プロジェクトとメンバーの更新はサーバー側で一括して行われます。
+ *
+ * @param projectId プロジェクトID
+ * @param data 新オーナーのユーザーIDと現オーナーの移譲後のロール
+ * @returns 更新後のプロジェクトと新旧オーナーのメンバー情報
+ *
+ * @example
+ * ```tsx
+ * await transferOwnership({
+ *   projectId: 'project-123',
+ *   data: { new_owner_id: 'user-2', previous_owner_role: 'member' }
+ * });
+ * ```
+ */
+export const transferOwnership = async ({
+  projectId,
+  data,
+}: {
+  projectId: string;
+  data: TransferOwnershipInput;
+}): Promise<TransferOwnershipOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/transfer-ownership`, data);
+
+  return transferOwnershipOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseTransferOwnershipOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<TransferOwnershipOutput, Error, TransferOwnershipInput, unknown>, "mutationFn">;
+};
+
+/**
+ * オーナー移譲フック
+ *
+ * ミューテーション成功時にプロジェクト関連のクエリキャッシュを無効化します
+ * （プロジェクト詳細・メンバー一覧・自分のメンバー情報と、プロジェクト一覧を再取得するため）。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const transferMutation = useTransferOwnership({ projectId: 'project-123' });
+ *
+ * transferMutation.mutate({ new_owner_id: 'user-2', previous_owner_role: 'member' });
+ * ```
+ */
+export const useTransferOwnership = ({ projectId, mutationConfig }: UseTransferOwnershipOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] }).catch((error) => {
+        logger.error("プロジェクトクエリの無効化に失敗しました", error);
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: (data: TransferOwnershipInput) => transferOwnership({ projectId, data }),
+  });
+};
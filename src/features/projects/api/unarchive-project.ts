@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { MutationConfig } from "@/lib/tanstack-query";
+import { logger } from "@/utils/logger";
+
+import { type ProjectLifecycleOutput, projectLifecycleOutputSchema } from "../types/api";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクトのアーカイブ解除
+ *
+ * アーカイブしたプロジェクトをアクティブ（is_active: true）に戻します。
+ * 一覧の既定の表示に戻り、再び編集できるようになります。
+ *
+ * @param projectId - プロジェクトID
+ * @returns アーカイブを解除したプロジェクト（ランタイムバリデーション済み）
+ * @throws {z.ZodError} レスポンスが期待する形式でない場合
+ *
+ * @example
+ * ```tsx
+ * const project = await unarchiveProject({ projectId: '123' });
+ * console.log(project.data.is_active); // true
+ * ```
+ */
+export const unarchiveProject = async ({ projectId }: { projectId: string }): Promise<ProjectLifecycleOutput> => {
+  const response = await api.post(`/api/v1/projects/${projectId}/unarchive`);
+
+  return projectLifecycleOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseUnarchiveProjectOptions = {
+  mutationConfig?: MutationConfig<typeof unarchiveProject>;
+};
+
+/**
+ * ミューテーション成功時にプロジェクト一覧・詳細のクエリキャッシュを無効化します。
+ *
+ * @example
+ * ```tsx
+ * const unarchiveProjectMutation = useUnarchiveProject();
+ * unarchiveProjectMutation.mutate({ projectId });
+ * ```
+ */
+export const useUnarchiveProject = ({ mutationConfig }: UseUnarchiveProjectOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient
+        .invalidateQueries({
+          queryKey: ["projects"],
+        })
+        .catch((error) => {
+          logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
+        });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: unarchiveProject,
+  });
+};
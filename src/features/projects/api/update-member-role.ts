@@ -1,6 +1,7 @@
 import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
 
 import { api } from "@/lib/api-client";
+import { registerQueueableMutation } from "@/lib/mutation-queue";
 import { logger } from "@/utils/logger";
 
 import type { ProjectMemberOutput } from "../types/api";
@@ -38,11 +39,26 @@ export const updateMemberRole = async ({
   data: UpdateMemberRoleInput;
 }): Promise<ProjectMemberOutput> => {
   // 重要: エンドポイントは /members/{member_id} で、/role サフィックスなし
-  const response = await api.patch(`/projects/${projectId}/members/${memberId}`, data);
+  const response = await api.patch(`/api/v1/projects/${projectId}/members/${memberId}`, data);
 
   return projectMemberOutputSchema.parse(response);
 };
 
+// ================================================================================
+// 送信待ち（オフライン時の再送）
+// ================================================================================
+
+/**
+ * オフライン中・通信エラーの場合は送信待ちにし、接続が回復したら再送する（ミューテーションキーにプロジェクトIDを含める）
+ */
+const updateMemberRoleQueue = registerQueueableMutation({
+  name: "projects/update-member-role",
+  label: "メンバーロールの変更",
+  mutationFn: ({ memberId, data }: { memberId: string; data: UpdateMemberRoleInput }, [projectId]: [string]) =>
+    updateMemberRole({ projectId, memberId, data }),
+  invalidates: (_variables, [projectId]) => [["projects", projectId, "members"]],
+});
+
 // ================================================================================
 // Hooks
 // ================================================================================
@@ -59,6 +75,7 @@ type UseUpdateMemberRoleOptions = {
  * プロジェクトメンバーロール更新フック
  *
  * ミューテーション成功時にプロジェクトメンバー一覧のクエリキャッシュを無効化します。
+ * オフライン中・通信エラーの場合は送信待ちになり、接続が回復すると再送します。
  *
  * @param projectId プロジェクトID
  * @param mutationConfig ミューテーション設定
@@ -88,6 +105,7 @@ export const useUpdateMemberRole = ({ projectId, mutationConfig }: UseUpdateMemb
   const { onSuccess, ...restConfig } = mutationConfig || {};
 
   return useMutation({
+    ...updateMemberRoleQueue(projectId),
     onSuccess: (...args) => {
       queryClient.invalidateQueries({ queryKey: ["projects", projectId, "members"] }).catch((error) => {
         logger.error("プロジェクトメンバークエリの無効化に失敗しました", error);
@@ -0,0 +1,80 @@
+import { useMutation, type UseMutationOptions, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/api-client";
+import { logger } from "@/utils/logger";
+
+import { type ProjectSettingsOutput, projectSettingsOutputSchema } from "../types/api";
+import type { UpdateProjectSettingsInput } from "../types/forms";
+import { getProjectSettingsQueryOptions } from "./get-project-settings";
+
+// ================================================================================
+// API関数
+// ================================================================================
+
+/**
+ * プロジェクト設定更新
+ *
+ * @param projectId プロジェクトID
+ * @param data 既定のロールと招待ポリシー
+ * @returns 更新後のプロジェクト設定（ランタイムバリデーション済み）
+ *
+ * @example
+ * ```tsx
+ * await updateProjectSettings({
+ *   projectId: 'project-123',
+ *   data: { default_member_role: 'viewer', invite_policy: 'managers_only' }
+ * });
+ * ```
+ */
+export const updateProjectSettings = async ({
+  projectId,
+  data,
+}: {
+  projectId: string;
+  data: UpdateProjectSettingsInput;
+}): Promise<ProjectSettingsOutput> => {
+  const response = await api.put(`/api/v1/projects/${projectId}/settings`, data);
+
+  return projectSettingsOutputSchema.parse(response);
+};
+
+// ================================================================================
+// Hooks
+// ================================================================================
+
+type UseUpdateProjectSettingsOptions = {
+  projectId: string;
+  mutationConfig?: Omit<UseMutationOptions<ProjectSettingsOutput, Error, UpdateProjectSettingsInput, unknown>, "mutationFn">;
+};
+
+/**
+ * プロジェクト設定更新フック
+ *
+ * ミューテーション成功時にプロジェクト設定のクエリキャッシュを無効化します。
+ *
+ * @param projectId プロジェクトID
+ * @param mutationConfig ミューテーション設定
+ *
+ * @example
+ * ```tsx
+ * const updateSettingsMutation = useUpdateProjectSettings({ projectId: 'project-123' });
+ *
+ * updateSettingsMutation.mutate({ default_member_role: 'viewer', invite_policy: 'managers_only' });
+ * ```
+ */
+export const useUpdateProjectSettings = ({ projectId, mutationConfig }: UseUpdateProjectSettingsOptions) => {
+  const queryClient = useQueryClient();
+
+  const { onSuccess, ...restConfig } = mutationConfig || {};
+
+  return useMutation({
+    onSuccess: (...args) => {
+      queryClient.invalidateQueries({ queryKey: getProjectSettingsQueryOptions({ projectId }).queryKey }).catch((error) => {
+        logger.error("プロジェクト設定クエリの無効化に失敗しました", error, { projectId });
+      });
+      onSuccess?.(...args);
+    },
+    ...restConfig,
+    mutationFn: (data: UpdateProjectSettingsInput) => updateProjectSettings({ projectId, data }),
+  });
+};
@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 import { api } from "@/lib/api-client";
+import { registerQueueableMutation } from "@/lib/mutation-queue";
 import { MutationConfig } from "@/lib/tanstack-query";
 import { logger } from "@/utils/logger";
 
@@ -8,7 +9,6 @@ import { updateProjectOutputSchema } from "../types/api";
 import type { UpdateProjectInput } from "../types/forms";
 import { updateProjectSchema } from "../types/forms";
 import { getProjectQueryOptions } from "./get-project";
-import { getProjectsQueryOptions } from "./get-projects";
 
 // ================================================================================
 // API関数
@@ -27,8 +27,7 @@ import { getProjectsQueryOptions } from "./get-projects";
  *   projectId: '123',
  *   data: {
  *     name: 'プロジェクト名更新',
- *     description: '説明更新',
- *     is_active: true
+ *     description: '説明更新'
  *   }
  * });
  * console.log(updatedProject.data);
@@ -40,11 +39,27 @@ export const updateProject = async ({ projectId, data }: { projectId: string; da
   return updateProjectOutputSchema.parse(response);
 };
 
+// ================================================================================
+// 送信待ち（オフライン時の再送）
+// ================================================================================
+
+/**
+ * オフライン中・通信エラーの場合は送信待ちにし、接続が回復したら再送する（ミューテーションキーにプロジェクトIDを含める）
+ */
+const updateProjectQueue = registerQueueableMutation({
+  name: "projects/update",
+  label: "プロジェクトの編集",
+  mutationFn: ({ data }: { projectId: string; data: UpdateProjectInput }, [projectId]: [string]) => updateProject({ projectId, data }),
+  invalidates: () => [["projects"]],
+});
+
 // ================================================================================
 // Hooks
 // ================================================================================
 
 type UseUpdateProjectOptions = {
+  /** 更新するプロジェクトのID（送信待ちの操作は、プロジェクトごとに実行した順に再送する） */
+  projectId: string;
   mutationConfig?: MutationConfig<typeof updateProject>;
 };
 
@@ -53,12 +68,15 @@ type UseUpdateProjectOptions = {
  * - プロジェクト一覧のクエリキャッシュを無効化
  * - 更新したプロジェクトの詳細クエリキャッシュを無効化
  *
+ * オフライン中・通信エラーの場合は送信待ちになり、接続が回復すると再送します。
+ *
  * @example
  * ```tsx
  * import { useUpdateProject } from '@/features/projects/api/update-project';
  *
  * function UpdateProjectForm({ projectId }: { projectId: string }) {
  *   const updateProjectMutation = useUpdateProject({
+ *     projectId,
  *     mutationConfig: {
  *       onSuccess: (data) => {
  *         console.log('プロジェクトが更新されました:', data);
@@ -74,16 +92,17 @@ type UseUpdateProjectOptions = {
  * }
  * ```
  */
-export const useUpdateProject = ({ mutationConfig }: UseUpdateProjectOptions = {}) => {
+export const useUpdateProject = ({ projectId, mutationConfig }: UseUpdateProjectOptions) => {
   const queryClient = useQueryClient();
 
   const { onSuccess, ...restConfig } = mutationConfig || {};
 
   return useMutation({
+    ...updateProjectQueue(projectId),
     onSuccess: (data, ...args) => {
       queryClient
         .invalidateQueries({
-          queryKey: getProjectsQueryOptions().queryKey,
+          queryKey: ["projects"],
         })
         .catch((error) => {
           logger.error("プロジェクト一覧クエリの無効化に失敗しました", error);
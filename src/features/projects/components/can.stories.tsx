@@ -0,0 +1,91 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, within } from "@storybook/test";
+import { http, HttpResponse } from "msw";
+import { Suspense } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+
+import { Can } from "./can";
+
+/**
+ * 自分のメンバー情報レスポンスを生成
+ */
+const meHandler = (role: string | null) =>
+  http.get("*/api/v1/projects/:projectId/members/me", ({ params }) => {
+    if (role === null) {
+      return HttpResponse.json({ data: null });
+    }
+
+    return HttpResponse.json({
+      data: {
+        id: "member-me",
+        project_id: params.projectId,
+        user_id: "dev-user-uuid",
+        role,
+        joined_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+    });
+  });
+
+const meta = {
+  title: "features/projects/components/Can",
+  component: Can,
+  parameters: {
+    layout: "centered",
+  },
+  decorators: [(story) => <Suspense fallback={<p>読み込み中...</p>}>{story()}</Suspense>],
+  args: {
+    projectId: "project-1",
+    permission: "project:delete",
+    children: <Button variant="destructive">削除</Button>,
+    fallback: <p className="text-sm text-gray-500">削除する権限がありません</p>,
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof Can>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * 権限あり（プロジェクトマネージャー）
+ */
+export const Allowed: Story = {
+  parameters: {
+    msw: {
+      handlers: [meHandler("project_manager")],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByRole("button", { name: "削除" })).toBeInTheDocument();
+  },
+};
+
+/**
+ * 権限なし（閲覧者）
+ */
+export const Denied: Story = {
+  parameters: {
+    msw: {
+      handlers: [meHandler("viewer")],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText("削除する権限がありません")).toBeInTheDocument();
+  },
+};
+
+/**
+ * プロジェクトのメンバーではない
+ */
+export const NotMember: Story = {
+  parameters: {
+    msw: {
+      handlers: [meHandler(null)],
+    },
+  },
+};
@@ -0,0 +1,44 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import { usePermission } from "../hooks/use-permission";
+import type { Permission } from "../types";
+
+type CanProps = {
+  /** 対象のプロジェクトID */
+  projectId: string;
+  /** 必要な権限 */
+  permission: Permission;
+  /** 権限がある場合に表示する要素 */
+  children: ReactNode;
+  /** 権限がない場合に表示する要素（省略時は何も表示しない） */
+  fallback?: ReactNode;
+};
+
+/**
+ * 権限に応じて子要素の表示を切り替えるコンポーネント
+ *
+ * ログインユーザーが対象プロジェクトで指定された権限を持つ場合のみ children を表示します。
+ * 内部で usePermission を使用するため、Suspense境界の内側に配置してください。
+ *
+ * @param projectId 対象のプロジェクトID
+ * @param permission 必要な権限
+ * @param fallback 権限がない場合に表示する要素
+ *
+ * @example
+ * ```tsx
+ * <Can projectId={project.id} permission="project:delete">
+ *   <Button variant="destructive">削除</Button>
+ * </Can>
+ *
+ * <Can projectId={project.id} permission="project:edit" fallback={<Button disabled>編集</Button>}>
+ *   <Button>編集</Button>
+ * </Can>
+ * ```
+ */
+export const Can = ({ projectId, permission, children, fallback = null }: CanProps) => {
+  const allowed = usePermission(projectId, permission);
+
+  return <>{allowed ? children : fallback}</>;
+};
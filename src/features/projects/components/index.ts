@@ -1 +1,5 @@
+export * from "./can";
+export * from "./membership-expiry-badge";
+export * from "./project-status-badge";
 export * from "./role-badge";
+export * from "./route-permission-guard";
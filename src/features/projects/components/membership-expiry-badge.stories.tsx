@@ -0,0 +1,52 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { addDays, endOfDay, subDays } from "date-fns";
+
+import { MembershipExpiryBadge } from "./membership-expiry-badge";
+
+const meta = {
+  title: "features/projects/components/MembershipExpiryBadge",
+  component: MembershipExpiryBadge,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof MembershipExpiryBadge>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * 有効期限まで余裕があるメンバー
+ */
+export const ExpiresLater: Story = {
+  args: {
+    member: { expires_at: endOfDay(addDays(new Date(), 30)).toISOString() },
+  },
+};
+
+/**
+ * 有効期限が近いメンバー
+ */
+export const ExpiresSoon: Story = {
+  args: {
+    member: { expires_at: endOfDay(addDays(new Date(), 3)).toISOString() },
+  },
+};
+
+/**
+ * 本日で有効期限が切れるメンバー
+ */
+export const ExpiresToday: Story = {
+  args: {
+    member: { expires_at: endOfDay(new Date()).toISOString() },
+  },
+};
+
+/**
+ * 有効期限が切れたメンバー
+ */
+export const Expired: Story = {
+  args: {
+    member: { expires_at: subDays(new Date(), 3).toISOString() },
+  },
+};
@@ -0,0 +1,40 @@
+import type { ProjectMember } from "../types";
+import { getDaysUntilMembershipExpiry, isMembershipExpired, MEMBERSHIP_EXPIRY_WARNING_DAYS } from "../utils/membership-expiry";
+
+type MembershipExpiryBadgeProps = {
+  member: Pick<ProjectMember, "expires_at">;
+  className?: string;
+};
+
+/**
+ * メンバーシップの有効期限を表示するバッジコンポーネント
+ *
+ * 有効期限がないメンバーには何も表示しません。
+ * 期限切れは赤、期限まで MEMBERSHIP_EXPIRY_WARNING_DAYS 日以内は黄色で表示します。
+ *
+ * @param member プロジェクトメンバー
+ * @param className 追加のCSSクラス
+ *
+ * @example
+ * ```tsx
+ * <MembershipExpiryBadge member={member} />
+ * ```
+ */
+export const MembershipExpiryBadge = ({ member, className = "" }: MembershipExpiryBadgeProps) => {
+  const daysUntilExpiry = getDaysUntilMembershipExpiry(member);
+
+  if (daysUntilExpiry === null) {
+    return null;
+  }
+
+  const config = isMembershipExpired(member)
+    ? { label: "期限切れ", className: "bg-red-100 text-red-800" }
+    : {
+        label: daysUntilExpiry === 0 ? "本日で期限切れ" : `あと${daysUntilExpiry}日で期限切れ`,
+        className: daysUntilExpiry <= MEMBERSHIP_EXPIRY_WARNING_DAYS ? "bg-amber-100 text-amber-800" : "bg-gray-100 text-gray-800",
+      };
+
+  return (
+    <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${config.className} ${className}`}>{config.label}</span>
+  );
+};
@@ -60,7 +60,7 @@ const meta = {
           "**主な機能:**\n" +
           "- React Hook Formによるフォーム管理\n" +
           "- Zodスキーマによるバリデーション\n" +
-          "- プロジェクト名、説明、ステータスの入力\n" +
+          "- プロジェクト名、説明の入力\n" +
           "- 送信中状態の制御\n" +
           "- エラーメッセージの表示\n" +
           "- 新規作成・編集モードの切り替え\n\n" +
@@ -164,7 +164,6 @@ export const Default: Story = {
       defaultValues: {
         name: "",
         description: "",
-        is_active: true,
       },
     });
 
@@ -173,7 +172,7 @@ export const Default: Story = {
   parameters: {
     docs: {
       description: {
-        story: "新規プロジェクト作成時の初期状態。プロジェクト名と説明が空で、ステータスはアクティブにチェックされています。",
+        story: "新規プロジェクト作成時の初期状態。プロジェクト名と説明が空の状態です。",
       },
     },
   },
@@ -202,7 +201,6 @@ export const WithValue: Story = {
       defaultValues: {
         name: "新規プロジェクト",
         description: "これは新規プロジェクトの説明です。プロジェクトの目的や概要を記載します。",
-        is_active: true,
       },
     });
 
@@ -241,7 +239,6 @@ export const ValidationError: Story = {
       defaultValues: {
         name: "",
         description: "",
-        is_active: true,
       },
     });
 
@@ -288,7 +285,6 @@ export const Submitting: Story = {
       defaultValues: {
         name: "新規プロジェクト",
         description: "プロジェクトの説明",
-        is_active: true,
       },
     });
 
@@ -329,7 +325,6 @@ export const WithError: Story = {
       defaultValues: {
         name: "新規プロジェクト",
         description: "プロジェクトの説明",
-        is_active: true,
       },
     });
 
@@ -378,7 +373,6 @@ export const EditMode: Story = {
       defaultValues: {
         name: "既存プロジェクト",
         description: "既存プロジェクトの説明を編集しています。",
-        is_active: true,
       },
     });
 
@@ -405,44 +399,6 @@ export const EditMode: Story = {
   },
 };
 
-/**
- * 非アクティブプロジェクト
- * ステータスが非アクティブの状態
- */
-export const InactiveProject: Story = {
-  name: "非アクティブプロジェクト",
-  args: {
-    control: {} as Control<CreateProjectInput>,
-    onSubmit: fn(),
-    onCancel: fn(),
-    errors: {},
-    isSubmitting: false,
-  },
-  render: () => {
-    const {
-      control,
-      handleSubmit,
-      formState: { errors, isSubmitting },
-    } = useForm<CreateProjectInput>({
-      resolver: zodResolver(createProjectSchema),
-      defaultValues: {
-        name: "非アクティブプロジェクト",
-        description: "このプロジェクトは現在非アクティブです。",
-        is_active: false,
-      },
-    });
-
-    return <ProjectForm control={control} onSubmit={handleSubmit(fn())} onCancel={fn()} errors={errors} isSubmitting={isSubmitting} />;
-  },
-  parameters: {
-    docs: {
-      description: {
-        story: "ステータスが非アクティブに設定されているプロジェクトのフォーム状態。アクティブチェックボックスがオフになっています。",
-      },
-    },
-  },
-};
-
 /**
  * 長い説明文
  * 説明フィールドに長いテキストが入力されている状態
@@ -467,7 +423,6 @@ export const WithLongDescription: Story = {
         name: "大規模プロジェクト",
         description:
           "これは非常に長い説明文を持つプロジェクトです。プロジェクトの背景、目的、スコープ、期待される成果物、チームメンバー、スケジュール、リスク、前提条件などの詳細情報を含みます。このプロジェクトは複数のフェーズに分かれており、各フェーズで異なる成果物が期待されています。第一フェーズでは要件定義と基本設計を行い、第二フェーズで詳細設計と実装を行います。",
-        is_active: true,
       },
     });
 
@@ -3,11 +3,7 @@ import { Control, FieldErrors, FieldPath } from "react-hook-form";
 import { Button } from "@/components/sample-ui/button";
 import { Card, CardContent } from "@/components/sample-ui/card";
 import { ErrorMessage } from "@/components/sample-ui/error-message";
-import {
-  ControlledCheckboxField,
-  ControlledInputField,
-  ControlledTextareaField,
-} from "@/components/sample-ui/form-field/controlled-form-field";
+import { ControlledInputField, ControlledTextareaField } from "@/components/sample-ui/form-field/controlled-form-field";
 
 import type { CreateProjectInput, UpdateProjectInput } from "../types/forms";
 
@@ -37,7 +33,6 @@ type ProjectFormProps<T extends ProjectFormData = CreateProjectInput> = {
  * 機能:
  * - プロジェクト名入力フィールド
  * - 説明入力フィールド（任意）
- * - ステータス選択フィールド（アクティブ/非アクティブ）
  * - エラーメッセージ表示
  * - 送信・キャンセルボタン
  * - 作成/編集モードの切り替え（ボタンテキストの変更）
@@ -78,8 +73,6 @@ export const ProjectForm = <T extends ProjectFormData = CreateProjectInput>({
             rows={4}
           />
 
-          <ControlledCheckboxField control={control} name={"is_active" as FieldPath<T>} label="アクティブ" />
-
           {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
 
           <div className="flex gap-4">
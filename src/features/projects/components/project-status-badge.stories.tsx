@@ -0,0 +1,54 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+
+import type { Project } from "../types";
+import { ProjectStatusBadge } from "./project-status-badge";
+
+const baseProject: Project = {
+  id: "project-1",
+  name: "サンプルプロジェクト",
+  description: null,
+  is_active: true,
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+  created_by: "user-1",
+  deleted_at: null,
+};
+
+const meta = {
+  title: "features/projects/components/ProjectStatusBadge",
+  component: ProjectStatusBadge,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof ProjectStatusBadge>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * アクティブなプロジェクト
+ */
+export const Active: Story = {
+  args: {
+    project: baseProject,
+  },
+};
+
+/**
+ * アーカイブ済みのプロジェクト
+ */
+export const Archived: Story = {
+  args: {
+    project: { ...baseProject, is_active: false },
+  },
+};
+
+/**
+ * ゴミ箱のプロジェクト
+ */
+export const Trashed: Story = {
+  args: {
+    project: { ...baseProject, deleted_at: "2024-05-01T00:00:00Z" },
+  },
+};
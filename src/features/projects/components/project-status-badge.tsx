@@ -0,0 +1,35 @@
+import type { Project } from "../types";
+import { getProjectLifecycleStatus } from "../utils/project-lifecycle";
+
+type ProjectStatusBadgeProps = {
+  project: Project;
+  className?: string;
+};
+
+/**
+ * ライフサイクル状態ごとの表示ラベルと色
+ */
+const STATUS_CONFIG = {
+  active: { label: "アクティブ", className: "bg-green-100 text-green-800" },
+  archived: { label: "アーカイブ済み", className: "bg-gray-100 text-gray-800" },
+  trashed: { label: "ゴミ箱", className: "bg-red-100 text-red-800" },
+} as const;
+
+/**
+ * プロジェクトのライフサイクル状態（アクティブ・アーカイブ済み・ゴミ箱）を表示するバッジコンポーネント
+ *
+ * @param project プロジェクト
+ * @param className 追加のCSSクラス
+ *
+ * @example
+ * ```tsx
+ * <ProjectStatusBadge project={project} />
+ * ```
+ */
+export const ProjectStatusBadge = ({ project, className = "" }: ProjectStatusBadgeProps) => {
+  const config = STATUS_CONFIG[getProjectLifecycleStatus(project)];
+
+  return (
+    <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${config.className} ${className}`}>{config.label}</span>
+  );
+};
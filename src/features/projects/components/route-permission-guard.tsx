@@ -0,0 +1,88 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { type ReactNode, Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { ForbiddenPage } from "@/components/errors/forbidden";
+import { MainErrorFallback } from "@/components/errors/main";
+import { LoadingSpinner } from "@/components/ui";
+import { matchRoutePermission } from "@/config/route-permissions";
+
+import { useProjectPermissions, useSystemPermissions } from "../hooks/use-permission";
+import type { Permission } from "../types";
+
+type PermissionCheckProps = {
+  permission: Permission;
+  children: ReactNode;
+};
+
+/**
+ * システムロールのみで権限を判定する
+ */
+const SystemPermissionCheck = ({ permission, children }: PermissionCheckProps) => {
+  const permissions = useSystemPermissions();
+
+  if (!permissions.has(permission)) {
+    return <ForbiddenPage />;
+  }
+
+  return <>{children}</>;
+};
+
+/**
+ * プロジェクトのメンバーシップを解決して権限を判定する
+ */
+const ProjectPermissionCheck = ({ projectId, permission, children }: PermissionCheckProps & { projectId: string }) => {
+  const { permissions } = useProjectPermissions(projectId);
+
+  if (!permissions.has(permission)) {
+    return <ForbiddenPage />;
+  }
+
+  return <>{children}</>;
+};
+
+type RoutePermissionGuardProps = {
+  /** レンダリングする子要素 */
+  children: ReactNode;
+};
+
+/**
+ * ルート権限ガードコンポーネント
+ *
+ * 現在のパスに対応する権限要件（config/route-permissions.ts）を評価し、
+ * 権限がない場合は403ページを表示します。
+ * プロジェクト単位のルールでは、ログインユーザーのメンバーシップを取得して判定します。
+ * 権限要件が定義されていないパスでは、そのまま子要素を表示します。
+ *
+ * @example
+ * ```tsx
+ * // app/(protected)/layout.tsx
+ * <RoutePermissionGuard>{children}</RoutePermissionGuard>
+ * ```
+ */
+export const RoutePermissionGuard = ({ children }: RoutePermissionGuardProps) => {
+  const pathname = usePathname();
+  const match = matchRoutePermission(pathname);
+
+  if (!match) {
+    return <>{children}</>;
+  }
+
+  const { rule, projectId } = match;
+
+  return (
+    <ErrorBoundary FallbackComponent={MainErrorFallback} resetKeys={[pathname]}>
+      <Suspense fallback={<LoadingSpinner message="権限を確認しています..." />}>
+        {projectId !== null ? (
+          <ProjectPermissionCheck projectId={projectId} permission={rule.permission}>
+            {children}
+          </ProjectPermissionCheck>
+        ) : (
+          <SystemPermissionCheck permission={rule.permission}>{children}</SystemPermissionCheck>
+        )}
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
@@ -13,12 +13,33 @@ export const PROJECT_MESSAGES = {
    */
   ERRORS: {
     CREATE_FAILED: "プロジェクトの作成に失敗しました",
+    COPY_FAILED: "プロジェクトの複製に失敗しました",
     UPDATE_FAILED: "プロジェクトの更新に失敗しました",
     DELETE_FAILED: "プロジェクトの削除に失敗しました",
     FETCH_FAILED: "プロジェクトの取得に失敗しました",
     MEMBER_ADD_FAILED: "メンバーの追加に失敗しました",
     MEMBER_REMOVE_FAILED: "メンバーの削除に失敗しました",
     MEMBER_UPDATE_FAILED: "メンバーロールの更新に失敗しました",
+    MEMBER_BULK_ADD_FAILED: "メンバーの一括追加に失敗しました",
+    MEMBER_NOT_FOUND: "メンバーが見つかりません",
+    LAST_PROJECT_MANAGER:
+      "プロジェクトには少なくとも1人のプロジェクトマネージャーが必要です。先に別のメンバーをプロジェクトマネージャーに変更してください。",
+    INVITATION_CREATE_FAILED: "招待の送信に失敗しました",
+    INVITATION_RESEND_FAILED: "招待の再送に失敗しました",
+    INVITATION_REVOKE_FAILED: "招待の取り消しに失敗しました",
+    INVITATION_ACCEPT_FAILED: "招待の承諾に失敗しました",
+    OWNERSHIP_TRANSFER_FAILED: "オーナーの移譲に失敗しました",
+    MEMBER_EXPORT_FAILED: "メンバー一覧のエクスポートに失敗しました",
+    MEMBER_IMPORT_READ_FAILED: "ファイルを読み込めませんでした",
+    MEMBER_IMPORT_FAILED: "メンバーのインポートに失敗しました",
+    ARCHIVE_FAILED: "プロジェクトのアーカイブに失敗しました",
+    UNARCHIVE_FAILED: "プロジェクトのアーカイブ解除に失敗しました",
+    RESTORE_FAILED: "プロジェクトの復元に失敗しました",
+    PURGE_FAILED: "プロジェクトの完全削除に失敗しました",
+    SETTINGS_UPDATE_FAILED: "プロジェクト設定の更新に失敗しました",
+    ACCESS_REQUEST_CREATE_FAILED: "権限のリクエストに失敗しました",
+    ACCESS_REQUEST_APPROVE_FAILED: "権限リクエストの承認に失敗しました",
+    ACCESS_REQUEST_DENY_FAILED: "権限リクエストの却下に失敗しました",
   },
 
   /**
@@ -27,18 +48,102 @@ export const PROJECT_MESSAGES = {
   SUCCESS: {
     CREATED: "プロジェクトを作成しました",
     UPDATED: "プロジェクトを更新しました",
+    UPDATE_QUEUED: "通信できないため、更新を送信待ちにしました。接続が回復すると送信されます",
     DELETED: "プロジェクトを削除しました",
+    SETTINGS_UPDATED: "プロジェクト設定を更新しました",
     MEMBER_ADDED: "メンバーを追加しました",
     MEMBER_REMOVED: "メンバーを削除しました",
     MEMBER_UPDATED: "メンバーロールを更新しました",
+    membersBulkAdded: (count: number) => `${count}人のメンバーを追加しました`,
+    invitationSent: (email: string) => `${email} に招待を送信しました`,
+    invitationResent: (email: string) => `${email} に招待を再送しました`,
+    ownershipTransferred: (name: string) => `オーナーを ${name} に移譲しました`,
+    membersImported: (added: number, changed: number) => `${added}人を追加し、${changed}人のロールを変更しました`,
+    projectArchived: (name: string) => `プロジェクト「${name}」をアーカイブしました`,
+    projectUnarchived: (name: string) => `プロジェクト「${name}」のアーカイブを解除しました`,
+    projectRestored: (name: string) => `プロジェクト「${name}」を復元しました`,
+    projectPurged: (name: string) => `プロジェクト「${name}」を完全に削除しました`,
+    ACCESS_REQUESTED: "権限をリクエストしました。承認されるとロールが変更されます",
+    accessRequestApproved: (name: string) => `${name} の権限リクエストを承認しました`,
+    accessRequestDenied: (name: string) => `${name} の権限リクエストを却下しました`,
+  },
+
+  /**
+   * メンバー一括追加の失敗理由（types/api の BulkAddFailureReason に対応）
+   */
+  BULK_ADD_FAILURES: {
+    already_member: "既にプロジェクトのメンバーです",
+    user_not_found: "ユーザーが見つかりません",
+    user_inactive: "無効化されたユーザーです",
+    role_not_assignable: "このロールを付与する権限がありません",
+  },
+
+  /**
+   * プロジェクト複製時のメンバーの競合（types/api の CopyMemberConflict に対応）
+   */
+  COPY_CONFLICTS: {
+    inactive_user: "無効化されたユーザーのため、コピーできません",
+    expired_membership: "複製元で有効期限が過ぎています。コピーすると期限なしのメンバーになります",
+  },
+
+  /**
+   * メンバーインポートで反映できない行の理由（utils/member-import）
+   */
+  IMPORT_ERRORS: {
+    INVALID_EMAIL: "メールアドレスの形式が正しくありません",
+    DUPLICATE_EMAIL: "同じメールアドレスがファイル内で重複しています",
+    invalidRole: (value: string) => (value === "" ? "ロールが指定されていません" : `ロール「${value}」は存在しません`),
+    USER_NOT_FOUND: "ユーザーが見つかりません",
+    USER_INACTIVE: "無効化されたユーザーです",
+    ROLE_NOT_ASSIGNABLE: "このロールを付与する権限がありません",
+  },
+
+  /**
+   * メンバー操作が制限される理由（utils/role-hierarchy の MemberRestrictionReason に対応）
+   */
+  RESTRICTIONS: {
+    no_permission: "メンバーを管理する権限がありません",
+    self: "自分自身のロールは変更・削除できません",
+    outranked: "自分より上位のロールを持つメンバーは変更・削除できません",
+    last_manager: "有効なプロジェクトマネージャーが1人だけのため、降格・削除できません",
+  },
+
+  /**
+   * 招待を承諾できない理由（InvitationStatus に対応）
+   */
+  INVITATION_UNAVAILABLE: {
+    accepted: "この招待は既に承諾されています",
+    revoked: "この招待は取り消されました",
+    expired: "この招待の有効期限が切れています。招待したメンバーに再送を依頼してください",
+  },
+
+  /**
+   * 補足説明
+   */
+  HINTS: {
+    ROLE_NOT_ASSIGNABLE: "自分より上位のロールは付与できません",
+    ALREADY_MEMBER: "参加済み",
+    USER_SEARCH_EMPTY: "該当するユーザーが見つかりません",
+    ARCHIVED_READ_ONLY: "このプロジェクトはアーカイブされています。閲覧のみ可能です。",
+    INVITE_MANAGERS_ONLY: "このプロジェクトでは、メンバーの招待・追加はプロジェクトマネージャーのみが行えます。",
+    MEMBERSHIP_EXPIRY: "有効期限の日を過ぎるとプロジェクトの権限を失います。空欄の場合は期限なしです。",
+    MEMBERSHIP_EXPIRED: "このメンバーの有効期限は過ぎています。期限を延長するか、空欄にして期限なしにしてください。",
+    ACCESS_REQUEST_NOT_APPROVABLE: "自分より上位のロールへのリクエストは承認できません",
+    accessRequestPending: (role: string) => `「${role}」へのロール変更をリクエスト中です`,
+    COPY_CREATOR_ROLE: "作成したあなたは、プロジェクトマネージャーとして追加されます",
+    EXPIRED_MEMBERS: "有効期限が過ぎたメンバーはプロジェクトの権限を失っています。期限を延長するか、削除してください。",
+    trashed: (days: number) => `このプロジェクトはゴミ箱にあります。${days}日後に完全に削除されます。`,
   },
 
   /**
    * 確認メッセージ
    */
   CONFIRM: {
-    deleteProject: (projectName: string) => `プロジェクト「${projectName}」を削除しますか？`,
-    DELETE_PROJECT_WARNING: "この操作は取り消せません。",
+    deleteProject: (projectName: string) => `プロジェクト「${projectName}」をゴミ箱に移動しますか？`,
+    deleteProjectRetention: (days: number) => `ゴミ箱のプロジェクトは${days}日後に完全に削除されます。それまではゴミ箱から復元できます。`,
+    purgeProject: (projectName: string) => `プロジェクト「${projectName}」を完全に削除しますか？`,
+    PURGE_PROJECT_WARNING: "この操作は取り消せません。メンバー・招待を含むすべてのデータが削除されます。",
     deleteMember: (memberName: string) => `「${memberName}」をプロジェクトから削除しますか？`,
+    TRANSFER_OWNERSHIP_ACKNOWLEDGE: "上記のロール変更を確認しました。移譲後は自分で元に戻せない場合があります。",
   },
 } as const;
@@ -0,0 +1,55 @@
+/**
+ * ロールと権限の対応定義
+ *
+ * システムロール・プロジェクトロールごとに付与される権限を一元管理します。
+ * UIの表示制御とAPIの権限チェックは、必ずこのマッピングを参照してください。
+ *
+ * @module features/projects/constants/permissions
+ */
+
+import type { Permission, ProjectRole, SystemRole } from "../types";
+
+/**
+ * プロジェクトロールごとの権限
+ *
+ * 上位ロールは下位ロールの権限をすべて含みます。
+ */
+export const PROJECT_ROLE_PERMISSIONS: Record<ProjectRole, readonly Permission[]> = {
+  project_manager: ["project:view", "project:edit", "project:delete", "project:manage_members", "project:manage_settings"],
+  project_moderator: ["project:view", "project:edit", "project:manage_members"],
+  member: ["project:view", "project:edit"],
+  viewer: ["project:view"],
+};
+
+/**
+ * システムロールごとの権限
+ *
+ * system_admin はプロジェクトのメンバーでなくても全ての操作が可能です。
+ */
+export const SYSTEM_ROLE_PERMISSIONS: Record<SystemRole, readonly Permission[]> = {
+  system_admin: [
+    "project:view",
+    "project:edit",
+    "project:delete",
+    "project:manage_members",
+    "project:manage_settings",
+    "system:admin",
+    "system:manage_users",
+    "system:view_audit_logs",
+  ],
+  user: [],
+};
+
+/**
+ * 権限の表示名（権限マトリクスの列見出しに使用）
+ */
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "project:view": "閲覧",
+  "project:edit": "編集",
+  "project:delete": "削除",
+  "project:manage_members": "メンバー管理",
+  "project:manage_settings": "設定管理",
+  "system:admin": "システム管理",
+  "system:manage_users": "ユーザー管理",
+  "system:view_audit_logs": "監査ログ閲覧",
+};
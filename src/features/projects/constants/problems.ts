@@ -0,0 +1,32 @@
+/**
+ * プロジェクト管理機能の問題の種類
+ *
+ * lib/problem-types のレジストリに、プロジェクト固有の問題の種類を登録します。
+ * getProblemMessage などでメッセージを表示する前に、このモジュールを読み込んでください。
+ *
+ * @module features/projects/constants/problems
+ */
+
+import { ProblemTypes } from "@/lib/api-error";
+import { registerProblemType } from "@/lib/problem-types";
+
+import { PROJECT_MESSAGES } from "./messages";
+
+/**
+ * 最後のプロジェクトマネージャーのロール変更・削除
+ */
+export const lastProjectManagerProblem = registerProblemType({
+  type: ProblemTypes.LAST_PROJECT_MANAGER,
+  title: "プロジェクトマネージャーを変更できません",
+  policy: "inline",
+  describe: () => PROJECT_MESSAGES.ERRORS.LAST_PROJECT_MANAGER,
+});
+
+/**
+ * 自分と同等以上のロールのメンバーの変更・自分より上位のロールの付与
+ */
+export const roleHierarchyViolationProblem = registerProblemType({
+  type: ProblemTypes.ROLE_HIERARCHY_VIOLATION,
+  title: "ロールの権限が不足しています",
+  policy: "inline",
+});
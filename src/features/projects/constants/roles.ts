@@ -0,0 +1,37 @@
+/**
+ * プロジェクトロールの階層と表示名
+ *
+ * @module features/projects/constants/roles
+ */
+
+import type { ProjectRole, SystemRole } from "../types";
+
+/**
+ * プロジェクトロールの階層（数値が大きいほど上位）
+ *
+ * project_manager > project_moderator > member > viewer
+ */
+export const PROJECT_ROLE_RANK: Record<ProjectRole, number> = {
+  project_manager: 4,
+  project_moderator: 3,
+  member: 2,
+  viewer: 1,
+};
+
+/**
+ * プロジェクトロールの表示名（上位ロールから順に定義）
+ */
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  project_manager: "プロジェクトマネージャー",
+  project_moderator: "権限管理者",
+  member: "メンバー",
+  viewer: "閲覧者",
+};
+
+/**
+ * システムロールの表示名
+ */
+export const SYSTEM_ROLE_LABELS: Record<SystemRole, string> = {
+  system_admin: "システム管理者",
+  user: "一般ユーザー",
+};
@@ -0,0 +1,31 @@
+/**
+ * プロジェクト設定の表示名
+ *
+ * @module features/projects/constants/settings
+ */
+
+import type { MemberInvitePolicy } from "../types";
+
+/**
+ * 招待ポリシーの表示名と説明
+ */
+export const INVITE_POLICY_OPTIONS: { value: MemberInvitePolicy; label: string; description: string }[] = [
+  {
+    value: "managers_only",
+    label: "プロジェクトマネージャーのみ",
+    description: "メンバーの招待・追加はプロジェクトマネージャーだけが行えます",
+  },
+  {
+    value: "managers_and_moderators",
+    label: "プロジェクトマネージャーと権限管理者",
+    description: "権限管理者も、自分以下のロールでメンバーを招待・追加できます",
+  },
+];
+
+/**
+ * 招待ポリシーの表示名
+ */
+export const INVITE_POLICY_LABELS = Object.fromEntries(INVITE_POLICY_OPTIONS.map((option) => [option.value, option.label])) as Record<
+  MemberInvitePolicy,
+  string
+>;
@@ -0,0 +1,2 @@
+export * from "./use-permission";
+export * from "./use-project-commands";
@@ -0,0 +1,87 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { useUser } from "@/features/auth/stores/auth-store";
+
+import { useMyProjectMember } from "../api/get-my-project-member";
+import type { Permission } from "../types";
+import { isMembershipExpired } from "../utils/membership-expiry";
+import { resolvePermissions, toSystemRoles } from "../utils/permissions";
+
+/**
+ * システムロールのみに基づく権限を取得するフック
+ *
+ * プロジェクトに依存しない画面（システム管理画面など）の権限判定に使用します。
+ *
+ * @returns 実効権限の集合
+ *
+ * @example
+ * ```tsx
+ * const permissions = useSystemPermissions()
+ * if (permissions.has('system:admin')) { ... }
+ * ```
+ */
+export const useSystemPermissions = (): ReadonlySet<Permission> => {
+  const user = useUser();
+  const userRoles = user?.roles;
+
+  return useMemo(() => resolvePermissions({ systemRoles: toSystemRoles(userRoles ?? []), projectRole: null }), [userRoles]);
+};
+
+/**
+ * プロジェクトにおける実効権限を取得するフック
+ *
+ * ログインユーザーのシステムロールと、対象プロジェクトでのロールを合成した権限集合を返します。
+ * メンバー情報の取得にSuspenseを使用するため、Suspense境界の内側で呼び出してください。
+ *
+ * @param projectId プロジェクトID
+ * @returns permissions - 実効権限の集合
+ * @returns projectRole - プロジェクトでのロール（メンバーでない場合・メンバーシップの有効期限が過ぎている場合は null）
+ * @returns member - 自分のメンバー情報（メンバーでない場合は null）
+ *
+ * @example
+ * ```tsx
+ * const { permissions, projectRole } = useProjectPermissions('project-123')
+ * if (permissions.has('project:manage_members')) { ... }
+ * ```
+ */
+export const useProjectPermissions = (projectId: string) => {
+  const user = useUser();
+  const { data } = useMyProjectMember({ projectId });
+
+  const member = data.data;
+  const projectRole = member !== null && !isMembershipExpired(member) ? member.role : null;
+  const userRoles = user?.roles;
+
+  const permissions = useMemo(
+    () => resolvePermissions({ systemRoles: toSystemRoles(userRoles ?? []), projectRole }),
+    [userRoles, projectRole]
+  );
+
+  return {
+    permissions,
+    projectRole,
+    member,
+  };
+};
+
+/**
+ * 指定した権限を持っているかを判定するフック
+ *
+ * @param projectId プロジェクトID
+ * @param permission 判定する権限
+ * @returns 権限を持っている場合 true
+ *
+ * @example
+ * ```tsx
+ * const canDelete = usePermission('project-123', 'project:delete')
+ *
+ * <Button disabled={!canDelete}>削除</Button>
+ * ```
+ */
+export const usePermission = (projectId: string, permission: Permission): boolean => {
+  const { permissions } = useProjectPermissions(projectId);
+
+  return permissions.has(permission);
+};
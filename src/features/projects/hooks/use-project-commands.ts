@@ -0,0 +1,157 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+
+import { paths } from "@/config/paths";
+import { useRegisterCommands, useRegisterCommandSearch } from "@/features/command-palette/hooks/use-register-commands";
+import type { PaletteCommand, PaletteCommandSearch } from "@/features/command-palette/types";
+
+import { getProjectsQueryOptions } from "../api/get-projects";
+import type { Project } from "../types";
+import type { ProjectsOutput } from "../types/api";
+
+/**
+ * コマンドパレットのグループ名
+ */
+const PROJECT_COMMAND_GROUPS = {
+  NAVIGATION: "ページ",
+  ACTIONS: "操作",
+  PROJECTS: "プロジェクト",
+  CURRENT_PROJECT: "このプロジェクト",
+} as const;
+
+/**
+ * キーワード検索で表示するプロジェクトの件数
+ */
+const PROJECT_SEARCH_LIMIT = 10;
+
+/**
+ * プロジェクトをコマンドパレットのコマンドに変換
+ */
+const toProjectCommand = (project: Project): PaletteCommand => ({
+  id: `project:${project.id}`,
+  title: project.name,
+  group: PROJECT_COMMAND_GROUPS.PROJECTS,
+  description: project.description ?? undefined,
+  href: paths.projects.detail.getHref(project.id),
+});
+
+/**
+ * プロジェクト機能のコマンドをコマンドパレットに登録するフック
+ *
+ * - プロジェクト一覧への移動・新規プロジェクト作成（作成ダイアログを開いた一覧ページへ遷移）
+ * - プロジェクト検索: キーワードが空の場合は取得済みの一覧（キャッシュ）から、入力がある場合は API で検索
+ *
+ * 認証済みのページ全体で使用するため、保護されたルートのレイアウトで呼び出してください。
+ *
+ * @example
+ * ```tsx
+ * useProjectCommands()
+ * ```
+ */
+export const useProjectCommands = () => {
+  const queryClient = useQueryClient();
+
+  const commands = useMemo<PaletteCommand[]>(
+    () => [
+      {
+        id: "projects:list",
+        title: "プロジェクト一覧",
+        group: PROJECT_COMMAND_GROUPS.NAVIGATION,
+        keywords: ["projects"],
+        href: paths.projects.list.getHref(),
+      },
+      {
+        id: "projects:create",
+        title: "新規プロジェクト作成",
+        group: PROJECT_COMMAND_GROUPS.ACTIONS,
+        keywords: ["create project", "new"],
+        href: `${paths.projects.list.getHref()}?action=create`,
+      },
+    ],
+    []
+  );
+
+  const search = useCallback<PaletteCommandSearch>(
+    async (query) => {
+      if (query === "") {
+        // 取得済みの一覧から重複を除いて表示する（新たな API 呼び出しはしない）
+        // 一覧のクエリ（["projects", { page, ... }]）だけを対象にし、詳細・メンバーなど形式の異なるクエリは除く
+        const cached = queryClient
+          .getQueriesData<ProjectsOutput>({ queryKey: ["projects"], predicate: ({ queryKey }) => typeof queryKey[1] === "object" })
+          .flatMap(([, data]) => data?.data ?? []);
+        const projects = Array.from(new Map(cached.map((project) => [project.id, project])).values());
+
+        return projects.slice(0, PROJECT_SEARCH_LIMIT).map(toProjectCommand);
+      }
+
+      const result = await queryClient.fetchQuery(getProjectsQueryOptions({ q: query, size: PROJECT_SEARCH_LIMIT }));
+
+      return result.data.map(toProjectCommand);
+    },
+    [queryClient]
+  );
+
+  useRegisterCommands("projects", commands);
+  useRegisterCommandSearch("projects", search);
+};
+
+type UseCurrentProjectCommandsOptions = {
+  /** 表示中のプロジェクトID */
+  projectId: string;
+  /** 表示中のプロジェクト名（コマンドの補足に表示） */
+  projectName: string;
+};
+
+/**
+ * 表示中のプロジェクトに対する操作をコマンドパレットに登録するフック
+ *
+ * プロジェクト詳細・メンバー管理・設定ページで呼び出し、ページを離れると登録を解除します。
+ * 権限が不足している操作は、遷移先のページで通常どおり制限されます。
+ *
+ * @example
+ * ```tsx
+ * useCurrentProjectCommands({ projectId: project.id, projectName: project.name })
+ * ```
+ */
+export const useCurrentProjectCommands = ({ projectId, projectName }: UseCurrentProjectCommandsOptions) => {
+  const commands = useMemo<PaletteCommand[]>(
+    () => [
+      {
+        id: "current-project:add-member",
+        title: "このプロジェクトにメンバーを追加",
+        group: PROJECT_COMMAND_GROUPS.CURRENT_PROJECT,
+        description: projectName,
+        keywords: ["add member", "招待"],
+        href: `${paths.projects.members.getHref(projectId)}?action=add-member`,
+      },
+      {
+        id: "current-project:detail",
+        title: "プロジェクト詳細",
+        group: PROJECT_COMMAND_GROUPS.CURRENT_PROJECT,
+        description: projectName,
+        href: paths.projects.detail.getHref(projectId),
+      },
+      {
+        id: "current-project:members",
+        title: "メンバー管理",
+        group: PROJECT_COMMAND_GROUPS.CURRENT_PROJECT,
+        description: projectName,
+        keywords: ["members"],
+        href: paths.projects.members.getHref(projectId),
+      },
+      {
+        id: "current-project:settings",
+        title: "プロジェクト設定",
+        group: PROJECT_COMMAND_GROUPS.CURRENT_PROJECT,
+        description: projectName,
+        keywords: ["settings"],
+        href: paths.projects.settings.getHref(projectId),
+      },
+    ],
+    [projectId, projectName]
+  );
+
+  useRegisterCommands("current-project", commands);
+};
@@ -1,4 +1,5 @@
 export * from "./api";
 export * from "./components";
+export * from "./hooks";
 export * from "./routes";
 export * from "./types";
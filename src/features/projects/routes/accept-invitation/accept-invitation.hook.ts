@@ -0,0 +1,74 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { paths } from "@/config/paths";
+import { ApiError } from "@/lib/api-error";
+
+import { useAcceptInvitation, useInvitation } from "../../api";
+import { PROJECT_MESSAGES } from "../../constants/messages";
+
+type UseAcceptInvitationOptions = {
+  token: string;
+};
+
+/**
+ * 招待承諾ページのビジネスロジックフック
+ *
+ * 招待トークンから招待内容を取得し、承諾するとプロジェクト詳細へ遷移します。
+ * 承諾に失敗した場合（期限切れ・別のメールアドレス宛てなど）は、APIのエラー内容を acceptError として返します。
+ *
+ * @param token 招待トークン
+ *
+ * @example
+ * ```tsx
+ * const { invitation, handleAccept, acceptError, isAccepting } = useAcceptInvitationLogic({ token });
+ * ```
+ */
+export const useAcceptInvitationLogic = ({ token }: UseAcceptInvitationOptions) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const router = useRouter();
+  const { data } = useInvitation({ token });
+  const acceptMutation = useAcceptInvitation();
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * 招待を承諾してプロジェクト詳細へ遷移
+   */
+  const handleAccept = () => {
+    setAcceptError(null);
+    acceptMutation
+      .mutateAsync({ token })
+      .then(({ data: member }) => {
+        router.push(`/projects/${member.project_id}`);
+      })
+      .catch((error: unknown) => {
+        setAcceptError(error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.INVITATION_ACCEPT_FAILED);
+      });
+  };
+
+  /**
+   * ホームへ戻る
+   */
+  const handleBackToHome = () => {
+    router.push(paths.home.getHref());
+  };
+
+  return {
+    invitation: data.data,
+    acceptError,
+    isAccepting: acceptMutation.isPending,
+    handleAccept,
+    handleBackToHome,
+  };
+};
@@ -0,0 +1,140 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, userEvent, within } from "@storybook/test";
+import { http, HttpResponse } from "msw";
+
+import AcceptInvitation from "./accept-invitation";
+
+/**
+ * 招待内容のモックデータ
+ */
+const mockInvitation = {
+  id: "invitation-1",
+  project_id: "project-4",
+  email: "dev.user@example.com",
+  role: "member",
+  status: "pending",
+  invited_by: {
+    id: "user-5",
+    azure_oid: "azure-oid-5",
+    email: "admin@example.com",
+    display_name: "山田 管理者",
+    roles: ["system_admin"],
+    is_active: true,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    last_login: null,
+  },
+  expires_at: "2099-12-31T00:00:00Z",
+  created_at: "2024-05-01T00:00:00Z",
+  updated_at: "2024-05-01T00:00:00Z",
+  project: {
+    id: "project-4",
+    name: "データ基盤構築",
+    description: "分析基盤の構築",
+    is_active: true,
+    created_at: "2024-01-05T00:00:00Z",
+    updated_at: "2024-04-20T00:00:00Z",
+    created_by: "user-5",
+    deleted_at: null,
+  },
+};
+
+/**
+ * AcceptInvitationコンポーネントのストーリー
+ *
+ * 招待メールのURLから開く招待承諾ページ。
+ */
+const meta = {
+  title: "features/projects/routes/accept-invitation/AcceptInvitation",
+  component: AcceptInvitation,
+  parameters: {
+    layout: "fullscreen",
+    nextjs: {
+      appDirectory: true,
+      navigation: {
+        pathname: "/invitations/invite-token",
+        segments: [["token", "invite-token"]],
+      },
+    },
+    docs: {
+      description: {
+        component:
+          "プロジェクトへの招待を承諾するページコンポーネント。\n\n" +
+          "**主な機能:**\n" +
+          "- 招待先プロジェクト・ロール・招待者・有効期限の表示\n" +
+          "- 招待の承諾（参加後はプロジェクト詳細へ遷移）\n" +
+          "- 期限切れ・取り消し済み・承諾済みの招待では理由を表示",
+      },
+    },
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof AcceptInvitation>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * 承諾待ちの招待
+ */
+export const Pending: Story = {
+  parameters: {
+    msw: {
+      handlers: [http.get("*/api/v1/invitations/invite-token", () => HttpResponse.json({ data: mockInvitation }))],
+    },
+  },
+};
+
+/**
+ * 期限切れの招待
+ */
+export const Expired: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        http.get("*/api/v1/invitations/invite-token", () =>
+          HttpResponse.json({ data: { ...mockInvitation, status: "expired", expires_at: "2024-05-08T00:00:00Z" } })
+        ),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText(/有効期限が切れています/)).toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: /招待を承諾して参加/ })).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * 別のメールアドレス宛ての招待を承諾しようとした場合
+ */
+export const AcceptForbidden: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        http.get("*/api/v1/invitations/invite-token", () =>
+          HttpResponse.json({ data: { ...mockInvitation, email: "someone.else@example.com" } })
+        ),
+        http.post("*/api/v1/invitations/invite-token/accept", () =>
+          HttpResponse.json(
+            {
+              type: "https://api.example.com/problems/forbidden",
+              title: "Forbidden",
+              status: 403,
+              detail: "This invitation was sent to a different email address",
+              instance: "/api/v1/invitations/invite-token/accept",
+            },
+            { status: 403, headers: { "Content-Type": "application/problem+json" } }
+          )
+        ),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("button", { name: /招待を承諾して参加/ }));
+
+    expect(await canvas.findByText("This invitation was sent to a different email address")).toBeInTheDocument();
+  },
+};
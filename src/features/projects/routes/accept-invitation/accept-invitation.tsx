@@ -0,0 +1,75 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { PageHeader } from "@/components/layout/page-header";
+import { PageLayout } from "@/components/layout/page-layout";
+import { Button } from "@/components/sample-ui/button";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+
+import { PROJECT_MESSAGES } from "../../constants/messages";
+import { AcceptInvitationParamsSchema } from "../../types";
+import { useAcceptInvitationLogic } from "./accept-invitation.hook";
+import { InvitationSummary } from "./components";
+
+/**
+ * 招待承諾ページのコンテンツ
+ */
+const AcceptInvitationContent = () => {
+  const params = useParams();
+  const { token } = AcceptInvitationParamsSchema.parse(params);
+  const { invitation, acceptError, isAccepting, handleAccept, handleBackToHome } = useAcceptInvitationLogic({ token });
+
+  const isPending = invitation.status === "pending";
+
+  return (
+    <PageLayout>
+      <PageHeader title="プロジェクトへの招待" />
+
+      <div className="max-w-2xl space-y-4">
+        <InvitationSummary invitation={invitation} />
+
+        {invitation.status !== "pending" && <ErrorMessage message={PROJECT_MESSAGES.INVITATION_UNAVAILABLE[invitation.status]} />}
+        {acceptError !== null && <ErrorMessage message={acceptError} />}
+
+        <div className="flex gap-2">
+          {isPending && (
+            <Button onClick={handleAccept} disabled={isAccepting}>
+              {isAccepting ? "参加しています..." : "招待を承諾して参加"}
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleBackToHome} disabled={isAccepting}>
+            ホームに戻る
+          </Button>
+        </div>
+      </div>
+    </PageLayout>
+  );
+};
+
+/**
+ * 招待承諾ページコンポーネント
+ *
+ * 招待メールのURL（/invitations/[token]）から開き、サインイン中のユーザーをプロジェクトに参加させます。
+ * 取り消し済み・期限切れ・承諾済みの招待では、承諾できない理由を表示します。
+ *
+ * @example
+ * ```tsx
+ * <AcceptInvitation />
+ * ```
+ */
+const AcceptInvitation = () => {
+  return (
+    <ErrorBoundary FallbackComponent={MainErrorFallback}>
+      <Suspense fallback={<LoadingSpinner fullScreen />}>
+        <AcceptInvitationContent />
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
+
+export default AcceptInvitation;
@@ -0,0 +1,49 @@
+"use client";
+
+import { format } from "date-fns";
+
+import { RoleBadge } from "../../../components/role-badge";
+import type { InvitationDetail } from "../../../types";
+
+type InvitationSummaryProps = {
+  invitation: InvitationDetail;
+};
+
+/**
+ * 招待内容表示コンポーネント
+ *
+ * 招待先プロジェクト、付与されるロール、招待者、有効期限をカード形式で表示します。
+ *
+ * @example
+ * ```tsx
+ * <InvitationSummary invitation={invitation} />
+ * ```
+ */
+export const InvitationSummary = ({ invitation }: InvitationSummaryProps) => {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900">{invitation.project.name}</h2>
+      {invitation.project.description !== null && <p className="mt-1 text-sm text-gray-500">{invitation.project.description}</p>}
+      <dl className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <dt className="text-sm font-medium text-gray-500">ロール</dt>
+          <dd className="mt-1">
+            <RoleBadge role={invitation.role} />
+          </dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">招待先メールアドレス</dt>
+          <dd className="mt-1 text-sm text-gray-900">{invitation.email}</dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">招待者</dt>
+          <dd className="mt-1 text-sm text-gray-900">{invitation.invited_by?.display_name ?? "N/A"}</dd>
+        </div>
+        <div>
+          <dt className="text-sm font-medium text-gray-500">有効期限</dt>
+          <dd className="mt-1 text-sm text-gray-900">{format(new Date(invitation.expires_at), "yyyy/MM/dd HH:mm")}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
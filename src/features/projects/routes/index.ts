@@ -1,3 +1,5 @@
+export * from "./accept-invitation";
 export * from "./project-detail";
 export * from "./project-members";
+export * from "./project-settings";
 export * from "./projects-list";
@@ -7,12 +7,12 @@ import { useForm } from "react-hook-form";
 import { Button } from "@/components/sample-ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
 import { ErrorMessage } from "@/components/sample-ui/error-message";
-import {
-  ControlledCheckboxField,
-  ControlledInputField,
-  ControlledTextareaField,
-} from "@/components/sample-ui/form-field/controlled-form-field";
+import { ControlledInputField, ControlledTextareaField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { ApiError } from "@/lib/api-error";
+import { setValidationErrors } from "@/lib/form-errors";
 
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { usePermission } from "../../../hooks/use-permission";
 import type { Project } from "../../../types";
 import { type UpdateProjectInput, updateProjectSchema } from "../../../types/forms";
 
@@ -33,6 +33,8 @@ type EditProjectDialogProps = {
  * プロジェクト編集ダイアログコンポーネント
  *
  * プロジェクト情報を編集するためのダイアログ。
+ * project:edit 権限がない場合は更新ボタンを無効化します。
+ * API がバリデーションエラーを返した場合は、該当するフィールドにエラーを表示します。
  * アクセシビリティ対応（キーボードナビゲーション、ARIA属性）を実装しています。
  *
  * @param props - EditProjectDialogコンポーネントのプロパティ
@@ -50,6 +52,8 @@ type EditProjectDialogProps = {
  * ```
  */
 export const EditProjectDialog = ({ isOpen, onClose, project, onUpdate, isUpdating = false }: EditProjectDialogProps) => {
+  const canEdit = usePermission(project.id, "project:edit");
+
   // ================================================================================
   // Form
   // ================================================================================
@@ -58,12 +62,13 @@ export const EditProjectDialog = ({ isOpen, onClose, project, onUpdate, isUpdati
     handleSubmit,
     formState: { errors },
     reset,
+    setError,
+    getValues,
   } = useForm<UpdateProjectInput>({
     resolver: zodResolver(updateProjectSchema),
     defaultValues: {
       name: project.name,
       description: project.description ?? "",
-      is_active: project.is_active,
     },
   });
 
@@ -75,7 +80,6 @@ export const EditProjectDialog = ({ isOpen, onClose, project, onUpdate, isUpdati
     reset({
       name: project.name,
       description: project.description ?? "",
-      is_active: project.is_active,
     });
   }, [project, reset]);
 
@@ -83,12 +87,20 @@ export const EditProjectDialog = ({ isOpen, onClose, project, onUpdate, isUpdati
   // Handlers
   // ================================================================================
   const onSubmit = handleSubmit((data: UpdateProjectInput) => {
+    if (!canEdit) {
+      return;
+    }
+
     onUpdate(data)
       .then(() => {
         onClose();
       })
-      .catch(() => {
-        // エラーハンドリングは親コンポーネントで行う
+      .catch((error: unknown) => {
+        if (!setValidationErrors(error, { setError, getValues })) {
+          setError("root", {
+            message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.UPDATE_FAILED,
+          });
+        }
       });
   });
 
@@ -111,15 +123,13 @@ export const EditProjectDialog = ({ isOpen, onClose, project, onUpdate, isUpdati
             rows={4}
           />
 
-          <ControlledCheckboxField control={control} name="is_active" label="アクティブ" />
-
           {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onClose} disabled={isUpdating}>
               キャンセル
             </Button>
-            <Button type="submit" disabled={isUpdating}>
+            <Button type="submit" disabled={isUpdating || !canEdit}>
               {isUpdating ? "更新中..." : "更新"}
             </Button>
           </DialogFooter>
@@ -1,3 +1,4 @@
-export * from "./delete-project-dialog";
 export * from "./edit-project-dialog";
 export * from "./project-info";
+export * from "./project-lifecycle-banner";
+export * from "./request-access-dialog";
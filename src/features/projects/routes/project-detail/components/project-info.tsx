@@ -4,6 +4,8 @@ import { format } from "date-fns";
 
 import type { Project } from "@/features/projects/types";
 
+import { ProjectStatusBadge } from "../../../components/project-status-badge";
+
 // ================================================================================
 // Props
 // ================================================================================
@@ -24,7 +26,7 @@ type ProjectInfoProps = {
  *
  * 機能:
  * - 基本情報の表示（名前、ステータス、説明）
- * - 詳細情報の表示（作成日時、更新日時、作成者ID、プロジェクトID）
+ * - 詳細情報の表示（作成日時、更新日時、オーナーID、プロジェクトID）
  * - ステータスに応じたバッジ表示
  *
  * @param props - コンポーネントのプロパティ
@@ -52,13 +54,7 @@ export const ProjectInfo = ({ project }: ProjectInfoProps) => {
           <div>
             <dt className="text-sm font-medium text-gray-500">ステータス</dt>
             <dd className="mt-1">
-              <span
-                className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
-                  project.is_active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
-                }`}
-              >
-                {project.is_active ? "アクティブ" : "非アクティブ"}
-              </span>
+              <ProjectStatusBadge project={project} />
             </dd>
           </div>
           <div className="sm:col-span-2">
@@ -83,7 +79,7 @@ export const ProjectInfo = ({ project }: ProjectInfoProps) => {
             <dd className="mt-1 text-sm text-gray-900">{format(new Date(project.updated_at), "yyyy/MM/dd HH:mm")}</dd>
           </div>
           <div>
-            <dt className="text-sm font-medium text-gray-500">作成者ID</dt>
+            <dt className="text-sm font-medium text-gray-500">オーナーID</dt>
             <dd className="mt-1 text-sm text-gray-900">{project.created_by}</dd>
           </div>
           <div>
@@ -0,0 +1,51 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/sample-ui/alert";
+
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import type { Project } from "../../../types";
+import { getDaysUntilPurge, getProjectLifecycleStatus } from "../../../utils/project-lifecycle";
+
+type ProjectLifecycleBannerProps = {
+  /** 表示対象のプロジェクト */
+  project: Project;
+  /** 状態を戻す操作（アーカイブ解除・復元ボタンなど） */
+  action?: ReactNode;
+};
+
+/**
+ * プロジェクトのライフサイクル状態バナーコンポーネント
+ *
+ * アーカイブ済みのプロジェクトには閲覧のみ可能であることを、
+ * ゴミ箱のプロジェクトには完全に削除されるまでの残り日数を表示します。
+ * アクティブなプロジェクトの場合は何も表示しません。
+ *
+ * @param props - ProjectLifecycleBannerコンポーネントのプロパティ
+ * @returns 状態バナー要素
+ *
+ * @example
+ * ```tsx
+ * <ProjectLifecycleBanner project={project} action={<Button onClick={handleUnarchive}>アーカイブを解除</Button>} />
+ * ```
+ */
+export const ProjectLifecycleBanner = ({ project, action }: ProjectLifecycleBannerProps) => {
+  const status = getProjectLifecycleStatus(project);
+
+  if (status === "active") {
+    return null;
+  }
+
+  const isTrashed = status === "trashed";
+
+  return (
+    <Alert variant={isTrashed ? "destructive" : "default"} className="mb-4">
+      <AlertTitle>{isTrashed ? "ゴミ箱のプロジェクト" : "アーカイブ済みのプロジェクト"}</AlertTitle>
+      <AlertDescription>
+        <p>{isTrashed ? PROJECT_MESSAGES.HINTS.trashed(getDaysUntilPurge(project) ?? 0) : PROJECT_MESSAGES.HINTS.ARCHIVED_READ_ONLY}</p>
+        {action !== undefined && <div className="mt-2">{action}</div>}
+      </AlertDescription>
+    </Alert>
+  );
+};
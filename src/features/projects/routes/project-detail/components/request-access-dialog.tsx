@@ -0,0 +1,131 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import { ControlledSelectField, ControlledTextareaField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { ApiError } from "@/lib/api-error";
+
+import { RoleBadge } from "../../../components/role-badge";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import type { ProjectRole } from "../../../types";
+import { type CreateAccessRequestInput, createAccessRequestSchema } from "../../../types/forms";
+import { getRequestableRoles } from "../../../utils/role-hierarchy";
+
+type RequestAccessDialogProps = {
+  /** ダイアログの表示状態 */
+  isOpen: boolean;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 現在のロール */
+  currentRole: ProjectRole;
+  /** リクエスト処理ハンドラー */
+  onRequest: (data: CreateAccessRequestInput) => Promise<void>;
+  /** リクエスト中かどうか */
+  isRequesting: boolean;
+};
+
+/**
+ * 権限リクエストダイアログコンポーネント
+ *
+ * 現在のロールより上位のロールと、リクエストの理由を入力して権限をリクエストします。
+ * リクエストはプロジェクトマネージャー・権限管理者が承認すると、ロールが変更されます。
+ * API がエラーを返した場合は、Problem Details の detail をフォームのエラーとして表示します。
+ *
+ * @example
+ * ```tsx
+ * <RequestAccessDialog
+ *   isOpen={isOpen}
+ *   onClose={() => setIsOpen(false)}
+ *   currentRole="viewer"
+ *   onRequest={handleRequestAccess}
+ *   isRequesting={isRequesting}
+ * />
+ * ```
+ */
+export const RequestAccessDialog = ({ isOpen, onClose, currentRole, onRequest, isRequesting }: RequestAccessDialogProps) => {
+  const requestableRoles = getRequestableRoles(currentRole);
+
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setError,
+    reset,
+  } = useForm<CreateAccessRequestInput>({
+    resolver: zodResolver(createAccessRequestSchema),
+    defaultValues: {
+      // 1つ上のロールを最初に選択しておく
+      requested_role: requestableRoles.at(-1) ?? "project_manager",
+      justification: "",
+    },
+  });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const onSubmit = handleSubmit((data: CreateAccessRequestInput) => {
+    onRequest(data)
+      .then(() => {
+        reset();
+        onClose();
+      })
+      .catch((error: unknown) => {
+        setError("root", {
+          message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.ACCESS_REQUEST_CREATE_FAILED,
+        });
+      });
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>権限をリクエスト</DialogTitle>
+          <DialogDescription>プロジェクトマネージャー・権限管理者にロールの変更を依頼します</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={onSubmit} className="space-y-4">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">現在のロール:</span>
+            <RoleBadge role={currentRole} />
+          </div>
+
+          <ControlledSelectField
+            control={control}
+            name="requested_role"
+            label="リクエストするロール"
+            options={requestableRoles.map((role) => ({ value: role, label: PROJECT_ROLE_LABELS[role] }))}
+            required
+          />
+
+          <ControlledTextareaField
+            control={control}
+            name="justification"
+            label="理由"
+            placeholder="必要な作業や期間など、承認の判断に必要な情報を入力してください"
+            required
+          />
+
+          {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isRequesting}>
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={isRequesting}>
+              {isRequesting ? "送信中..." : "リクエスト"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
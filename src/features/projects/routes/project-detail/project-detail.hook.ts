@@ -1,11 +1,27 @@
 "use client";
 
+import { useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 
-import { useDeleteProject, useProject, useUpdateProject } from "../../api";
+import { paths } from "@/config/paths";
+import { ApiError } from "@/lib/api-error";
+import { waitUnlessQueued } from "@/lib/mutation-queue";
+import { toast } from "@/lib/toast";
+
+import {
+  useCreateAccessRequest,
+  useMyAccessRequest,
+  useProject,
+  useRestoreProject,
+  useUnarchiveProject,
+  useUpdateProject,
+} from "../../api";
 import { PROJECT_MESSAGES } from "../../constants/messages";
-import type { UpdateProjectInput } from "../../types/forms";
+import { useProjectPermissions } from "../../hooks/use-permission";
+import type { CreateAccessRequestInput, UpdateProjectInput } from "../../types/forms";
+import { getProjectLifecycleStatus } from "../../utils/project-lifecycle";
+import { getRequestableRoles } from "../../utils/role-hierarchy";
 
 type UseProjectDetailLogicProps = {
   projectId: string;
@@ -15,7 +31,9 @@ type UseProjectDetailLogicProps = {
  * プロジェクト詳細ページのロジックを管理するカスタムフック
  *
  * API層のuseProjectを呼び出し、ページ固有のビジネスロジック（ナビゲーション）を追加します。
- * プロジェクトの詳細情報表示、一覧への戻る、メンバー管理への遷移を提供します。
+ * プロジェクトの詳細情報表示、一覧への戻る、メンバー管理・設定への遷移を提供します。
+ * アーカイブ解除・ゴミ箱からの復元も提供し、アーカイブ済み・ゴミ箱のプロジェクトは
+ * 閲覧のみ（isReadOnly）として扱います。アーカイブ・オーナー移譲・削除は設定ページで行います。
  *
  * @param projectId - プロジェクトID
  *
@@ -23,10 +41,14 @@ type UseProjectDetailLogicProps = {
  * @returns project - プロジェクト詳細情報
  * @returns handleBackToList - プロジェクト一覧ページへ遷移
  * @returns handleViewMembers - プロジェクトメンバー管理ページへ遷移
+ * @returns handleViewSettings - プロジェクト設定ページへ遷移
  * @returns handleUpdate - プロジェクト更新処理
- * @returns handleDelete - プロジェクト削除処理
- * @returns deleteError - 削除エラーメッセージ
- * @returns isDeleting - 削除中フラグ
+ * @returns handleUnarchive - アーカイブ解除処理
+ * @returns handleRestore - ゴミ箱からの復元処理
+ * @returns lifecycleStatus - ライフサイクル状態（active / archived / trashed）
+ * @returns isReadOnly - 閲覧のみかどうか（アーカイブ済み・ゴミ箱の場合は true）
+ * @returns lifecycleNotice - アーカイブ解除・復元の結果メッセージ
+ * @returns isChangingLifecycle - アーカイブ解除・復元の処理中フラグ
  * @returns isUpdating - 更新中フラグ
  *
  * @example
@@ -35,17 +57,15 @@ type UseProjectDetailLogicProps = {
  *   project,
  *   handleBackToList,
  *   handleViewMembers,
- *   handleEdit,
- *   handleDelete,
- *   deleteError,
- *   isDeleting
+ *   handleViewSettings,
+ *   handleUpdate,
  * } = useProjectDetailLogic({ projectId: 'project-1' })
  *
  * <h1>{project.name}</h1>
  * <button onClick={handleBackToList}>一覧に戻る</button>
  * <button onClick={handleViewMembers}>メンバー管理</button>
+ * <button onClick={handleViewSettings}>設定</button>
  * <button onClick={() => handleUpdate(data)}>更新</button>
- * <button onClick={handleDelete}>削除</button>
  * ```
  */
 export const useProjectDetailLogic = ({ projectId }: UseProjectDetailLogicProps) => {
@@ -53,14 +73,25 @@ export const useProjectDetailLogic = ({ projectId }: UseProjectDetailLogicProps)
   // Hooks
   // ================================================================================
   const router = useRouter();
+  const queryClient = useQueryClient();
   const { data } = useProject({ projectId });
-  const updateProjectMutation = useUpdateProject();
-  const deleteProjectMutation = useDeleteProject();
+  const updateProjectMutation = useUpdateProject({
+    projectId,
+    mutationConfig: { meta: { successMessage: PROJECT_MESSAGES.SUCCESS.UPDATED } },
+  });
+  const unarchiveProjectMutation = useUnarchiveProject();
+  const restoreProjectMutation = useRestoreProject();
 
   // ================================================================================
   // State
   // ================================================================================
-  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [lifecycleNotice, setLifecycleNotice] = useState<{ type: "success" | "error"; message: string } | null>(null);
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const project = data.data;
+  const lifecycleStatus = getProjectLifecycleStatus(project);
 
   // ================================================================================
   // Handlers
@@ -69,14 +100,21 @@ export const useProjectDetailLogic = ({ projectId }: UseProjectDetailLogicProps)
    * プロジェクト一覧ページへ遷移
    */
   const handleBackToList = () => {
-    router.push("/projects");
+    router.push(paths.projects.list.getHref());
   };
 
   /**
    * プロジェクトメンバー管理ページへ遷移
    */
   const handleViewMembers = () => {
-    router.push(`/projects/${projectId}/members`);
+    router.push(paths.projects.members.getHref(projectId));
+  };
+
+  /**
+   * プロジェクト設定ページへ遷移
+   */
+  const handleViewSettings = () => {
+    router.push(paths.projects.settings.getHref(projectId));
   };
 
   /**
@@ -84,43 +122,137 @@ export const useProjectDetailLogic = ({ projectId }: UseProjectDetailLogicProps)
    *
    * 処理フロー:
    * 1. FastAPIにプロジェクト更新リクエスト送信
-   * 2. 成功時: データが自動的に再取得される
+   * 2. 成功時: データが自動的に再取得され、完了をトーストで通知する
+   * 3. 送信待ちになった場合: 再送を待たずに送信待ちをトーストで通知する（再送が成功すると完了を通知する）
    */
   const handleUpdate = async (data: UpdateProjectInput) => {
-    await updateProjectMutation.mutateAsync({ projectId, data });
+    const result = await waitUnlessQueued(queryClient, () => updateProjectMutation.mutateAsync({ projectId, data }));
+
+    if (result === "queued") {
+      toast.show({ title: PROJECT_MESSAGES.SUCCESS.UPDATE_QUEUED });
+    }
   };
 
   /**
-   * プロジェクト削除処理
+   * アーカイブ解除・復元の共通処理
    *
-   * 処理フロー:
-   * 1. FastAPIにプロジェクト削除リクエスト送信
-   * 2. 成功時: プロジェクト一覧ページへ遷移
-   * 3. エラー時: エラーメッセージを状態に保存
+   * 成功・失敗のいずれも lifecycleNotice に結果メッセージを設定します。
    */
-  const handleDelete = () => {
-    setDeleteError(null);
-    deleteProjectMutation
-      .mutateAsync(projectId)
-      .then(() => {
-        router.push("/projects");
-      })
-      .catch((error: Error) => {
-        setDeleteError(error?.message ?? PROJECT_MESSAGES.ERRORS.DELETE_FAILED);
-      });
+  const changeLifecycle = async (mutation: Promise<unknown>, successMessage: string, fallbackError: string) => {
+    setLifecycleNotice(null);
+    await mutation
+      .then(() => setLifecycleNotice({ type: "success", message: successMessage }))
+      .catch((error: unknown) => setLifecycleNotice({ type: "error", message: error instanceof ApiError ? error.message : fallbackError }));
   };
 
+  /**
+   * アーカイブ解除処理
+   */
+  const handleUnarchive = () =>
+    changeLifecycle(
+      unarchiveProjectMutation.mutateAsync({ projectId }),
+      PROJECT_MESSAGES.SUCCESS.projectUnarchived(project.name),
+      PROJECT_MESSAGES.ERRORS.UNARCHIVE_FAILED
+    );
+
+  /**
+   * ゴミ箱からの復元処理
+   */
+  const handleRestore = () =>
+    changeLifecycle(
+      restoreProjectMutation.mutateAsync({ projectId }),
+      PROJECT_MESSAGES.SUCCESS.projectRestored(project.name),
+      PROJECT_MESSAGES.ERRORS.RESTORE_FAILED
+    );
+
   // ================================================================================
   // 戻り値
   // ================================================================================
   return {
-    project: data.data,
+    project,
+    lifecycleStatus,
+    isReadOnly: lifecycleStatus !== "active",
     handleBackToList,
     handleViewMembers,
+    handleViewSettings,
     handleUpdate,
-    handleDelete,
-    deleteError,
-    isDeleting: deleteProjectMutation.isPending,
-    isUpdating: updateProjectMutation.isPending,
+    handleUnarchive,
+    handleRestore,
+    lifecycleNotice,
+    isUpdating: updateProjectMutation.isPending && !updateProjectMutation.isPaused,
+    isChangingLifecycle: unarchiveProjectMutation.isPending || restoreProjectMutation.isPending,
+  };
+};
+
+type UseRequestAccessLogicProps = {
+  projectId: string;
+};
+
+/**
+ * 権限リクエストのロジックを管理するカスタムフック
+ *
+ * ログインユーザーのプロジェクトロールと承認待ちの権限リクエストを取得し、権限リクエストの作成処理を提供します。
+ * リクエストの作成に失敗した場合はエラーをそのまま投げ、ダイアログ側でフォームのエラーとして表示します。
+ *
+ * @param projectId - プロジェクトID
+ *
+ * @returns 権限リクエストの状態と操作関数
+ * @returns projectRole - ログインユーザーのプロジェクトロール（メンバーでない・有効期限切れの場合は null）
+ * @returns canRequestAccess - 権限をリクエストできるかどうか（上位のロールがあり、承認待ちのリクエストがない場合は true）
+ * @returns pendingRequest - 承認待ちの権限リクエスト（ない場合は null）
+ * @returns handleRequestAccess - 権限リクエストの作成処理
+ * @returns requestNotice - 権限リクエストの結果メッセージ
+ * @returns isRequesting - リクエスト中フラグ
+ *
+ * @example
+ * ```tsx
+ * const { projectRole, canRequestAccess, handleRequestAccess } = useRequestAccessLogic({ projectId: 'project-1' })
+ * ```
+ */
+export const useRequestAccessLogic = ({ projectId }: UseRequestAccessLogicProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { projectRole } = useProjectPermissions(projectId);
+  const { data } = useMyAccessRequest({ projectId });
+  const createAccessRequestMutation = useCreateAccessRequest({ projectId });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [requestNotice, setRequestNotice] = useState<string | null>(null);
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const pendingRequest = data.data;
+  const canRequestAccess = projectRole !== null && pendingRequest === null && getRequestableRoles(projectRole).length > 0;
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * 権限リクエストの作成処理
+   *
+   * 処理フロー:
+   * 1. FastAPIに権限リクエスト作成リクエスト送信
+   * 2. 成功時: 自分の承認待ちリクエストが再取得され、結果メッセージを表示
+   */
+  const handleRequestAccess = async (data: CreateAccessRequestInput) => {
+    setRequestNotice(null);
+    await createAccessRequestMutation.mutateAsync(data);
+    setRequestNotice(PROJECT_MESSAGES.SUCCESS.ACCESS_REQUESTED);
+  };
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    projectRole,
+    canRequestAccess,
+    pendingRequest,
+    handleRequestAccess,
+    requestNotice,
+    isRequesting: createAccessRequestMutation.isPending,
   };
 };
@@ -1,14 +1,33 @@
 import type { Meta, StoryObj } from "@storybook/nextjs-vite";
-import { expect, within } from "@storybook/test";
+import { expect, userEvent, within } from "@storybook/test";
 import { delay, http, HttpResponse } from "msw";
 
 import ProjectDetail from "./project-detail";
 
+/**
+ * 自分のメンバー情報を返すハンドラーを生成
+ *
+ * 編集・設定ボタンはロールに応じて表示が切り替わるため、ストーリーごとにロールを指定します。
+ */
+const membershipHandler = (role: string) =>
+  http.get("*/api/v1/projects/:id/members/me", ({ params }) => {
+    return HttpResponse.json({
+      data: {
+        id: "me",
+        project_id: params.id,
+        user_id: "dev-user-uuid",
+        role,
+        joined_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+    });
+  });
+
 /**
  * ProjectDetailコンポーネントのストーリー
  *
  * プロジェクト詳細ページコンポーネント。
- * プロジェクトの詳細情報を表示し、編集・削除・メンバー管理への遷移を提供します。
+ * プロジェクトの詳細情報を表示し、編集・メンバー管理・設定への遷移を提供します。
  *
  * @example
  * ```tsx
@@ -45,12 +64,11 @@ const meta = {
     docs: {
       description: {
         component:
-          "プロジェクトの詳細情報を表示するページコンポーネント。データの読み込み、編集・削除・メンバー管理への遷移が実装されています。\n\n" +
+          "プロジェクトの詳細情報を表示するページコンポーネント。データの読み込み、編集・メンバー管理・設定への遷移が実装されています。\n\n" +
           "**主な機能:**\n" +
           "- プロジェクトデータの読み込み\n" +
           "- プロジェクト情報の表示\n" +
-          "- 編集・削除・メンバー管理ボタン\n" +
-          "- 削除確認ダイアログ\n" +
+          "- 編集・メンバー管理・設定ボタン\n" +
           "- ローディング状態の表示\n" +
           "- エラーハンドリング\n" +
           "- MSWによるAPIモック\n\n" +
@@ -90,6 +108,7 @@ export const Default: Story = {
     },
     msw: {
       handlers: [
+        membershipHandler("project_manager"),
         http.get("*/api/v1/projects/:id", () => {
           return HttpResponse.json({
             data: {
@@ -100,6 +119,7 @@ export const Default: Story = {
               created_at: "2024-01-01T00:00:00Z",
               updated_at: "2024-01-01T00:00:00Z",
               created_by: "user-1",
+              deleted_at: null,
             },
           });
         }),
@@ -140,6 +160,7 @@ export const Loading: Story = {
               created_at: "2024-01-01T00:00:00Z",
               updated_at: "2024-01-01T00:00:00Z",
               created_by: "user-1",
+              deleted_at: null,
             },
           });
         }),
@@ -191,11 +212,11 @@ export const WithError: Story = {
 };
 
 /**
- * 非アクティブなプロジェクト
+ * アーカイブ済みのプロジェクト
  * is_activeがfalseのプロジェクト
  */
 export const InactiveProject: Story = {
-  name: "非アクティブなプロジェクト",
+  name: "アーカイブ済みのプロジェクト",
   parameters: {
     nextjs: {
       navigation: {
@@ -205,11 +226,13 @@ export const InactiveProject: Story = {
     },
     docs: {
       description: {
-        story: "非アクティブなプロジェクトの詳細。is_activeフラグがfalseの場合の表示。",
+        story:
+          "アーカイブ済み（is_activeフラグがfalse）のプロジェクトの詳細。閲覧のみ可能である旨のバナーとアーカイブ解除ボタンが表示され、編集ボタンは表示されません（設定ページには移動できます）。",
       },
     },
     msw: {
       handlers: [
+        membershipHandler("project_manager"),
         http.get("*/api/v1/projects/:id", () => {
           return HttpResponse.json({
             data: {
@@ -220,10 +243,235 @@ export const InactiveProject: Story = {
               created_at: "2024-01-01T00:00:00Z",
               updated_at: "2024-01-10T00:00:00Z",
               created_by: "user-1",
+              deleted_at: null,
+            },
+          });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText("アーカイブ済みのプロジェクト")).toBeInTheDocument();
+    expect(await canvas.findByRole("button", { name: "アーカイブを解除" })).toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: "編集" })).not.toBeInTheDocument();
+    expect(canvas.getByRole("button", { name: "設定" })).toBeInTheDocument();
+  },
+};
+
+/**
+ * ゴミ箱のプロジェクト
+ * deleted_atが設定されたプロジェクト
+ */
+export const TrashedProject: Story = {
+  name: "ゴミ箱のプロジェクト",
+  parameters: {
+    nextjs: {
+      navigation: {
+        pathname: "/projects/5",
+        segments: [["id", "5"]],
+      },
+    },
+    docs: {
+      description: {
+        story: "ゴミ箱に移動したプロジェクトの詳細。完全に削除されるまでの残り日数と復元ボタンが表示され、その他の操作は表示されません。",
+      },
+    },
+    msw: {
+      handlers: [
+        membershipHandler("project_manager"),
+        http.get("*/api/v1/projects/:id", () => {
+          return HttpResponse.json({
+            data: {
+              id: "5",
+              name: "旧社内ポータル",
+              description: "社内ポータルの旧バージョン",
+              is_active: true,
+              created_at: "2023-06-01T00:00:00Z",
+              updated_at: "2023-12-20T00:00:00Z",
+              created_by: "user-1",
+              deleted_at: new Date().toISOString(),
+            },
+          });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText(/30日後に完全に削除されます/)).toBeInTheDocument();
+    expect(await canvas.findByRole("button", { name: "復元" })).toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: "設定" })).not.toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: "編集" })).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * 閲覧者として表示
+ * project:view 権限のみを持つユーザーの表示
+ */
+export const AsViewer: Story = {
+  name: "閲覧者",
+  parameters: {
+    nextjs: {
+      navigation: {
+        pathname: "/projects/1",
+        segments: [["id", "1"]],
+      },
+    },
+    docs: {
+      description: {
+        story: "閲覧者ロールでアクセスした状態。編集・削除・メンバー管理ボタンは表示されず、一覧への戻るボタンのみが表示されます。",
+      },
+    },
+    msw: {
+      handlers: [
+        membershipHandler("viewer"),
+        http.get("*/api/v1/projects/:id", () => {
+          return HttpResponse.json({
+            data: {
+              id: "1",
+              name: "サンプルプロジェクト",
+              description: "プロジェクトの説明",
+              is_active: true,
+              created_at: "2024-01-01T00:00:00Z",
+              updated_at: "2024-01-01T00:00:00Z",
+              created_by: "user-1",
+              deleted_at: null,
             },
           });
         }),
       ],
     },
   },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await canvas.findByRole("button", { name: "一覧に戻る" });
+    expect(canvas.queryByRole("button", { name: "編集" })).not.toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: "メンバー管理" })).not.toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: "設定" })).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * 権限リクエスト
+ * 閲覧者が上位のロールをリクエストできる状態
+ */
+export const RequestAccess: Story = {
+  name: "権限リクエスト",
+  parameters: {
+    nextjs: {
+      navigation: {
+        pathname: "/projects/1",
+        segments: [["id", "1"]],
+      },
+    },
+    docs: {
+      description: {
+        story:
+          "閲覧者ロールでアクセスした状態。「権限をリクエスト」ボタンから、上位のロールと理由を入力してプロジェクトマネージャー・権限管理者に権限をリクエストできます。",
+      },
+    },
+    msw: {
+      handlers: [
+        membershipHandler("viewer"),
+        http.get("*/api/v1/projects/:id", () => {
+          return HttpResponse.json({
+            data: {
+              id: "1",
+              name: "サンプルプロジェクト",
+              description: "プロジェクトの説明",
+              is_active: true,
+              created_at: "2024-01-01T00:00:00Z",
+              updated_at: "2024-01-01T00:00:00Z",
+              created_by: "user-1",
+              deleted_at: null,
+            },
+          });
+        }),
+        http.get("*/api/v1/projects/:id/access-requests/me", () => {
+          return HttpResponse.json({ data: null });
+        }),
+      ],
+    },
+  },
+  // FIXME: @storybook/test v9安定版リリース待ち
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("button", { name: "権限をリクエスト" }));
+
+    const body = within(document.body);
+    expect(await body.findByRole("dialog")).toBeInTheDocument();
+    expect(body.getByText("リクエストするロール")).toBeInTheDocument();
+  },
+  tags: ["skip"],
+};
+
+/**
+ * 承認待ちの権限リクエストがある状態
+ * メンバー管理ボタンに承認待ちの件数が表示された状態
+ */
+export const WithPendingAccessRequests: Story = {
+  name: "承認待ちの権限リクエストあり",
+  parameters: {
+    nextjs: {
+      navigation: {
+        pathname: "/projects/1",
+        segments: [["id", "1"]],
+      },
+    },
+    docs: {
+      description: {
+        story: "メンバーからの権限リクエストが承認待ちの状態。メンバー管理ボタンに承認待ちの件数が表示されます。",
+      },
+    },
+    msw: {
+      handlers: [
+        membershipHandler("project_manager"),
+        http.get("*/api/v1/projects/:id", () => {
+          return HttpResponse.json({
+            data: {
+              id: "1",
+              name: "サンプルプロジェクト",
+              description: "プロジェクトの説明",
+              is_active: true,
+              created_at: "2024-01-01T00:00:00Z",
+              updated_at: "2024-01-01T00:00:00Z",
+              created_by: "user-1",
+              deleted_at: null,
+            },
+          });
+        }),
+        http.get("*/api/v1/projects/:id/access-requests", ({ params }) => {
+          return HttpResponse.json({
+            data: [
+              {
+                id: "access-request-1",
+                project_id: params.id,
+                member_id: "member-3",
+                current_role: "viewer",
+                requested_role: "member",
+                justification: "資料の更新を担当するため",
+                status: "pending",
+                reviewed_by: null,
+                reviewed_at: null,
+                created_at: "2024-10-01T09:00:00Z",
+                updated_at: "2024-10-01T09:00:00Z",
+              },
+            ],
+          });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByLabelText("承認待ちの権限リクエスト 1件")).toBeInTheDocument();
+    expect(canvas.queryByRole("button", { name: "権限をリクエスト" })).not.toBeInTheDocument();
+  },
 };
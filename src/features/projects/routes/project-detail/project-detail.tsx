@@ -8,11 +8,89 @@ import { MainErrorFallback } from "@/components/errors/main";
 import { PageHeader } from "@/components/layout/page-header";
 import { PageLayout } from "@/components/layout/page-layout";
 import { Button } from "@/components/sample-ui/button";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
 import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
 
+import { useAccessRequests } from "../../api";
+import { Can } from "../../components/can";
+import { PROJECT_MESSAGES } from "../../constants/messages";
+import { PROJECT_ROLE_LABELS } from "../../constants/roles";
+import { useCurrentProjectCommands } from "../../hooks/use-project-commands";
 import { ProjectDetailParamsSchema } from "../../types";
-import { DeleteProjectDialog, EditProjectDialog, ProjectInfo } from "./components";
-import { useProjectDetailLogic } from "./project-detail.hook";
+import { EditProjectDialog, ProjectInfo, ProjectLifecycleBanner, RequestAccessDialog } from "./components";
+import { useProjectDetailLogic, useRequestAccessLogic } from "./project-detail.hook";
+
+/**
+ * 承認待ちの権限リクエスト件数のバッジ
+ *
+ * メンバー管理ボタン内に表示します。承認待ちのリクエストがない場合は何も表示しません。
+ */
+const PendingAccessRequestCount = ({ projectId }: { projectId: string }) => {
+  const { data } = useAccessRequests({ projectId });
+  const count = data.data.length;
+
+  if (count === 0) {
+    return null;
+  }
+
+  return (
+    <span
+      className="ml-2 inline-flex min-w-5 items-center justify-center rounded-full bg-amber-500 px-1.5 text-xs font-semibold text-white"
+      aria-label={`承認待ちの権限リクエスト ${count}件`}
+    >
+      {count}
+    </span>
+  );
+};
+
+/**
+ * 権限リクエストの操作
+ *
+ * 現在のロールより上位のロールがある場合に「権限をリクエスト」ボタンを表示します。
+ * 承認待ちのリクエストがある場合は、ボタンの代わりにリクエスト中のロールを表示します。
+ */
+const RequestAccessAction = ({ projectId }: { projectId: string }) => {
+  const { projectRole, canRequestAccess, pendingRequest, handleRequestAccess, requestNotice, isRequesting } = useRequestAccessLogic({
+    projectId,
+  });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [showRequestDialog, setShowRequestDialog] = useState(false);
+
+  if (pendingRequest !== null) {
+    return (
+      <div className="flex flex-col items-end gap-1">
+        <span className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          {PROJECT_MESSAGES.HINTS.accessRequestPending(PROJECT_ROLE_LABELS[pendingRequest.requested_role])}
+        </span>
+        {requestNotice !== null && <p className="text-sm text-green-700">{requestNotice}</p>}
+      </div>
+    );
+  }
+
+  if (!canRequestAccess || projectRole === null) {
+    return null;
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setShowRequestDialog(true)}>
+        権限をリクエスト
+      </Button>
+
+      {/* 権限リクエストダイアログ */}
+      <RequestAccessDialog
+        isOpen={showRequestDialog}
+        onClose={() => setShowRequestDialog(false)}
+        currentRole={projectRole}
+        onRequest={handleRequestAccess}
+        isRequesting={isRequesting}
+      />
+    </>
+  );
+};
 
 /**
  * プロジェクト詳細ページのコンテンツ
@@ -20,23 +98,29 @@ import { useProjectDetailLogic } from "./project-detail.hook";
 const ProjectDetailContent = () => {
   const params = useParams();
   const { id: projectId } = ProjectDetailParamsSchema.parse(params);
-  const { project, handleBackToList, handleViewMembers, handleUpdate, handleDelete, deleteError, isDeleting, isUpdating } =
-    useProjectDetailLogic({
-      projectId,
-    });
+  const {
+    project,
+    lifecycleStatus,
+    isReadOnly,
+    handleBackToList,
+    handleViewMembers,
+    handleViewSettings,
+    handleUpdate,
+    handleUnarchive,
+    handleRestore,
+    lifecycleNotice,
+    isUpdating,
+    isChangingLifecycle,
+  } = useProjectDetailLogic({
+    projectId,
+  });
 
   // ================================================================================
   // State
   // ================================================================================
   const [showEditDialog, setShowEditDialog] = useState(false);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
-  // ================================================================================
-  // Handlers
-  // ================================================================================
-  const confirmDelete = () => {
-    handleDelete();
-  };
+  useCurrentProjectCommands({ projectId, projectName: project.name });
 
   return (
     <PageLayout>
@@ -47,17 +131,69 @@ const ProjectDetailContent = () => {
             <Button variant="outline" onClick={handleBackToList}>
               一覧に戻る
             </Button>
-            <Button variant="outline" onClick={() => setShowEditDialog(true)}>
-              編集
-            </Button>
-            <Button variant="destructive" onClick={() => setShowDeleteDialog(true)} disabled={isDeleting}>
-              削除
-            </Button>
-            <Button onClick={handleViewMembers}>メンバー管理</Button>
+            {/* アーカイブ済み・ゴミ箱のプロジェクトは閲覧のみ */}
+            {!isReadOnly && (
+              <Can projectId={projectId} permission="project:edit">
+                <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+                  編集
+                </Button>
+              </Can>
+            )}
+            {/* アーカイブ・オーナー移譲・ゴミ箱への移動は設定ページで行う */}
+            {lifecycleStatus !== "trashed" && (
+              <Can projectId={projectId} permission="project:manage_settings">
+                <Button variant="outline" onClick={handleViewSettings}>
+                  設定
+                </Button>
+              </Can>
+            )}
+            {/* アーカイブ済み・ゴミ箱のプロジェクトではロールを変更できないため、権限リクエストも行えない */}
+            {!isReadOnly && (
+              <Suspense fallback={null}>
+                <RequestAccessAction projectId={projectId} />
+              </Suspense>
+            )}
+            <Can projectId={projectId} permission="project:manage_members">
+              <Button onClick={handleViewMembers}>
+                メンバー管理
+                <Suspense fallback={null}>
+                  <PendingAccessRequestCount projectId={projectId} />
+                </Suspense>
+              </Button>
+            </Can>
           </div>
         }
       />
 
+      <ProjectLifecycleBanner
+        project={project}
+        action={
+          lifecycleStatus === "trashed" ? (
+            <Can projectId={projectId} permission="project:delete">
+              <Button size="sm" variant="outline" onClick={handleRestore} disabled={isChangingLifecycle}>
+                復元
+              </Button>
+            </Can>
+          ) : (
+            <Can projectId={projectId} permission="project:manage_settings">
+              <Button size="sm" variant="outline" onClick={handleUnarchive} disabled={isChangingLifecycle}>
+                アーカイブを解除
+              </Button>
+            </Can>
+          )
+        }
+      />
+
+      {lifecycleNotice !== null && (
+        <div className="mb-4">
+          {lifecycleNotice.type === "error" ? (
+            <ErrorMessage message={lifecycleNotice.message} />
+          ) : (
+            <p className="text-sm text-green-700">{lifecycleNotice.message}</p>
+          )}
+        </div>
+      )}
+
       <ProjectInfo project={project} />
 
       {/* 編集ダイアログ */}
@@ -68,16 +204,6 @@ const ProjectDetailContent = () => {
         onUpdate={handleUpdate}
         isUpdating={isUpdating}
       />
-
-      {/* 削除確認ダイアログ */}
-      <DeleteProjectDialog
-        isOpen={showDeleteDialog}
-        onClose={() => setShowDeleteDialog(false)}
-        project={project}
-        onDelete={confirmDelete}
-        isDeleting={isDeleting}
-        error={deleteError}
-      />
     </PageLayout>
   );
 };
@@ -86,7 +212,9 @@ const ProjectDetailContent = () => {
  * プロジェクト詳細ページ（Client Component）
  *
  * TanStack QueryのSuspense機能を使用してデータフェッチを行います。
- * プロジェクトの詳細情報を表示し、メンバー管理ページへの遷移を提供します。
+ * プロジェクトの詳細情報を表示し、メンバー管理ページ・設定ページへの遷移を提供します。
+ * アーカイブ済み・ゴミ箱のプロジェクトは閲覧のみとし、アーカイブ解除・復元の操作を表示します。
+ * 上位のロールが必要なメンバーは権限をリクエストでき、メンバー管理ボタンには承認待ちのリクエスト件数を表示します。
  */
 const ProjectDetail = () => {
   return (
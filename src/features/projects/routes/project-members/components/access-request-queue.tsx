@@ -0,0 +1,110 @@
+"use client";
+
+import { Button } from "@/components/sample-ui/button";
+
+import { RoleBadge } from "../../../components/role-badge";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import type { AccessRequest, ProjectRole } from "../../../types";
+
+type AccessRequestQueueProps = {
+  /** 承認待ちの権限リクエスト一覧 */
+  requests: AccessRequest[];
+  /** アクターが付与できるロール（リクエストされたロールが含まれない場合は承認できない） */
+  assignableRoles: readonly ProjectRole[];
+  /** 承認ハンドラー */
+  onApprove: (request: AccessRequest) => void;
+  /** 却下ハンドラー */
+  onDeny: (request: AccessRequest) => void;
+  /** 処理中のリクエストID */
+  processingId?: string | null;
+};
+
+/**
+ * 承認待ちの権限リクエスト一覧コンポーネント
+ *
+ * メンバー管理画面に表示し、メンバーからの権限リクエストを承認・却下します。
+ * 承認するとメンバーのロールがリクエストされたロールに変更されます。
+ * 自分が付与できないロール（自分より上位のロール）へのリクエストは承認できません。
+ *
+ * @example
+ * ```tsx
+ * <AccessRequestQueue requests={requests} assignableRoles={assignableRoles} onApprove={handleApprove} onDeny={handleDeny} />
+ * ```
+ */
+export const AccessRequestQueue = ({ requests, assignableRoles, onApprove, onDeny, processingId = null }: AccessRequestQueueProps) => {
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="access-requests-heading" className="mt-8 space-y-3">
+      <h2 id="access-requests-heading" className="text-lg font-semibold text-gray-900">
+        承認待ちの権限リクエスト（{requests.length}）
+      </h2>
+
+      <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                メンバー
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                ロール
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                理由
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                リクエスト日
+              </th>
+              <th scope="col" className="relative px-6 py-3">
+                <span className="sr-only">操作</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {requests.map((request) => {
+              const isProcessing = processingId === request.id;
+              const isApprovable = assignableRoles.includes(request.requested_role);
+
+              return (
+                <tr key={request.id} className="hover:bg-gray-50">
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                    {request.user?.display_name ?? request.user?.email ?? request.member_id}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm">
+                    <div className="flex items-center gap-2">
+                      <RoleBadge role={request.current_role} />
+                      <span aria-label="から">→</span>
+                      <RoleBadge role={request.requested_role} />
+                    </div>
+                  </td>
+                  <td className="max-w-md px-6 py-4 text-sm text-gray-700">{request.justification}</td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                    {new Date(request.created_at).toLocaleDateString("ja-JP")}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => onApprove(request)}
+                        disabled={isProcessing || !isApprovable}
+                        title={isApprovable ? undefined : PROJECT_MESSAGES.HINTS.ACCESS_REQUEST_NOT_APPROVABLE}
+                      >
+                        承認
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => onDeny(request)} disabled={isProcessing}>
+                        却下
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
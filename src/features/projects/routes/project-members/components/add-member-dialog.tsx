@@ -1,15 +1,22 @@
 "use client";
 
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { Controller, useForm } from "react-hook-form";
 
 import { Button } from "@/components/sample-ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
 import { ErrorMessage } from "@/components/sample-ui/error-message";
-import { ControlledInputField, ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { ControlledDateField, ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { Label } from "@/components/sample-ui/label";
+import { ApiError } from "@/lib/api-error";
 
 import { PROJECT_MESSAGES } from "../../../constants/messages";
-import { type AddProjectMemberInput, addProjectMemberSchema } from "../../../types/forms";
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import { type ProjectRole, projectRoleSchema } from "../../../types";
+import { addProjectMemberFormSchema, type AddProjectMemberFormValues, type AddProjectMemberInput } from "../../../types/forms";
+import { toMembershipExpiresAt } from "../../../utils/membership-expiry";
+import { getInitialRole } from "../../../utils/role-hierarchy";
+import { UserSearchCombobox } from "./user-search-combobox";
 
 type AddMemberDialogProps = {
   /** ダイアログの表示状態 */
@@ -20,13 +27,23 @@ type AddMemberDialogProps = {
   onAdd: (data: AddProjectMemberInput) => Promise<void>;
   /** 追加中かどうか */
   isAdding: boolean;
+  /** 付与できるロール（省略時は全ロール） */
+  assignableRoles?: readonly ProjectRole[];
+  /** 最初に選択しておくロール（付与できない場合は付与できる最下位のロール） */
+  defaultRole?: ProjectRole;
+  /** 既にプロジェクトに参加しているユーザーのID（検索結果でグレーアウトされます） */
+  memberUserIds?: readonly string[];
 };
 
 /**
  * メンバー追加ダイアログコンポーネント
  *
  * プロジェクトに新しいメンバーを追加するためのフォーム。
- * ユーザーIDとロールを入力して追加します。
+ * 表示名・メールアドレスでユーザーを検索して選択し、ロールを指定して追加します。
+ * 業務委託など期間を限って参加するメンバーには、有効期限を指定できます（空欄の場合は期限なし）。
+ * 既にプロジェクトに参加しているユーザーは検索結果でグレーアウトされ、選択できません。
+ * assignableRoles に含まれないロールは選択できません。
+ * API がエラーを返した場合は、Problem Details の detail をフォームのエラーとして表示します。
  * アクセシビリティ対応（キーボードナビゲーション、ARIA属性）を実装しています。
  *
  * @param props - AddMemberDialogコンポーネントのプロパティ
@@ -39,10 +56,19 @@ type AddMemberDialogProps = {
  *   onClose={() => setIsDialogOpen(false)}
  *   onAdd={handleAddMember}
  *   isAdding={isAdding}
+ *   memberUserIds={members.map((member) => member.user_id)}
  * />
  * ```
  */
-export const AddMemberDialog = ({ isOpen, onClose, onAdd, isAdding }: AddMemberDialogProps) => {
+export const AddMemberDialog = ({
+  isOpen,
+  onClose,
+  onAdd,
+  isAdding,
+  assignableRoles = projectRoleSchema.options,
+  defaultRole,
+  memberUserIds = [],
+}: AddMemberDialogProps) => {
   // ================================================================================
   // Form
   // ================================================================================
@@ -52,26 +78,27 @@ export const AddMemberDialog = ({ isOpen, onClose, onAdd, isAdding }: AddMemberD
     formState: { errors },
     setError,
     reset,
-  } = useForm<AddProjectMemberInput>({
-    resolver: zodResolver(addProjectMemberSchema),
+  } = useForm<AddProjectMemberFormValues>({
+    resolver: zodResolver(addProjectMemberFormSchema),
     defaultValues: {
       user_id: "",
-      role: "member",
+      role: getInitialRole(assignableRoles, defaultRole),
+      expires_on: "",
     },
   });
 
   // ================================================================================
   // Handlers
   // ================================================================================
-  const onSubmit = handleSubmit((data: AddProjectMemberInput) => {
-    onAdd(data)
+  const onSubmit = handleSubmit(({ expires_on: expiresOn, ...data }: AddProjectMemberFormValues) => {
+    onAdd({ ...data, expires_at: toMembershipExpiresAt(expiresOn) })
       .then(() => {
         reset();
         onClose();
       })
-      .catch(() => {
+      .catch((error: unknown) => {
         setError("root", {
-          message: PROJECT_MESSAGES.ERRORS.MEMBER_ADD_FAILED,
+          message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.MEMBER_ADD_FAILED,
         });
       });
   });
@@ -85,21 +112,45 @@ export const AddMemberDialog = ({ isOpen, onClose, onAdd, isAdding }: AddMemberD
         </DialogHeader>
 
         <form onSubmit={onSubmit} className="space-y-4">
-          <ControlledInputField control={control} name="user_id" label="ユーザーID" placeholder="ユーザーIDを入力" required />
+          <Controller
+            control={control}
+            name="user_id"
+            render={({ field, fieldState }) => (
+              <div className="space-y-2">
+                <Label htmlFor="user_id">
+                  ユーザー
+                  <span className="text-red-500 ml-1">*</span>
+                </Label>
+                <UserSearchCombobox
+                  id="user_id"
+                  value={field.value}
+                  onChange={field.onChange}
+                  memberUserIds={memberUserIds}
+                  isInvalid={fieldState.error !== undefined}
+                  disabled={isAdding}
+                />
+                {fieldState.error && <p className="text-sm text-destructive">{fieldState.error.message}</p>}
+              </div>
+            )}
+          />
 
           <ControlledSelectField
             control={control}
             name="role"
             label="ロール"
-            options={[
-              { value: "project_manager", label: "プロジェクトマネージャー" },
-              { value: "project_moderator", label: "権限管理者" },
-              { value: "member", label: "メンバー" },
-              { value: "viewer", label: "閲覧者" },
-            ]}
+            options={projectRoleSchema.options.map((role) => ({
+              value: role,
+              label: PROJECT_ROLE_LABELS[role],
+              disabled: !assignableRoles.includes(role),
+            }))}
             required
           />
 
+          <div className="space-y-1">
+            <ControlledDateField control={control} name="expires_on" label="有効期限" />
+            <p className="text-sm text-muted-foreground">{PROJECT_MESSAGES.HINTS.MEMBERSHIP_EXPIRY}</p>
+          </div>
+
           {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
 
           <DialogFooter>
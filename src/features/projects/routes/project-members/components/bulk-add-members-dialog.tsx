@@ -0,0 +1,236 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import { ControlledInputField, ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { Label } from "@/components/sample-ui/label";
+import { Textarea } from "@/components/sample-ui/textarea";
+import { ApiError } from "@/lib/api-error";
+
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import { type ProjectRole, projectRoleSchema } from "../../../types";
+import type { BulkAddMembersOutput } from "../../../types/api";
+import { type BulkAddMembersInput, bulkAddMembersSchema } from "../../../types/forms";
+import { getInitialRole } from "../../../utils/role-hierarchy";
+
+type BulkAddMembersDialogProps = {
+  /** ダイアログの表示状態 */
+  isOpen: boolean;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 一括追加処理ハンドラー（追加結果を返す） */
+  onBulkAdd: (data: BulkAddMembersInput) => Promise<BulkAddMembersOutput["data"]>;
+  /** 追加中かどうか */
+  isAdding: boolean;
+  /** 付与できるロール（省略時は全ロール） */
+  assignableRoles?: readonly ProjectRole[];
+  /** 最初に選択しておくロール（付与できない場合は付与できる最下位のロール） */
+  defaultRole?: ProjectRole;
+};
+
+/**
+ * ユーザーID入力欄の文字列を分割（改行・カンマ・空白区切り）
+ */
+const parseUserIds = (text: string) => {
+  return text
+    .split(/[\s,]+/)
+    .map((id) => id.trim())
+    .filter((id) => id !== "");
+};
+
+/**
+ * メンバー一括追加ダイアログコンポーネント
+ *
+ * 複数のユーザーをそれぞれのロールで一度に追加するためのフォーム。
+ * ユーザーIDをまとめて貼り付けて行を追加することもできます。
+ *
+ * 一部のユーザーが追加できなかった場合は、追加できた行をフォームから取り除き、
+ * 追加できなかった行に失敗理由（既にメンバー・無効なユーザーなど）を表示します。
+ * すべての行が追加できた場合はダイアログを閉じます。
+ *
+ * @param props - BulkAddMembersDialogコンポーネントのプロパティ
+ * @returns メンバー一括追加ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <BulkAddMembersDialog
+ *   isOpen={isBulkDialogOpen}
+ *   onClose={() => setIsBulkDialogOpen(false)}
+ *   onBulkAdd={handleBulkAddMembers}
+ *   isAdding={isBulkAdding}
+ *   assignableRoles={assignableRoles}
+ * />
+ * ```
+ */
+export const BulkAddMembersDialog = ({
+  isOpen,
+  onClose,
+  onBulkAdd,
+  isAdding,
+  assignableRoles = projectRoleSchema.options,
+  defaultRole,
+}: BulkAddMembersDialogProps) => {
+  const initialRole = getInitialRole(assignableRoles, defaultRole);
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [pastedIds, setPastedIds] = useState("");
+  const [addedCount, setAddedCount] = useState<number | null>(null);
+
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setError,
+    reset,
+  } = useForm<BulkAddMembersInput>({
+    resolver: zodResolver(bulkAddMembersSchema),
+    defaultValues: {
+      members: [{ user_id: "", role: initialRole }],
+    },
+  });
+
+  const { fields, append, remove, replace } = useFieldArray({ control, name: "members" });
+
+  const roleOptions = projectRoleSchema.options.map((role) => ({
+    value: role,
+    label: PROJECT_ROLE_LABELS[role],
+    disabled: !assignableRoles.includes(role),
+  }));
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleClose = () => {
+    reset();
+    setPastedIds("");
+    setAddedCount(null);
+    onClose();
+  };
+
+  // 貼り付けたユーザーIDを行として追加（空の行は置き換える）
+  const handleImportIds = () => {
+    const rows = parseUserIds(pastedIds).map((userId) => ({ user_id: userId, role: initialRole }));
+    if (rows.length === 0) {
+      return;
+    }
+
+    const emptyIndexes = fields.flatMap((field, index) => (field.user_id === "" ? [index] : []));
+    remove(emptyIndexes);
+    append(rows);
+    setPastedIds("");
+  };
+
+  const onSubmit = handleSubmit((data: BulkAddMembersInput) => {
+    setAddedCount(null);
+
+    onBulkAdd(data)
+      .then(({ added, failed }) => {
+        if (failed.length === 0) {
+          handleClose();
+
+          return;
+        }
+
+        // 追加できなかった行だけを残し、行ごとに失敗理由を表示する
+        setAddedCount(added.length);
+        replace(failed.map((failure) => ({ user_id: failure.user_id, role: failure.role })));
+        failed.forEach((failure, index) => {
+          setError(`members.${index}.user_id`, { message: PROJECT_MESSAGES.BULK_ADD_FAILURES[failure.reason] });
+        });
+      })
+      .catch((error: unknown) => {
+        setError("root", {
+          message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.MEMBER_BULK_ADD_FAILED,
+        });
+      });
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>メンバーをまとめて追加</DialogTitle>
+          <DialogDescription>複数のユーザーをそれぞれのロールでプロジェクトに追加します</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={onSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-user-ids">ユーザーIDをまとめて入力</Label>
+            <div className="flex gap-2">
+              <Textarea
+                id="bulk-user-ids"
+                rows={2}
+                value={pastedIds}
+                onChange={(e) => setPastedIds(e.target.value)}
+                placeholder="改行・カンマ区切りで複数のユーザーIDを入力"
+              />
+              <Button type="button" variant="outline" onClick={handleImportIds} disabled={pastedIds.trim() === ""}>
+                取り込む
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-80 space-y-3 overflow-y-auto">
+            {fields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-[1fr_12rem_auto] items-start gap-2">
+                <ControlledInputField
+                  control={control}
+                  name={`members.${index}.user_id`}
+                  id={`members-${index}-user_id`}
+                  label={`ユーザーID ${index + 1}`}
+                  placeholder="ユーザーIDを入力"
+                  required
+                />
+                <ControlledSelectField control={control} name={`members.${index}.role`} label="ロール" options={roleOptions} required />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="mt-7"
+                  onClick={() => remove(index)}
+                  disabled={fields.length === 1}
+                  aria-label={`${index + 1}行目を削除`}
+                >
+                  削除
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Button type="button" variant="outline" size="sm" onClick={() => append({ user_id: "", role: initialRole })}>
+            行を追加
+          </Button>
+
+          {addedCount !== null && (
+            <p className="text-sm text-muted-foreground">
+              {PROJECT_MESSAGES.SUCCESS.membersBulkAdded(addedCount)}。以下のユーザーは追加できませんでした。
+            </p>
+          )}
+          {errors.members?.root?.message !== undefined && <ErrorMessage message={errors.members.root.message} />}
+          {errors.members?.message !== undefined && <ErrorMessage message={errors.members.message} />}
+          {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isAdding}>
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={isAdding}>
+              {isAdding ? "追加中..." : `${fields.length}人を追加`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
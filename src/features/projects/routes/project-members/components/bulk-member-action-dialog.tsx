@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { logger } from "@/utils/logger";
+
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import type { ProjectMember, ProjectRole } from "../../../types";
+
+/**
+ * 選択したメンバーに対する一括操作
+ */
+export type BulkMemberAction = { type: "change_role"; role: ProjectRole } | { type: "remove" };
+
+/**
+ * 一括操作の結果
+ */
+export type BulkMemberActionResult = {
+  /** 操作できたメンバー */
+  succeeded: ProjectMember[];
+  /** 操作できなかったメンバーと理由 */
+  failed: { member: ProjectMember; message: string }[];
+};
+
+type BulkMemberActionDialogProps = {
+  /** 実行する一括操作（null の場合はダイアログを表示しない） */
+  action: BulkMemberAction | null;
+  /** 対象のメンバー */
+  members: ProjectMember[];
+  /** 一括操作の実行処理 */
+  onConfirm: (action: BulkMemberAction, members: ProjectMember[]) => Promise<BulkMemberActionResult>;
+  /** ダイアログを閉じる処理（結果表示後に閉じた場合は completed が true） */
+  onClose: (completed: boolean) => void;
+};
+
+/**
+ * メンバー一括操作ダイアログコンポーネント
+ *
+ * 実行前に対象メンバーの一覧（ロール変更の場合は変更前後のロール）を確認として表示し、
+ * 実行後は成功・失敗をまとめた結果レポートを表示します。
+ *
+ * @param props - BulkMemberActionDialogコンポーネントのプロパティ
+ * @returns 一括操作ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <BulkMemberActionDialog
+ *   action={{ type: "change_role", role: "viewer" }}
+ *   members={selectedMembers}
+ *   onConfirm={handleBulkAction}
+ *   onClose={(completed) => setBulkAction(null)}
+ * />
+ * ```
+ */
+export const BulkMemberActionDialog = ({ action, members, onConfirm, onClose }: BulkMemberActionDialogProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [result, setResult] = useState<BulkMemberActionResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleClose = () => {
+    if (isSubmitting) {
+      return;
+    }
+    onClose(result !== null);
+    setResult(null);
+  };
+
+  const handleConfirm = () => {
+    if (!action) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    onConfirm(action, members)
+      .then((actionResult) => {
+        setResult(actionResult);
+        setIsSubmitting(false);
+      })
+      .catch((error: unknown) => {
+        // onConfirm は失敗も結果として返すため、通常は到達しない
+        logger.error("メンバーの一括操作に失敗しました", error);
+        setIsSubmitting(false);
+      });
+  };
+
+  if (!action) {
+    return null;
+  }
+
+  const isRemove = action.type === "remove";
+  const title = isRemove ? "メンバーをまとめて削除" : "ロールをまとめて変更";
+  const description = isRemove
+    ? `${members.length}人のメンバーをプロジェクトから削除します`
+    : `${members.length}人のメンバーのロールを「${PROJECT_ROLE_LABELS[action.role]}」に変更します`;
+  const successMessage = (count: number) =>
+    isRemove ? `${count}人のメンバーを削除しました` : `${count}人のメンバーのロールを変更しました`;
+
+  return (
+    <Dialog open onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{result ? "一括操作の結果" : title}</DialogTitle>
+          <DialogDescription>{result ? successMessage(result.succeeded.length) : description}</DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          result.failed.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-red-600">{result.failed.length}人のメンバーは処理できませんでした</p>
+              <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md bg-muted p-4 text-sm">
+                {result.failed.map(({ member, message }) => (
+                  <li key={member.id}>
+                    <span className="font-medium">{member.user?.display_name || member.user_id}</span>: {message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        ) : (
+          <div className="space-y-4">
+            {isRemove && <p className="text-sm text-red-600">この操作は取り消せません。</p>}
+            <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md bg-muted p-4 text-sm">
+              {members.map((member) => (
+                <li key={member.id} className="flex justify-between gap-4">
+                  <span>{member.user?.display_name || member.user_id}</span>
+                  <span className="text-muted-foreground">
+                    {PROJECT_ROLE_LABELS[member.role]}
+                    {!isRemove && ` → ${PROJECT_ROLE_LABELS[action.role]}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={handleClose}>閉じる</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+                キャンセル
+              </Button>
+              <Button variant={isRemove ? "destructive" : "default"} onClick={handleConfirm} disabled={isSubmitting}>
+                {isSubmitting ? "処理中..." : isRemove ? "削除" : "変更"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
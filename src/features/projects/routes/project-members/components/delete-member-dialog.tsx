@@ -3,6 +3,7 @@
 import { Button } from "@/components/sample-ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
 
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
 import type { ProjectMember } from "../../../types";
 
 type DeleteMemberDialogProps = {
@@ -73,7 +74,7 @@ export const DeleteMemberDialog = ({ isOpen, onClose, member, onDelete, isDeleti
               </div>
               <div className="flex">
                 <span className="w-32 font-medium">ロール:</span>
-                <span>{member.role}</span>
+                <span>{PROJECT_ROLE_LABELS[member.role]}</span>
               </div>
             </div>
           </div>
@@ -7,10 +7,13 @@ import { useForm } from "react-hook-form";
 import { Button } from "@/components/sample-ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
 import { ErrorMessage } from "@/components/sample-ui/error-message";
-import { ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { ControlledDateField, ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
 
-import type { ProjectMember, ProjectRole } from "../../../types";
-import { type UpdateMemberRoleInput, updateMemberRoleSchema } from "../../../types/forms";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import { type ProjectMember, type ProjectRole, projectRoleSchema } from "../../../types";
+import { updateMemberRoleFormSchema, type UpdateMemberRoleFormValues, type UpdateMemberRoleInput } from "../../../types/forms";
+import { isMembershipExpired, toMembershipExpiresAt, toMembershipExpiryDate } from "../../../utils/membership-expiry";
 
 type EditRoleDialogProps = {
   /** ダイアログの表示状態 */
@@ -19,8 +22,10 @@ type EditRoleDialogProps = {
   onClose: () => void;
   /** 編集対象のメンバー */
   member: ProjectMember | null;
-  /** ロール更新処理ハンドラー */
-  onUpdate: (memberId: string, newRole: ProjectRole) => void;
+  /** ロール・有効期限の更新処理ハンドラー */
+  onUpdate: (memberId: string, data: UpdateMemberRoleInput) => void;
+  /** 変更先として選択できるロール（省略時は全ロール） */
+  assignableRoles?: readonly ProjectRole[];
   /** 更新中かどうか */
   isUpdating?: boolean;
 };
@@ -28,7 +33,9 @@ type EditRoleDialogProps = {
 /**
  * メンバーロール編集ダイアログコンポーネント
  *
- * プロジェクトメンバーのロールを変更するためのダイアログ。
+ * プロジェクトメンバーのロールとメンバーシップの有効期限を変更するためのダイアログ。
+ * 有効期限が過ぎたメンバーは、期限を延長するか期限なしにすると再び権限を持ちます。
+ * assignableRoles に含まれないロールは選択肢に表示されますが、選択できません。
  * アクセシビリティ対応（キーボードナビゲーション、ARIA属性）を実装しています。
  *
  * @param props - EditRoleDialogコンポーネントのプロパティ
@@ -41,11 +48,19 @@ type EditRoleDialogProps = {
  *   onClose={() => setIsDialogOpen(false)}
  *   member={selectedMember}
  *   onUpdate={handleUpdateRole}
+ *   assignableRoles={["project_moderator", "member", "viewer"]}
  *   isUpdating={isUpdating}
  * />
  * ```
  */
-export const EditRoleDialog = ({ isOpen, onClose, member, onUpdate, isUpdating = false }: EditRoleDialogProps) => {
+export const EditRoleDialog = ({
+  isOpen,
+  onClose,
+  member,
+  onUpdate,
+  assignableRoles = projectRoleSchema.options,
+  isUpdating = false,
+}: EditRoleDialogProps) => {
   // ================================================================================
   // Form
   // ================================================================================
@@ -54,10 +69,11 @@ export const EditRoleDialog = ({ isOpen, onClose, member, onUpdate, isUpdating =
     handleSubmit,
     formState: { errors },
     reset,
-  } = useForm<UpdateMemberRoleInput>({
-    resolver: zodResolver(updateMemberRoleSchema),
+  } = useForm<UpdateMemberRoleFormValues>({
+    resolver: zodResolver(updateMemberRoleFormSchema),
     defaultValues: {
       role: member?.role || "member",
+      expires_on: toMembershipExpiryDate(member?.expires_at),
     },
   });
 
@@ -67,16 +83,16 @@ export const EditRoleDialog = ({ isOpen, onClose, member, onUpdate, isUpdating =
   // メンバーが変更されたらフォームをリセット
   useEffect(() => {
     if (member) {
-      reset({ role: member.role });
+      reset({ role: member.role, expires_on: toMembershipExpiryDate(member.expires_at) });
     }
   }, [member, reset]);
 
   // ================================================================================
   // Handlers
   // ================================================================================
-  const onSubmit = handleSubmit(async (data: UpdateMemberRoleInput) => {
+  const onSubmit = handleSubmit(async (data: UpdateMemberRoleFormValues) => {
     if (member) {
-      onUpdate(member.id, data.role);
+      onUpdate(member.id, { role: data.role, expires_at: toMembershipExpiresAt(data.expires_on) });
       onClose();
     }
   });
@@ -85,6 +101,8 @@ export const EditRoleDialog = ({ isOpen, onClose, member, onUpdate, isUpdating =
     return null;
   }
 
+  const hasRestrictedRoles = assignableRoles.length < projectRoleSchema.options.length;
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent>
@@ -111,14 +129,21 @@ export const EditRoleDialog = ({ isOpen, onClose, member, onUpdate, isUpdating =
             control={control}
             name="role"
             label="新しいロール"
-            options={[
-              { value: "project_manager", label: "プロジェクトマネージャー" },
-              { value: "project_moderator", label: "権限管理者" },
-              { value: "member", label: "メンバー" },
-              { value: "viewer", label: "閲覧者" },
-            ]}
+            options={projectRoleSchema.options.map((role) => ({
+              value: role,
+              label: PROJECT_ROLE_LABELS[role],
+              disabled: !assignableRoles.includes(role),
+            }))}
             required
           />
+          {hasRestrictedRoles && <p className="text-sm text-muted-foreground">{PROJECT_MESSAGES.HINTS.ROLE_NOT_ASSIGNABLE}</p>}
+
+          <div className="space-y-1">
+            <ControlledDateField control={control} name="expires_on" label="有効期限" />
+            <p className="text-sm text-muted-foreground">
+              {isMembershipExpired(member) ? PROJECT_MESSAGES.HINTS.MEMBERSHIP_EXPIRED : PROJECT_MESSAGES.HINTS.MEMBERSHIP_EXPIRY}
+            </p>
+          </div>
 
           {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
 
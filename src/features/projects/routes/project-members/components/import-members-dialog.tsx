@@ -0,0 +1,268 @@
+"use client";
+
+import { type ChangeEvent, useState } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import { Input } from "@/components/sample-ui/input";
+import { Label } from "@/components/sample-ui/label";
+import { logger } from "@/utils/logger";
+
+import { RoleBadge } from "../../../components/role-badge";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import type { MemberImportPreviewEntry } from "../../../utils/member-import";
+import { MemberImportFileError } from "../../../utils/member-spreadsheet";
+
+/**
+ * インポートの反映結果
+ */
+export type MemberImportResult = {
+  /** 追加できたメンバー数 */
+  added: number;
+  /** ロールを変更できたメンバー数 */
+  changed: number;
+  /** 反映できなかった行と理由 */
+  failed: { entry: MemberImportPreviewEntry; message: string }[];
+};
+
+type ImportMembersDialogProps = {
+  /** ダイアログの表示状態 */
+  isOpen: boolean;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** ファイルを読み込み、行ごとの判定結果を返す処理 */
+  onPreview: (file: File) => Promise<MemberImportPreviewEntry[]>;
+  /** 「追加」「ロール変更」の行を反映する処理 */
+  onApply: (entries: MemberImportPreviewEntry[]) => Promise<MemberImportResult>;
+};
+
+/**
+ * 判定結果ごとの表示ラベルと色
+ */
+const KIND_LABELS: Record<MemberImportPreviewEntry["kind"], { label: string; className: string }> = {
+  add: { label: "追加", className: "bg-green-100 text-green-800" },
+  role_change: { label: "ロール変更", className: "bg-blue-100 text-blue-800" },
+  unchanged: { label: "変更なし", className: "bg-gray-100 text-gray-700" },
+  error: { label: "エラー", className: "bg-red-100 text-red-800" },
+};
+
+/**
+ * 判定結果の内容（ロール・変更前後のロール・エラー理由）
+ */
+const EntryDetail = ({ entry }: { entry: MemberImportPreviewEntry }) => {
+  switch (entry.kind) {
+    case "add":
+      return (
+        <span className="flex items-center gap-2">
+          {entry.user.display_name}
+          <RoleBadge role={entry.role} />
+        </span>
+      );
+    case "role_change":
+      return (
+        <span className="flex items-center gap-2">
+          <RoleBadge role={entry.member.role} />
+          <span aria-hidden="true">→</span>
+          <RoleBadge role={entry.role} />
+        </span>
+      );
+    case "unchanged":
+      return <RoleBadge role={entry.role} />;
+    case "error":
+      return <span className="text-red-600">{entry.message}</span>;
+  }
+};
+
+/**
+ * メンバーインポートダイアログコンポーネント
+ *
+ * CSV / Excel ファイル（メールアドレスとロールの組）を選択すると、各行を
+ * 「追加」「ロール変更」「変更なし」「エラー」に分類したプレビューを表示します。
+ * 反映するまでメンバーは変更されず、反映後は成功件数と反映できなかった行を表示します。
+ *
+ * @param props - ImportMembersDialogコンポーネントのプロパティ
+ * @returns メンバーインポートダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <ImportMembersDialog
+ *   isOpen={isImportDialogOpen}
+ *   onClose={() => setIsImportDialogOpen(false)}
+ *   onPreview={handlePreviewImport}
+ *   onApply={handleApplyImport}
+ * />
+ * ```
+ */
+export const ImportMembersDialog = ({ isOpen, onClose, onPreview, onApply }: ImportMembersDialogProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [entries, setEntries] = useState<MemberImportPreviewEntry[] | null>(null);
+  const [result, setResult] = useState<MemberImportResult | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const applicableEntries = (entries ?? []).filter((entry) => entry.kind === "add" || entry.kind === "role_change");
+  const countOf = (kind: MemberImportPreviewEntry["kind"]) => (entries ?? []).filter((entry) => entry.kind === kind).length;
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleClose = () => {
+    if (isApplying) {
+      return;
+    }
+    setEntries(null);
+    setResult(null);
+    setReadError(null);
+    onClose();
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+
+    if (file === undefined) {
+      return;
+    }
+
+    setEntries(null);
+    setReadError(null);
+    setIsReading(true);
+    onPreview(file)
+      .then(setEntries)
+      .catch((error: unknown) => {
+        logger.error("インポートファイルの読み込みに失敗しました", error);
+        setReadError(error instanceof MemberImportFileError ? error.message : PROJECT_MESSAGES.ERRORS.MEMBER_IMPORT_READ_FAILED);
+      })
+      .finally(() => setIsReading(false));
+  };
+
+  const handleApply = () => {
+    setIsApplying(true);
+    onApply(applicableEntries)
+      .then(setResult)
+      .catch((error: unknown) => {
+        // onApply は失敗も結果として返すため、通常は到達しない
+        logger.error("メンバーのインポートに失敗しました", error);
+        setReadError(PROJECT_MESSAGES.ERRORS.MEMBER_IMPORT_FAILED);
+      })
+      .finally(() => setIsApplying(false));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{result ? "インポートの結果" : "メンバーをインポート"}</DialogTitle>
+          <DialogDescription>
+            {result
+              ? PROJECT_MESSAGES.SUCCESS.membersImported(result.added, result.changed)
+              : "メールアドレスとロールを記載した CSV / Excel ファイルを選択してください。反映前に内容を確認できます。"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          result.failed.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-red-600">{result.failed.length}件の行は反映できませんでした</p>
+              <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md bg-muted p-4 text-sm">
+                {result.failed.map(({ entry, message }) => (
+                  <li key={entry.rowNumber}>
+                    <span className="font-medium">
+                      {entry.rowNumber}行目（{entry.email}）
+                    </span>
+                    : {message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="member-import-file">インポートするファイル</Label>
+              <Input
+                id="member-import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={handleFileChange}
+                disabled={isReading || isApplying}
+              />
+              <p className="text-xs text-muted-foreground">
+                1行目に「メールアドレス」「ロール」のヘッダーを付けてください。ロールは表示名（例: メンバー）でも指定できます。
+              </p>
+            </div>
+
+            {isReading && <p className="text-sm text-muted-foreground">読み込み中...</p>}
+            {readError !== null && <ErrorMessage message={readError} />}
+
+            {entries !== null && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  追加 {countOf("add")}件・ロール変更 {countOf("role_change")}件・変更なし {countOf("unchanged")}件・エラー{" "}
+                  {countOf("error")}件
+                </p>
+                <div className="max-h-80 overflow-y-auto rounded-md border">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="sticky top-0 bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                          行
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                          メールアドレス
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                          判定
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                          内容
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 bg-white">
+                      {entries.map((entry) => (
+                        <tr key={entry.rowNumber}>
+                          <td className="whitespace-nowrap px-4 py-2 text-gray-500">{entry.rowNumber}</td>
+                          <td className="whitespace-nowrap px-4 py-2">{entry.email || "（空欄）"}</td>
+                          <td className="whitespace-nowrap px-4 py-2">
+                            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${KIND_LABELS[entry.kind].className}`}>
+                              {KIND_LABELS[entry.kind].label}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2">
+                            <EntryDetail entry={entry} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={handleClose}>閉じる</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose} disabled={isApplying}>
+                キャンセル
+              </Button>
+              <Button onClick={handleApply} disabled={applicableEntries.length === 0 || isApplying}>
+                {isApplying ? "反映中..." : `${applicableEntries.length}件を反映`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,13 @@
+export * from "./access-request-queue";
 export * from "./add-member-dialog";
+export * from "./bulk-add-members-dialog";
+export * from "./bulk-member-action-dialog";
 export * from "./delete-member-dialog";
 export * from "./edit-role-dialog";
+export * from "./import-members-dialog";
+export * from "./invite-member-dialog";
+export * from "./members-bulk-action-bar";
 export * from "./members-table";
+export * from "./pending-invitations";
+export * from "./permission-matrix";
+export * from "./user-search-combobox";
@@ -0,0 +1,142 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import { ControlledInputField, ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { ApiError } from "@/lib/api-error";
+
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import { type ProjectRole, projectRoleSchema } from "../../../types";
+import { type CreateInvitationInput, createInvitationSchema } from "../../../types/forms";
+import { getInitialRole } from "../../../utils/role-hierarchy";
+
+type InviteMemberDialogProps = {
+  /** ダイアログの表示状態 */
+  isOpen: boolean;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 招待処理ハンドラー */
+  onInvite: (data: CreateInvitationInput) => Promise<void>;
+  /** 招待中かどうか */
+  isInviting: boolean;
+  /** 付与できるロール（省略時は全ロール） */
+  assignableRoles?: readonly ProjectRole[];
+  /** 最初に選択しておくロール（付与できない場合は付与できる最下位のロール） */
+  defaultRole?: ProjectRole;
+};
+
+/**
+ * メンバー招待ダイアログコンポーネント
+ *
+ * メールアドレスとロールを指定してプロジェクトに招待します。
+ * まだサインインしたことのないユーザーも招待でき、招待されたユーザーは
+ * メールに記載されたURL（/invitations/[token]）から参加します。
+ *
+ * @param props - InviteMemberDialogコンポーネントのプロパティ
+ * @returns メンバー招待ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <InviteMemberDialog
+ *   isOpen={isInviteDialogOpen}
+ *   onClose={() => setIsInviteDialogOpen(false)}
+ *   onInvite={handleInvite}
+ *   isInviting={isInviting}
+ * />
+ * ```
+ */
+export const InviteMemberDialog = ({
+  isOpen,
+  onClose,
+  onInvite,
+  isInviting,
+  assignableRoles = projectRoleSchema.options,
+  defaultRole,
+}: InviteMemberDialogProps) => {
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setError,
+    reset,
+  } = useForm<CreateInvitationInput>({
+    resolver: zodResolver(createInvitationSchema),
+    defaultValues: {
+      email: "",
+      role: getInitialRole(assignableRoles, defaultRole),
+    },
+  });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const onSubmit = handleSubmit((data: CreateInvitationInput) => {
+    onInvite(data)
+      .then(handleClose)
+      .catch((error: unknown) => {
+        setError("root", {
+          message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.INVITATION_CREATE_FAILED,
+        });
+      });
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>メールで招待</DialogTitle>
+          <DialogDescription>
+            招待メールを送信します。受け取ったユーザーがサインインして承諾すると、プロジェクトに参加します
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={onSubmit} className="space-y-4">
+          <ControlledInputField
+            control={control}
+            name="email"
+            type="email"
+            label="メールアドレス"
+            placeholder="user@example.com"
+            required
+          />
+
+          <ControlledSelectField
+            control={control}
+            name="role"
+            label="ロール"
+            options={projectRoleSchema.options.map((role) => ({
+              value: role,
+              label: PROJECT_ROLE_LABELS[role],
+              disabled: !assignableRoles.includes(role),
+            }))}
+            required
+          />
+
+          {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isInviting}>
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={isInviting}>
+              {isInviting ? "送信中..." : "招待を送信"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/sample-ui/select";
+
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import { type ProjectRole, projectRoleSchema } from "../../../types";
+
+type MembersBulkActionBarProps = {
+  /** 選択中のメンバー数 */
+  selectedCount: number;
+  /** 変更先として選択できるロール */
+  assignableRoles: readonly ProjectRole[];
+  /** ロール一括変更ハンドラー（省略時はロール変更を表示しない） */
+  onChangeRole?: (role: ProjectRole) => void;
+  /** 一括削除ハンドラー（省略時は削除を表示しない） */
+  onRemove?: () => void;
+  /** 選択解除ハンドラー */
+  onClearSelection: () => void;
+};
+
+/**
+ * メンバー一括操作バーコンポーネント
+ *
+ * MembersTable でメンバーを選択している間に表示し、
+ * 選択したメンバーのロール変更・削除を開始します。
+ *
+ * @example
+ * ```tsx
+ * <MembersBulkActionBar
+ *   selectedCount={3}
+ *   assignableRoles={["member", "viewer"]}
+ *   onChangeRole={(role) => setBulkAction({ type: "change_role", role })}
+ *   onRemove={() => setBulkAction({ type: "remove" })}
+ *   onClearSelection={() => setSelectedIds(new Set())}
+ * />
+ * ```
+ */
+export const MembersBulkActionBar = ({
+  selectedCount,
+  assignableRoles,
+  onChangeRole,
+  onRemove,
+  onClearSelection,
+}: MembersBulkActionBarProps) => {
+  const [role, setRole] = useState<ProjectRole | "">("");
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="選択したメンバーの一括操作"
+      className="mb-4 flex flex-wrap items-center gap-3 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3"
+    >
+      <span className="text-sm font-medium text-blue-900">{selectedCount}人を選択中</span>
+
+      {onChangeRole && (
+        <div className="flex items-center gap-2">
+          <Select value={role} onValueChange={(value) => setRole(projectRoleSchema.parse(value))}>
+            <SelectTrigger className="w-48 bg-white" aria-label="変更後のロール">
+              <SelectValue placeholder="ロールを選択" />
+            </SelectTrigger>
+            <SelectContent>
+              {projectRoleSchema.options.map((option) => (
+                <SelectItem key={option} value={option} disabled={!assignableRoles.includes(option)}>
+                  {PROJECT_ROLE_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" disabled={role === ""} onClick={() => role !== "" && onChangeRole(role)}>
+            ロールを変更
+          </Button>
+        </div>
+      )}
+
+      {onRemove && (
+        <Button size="sm" variant="destructive" onClick={onRemove}>
+          プロジェクトから削除
+        </Button>
+      )}
+
+      <Button size="sm" variant="ghost" className="ml-auto" onClick={onClearSelection}>
+        選択を解除
+      </Button>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
 import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, within } from "@storybook/test";
+import { addDays, endOfDay, subDays } from "date-fns";
 
 import { type ProjectMember } from "../../../types";
+import type { UpdateMemberRoleInput } from "../../../types/forms";
+import { getMemberRestriction } from "../../../utils/role-hierarchy";
 import { MembersTable } from "./members-table";
 
 const mockMembers: ProjectMember[] = [
@@ -82,6 +86,16 @@ const mockMembers: ProjectMember[] = [
   },
 ];
 
+/**
+ * 有効期限切れのプロジェクトマネージャー（高橋 三郎）を含むメンバー
+ */
+const membersWithExpiredManager: ProjectMember[] = [
+  mockMembers[0],
+  mockMembers[1],
+  mockMembers[2],
+  { ...mockMembers[3], role: "project_manager", expires_at: subDays(new Date(), 3).toISOString() },
+];
+
 const meta = {
   title: "features/projects/routes/project-members/components/MembersTable",
   component: MembersTable,
@@ -100,7 +114,7 @@ type Story = StoryObj<typeof meta>;
 export const Default: Story = {
   args: {
     members: mockMembers,
-    onRoleChange: (memberId: string, role: string) => console.log("Role changed:", memberId, role),
+    onRoleChange: (memberId: string, data: UpdateMemberRoleInput) => console.log("Role changed:", memberId, data),
     onRemoveMember: (memberId: string) => console.log("Member removed:", memberId),
   },
 };
@@ -140,7 +154,118 @@ export const ReadOnly: Story = {
 export const SingleMember: Story = {
   args: {
     members: [mockMembers[0]],
-    onRoleChange: (memberId: string, role: string) => console.log("Role changed:", memberId, role),
+    onRoleChange: (memberId: string, data: UpdateMemberRoleInput) => console.log("Role changed:", memberId, data),
+    onRemoveMember: (memberId: string) => console.log("Member removed:", memberId),
+  },
+};
+
+/**
+ * 権限管理者（鈴木 花子）として表示
+ *
+ * 上位ロールのプロジェクトマネージャーと自分自身は操作できません。
+ */
+export const AsModerator: Story = {
+  args: {
+    members: mockMembers,
+    onRoleChange: (memberId: string, data: UpdateMemberRoleInput) => console.log("Role changed:", memberId, data),
+    onRemoveMember: (memberId: string) => console.log("Member removed:", memberId),
+    getRestriction: (member) =>
+      getMemberRestriction({
+        actor: { userId: "user-2", projectRole: "project_moderator", isSystemAdmin: false, canManageMembers: true },
+        member,
+        members: mockMembers,
+      }),
+  },
+};
+
+/**
+ * 有効期限のあるメンバー
+ *
+ * 期限が近いメンバーには残り日数、期限切れのメンバーには「期限切れ」のバッジを表示し、期限切れの行はグレーで表示します。
+ */
+export const WithMembershipExpiry: Story = {
+  args: {
+    members: [
+      mockMembers[0],
+      mockMembers[1],
+      { ...mockMembers[2], expires_at: endOfDay(addDays(new Date(), 5)).toISOString() },
+      { ...mockMembers[3], expires_at: subDays(new Date(), 3).toISOString() },
+    ],
+    onRoleChange: (memberId: string, data: UpdateMemberRoleInput) => console.log("Role changed:", memberId, data),
+    onRemoveMember: (memberId: string) => console.log("Member removed:", memberId),
+  },
+};
+
+/**
+ * 最後のプロジェクトマネージャー
+ *
+ * マネージャーが1人だけの場合、そのメンバーは降格・削除できません。
+ */
+export const LastManagerProtected: Story = {
+  args: {
+    members: mockMembers,
+    onRoleChange: (memberId: string, data: UpdateMemberRoleInput) => console.log("Role changed:", memberId, data),
+    onRemoveMember: (memberId: string) => console.log("Member removed:", memberId),
+    getRestriction: (member) =>
+      getMemberRestriction({
+        actor: { userId: "user-1", projectRole: "project_manager", isSystemAdmin: false, canManageMembers: true },
+        member,
+        members: mockMembers,
+      }),
+  },
+};
+
+/**
+ * 有効期限切れのプロジェクトマネージャーがいる場合の最後のマネージャー
+ *
+ * 有効期限切れのマネージャーは数えないため、有効なマネージャー（田中 太郎）は降格・削除できません。
+ * 期限切れのマネージャー（高橋 三郎）は降格・削除できます。
+ */
+export const LastActiveManagerWithExpiredManager: Story = {
+  args: {
+    members: membersWithExpiredManager,
+    onRoleChange: (memberId: string, data: UpdateMemberRoleInput) => console.log("Role changed:", memberId, data),
+    onRemoveMember: (memberId: string) => console.log("Member removed:", memberId),
+    getRestriction: (member) =>
+      getMemberRestriction({
+        actor: { userId: "user-2", projectRole: null, isSystemAdmin: true, canManageMembers: true },
+        member,
+        members: membersWithExpiredManager,
+      }),
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    const [activeManagerRow, , , expiredManagerRow] = canvas.getAllByRole("row").slice(1);
+
+    expect(within(activeManagerRow).getByRole("button", { name: "削除" })).toBeDisabled();
+    expect(within(activeManagerRow).getByRole("button", { name: "編集" })).toBeDisabled();
+    expect(within(expiredManagerRow).getByRole("button", { name: "削除" })).toBeEnabled();
+    expect(within(expiredManagerRow).getByRole("button", { name: "編集" })).toBeEnabled();
+  },
+};
+
+/**
+ * 一括操作あり
+ *
+ * 行を選択すると一括操作バーが表示され、ロール変更・削除をまとめて実行できます。
+ * 結果レポートでは、削除できなかったメンバーとその理由を表示します。
+ */
+export const WithBulkActions: Story = {
+  args: {
+    members: mockMembers,
+    onRoleChange: (memberId: string, data: UpdateMemberRoleInput) => console.log("Role changed:", memberId, data),
     onRemoveMember: (memberId: string) => console.log("Member removed:", memberId),
+    onBulkRoleChange: (members) => Promise.resolve({ succeeded: members, failed: [] }),
+    onBulkRemove: (members) =>
+      Promise.resolve({
+        succeeded: members.slice(1),
+        failed: members.slice(0, 1).map((member) => ({ member, message: "メンバーが見つかりません" })),
+      }),
+    getRestriction: (member) =>
+      getMemberRestriction({
+        actor: { userId: "user-1", projectRole: "project_manager", isSystemAdmin: false, canManageMembers: true },
+        member,
+        members: mockMembers,
+      }),
   },
 };
@@ -3,42 +3,90 @@
 import { useState } from "react";
 
 import { Button } from "@/components/sample-ui/button";
+import { Checkbox } from "@/components/sample-ui/checkbox";
 
+import { MembershipExpiryBadge } from "../../../components/membership-expiry-badge";
 import { RoleBadge } from "../../../components/role-badge";
-import { type ProjectMember, type ProjectRole } from "../../../types";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { type ProjectMember, type ProjectRole, projectRoleSchema } from "../../../types";
+import type { UpdateMemberRoleInput } from "../../../types/forms";
+import { isMembershipExpired } from "../../../utils/membership-expiry";
+import type { MemberRestriction } from "../../../utils/role-hierarchy";
+import { type BulkMemberAction, BulkMemberActionDialog, type BulkMemberActionResult } from "./bulk-member-action-dialog";
 import { DeleteMemberDialog } from "./delete-member-dialog";
 import { EditRoleDialog } from "./edit-role-dialog";
+import { MembersBulkActionBar } from "./members-bulk-action-bar";
 
 type MembersTableProps = {
   members: ProjectMember[];
-  onRoleChange?: (memberId: string, newRole: ProjectRole) => void;
+  onRoleChange?: (memberId: string, data: UpdateMemberRoleInput) => void;
   onRemoveMember?: (memberId: string) => void;
+  onBulkRoleChange?: (members: ProjectMember[], newRole: ProjectRole) => Promise<BulkMemberActionResult>;
+  onBulkRemove?: (members: ProjectMember[]) => Promise<BulkMemberActionResult>;
+  getRestriction?: (member: ProjectMember) => MemberRestriction;
   isLoading?: boolean;
 };
 
 /**
  * プロジェクトメンバー一覧テーブルコンポーネント
  *
+ * onRoleChange / onRemoveMember を渡さない場合は対応する操作ボタンを表示しません。
+ * どちらも渡さない場合は操作列自体を非表示にし、閲覧専用のテーブルになります。
+ * getRestriction を渡した場合は、ロール階層・最後のマネージャー保護に応じて
+ * 操作ボタンを無効化し、その理由を表示します。
+ *
+ * onBulkRoleChange / onBulkRemove を渡した場合は行の選択列を表示し、
+ * 選択したメンバーをまとめてロール変更・削除できます（操作が制限されたメンバーは選択できません）。
+ *
+ * メンバーシップに有効期限があるメンバーには残り日数のバッジを表示し、期限切れのメンバーの行はグレーで表示します。
+ *
  * @param members プロジェクトメンバー一覧
- * @param onRoleChange ロール変更ハンドラー
+ * @param onRoleChange ロール・有効期限の変更ハンドラー
  * @param onRemoveMember メンバー削除ハンドラー
+ * @param onBulkRoleChange ロール一括変更ハンドラー
+ * @param onBulkRemove メンバー一括削除ハンドラー
+ * @param getRestriction メンバーごとの操作制限を返す関数
  * @param isLoading ローディング状態
  *
  * @example
  * ```tsx
  * <MembersTable
  *   members={members}
- *   onRoleChange={(memberId, role) => console.log(memberId, role)}
+ *   onRoleChange={(memberId, data) => console.log(memberId, data)}
  *   onRemoveMember={(memberId) => console.log(memberId)}
  * />
  * ```
  */
-export const MembersTable = ({ members, onRoleChange, onRemoveMember, isLoading = false }: MembersTableProps) => {
+export const MembersTable = ({
+  members,
+  onRoleChange,
+  onRemoveMember,
+  onBulkRoleChange,
+  onBulkRemove,
+  getRestriction,
+  isLoading = false,
+}: MembersTableProps) => {
   // ================================================================================
   // State
   // ================================================================================
   const [editingMember, setEditingMember] = useState<ProjectMember | null>(null);
   const [deletingMember, setDeletingMember] = useState<ProjectMember | null>(null);
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkMemberAction | null>(null);
+
+  const hasActions = !!onRoleChange || !!onRemoveMember;
+  const hasBulkActions = !!onBulkRoleChange || !!onBulkRemove;
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const isSelectable = (member: ProjectMember) => !getRestriction || getRestriction(member).reason === null;
+  const selectableMembers = members.filter(isSelectable);
+  // 一覧の再取得で消えたメンバーは選択から除外する
+  const selectedMembers = selectableMembers.filter((member) => selectedIds.has(member.id));
+  const isAllSelected = selectableMembers.length > 0 && selectedMembers.length === selectableMembers.length;
+  const bulkAssignableRoles =
+    selectedMembers.length > 0 && getRestriction ? getRestriction(selectedMembers[0]).assignableRoles : projectRoleSchema.options;
 
   // ================================================================================
   // Handlers
@@ -51,9 +99,9 @@ export const MembersTable = ({ members, onRoleChange, onRemoveMember, isLoading
     setDeletingMember(member);
   };
 
-  const handleRoleUpdate = (memberId: string, newRole: ProjectRole) => {
+  const handleRoleUpdate = (memberId: string, data: UpdateMemberRoleInput) => {
     if (onRoleChange) {
-      onRoleChange(memberId, newRole);
+      onRoleChange(memberId, data);
     }
   };
 
@@ -63,6 +111,42 @@ export const MembersTable = ({ members, onRoleChange, onRemoveMember, isLoading
     }
   };
 
+  const handleToggleSelect = (memberId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(memberId);
+      } else {
+        next.delete(memberId);
+      }
+
+      return next;
+    });
+  };
+
+  const handleToggleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(selectableMembers.map((member) => member.id)) : new Set());
+  };
+
+  const handleBulkConfirm = (action: BulkMemberAction, targets: ProjectMember[]) => {
+    if (action.type === "remove" && onBulkRemove) {
+      return onBulkRemove(targets);
+    }
+    if (action.type === "change_role" && onBulkRoleChange) {
+      return onBulkRoleChange(targets, action.role);
+    }
+
+    return Promise.resolve<BulkMemberActionResult>({ succeeded: [], failed: [] });
+  };
+
+  // 結果を確認して閉じた場合は選択を解除する
+  const handleBulkClose = (completed: boolean) => {
+    setBulkAction(null);
+    if (completed) {
+      setSelectedIds(new Set());
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -81,10 +165,30 @@ export const MembersTable = ({ members, onRoleChange, onRemoveMember, isLoading
 
   return (
     <>
+      {hasBulkActions && selectedMembers.length > 0 && (
+        <MembersBulkActionBar
+          selectedCount={selectedMembers.length}
+          assignableRoles={bulkAssignableRoles}
+          onChangeRole={onBulkRoleChange ? (role) => setBulkAction({ type: "change_role", role }) : undefined}
+          onRemove={onBulkRemove ? () => setBulkAction({ type: "remove" }) : undefined}
+          onClearSelection={() => setSelectedIds(new Set())}
+        />
+      )}
+
       <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              {hasBulkActions && (
+                <th scope="col" className="w-12 px-6 py-3">
+                  <Checkbox
+                    checked={isAllSelected ? true : selectedMembers.length > 0 ? "indeterminate" : false}
+                    onCheckedChange={(checked) => handleToggleSelectAll(checked === true)}
+                    disabled={selectableMembers.length === 0}
+                    aria-label="すべてのメンバーを選択"
+                  />
+                </th>
+              )}
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
                 ユーザー
               </th>
@@ -97,52 +201,96 @@ export const MembersTable = ({ members, onRoleChange, onRemoveMember, isLoading
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
                 参加日
               </th>
-              <th scope="col" className="relative px-6 py-3">
-                <span className="sr-only">操作</span>
-              </th>
+              {hasActions && (
+                <th scope="col" className="relative px-6 py-3">
+                  <span className="sr-only">操作</span>
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200 bg-white">
-            {members.map((member) => (
-              <tr key={member.id} className="hover:bg-gray-50">
-                <td className="whitespace-nowrap px-6 py-4">
-                  <div className="flex items-center">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{member.user?.display_name || "Unknown User"}</div>
+            {members.map((member) => {
+              const restriction = getRestriction?.(member);
+              const restrictionMessage = restriction?.reason ? PROJECT_MESSAGES.RESTRICTIONS[restriction.reason] : undefined;
+
+              return (
+                <tr key={member.id} className={isMembershipExpired(member) ? "bg-gray-50 text-gray-400" : "hover:bg-gray-50"}>
+                  {hasBulkActions && (
+                    <td className="px-6 py-4">
+                      <Checkbox
+                        checked={selectedIds.has(member.id) && isSelectable(member)}
+                        onCheckedChange={(checked) => handleToggleSelect(member.id, checked === true)}
+                        disabled={!isSelectable(member)}
+                        aria-label={`${member.user?.display_name || member.user_id} を選択`}
+                      />
+                    </td>
+                  )}
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <div className="flex items-center">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{member.user?.display_name || "Unknown User"}</div>
+                      </div>
                     </div>
-                  </div>
-                </td>
-                <td className="whitespace-nowrap px-6 py-4">
-                  <div className="text-sm text-gray-500">{member.user?.email || "N/A"}</div>
-                </td>
-                <td className="whitespace-nowrap px-6 py-4">
-                  <RoleBadge role={member.role} />
-                </td>
-                <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
-                  {new Date(member.joined_at).toLocaleDateString("ja-JP")}
-                </td>
-                <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
-                  <div className="flex justify-end gap-2">
-                    {onRoleChange && (
-                      <Button variant="outline" size="sm" onClick={() => handleEditClick(member)}>
-                        編集
-                      </Button>
-                    )}
-                    {onRemoveMember && (
-                      <Button variant="destructive" size="sm" onClick={() => handleDeleteClick(member)}>
-                        削除
-                      </Button>
-                    )}
-                  </div>
-                </td>
-              </tr>
-            ))}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <div className="text-sm text-gray-500">{member.user?.email || "N/A"}</div>
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <div className="flex items-center gap-2">
+                      <RoleBadge role={member.role} />
+                      <MembershipExpiryBadge member={member} />
+                    </div>
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                    {new Date(member.joined_at).toLocaleDateString("ja-JP")}
+                  </td>
+                  {hasActions && (
+                    <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                      <div className="flex items-center justify-end gap-2">
+                        {restrictionMessage && <span className="text-xs text-gray-500">{restrictionMessage}</span>}
+                        {onRoleChange && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEditClick(member)}
+                            disabled={restriction?.canChangeRole === false}
+                            title={restrictionMessage}
+                          >
+                            編集
+                          </Button>
+                        )}
+                        {onRemoveMember && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDeleteClick(member)}
+                            disabled={restriction?.canRemove === false}
+                            title={restrictionMessage}
+                          >
+                            削除
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
 
       {/* ロール編集ダイアログ */}
-      <EditRoleDialog isOpen={!!editingMember} onClose={() => setEditingMember(null)} member={editingMember} onUpdate={handleRoleUpdate} />
+      <EditRoleDialog
+        isOpen={!!editingMember}
+        onClose={() => setEditingMember(null)}
+        member={editingMember}
+        onUpdate={handleRoleUpdate}
+        assignableRoles={editingMember && getRestriction ? getRestriction(editingMember).assignableRoles : undefined}
+      />
+
+      {/* 一括操作ダイアログ */}
+      <BulkMemberActionDialog action={bulkAction} members={selectedMembers} onConfirm={handleBulkConfirm} onClose={handleBulkClose} />
 
       {/* メンバー削除ダイアログ */}
       <DeleteMemberDialog
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+
+import { RoleBadge } from "../../../components/role-badge";
+import type { ProjectInvitation } from "../../../types";
+
+type PendingInvitationsProps = {
+  /** 承諾待ち・期限切れの招待一覧 */
+  invitations: ProjectInvitation[];
+  /** 招待再送ハンドラー */
+  onResend: (invitation: ProjectInvitation) => void;
+  /** 招待取り消しハンドラー */
+  onRevoke: (invitation: ProjectInvitation) => void;
+  /** 処理中の招待ID */
+  processingId?: string | null;
+};
+
+/**
+ * 承諾待ちの招待一覧コンポーネント
+ *
+ * メンバー管理画面に表示し、招待の再送・取り消しを行います。
+ * 期限切れの招待は再送すると有効期限が延長され、承諾待ちに戻ります。
+ *
+ * @example
+ * ```tsx
+ * <PendingInvitations invitations={invitations} onResend={handleResend} onRevoke={handleRevoke} />
+ * ```
+ */
+export const PendingInvitations = ({ invitations, onResend, onRevoke, processingId = null }: PendingInvitationsProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [revokingInvitation, setRevokingInvitation] = useState<ProjectInvitation | null>(null);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleRevokeConfirm = () => {
+    if (revokingInvitation) {
+      onRevoke(revokingInvitation);
+      setRevokingInvitation(null);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="pending-invitations-heading" className="mt-8 space-y-3">
+      <h2 id="pending-invitations-heading" className="text-lg font-semibold text-gray-900">
+        承諾待ちの招待（{invitations.length}）
+      </h2>
+
+      <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                メールアドレス
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                ロール
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                状態
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                招待者
+              </th>
+              <th scope="col" className="relative px-6 py-3">
+                <span className="sr-only">操作</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {invitations.map((invitation) => {
+              const isExpired = invitation.status === "expired";
+              const isProcessing = processingId === invitation.id;
+
+              return (
+                <tr key={invitation.id} className="hover:bg-gray-50">
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">{invitation.email}</td>
+                  <td className="whitespace-nowrap px-6 py-4">
+                    <RoleBadge role={invitation.role} />
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm">
+                    {isExpired ? (
+                      <span className="text-red-600">期限切れ</span>
+                    ) : (
+                      <span className="text-gray-700">承諾待ち（{new Date(invitation.expires_at).toLocaleDateString("ja-JP")} まで）</span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">{invitation.invited_by?.display_name || "N/A"}</td>
+                  <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => onResend(invitation)} disabled={isProcessing}>
+                        再送
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => setRevokingInvitation(invitation)} disabled={isProcessing}>
+                        取り消し
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 招待取り消し確認ダイアログ */}
+      <Dialog open={!!revokingInvitation} onOpenChange={() => setRevokingInvitation(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>招待を取り消す</DialogTitle>
+            <DialogDescription>
+              {revokingInvitation?.email} への招待を取り消しますか？取り消した招待のURLからは参加できなくなります。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokingInvitation(null)}>
+              キャンセル
+            </Button>
+            <Button variant="destructive" onClick={handleRevokeConfirm}>
+              取り消す
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+
+import { MembershipExpiryBadge } from "../../../components/membership-expiry-badge";
+import { RoleBadge } from "../../../components/role-badge";
+import { PERMISSION_LABELS, PROJECT_ROLE_PERMISSIONS, SYSTEM_ROLE_PERMISSIONS } from "../../../constants/permissions";
+import { PROJECT_ROLE_LABELS, SYSTEM_ROLE_LABELS } from "../../../constants/roles";
+import { type Permission, permissionSchema, type ProjectMember, projectRoleSchema, systemRoleSchema } from "../../../types";
+import { isMembershipExpired } from "../../../utils/membership-expiry";
+import { getPermissionSources, type PermissionSource, toSystemRoles } from "../../../utils/permissions";
+
+/**
+ * 権限マトリクスの表示モード
+ *
+ * - roles: ロール × 権限
+ * - members: メンバー × 権限（権限の付与元を表示）
+ */
+export type PermissionMatrixMode = "roles" | "members";
+
+type PermissionMatrixProps = {
+  /** プロジェクトメンバー一覧 */
+  members: ProjectMember[];
+  /** 初期表示モード */
+  defaultMode?: PermissionMatrixMode;
+};
+
+/**
+ * 権限の付与元の表示名
+ */
+const toSourceLabel = (source: PermissionSource) =>
+  source.kind === "project_role" ? PROJECT_ROLE_LABELS[source.role] : SYSTEM_ROLE_LABELS[source.role];
+
+/**
+ * 表のヘッダーセル
+ */
+const HeaderCell = ({ children }: { children: React.ReactNode }) => (
+  <th scope="col" className="whitespace-nowrap px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+    {children}
+  </th>
+);
+
+/**
+ * ロールが権限を持つかどうかを表示するセル
+ */
+const RoleCell = ({ granted }: { granted: boolean }) => (
+  <td className="px-4 py-3 text-center text-sm">
+    {granted ? (
+      <span className="text-green-700" aria-label="あり">
+        ✓
+      </span>
+    ) : (
+      <span className="text-gray-300" aria-label="なし">
+        —
+      </span>
+    )}
+  </td>
+);
+
+/**
+ * メンバーの権限と付与元を表示するセル
+ *
+ * プロジェクトロールによる権限は緑、システムロールのみによる権限は黄色で表示します。
+ */
+const MemberCell = ({ sources }: { sources: PermissionSource[] }) => {
+  if (sources.length === 0) {
+    return (
+      <td className="px-4 py-3 text-center text-sm">
+        <span className="text-gray-300" aria-label="なし">
+          —
+        </span>
+      </td>
+    );
+  }
+
+  const fromProjectRole = sources.some((source) => source.kind === "project_role");
+  const label = sources.map(toSourceLabel).join("、");
+
+  return (
+    <td className={`px-4 py-3 text-center text-sm ${fromProjectRole ? "bg-green-50" : "bg-amber-50"}`}>
+      <span className={fromProjectRole ? "text-green-700" : "text-amber-700"} title={label} aria-label={`あり（付与元: ${label}）`}>
+        {fromProjectRole ? "✓" : "★"}
+      </span>
+    </td>
+  );
+};
+
+/**
+ * 権限マトリクスコンポーネント
+ *
+ * ロールと権限の対応（constants/permissions）から、ロール × 権限の表と、メンバー × 権限の表を表示します。
+ * APIの権限チェックと同じマッピングから算出するため、表示と実際の権限が食い違うことはありません。
+ * メンバー × 権限の表では、権限がプロジェクトロールによるものか、システムロール（system_admin など）によるものかを区別して表示します。
+ *
+ * @param members プロジェクトメンバー一覧
+ * @param defaultMode 初期表示モード（省略時は roles）
+ *
+ * @example
+ * ```tsx
+ * <PermissionMatrix members={members} />
+ * ```
+ */
+export const PermissionMatrix = ({ members, defaultMode = "roles" }: PermissionMatrixProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [mode, setMode] = useState<PermissionMatrixMode>(defaultMode);
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const permissions: readonly Permission[] = permissionSchema.options;
+
+  return (
+    <section aria-labelledby="permission-matrix-heading" className="mt-8 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 id="permission-matrix-heading" className="text-lg font-semibold text-gray-900">
+          権限マトリクス
+        </h2>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={mode === "roles" ? "default" : "outline"}
+            aria-pressed={mode === "roles"}
+            onClick={() => setMode("roles")}
+          >
+            ロール別
+          </Button>
+          <Button
+            size="sm"
+            variant={mode === "members" ? "default" : "outline"}
+            aria-pressed={mode === "members"}
+            onClick={() => setMode("members")}
+          >
+            メンバー別
+          </Button>
+        </div>
+      </div>
+
+      {mode === "members" && (
+        <ul className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          <li>
+            <span className="mr-1 text-green-700">✓</span>プロジェクトロールによる権限
+          </li>
+          <li>
+            <span className="mr-1 text-amber-700">★</span>システムロールのみによる権限（プロジェクトロールを変更しても失われません）
+          </li>
+        </ul>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <HeaderCell>{mode === "roles" ? "ロール" : "メンバー"}</HeaderCell>
+              {permissions.map((permission) => (
+                <HeaderCell key={permission}>{PERMISSION_LABELS[permission]}</HeaderCell>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {mode === "roles" && (
+              <>
+                {projectRoleSchema.options.map((role) => (
+                  <tr key={role}>
+                    <th scope="row" className="whitespace-nowrap px-4 py-3 text-left text-sm font-normal">
+                      <RoleBadge role={role} />
+                    </th>
+                    {permissions.map((permission) => (
+                      <RoleCell key={permission} granted={PROJECT_ROLE_PERMISSIONS[role].includes(permission)} />
+                    ))}
+                  </tr>
+                ))}
+                {systemRoleSchema.options.map((role) => (
+                  <tr key={role}>
+                    <th scope="row" className="whitespace-nowrap px-4 py-3 text-left text-sm font-normal text-gray-900">
+                      {SYSTEM_ROLE_LABELS[role]}
+                      <span className="ml-1 text-xs text-gray-500">（システムロール）</span>
+                    </th>
+                    {permissions.map((permission) => (
+                      <RoleCell key={permission} granted={SYSTEM_ROLE_PERMISSIONS[role].includes(permission)} />
+                    ))}
+                  </tr>
+                ))}
+              </>
+            )}
+            {mode === "members" &&
+              members.map((member) => {
+                // 有効期限が過ぎたメンバーはプロジェクトロールによる権限を持たない
+                const roles = {
+                  systemRoles: toSystemRoles(member.user?.roles ?? []),
+                  projectRole: isMembershipExpired(member) ? null : member.role,
+                };
+
+                return (
+                  <tr key={member.id}>
+                    <th scope="row" className="whitespace-nowrap px-4 py-3 text-left text-sm font-normal text-gray-900">
+                      <div className="flex items-center gap-2">
+                        <span>{member.user?.display_name ?? member.user?.email ?? member.user_id}</span>
+                        <RoleBadge role={member.role} />
+                        <MembershipExpiryBadge member={member} />
+                      </div>
+                    </th>
+                    {permissions.map((permission) => (
+                      <MemberCell key={permission} sources={getPermissionSources(roles, permission)} />
+                    ))}
+                  </tr>
+                );
+              })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
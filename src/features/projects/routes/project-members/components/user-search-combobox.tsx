@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+
+import { Combobox } from "@/components/sample-ui/combobox";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+
+import { useSearchUsers } from "../../../api/search-users";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import type { User } from "../../../types";
+
+/**
+ * 検索キーワードのデバウンス時間（ミリ秒）
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * アバターに表示するイニシャルを返す
+ *
+ * 表示名がある場合は空白区切りの先頭2語の頭文字、ない場合はメールアドレスの先頭2文字を使用します。
+ */
+const getInitials = (user: User) => {
+  const name = user.display_name?.trim() ?? "";
+
+  if (name === "") {
+    return user.email.slice(0, 2).toUpperCase();
+  }
+
+  return name
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((word) => word.charAt(0).toUpperCase())
+    .join("");
+};
+
+type UserSearchComboboxProps = {
+  /** 入力欄のID（ラベルとの関連付けに使用） */
+  id?: string;
+  /** 選択中のユーザーID（未選択の場合は空文字） */
+  value: string;
+  /** ユーザーの選択・選択解除時のハンドラー（選択解除時は空文字） */
+  onChange: (userId: string) => void;
+  /** 既にプロジェクトに参加しているユーザーのID（グレーアウトされ選択できません） */
+  memberUserIds?: readonly string[];
+  /** バリデーションエラーがあるかどうか */
+  isInvalid?: boolean;
+  /** 無効化するかどうか */
+  disabled?: boolean;
+};
+
+/**
+ * ユーザー検索コンボボックスコンポーネント
+ *
+ * 表示名・メールアドレスでユーザーを検索し、選択したユーザーのIDを返します。
+ * 入力はデバウンスしてから検索し、キーワードが変わると実行中の古いリクエストは中断されます。
+ * 既にプロジェクトに参加しているユーザーはグレーアウトされ、選択できません。
+ *
+ * @param props - UserSearchComboboxコンポーネントのプロパティ
+ * @returns ユーザー検索コンボボックス要素
+ *
+ * @example
+ * ```tsx
+ * <UserSearchCombobox
+ *   value={field.value}
+ *   onChange={field.onChange}
+ *   memberUserIds={members.map((member) => member.user_id)}
+ * />
+ * ```
+ */
+export const UserSearchCombobox = ({ id, value, onChange, memberUserIds = [], isInvalid = false, disabled }: UserSearchComboboxProps) => {
+  const [keyword, setKeyword] = useState("");
+  const debouncedKeyword = useDebouncedValue(keyword, SEARCH_DEBOUNCE_MS);
+  const { data, isFetching } = useSearchUsers({ query: debouncedKeyword });
+
+  const isSearching = keyword.trim() !== "" && (isFetching || keyword !== debouncedKeyword);
+  const users = keyword.trim() === "" ? [] : (data?.data ?? []);
+
+  const options = users.map((user) => {
+    const isMember = memberUserIds.includes(user.id);
+
+    return {
+      value: user.id,
+      label: user.display_name ?? user.email,
+      description: user.email,
+      disabled: isMember,
+      hint: isMember ? PROJECT_MESSAGES.HINTS.ALREADY_MEMBER : undefined,
+      leading: (
+        <span
+          aria-hidden="true"
+          className="flex size-8 shrink-0 items-center justify-center rounded-full bg-gray-200 text-xs font-medium text-gray-700"
+        >
+          {getInitials(user)}
+        </span>
+      ),
+    };
+  });
+
+  return (
+    <Combobox
+      id={id}
+      placeholder="名前またはメールアドレスで検索"
+      inputValue={keyword}
+      onInputValueChange={(next) => {
+        setKeyword(next);
+
+        // 選択後に入力を変更した場合は選択を解除する
+        if (value !== "") {
+          onChange("");
+        }
+      }}
+      options={options}
+      selectedValue={value}
+      onSelect={(option) => {
+        setKeyword(option.label);
+        onChange(option.value);
+      }}
+      isLoading={isSearching}
+      emptyMessage={PROJECT_MESSAGES.HINTS.USER_SEARCH_EMPTY}
+      aria-invalid={isInvalid}
+      disabled={disabled}
+    />
+  );
+};
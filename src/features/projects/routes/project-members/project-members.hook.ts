@@ -1,11 +1,50 @@
 "use client";
 
+// プロジェクト固有の問題の種類（最後のマネージャーなど）をレジストリに登録する
+import "../../constants/problems";
+
 import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { useUser } from "@/features/auth/stores/auth-store";
+import { downloadBlob, generateFilename } from "@/features/sample-file/utils/download-helper";
+import { ApiError } from "@/lib/api-error";
+import { getProblemMessage } from "@/lib/problem-types";
+import { logger } from "@/utils/logger";
 
-import { useAddProjectMember, useProjectMembers, useRemoveProjectMember, useUpdateMemberRole } from "../../api";
+import {
+  lookupUsersByEmail,
+  useAccessRequests,
+  useAddProjectMember,
+  useApproveAccessRequest,
+  useBulkAddMembers,
+  useBulkRemoveMembers,
+  useBulkUpdateRoles,
+  useCreateProjectInvitation,
+  useDenyAccessRequest,
+  useProjectInvitations,
+  useProjectMembers,
+  useProjectSettings,
+  useRemoveProjectMember,
+  useResendProjectInvitation,
+  useRevokeProjectInvitation,
+  useUpdateMemberRole,
+} from "../../api";
 import { useProject } from "../../api/get-project";
-import type { ProjectRole } from "../../types";
-import type { AddProjectMemberInput, UpdateMemberRoleInput } from "../../types/forms";
+import { PROJECT_MESSAGES } from "../../constants/messages";
+import { useProjectPermissions } from "../../hooks/use-permission";
+import type { AccessRequest, ProjectInvitation, ProjectMember, ProjectRole } from "../../types";
+import type { AddProjectMemberInput, BulkAddMembersInput, CreateInvitationInput, UpdateMemberRoleInput } from "../../types/forms";
+import { buildMemberImportPreview, type MemberImportPreviewEntry } from "../../utils/member-import";
+import {
+  generateMembersCsvBlob,
+  generateMembersExcelBlob,
+  type MemberExportFormat,
+  MemberImportFileError,
+  readMemberImportFile,
+} from "../../utils/member-spreadsheet";
+import { canInviteMembers, getAssignableRoles, getMemberRestriction, type RoleActor } from "../../utils/role-hierarchy";
+import type { BulkMemberActionResult, MemberImportResult } from "./components";
 
 type UseProjectMembersOptions = {
   projectId: string;
@@ -14,7 +53,13 @@ type UseProjectMembersOptions = {
 /**
  * プロジェクトメンバー管理のビジネスロジックフック
  *
- * プロジェクトメンバーの取得、追加、ロール更新、削除を行います。
+ * プロジェクトメンバーの取得、追加、ロール更新、削除（それぞれ一括操作を含む）を行います。
+ * メンバー管理権限（project:manage_members）の有無と、ロール階層に基づく
+ * メンバーごとの操作制限（getRestriction）・付与できるロール（assignableRoles）も合わせて返します。
+ * メンバーの招待・追加はプロジェクト設定の招待ポリシーで許可されている場合のみ可能（canInvite）で、
+ * 追加・招待のフォームではプロジェクト設定の既定のロール（defaultRole）を最初に選択します。
+ * ロール更新・削除に失敗した場合は、APIのエラー内容を actionError として返します。
+ * メンバー一覧の CSV / Excel エクスポートと、ファイルからのインポート（プレビュー・反映）も行います。
  *
  * @param projectId プロジェクトID
  *
@@ -25,8 +70,17 @@ type UseProjectMembersOptions = {
  *   isLoading,
  *   handleBackToDetail,
  *   handleAddMember,
+ *   handleBulkAddMembers,
  *   handleUpdateRole,
- *   handleRemoveMember
+ *   handleRemoveMember,
+ *   handleExport,
+ *   handlePreviewImport,
+ *   handleApplyImport,
+ *   canManageMembers,
+ *   canInvite,
+ *   defaultRole,
+ *   getRestriction,
+ *   actionError
  * } = useProjectMembersLogic({ projectId: 'project-123' });
  * ```
  */
@@ -35,6 +89,7 @@ export const useProjectMembersLogic = ({ projectId }: UseProjectMembersOptions)
   // Hooks
   // ================================================================================
   const router = useRouter();
+  const user = useUser();
 
   // プロジェクト情報取得
   const { data: projectData } = useProject({ projectId });
@@ -43,10 +98,64 @@ export const useProjectMembersLogic = ({ projectId }: UseProjectMembersOptions)
   // メンバー一覧取得
   const { data, isLoading } = useProjectMembers({ projectId });
 
+  // プロジェクト設定取得（既定のロール・招待ポリシー）
+  const { data: settingsData } = useProjectSettings({ projectId });
+
+  // 権限
+  const { permissions, projectRole, member: myMember } = useProjectPermissions(projectId);
+  const canManageMembers = permissions.has("project:manage_members");
+
   // ミューテーション
-  const addMemberMutation = useAddProjectMember({ projectId });
-  const updateRoleMutation = useUpdateMemberRole({ projectId });
-  const removeMemberMutation = useRemoveProjectMember({ projectId });
+  const addMemberMutation = useAddProjectMember({
+    projectId,
+    mutationConfig: { meta: { successMessage: PROJECT_MESSAGES.SUCCESS.MEMBER_ADDED } },
+  });
+  const bulkAddMembersMutation = useBulkAddMembers({ projectId });
+  const createInvitationMutation = useCreateProjectInvitation({ projectId });
+  // ロール変更・削除のエラーは actionError で表示するため、トーストは表示しない
+  const updateRoleMutation = useUpdateMemberRole({
+    projectId,
+    mutationConfig: { meta: { successMessage: PROJECT_MESSAGES.SUCCESS.MEMBER_UPDATED, errorMessage: false } },
+  });
+  const removeMemberMutation = useRemoveProjectMember({
+    projectId,
+    mutationConfig: { meta: { successMessage: PROJECT_MESSAGES.SUCCESS.MEMBER_REMOVED, errorMessage: false } },
+  });
+  const bulkUpdateRolesMutation = useBulkUpdateRoles({ projectId });
+  const bulkRemoveMembersMutation = useBulkRemoveMembers({ projectId });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const members = data?.data ?? [];
+
+  const actor: RoleActor = {
+    userId: myMember?.user_id ?? user?.id ?? null,
+    projectRole,
+    isSystemAdmin: permissions.has("system:admin"),
+    canManageMembers,
+  };
+
+  // 追加時に付与できるロール
+  const assignableRoles = getAssignableRoles(actor);
+
+  // 招待ポリシーでメンバーの招待・追加が許可されているか
+  const canInvite = canManageMembers && canInviteMembers(actor, settingsData.data.invite_policy);
+
+  /**
+   * メンバーに対して実行できる操作を取得
+   */
+  const getRestriction = (member: ProjectMember) => getMemberRestriction({ actor, member, members });
+
+  /**
+   * APIエラーを表示用のメッセージに変換（登録された問題の種類のメッセージ、Problem Details の detail の順に優先）
+   */
+  const toActionErrorMessage = (error: unknown, fallback: string) => getProblemMessage(error, fallback);
 
   // ================================================================================
   // Handlers
@@ -63,27 +172,305 @@ export const useProjectMembersLogic = ({ projectId }: UseProjectMembersOptions)
     await addMemberMutation.mutateAsync(data);
   };
 
-  // ロール更新
-  const handleUpdateRole = async (memberId: string, role: ProjectRole) => {
-    const data: UpdateMemberRoleInput = { role };
-    await updateRoleMutation.mutateAsync({ memberId, data });
+  // メンバー一括追加（追加できなかった行は結果の failed に含まれる）
+  const handleBulkAddMembers = async (data: BulkAddMembersInput) => {
+    const result = await bulkAddMembersMutation.mutateAsync(data);
+
+    return result.data;
+  };
+
+  // メールで招待
+  const handleInvite = async (data: CreateInvitationInput) => {
+    await createInvitationMutation.mutateAsync(data);
+  };
+
+  // ロール・有効期限の更新
+  const handleUpdateRole = (memberId: string, data: UpdateMemberRoleInput) => {
+    setActionError(null);
+    updateRoleMutation.mutateAsync({ memberId, data }).catch((error: unknown) => {
+      setActionError(toActionErrorMessage(error, PROJECT_MESSAGES.ERRORS.MEMBER_UPDATE_FAILED));
+    });
   };
 
   // メンバー削除
-  const handleRemoveMember = async (memberId: string) => {
-    await removeMemberMutation.mutateAsync({ memberId });
+  const handleRemoveMember = (memberId: string) => {
+    setActionError(null);
+    removeMemberMutation.mutateAsync({ memberId }).catch((error: unknown) => {
+      setActionError(toActionErrorMessage(error, PROJECT_MESSAGES.ERRORS.MEMBER_REMOVE_FAILED));
+    });
+  };
+
+  // ロール一括更新（APIは全件成功か全件失敗のいずれか）
+  const handleBulkUpdateRoles = (targets: ProjectMember[], role: ProjectRole): Promise<BulkMemberActionResult> => {
+    return bulkUpdateRolesMutation
+      .mutateAsync({ updates: targets.map((member) => ({ member_id: member.id, role })) })
+      .then(({ data: updated }) => ({
+        succeeded: targets.filter((member) => updated.some((m) => m.id === member.id)),
+        failed: [],
+      }))
+      .catch((error: unknown) => {
+        const message = toActionErrorMessage(error, PROJECT_MESSAGES.ERRORS.MEMBER_UPDATE_FAILED);
+
+        return { succeeded: [], failed: targets.map((member) => ({ member, message })) };
+      });
+  };
+
+  // メンバー一括削除（削除できなかったメンバーは理由とともに返る）
+  const handleBulkRemoveMembers = (targets: ProjectMember[]): Promise<BulkMemberActionResult> => {
+    return bulkRemoveMembersMutation
+      .mutateAsync({ member_ids: targets.map((member) => member.id) })
+      .then(({ data: { removed, failed } }) => ({
+        succeeded: targets.filter((member) => removed.includes(member.id)),
+        failed: failed.flatMap((failure) => {
+          const member = targets.find((m) => m.id === failure.member_id);
+          const message =
+            failure.reason === "member_not_found"
+              ? PROJECT_MESSAGES.ERRORS.MEMBER_NOT_FOUND
+              : PROJECT_MESSAGES.RESTRICTIONS[failure.reason];
+
+          return member ? [{ member, message }] : [];
+        }),
+      }))
+      .catch((error: unknown) => {
+        const message = toActionErrorMessage(error, PROJECT_MESSAGES.ERRORS.MEMBER_REMOVE_FAILED);
+
+        return { succeeded: [], failed: targets.map((member) => ({ member, message })) };
+      });
+  };
+
+  // メンバー一覧のエクスポート
+  const handleExport = (exportFormat: MemberExportFormat) => {
+    setActionError(null);
+    const blob = exportFormat === "csv" ? Promise.resolve(generateMembersCsvBlob(members)) : generateMembersExcelBlob(members);
+    blob
+      .then((file) => downloadBlob(file, generateFilename(`project_members_${projectId}`, exportFormat)))
+      .catch((error: unknown) => {
+        logger.error("メンバー一覧のエクスポートに失敗しました", error);
+        setActionError(PROJECT_MESSAGES.ERRORS.MEMBER_EXPORT_FAILED);
+      });
+  };
+
+  /**
+   * インポートファイルを読み込み、行ごとの判定結果（プレビュー）を返す
+   *
+   * 参加済みでないメールアドレスだけをユーザー照会APIで解決します。
+   * ファイルを読み込めない場合は、表示用のメッセージを持つ MemberImportFileError を投げます。
+   */
+  const handlePreviewImport = async (file: File): Promise<MemberImportPreviewEntry[]> => {
+    const rows = await readMemberImportFile(file).catch((error: unknown) => {
+      throw error instanceof MemberImportFileError ? error : new MemberImportFileError(PROJECT_MESSAGES.ERRORS.MEMBER_IMPORT_READ_FAILED);
+    });
+    const memberEmails = new Set(members.map((member) => member.user?.email.toLowerCase()));
+    const emails = [...new Set(rows.map((row) => row.email.toLowerCase()))].filter((email) => email !== "" && !memberEmails.has(email));
+    const users = emails.length > 0 ? (await lookupUsersByEmail({ emails })).data : [];
+
+    return buildMemberImportPreview({ rows, members, users, assignableRoles, getRestriction });
+  };
+
+  /**
+   * プレビューで「追加」「ロール変更」と判定された行を反映する
+   *
+   * 追加は一括追加API（行ごとに成否が返る）、ロール変更はロール一括更新API（全件成功か全件失敗）で反映します。
+   * 反映できなかった行は理由とともに結果の failed に含めます。
+   */
+  const handleApplyImport = async (entries: MemberImportPreviewEntry[]): Promise<MemberImportResult> => {
+    const adds = entries.filter((entry) => entry.kind === "add");
+    const roleChanges = entries.filter((entry) => entry.kind === "role_change");
+    const result: MemberImportResult = { added: 0, changed: 0, failed: [] };
+
+    if (adds.length > 0) {
+      await bulkAddMembersMutation
+        .mutateAsync({ members: adds.map((entry) => ({ user_id: entry.user.id, role: entry.role })) })
+        .then(({ data: { added, failed } }) => {
+          result.added = added.length;
+          failed.forEach((failure) => {
+            const entry = adds.find((e) => e.user.id === failure.user_id);
+            if (entry) {
+              result.failed.push({ entry, message: PROJECT_MESSAGES.BULK_ADD_FAILURES[failure.reason] });
+            }
+          });
+        })
+        .catch((error: unknown) => {
+          const message = toActionErrorMessage(error, PROJECT_MESSAGES.ERRORS.MEMBER_IMPORT_FAILED);
+          result.failed.push(...adds.map((entry) => ({ entry, message })));
+        });
+    }
+
+    if (roleChanges.length > 0) {
+      await bulkUpdateRolesMutation
+        .mutateAsync({ updates: roleChanges.map((entry) => ({ member_id: entry.member.id, role: entry.role })) })
+        .then(({ data: updated }) => {
+          result.changed = updated.length;
+        })
+        .catch((error: unknown) => {
+          const message = toActionErrorMessage(error, PROJECT_MESSAGES.ERRORS.MEMBER_UPDATE_FAILED);
+          result.failed.push(...roleChanges.map((entry) => ({ entry, message })));
+        });
+    }
+
+    return result;
   };
 
   return {
     project,
-    members: data?.data ?? [],
+    members,
     isLoading,
+    canManageMembers,
+    canInvite,
+    assignableRoles,
+    defaultRole: settingsData.data.default_member_role,
+    getRestriction,
+    actionError,
     handleBackToDetail,
     isAdding: addMemberMutation.isPending,
+    isBulkAdding: bulkAddMembersMutation.isPending,
+    isInviting: createInvitationMutation.isPending,
     isUpdating: updateRoleMutation.isPending,
     isRemoving: removeMemberMutation.isPending,
     handleAddMember,
+    handleBulkAddMembers,
+    handleInvite,
     handleUpdateRole,
     handleRemoveMember,
+    handleBulkUpdateRoles,
+    handleBulkRemoveMembers,
+    handleExport,
+    handlePreviewImport,
+    handleApplyImport,
+  };
+};
+
+/**
+ * 承諾待ちの招待管理のビジネスロジックフック
+ *
+ * 招待一覧の取得（Suspense）、再送、取り消しを行います。
+ * 招待の閲覧には project:manage_members 権限が必要なため、権限がある場合のみ呼び出してください。
+ *
+ * @param projectId プロジェクトID
+ *
+ * @example
+ * ```tsx
+ * const { invitations, handleResend, handleRevoke, notice } = usePendingInvitationsLogic({ projectId: 'project-123' });
+ * ```
+ */
+export const usePendingInvitationsLogic = ({ projectId }: UseProjectMembersOptions) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data } = useProjectInvitations({ projectId });
+  const resendMutation = useResendProjectInvitation({ projectId });
+  const revokeMutation = useRevokeProjectInvitation({ projectId });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [notice, setNotice] = useState<{ type: "success" | "error"; message: string } | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const toErrorMessage = (error: unknown, fallback: string) => (error instanceof ApiError ? error.message : fallback);
+
+  // 招待の再送（有効期限を延長）
+  const handleResend = async (invitation: ProjectInvitation) => {
+    setNotice(null);
+    setProcessingId(invitation.id);
+    await resendMutation
+      .mutateAsync({ invitationId: invitation.id })
+      .then(() => setNotice({ type: "success", message: PROJECT_MESSAGES.SUCCESS.invitationResent(invitation.email) }))
+      .catch((error: unknown) =>
+        setNotice({ type: "error", message: toErrorMessage(error, PROJECT_MESSAGES.ERRORS.INVITATION_RESEND_FAILED) })
+      )
+      .finally(() => setProcessingId(null));
+  };
+
+  // 招待の取り消し
+  const handleRevoke = async (invitation: ProjectInvitation) => {
+    setNotice(null);
+    setProcessingId(invitation.id);
+    await revokeMutation
+      .mutateAsync({ invitationId: invitation.id })
+      .catch((error: unknown) =>
+        setNotice({ type: "error", message: toErrorMessage(error, PROJECT_MESSAGES.ERRORS.INVITATION_REVOKE_FAILED) })
+      )
+      .finally(() => setProcessingId(null));
+  };
+
+  return {
+    invitations: data.data,
+    notice,
+    processingId,
+    handleResend,
+    handleRevoke,
+  };
+};
+
+/**
+ * 権限リクエストの承認・却下のビジネスロジックフック
+ *
+ * 承認待ちの権限リクエスト一覧の取得（Suspense）、承認、却下を行います。
+ * 承認時のロール変更はメンバーのロール更新と同じ検証を経るため、失敗した場合は API のエラー内容を notice に設定します。
+ * 権限リクエストの閲覧には project:manage_members 権限が必要なため、権限がある場合のみ呼び出してください。
+ *
+ * @param projectId プロジェクトID
+ *
+ * @example
+ * ```tsx
+ * const { requests, handleApprove, handleDeny, notice } = useAccessRequestsLogic({ projectId: 'project-123' });
+ * ```
+ */
+export const useAccessRequestsLogic = ({ projectId }: UseProjectMembersOptions) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data } = useAccessRequests({ projectId });
+  const approveMutation = useApproveAccessRequest({ projectId });
+  const denyMutation = useDenyAccessRequest({ projectId });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [notice, setNotice] = useState<{ type: "success" | "error"; message: string } | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const toErrorMessage = (error: unknown, fallback: string) => (error instanceof ApiError ? error.message : fallback);
+  const toDisplayName = (request: AccessRequest) => request.user?.display_name ?? request.user?.email ?? request.member_id;
+
+  // 権限リクエストの承認（メンバーのロールを変更）
+  const handleApprove = async (request: AccessRequest) => {
+    setNotice(null);
+    setProcessingId(request.id);
+    await approveMutation
+      .mutateAsync({ requestId: request.id })
+      .then(() => setNotice({ type: "success", message: PROJECT_MESSAGES.SUCCESS.accessRequestApproved(toDisplayName(request)) }))
+      .catch((error: unknown) =>
+        setNotice({ type: "error", message: toErrorMessage(error, PROJECT_MESSAGES.ERRORS.ACCESS_REQUEST_APPROVE_FAILED) })
+      )
+      .finally(() => setProcessingId(null));
+  };
+
+  // 権限リクエストの却下
+  const handleDeny = async (request: AccessRequest) => {
+    setNotice(null);
+    setProcessingId(request.id);
+    await denyMutation
+      .mutateAsync({ requestId: request.id })
+      .then(() => setNotice({ type: "success", message: PROJECT_MESSAGES.SUCCESS.accessRequestDenied(toDisplayName(request)) }))
+      .catch((error: unknown) =>
+        setNotice({ type: "error", message: toErrorMessage(error, PROJECT_MESSAGES.ERRORS.ACCESS_REQUEST_DENY_FAILED) })
+      )
+      .finally(() => setProcessingId(null));
+  };
+
+  return {
+    requests: data.data,
+    notice,
+    processingId,
+    handleApprove,
+    handleDeny,
   };
 };
@@ -8,11 +8,67 @@ import { MainErrorFallback } from "@/components/errors/main";
 import { PageHeader } from "@/components/layout/page-header";
 import { PageLayout } from "@/components/layout/page-layout";
 import { Button } from "@/components/sample-ui/button";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
 import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+import { useUrlAction } from "@/hooks/use-url-action";
 
-import { ProjectMembersParamsSchema } from "../../types";
-import { AddMemberDialog, MembersTable } from "./components";
-import { useProjectMembersLogic } from "./project-members.hook";
+import { PROJECT_MESSAGES } from "../../constants/messages";
+import { useCurrentProjectCommands } from "../../hooks/use-project-commands";
+import { ProjectMembersParamsSchema, type ProjectRole } from "../../types";
+import { isMembershipExpired } from "../../utils/membership-expiry";
+import {
+  AccessRequestQueue,
+  AddMemberDialog,
+  BulkAddMembersDialog,
+  ImportMembersDialog,
+  InviteMemberDialog,
+  MembersTable,
+  PendingInvitations,
+  PermissionMatrix,
+} from "./components";
+import { useAccessRequestsLogic, usePendingInvitationsLogic, useProjectMembersLogic } from "./project-members.hook";
+
+/**
+ * 承認待ちの権限リクエストセクション（project:manage_members 権限がある場合のみ表示）
+ */
+const AccessRequestsSection = ({ projectId, assignableRoles }: { projectId: string; assignableRoles: readonly ProjectRole[] }) => {
+  const { requests, notice, processingId, handleApprove, handleDeny } = useAccessRequestsLogic({ projectId });
+
+  return (
+    <>
+      {notice !== null && (
+        <div className="mt-8">
+          {notice.type === "error" ? <ErrorMessage message={notice.message} /> : <p className="text-sm text-green-700">{notice.message}</p>}
+        </div>
+      )}
+      <AccessRequestQueue
+        requests={requests}
+        assignableRoles={assignableRoles}
+        onApprove={handleApprove}
+        onDeny={handleDeny}
+        processingId={processingId}
+      />
+    </>
+  );
+};
+
+/**
+ * 承諾待ちの招待セクション（project:manage_members 権限がある場合のみ表示）
+ */
+const PendingInvitationsSection = ({ projectId }: { projectId: string }) => {
+  const { invitations, notice, processingId, handleResend, handleRevoke } = usePendingInvitationsLogic({ projectId });
+
+  return (
+    <>
+      {notice !== null && (
+        <div className="mt-8">
+          {notice.type === "error" ? <ErrorMessage message={notice.message} /> : <p className="text-sm text-green-700">{notice.message}</p>}
+        </div>
+      )}
+      <PendingInvitations invitations={invitations} onResend={handleResend} onRevoke={handleRevoke} processingId={processingId} />
+    </>
+  );
+};
 
 /**
  * プロジェクトメンバー管理ページコンポーネント（内部実装）
@@ -20,15 +76,54 @@ import { useProjectMembersLogic } from "./project-members.hook";
 const ProjectMembersContent = () => {
   const params = useParams();
   const { id: projectId } = ProjectMembersParamsSchema.parse(params);
-  const { project, members, isLoading, handleBackToDetail, handleAddMember, handleUpdateRole, handleRemoveMember, isAdding } =
-    useProjectMembersLogic({
-      projectId,
-    });
+  const {
+    project,
+    members,
+    isLoading,
+    canManageMembers,
+    canInvite,
+    assignableRoles,
+    defaultRole,
+    getRestriction,
+    actionError,
+    handleBackToDetail,
+    handleAddMember,
+    handleBulkAddMembers,
+    handleInvite,
+    handleUpdateRole,
+    handleRemoveMember,
+    handleBulkUpdateRoles,
+    handleBulkRemoveMembers,
+    handleExport,
+    handlePreviewImport,
+    handleApplyImport,
+    isAdding,
+    isBulkAdding,
+    isInviting,
+  } = useProjectMembersLogic({
+    projectId,
+  });
 
   // ================================================================================
   // State
   // ================================================================================
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isBulkDialogOpen, setIsBulkDialogOpen] = useState(false);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isMatrixVisible, setIsMatrixVisible] = useState(false);
+
+  // ================================================================================
+  // Command Palette
+  // ================================================================================
+  useCurrentProjectCommands({ projectId, projectName: project?.name ?? projectId });
+
+  // コマンドパレットの「このプロジェクトにメンバーを追加」（?action=add-member）から遷移した場合は追加ダイアログを開く
+  useUrlAction("add-member", () => {
+    if (canInvite) {
+      setIsDialogOpen(true);
+    }
+  });
 
   // ================================================================================
   // Handlers
@@ -46,14 +141,113 @@ const ProjectMembersContent = () => {
             <Button variant="outline" onClick={handleBackToDetail}>
               プロジェクト詳細に戻る
             </Button>
-            <Button onClick={() => setIsDialogOpen(true)}>メンバーを追加</Button>
+            <Button variant="outline" aria-pressed={isMatrixVisible} onClick={() => setIsMatrixVisible((visible) => !visible)}>
+              権限マトリクス
+            </Button>
+            <Button variant="outline" onClick={() => handleExport("csv")} disabled={members.length === 0}>
+              CSVエクスポート
+            </Button>
+            <Button variant="outline" onClick={() => handleExport("xlsx")} disabled={members.length === 0}>
+              Excelエクスポート
+            </Button>
+            {canManageMembers && (
+              <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                インポート
+              </Button>
+            )}
+            {canInvite && (
+              <>
+                <Button variant="outline" onClick={() => setIsInviteDialogOpen(true)}>
+                  メールで招待
+                </Button>
+                <Button variant="outline" onClick={() => setIsBulkDialogOpen(true)}>
+                  まとめて追加
+                </Button>
+                <Button onClick={() => setIsDialogOpen(true)}>メンバーを追加</Button>
+              </>
+            )}
           </div>
         }
       />
 
-      <MembersTable members={members} isLoading={isLoading} onRoleChange={handleUpdateRole} onRemoveMember={handleRemoveMember} />
+      {/* 招待ポリシーでメンバーの招待・追加が許可されていない場合 */}
+      {canManageMembers && !canInvite && (
+        <p className="mb-4 text-sm text-muted-foreground">{PROJECT_MESSAGES.HINTS.INVITE_MANAGERS_ONLY}</p>
+      )}
+
+      {canManageMembers && members.some((member) => isMembershipExpired(member)) && (
+        <p className="mb-4 text-sm text-muted-foreground">{PROJECT_MESSAGES.HINTS.EXPIRED_MEMBERS}</p>
+      )}
+
+      {actionError !== null && (
+        <div className="mb-4">
+          <ErrorMessage message={actionError} />
+        </div>
+      )}
+
+      {/* メンバー管理権限がない場合は操作ハンドラーを渡さず、閲覧のみとする */}
+      <MembersTable
+        members={members}
+        isLoading={isLoading}
+        onRoleChange={canManageMembers ? handleUpdateRole : undefined}
+        onRemoveMember={canManageMembers ? handleRemoveMember : undefined}
+        onBulkRoleChange={canManageMembers ? handleBulkUpdateRoles : undefined}
+        onBulkRemove={canManageMembers ? handleBulkRemoveMembers : undefined}
+        getRestriction={canManageMembers ? getRestriction : undefined}
+      />
+
+      {isMatrixVisible && <PermissionMatrix members={members} />}
 
-      <AddMemberDialog isOpen={isDialogOpen} onClose={() => setIsDialogOpen(false)} onAdd={handleAdd} isAdding={isAdding} />
+      {canManageMembers && (
+        <ErrorBoundary FallbackComponent={MainErrorFallback}>
+          <Suspense fallback={<LoadingSpinner />}>
+            <AccessRequestsSection projectId={projectId} assignableRoles={assignableRoles} />
+          </Suspense>
+        </ErrorBoundary>
+      )}
+
+      {canManageMembers && (
+        <ErrorBoundary FallbackComponent={MainErrorFallback}>
+          <Suspense fallback={<LoadingSpinner />}>
+            <PendingInvitationsSection projectId={projectId} />
+          </Suspense>
+        </ErrorBoundary>
+      )}
+
+      <AddMemberDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        onAdd={handleAdd}
+        isAdding={isAdding}
+        assignableRoles={assignableRoles}
+        defaultRole={defaultRole}
+        memberUserIds={members.map((member) => member.user_id)}
+      />
+
+      <InviteMemberDialog
+        isOpen={isInviteDialogOpen}
+        onClose={() => setIsInviteDialogOpen(false)}
+        onInvite={handleInvite}
+        isInviting={isInviting}
+        assignableRoles={assignableRoles}
+        defaultRole={defaultRole}
+      />
+
+      <BulkAddMembersDialog
+        isOpen={isBulkDialogOpen}
+        onClose={() => setIsBulkDialogOpen(false)}
+        onBulkAdd={handleBulkAddMembers}
+        isAdding={isBulkAdding}
+        assignableRoles={assignableRoles}
+        defaultRole={defaultRole}
+      />
+
+      <ImportMembersDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+        onPreview={handlePreviewImport}
+        onApply={handleApplyImport}
+      />
     </PageLayout>
   );
 };
@@ -62,7 +256,7 @@ const ProjectMembersContent = () => {
  * プロジェクトメンバー管理ページコンポーネント
  *
  * Suspenseとエラーバウンダリーでラップされた安全なコンポーネント。
- * プロジェクトメンバーの一覧表示、ロール変更、削除を行います。
+ * プロジェクトメンバーの一覧表示、ロール変更、削除、CSV / Excel でのエクスポート・インポート、権限マトリクスの表示、権限リクエストの承認・却下を行います。
  *
  * @example
  * ```tsx
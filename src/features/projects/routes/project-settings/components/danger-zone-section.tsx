@@ -0,0 +1,119 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/sample-ui/card";
+
+import { Can } from "../../../components/can";
+import type { ProjectLifecycleStatus } from "../../../types";
+import { PROJECT_TRASH_RETENTION_DAYS } from "../../../utils/project-lifecycle";
+
+type DangerZoneSectionProps = {
+  /** プロジェクトID（削除権限の判定に使用） */
+  projectId: string;
+  /** プロジェクトのライフサイクル状態 */
+  lifecycleStatus: ProjectLifecycleStatus;
+  /** アーカイブ処理ハンドラー */
+  onArchive: () => void;
+  /** アーカイブ解除処理ハンドラー */
+  onUnarchive: () => void;
+  /** オーナー移譲ダイアログを開く処理 */
+  onTransfer: () => void;
+  /** ゴミ箱への移動ダイアログを開く処理 */
+  onDelete: () => void;
+  /** アーカイブ・アーカイブ解除の処理中かどうか */
+  isChangingLifecycle: boolean;
+};
+
+/**
+ * 危険な操作の1行（説明と操作ボタン）
+ */
+const DangerZoneItem = ({ title, description, action }: { title: string; description: string; action: ReactNode }) => (
+  <div className="flex items-center justify-between gap-4 py-4 first:pt-0 last:pb-0">
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{title}</p>
+      <p className="text-sm text-muted-foreground">{description}</p>
+    </div>
+    {action}
+  </div>
+);
+
+/**
+ * 危険な操作セクションコンポーネント
+ *
+ * アーカイブ（アーカイブ解除）、オーナー移譲、ゴミ箱への移動をまとめて表示します。
+ * アーカイブ済みのプロジェクトはオーナー移譲ができないため、移譲ボタンを無効化します。
+ * ゴミ箱への移動は project:delete 権限がある場合のみ表示します。
+ *
+ * @param props - DangerZoneSectionコンポーネントのプロパティ
+ * @returns 危険な操作セクション要素
+ *
+ * @example
+ * ```tsx
+ * <DangerZoneSection
+ *   projectId={project.id}
+ *   lifecycleStatus={lifecycleStatus}
+ *   onArchive={handleArchive}
+ *   onUnarchive={handleUnarchive}
+ *   onTransfer={() => setShowTransferDialog(true)}
+ *   onDelete={() => setShowDeleteDialog(true)}
+ *   isChangingLifecycle={isChangingLifecycle}
+ * />
+ * ```
+ */
+export const DangerZoneSection = ({
+  projectId,
+  lifecycleStatus,
+  onArchive,
+  onUnarchive,
+  onTransfer,
+  onDelete,
+  isChangingLifecycle,
+}: DangerZoneSectionProps) => {
+  const isArchived = lifecycleStatus === "archived";
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="text-red-700">危険な操作</CardTitle>
+        <CardDescription>プロジェクトの状態や所有者を変更します。操作の内容を確認してから実行してください</CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y">
+        <DangerZoneItem
+          title={isArchived ? "アーカイブを解除" : "アーカイブ"}
+          description={
+            isArchived
+              ? "プロジェクトを再び編集できる状態に戻します"
+              : "プロジェクトを閲覧のみにし、一覧の既定の表示から外します。あとで解除できます"
+          }
+          action={
+            <Button variant="outline" onClick={isArchived ? onUnarchive : onArchive} disabled={isChangingLifecycle}>
+              {isArchived ? "アーカイブを解除" : "アーカイブ"}
+            </Button>
+          }
+        />
+        <DangerZoneItem
+          title="オーナーを移譲"
+          description={isArchived ? "アーカイブ済みのプロジェクトは移譲できません" : "プロジェクトのオーナーを既存のメンバーに変更します"}
+          action={
+            <Button variant="outline" onClick={onTransfer} disabled={isArchived}>
+              オーナーを移譲
+            </Button>
+          }
+        />
+        <Can projectId={projectId} permission="project:delete">
+          <DangerZoneItem
+            title="ゴミ箱に移動"
+            description={`ゴミ箱のプロジェクトは${PROJECT_TRASH_RETENTION_DAYS}日後に完全に削除されます。それまでは復元できます`}
+            action={
+              <Button variant="destructive" onClick={onDelete}>
+                ゴミ箱に移動
+              </Button>
+            }
+          />
+        </Can>
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,7 +5,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { ErrorMessage } from "@/components/sample-ui/error-message";
 
 import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { usePermission } from "../../../hooks/use-permission";
 import type { Project } from "../../../types";
+import { PROJECT_TRASH_RETENTION_DAYS } from "../../../utils/project-lifecycle";
 
 type DeleteProjectDialogProps = {
   /** ダイアログの表示状態 */
@@ -25,7 +27,9 @@ type DeleteProjectDialogProps = {
 /**
  * プロジェクト削除確認ダイアログコンポーネント
  *
- * プロジェクトを削除する前に、ユーザーに確認を求めるダイアログです。
+ * プロジェクトをゴミ箱に移動する前に、ユーザーに確認を求めるダイアログです。
+ * ゴミ箱のプロジェクトは保持期間内であれば復元できるため、その旨を合わせて表示します。
+ * project:delete 権限がない場合は削除ボタンを無効化します。
  * アクセシビリティ対応（キーボードナビゲーション、ARIA属性）を実装しています。
  *
  * @param props - DeleteProjectDialogコンポーネントのプロパティ
@@ -44,16 +48,18 @@ type DeleteProjectDialogProps = {
  * ```
  */
 export const DeleteProjectDialog = ({ isOpen, onClose, project, onDelete, isDeleting, error }: DeleteProjectDialogProps) => {
+  const canDelete = usePermission(project.id, "project:delete");
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent>
         <DialogHeader>
-          <DialogTitle>プロジェクトの削除</DialogTitle>
+          <DialogTitle>プロジェクトをゴミ箱に移動</DialogTitle>
           <DialogDescription>{PROJECT_MESSAGES.CONFIRM.deleteProject(project.name)}</DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
-          <p className="text-sm text-red-600">{PROJECT_MESSAGES.CONFIRM.DELETE_PROJECT_WARNING}</p>
+          <p className="text-sm text-muted-foreground">{PROJECT_MESSAGES.CONFIRM.deleteProjectRetention(PROJECT_TRASH_RETENTION_DAYS)}</p>
 
           <div className="rounded-md bg-muted p-4 text-sm">
             <div className="space-y-2">
@@ -71,7 +77,7 @@ export const DeleteProjectDialog = ({ isOpen, onClose, project, onDelete, isDele
               </div>
               <div className="flex">
                 <span className="w-32 font-medium">状態:</span>
-                <span>{project.is_active ? "アクティブ" : "非アクティブ"}</span>
+                <span>{project.is_active ? "アクティブ" : "アーカイブ済み"}</span>
               </div>
             </div>
           </div>
@@ -83,8 +89,8 @@ export const DeleteProjectDialog = ({ isOpen, onClose, project, onDelete, isDele
           <Button variant="outline" onClick={onClose} disabled={isDeleting}>
             キャンセル
           </Button>
-          <Button variant="destructive" onClick={onDelete} disabled={isDeleting}>
-            {isDeleting ? "削除中..." : "削除"}
+          <Button variant="destructive" onClick={onDelete} disabled={isDeleting || !canDelete}>
+            {isDeleting ? "移動中..." : "ゴミ箱に移動"}
           </Button>
         </DialogFooter>
       </DialogContent>
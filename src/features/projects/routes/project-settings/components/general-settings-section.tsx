@@ -0,0 +1,92 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/sample-ui/card";
+import { ControlledInputField, ControlledTextareaField } from "@/components/sample-ui/form-field/controlled-form-field";
+
+import type { Project } from "../../../types";
+import { type UpdateProjectInput, updateProjectSchema } from "../../../types/forms";
+
+type GeneralSettingsSectionProps = {
+  /** 対象のプロジェクト */
+  project: Project;
+  /** 保存処理ハンドラー */
+  onSave: (data: UpdateProjectInput) => Promise<void>;
+  /** 保存中かどうか */
+  isSaving: boolean;
+  /** 入力を無効化するかどうか（アーカイブ済み・ゴミ箱のプロジェクト） */
+  disabled?: boolean;
+};
+
+/**
+ * 基本情報の設定セクションコンポーネント
+ *
+ * プロジェクト名と説明を編集します。
+ * アクティブ状態はアーカイブ操作で切り替えるため、このセクションでは現在の値をそのまま送信します。
+ *
+ * @param props - GeneralSettingsSectionコンポーネントのプロパティ
+ * @returns 基本情報の設定セクション要素
+ *
+ * @example
+ * ```tsx
+ * <GeneralSettingsSection project={project} onSave={handleUpdateGeneral} isSaving={isUpdatingGeneral} />
+ * ```
+ */
+export const GeneralSettingsSection = ({ project, onSave, isSaving, disabled = false }: GeneralSettingsSectionProps) => {
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const { control, handleSubmit, reset } = useForm<UpdateProjectInput>({
+    resolver: zodResolver(updateProjectSchema),
+    defaultValues: {
+      name: project.name,
+      description: project.description ?? "",
+    },
+  });
+
+  // ================================================================================
+  // Effects
+  // ================================================================================
+  // プロジェクトが更新されたらフォームをリセット
+  useEffect(() => {
+    reset({
+      name: project.name,
+      description: project.description ?? "",
+    });
+  }, [project, reset]);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const onSubmit = handleSubmit((data: UpdateProjectInput) => onSave(data));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>基本情報</CardTitle>
+        <CardDescription>プロジェクトの名前と説明を変更します</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={onSubmit}>
+          <fieldset disabled={disabled || isSaving} className="space-y-4">
+            <ControlledInputField control={control} name="name" label="プロジェクト名" placeholder="プロジェクト名を入力" required />
+            <ControlledTextareaField
+              control={control}
+              name="description"
+              label="説明"
+              placeholder="プロジェクトの説明を入力（任意）"
+              rows={4}
+            />
+            <div className="flex justify-end">
+              <Button type="submit">{isSaving ? "保存中..." : "保存"}</Button>
+            </div>
+          </fieldset>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
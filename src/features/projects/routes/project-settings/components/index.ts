@@ -0,0 +1,5 @@
+export * from "./danger-zone-section";
+export * from "./delete-project-dialog";
+export * from "./general-settings-section";
+export * from "./member-policy-section";
+export * from "./transfer-ownership-dialog";
@@ -0,0 +1,104 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/sample-ui/card";
+import { ControlledRadioGroupField, ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import { INVITE_POLICY_OPTIONS } from "../../../constants/settings";
+import { projectRoleSchema, type ProjectSettings } from "../../../types";
+import { type UpdateProjectSettingsInput, updateProjectSettingsSchema } from "../../../types/forms";
+
+type MemberPolicySectionProps = {
+  /** 現在のプロジェクト設定 */
+  settings: ProjectSettings;
+  /** 保存処理ハンドラー */
+  onSave: (data: UpdateProjectSettingsInput) => Promise<void>;
+  /** 保存中かどうか */
+  isSaving: boolean;
+  /** 入力を無効化するかどうか（アーカイブ済み・ゴミ箱のプロジェクト） */
+  disabled?: boolean;
+};
+
+/**
+ * メンバーの設定セクションコンポーネント
+ *
+ * 新しく追加・招待するメンバーの既定のロールと、メンバーを招待・追加できるロール（招待ポリシー）を設定します。
+ * 既定のロールにプロジェクトマネージャーは選択できません。
+ *
+ * @param props - MemberPolicySectionコンポーネントのプロパティ
+ * @returns メンバーの設定セクション要素
+ *
+ * @example
+ * ```tsx
+ * <MemberPolicySection settings={settings} onSave={handleUpdateSettings} isSaving={isUpdatingSettings} />
+ * ```
+ */
+export const MemberPolicySection = ({ settings, onSave, isSaving, disabled = false }: MemberPolicySectionProps) => {
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const { control, handleSubmit, reset } = useForm<UpdateProjectSettingsInput>({
+    resolver: zodResolver(updateProjectSettingsSchema),
+    defaultValues: {
+      default_member_role: settings.default_member_role,
+      invite_policy: settings.invite_policy,
+    },
+  });
+
+  // ================================================================================
+  // Effects
+  // ================================================================================
+  // 設定が更新されたらフォームをリセット
+  useEffect(() => {
+    reset({
+      default_member_role: settings.default_member_role,
+      invite_policy: settings.invite_policy,
+    });
+  }, [settings, reset]);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const onSubmit = handleSubmit((data: UpdateProjectSettingsInput) => onSave(data));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>メンバー</CardTitle>
+        <CardDescription>メンバーを追加・招待するときの既定のロールと、招待できるロールを設定します</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={onSubmit}>
+          <fieldset disabled={disabled || isSaving} className="space-y-6">
+            <ControlledSelectField
+              control={control}
+              name="default_member_role"
+              label="新しいメンバーの既定のロール"
+              options={projectRoleSchema.options.map((role) => ({
+                value: role,
+                label: PROJECT_ROLE_LABELS[role],
+                disabled: role === "project_manager",
+              }))}
+              required
+            />
+            <ControlledRadioGroupField
+              control={control}
+              name="invite_policy"
+              label="メンバーを招待・追加できるロール"
+              options={INVITE_POLICY_OPTIONS}
+              required
+            />
+            <div className="flex justify-end">
+              <Button type="submit">{isSaving ? "保存中..." : "保存"}</Button>
+            </div>
+          </fieldset>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,239 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowRightIcon } from "lucide-react";
+import { useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+
+import { Button } from "@/components/sample-ui/button";
+import { Checkbox } from "@/components/sample-ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import { ControlledSelectField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { Label } from "@/components/sample-ui/label";
+import { ApiError } from "@/lib/api-error";
+
+import { RoleBadge } from "../../../components/role-badge";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { PROJECT_ROLE_LABELS } from "../../../constants/roles";
+import { type Project, type ProjectMember, type ProjectRole, projectRoleSchema } from "../../../types";
+import { type TransferOwnershipInput, transferOwnershipSchema } from "../../../types/forms";
+
+type TransferOwnershipDialogProps = {
+  /** ダイアログの表示状態 */
+  isOpen: boolean;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 対象のプロジェクト */
+  project: Project;
+  /** プロジェクトのメンバー一覧（新オーナーの候補） */
+  members: ProjectMember[];
+  /** 移譲処理ハンドラー */
+  onTransfer: (data: TransferOwnershipInput) => Promise<void>;
+  /** 移譲中かどうか */
+  isTransferring: boolean;
+};
+
+/**
+ * メンバーの表示名
+ */
+const getMemberName = (member: ProjectMember) => member.user?.display_name ?? member.user?.email ?? member.user_id;
+
+/**
+ * ロール変更の1行（名前・現在のロール → 移譲後のロール）
+ */
+const RoleChangeRow = ({ label, name, from, to }: { label: string; name: string; from: ProjectRole | null; to: ProjectRole | null }) => {
+  return (
+    <li className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="w-20 font-medium text-gray-500">{label}</span>
+      <span className="min-w-32 font-medium text-gray-900">{name}</span>
+      {from !== null ? <RoleBadge role={from} /> : <span className="text-gray-500">メンバーではありません</span>}
+      {to !== null && (
+        <>
+          <ArrowRightIcon className="size-4 text-gray-400" aria-hidden="true" />
+          <RoleBadge role={to} />
+        </>
+      )}
+    </li>
+  );
+};
+
+/**
+ * オーナー移譲ダイアログコンポーネント
+ *
+ * プロジェクトのオーナー（created_by）を既存のメンバーに移譲します。
+ * 1. 新しいオーナーと、現オーナーの移譲後のロールを選択
+ * 2. 発生するロール変更（新オーナーは project_manager、現オーナーは選択したロール）を確認
+ * 3. 確認のチェックを入れてから移譲を実行
+ *
+ * 現オーナーがプロジェクトのメンバーでない場合（退職済みなど）は、現オーナーのロールは変更しません。
+ * API がエラーを返した場合は、Problem Details の detail をフォームのエラーとして表示します。
+ *
+ * @param props - TransferOwnershipDialogコンポーネントのプロパティ
+ * @returns オーナー移譲ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <TransferOwnershipDialog
+ *   isOpen={isDialogOpen}
+ *   onClose={() => setIsDialogOpen(false)}
+ *   project={project}
+ *   members={members}
+ *   onTransfer={handleTransfer}
+ *   isTransferring={isTransferring}
+ * />
+ * ```
+ */
+export const TransferOwnershipDialog = ({
+  isOpen,
+  onClose,
+  project,
+  members,
+  onTransfer,
+  isTransferring,
+}: TransferOwnershipDialogProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [step, setStep] = useState<"select" | "confirm">("select");
+  const [isAcknowledged, setIsAcknowledged] = useState(false);
+
+  const currentOwner = members.find((member) => member.user_id === project.created_by) ?? null;
+  const candidates = members.filter((member) => member.user_id !== project.created_by);
+
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setError,
+    reset,
+  } = useForm<TransferOwnershipInput>({
+    resolver: zodResolver(transferOwnershipSchema),
+    defaultValues: {
+      new_owner_id: "",
+      previous_owner_role: "project_moderator",
+    },
+  });
+
+  const newOwnerId = useWatch({ control, name: "new_owner_id" });
+  const previousOwnerRole = useWatch({ control, name: "previous_owner_role" });
+  const newOwner = candidates.find((member) => member.user_id === newOwnerId) ?? null;
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleClose = () => {
+    reset();
+    setStep("select");
+    setIsAcknowledged(false);
+    onClose();
+  };
+
+  const onNext = handleSubmit(() => {
+    setStep("confirm");
+  });
+
+  const onConfirm = handleSubmit((data: TransferOwnershipInput) => {
+    onTransfer(data)
+      .then(() => {
+        handleClose();
+      })
+      .catch((error: unknown) => {
+        setError("root", {
+          message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.OWNERSHIP_TRANSFER_FAILED,
+        });
+      });
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>オーナーを移譲</DialogTitle>
+          <DialogDescription>プロジェクト「{project.name}」のオーナーを既存のメンバーに移譲します</DialogDescription>
+        </DialogHeader>
+
+        {step === "select" ? (
+          <form onSubmit={onNext} className="space-y-4">
+            <ControlledSelectField
+              control={control}
+              name="new_owner_id"
+              label="新しいオーナー"
+              options={candidates.map((member) => ({
+                value: member.user_id,
+                label: `${getMemberName(member)}（${PROJECT_ROLE_LABELS[member.role]}）`,
+              }))}
+              required
+            />
+
+            {currentOwner !== null && (
+              <ControlledSelectField
+                control={control}
+                name="previous_owner_role"
+                label={`移譲後の ${getMemberName(currentOwner)} のロール`}
+                options={projectRoleSchema.options.map((role) => ({ value: role, label: PROJECT_ROLE_LABELS[role] }))}
+                required
+              />
+            )}
+
+            {candidates.length === 0 && (
+              <p className="text-sm text-gray-500">移譲できるメンバーがいません。先にメンバーを追加してください。</p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                キャンセル
+              </Button>
+              <Button type="submit" disabled={candidates.length === 0}>
+                次へ
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <form onSubmit={onConfirm} className="space-y-4">
+            <div className="rounded-md bg-muted p-4">
+              <p className="mb-3 text-sm font-medium text-gray-900">以下のロール変更が行われます</p>
+              <ul className="space-y-2">
+                {newOwner !== null && (
+                  <RoleChangeRow label="新オーナー" name={getMemberName(newOwner)} from={newOwner.role} to="project_manager" />
+                )}
+                <RoleChangeRow
+                  label="現オーナー"
+                  name={currentOwner !== null ? getMemberName(currentOwner) : project.created_by}
+                  from={currentOwner?.role ?? null}
+                  to={currentOwner !== null ? previousOwnerRole : null}
+                />
+              </ul>
+            </div>
+
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="transfer-ownership-acknowledge"
+                checked={isAcknowledged}
+                onCheckedChange={(checked) => setIsAcknowledged(checked === true)}
+                disabled={isTransferring}
+              />
+              <Label htmlFor="transfer-ownership-acknowledge" className="text-sm leading-snug font-normal">
+                {PROJECT_MESSAGES.CONFIRM.TRANSFER_OWNERSHIP_ACKNOWLEDGE}
+              </Label>
+            </div>
+
+            {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setStep("select")} disabled={isTransferring}>
+                戻る
+              </Button>
+              <Button type="submit" variant="destructive" disabled={!isAcknowledged || isTransferring}>
+                {isTransferring ? "移譲中..." : "移譲する"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,3 @@
+export * from "./components";
+export { default } from "./project-settings";
+export * from "./project-settings.hook";
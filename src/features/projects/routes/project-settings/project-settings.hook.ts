@@ -0,0 +1,264 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { paths } from "@/config/paths";
+import { ApiError } from "@/lib/api-error";
+import { waitUnlessQueued } from "@/lib/mutation-queue";
+import { toast } from "@/lib/toast";
+
+import {
+  useArchiveProject,
+  useDeleteProject,
+  useProject,
+  useProjectMembers,
+  useProjectSettings,
+  useRestoreProject,
+  useTransferOwnership,
+  useUnarchiveProject,
+  useUpdateProject,
+  useUpdateProjectSettings,
+} from "../../api";
+import { PROJECT_MESSAGES } from "../../constants/messages";
+import type { TransferOwnershipInput, UpdateProjectInput, UpdateProjectSettingsInput } from "../../types/forms";
+import { getProjectLifecycleStatus } from "../../utils/project-lifecycle";
+
+type UseProjectSettingsLogicProps = {
+  projectId: string;
+};
+
+/**
+ * プロジェクト設定ページのロジックを管理するカスタムフック
+ *
+ * プロジェクトと設定を取得（Suspense）し、基本情報・メンバー設定の保存と、
+ * アーカイブ・アーカイブ解除・ゴミ箱への移動を提供します。
+ * 保存・アーカイブなどの結果は notice として返します。
+ * アーカイブ済み・ゴミ箱のプロジェクトは閲覧のみ（isReadOnly）として扱います。
+ *
+ * @param projectId - プロジェクトID
+ *
+ * @returns project - プロジェクト詳細情報
+ * @returns settings - プロジェクト設定
+ * @returns lifecycleStatus - ライフサイクル状態（active / archived / trashed）
+ * @returns isReadOnly - 閲覧のみかどうか（アーカイブ済み・ゴミ箱の場合は true）
+ * @returns handleBackToDetail - プロジェクト詳細ページへ遷移
+ * @returns handleUpdateGeneral - 基本情報の保存処理
+ * @returns handleUpdateSettings - メンバー設定の保存処理
+ * @returns handleArchive - アーカイブ処理
+ * @returns handleUnarchive - アーカイブ解除処理
+ * @returns handleDelete - ゴミ箱への移動処理（成功時はプロジェクト一覧ページへ遷移し、元に戻せるトーストを表示）
+ * @returns notice - 保存・アーカイブなどの結果メッセージ
+ * @returns deleteError - ゴミ箱への移動のエラーメッセージ
+ *
+ * @example
+ * ```tsx
+ * const { project, settings, handleUpdateSettings, isUpdatingSettings } = useProjectSettingsLogic({ projectId: 'project-1' })
+ *
+ * <MemberPolicySection settings={settings} onSave={handleUpdateSettings} isSaving={isUpdatingSettings} />
+ * ```
+ */
+export const useProjectSettingsLogic = ({ projectId }: UseProjectSettingsLogicProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { data: projectData } = useProject({ projectId });
+  const { data: settingsData } = useProjectSettings({ projectId });
+  const updateProjectMutation = useUpdateProject({ projectId });
+  const updateSettingsMutation = useUpdateProjectSettings({ projectId });
+  const archiveProjectMutation = useArchiveProject();
+  const unarchiveProjectMutation = useUnarchiveProject();
+  const deleteProjectMutation = useDeleteProject();
+  const restoreProjectMutation = useRestoreProject({
+    mutationConfig: {
+      meta: {
+        successMessage: PROJECT_MESSAGES.SUCCESS.projectRestored(projectData.data.name),
+        errorMessage: PROJECT_MESSAGES.ERRORS.RESTORE_FAILED,
+      },
+    },
+  });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [notice, setNotice] = useState<{ type: "success" | "error"; message: string } | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const project = projectData.data;
+  const lifecycleStatus = getProjectLifecycleStatus(project);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * プロジェクト詳細ページへ遷移
+   */
+  const handleBackToDetail = () => {
+    router.push(paths.projects.detail.getHref(projectId));
+  };
+
+  /**
+   * 操作の共通処理
+   *
+   * 成功・失敗のいずれも notice に結果メッセージを設定します（Problem Details の detail を優先）。
+   * 送信待ちになった場合（waitUnlessQueued が "queued" を返した場合）は、送信待ちのメッセージを設定します。
+   */
+  const runWithNotice = async (mutation: Promise<unknown>, successMessage: string, fallbackError: string) => {
+    setNotice(null);
+    await mutation
+      .then((result) =>
+        setNotice({ type: "success", message: result === "queued" ? PROJECT_MESSAGES.SUCCESS.UPDATE_QUEUED : successMessage })
+      )
+      .catch((error: unknown) => setNotice({ type: "error", message: error instanceof ApiError ? error.message : fallbackError }));
+  };
+
+  /**
+   * 基本情報の保存処理（送信待ちになった場合は、再送を待たずに送信待ちを通知する）
+   */
+  const handleUpdateGeneral = (data: UpdateProjectInput) =>
+    runWithNotice(
+      waitUnlessQueued(queryClient, () => updateProjectMutation.mutateAsync({ projectId, data })),
+      PROJECT_MESSAGES.SUCCESS.UPDATED,
+      PROJECT_MESSAGES.ERRORS.UPDATE_FAILED
+    );
+
+  /**
+   * メンバー設定（既定のロール・招待ポリシー）の保存処理
+   */
+  const handleUpdateSettings = (data: UpdateProjectSettingsInput) =>
+    runWithNotice(
+      updateSettingsMutation.mutateAsync(data),
+      PROJECT_MESSAGES.SUCCESS.SETTINGS_UPDATED,
+      PROJECT_MESSAGES.ERRORS.SETTINGS_UPDATE_FAILED
+    );
+
+  /**
+   * アーカイブ処理（一覧の既定の表示から外れ、閲覧のみになる）
+   */
+  const handleArchive = () =>
+    runWithNotice(
+      archiveProjectMutation.mutateAsync({ projectId }),
+      PROJECT_MESSAGES.SUCCESS.projectArchived(project.name),
+      PROJECT_MESSAGES.ERRORS.ARCHIVE_FAILED
+    );
+
+  /**
+   * アーカイブ解除処理
+   */
+  const handleUnarchive = () =>
+    runWithNotice(
+      unarchiveProjectMutation.mutateAsync({ projectId }),
+      PROJECT_MESSAGES.SUCCESS.projectUnarchived(project.name),
+      PROJECT_MESSAGES.ERRORS.UNARCHIVE_FAILED
+    );
+
+  /**
+   * ゴミ箱への移動処理
+   *
+   * 処理フロー:
+   * 1. FastAPIにプロジェクト削除リクエスト送信（プロジェクトはゴミ箱に移動し、保持期間内は復元できる）
+   * 2. 成功時: プロジェクト一覧ページへ遷移し、「元に戻す」（ゴミ箱からの復元）ボタン付きのトーストを表示
+   * 3. エラー時: エラーメッセージを状態に保存
+   */
+  const handleDelete = () => {
+    setDeleteError(null);
+    deleteProjectMutation
+      .mutateAsync(projectId)
+      .then(() => {
+        toast.success({
+          title: PROJECT_MESSAGES.SUCCESS.DELETED,
+          action: { label: "元に戻す", onClick: () => restoreProjectMutation.mutate({ projectId }) },
+        });
+        router.push(paths.projects.list.getHref());
+      })
+      .catch((error: Error) => {
+        setDeleteError(error?.message ?? PROJECT_MESSAGES.ERRORS.DELETE_FAILED);
+      });
+  };
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    project,
+    settings: settingsData.data,
+    lifecycleStatus,
+    isReadOnly: lifecycleStatus !== "active",
+    handleBackToDetail,
+    handleUpdateGeneral,
+    handleUpdateSettings,
+    handleArchive,
+    handleUnarchive,
+    handleDelete,
+    notice,
+    deleteError,
+    isUpdatingGeneral: updateProjectMutation.isPending && !updateProjectMutation.isPaused,
+    isUpdatingSettings: updateSettingsMutation.isPending,
+    isChangingLifecycle: archiveProjectMutation.isPending || unarchiveProjectMutation.isPending,
+    isDeleting: deleteProjectMutation.isPending,
+  };
+};
+
+type UseTransferOwnershipLogicProps = {
+  projectId: string;
+  /** 移譲成功時のハンドラー（新オーナーの表示名を受け取ります） */
+  onTransferred?: (newOwnerName: string) => void;
+};
+
+/**
+ * オーナー移譲のビジネスロジックフック
+ *
+ * 新オーナーの候補となるメンバー一覧の取得（Suspense）と、移譲処理を提供します。
+ * 移譲には project:manage_settings 権限が必要なため、権限がある場合のみ呼び出してください。
+ *
+ * @param projectId - プロジェクトID
+ * @param onTransferred - 移譲成功時のハンドラー
+ *
+ * @returns members - プロジェクトのメンバー一覧
+ * @returns handleTransfer - 移譲処理（失敗時は reject されるため、呼び出し側でエラーを表示してください）
+ * @returns isTransferring - 移譲中フラグ
+ *
+ * @example
+ * ```tsx
+ * const { members, handleTransfer, isTransferring } = useTransferOwnershipLogic({
+ *   projectId: 'project-1',
+ *   onTransferred: (name) => setNotice(PROJECT_MESSAGES.SUCCESS.ownershipTransferred(name)),
+ * })
+ * ```
+ */
+export const useTransferOwnershipLogic = ({ projectId, onTransferred }: UseTransferOwnershipLogicProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data } = useProjectMembers({ projectId });
+  const transferOwnershipMutation = useTransferOwnership({ projectId });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * オーナー移譲処理
+   *
+   * 処理フロー:
+   * 1. FastAPIにオーナー移譲リクエスト送信（プロジェクトと新旧オーナーのロールが一括で更新される）
+   * 2. 成功時: プロジェクト・メンバーのデータが自動的に再取得される
+   */
+  const handleTransfer = async (input: TransferOwnershipInput) => {
+    const { data: result } = await transferOwnershipMutation.mutateAsync(input);
+    const newOwner = result.new_owner;
+
+    onTransferred?.(newOwner.user?.display_name ?? newOwner.user?.email ?? newOwner.user_id);
+  };
+
+  return {
+    members: data.data,
+    handleTransfer,
+    isTransferring: transferOwnershipMutation.isPending,
+  };
+};
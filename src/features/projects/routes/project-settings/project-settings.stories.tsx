@@ -0,0 +1,277 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, userEvent, within } from "@storybook/test";
+import { http, HttpResponse } from "msw";
+
+import ProjectSettings from "./project-settings";
+
+/**
+ * 自分のメンバー情報を返すハンドラー（設定ページはプロジェクトマネージャーのみ表示できる）
+ */
+const membershipHandler = http.get("*/api/v1/projects/:id/members/me", ({ params }) => {
+  return HttpResponse.json({
+    data: {
+      id: "me",
+      project_id: params.id,
+      user_id: "dev-user-uuid",
+      role: "project_manager",
+      joined_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+  });
+});
+
+/**
+ * プロジェクトを返すハンドラーを生成
+ */
+const projectHandler = (isActive: boolean) =>
+  http.get("*/api/v1/projects/:id", () => {
+    return HttpResponse.json({
+      data: {
+        id: "1",
+        name: "サンプルプロジェクト",
+        description: "プロジェクトの説明",
+        is_active: isActive,
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+        created_by: "user-1",
+        deleted_at: null,
+      },
+    });
+  });
+
+/**
+ * プロジェクト設定を返すハンドラー
+ */
+const settingsHandler = http.get("*/api/v1/projects/:id/settings", ({ params }) => {
+  return HttpResponse.json({
+    data: {
+      project_id: params.id,
+      default_member_role: "member",
+      invite_policy: "managers_and_moderators",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+  });
+});
+
+/**
+ * メンバー情報を生成
+ */
+const buildMember = (userId: string, displayName: string, role: string) => ({
+  id: `member-${userId}`,
+  project_id: "1",
+  user_id: userId,
+  role,
+  joined_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+  user: {
+    id: userId,
+    azure_oid: `azure-oid-${userId}`,
+    email: `${userId}@example.com`,
+    display_name: displayName,
+    roles: ["user"],
+    is_active: true,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    last_login: null,
+  },
+});
+
+/**
+ * ProjectSettingsコンポーネントのストーリー
+ *
+ * プロジェクト設定ページコンポーネント。
+ * 基本情報・メンバーの設定と、アーカイブ・オーナー移譲・ゴミ箱への移動を提供します。
+ *
+ * @example
+ * ```tsx
+ * <ProjectSettings />
+ * ```
+ */
+const meta = {
+  // ================================================================================
+  // Storybookのナビゲーション階層
+  // ================================================================================
+  title: "features/projects/routes/project-settings/ProjectSettings",
+
+  // ================================================================================
+  // 表示するコンポーネント
+  // ================================================================================
+  component: ProjectSettings,
+
+  parameters: {
+    // ================================================================================
+    // レイアウト設定
+    // ================================================================================
+    layout: "fullscreen",
+
+    // ================================================================================
+    // Next.js設定
+    // ================================================================================
+    nextjs: {
+      appDirectory: true,
+      navigation: {
+        pathname: "/projects/1/settings",
+        segments: [["id", "1"]],
+      },
+    },
+
+    // ================================================================================
+    // コンポーネントの詳細説明
+    // ================================================================================
+    docs: {
+      description: {
+        component:
+          "プロジェクトの設定ページコンポーネント。project:manage_settings 権限を持つユーザーのみ表示できます。\n\n" +
+          "**主な機能:**\n" +
+          "- 基本情報（プロジェクト名・説明）の変更\n" +
+          "- 新しいメンバーの既定のロールの設定\n" +
+          "- メンバーを招待・追加できるロール（招待ポリシー）の設定\n" +
+          "- 危険な操作（アーカイブ・オーナー移譲・ゴミ箱への移動）\n" +
+          "- MSWによるAPIモック",
+      },
+    },
+  },
+
+  // ================================================================================
+  // ドキュメント自動生成を有効化
+  // ================================================================================
+  tags: ["autodocs"],
+} satisfies Meta<typeof ProjectSettings>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * デフォルト状態
+ * アクティブなプロジェクトの設定ページ
+ */
+export const Default: Story = {
+  name: "デフォルト",
+  parameters: {
+    docs: {
+      description: {
+        story: "アクティブなプロジェクトの設定ページ。各セクションの設定を変更して保存でき、危険な操作をまとめて表示します。",
+      },
+    },
+    msw: {
+      handlers: [membershipHandler, projectHandler(true), settingsHandler],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText("基本情報")).toBeInTheDocument();
+    expect(canvas.getByText("新しいメンバーの既定のロール")).toBeInTheDocument();
+    expect(canvas.getByRole("radio", { name: "プロジェクトマネージャーと権限管理者" })).toBeChecked();
+    expect(canvas.getByRole("button", { name: "アーカイブ" })).toBeEnabled();
+    expect(canvas.getByRole("button", { name: "ゴミ箱に移動" })).toBeInTheDocument();
+  },
+};
+
+/**
+ * 招待ポリシーの変更
+ * 招待できるロールをプロジェクトマネージャーのみに変更して保存する
+ */
+export const ChangeInvitePolicy: Story = {
+  name: "招待ポリシーの変更",
+  parameters: {
+    docs: {
+      description: {
+        story: "招待ポリシーを「プロジェクトマネージャーのみ」に変更して保存した状態。保存結果のメッセージが表示されます。",
+      },
+    },
+    msw: {
+      handlers: [
+        membershipHandler,
+        projectHandler(true),
+        settingsHandler,
+        http.put("*/api/v1/projects/:id/settings", async ({ params, request }) => {
+          const body = (await request.json()) as Record<string, unknown>;
+
+          return HttpResponse.json({
+            data: { project_id: params.id, ...body, updated_at: "2024-01-02T00:00:00Z" },
+          });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("radio", { name: "プロジェクトマネージャーのみ" }));
+    await userEvent.click(canvas.getAllByRole("button", { name: "保存" })[1]);
+
+    expect(await canvas.findByText("プロジェクト設定を更新しました")).toBeInTheDocument();
+  },
+};
+
+/**
+ * アーカイブ済みのプロジェクト
+ * 設定を変更できず、アーカイブ解除のみ行える
+ */
+export const ArchivedProject: Story = {
+  name: "アーカイブ済みのプロジェクト",
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "アーカイブ済みのプロジェクトの設定ページ。基本情報・メンバーの設定は変更できず、危険な操作ではアーカイブ解除とゴミ箱への移動のみ行えます。",
+      },
+    },
+    msw: {
+      handlers: [membershipHandler, projectHandler(false), settingsHandler],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText("このプロジェクトはアーカイブされています。閲覧のみ可能です。")).toBeInTheDocument();
+    expect(canvas.getByLabelText(/プロジェクト名/)).toBeDisabled();
+    expect(canvas.getByRole("button", { name: "アーカイブを解除" })).toBeEnabled();
+    expect(canvas.getByRole("button", { name: "オーナーを移譲" })).toBeDisabled();
+  },
+};
+
+/**
+ * オーナー移譲ダイアログ
+ * プロジェクトマネージャーがオーナーを既存のメンバーに移譲する
+ */
+export const TransferOwnership: Story = {
+  name: "オーナー移譲",
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "「オーナーを移譲」からオーナー移譲ダイアログを開いた状態。新しいオーナーと現オーナーの移譲後のロールを選び、ロール変更の内容を確認してから移譲します。",
+      },
+    },
+    msw: {
+      handlers: [
+        membershipHandler,
+        projectHandler(true),
+        settingsHandler,
+        http.get("*/api/v1/projects/:id/members", () => {
+          return HttpResponse.json({
+            data: [
+              buildMember("user-1", "田中 太郎", "project_manager"),
+              buildMember("user-2", "鈴木 花子", "project_moderator"),
+              buildMember("user-3", "佐藤 次郎", "member"),
+            ],
+          });
+        }),
+      ],
+    },
+  },
+  // FIXME: @storybook/test v9安定版リリース待ち
+  // Vitest環境でダイアログ表示が正常に動作しない問題
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(await canvas.findByRole("button", { name: "オーナーを移譲" }));
+
+    const dialog = within(await within(document.body).findByRole("dialog"));
+    expect(await dialog.findByText("新しいオーナー")).toBeInTheDocument();
+    expect(dialog.getByText("移譲後の 田中 太郎 のロール")).toBeInTheDocument();
+  },
+  tags: ["skip"],
+};
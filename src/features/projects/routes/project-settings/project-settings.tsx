@@ -0,0 +1,167 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { PageHeader } from "@/components/layout/page-header";
+import { PageLayout } from "@/components/layout/page-layout";
+import { Button } from "@/components/sample-ui/button";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+
+import { PROJECT_MESSAGES } from "../../constants/messages";
+import { useCurrentProjectCommands } from "../../hooks/use-project-commands";
+import { type Project, ProjectSettingsParamsSchema } from "../../types";
+import { getDaysUntilPurge } from "../../utils/project-lifecycle";
+import { DangerZoneSection, DeleteProjectDialog, GeneralSettingsSection, MemberPolicySection, TransferOwnershipDialog } from "./components";
+import { useProjectSettingsLogic, useTransferOwnershipLogic } from "./project-settings.hook";
+
+/**
+ * オーナー移譲ダイアログ（メンバー一覧を取得するため、開いている間のみマウントする）
+ */
+const TransferOwnershipSection = ({
+  project,
+  onClose,
+  onTransferred,
+}: {
+  project: Project;
+  onClose: () => void;
+  onTransferred: (newOwnerName: string) => void;
+}) => {
+  const { members, handleTransfer, isTransferring } = useTransferOwnershipLogic({ projectId: project.id, onTransferred });
+
+  return (
+    <TransferOwnershipDialog
+      isOpen
+      onClose={onClose}
+      project={project}
+      members={members}
+      onTransfer={handleTransfer}
+      isTransferring={isTransferring}
+    />
+  );
+};
+
+/**
+ * プロジェクト設定ページのコンテンツ
+ */
+const ProjectSettingsContent = () => {
+  const params = useParams();
+  const { id: projectId } = ProjectSettingsParamsSchema.parse(params);
+  const {
+    project,
+    settings,
+    lifecycleStatus,
+    isReadOnly,
+    handleBackToDetail,
+    handleUpdateGeneral,
+    handleUpdateSettings,
+    handleArchive,
+    handleUnarchive,
+    handleDelete,
+    notice,
+    deleteError,
+    isUpdatingGeneral,
+    isUpdatingSettings,
+    isChangingLifecycle,
+    isDeleting,
+  } = useProjectSettingsLogic({ projectId });
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
+  const [transferNotice, setTransferNotice] = useState<string | null>(null);
+
+  useCurrentProjectCommands({ projectId, projectName: project.name });
+
+  return (
+    <PageLayout>
+      <PageHeader
+        title={`${project.name} - 設定`}
+        action={
+          <Button variant="outline" onClick={handleBackToDetail}>
+            プロジェクト詳細に戻る
+          </Button>
+        }
+      />
+
+      {/* アーカイブ済み・ゴミ箱のプロジェクトは設定を変更できない */}
+      {lifecycleStatus === "archived" && <p className="mb-4 text-sm text-muted-foreground">{PROJECT_MESSAGES.HINTS.ARCHIVED_READ_ONLY}</p>}
+      {lifecycleStatus === "trashed" && (
+        <p className="mb-4 text-sm text-muted-foreground">{PROJECT_MESSAGES.HINTS.trashed(getDaysUntilPurge(project) ?? 0)}</p>
+      )}
+
+      {notice !== null && (
+        <div className="mb-4">
+          {notice.type === "error" ? <ErrorMessage message={notice.message} /> : <p className="text-sm text-green-700">{notice.message}</p>}
+        </div>
+      )}
+
+      {transferNotice !== null && <p className="mb-4 text-sm text-green-700">{transferNotice}</p>}
+
+      <div className="space-y-6">
+        <GeneralSettingsSection project={project} onSave={handleUpdateGeneral} isSaving={isUpdatingGeneral} disabled={isReadOnly} />
+
+        <MemberPolicySection settings={settings} onSave={handleUpdateSettings} isSaving={isUpdatingSettings} disabled={isReadOnly} />
+
+        {lifecycleStatus !== "trashed" && (
+          <DangerZoneSection
+            projectId={projectId}
+            lifecycleStatus={lifecycleStatus}
+            onArchive={handleArchive}
+            onUnarchive={handleUnarchive}
+            onTransfer={() => setShowTransferDialog(true)}
+            onDelete={() => setShowDeleteDialog(true)}
+            isChangingLifecycle={isChangingLifecycle}
+          />
+        )}
+      </div>
+
+      {/* オーナー移譲ダイアログ */}
+      {showTransferDialog && (
+        <ErrorBoundary FallbackComponent={MainErrorFallback}>
+          <Suspense fallback={null}>
+            <TransferOwnershipSection
+              project={project}
+              onClose={() => setShowTransferDialog(false)}
+              onTransferred={(newOwnerName) => setTransferNotice(PROJECT_MESSAGES.SUCCESS.ownershipTransferred(newOwnerName))}
+            />
+          </Suspense>
+        </ErrorBoundary>
+      )}
+
+      {/* ゴミ箱への移動の確認ダイアログ */}
+      <DeleteProjectDialog
+        isOpen={showDeleteDialog}
+        onClose={() => setShowDeleteDialog(false)}
+        project={project}
+        onDelete={handleDelete}
+        isDeleting={isDeleting}
+        error={deleteError}
+      />
+    </PageLayout>
+  );
+};
+
+/**
+ * プロジェクト設定ページ（Client Component）
+ *
+ * 基本情報、新しいメンバーの既定のロール、メンバーの招待ポリシーを設定し、
+ * アーカイブ・オーナー移譲・ゴミ箱への移動といった危険な操作をまとめて提供します。
+ * ページの表示には project:manage_settings 権限が必要です（config/route-permissions で制御）。
+ */
+const ProjectSettings = () => {
+  return (
+    <ErrorBoundary FallbackComponent={MainErrorFallback}>
+      <Suspense fallback={<LoadingSpinner fullScreen />}>
+        <ProjectSettingsContent />
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
+
+export default ProjectSettings;
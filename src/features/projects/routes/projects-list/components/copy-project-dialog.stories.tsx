@@ -0,0 +1,130 @@
+import type { Meta, StoryObj } from "@storybook/nextjs-vite";
+import { expect, fn, userEvent, within } from "@storybook/test";
+import { http, HttpResponse } from "msw";
+
+import { CopyProjectDialog } from "./copy-project-dialog";
+
+/**
+ * ストーリー用のユーザーデータを生成
+ */
+const user = (id: string, name: string, isActive = true) => ({
+  id,
+  azure_oid: `azure-oid-${id}`,
+  email: `${id}@example.com`,
+  display_name: name,
+  roles: ["user"],
+  is_active: isActive,
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+  last_login: null,
+});
+
+const templates = [
+  {
+    id: "template-1",
+    name: "受託開発",
+    description: "顧客向けの受託開発案件の標準構成です",
+    project_description: "顧客向けの開発プロジェクトです。",
+    default_member_role: "member",
+    invite_policy: "managers_only",
+    created_at: "2024-01-10T00:00:00Z",
+    updated_at: "2024-01-10T00:00:00Z",
+  },
+];
+
+const projects = [
+  {
+    id: "project-2",
+    name: "Webサイトリニューアル",
+    description: "コーポレートサイトの全面リニューアル",
+    is_active: true,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-06-10T12:30:00Z",
+    created_by: "user-1",
+    deleted_at: null,
+  },
+];
+
+/**
+ * 複製プレビュー（競合のあるメンバーを含む）
+ */
+const preview = {
+  name: "Webサイトリニューアルのコピー",
+  description: "コーポレートサイトの全面リニューアル",
+  default_member_role: "member",
+  invite_policy: "managers_only",
+  members: [
+    { user: user("user-1", "田中 太郎"), role: "project_manager", conflict: null },
+    { user: user("user-2", "鈴木 花子", false), role: "member", conflict: "inactive_user" },
+    { user: user("user-3", "佐藤 次郎"), role: "viewer", conflict: "expired_membership" },
+  ],
+};
+
+const handlers = [
+  http.get("*/api/v1/project-templates", () => HttpResponse.json({ data: templates })),
+  http.get("*/api/v1/projects", () => HttpResponse.json({ data: projects, total: 1, page: 1, size: 100, total_pages: 1 })),
+  http.get("*/api/v1/projects/copy-preview", () => HttpResponse.json({ data: preview })),
+];
+
+/**
+ * CopyProjectDialogコンポーネントのストーリー
+ *
+ * テンプレート・既存のプロジェクトからプロジェクトを作成するダイアログ。
+ * コピー元を選択したあと、コピーされる説明・設定・メンバーを確認してから作成します。
+ */
+const meta = {
+  title: "features/projects/routes/projects-list/components/CopyProjectDialog",
+  component: CopyProjectDialog,
+  parameters: {
+    layout: "centered",
+    msw: { handlers },
+  },
+  args: {
+    isOpen: true,
+    onClose: fn(),
+    onCopy: fn(async () => {}),
+    isCopying: false,
+  },
+  tags: ["autodocs"],
+} satisfies Meta<typeof CopyProjectDialog>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * コピー元の選択
+ */
+export const Default: Story = {};
+
+/**
+ * プロジェクトの複製（メンバーの競合を含むプレビュー）
+ *
+ * 無効化されたユーザーは選択できず、有効期限切れのメンバーは初期状態でコピーしません。
+ */
+export const PreviewWithConflicts: Story = {
+  // FIXME: @storybook/test v9安定版リリース待ち
+  // Vitest環境でダイアログ表示が正常に動作しない問題
+  play: async ({ args }) => {
+    // ダイアログはPortalでレンダリングされるためdocument.bodyから検索
+    const body = within(document.body);
+
+    await userEvent.click(await body.findByLabelText("既存のプロジェクトを複製"));
+    await userEvent.click(await body.findByRole("combobox", { name: /複製するプロジェクト/ }));
+    await userEvent.click(await body.findByRole("option", { name: "Webサイトリニューアル" }));
+    await userEvent.click(body.getByRole("button", { name: "次へ" }));
+
+    expect(await body.findByDisplayValue("Webサイトリニューアルのコピー")).toBeInTheDocument();
+    expect(body.getByRole("checkbox", { name: "田中 太郎" })).toBeChecked();
+    expect(body.getByRole("checkbox", { name: "鈴木 花子" })).toBeDisabled();
+    expect(body.getByRole("checkbox", { name: "佐藤 次郎" })).not.toBeChecked();
+
+    await userEvent.click(body.getByRole("button", { name: "作成" }));
+    await expect(args.onCopy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: { type: "project", project_id: "project-2", include_members: true },
+        members: [{ user_id: "user-1", role: "project_manager" }],
+      })
+    );
+  },
+  tags: ["skip"],
+};
@@ -0,0 +1,384 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Suspense, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { Controller, useForm, useWatch } from "react-hook-form";
+
+import { MainErrorFallback } from "@/components/errors/main";
+import { Button } from "@/components/sample-ui/button";
+import { Checkbox } from "@/components/sample-ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+import {
+  ControlledCheckboxField,
+  ControlledInputField,
+  ControlledRadioGroupField,
+  ControlledSelectField,
+  ControlledTextareaField,
+} from "@/components/sample-ui/form-field/controlled-form-field";
+import { Label } from "@/components/sample-ui/label";
+import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+import { PAGINATION } from "@/config/constants";
+import { useProjectTemplates } from "@/features/project-templates/api/get-project-templates";
+import { ApiError } from "@/lib/api-error";
+import { setValidationErrors } from "@/lib/form-errors";
+
+import { useProjectCopyPreview, useProjects } from "../../../api";
+import { RoleBadge } from "../../../components/role-badge";
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import { INVITE_POLICY_LABELS } from "../../../constants/settings";
+import {
+  copyProjectFormSchema,
+  type CopyProjectFormValues,
+  type CopyProjectInput,
+  type ProjectCopySource,
+  projectCopySourceFormSchema,
+  type ProjectCopySourceFormValues,
+} from "../../../types/forms";
+
+type CopyProjectDialogProps = {
+  /** ダイアログの表示状態 */
+  isOpen: boolean;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 作成処理ハンドラー */
+  onCopy: (data: CopyProjectInput) => Promise<void>;
+  /** 作成中かどうか */
+  isCopying: boolean;
+};
+
+const SOURCE_TYPE_OPTIONS = [
+  { value: "template", label: "テンプレートから作成", description: "テンプレートのプロジェクトの説明と設定をコピーします" },
+  {
+    value: "project",
+    label: "既存のプロジェクトを複製",
+    description: "プロジェクトの説明と設定をコピーします。メンバーとロールもコピーできます",
+  },
+];
+
+/**
+ * 複製元の選択フォームの値を、API の複製元に変換する
+ */
+const toCopySource = (values: ProjectCopySourceFormValues): ProjectCopySource => {
+  return values.type === "template"
+    ? { type: "template", template_id: values.template_id }
+    : { type: "project", project_id: values.project_id, include_members: values.include_members };
+};
+
+// ================================================================================
+// Step 1: 複製元の選択
+// ================================================================================
+
+type CopySourceFormProps = {
+  /** 前回選択した複製元（プレビューから戻った場合） */
+  defaultValues: ProjectCopySourceFormValues;
+  onCancel: () => void;
+  onNext: (values: ProjectCopySourceFormValues) => void;
+};
+
+/**
+ * 複製元（テンプレート・プロジェクト）の選択フォーム
+ *
+ * 複製できるプロジェクトは、閲覧できるゴミ箱以外のプロジェクト（名前順で先頭の最大件数まで）です。
+ */
+const CopySourceForm = ({ defaultValues, onCancel, onNext }: CopySourceFormProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data: templatesData } = useProjectTemplates();
+  const { data: projectsData } = useProjects({ size: Math.max(...PAGINATION.PAGE_SIZE_OPTIONS), sort: "name" });
+
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const { control, handleSubmit } = useForm<ProjectCopySourceFormValues>({
+    resolver: zodResolver(projectCopySourceFormSchema),
+    defaultValues,
+  });
+
+  const type = useWatch({ control, name: "type" });
+
+  return (
+    <form onSubmit={handleSubmit(onNext)} className="space-y-4">
+      <ControlledRadioGroupField control={control} name="type" label="作成方法" options={SOURCE_TYPE_OPTIONS} required />
+
+      {type === "template" ? (
+        <>
+          <ControlledSelectField
+            control={control}
+            name="template_id"
+            label="テンプレート"
+            options={templatesData.data.map((template) => ({ value: template.id, label: template.name }))}
+            required
+          />
+          {templatesData.data.length === 0 && <p className="text-sm text-gray-500">テンプレートがありません</p>}
+        </>
+      ) : (
+        <>
+          <ControlledSelectField
+            control={control}
+            name="project_id"
+            label="複製するプロジェクト"
+            options={projectsData.data.map((project) => ({ value: project.id, label: project.name }))}
+            required
+          />
+          <ControlledCheckboxField
+            control={control}
+            name="include_members"
+            label="メンバーとロールもコピーする"
+            description="次の画面で、コピーするメンバーを選択できます"
+          />
+        </>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          キャンセル
+        </Button>
+        <Button type="submit">次へ</Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+// ================================================================================
+// Step 2: プレビュー
+// ================================================================================
+
+type CopyPreviewFormProps = {
+  source: ProjectCopySource;
+  onBack: () => void;
+  onCopy: (data: CopyProjectInput) => Promise<void>;
+  onCopied: () => void;
+  isCopying: boolean;
+};
+
+/**
+ * コピーされる内容のプレビューと、作成するプロジェクトの入力フォーム
+ *
+ * 競合のあるメンバー（無効化されたユーザー・有効期限切れ）は、初期状態ではコピーしません。
+ * 無効化されたユーザーはコピーできないため、選択できません。
+ */
+const CopyPreviewForm = ({ source, onBack, onCopy, onCopied, isCopying }: CopyPreviewFormProps) => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const { data } = useProjectCopyPreview({ source });
+  const preview = data.data;
+
+  // ================================================================================
+  // Form
+  // ================================================================================
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setError,
+    getValues,
+  } = useForm<CopyProjectFormValues>({
+    resolver: zodResolver(copyProjectFormSchema),
+    defaultValues: {
+      name: preview.name,
+      description: preview.description ?? "",
+      members: preview.members.map((member) => ({
+        user_id: member.user.id,
+        role: member.role,
+        include: member.conflict === null,
+      })),
+    },
+  });
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const onSubmit = handleSubmit(({ members, ...values }: CopyProjectFormValues) => {
+    // リクエストには選択したメンバーだけを送るため、リクエストの添字とフォームの行の対応を保持する
+    const includedRows = members.flatMap((member, index) => (member.include ? [index] : []));
+
+    onCopy({
+      ...values,
+      source,
+      members: includedRows.map((index) => ({ user_id: members[index].user_id, role: members[index].role })),
+    })
+      .then(onCopied)
+      .catch((error: unknown) => {
+        const isValidationError = setValidationErrors(
+          error,
+          { setError, getValues },
+          {
+            // メンバーのエラー（members.{添字}.user_id）は、フォームの該当する行に表示する
+            mapPath: (path) =>
+              path.replace(/^members\.(\d+)\.user_id$/, (_, index: string) => `members.${includedRows[Number(index)]}.include`),
+          }
+        );
+
+        if (!isValidationError) {
+          setError("root", {
+            message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.COPY_FAILED,
+          });
+        }
+      });
+  });
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <ControlledInputField control={control} name="name" label="プロジェクト名" placeholder="プロジェクト名を入力" required />
+
+      <ControlledTextareaField control={control} name="description" label="説明" placeholder="プロジェクトの説明を入力（任意）" rows={3} />
+
+      <section aria-labelledby="copy-project-settings" className="rounded-md bg-muted p-4">
+        <h3 id="copy-project-settings" className="mb-2 text-sm font-medium text-gray-900">
+          コピーされる設定
+        </h3>
+        <dl className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 text-sm">
+          <dt className="text-gray-500">新しいメンバーの既定のロール</dt>
+          <dd>
+            <RoleBadge role={preview.default_member_role} />
+          </dd>
+          <dt className="text-gray-500">メンバーを招待・追加できるロール</dt>
+          <dd>{INVITE_POLICY_LABELS[preview.invite_policy]}</dd>
+        </dl>
+      </section>
+
+      {source.type === "project" && source.include_members && (
+        <section aria-labelledby="copy-project-members">
+          <h3 id="copy-project-members" className="mb-2 text-sm font-medium text-gray-900">
+            コピーするメンバー
+          </h3>
+          {preview.members.length === 0 ? (
+            <p className="text-sm text-gray-500">コピーできるメンバーがいません</p>
+          ) : (
+            <ul className="max-h-60 divide-y overflow-y-auto rounded-md border">
+              {preview.members.map((member, index) => {
+                const id = `copy-member-${member.user.id}`;
+                const memberError = errors.members?.[index]?.include?.message;
+
+                return (
+                  <li key={member.user.id} className="flex items-start gap-3 px-3 py-2">
+                    <Controller
+                      control={control}
+                      name={`members.${index}.include`}
+                      render={({ field }) => (
+                        <Checkbox
+                          id={id}
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          disabled={member.conflict === "inactive_user"}
+                        />
+                      )}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <Label htmlFor={id} className="font-normal">
+                        {member.user.display_name ?? member.user.email}
+                      </Label>
+                      {member.conflict !== null && (
+                        <p className="mt-1 text-xs text-amber-700">{PROJECT_MESSAGES.COPY_CONFLICTS[member.conflict]}</p>
+                      )}
+                      {memberError !== undefined && <p className="mt-1 text-xs text-red-500">{memberError}</p>}
+                    </div>
+                    <RoleBadge role={member.role} />
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <p className="mt-2 text-xs text-gray-500">{PROJECT_MESSAGES.HINTS.COPY_CREATOR_ROLE}</p>
+        </section>
+      )}
+
+      {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onBack} disabled={isCopying}>
+          戻る
+        </Button>
+        <Button type="submit" disabled={isCopying}>
+          {isCopying ? "作成中..." : "作成"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * テンプレート・既存のプロジェクトからのプロジェクト作成ダイアログコンポーネント
+ *
+ * 1. テンプレートまたは複製するプロジェクトを選択（プロジェクトの場合はメンバーをコピーするかも選択）
+ * 2. コピーされる説明・設定・メンバーを確認し、プロジェクト名などを入力して作成
+ *
+ * 無効化されたユーザーなど、コピー時に確認が必要なメンバーはプレビューで理由を表示します。
+ * API がバリデーションエラーを返した場合は、プロジェクト名・メンバーの該当する行にエラーを表示し、
+ * それ以外のエラーは Problem Details の detail をフォームのエラーとして表示します。
+ *
+ * @param props - CopyProjectDialogコンポーネントのプロパティ
+ * @returns プロジェクト複製ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <CopyProjectDialog
+ *   isOpen={isDialogOpen}
+ *   onClose={() => setIsDialogOpen(false)}
+ *   onCopy={handleCopy}
+ *   isCopying={isCopying}
+ * />
+ * ```
+ */
+export const CopyProjectDialog = ({ isOpen, onClose, onCopy, isCopying }: CopyProjectDialogProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [sourceValues, setSourceValues] = useState<ProjectCopySourceFormValues>({
+    type: "template",
+    template_id: "",
+    project_id: "",
+    include_members: true,
+  });
+  const [step, setStep] = useState<"source" | "preview">("source");
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleClose = () => {
+    setStep("source");
+    onClose();
+  };
+
+  const handleNext = (values: ProjectCopySourceFormValues) => {
+    setSourceValues(values);
+    setStep("preview");
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>テンプレート・既存のプロジェクトから作成</DialogTitle>
+          <DialogDescription>
+            {step === "source" ? "コピー元を選択してください" : "コピーされる内容を確認して、プロジェクトを作成します"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ErrorBoundary FallbackComponent={MainErrorFallback} resetKeys={[step]}>
+          <Suspense fallback={<LoadingSpinner />}>
+            {step === "source" ? (
+              <CopySourceForm defaultValues={sourceValues} onCancel={handleClose} onNext={handleNext} />
+            ) : (
+              <CopyPreviewForm
+                source={toCopySource(sourceValues)}
+                onBack={() => setStep("source")}
+                onCopy={onCopy}
+                onCopied={handleClose}
+                isCopying={isCopying}
+              />
+            )}
+          </Suspense>
+        </ErrorBoundary>
+      </DialogContent>
+    </Dialog>
+  );
+};
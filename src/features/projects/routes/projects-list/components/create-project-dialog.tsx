@@ -6,12 +6,11 @@ import { useForm } from "react-hook-form";
 import { Button } from "@/components/sample-ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
 import { ErrorMessage } from "@/components/sample-ui/error-message";
-import {
-  ControlledCheckboxField,
-  ControlledInputField,
-  ControlledTextareaField,
-} from "@/components/sample-ui/form-field/controlled-form-field";
+import { ControlledInputField, ControlledTextareaField } from "@/components/sample-ui/form-field/controlled-form-field";
+import { ApiError } from "@/lib/api-error";
+import { setValidationErrors } from "@/lib/form-errors";
 
+import { PROJECT_MESSAGES } from "../../../constants/messages";
 import { type CreateProjectInput, createProjectSchema } from "../../../types/forms";
 
 type CreateProjectDialogProps = {
@@ -29,6 +28,7 @@ type CreateProjectDialogProps = {
  * プロジェクト新規作成ダイアログコンポーネント
  *
  * プロジェクトを新規作成するためのダイアログ。
+ * API がバリデーションエラーを返した場合は、該当するフィールドにエラーを表示します。
  * アクセシビリティ対応（キーボードナビゲーション、ARIA属性）を実装しています。
  *
  * @param props - CreateProjectDialogコンポーネントのプロパティ
@@ -53,12 +53,13 @@ export const CreateProjectDialog = ({ isOpen, onClose, onCreate, isCreating = fa
     handleSubmit,
     formState: { errors },
     reset,
+    setError,
+    getValues,
   } = useForm<CreateProjectInput>({
     resolver: zodResolver(createProjectSchema),
     defaultValues: {
       name: "",
       description: "",
-      is_active: true,
     },
   });
 
@@ -71,8 +72,12 @@ export const CreateProjectDialog = ({ isOpen, onClose, onCreate, isCreating = fa
         reset();
         onClose();
       })
-      .catch(() => {
-        // エラーハンドリングは親コンポーネントで行う
+      .catch((error: unknown) => {
+        if (!setValidationErrors(error, { setError, getValues })) {
+          setError("root", {
+            message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.CREATE_FAILED,
+          });
+        }
       });
   });
 
@@ -100,8 +105,6 @@ export const CreateProjectDialog = ({ isOpen, onClose, onCreate, isCreating = fa
             rows={4}
           />
 
-          <ControlledCheckboxField control={control} name="is_active" label="アクティブ" />
-
           {errors.root && <ErrorMessage message={errors.root.message ?? ""} />}
 
           <DialogFooter>
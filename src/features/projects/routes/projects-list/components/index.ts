@@ -1,2 +1,8 @@
+export * from "./copy-project-dialog";
 export * from "./create-project-dialog";
+export * from "./project-search-form";
+export * from "./project-status-filter";
+export * from "./projects-pagination";
 export * from "./projects-table";
+export * from "./purge-project-dialog";
+export * from "./trashed-projects-table";
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/sample-ui/button";
+import { Input } from "@/components/sample-ui/input";
+import { Label } from "@/components/sample-ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/sample-ui/select";
+
+import { type ProjectSort, projectSortSchema } from "../../../types/forms";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type ProjectSearchFormProps = {
+  /** 現在のキーワード */
+  q: string;
+  /** 現在の並び順 */
+  sort: ProjectSort;
+  /** キーワード検索ハンドラー */
+  onSearch: (q: string) => void;
+  /** 並び順の変更ハンドラー */
+  onSortChange: (sort: ProjectSort) => void;
+};
+
+// ================================================================================
+// Constants
+// ================================================================================
+
+const SORT_OPTIONS: { value: ProjectSort; label: string }[] = [
+  { value: "-updated_at", label: "更新日（新しい順）" },
+  { value: "updated_at", label: "更新日（古い順）" },
+  { value: "-created_at", label: "作成日（新しい順）" },
+  { value: "created_at", label: "作成日（古い順）" },
+  { value: "name", label: "名前（昇順）" },
+  { value: "-name", label: "名前（降順）" },
+];
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * プロジェクト検索フォームコンポーネント
+ *
+ * プロジェクト名・説明のキーワードと、一覧の並び順を指定します。
+ * キーワードは入力のたびではなく、検索ボタン（または Enter）で確定したときに onSearch が呼ばれます。
+ * 検索条件は URL に反映されるため、ブラウザの戻る・進むで条件が変わる場合は key に q を指定して入力欄を初期化してください。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.q - 現在のキーワード
+ * @param props.sort - 現在の並び順
+ * @param props.onSearch - キーワード検索時のコールバック関数
+ * @param props.onSortChange - 並び順の変更時のコールバック関数
+ * @returns プロジェクト検索フォームコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <ProjectSearchForm key={query.q} q={query.q} sort={query.sort} onSearch={handleSearch} onSortChange={handleSortChange} />
+ * ```
+ */
+export const ProjectSearchForm = ({ q, sort, onSearch, onSortChange }: ProjectSearchFormProps) => {
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [keyword, setKeyword] = useState(q);
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onSearch(keyword.trim());
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-end gap-4">
+      <form role="search" onSubmit={handleSubmit} className="flex min-w-64 flex-1 items-end gap-2">
+        <div className="flex flex-1 flex-col gap-2">
+          <Label htmlFor="projects-search">キーワード</Label>
+          <Input
+            id="projects-search"
+            type="search"
+            placeholder="プロジェクト名・説明で検索"
+            value={keyword}
+            maxLength={100}
+            onChange={(e) => setKeyword(e.target.value)}
+          />
+        </div>
+        <Button type="submit" variant="outline">
+          検索
+        </Button>
+      </form>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="projects-sort">並び順</Label>
+        <Select value={sort} onValueChange={(value) => onSortChange(projectSortSchema.parse(value))}>
+          <SelectTrigger id="projects-sort" className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+"use client";
+
+import { Button } from "@/components/sample-ui/button";
+
+import type { ProjectLifecycleStatus } from "../../../types";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type ProjectStatusFilterProps = {
+  /** 選択中の状態 */
+  value: ProjectLifecycleStatus;
+  /** 状態の切り替えハンドラー */
+  onChange: (status: ProjectLifecycleStatus) => void;
+};
+
+// ================================================================================
+// Constants
+// ================================================================================
+
+const STATUS_OPTIONS: { value: ProjectLifecycleStatus; label: string }[] = [
+  { value: "active", label: "アクティブ" },
+  { value: "archived", label: "アーカイブ" },
+  { value: "trashed", label: "ゴミ箱" },
+];
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * プロジェクト一覧のライフサイクル状態フィルターコンポーネント
+ *
+ * アクティブ・アーカイブ・ゴミ箱のいずれかを選択し、一覧に表示するプロジェクトを切り替えます。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @returns 状態フィルターコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <ProjectStatusFilter value={status} onChange={setStatus} />
+ * ```
+ */
+export const ProjectStatusFilter = ({ value, onChange }: ProjectStatusFilterProps) => {
+  return (
+    <div role="group" aria-label="表示するプロジェクト" className="mb-4 flex gap-2">
+      {STATUS_OPTIONS.map((option) => (
+        <Button
+          key={option.value}
+          variant={option.value === value ? "default" : "outline"}
+          size="sm"
+          aria-pressed={option.value === value}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+};
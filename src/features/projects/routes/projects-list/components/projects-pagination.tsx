@@ -0,0 +1,99 @@
+"use client";
+
+import { Button } from "@/components/sample-ui/button";
+import { Label } from "@/components/sample-ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/sample-ui/select";
+import { PAGINATION } from "@/config/constants";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type ProjectsPaginationProps = {
+  /** 検索条件に一致するプロジェクトの総数 */
+  total: number;
+  /** 現在のページ番号（1始まり） */
+  page: number;
+  /** 1ページの件数 */
+  size: number;
+  /** 総ページ数 */
+  totalPages: number;
+  /** ページの切り替えハンドラー */
+  onPageChange: (page: number) => void;
+  /** 1ページの件数の変更ハンドラー */
+  onSizeChange: (size: number) => void;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * プロジェクト一覧のページネーションコンポーネント
+ *
+ * 表示中の件数の範囲、前後のページへの移動、1ページの件数の切り替えを提供します。
+ * 検索条件に一致するプロジェクトがない場合は何も表示しません。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @returns ページネーションコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <ProjectsPagination
+ *   total={data.total}
+ *   page={data.page}
+ *   size={data.size}
+ *   totalPages={data.total_pages}
+ *   onPageChange={handlePageChange}
+ *   onSizeChange={handleSizeChange}
+ * />
+ * ```
+ */
+export const ProjectsPagination = ({ total, page, size, totalPages, onPageChange, onSizeChange }: ProjectsPaginationProps) => {
+  if (total === 0) {
+    return null;
+  }
+
+  const from = Math.min((page - 1) * size + 1, total);
+  const to = Math.min(page * size, total);
+
+  return (
+    <nav aria-label="ページネーション" className="mt-4 flex flex-wrap items-center justify-between gap-4">
+      <p className="text-sm text-gray-600">
+        全{total}件中 {from}〜{to}件を表示
+      </p>
+
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="projects-page-size" className="whitespace-nowrap text-sm">
+            表示件数
+          </Label>
+          <Select value={String(size)} onValueChange={(value) => onSizeChange(Number(value))}>
+            <SelectTrigger id="projects-page-size" className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGINATION.PAGE_SIZE_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}件
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+            前へ
+          </Button>
+          <span className="text-sm text-gray-700" aria-current="page">
+            {page} / {Math.max(totalPages, 1)} ページ
+          </span>
+          <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= totalPages}>
+            次へ
+          </Button>
+        </div>
+      </div>
+    </nav>
+  );
+};
@@ -5,6 +5,8 @@ import { format } from "date-fns";
 import { Button } from "@/components/sample-ui/button";
 import type { Project } from "@/features/projects/types";
 
+import { ProjectStatusBadge } from "../../../components/project-status-badge";
+
 // ================================================================================
 // Props
 // ================================================================================
@@ -84,13 +86,7 @@ export const ProjectsTable = ({ projects, onViewProject, onViewMembers }: Projec
                 <div className="text-sm text-gray-500">{project.description || "-"}</div>
               </td>
               <td className="whitespace-nowrap px-6 py-4">
-                <span
-                  className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
-                    project.is_active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
-                  }`}
-                >
-                  {project.is_active ? "アクティブ" : "非アクティブ"}
-                </span>
+                <ProjectStatusBadge project={project} />
               </td>
               <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">{format(new Date(project.created_at), "yyyy/MM/dd")}</td>
               <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
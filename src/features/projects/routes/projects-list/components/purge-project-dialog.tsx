@@ -0,0 +1,72 @@
+"use client";
+
+import { Button } from "@/components/sample-ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/sample-ui/dialog";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
+
+import { PROJECT_MESSAGES } from "../../../constants/messages";
+import type { Project } from "../../../types";
+
+type PurgeProjectDialogProps = {
+  /** 完全に削除するプロジェクト（null の場合はダイアログを表示しない） */
+  project: Project | null;
+  /** ダイアログを閉じる処理 */
+  onClose: () => void;
+  /** 完全削除処理ハンドラー */
+  onPurge: (project: Project) => void;
+  /** 削除中かどうか */
+  isPurging: boolean;
+  /** 削除エラーメッセージ */
+  error?: string | null;
+};
+
+/**
+ * プロジェクト完全削除確認ダイアログコンポーネント
+ *
+ * ゴミ箱のプロジェクトを完全に削除する前に、取り消せない操作であることを確認します。
+ *
+ * @param props - PurgeProjectDialogコンポーネントのプロパティ
+ * @returns 完全削除確認ダイアログ要素
+ *
+ * @example
+ * ```tsx
+ * <PurgeProjectDialog
+ *   project={purgeTarget}
+ *   onClose={() => setPurgeTarget(null)}
+ *   onPurge={handlePurge}
+ *   isPurging={isPurging}
+ *   error={purgeError}
+ * />
+ * ```
+ */
+export const PurgeProjectDialog = ({ project, onClose, onPurge, isPurging, error }: PurgeProjectDialogProps) => {
+  if (!project) {
+    return null;
+  }
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>プロジェクトの完全削除</DialogTitle>
+          <DialogDescription>{PROJECT_MESSAGES.CONFIRM.purgeProject(project.name)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-red-600">{PROJECT_MESSAGES.CONFIRM.PURGE_PROJECT_WARNING}</p>
+
+          {error && <ErrorMessage message={error} />}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPurging}>
+            キャンセル
+          </Button>
+          <Button variant="destructive" onClick={() => onPurge(project)} disabled={isPurging}>
+            {isPurging ? "削除中..." : "完全に削除"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
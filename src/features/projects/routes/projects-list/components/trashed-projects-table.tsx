@@ -0,0 +1,104 @@
+"use client";
+
+import { format } from "date-fns";
+
+import { Button } from "@/components/sample-ui/button";
+import type { Project } from "@/features/projects/types";
+
+import { Can } from "../../../components/can";
+import { getDaysUntilPurge, PROJECT_TRASH_RETENTION_DAYS } from "../../../utils/project-lifecycle";
+
+// ================================================================================
+// Props
+// ================================================================================
+
+type TrashedProjectsTableProps = {
+  projects: Project[];
+  onRestore: (project: Project) => void;
+  onPurge: (project: Project) => void;
+  /** 処理中のプロジェクトID（該当行のボタンを無効化） */
+  processingId?: string | null;
+};
+
+// ================================================================================
+// Component
+// ================================================================================
+
+/**
+ * ゴミ箱のプロジェクト一覧テーブルコンポーネント
+ *
+ * ゴミ箱に移動した日時と、完全に削除されるまでの残り日数を表示します。
+ * 復元・完全削除は project:delete 権限がある場合のみ表示します。
+ *
+ * @param props - コンポーネントのプロパティ
+ * @param props.projects - ゴミ箱のプロジェクトの配列
+ * @param props.onRestore - 復元時のコールバック関数
+ * @param props.onPurge - 完全削除時のコールバック関数
+ * @param props.processingId - 処理中のプロジェクトID
+ * @returns ゴミ箱のプロジェクト一覧テーブルコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <TrashedProjectsTable projects={projects} onRestore={handleRestore} onPurge={setPurgeTarget} />
+ * ```
+ */
+export const TrashedProjectsTable = ({ projects, onRestore, onPurge, processingId = null }: TrashedProjectsTableProps) => {
+  // ================================================================================
+  // Render - Empty State
+  // ================================================================================
+
+  if (projects.length === 0) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+        <p className="text-gray-500">ゴミ箱は空です</p>
+      </div>
+    );
+  }
+
+  // ================================================================================
+  // Render - Table
+  // ================================================================================
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">ゴミ箱のプロジェクトは{PROJECT_TRASH_RETENTION_DAYS}日後に完全に削除されます。</p>
+      <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">プロジェクト名</th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">ゴミ箱に移動した日</th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">完全削除まで</th>
+              <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">アクション</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {projects.map((project) => (
+              <tr key={project.id} className="hover:bg-gray-50">
+                <td className="whitespace-nowrap px-6 py-4">
+                  <div className="text-sm font-medium text-gray-900">{project.name}</div>
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                  {project.deleted_at !== null && format(new Date(project.deleted_at), "yyyy/MM/dd")}
+                </td>
+                <td className="whitespace-nowrap px-6 py-4 text-sm text-red-600">あと{getDaysUntilPurge(project)}日</td>
+                <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                  <Can projectId={project.id} permission="project:delete">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => onRestore(project)} disabled={processingId === project.id}>
+                        復元
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => onPurge(project)} disabled={processingId === project.id}>
+                        完全に削除
+                      </Button>
+                    </div>
+                  </Can>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,39 +1,159 @@
 "use client";
 
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useState, useTransition } from "react";
 
-import { useCreateProject, useProjects } from "../../api";
-import type { CreateProjectInput } from "../../types/forms";
+import { ApiError } from "@/lib/api-error";
+
+import { useCopyProject, useCreateProject, useProjects, usePurgeProject, useRestoreProject } from "../../api";
+import { PROJECT_MESSAGES } from "../../constants/messages";
+import type { Project, ProjectLifecycleStatus } from "../../types";
+import {
+  type CopyProjectInput,
+  type CreateProjectInput,
+  DEFAULT_PROJECTS_LIST_QUERY,
+  type ProjectsListQuery,
+  projectsListQuerySchema,
+  type ProjectSort,
+} from "../../types/forms";
+
+/**
+ * プロジェクト一覧の検索条件を URL の検索パラメータと同期するカスタムフック
+ *
+ * 検索条件（ページ・件数・並び順・キーワード・ライフサイクル状態）を URL の検索パラメータから読み取り、
+ * 変更時は URL を置き換えます。URL を共有・再読み込みしても同じ一覧を表示でき、初期値の条件は URL に含めません。
+ * ページ以外の条件を変更した場合は 1 ページ目に戻ります。
+ * URL の置き換えはトランジションで行うため、読み込みが終わるまで切り替え前の一覧を表示し続けます（isPending）。
+ *
+ * @returns 検索条件と変更関数
+ * @returns query - 現在の検索条件（不正な値は初期値に置き換え済み）
+ * @returns isPending - 検索条件の切り替え中フラグ
+ * @returns handlePageChange - ページの切り替え
+ * @returns handleSizeChange - 1ページの件数の変更
+ * @returns handleSortChange - 並び順の変更
+ * @returns handleSearch - キーワード検索
+ * @returns handleStatusChange - ライフサイクル状態の切り替え
+ *
+ * @example
+ * ```tsx
+ * const { query, handlePageChange } = useProjectsListQuery()
+ * const { projects } = useProjectsListLogic({ query })
+ *
+ * <button onClick={() => handlePageChange(query.page + 1)}>次へ</button>
+ * ```
+ */
+export const useProjectsListQuery = () => {
+  // ================================================================================
+  // Hooks
+  // ================================================================================
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  // ================================================================================
+  // Computed
+  // ================================================================================
+  const query = projectsListQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  /**
+   * 検索条件を変更して URL を置き換える
+   */
+  const updateQuery = (changes: Partial<ProjectsListQuery>) => {
+    const next: ProjectsListQuery = { ...query, page: 1, ...changes };
+    const params = new URLSearchParams();
+
+    for (const key of Object.keys(next) as (keyof ProjectsListQuery)[]) {
+      if (next[key] !== DEFAULT_PROJECTS_LIST_QUERY[key]) {
+        params.set(key, String(next[key]));
+      }
+    }
+
+    const search = params.toString();
+    startTransition(() => {
+      router.replace(search === "" ? pathname : `${pathname}?${search}`, { scroll: false });
+    });
+  };
+
+  const handlePageChange = (page: number) => updateQuery({ page });
+  const handleSizeChange = (size: number) => updateQuery({ size });
+  const handleSortChange = (sort: ProjectSort) => updateQuery({ sort });
+  const handleSearch = (q: string) => updateQuery({ q });
+  const handleStatusChange = (status: ProjectLifecycleStatus) => updateQuery({ status });
+
+  // ================================================================================
+  // 戻り値
+  // ================================================================================
+  return {
+    query,
+    isPending,
+    handlePageChange,
+    handleSizeChange,
+    handleSortChange,
+    handleSearch,
+    handleStatusChange,
+  };
+};
+
+type UseProjectsListLogicProps = {
+  /** 一覧の検索条件 */
+  query: ProjectsListQuery;
+};
 
 /**
  * プロジェクト一覧ページのロジックを管理するカスタムフック
  *
  * API層のuseProjectsを呼び出し、ページ固有のビジネスロジック（ナビゲーション）を追加します。
- * プロジェクトの一覧表示、新規作成、詳細表示、メンバー管理への遷移を提供します。
+ * プロジェクトの一覧表示、新規作成、詳細表示、メンバー管理への遷移と、ゴミ箱のプロジェクトの復元・完全削除を提供します。
+ * 一覧はサーバー側でページ分割・並び替え・絞り込みを行い、表示中のページのプロジェクトのみを取得します。
+ *
+ * @param query - 一覧の検索条件（useProjectsListQuery で URL から取得したもの）
  *
  * @returns プロジェクト一覧の状態と操作関数
- * @returns projects - プロジェクトリスト
+ * @returns projects - 表示中のページのプロジェクトリスト
+ * @returns pagination - ページ情報（総数・ページ番号・1ページの件数・総ページ数）
  * @returns handleCreate - プロジェクト作成処理
+ * @returns handleCopy - テンプレート・既存のプロジェクトからのプロジェクト作成処理
  * @returns handleViewProject - プロジェクト詳細ページへ遷移
  * @returns handleViewMembers - プロジェクトメンバー管理ページへ遷移
+ * @returns handleRestore - ゴミ箱のプロジェクトを復元
+ * @returns handlePurge - ゴミ箱のプロジェクトを完全に削除
+ * @returns notice - 復元・完全削除の結果メッセージ
+ * @returns purgeError - 完全削除のエラーメッセージ
+ * @returns restoringId - 復元中のプロジェクトID
  * @returns isCreating - プロジェクト作成中フラグ
+ * @returns isCopying - テンプレート・既存のプロジェクトからの作成中フラグ
+ * @returns isPurging - 完全削除中フラグ
  *
  * @example
  * ```tsx
- * const { projects, handleCreate, handleViewProject, handleViewMembers, isCreating } = useProjectsListLogic()
+ * const { projects, handleCreate, handleViewProject, handleViewMembers, isCreating } = useProjectsListLogic({ query })
  *
  * <button onClick={() => handleCreate(data)}>新規作成</button>
  * <button onClick={() => handleViewProject(project.id)}>詳細</button>
  * <button onClick={() => handleViewMembers(project.id)}>メンバー</button>
  * ```
  */
-export const useProjectsListLogic = () => {
+export const useProjectsListLogic = ({ query }: UseProjectsListLogicProps) => {
   // ================================================================================
   // Hooks
   // ================================================================================
   const router = useRouter();
-  const { data } = useProjects();
-  const createProjectMutation = useCreateProject();
+  const { data } = useProjects(query);
+  const createProjectMutation = useCreateProject({ mutationConfig: { meta: { successMessage: PROJECT_MESSAGES.SUCCESS.CREATED } } });
+  const copyProjectMutation = useCopyProject({ mutationConfig: { meta: { successMessage: PROJECT_MESSAGES.SUCCESS.CREATED } } });
+  const restoreProjectMutation = useRestoreProject();
+  const purgeProjectMutation = usePurgeProject();
+
+  // ================================================================================
+  // State
+  // ================================================================================
+  const [notice, setNotice] = useState<{ type: "success" | "error"; message: string } | null>(null);
+  const [purgeError, setPurgeError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
 
   // ================================================================================
   // Handlers
@@ -50,6 +170,18 @@ export const useProjectsListLogic = () => {
     router.push(`/projects/${result.data.id}`);
   };
 
+  /**
+   * テンプレート・既存のプロジェクトからのプロジェクト作成処理
+   *
+   * 処理フロー:
+   * 1. 複製元と追加するメンバーを指定してプロジェクト作成リクエスト送信
+   * 2. 成功時: 作成されたプロジェクトの詳細ページへ遷移
+   */
+  const handleCopy = async (data: CopyProjectInput) => {
+    const result = await copyProjectMutation.mutateAsync(data);
+    router.push(`/projects/${result.data.id}`);
+  };
+
   /**
    * プロジェクト詳細ページへ遷移
    */
@@ -64,14 +196,74 @@ export const useProjectsListLogic = () => {
     router.push(`/projects/${projectId}/members`);
   };
 
+  /**
+   * ゴミ箱のプロジェクトを復元
+   */
+  const handleRestore = async (project: Project) => {
+    setNotice(null);
+    setRestoringId(project.id);
+    await restoreProjectMutation
+      .mutateAsync({ projectId: project.id })
+      .then(() => setNotice({ type: "success", message: PROJECT_MESSAGES.SUCCESS.projectRestored(project.name) }))
+      .catch((error: unknown) =>
+        setNotice({ type: "error", message: error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.RESTORE_FAILED })
+      )
+      .finally(() => setRestoringId(null));
+  };
+
+  /**
+   * ゴミ箱のプロジェクトを完全に削除
+   *
+   * @returns 削除できた場合は true（失敗時は purgeError にメッセージを設定）
+   */
+  const handlePurge = async (project: Project) => {
+    setNotice(null);
+    setPurgeError(null);
+
+    return purgeProjectMutation
+      .mutateAsync({ projectId: project.id })
+      .then(() => {
+        setNotice({ type: "success", message: PROJECT_MESSAGES.SUCCESS.projectPurged(project.name) });
+
+        return true;
+      })
+      .catch((error: unknown) => {
+        setPurgeError(error instanceof ApiError ? error.message : PROJECT_MESSAGES.ERRORS.PURGE_FAILED);
+
+        return false;
+      });
+  };
+
+  /**
+   * 完全削除のエラーメッセージをクリア
+   */
+  const clearPurgeError = () => {
+    setPurgeError(null);
+  };
+
   // ================================================================================
   // 戻り値
   // ================================================================================
   return {
     projects: data.data,
+    pagination: {
+      total: data.total,
+      page: data.page,
+      size: data.size,
+      totalPages: data.total_pages,
+    },
     handleCreate,
+    handleCopy,
     handleViewProject,
     handleViewMembers,
+    handleRestore,
+    handlePurge,
+    clearPurgeError,
+    notice,
+    purgeError,
+    restoringId,
     isCreating: createProjectMutation.isPending,
+    isCopying: copyProjectMutation.isPending,
+    isPurging: purgeProjectMutation.isPending,
   };
 };
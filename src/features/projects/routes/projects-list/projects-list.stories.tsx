@@ -4,6 +4,25 @@ import { delay, http, HttpResponse } from "msw";
 
 import ProjectsList from "./projects-list";
 
+/**
+ * プロジェクト一覧のレスポンスを生成
+ *
+ * APIと同じく、リクエストの page・size に従ってプロジェクトをページ分割し、総数とともに返します。
+ */
+const toProjectsResponse = (projects: unknown[], request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const page = Number(searchParams.get("page") ?? 1);
+  const size = Number(searchParams.get("size") ?? 20);
+
+  return {
+    data: projects.slice((page - 1) * size, page * size),
+    total: projects.length,
+    page,
+    size,
+    total_pages: Math.ceil(projects.length / size),
+  };
+};
+
 /**
  * ProjectsListコンポーネントのストーリー
  *
@@ -50,6 +69,7 @@ const meta = {
           "- プロジェクトデータの一覧表示\n" +
           "- 詳細表示・編集・削除操作\n" +
           "- 新規プロジェクト作成\n" +
+          "- ページネーション・並び替え・キーワード検索（検索条件はURLと同期）\n" +
           "- ローディング状態の表示\n" +
           "- エラーハンドリング\n" +
           "- 空状態の表示\n" +
@@ -107,22 +127,26 @@ export const Loading: Story = {
     },
     msw: {
       handlers: [
-        http.get("*/api/v1/projects", async () => {
+        http.get("*/api/v1/projects", async ({ request }) => {
           await delay(5000); // 長い遅延でローディング状態を確認
 
-          return HttpResponse.json({
-            data: [
-              {
-                id: "1",
-                name: "サンプルプロジェクト",
-                description: "プロジェクトの説明",
-                is_active: true,
-                created_at: "2024-01-01T00:00:00Z",
-                updated_at: "2024-01-01T00:00:00Z",
-                created_by: "user-1",
-              },
-            ],
-          });
+          return HttpResponse.json(
+            toProjectsResponse(
+              [
+                {
+                  id: "1",
+                  name: "サンプルプロジェクト",
+                  description: "プロジェクトの説明",
+                  is_active: true,
+                  created_at: "2024-01-01T00:00:00Z",
+                  updated_at: "2024-01-01T00:00:00Z",
+                  created_by: "user-1",
+                  deleted_at: null,
+                },
+              ],
+              request
+            )
+          );
         }),
       ],
     },
@@ -182,8 +206,8 @@ export const EmptyState: Story = {
     },
     msw: {
       handlers: [
-        http.get("*/api/v1/projects", () => {
-          return HttpResponse.json({ data: [] });
+        http.get("*/api/v1/projects", ({ request }) => {
+          return HttpResponse.json(toProjectsResponse([], request));
         }),
       ],
     },
@@ -209,13 +233,13 @@ export const ManyProjects: Story = {
   parameters: {
     docs: {
       description: {
-        story: "多数のプロジェクトが登録されている場合の表示例。スクロールやレイアウトの確認に使用します。",
+        story: "多数のプロジェクトが登録されている場合の表示例。1ページ目の20件が表示され、ページネーションで残りのページに移動できます。",
       },
     },
     msw: {
       handlers: [
-        http.get("*/api/v1/projects", () => {
-          const projects = Array.from({ length: 20 }, (_, i) => ({
+        http.get("*/api/v1/projects", ({ request }) => {
+          const projects = Array.from({ length: 45 }, (_, i) => ({
             id: String(i + 1),
             name: `プロジェクト ${i + 1}`,
             description: `プロジェクト ${i + 1} の説明`,
@@ -223,9 +247,10 @@ export const ManyProjects: Story = {
             created_at: "2024-01-01T00:00:00Z",
             updated_at: "2024-01-01T00:00:00Z",
             created_by: "user-1",
+            deleted_at: null,
           }));
 
-          return HttpResponse.json({ data: projects });
+          return HttpResponse.json(toProjectsResponse(projects, request));
         }),
       ],
     },
@@ -236,9 +261,13 @@ export const ManyProjects: Story = {
     // 最初のプロジェクトが表示されることを確認
     await canvas.findByText("プロジェクト 1");
 
-    // 複数のプロジェクトが表示されていることを確認
-    const projectNames = canvas.getAllByText(/プロジェクト \d+/);
-    expect(projectNames.length).toBeGreaterThan(10);
+    // 1ページ目の20件のみが表示されていることを確認
+    const projectNames = canvas.getAllByText(/^プロジェクト \d+$/);
+    expect(projectNames).toHaveLength(20);
+
+    expect(canvas.getByText("全45件中 1〜20件を表示")).toBeInTheDocument();
+    expect(canvas.getByText("1 / 3 ページ")).toBeInTheDocument();
+    expect(canvas.getByRole("button", { name: "前へ" })).toBeDisabled();
   },
 };
 
@@ -256,38 +285,44 @@ export const MixedActiveState: Story = {
     },
     msw: {
       handlers: [
-        http.get("*/api/v1/projects", () => {
-          return HttpResponse.json({
-            data: [
-              {
-                id: "1",
-                name: "アクティブプロジェクト1",
-                description: "アクティブなプロジェクト",
-                is_active: true,
-                created_at: "2024-01-01T00:00:00Z",
-                updated_at: "2024-01-01T00:00:00Z",
-                created_by: "user-1",
-              },
-              {
-                id: "2",
-                name: "非アクティブプロジェクト",
-                description: "非アクティブなプロジェクト",
-                is_active: false,
-                created_at: "2024-01-01T00:00:00Z",
-                updated_at: "2024-01-02T00:00:00Z",
-                created_by: "user-1",
-              },
-              {
-                id: "3",
-                name: "アクティブプロジェクト2",
-                description: "アクティブなプロジェクト",
-                is_active: true,
-                created_at: "2024-01-01T00:00:00Z",
-                updated_at: "2024-01-03T00:00:00Z",
-                created_by: "user-2",
-              },
-            ],
-          });
+        http.get("*/api/v1/projects", ({ request }) => {
+          return HttpResponse.json(
+            toProjectsResponse(
+              [
+                {
+                  id: "1",
+                  name: "アクティブプロジェクト1",
+                  description: "アクティブなプロジェクト",
+                  is_active: true,
+                  created_at: "2024-01-01T00:00:00Z",
+                  updated_at: "2024-01-01T00:00:00Z",
+                  created_by: "user-1",
+                  deleted_at: null,
+                },
+                {
+                  id: "2",
+                  name: "非アクティブプロジェクト",
+                  description: "非アクティブなプロジェクト",
+                  is_active: false,
+                  created_at: "2024-01-01T00:00:00Z",
+                  updated_at: "2024-01-02T00:00:00Z",
+                  created_by: "user-1",
+                  deleted_at: null,
+                },
+                {
+                  id: "3",
+                  name: "アクティブプロジェクト2",
+                  description: "アクティブなプロジェクト",
+                  is_active: true,
+                  created_at: "2024-01-01T00:00:00Z",
+                  updated_at: "2024-01-03T00:00:00Z",
+                  created_by: "user-2",
+                  deleted_at: null,
+                },
+              ],
+              request
+            )
+          );
         }),
       ],
     },
@@ -303,3 +338,134 @@ export const MixedActiveState: Story = {
     expect(inactiveProject).toBeInTheDocument();
   },
 };
+
+/**
+ * ゴミ箱の表示
+ * 状態フィルターで「ゴミ箱」を選択した状態
+ */
+export const TrashView: Story = {
+  name: "ゴミ箱",
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "状態フィルターで「ゴミ箱」を選択した状態（URL の検索パラメータ ?status=trashed）。ゴミ箱のプロジェクトが完全に削除されるまでの残り日数とともに表示されます。",
+      },
+    },
+    nextjs: {
+      navigation: {
+        pathname: "/projects",
+        query: { status: "trashed" },
+      },
+    },
+    msw: {
+      handlers: [
+        http.get("*/api/v1/projects/:id/members/me", ({ params }) => {
+          return HttpResponse.json({
+            data: {
+              id: "me",
+              project_id: params.id,
+              user_id: "dev-user-uuid",
+              role: "project_manager",
+              joined_at: "2024-01-01T00:00:00Z",
+              updated_at: "2024-01-01T00:00:00Z",
+            },
+          });
+        }),
+        http.get("*/api/v1/projects", ({ request }) => {
+          const status = new URL(request.url).searchParams.get("status");
+
+          return HttpResponse.json({
+            data:
+              status === "trashed"
+                ? [
+                    {
+                      id: "5",
+                      name: "旧社内ポータル",
+                      description: "社内ポータルの旧バージョン",
+                      is_active: false,
+                      created_at: "2023-06-01T00:00:00Z",
+                      updated_at: "2023-12-20T00:00:00Z",
+                      created_by: "user-1",
+                      deleted_at: new Date().toISOString(),
+                    },
+                  ]
+                : [
+                    {
+                      id: "1",
+                      name: "アクティブプロジェクト",
+                      description: "アクティブなプロジェクト",
+                      is_active: true,
+                      created_at: "2024-01-01T00:00:00Z",
+                      updated_at: "2024-01-01T00:00:00Z",
+                      created_by: "user-1",
+                      deleted_at: null,
+                    },
+                  ],
+          });
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText("旧社内ポータル")).toBeInTheDocument();
+    expect(canvas.getByRole("button", { name: "ゴミ箱" })).toHaveAttribute("aria-pressed", "true");
+    expect(canvas.getByText("あと30日")).toBeInTheDocument();
+    expect(await canvas.findByRole("button", { name: "復元" })).toBeInTheDocument();
+  },
+};
+
+/**
+ * URL の検索条件
+ * URL の検索パラメータから検索条件を復元した状態
+ */
+export const WithSearchParams: Story = {
+  name: "URLの検索条件",
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "URL の検索パラメータ（?page=2&size=10&sort=name&q=分析）から検索条件を復元した状態。共有されたURLや再読み込み後も同じ一覧が表示されます。",
+      },
+    },
+    nextjs: {
+      navigation: {
+        pathname: "/projects",
+        query: { page: "2", size: "10", sort: "name", q: "分析" },
+      },
+    },
+    msw: {
+      handlers: [
+        http.get("*/api/v1/projects", ({ request }) => {
+          const { searchParams } = new URL(request.url);
+          const projects = Array.from({ length: 15 }, (_, i) => ({
+            id: String(i + 1),
+            name: `データ分析 ${String(i + 1).padStart(2, "0")}`,
+            description: null,
+            is_active: true,
+            created_at: "2024-01-01T00:00:00Z",
+            updated_at: "2024-01-01T00:00:00Z",
+            created_by: "user-1",
+            deleted_at: null,
+          }));
+
+          // 検索条件がクエリパラメータとして送られていない場合は空の一覧を返す
+          const matches = searchParams.get("sort") === "name" && searchParams.get("q") === "分析" ? projects : [];
+
+          return HttpResponse.json(toProjectsResponse(matches, request));
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    expect(await canvas.findByText("全15件中 11〜15件を表示")).toBeInTheDocument();
+    expect(canvas.getByText("データ分析 11")).toBeInTheDocument();
+    expect(canvas.queryByText("データ分析 01")).not.toBeInTheDocument();
+    expect(canvas.getByRole("searchbox", { name: "キーワード" })).toHaveValue("分析");
+    expect(canvas.getByRole("button", { name: "次へ" })).toBeDisabled();
+  },
+};
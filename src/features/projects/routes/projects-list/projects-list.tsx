@@ -7,27 +7,134 @@ import { MainErrorFallback } from "@/components/errors/main";
 import { PageHeader } from "@/components/layout/page-header";
 import { PageLayout } from "@/components/layout/page-layout";
 import { Button } from "@/components/sample-ui/button";
+import { ErrorMessage } from "@/components/sample-ui/error-message";
 import { LoadingSpinner } from "@/components/sample-ui/loading-spinner";
+import { useUrlAction } from "@/hooks/use-url-action";
 
-import { CreateProjectDialog, ProjectsTable } from "./components";
-import { useProjectsListLogic } from "./projects-list.hook";
+import type { Project } from "../../types";
+import {
+  CopyProjectDialog,
+  CreateProjectDialog,
+  ProjectSearchForm,
+  ProjectsPagination,
+  ProjectsTable,
+  ProjectStatusFilter,
+  PurgeProjectDialog,
+  TrashedProjectsTable,
+} from "./components";
+import { useProjectsListLogic, useProjectsListQuery } from "./projects-list.hook";
 
 /**
  * プロジェクト一覧ページのコンテンツ
  */
 const ProjectsListContent = () => {
-  const { projects, handleCreate, handleViewProject, handleViewMembers, isCreating } = useProjectsListLogic();
-
   // ================================================================================
   // State
   // ================================================================================
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showCopyDialog, setShowCopyDialog] = useState(false);
+  const [purgeTarget, setPurgeTarget] = useState<Project | null>(null);
+
+  // 検索条件の切り替え中は、読み込みが終わるまで切り替え前の一覧を表示し続ける
+  const {
+    query,
+    isPending: isSwitching,
+    handlePageChange,
+    handleSizeChange,
+    handleSortChange,
+    handleSearch,
+    handleStatusChange,
+  } = useProjectsListQuery();
+  const {
+    projects,
+    pagination,
+    handleCreate,
+    handleCopy,
+    handleViewProject,
+    handleViewMembers,
+    handleRestore,
+    handlePurge,
+    clearPurgeError,
+    notice,
+    purgeError,
+    restoringId,
+    isCreating,
+    isCopying,
+    isPurging,
+  } = useProjectsListLogic({ query });
+
+  // コマンドパレットの「新規プロジェクト作成」（/projects?action=create）から遷移した場合は作成ダイアログを開く
+  useUrlAction("create", () => setShowCreateDialog(true));
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+  const handleClosePurgeDialog = () => {
+    setPurgeTarget(null);
+    clearPurgeError();
+  };
+
+  const confirmPurge = (project: Project) => {
+    handlePurge(project)
+      .then((purged) => {
+        if (purged) {
+          setPurgeTarget(null);
+        }
+      })
+      .catch(() => {
+        // エラーは purgeError としてダイアログに表示する
+      });
+  };
 
   return (
     <PageLayout>
-      <PageHeader title="プロジェクト一覧" action={<Button onClick={() => setShowCreateDialog(true)}>新規プロジェクト作成</Button>} />
+      <PageHeader
+        title="プロジェクト一覧"
+        action={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowCopyDialog(true)}>
+              テンプレート・複製から作成
+            </Button>
+            <Button onClick={() => setShowCreateDialog(true)}>新規プロジェクト作成</Button>
+          </div>
+        }
+      />
+
+      <ProjectStatusFilter value={query.status} onChange={handleStatusChange} />
+
+      {/* ブラウザの戻る・進むでキーワードが変わった場合に入力欄を初期化する */}
+      <ProjectSearchForm key={query.q} q={query.q} sort={query.sort} onSearch={handleSearch} onSortChange={handleSortChange} />
+
+      {notice !== null && (
+        <div className="mb-4">
+          {notice.type === "error" ? <ErrorMessage message={notice.message} /> : <p className="text-sm text-green-700">{notice.message}</p>}
+        </div>
+      )}
 
-      <ProjectsTable projects={projects} onViewProject={handleViewProject} onViewMembers={handleViewMembers} />
+      <div className={isSwitching ? "opacity-60" : undefined}>
+        {query.status === "trashed" ? (
+          <TrashedProjectsTable projects={projects} onRestore={handleRestore} onPurge={setPurgeTarget} processingId={restoringId} />
+        ) : (
+          <ProjectsTable projects={projects} onViewProject={handleViewProject} onViewMembers={handleViewMembers} />
+        )}
+        <ProjectsPagination
+          total={pagination.total}
+          page={pagination.page}
+          size={pagination.size}
+          totalPages={pagination.totalPages}
+          onPageChange={handlePageChange}
+          onSizeChange={handleSizeChange}
+        />
+      </div>
+
+      {/* 完全削除確認ダイアログ */}
+      <PurgeProjectDialog
+        project={purgeTarget}
+        onClose={handleClosePurgeDialog}
+        onPurge={confirmPurge}
+        isPurging={isPurging}
+        error={purgeError}
+      />
 
       {/* 新規作成ダイアログ */}
       <CreateProjectDialog
@@ -36,6 +143,9 @@ const ProjectsListContent = () => {
         onCreate={handleCreate}
         isCreating={isCreating}
       />
+
+      {/* テンプレート・既存のプロジェクトからの作成ダイアログ */}
+      <CopyProjectDialog isOpen={showCopyDialog} onClose={() => setShowCopyDialog(false)} onCopy={handleCopy} isCopying={isCopying} />
     </PageLayout>
   );
 };
@@ -45,6 +155,8 @@ const ProjectsListContent = () => {
  *
  * TanStack QueryのSuspense機能を使用してデータフェッチを行います。
  * プロジェクトの一覧を表示し、詳細ページやメンバー管理ページへの遷移を提供します。
+ * 一覧はアクティブ・アーカイブ・ゴミ箱で切り替えられ、ゴミ箱のプロジェクトは復元・完全削除できます。
+ * ページ・件数・並び順・キーワード・状態は URL の検索パラメータに保持し、共有・再読み込み後も同じ一覧を表示します。
  */
 const ProjectsList = () => {
   return (
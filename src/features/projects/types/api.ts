@@ -9,7 +9,17 @@
 
 import { z } from "zod";
 
-import { projectMemberSchema, projectSchema } from ".";
+import {
+  accessRequestSchema,
+  invitationDetailSchema,
+  memberInvitePolicySchema,
+  projectInvitationSchema,
+  projectMemberSchema,
+  projectRoleSchema,
+  projectSchema,
+  projectSettingsSchema,
+  userSchema,
+} from ".";
 
 // ================================================================================
 // プロジェクトレスポンススキーマ
@@ -19,9 +29,18 @@ import { projectMemberSchema, projectSchema } from ".";
  * プロジェクト一覧レスポンススキーマ
  *
  * GET /api/v1/projects のレスポンス
+ * 検索条件に一致するプロジェクトのうち、指定したページの分だけを data に含みます。
  */
 export const projectsOutputSchema = z.object({
   data: z.array(projectSchema),
+  /** 検索条件に一致するプロジェクトの総数 */
+  total: z.number().int().min(0),
+  /** ページ番号（1始まり） */
+  page: z.number().int().min(1),
+  /** 1ページの件数 */
+  size: z.number().int().min(1),
+  /** 総ページ数（一致するプロジェクトがない場合は 0） */
+  total_pages: z.number().int().min(0),
 });
 
 /**
@@ -71,6 +90,102 @@ export const updateProjectOutputSchema = z.object({
  */
 export type UpdateProjectOutput = z.infer<typeof updateProjectOutputSchema>;
 
+/**
+ * プロジェクトのライフサイクル操作レスポンススキーマ
+ *
+ * POST /api/v1/projects/:id/archive
+ * POST /api/v1/projects/:id/unarchive
+ * POST /api/v1/projects/:id/restore のレスポンス
+ */
+export const projectLifecycleOutputSchema = z.object({
+  data: projectSchema,
+});
+
+/**
+ * プロジェクトのライフサイクル操作レスポンス型
+ */
+export type ProjectLifecycleOutput = z.infer<typeof projectLifecycleOutputSchema>;
+
+/**
+ * オーナー移譲レスポンススキーマ
+ *
+ * POST /api/v1/projects/:id/transfer-ownership のレスポンス
+ * 更新後のプロジェクトと、ロールが変更された新旧オーナーのメンバー情報を返します。
+ * 旧オーナーがプロジェクトのメンバーでない場合、previous_owner は null になります。
+ */
+export const transferOwnershipOutputSchema = z.object({
+  data: z.object({
+    project: projectSchema,
+    new_owner: projectMemberSchema,
+    previous_owner: projectMemberSchema.nullable(),
+  }),
+});
+
+/**
+ * オーナー移譲レスポンス型
+ */
+export type TransferOwnershipOutput = z.infer<typeof transferOwnershipOutputSchema>;
+
+/**
+ * プロジェクト複製時のメンバーの競合スキーマ
+ *
+ * - inactive_user: ユーザーが無効化されている（コピーできません）
+ * - expired_membership: 複製元でメンバーシップの有効期限が過ぎている（コピーすると期限なしのメンバーになります）
+ */
+export const copyMemberConflictSchema = z.enum(["inactive_user", "expired_membership"]);
+
+/**
+ * プロジェクト複製時のメンバーの競合型
+ */
+export type CopyMemberConflict = z.infer<typeof copyMemberConflictSchema>;
+
+/**
+ * プロジェクト複製プレビューレスポンススキーマ
+ *
+ * GET /api/v1/projects/copy-preview のレスポンス
+ * 複製元からコピーされる内容を返します。メンバーには作成者自身を含みません（作成者はプロジェクトマネージャーになります）。
+ */
+export const projectCopyPreviewOutputSchema = z.object({
+  data: z.object({
+    /** 作成するプロジェクト名の候補 */
+    name: z.string(),
+    description: z.string().nullable(),
+    default_member_role: projectRoleSchema,
+    invite_policy: memberInvitePolicySchema,
+    members: z.array(
+      z.object({
+        user: userSchema,
+        role: projectRoleSchema,
+        conflict: copyMemberConflictSchema.nullable(),
+      })
+    ),
+  }),
+});
+
+/**
+ * プロジェクト複製プレビューレスポンス型
+ */
+export type ProjectCopyPreviewOutput = z.infer<typeof projectCopyPreviewOutputSchema>;
+
+// ================================================================================
+// プロジェクト設定レスポンススキーマ
+// ================================================================================
+
+/**
+ * プロジェクト設定レスポンススキーマ
+ *
+ * GET /api/v1/projects/:id/settings
+ * PUT /api/v1/projects/:id/settings のレスポンス
+ */
+export const projectSettingsOutputSchema = z.object({
+  data: projectSettingsSchema,
+});
+
+/**
+ * プロジェクト設定レスポンス型
+ */
+export type ProjectSettingsOutput = z.infer<typeof projectSettingsOutputSchema>;
+
 // ================================================================================
 // プロジェクトメンバーレスポンススキーマ
 // ================================================================================
@@ -103,6 +218,247 @@ export const projectMemberOutputSchema = z.object({
  */
 export type ProjectMemberOutput = z.infer<typeof projectMemberOutputSchema>;
 
+/**
+ * 自分のプロジェクトメンバー情報レスポンススキーマ
+ *
+ * GET /api/v1/projects/:projectId/members/me のレスポンス
+ * プロジェクトのメンバーでない場合、data は null になります。
+ */
+export const myProjectMemberOutputSchema = z.object({
+  data: projectMemberSchema.nullable(),
+});
+
+/**
+ * 自分のプロジェクトメンバー情報レスポンス型
+ */
+export type MyProjectMemberOutput = z.infer<typeof myProjectMemberOutputSchema>;
+
+/**
+ * メンバー一括追加の失敗理由スキーマ
+ *
+ * - already_member: 既にプロジェクトのメンバー
+ * - user_not_found: ユーザーが存在しない
+ * - user_inactive: ユーザーが無効化されている
+ * - role_not_assignable: 操作者が付与できないロール
+ */
+export const bulkAddFailureReasonSchema = z.enum(["already_member", "user_not_found", "user_inactive", "role_not_assignable"]);
+
+/**
+ * メンバー一括追加の失敗理由型
+ */
+export type BulkAddFailureReason = z.infer<typeof bulkAddFailureReasonSchema>;
+
+/**
+ * メンバー一括追加レスポンススキーマ
+ *
+ * POST /api/v1/projects/:projectId/members/bulk のレスポンス
+ * 追加できた行と追加できなかった行を分けて返します（一部の行が失敗しても他の行は追加されます）。
+ */
+export const bulkAddMembersOutputSchema = z.object({
+  data: z.object({
+    added: z.array(projectMemberSchema),
+    failed: z.array(
+      z.object({
+        user_id: z.string(),
+        role: projectRoleSchema,
+        reason: bulkAddFailureReasonSchema,
+        detail: z.string(),
+      })
+    ),
+  }),
+});
+
+/**
+ * メンバー一括追加レスポンス型
+ */
+export type BulkAddMembersOutput = z.infer<typeof bulkAddMembersOutputSchema>;
+
+/**
+ * メンバー一括削除の失敗理由スキーマ
+ *
+ * - member_not_found: メンバーが存在しない
+ * - no_permission / self / outranked / last_manager: メンバー操作の制限（utils/role-hierarchy の MemberRestrictionReason）
+ */
+export const bulkRemoveFailureReasonSchema = z.enum(["member_not_found", "no_permission", "self", "outranked", "last_manager"]);
+
+/**
+ * メンバー一括削除の失敗理由型
+ */
+export type BulkRemoveFailureReason = z.infer<typeof bulkRemoveFailureReasonSchema>;
+
+/**
+ * メンバー一括削除レスポンススキーマ
+ *
+ * DELETE /api/v1/projects/:projectId/members/bulk のレスポンス
+ * 削除できたメンバーIDと、削除できなかったメンバーを分けて返します。
+ */
+export const bulkRemoveMembersOutputSchema = z.object({
+  data: z.object({
+    removed: z.array(z.string()),
+    failed: z.array(
+      z.object({
+        member_id: z.string(),
+        reason: bulkRemoveFailureReasonSchema,
+        detail: z.string(),
+      })
+    ),
+  }),
+});
+
+/**
+ * メンバー一括削除レスポンス型
+ */
+export type BulkRemoveMembersOutput = z.infer<typeof bulkRemoveMembersOutputSchema>;
+
+// ================================================================================
+// プロジェクト招待レスポンススキーマ
+// ================================================================================
+
+/**
+ * プロジェクト招待一覧レスポンススキーマ
+ *
+ * GET /api/v1/projects/:projectId/invitations のレスポンス
+ * 承諾待ち（pending）と期限切れ（expired）の招待を返します。
+ */
+export const projectInvitationsOutputSchema = z.object({
+  data: z.array(projectInvitationSchema),
+});
+
+/**
+ * プロジェクト招待一覧レスポンス型
+ */
+export type ProjectInvitationsOutput = z.infer<typeof projectInvitationsOutputSchema>;
+
+/**
+ * プロジェクト招待レスポンススキーマ
+ *
+ * POST /api/v1/projects/:projectId/invitations
+ * POST /api/v1/projects/:projectId/invitations/:invitationId/resend のレスポンス
+ */
+export const projectInvitationOutputSchema = z.object({
+  data: projectInvitationSchema,
+});
+
+/**
+ * プロジェクト招待レスポンス型
+ */
+export type ProjectInvitationOutput = z.infer<typeof projectInvitationOutputSchema>;
+
+/**
+ * 招待内容レスポンススキーマ
+ *
+ * GET /api/v1/invitations/:token のレスポンス
+ */
+export const invitationDetailOutputSchema = z.object({
+  data: invitationDetailSchema,
+});
+
+/**
+ * 招待内容レスポンス型
+ */
+export type InvitationDetailOutput = z.infer<typeof invitationDetailOutputSchema>;
+
+// ================================================================================
+// 権限リクエストレスポンススキーマ
+// ================================================================================
+
+/**
+ * 権限リクエスト一覧レスポンススキーマ
+ *
+ * GET /api/v1/projects/:projectId/access-requests のレスポンス
+ * 承認待ち（pending）のリクエストを古い順に返します。
+ */
+export const accessRequestsOutputSchema = z.object({
+  data: z.array(accessRequestSchema),
+});
+
+/**
+ * 権限リクエスト一覧レスポンス型
+ */
+export type AccessRequestsOutput = z.infer<typeof accessRequestsOutputSchema>;
+
+/**
+ * 権限リクエストレスポンススキーマ
+ *
+ * POST /api/v1/projects/:projectId/access-requests
+ * POST /api/v1/projects/:projectId/access-requests/:requestId/deny のレスポンス
+ */
+export const accessRequestOutputSchema = z.object({
+  data: accessRequestSchema,
+});
+
+/**
+ * 権限リクエストレスポンス型
+ */
+export type AccessRequestOutput = z.infer<typeof accessRequestOutputSchema>;
+
+/**
+ * 自分の権限リクエストレスポンススキーマ
+ *
+ * GET /api/v1/projects/:projectId/access-requests/me のレスポンス
+ * 承認待ちのリクエストがない場合、data は null になります。
+ */
+export const myAccessRequestOutputSchema = z.object({
+  data: accessRequestSchema.nullable(),
+});
+
+/**
+ * 自分の権限リクエストレスポンス型
+ */
+export type MyAccessRequestOutput = z.infer<typeof myAccessRequestOutputSchema>;
+
+/**
+ * 権限リクエスト承認レスポンススキーマ
+ *
+ * POST /api/v1/projects/:projectId/access-requests/:requestId/approve のレスポンス
+ * 承認したリクエストと、ロールを変更したメンバー情報を返します。
+ */
+export const approveAccessRequestOutputSchema = z.object({
+  data: z.object({
+    request: accessRequestSchema,
+    member: projectMemberSchema,
+  }),
+});
+
+/**
+ * 権限リクエスト承認レスポンス型
+ */
+export type ApproveAccessRequestOutput = z.infer<typeof approveAccessRequestOutputSchema>;
+
+// ================================================================================
+// ユーザー検索レスポンススキーマ
+// ================================================================================
+
+/**
+ * ユーザー検索レスポンススキーマ
+ *
+ * GET /api/v1/users/search のレスポンス
+ * 有効なユーザーのうち、表示名・メールアドレスが検索キーワードに部分一致するものを返します。
+ */
+export const searchUsersOutputSchema = z.object({
+  data: z.array(userSchema),
+});
+
+/**
+ * ユーザー検索レスポンス型
+ */
+export type SearchUsersOutput = z.infer<typeof searchUsersOutputSchema>;
+
+/**
+ * メールアドレスによるユーザー照会レスポンススキーマ
+ *
+ * POST /api/v1/users/lookup のレスポンス
+ * 指定したメールアドレスに一致するユーザー（無効化されたユーザーを含む）を返します。見つからないメールアドレスは含まれません。
+ */
+export const lookupUsersOutputSchema = z.object({
+  data: z.array(userSchema),
+});
+
+/**
+ * メールアドレスによるユーザー照会レスポンス型
+ */
+export type LookupUsersOutput = z.infer<typeof lookupUsersOutputSchema>;
+
 // ================================================================================
 // エラーレスポンス
 // ================================================================================
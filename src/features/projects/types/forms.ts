@@ -6,9 +6,12 @@
  * @module features/projects/types/forms
  */
 
+import { format } from "date-fns";
 import { z } from "zod";
 
-import { projectRoleSchema } from "./index";
+import { PAGINATION } from "@/config/constants";
+
+import { memberInvitePolicySchema, projectLifecycleStatusSchema, projectRoleSchema } from "./index";
 
 // ================================================================================
 // プロジェクト入力スキーマ
@@ -20,7 +23,6 @@ import { projectRoleSchema } from "./index";
 export const createProjectSchema = z.object({
   name: z.string().min(1, "プロジェクト名は必須です").max(100, "プロジェクト名は100文字以内で入力してください"),
   description: z.string().max(500, "説明は500文字以内で入力してください").nullable().optional(),
-  is_active: z.boolean(),
 });
 
 /**
@@ -28,13 +30,99 @@ export const createProjectSchema = z.object({
  */
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 
+/**
+ * プロジェクト複製元スキーマ
+ *
+ * - template: プロジェクトテンプレートから作成（説明と設定をコピー）
+ * - project: 既存のプロジェクトを複製（説明と設定をコピーし、include_members が true の場合はメンバーとロールもコピー）
+ */
+export const projectCopySourceSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("template"),
+    template_id: z.string().min(1, "テンプレートを選択してください"),
+  }),
+  z.object({
+    type: z.literal("project"),
+    project_id: z.string().min(1, "複製するプロジェクトを選択してください"),
+    include_members: z.boolean(),
+  }),
+]);
+
+/**
+ * プロジェクト複製元型
+ */
+export type ProjectCopySource = z.infer<typeof projectCopySourceSchema>;
+
+/**
+ * プロジェクト複製元の選択フォームスキーマ
+ *
+ * 選択した種類に応じて、テンプレートまたはプロジェクトの選択を必須にします。
+ */
+export const projectCopySourceFormSchema = z
+  .object({
+    type: z.enum(["template", "project"]),
+    template_id: z.string(),
+    project_id: z.string(),
+    include_members: z.boolean(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.type === "template" && value.template_id === "") {
+      ctx.addIssue({ code: "custom", path: ["template_id"], message: "テンプレートを選択してください" });
+    }
+    if (value.type === "project" && value.project_id === "") {
+      ctx.addIssue({ code: "custom", path: ["project_id"], message: "複製するプロジェクトを選択してください" });
+    }
+  });
+
+/**
+ * プロジェクト複製元の選択フォーム型
+ */
+export type ProjectCopySourceFormValues = z.infer<typeof projectCopySourceFormSchema>;
+
+/**
+ * プロジェクト複製入力スキーマ
+ *
+ * members: 作成するプロジェクトに追加するメンバー（作成者はプロジェクトマネージャーとして自動的に追加されます）
+ */
+export const copyProjectSchema = createProjectSchema.extend({
+  source: projectCopySourceSchema,
+  members: z.array(
+    z.object({
+      user_id: z.string(),
+      role: projectRoleSchema,
+    })
+  ),
+});
+
+/**
+ * プロジェクト複製入力型
+ */
+export type CopyProjectInput = z.infer<typeof copyProjectSchema>;
+
+/**
+ * プロジェクト複製フォームスキーマ（プレビューのメンバーごとに、コピーするかどうかを選択する）
+ */
+export const copyProjectFormSchema = createProjectSchema.extend({
+  members: z.array(
+    z.object({
+      user_id: z.string(),
+      role: projectRoleSchema,
+      include: z.boolean(),
+    })
+  ),
+});
+
+/**
+ * プロジェクト複製フォーム型
+ */
+export type CopyProjectFormValues = z.infer<typeof copyProjectFormSchema>;
+
 /**
  * プロジェクト更新入力スキーマ
  */
 export const updateProjectSchema = z.object({
   name: z.string().min(1, "プロジェクト名は必須です").max(100, "プロジェクト名は100文字以内で入力してください"),
   description: z.string().max(500, "説明は500文字以内で入力してください").nullable().optional(),
-  is_active: z.boolean(),
 });
 
 /**
@@ -42,6 +130,85 @@ export const updateProjectSchema = z.object({
  */
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
 
+/**
+ * オーナー移譲入力スキーマ
+ *
+ * new_owner_id: 新しいオーナーのユーザーID（プロジェクトのメンバーである必要があります）
+ * previous_owner_role: 現オーナーの移譲後のロール（新オーナーは project_manager になります）
+ */
+export const transferOwnershipSchema = z.object({
+  new_owner_id: z.string().min(1, "新しいオーナーを選択してください"),
+  previous_owner_role: projectRoleSchema,
+});
+
+/**
+ * オーナー移譲入力型
+ */
+export type TransferOwnershipInput = z.infer<typeof transferOwnershipSchema>;
+
+/**
+ * プロジェクト設定更新入力スキーマ
+ */
+export const updateProjectSettingsSchema = z.object({
+  default_member_role: projectRoleSchema,
+  invite_policy: memberInvitePolicySchema,
+});
+
+/**
+ * プロジェクト設定更新入力型
+ */
+export type UpdateProjectSettingsInput = z.infer<typeof updateProjectSettingsSchema>;
+
+// ================================================================================
+// プロジェクト一覧の検索条件スキーマ
+// ================================================================================
+
+/**
+ * プロジェクト一覧の並び順スキーマ
+ *
+ * 先頭に "-" が付いている場合は降順です。
+ */
+export const projectSortSchema = z.enum(["-updated_at", "updated_at", "-created_at", "created_at", "name", "-name"]);
+
+/**
+ * プロジェクト一覧の並び順型
+ */
+export type ProjectSort = z.infer<typeof projectSortSchema>;
+
+/**
+ * プロジェクト一覧の1ページの件数スキーマ（PAGINATION.PAGE_SIZE_OPTIONS のいずれか）
+ */
+export const projectPageSizeSchema = z.coerce
+  .number()
+  .refine((size) => PAGINATION.PAGE_SIZE_OPTIONS.some((option) => option === size), "1ページの件数が不正です");
+
+/**
+ * プロジェクト一覧の検索条件スキーマ
+ *
+ * URL の検索パラメータ（?page=2&size=50&sort=name&q=web&status=archived）から検索条件を復元するため、
+ * 値は文字列から変換し、不正な値・未指定の値は初期値として扱います。
+ */
+export const projectsListQuerySchema = z.object({
+  /** ページ番号（1始まり） */
+  page: z.coerce.number().int().min(1).catch(1),
+  /** 1ページの件数 */
+  size: projectPageSizeSchema.catch(PAGINATION.DEFAULT_PAGE_SIZE),
+  sort: projectSortSchema.catch("-updated_at"),
+  /** プロジェクト名・説明の部分一致 */
+  q: z.string().trim().max(100).catch(""),
+  status: projectLifecycleStatusSchema.catch("active"),
+});
+
+/**
+ * プロジェクト一覧の検索条件型
+ */
+export type ProjectsListQuery = z.infer<typeof projectsListQuerySchema>;
+
+/**
+ * プロジェクト一覧の検索条件の初期値
+ */
+export const DEFAULT_PROJECTS_LIST_QUERY: ProjectsListQuery = projectsListQuerySchema.parse({});
+
 // ================================================================================
 // プロジェクトメンバー入力スキーマ
 // ================================================================================
@@ -50,8 +217,10 @@ export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
  * プロジェクトメンバー追加入力スキーマ
  */
 export const addProjectMemberSchema = z.object({
-  user_id: z.string(),
+  user_id: z.string().min(1, "追加するユーザーを選択してください"),
   role: projectRoleSchema,
+  /** メンバーシップの有効期限（null または省略時は期限なし） */
+  expires_at: z.iso.datetime().nullable().optional(),
 });
 
 /**
@@ -64,6 +233,8 @@ export type AddProjectMemberInput = z.infer<typeof addProjectMemberSchema>;
  */
 export const updateMemberRoleSchema = z.object({
   role: projectRoleSchema,
+  /** メンバーシップの有効期限（null は期限なし、省略時は変更しない） */
+  expires_at: z.iso.datetime().nullable().optional(),
 });
 
 /**
@@ -71,20 +242,97 @@ export const updateMemberRoleSchema = z.object({
  */
 export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
 
+/**
+ * メンバーシップ有効期限の入力欄スキーマ
+ *
+ * 日付入力欄の値（yyyy-MM-dd）を検証します。空文字は期限なしを表します。
+ * 有効期限の日の終わりまでメンバーとして扱うため、当日も指定できます。
+ */
+export const membershipExpiryDateSchema = z
+  .union([z.literal(""), z.iso.date("有効な日付を入力してください")])
+  .refine((value) => value === "" || value >= format(new Date(), "yyyy-MM-dd"), "有効期限には今日以降の日付を指定してください");
+
+/**
+ * メンバー追加フォームスキーマ（有効期限は日付入力欄の値）
+ */
+export const addProjectMemberFormSchema = addProjectMemberSchema.omit({ expires_at: true }).extend({
+  expires_on: membershipExpiryDateSchema,
+});
+
+/**
+ * メンバー追加フォーム型
+ */
+export type AddProjectMemberFormValues = z.infer<typeof addProjectMemberFormSchema>;
+
+/**
+ * メンバーロール更新フォームスキーマ（有効期限は日付入力欄の値）
+ */
+export const updateMemberRoleFormSchema = updateMemberRoleSchema.omit({ expires_at: true }).extend({
+  expires_on: membershipExpiryDateSchema,
+});
+
+/**
+ * メンバーロール更新フォーム型
+ */
+export type UpdateMemberRoleFormValues = z.infer<typeof updateMemberRoleFormSchema>;
+
+/**
+ * プロジェクト招待作成入力スキーマ
+ */
+export const createInvitationSchema = z.object({
+  email: z.email("有効なメールアドレスを入力してください"),
+  role: projectRoleSchema,
+});
+
+/**
+ * プロジェクト招待作成入力型
+ */
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
+
+// ================================================================================
+// 権限リクエスト入力スキーマ
+// ================================================================================
+
+/**
+ * 権限リクエスト作成入力スキーマ
+ */
+export const createAccessRequestSchema = z.object({
+  requested_role: projectRoleSchema,
+  justification: z.string().trim().min(1, "リクエストの理由を入力してください").max(500, "理由は500文字以内で入力してください"),
+});
+
+/**
+ * 権限リクエスト作成入力型
+ */
+export type CreateAccessRequestInput = z.infer<typeof createAccessRequestSchema>;
+
 // ================================================================================
 // 一括操作入力スキーマ
 // ================================================================================
 
 /**
  * メンバー一括追加入力スキーマ
+ *
+ * 同じユーザーIDを重複して指定した場合は、2件目以降の行をエラーにします。
  */
 export const bulkAddMembersSchema = z.object({
-  members: z.array(
-    z.object({
-      user_id: z.string(),
-      role: projectRoleSchema,
-    })
-  ),
+  members: z
+    .array(
+      z.object({
+        user_id: z.string().trim().min(1, "ユーザーIDは必須です"),
+        role: projectRoleSchema,
+      })
+    )
+    .min(1, "追加するユーザーを1人以上指定してください")
+    .superRefine((members, ctx) => {
+      const seen = new Set<string>();
+      members.forEach((member, index) => {
+        if (seen.has(member.user_id)) {
+          ctx.addIssue({ code: "custom", message: "同じユーザーが重複しています", path: [index, "user_id"] });
+        }
+        seen.add(member.user_id);
+      });
+    }),
 });
 
 /**
@@ -108,3 +356,15 @@ export const bulkUpdateRolesSchema = z.object({
  * ロール一括更新入力型
  */
 export type BulkUpdateRolesInput = z.infer<typeof bulkUpdateRolesSchema>;
+
+/**
+ * メンバー一括削除入力スキーマ
+ */
+export const bulkRemoveMembersSchema = z.object({
+  member_ids: z.array(z.string()).min(1, "削除するメンバーを1人以上選択してください"),
+});
+
+/**
+ * メンバー一括削除入力型
+ */
+export type BulkRemoveMembersInput = z.infer<typeof bulkRemoveMembersSchema>;
@@ -96,6 +96,8 @@ export const projectSchema = z.object({
   created_at: z.iso.datetime(),
   updated_at: z.iso.datetime(),
   created_by: z.string(),
+  /** ゴミ箱に移動した日時（ゴミ箱にない場合は null） */
+  deleted_at: z.iso.datetime().nullable(),
 });
 
 /**
@@ -103,6 +105,50 @@ export const projectSchema = z.object({
  */
 export type Project = z.infer<typeof projectSchema>;
 
+/**
+ * プロジェクトのライフサイクル状態スキーマ
+ *
+ * - active: 通常の状態
+ * - archived: アーカイブ済み（is_active が false、閲覧のみ可能）
+ * - trashed: ゴミ箱に移動済み（deleted_at が設定され、保持期間を過ぎると完全に削除される）
+ */
+export const projectLifecycleStatusSchema = z.enum(["active", "archived", "trashed"]);
+
+/**
+ * プロジェクトのライフサイクル状態型
+ */
+export type ProjectLifecycleStatus = z.infer<typeof projectLifecycleStatusSchema>;
+
+/**
+ * メンバー招待ポリシースキーマ
+ *
+ * - managers_only: プロジェクトマネージャーのみメンバーを招待・追加できる
+ * - managers_and_moderators: プロジェクトマネージャーとモデレーターがメンバーを招待・追加できる
+ */
+export const memberInvitePolicySchema = z.enum(["managers_only", "managers_and_moderators"]);
+
+/**
+ * メンバー招待ポリシー型
+ */
+export type MemberInvitePolicy = z.infer<typeof memberInvitePolicySchema>;
+
+/**
+ * プロジェクト設定スキーマ
+ */
+export const projectSettingsSchema = z.object({
+  project_id: z.string(),
+  /** 新しく追加・招待するメンバーの既定のロール */
+  default_member_role: projectRoleSchema,
+  /** メンバーを招待・追加できるロール */
+  invite_policy: memberInvitePolicySchema,
+  updated_at: z.iso.datetime(),
+});
+
+/**
+ * プロジェクト設定型
+ */
+export type ProjectSettings = z.infer<typeof projectSettingsSchema>;
+
 /**
  * プロジェクトメンバー情報スキーマ
  */
@@ -113,6 +159,8 @@ export const projectMemberSchema = z.object({
   role: projectRoleSchema,
   joined_at: z.iso.datetime(),
   updated_at: z.iso.datetime(),
+  /** メンバーシップの有効期限（期限なしの場合は null または省略。期限を過ぎたメンバーは権限を失う） */
+  expires_at: z.iso.datetime().nullable().optional(),
   user: userSchema.optional(),
   project: projectSchema.optional(),
 });
@@ -122,6 +170,99 @@ export const projectMemberSchema = z.object({
  */
 export type ProjectMember = z.infer<typeof projectMemberSchema>;
 
+/**
+ * プロジェクト招待ステータススキーマ
+ *
+ * - pending: 承諾待ち
+ * - accepted: 承諾済み
+ * - revoked: 取り消し済み
+ * - expired: 有効期限切れ（承諾されないまま expires_at を過ぎた招待）
+ */
+export const invitationStatusSchema = z.enum(["pending", "accepted", "revoked", "expired"]);
+
+/**
+ * プロジェクト招待ステータス型
+ */
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>;
+
+/**
+ * プロジェクト招待情報スキーマ
+ *
+ * サインインしたことのないユーザーも招待できるよう、ユーザーIDではなくメールアドレスで招待します。
+ */
+export const projectInvitationSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  email: z.email(),
+  role: projectRoleSchema,
+  status: invitationStatusSchema,
+  invited_by: userSchema.optional(),
+  expires_at: z.iso.datetime(),
+  created_at: z.iso.datetime(),
+  updated_at: z.iso.datetime(),
+});
+
+/**
+ * プロジェクト招待情報型
+ */
+export type ProjectInvitation = z.infer<typeof projectInvitationSchema>;
+
+/**
+ * 招待内容スキーマ（招待トークンから取得する、招待先プロジェクトを含む情報）
+ */
+export const invitationDetailSchema = projectInvitationSchema.extend({
+  project: projectSchema,
+});
+
+/**
+ * 招待内容型
+ */
+export type InvitationDetail = z.infer<typeof invitationDetailSchema>;
+
+/**
+ * 権限リクエストステータススキーマ
+ *
+ * - pending: 承認待ち
+ * - approved: 承認済み（リクエストしたロールに変更済み）
+ * - denied: 却下
+ */
+export const accessRequestStatusSchema = z.enum(["pending", "approved", "denied"]);
+
+/**
+ * 権限リクエストステータス型
+ */
+export type AccessRequestStatus = z.infer<typeof accessRequestStatusSchema>;
+
+/**
+ * 権限リクエスト情報スキーマ
+ *
+ * 下位ロールのメンバーが、より上位のロールへの変更をプロジェクトマネージャー・権限管理者に依頼するリクエスト。
+ */
+export const accessRequestSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  /** リクエストしたメンバーのID */
+  member_id: z.string(),
+  user: userSchema.optional(),
+  /** リクエスト時点のロール */
+  current_role: projectRoleSchema,
+  /** リクエストするロール */
+  requested_role: projectRoleSchema,
+  /** リクエストの理由 */
+  justification: z.string(),
+  status: accessRequestStatusSchema,
+  /** 承認・却下したユーザー（承認待ちの場合は null） */
+  reviewed_by: userSchema.nullable().optional(),
+  reviewed_at: z.iso.datetime().nullable(),
+  created_at: z.iso.datetime(),
+  updated_at: z.iso.datetime(),
+});
+
+/**
+ * 権限リクエスト情報型
+ */
+export type AccessRequest = z.infer<typeof accessRequestSchema>;
+
 // ================================================================================
 // ルートパラメータ（パスパラメータ）
 // ================================================================================
@@ -159,3 +300,37 @@ export const ProjectMembersParamsSchema = z.object({
 });
 
 export type ProjectMembersParams = z.infer<typeof ProjectMembersParamsSchema>;
+
+/**
+ * プロジェクト設定ルート パラメータスキーマ
+ *
+ * /projects/[id]/settings のパラメータを検証
+ *
+ * @example
+ * ```tsx
+ * const params = useParams();
+ * const { id: projectId } = ProjectSettingsParamsSchema.parse(params);
+ * ```
+ */
+export const ProjectSettingsParamsSchema = z.object({
+  id: z.string().min(1, "プロジェクトIDは必須です"),
+});
+
+export type ProjectSettingsParams = z.infer<typeof ProjectSettingsParamsSchema>;
+
+/**
+ * 招待承諾ルート パラメータスキーマ
+ *
+ * /invitations/[token] のパラメータを検証
+ *
+ * @example
+ * ```tsx
+ * const params = useParams();
+ * const { token } = AcceptInvitationParamsSchema.parse(params);
+ * ```
+ */
+export const AcceptInvitationParamsSchema = z.object({
+  token: z.string().min(1, "招待トークンは必須です"),
+});
+
+export type AcceptInvitationParams = z.infer<typeof AcceptInvitationParamsSchema>;
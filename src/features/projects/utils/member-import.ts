@@ -0,0 +1,142 @@
+/**
+ * メンバーインポートのプレビュー判定
+ *
+ * インポートファイルの各行を、現在のメンバー一覧と照合して
+ * 「追加」「ロール変更」「変更なし」「エラー」に分類します。
+ * 判定結果はプレビューとして表示し、利用者の確認後に「追加」「ロール変更」の行だけを反映します。
+ *
+ * @module features/projects/utils/member-import
+ */
+
+import { z } from "zod";
+
+import { PROJECT_MESSAGES } from "../constants/messages";
+import { PROJECT_ROLE_LABELS } from "../constants/roles";
+import { type ProjectMember, type ProjectRole, projectRoleSchema, type User } from "../types";
+import type { MemberImportRow } from "./member-spreadsheet";
+import type { MemberRestriction } from "./role-hierarchy";
+
+// ================================================================================
+// 型定義
+// ================================================================================
+
+/**
+ * インポート行の判定結果
+ *
+ * - add: プロジェクトに参加していないユーザーを追加する
+ * - role_change: 参加済みのメンバーのロールを変更する
+ * - unchanged: 参加済みで、ロールも同じ（何もしない）
+ * - error: 反映できない（message に理由）
+ */
+export type MemberImportPreviewEntry =
+  | { kind: "add"; rowNumber: number; email: string; role: ProjectRole; user: User }
+  | { kind: "role_change"; rowNumber: number; email: string; role: ProjectRole; member: ProjectMember }
+  | { kind: "unchanged"; rowNumber: number; email: string; role: ProjectRole; member: ProjectMember }
+  | { kind: "error"; rowNumber: number; email: string; message: string };
+
+// ================================================================================
+// 判定
+// ================================================================================
+
+const emailSchema = z.email();
+
+/**
+ * ロールのセル値をロールに変換する（ロール値・表示名のどちらも受け付ける）
+ *
+ * @returns 対応するロールがない場合は null
+ */
+export const parseImportRole = (value: string): ProjectRole | null => {
+  const normalized = value.trim();
+  const byValue = projectRoleSchema.safeParse(normalized.toLowerCase());
+
+  if (byValue.success) {
+    return byValue.data;
+  }
+
+  return projectRoleSchema.options.find((role) => PROJECT_ROLE_LABELS[role] === normalized) ?? null;
+};
+
+/**
+ * インポート行をプレビュー用に判定する
+ *
+ * @param rows - インポートファイルの行
+ * @param members - 現在のプロジェクトメンバー（user を含む）
+ * @param users - 行のメールアドレスで検索したユーザー（見つからなかったメールアドレスは含まれない）
+ * @param assignableRoles - 操作者が付与できるロール
+ * @param getRestriction - メンバーに対して操作者が実行できる操作
+ * @returns 行ごとの判定結果（rows と同じ順序）
+ *
+ * @example
+ * ```ts
+ * const entries = buildMemberImportPreview({ rows, members, users, assignableRoles, getRestriction });
+ * const applicable = entries.filter((entry) => entry.kind === "add" || entry.kind === "role_change");
+ * ```
+ */
+export const buildMemberImportPreview = ({
+  rows,
+  members,
+  users,
+  assignableRoles,
+  getRestriction,
+}: {
+  rows: readonly MemberImportRow[];
+  members: readonly ProjectMember[];
+  users: readonly User[];
+  assignableRoles: readonly ProjectRole[];
+  getRestriction: (member: ProjectMember) => MemberRestriction;
+}): MemberImportPreviewEntry[] => {
+  const seenEmails = new Set<string>();
+  const errors = PROJECT_MESSAGES.IMPORT_ERRORS;
+
+  return rows.map((row): MemberImportPreviewEntry => {
+    const email = row.email.toLowerCase();
+    const error = (message: string): MemberImportPreviewEntry => ({ kind: "error", rowNumber: row.rowNumber, email: row.email, message });
+
+    if (!emailSchema.safeParse(email).success) {
+      return error(errors.INVALID_EMAIL);
+    }
+    if (seenEmails.has(email)) {
+      return error(errors.DUPLICATE_EMAIL);
+    }
+    seenEmails.add(email);
+
+    const role = parseImportRole(row.role);
+
+    if (role === null) {
+      return error(errors.invalidRole(row.role));
+    }
+
+    const member = members.find((m) => m.user?.email.toLowerCase() === email);
+
+    if (member !== undefined) {
+      if (member.role === role) {
+        return { kind: "unchanged", rowNumber: row.rowNumber, email: row.email, role, member };
+      }
+
+      const restriction = getRestriction(member);
+
+      if (restriction.reason !== null) {
+        return error(PROJECT_MESSAGES.RESTRICTIONS[restriction.reason]);
+      }
+      if (!restriction.assignableRoles.includes(role)) {
+        return error(errors.ROLE_NOT_ASSIGNABLE);
+      }
+
+      return { kind: "role_change", rowNumber: row.rowNumber, email: row.email, role, member };
+    }
+
+    const user = users.find((u) => u.email.toLowerCase() === email);
+
+    if (user === undefined) {
+      return error(errors.USER_NOT_FOUND);
+    }
+    if (!user.is_active) {
+      return error(errors.USER_INACTIVE);
+    }
+    if (!assignableRoles.includes(role)) {
+      return error(errors.ROLE_NOT_ASSIGNABLE);
+    }
+
+    return { kind: "add", rowNumber: row.rowNumber, email: row.email, role, user };
+  });
+};
@@ -0,0 +1,282 @@
+/**
+ * プロジェクトメンバーのスプレッドシート入出力
+ *
+ * メンバー一覧の CSV / Excel エクスポートと、インポート用ファイル（メールアドレスとロールの組）の読み込みを行います。
+ * インポート内容の判定（追加・ロール変更・エラー）は utils/member-import を参照してください。
+ *
+ * @module features/projects/utils/member-spreadsheet
+ */
+
+import { format } from "date-fns";
+import { Workbook } from "exceljs";
+
+import { PROJECT_ROLE_LABELS } from "../constants/roles";
+import type { ProjectMember } from "../types";
+
+// ================================================================================
+// 型定義
+// ================================================================================
+
+/**
+ * エクスポート形式
+ */
+export type MemberExportFormat = "csv" | "xlsx";
+
+/**
+ * インポートファイルの1行（ファイル上の行番号と、セルの値そのまま）
+ */
+export type MemberImportRow = {
+  /** ファイル上の行番号（1始まり、ヘッダー行を含む） */
+  rowNumber: number;
+  email: string;
+  role: string;
+};
+
+// ================================================================================
+// エクスポート
+// ================================================================================
+
+/**
+ * エクスポートする列（ヘッダー名と値の取り出し方）
+ */
+const EXPORT_COLUMNS = [
+  { header: "名前", width: 20, getValue: (member: ProjectMember) => member.user?.display_name ?? "" },
+  { header: "メールアドレス", width: 30, getValue: (member: ProjectMember) => member.user?.email ?? "" },
+  { header: "ロール", width: 25, getValue: (member: ProjectMember) => PROJECT_ROLE_LABELS[member.role] },
+  { header: "参加日", width: 15, getValue: (member: ProjectMember) => format(new Date(member.joined_at), "yyyy/MM/dd") },
+] as const;
+
+/**
+ * CSV のセルをエスケープする
+ *
+ * カンマ・ダブルクォート・改行を含む値はダブルクォートで囲み、値中のダブルクォートは二重にします。
+ */
+const escapeCsvCell = (value: string) => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * メンバー一覧の CSV 形式の Blob を生成
+ *
+ * BOM 付き UTF-8 で出力するため、Microsoft Excel で開いても文字化けしません。
+ * ロールは表示名で出力します（インポート時は表示名・ロール値のどちらも受け付けます）。
+ *
+ * @example
+ * ```tsx
+ * downloadBlob(generateMembersCsvBlob(members), generateFilename("members", "csv"))
+ * ```
+ */
+export const generateMembersCsvBlob = (members: ProjectMember[]): Blob => {
+  const rows: string[][] = [EXPORT_COLUMNS.map((column) => column.header)];
+
+  members.forEach((member) => {
+    rows.push(EXPORT_COLUMNS.map((column) => column.getValue(member)));
+  });
+
+  const csvContent = rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+
+  return new Blob(["\uFEFF" + csvContent], { type: "text/csv;charset=utf-8;" });
+};
+
+/**
+ * メンバー一覧の Excel 形式（.xlsx）の Blob を生成
+ *
+ * ヘッダー行は太字・グレー背景で、全セルに罫線を付けます。
+ *
+ * @example
+ * ```tsx
+ * downloadBlob(await generateMembersExcelBlob(members), generateFilename("members", "xlsx"))
+ * ```
+ */
+export const generateMembersExcelBlob = async (members: ProjectMember[]): Promise<Blob> => {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet("メンバー");
+
+  worksheet.columns = EXPORT_COLUMNS.map((column) => ({ header: column.header, width: column.width }));
+
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true };
+  headerRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } };
+  headerRow.alignment = { vertical: "middle", horizontal: "center" };
+
+  members.forEach((member) => {
+    worksheet.addRow(EXPORT_COLUMNS.map((column) => column.getValue(member)));
+  });
+
+  worksheet.eachRow((row) => {
+    row.eachCell((cell) => {
+      cell.border = {
+        top: { style: "thin" },
+        left: { style: "thin" },
+        bottom: { style: "thin" },
+        right: { style: "thin" },
+      };
+    });
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+// ================================================================================
+// インポート
+// ================================================================================
+
+/**
+ * メールアドレス列・ロール列として認識するヘッダー名（小文字で比較）
+ */
+const EMAIL_HEADERS = ["email", "e-mail", "メールアドレス", "メール"];
+const ROLE_HEADERS = ["role", "ロール"];
+
+/**
+ * インポートファイルを読み込めない場合のエラー
+ */
+export class MemberImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MemberImportFileError";
+  }
+}
+
+/**
+ * CSV テキストをセルの2次元配列に変換する
+ *
+ * ダブルクォートで囲まれたセル（カンマ・改行・エスケープされたダブルクォートを含む）に対応します。
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Excel ファイルの最初のシートをセルの2次元配列に変換する
+ */
+const parseExcel = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const worksheet = workbook.worksheets.at(0);
+
+  if (worksheet === undefined) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      cells[columnNumber - 1] = cell.text;
+    });
+    rows.push(Array.from(cells, (value) => value ?? ""));
+  });
+
+  return rows;
+};
+
+/**
+ * セルの2次元配列からメールアドレスとロールの組を取り出す
+ *
+ * 1行目に「@」を含むセルがない場合はヘッダー行とみなし、ヘッダー名から列を特定します。
+ * ヘッダー行がない場合は、1列目をメールアドレス、2列目をロールとして扱います。
+ * 空行は読み飛ばします。
+ *
+ * @throws {MemberImportFileError} ヘッダー行にメールアドレス列・ロール列が見つからない場合
+ */
+const toImportRows = (cells: string[][]): MemberImportRow[] => {
+  const [firstRow = []] = cells;
+  const hasHeader = !firstRow.some((value) => value.includes("@"));
+
+  let emailIndex = 0;
+  let roleIndex = 1;
+
+  if (hasHeader) {
+    const headers = firstRow.map((value) => value.trim().toLowerCase());
+    emailIndex = headers.findIndex((header) => EMAIL_HEADERS.includes(header));
+    roleIndex = headers.findIndex((header) => ROLE_HEADERS.includes(header));
+
+    if (emailIndex === -1 || roleIndex === -1) {
+      throw new MemberImportFileError(
+        "メールアドレス列とロール列が見つかりません。ヘッダー行に「メールアドレス」「ロール」を含めてください"
+      );
+    }
+  }
+
+  return cells
+    .map((row, index) => ({
+      rowNumber: index + 1,
+      email: (row[emailIndex] ?? "").trim(),
+      role: (row[roleIndex] ?? "").trim(),
+    }))
+    .filter((row, index) => !(hasHeader && index === 0) && (row.email !== "" || row.role !== ""));
+};
+
+/**
+ * インポートファイル（.csv / .xlsx）を読み込む
+ *
+ * @param file - ユーザーが選択したファイル
+ * @returns メールアドレスとロールの組（空行を除く）
+ * @throws {MemberImportFileError} 対応していない形式、または列を特定できない場合
+ *
+ * @example
+ * ```tsx
+ * const rows = await readMemberImportFile(file)
+ * console.log(rows) // [{ rowNumber: 2, email: "user@example.com", role: "member" }]
+ * ```
+ */
+export const readMemberImportFile = async (file: File): Promise<MemberImportRow[]> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".csv")) {
+    const text = await file.text();
+
+    return toImportRows(parseCsv(text.replace(/^\uFEFF/, "")));
+  }
+
+  if (name.endsWith(".xlsx")) {
+    return toImportRows(await parseExcel(await file.arrayBuffer()));
+  }
+
+  throw new MemberImportFileError("CSV（.csv）または Excel（.xlsx）ファイルを選択してください");
+};
@@ -0,0 +1,82 @@
+/**
+ * メンバーシップの有効期限ユーティリティ
+ *
+ * 業務委託など期間を限って参加するメンバーには、メンバーシップの有効期限（expires_at）を設定できます。
+ * 有効期限を過ぎたメンバーはプロジェクトの権限を失います（一覧には残り、期限の延長や削除ができます）。
+ * UIの表示とモックAPIの権限チェックは、同じ判定ロジックを共有します。
+ *
+ * @module features/projects/utils/membership-expiry
+ */
+
+import { differenceInCalendarDays, endOfDay, format, parseISO } from "date-fns";
+
+import type { ProjectMember } from "../types";
+
+/**
+ * 有効期限が近いとみなす日数（この日数以内に期限が切れるメンバーを強調表示する）
+ */
+export const MEMBERSHIP_EXPIRY_WARNING_DAYS = 7;
+
+/**
+ * メンバーシップの有効期限が過ぎているかを判定
+ *
+ * @param now - 基準日時（省略時は現在日時）
+ *
+ * @example
+ * ```ts
+ * isMembershipExpired({ ...member, expires_at: "2024-01-01T00:00:00Z" }) // true
+ * isMembershipExpired({ ...member, expires_at: null }) // false
+ * ```
+ */
+export const isMembershipExpired = (member: Pick<ProjectMember, "expires_at">, now: Date = new Date()): boolean => {
+  if (member.expires_at === null || member.expires_at === undefined) {
+    return false;
+  }
+
+  return new Date(member.expires_at).getTime() <= now.getTime();
+};
+
+/**
+ * メンバーシップの有効期限までの日数を取得（0 未満にはならない）
+ *
+ * @param now - 基準日時（省略時は現在日時）
+ * @returns 有効期限がない場合は null
+ *
+ * @example
+ * ```ts
+ * getDaysUntilMembershipExpiry(member) // 5
+ * ```
+ */
+export const getDaysUntilMembershipExpiry = (member: Pick<ProjectMember, "expires_at">, now: Date = new Date()): number | null => {
+  if (member.expires_at === null || member.expires_at === undefined) {
+    return null;
+  }
+
+  return Math.max(differenceInCalendarDays(new Date(member.expires_at), now), 0);
+};
+
+/**
+ * 日付入力欄の値（yyyy-MM-dd）を有効期限の日時に変換
+ *
+ * 指定した日の終わり（ローカル時刻）まで有効とします。
+ *
+ * @returns 空文字（期限なし）の場合は null
+ *
+ * @example
+ * ```ts
+ * toMembershipExpiresAt("2025-03-31") // "2025-03-31T14:59:59.999Z"（日本時間の場合）
+ * toMembershipExpiresAt("") // null
+ * ```
+ */
+export const toMembershipExpiresAt = (date: string): string | null => {
+  return date === "" ? null : endOfDay(parseISO(date)).toISOString();
+};
+
+/**
+ * 有効期限の日時を日付入力欄の値（yyyy-MM-dd）に変換
+ *
+ * @returns 有効期限がない場合は空文字
+ */
+export const toMembershipExpiryDate = (expiresAt: string | null | undefined): string => {
+  return expiresAt === null || expiresAt === undefined ? "" : format(new Date(expiresAt), "yyyy-MM-dd");
+};
@@ -0,0 +1,99 @@
+/**
+ * 権限解決ユーティリティ
+ *
+ * ユーザーのシステムロールとプロジェクトロールから、実効権限を算出します。
+ *
+ * @module features/projects/utils/permissions
+ */
+
+import { PROJECT_ROLE_PERMISSIONS, SYSTEM_ROLE_PERMISSIONS } from "../constants/permissions";
+import { type Permission, type ProjectRole, type SystemRole, systemRoleSchema } from "../types";
+
+/**
+ * 認証ユーザーのロール文字列をシステムロールに変換
+ *
+ * 認証基盤から返るロールは表記揺れ（"User" / "user" など）があるため、
+ * 小文字化した上で systemRoleSchema に一致するものだけを残します。
+ *
+ * @example
+ * ```ts
+ * toSystemRoles(["User", "System_Admin", "unknown"]) // ["user", "system_admin"]
+ * ```
+ */
+export const toSystemRoles = (roles: readonly string[]): SystemRole[] => {
+  return roles.flatMap((role) => {
+    const result = systemRoleSchema.safeParse(role.toLowerCase());
+
+    return result.success ? [result.data] : [];
+  });
+};
+
+type ResolvePermissionsParams = {
+  /** ユーザーのシステムロール */
+  systemRoles: readonly SystemRole[];
+  /** 対象プロジェクトでのロール（メンバーでない場合は null） */
+  projectRole: ProjectRole | null;
+};
+
+/**
+ * 実効権限を算出
+ *
+ * システムロールとプロジェクトロールの権限の和集合を返します。
+ *
+ * @example
+ * ```ts
+ * const permissions = resolvePermissions({ systemRoles: ["user"], projectRole: "member" });
+ * permissions.has("project:edit") // true
+ * permissions.has("project:delete") // false
+ * ```
+ */
+export const resolvePermissions = ({ systemRoles, projectRole }: ResolvePermissionsParams): ReadonlySet<Permission> => {
+  const permissions = new Set<Permission>();
+
+  systemRoles.forEach((role) => {
+    SYSTEM_ROLE_PERMISSIONS[role].forEach((permission) => permissions.add(permission));
+  });
+
+  if (projectRole !== null) {
+    PROJECT_ROLE_PERMISSIONS[projectRole].forEach((permission) => permissions.add(permission));
+  }
+
+  return permissions;
+};
+
+/**
+ * 権限の付与元
+ *
+ * - project_role: プロジェクトロールによって付与された権限
+ * - system_role: システムロール（system_admin など）によって付与された権限
+ */
+export type PermissionSource = { kind: "project_role"; role: ProjectRole } | { kind: "system_role"; role: SystemRole };
+
+/**
+ * 権限の付与元を取得
+ *
+ * resolvePermissions と同じマッピングを参照し、指定した権限を付与しているロールをすべて返します。
+ * 権限がない場合は空配列を返します。
+ *
+ * @example
+ * ```ts
+ * getPermissionSources({ systemRoles: ["system_admin"], projectRole: "viewer" }, "project:view")
+ * // [{ kind: "project_role", role: "viewer" }, { kind: "system_role", role: "system_admin" }]
+ * ```
+ */
+export const getPermissionSources = (
+  { systemRoles, projectRole }: ResolvePermissionsParams,
+  permission: Permission
+): PermissionSource[] => {
+  const sources: PermissionSource[] = [];
+
+  if (projectRole !== null && PROJECT_ROLE_PERMISSIONS[projectRole].includes(permission)) {
+    sources.push({ kind: "project_role", role: projectRole });
+  }
+
+  systemRoles
+    .filter((role) => SYSTEM_ROLE_PERMISSIONS[role].includes(permission))
+    .forEach((role) => sources.push({ kind: "system_role", role }));
+
+  return sources;
+};
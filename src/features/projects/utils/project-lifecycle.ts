@@ -0,0 +1,72 @@
+/**
+ * プロジェクトのライフサイクルユーティリティ
+ *
+ * プロジェクトは「アクティブ → アーカイブ → ゴミ箱 → 完全削除」の順に状態が変わります。
+ * UIの表示制御とモックAPIのゴミ箱管理は、同じ判定ロジックを共有します。
+ *
+ * - アーカイブ（is_active が false）: 一覧の既定の表示から外れ、閲覧のみ可能
+ * - ゴミ箱（deleted_at が設定済み）: 保持期間内であれば復元でき、保持期間を過ぎると完全に削除される
+ *
+ * @module features/projects/utils/project-lifecycle
+ */
+
+import { addDays, differenceInCalendarDays } from "date-fns";
+
+import type { Project, ProjectLifecycleStatus } from "../types";
+
+/**
+ * ゴミ箱の保持期間（日数）
+ */
+export const PROJECT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * プロジェクトのライフサイクル状態を取得
+ *
+ * ゴミ箱にあるプロジェクトは、アーカイブ済みかどうかに関わらず trashed になります。
+ *
+ * @example
+ * ```ts
+ * getProjectLifecycleStatus({ ...project, is_active: false, deleted_at: null }) // "archived"
+ * ```
+ */
+export const getProjectLifecycleStatus = (project: Project): ProjectLifecycleStatus => {
+  if (project.deleted_at !== null) {
+    return "trashed";
+  }
+
+  return project.is_active ? "active" : "archived";
+};
+
+/**
+ * ゴミ箱のプロジェクトが完全に削除される日時を取得
+ *
+ * @returns ゴミ箱にないプロジェクトの場合は null
+ */
+export const getProjectPurgeDate = (project: Project): Date | null => {
+  if (project.deleted_at === null) {
+    return null;
+  }
+
+  return addDays(new Date(project.deleted_at), PROJECT_TRASH_RETENTION_DAYS);
+};
+
+/**
+ * ゴミ箱のプロジェクトが完全に削除されるまでの日数を取得（0 未満にはならない）
+ *
+ * @param now - 基準日時（省略時は現在日時）
+ * @returns ゴミ箱にないプロジェクトの場合は null
+ *
+ * @example
+ * ```ts
+ * getDaysUntilPurge(project) // 29
+ * ```
+ */
+export const getDaysUntilPurge = (project: Project, now: Date = new Date()): number | null => {
+  const purgeDate = getProjectPurgeDate(project);
+
+  if (purgeDate === null) {
+    return null;
+  }
+
+  return Math.max(differenceInCalendarDays(purgeDate, now), 0);
+};
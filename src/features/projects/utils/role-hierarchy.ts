@@ -0,0 +1,211 @@
+/**
+ * ロール階層ユーティリティ
+ *
+ * メンバー管理で「誰が誰に何をできるか」を判定します。
+ * UIの表示制御とモックAPIの検証は、同じ判定ロジックを共有します。
+ *
+ * - メンバー管理権限（project:manage_members）がない場合は、ロールの付与・メンバーの変更・削除・招待ができない
+ * - 自分より上位のロールは付与できない（project_manager と system_admin は全ロールを付与可能）
+ * - 自分より上位のロールを持つメンバーは変更・削除できない
+ * - project_manager 以外は自分自身のロール変更・削除ができない
+ * - プロジェクトの最後の project_manager（有効期限切れのメンバーは数えない）は降格・削除できない
+ * - メンバーの招待・追加は、プロジェクトの招待ポリシーで許可されたロールのみ可能
+ * - 権限リクエストでは、現在のロールより上位のロールのみリクエストできる
+ *
+ * @module features/projects/utils/role-hierarchy
+ */
+
+import { PROJECT_ROLE_RANK } from "../constants/roles";
+import { type MemberInvitePolicy, type ProjectMember, type ProjectRole, projectRoleSchema } from "../types";
+import { isMembershipExpired } from "./membership-expiry";
+
+/**
+ * 操作を行うユーザー（アクター）の情報
+ */
+export type RoleActor = {
+  /** ユーザーID */
+  userId: string | null;
+  /** 対象プロジェクトでのロール（メンバーでない場合は null） */
+  projectRole: ProjectRole | null;
+  /** system_admin かどうか */
+  isSystemAdmin: boolean;
+  /** メンバー管理権限（project:manage_members）を持つかどうか */
+  canManageMembers: boolean;
+};
+
+/**
+ * メンバー操作が制限される理由
+ *
+ * - no_permission: アクターがメンバー管理権限を持たない
+ * - self: 自分自身のロール（project_manager 以外）
+ * - outranked: 対象メンバーのロールがアクターより上位
+ * - last_manager: プロジェクトの最後の project_manager
+ */
+export type MemberRestrictionReason = "no_permission" | "self" | "outranked" | "last_manager";
+
+/**
+ * メンバーに対して実行できる操作
+ */
+export type MemberRestriction = {
+  /** ロールを変更できるかどうか */
+  canChangeRole: boolean;
+  /** プロジェクトから削除できるかどうか */
+  canRemove: boolean;
+  /** 変更先として選択できるロール */
+  assignableRoles: ProjectRole[];
+  /** 操作が制限される理由（制限がない場合は null） */
+  reason: MemberRestrictionReason | null;
+};
+
+/**
+ * アクターが付与できるロールを取得
+ *
+ * @example
+ * ```ts
+ * getAssignableRoles({ userId: "u1", projectRole: "project_moderator", isSystemAdmin: false, canManageMembers: true })
+ * // ["project_moderator", "member", "viewer"]
+ * ```
+ */
+export const getAssignableRoles = (actor: RoleActor): ProjectRole[] => {
+  const roles = projectRoleSchema.options;
+
+  if (!actor.canManageMembers) {
+    return [];
+  }
+  if (actor.isSystemAdmin || actor.projectRole === "project_manager") {
+    return [...roles];
+  }
+  if (actor.projectRole === null) {
+    return [];
+  }
+
+  const actorRank = PROJECT_ROLE_RANK[actor.projectRole];
+
+  return roles.filter((role) => PROJECT_ROLE_RANK[role] <= actorRank);
+};
+
+/**
+ * 追加・招待のフォームで最初に選択しておくロールを取得
+ *
+ * preferred が付与できない場合は、付与できるロールのうち最も下位のロールを返します。
+ *
+ * @param assignableRoles - 付与できるロール（上位ロールから順）
+ * @param preferred - 優先するロール（プロジェクト設定の既定のロールなど）
+ *
+ * @example
+ * ```ts
+ * getInitialRole(["member", "viewer"], "project_moderator") // "viewer"
+ * ```
+ */
+export const getInitialRole = (assignableRoles: readonly ProjectRole[], preferred: ProjectRole = "member"): ProjectRole => {
+  return assignableRoles.includes(preferred) ? preferred : (assignableRoles.at(-1) ?? "viewer");
+};
+
+/**
+ * アクターがプロジェクトの招待ポリシーのもとでメンバーを招待・追加できるかを判定
+ *
+ * project_manager と system_admin は常に招待できます。project_moderator は
+ * ポリシーが managers_and_moderators の場合のみ招待できます。メンバー管理権限がない場合は招待できません。
+ *
+ * @example
+ * ```ts
+ * canInviteMembers({ userId: "u1", projectRole: "project_moderator", isSystemAdmin: false, canManageMembers: true }, "managers_only")
+ * // false
+ * ```
+ */
+export const canInviteMembers = (actor: RoleActor, policy: MemberInvitePolicy) => {
+  if (!actor.canManageMembers) {
+    return false;
+  }
+  if (actor.isSystemAdmin || actor.projectRole === "project_manager") {
+    return true;
+  }
+
+  return actor.projectRole === "project_moderator" && policy === "managers_and_moderators";
+};
+
+/**
+ * 権限リクエストでリクエストできるロールを取得（上位ロールから順）
+ *
+ * 現在のロールより上位のロールのみリクエストできます。project_manager は空配列になります。
+ *
+ * @example
+ * ```ts
+ * getRequestableRoles("viewer") // ["project_manager", "project_moderator", "member"]
+ * ```
+ */
+export const getRequestableRoles = (currentRole: ProjectRole): ProjectRole[] => {
+  return projectRoleSchema.options.filter((role) => PROJECT_ROLE_RANK[role] > PROJECT_ROLE_RANK[currentRole]);
+};
+
+/**
+ * メンバーが有効な（有効期限切れでない）project_manager かどうか
+ */
+const isActiveProjectManager = (member: Pick<ProjectMember, "role" | "expires_at">) =>
+  member.role === "project_manager" && !isMembershipExpired(member);
+
+/**
+ * プロジェクトの最後の project_manager かどうかを判定
+ *
+ * 有効期限切れの project_manager は権限を持たないため、ほかのマネージャーとして数えません。
+ *
+ * @param member - 判定対象のメンバー
+ * @param members - 同じプロジェクトの全メンバー
+ */
+export const isLastProjectManager = (
+  member: Pick<ProjectMember, "role" | "expires_at">,
+  members: readonly Pick<ProjectMember, "role" | "expires_at">[]
+) => {
+  return isActiveProjectManager(member) && members.filter(isActiveProjectManager).length <= 1;
+};
+
+/**
+ * メンバーに対してアクターが実行できる操作を判定
+ *
+ * @example
+ * ```ts
+ * const restriction = getMemberRestriction({ actor, member, members });
+ * if (!restriction.canRemove) {
+ *   console.log(restriction.reason); // "last_manager" など
+ * }
+ * ```
+ */
+export const getMemberRestriction = ({
+  actor,
+  member,
+  members,
+}: {
+  actor: RoleActor;
+  member: Pick<ProjectMember, "user_id" | "role" | "expires_at">;
+  members: readonly Pick<ProjectMember, "role" | "expires_at">[];
+}): MemberRestriction => {
+  const assignableRoles = getAssignableRoles(actor);
+  const denied = (reason: MemberRestrictionReason): MemberRestriction => ({
+    canChangeRole: false,
+    canRemove: false,
+    assignableRoles: [],
+    reason,
+  });
+
+  const isPrivileged = actor.isSystemAdmin || actor.projectRole === "project_manager";
+
+  if (!actor.canManageMembers) {
+    return denied("no_permission");
+  }
+  if (!isPrivileged && actor.userId === member.user_id) {
+    return denied("self");
+  }
+  if (!assignableRoles.includes(member.role)) {
+    return denied("outranked");
+  }
+  if (isLastProjectManager(member, members)) {
+    return denied("last_manager");
+  }
+
+  return {
+    canChangeRole: true,
+    canRemove: true,
+    assignableRoles,
+    reason: null,
+  };
+};
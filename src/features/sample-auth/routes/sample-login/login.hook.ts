@@ -8,6 +8,7 @@ import { useLogin as useLoginMutation } from "@/features/sample-auth/api/login";
 import { useAuthStore } from "@/features/sample-auth/stores/auth-store";
 import { setValidatedToken } from "@/features/sample-auth/stores/schemas/token-storage.schema";
 import { loginFormSchema, type LoginFormValues } from "@/features/sample-auth/types/forms";
+import { setValidationErrors } from "@/lib/form-errors";
 
 /**
  * ログインページのロジックを管理するカスタムフック
@@ -51,6 +52,7 @@ export const useLogin = () => {
     handleSubmit,
     formState: { errors },
     setError,
+    getValues,
   } = useForm<LoginFormValues>({
     resolver: zodResolver(loginFormSchema),
     defaultValues: {
@@ -71,7 +73,7 @@ export const useLogin = () => {
    *    - トークンをlocalStorageに保存
    *    - ユーザー情報をZustandストアに保存
    *    - ユーザー一覧ページへ遷移
-   * 3. エラー時: フォームにエラーメッセージを表示
+   * 3. エラー時: バリデーションエラーは該当するフィールドに、それ以外はフォームにエラーメッセージを表示
    */
   const onSubmit = handleSubmit(async (values: LoginFormValues) => {
     await loginMutation
@@ -95,11 +97,13 @@ export const useLogin = () => {
           });
         }
       })
-      .catch(() => {
-        // ログイン失敗時のエラーメッセージを表示
-        setError("root", {
-          message: "ログインに失敗しました。メールアドレスとパスワードを確認してください。",
-        });
+      .catch((error: unknown) => {
+        // バリデーションエラーでない場合は、ログイン失敗時のエラーメッセージを表示
+        if (!setValidationErrors(error, { setError, getValues })) {
+          setError("root", {
+            message: "ログインに失敗しました。メールアドレスとパスワードを確認してください。",
+          });
+        }
       });
   });
 
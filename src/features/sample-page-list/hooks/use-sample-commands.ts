@@ -0,0 +1,35 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { useRegisterCommands } from "@/features/command-palette/hooks/use-register-commands";
+import type { PaletteCommand } from "@/features/command-palette/types";
+
+import { SAMPLES } from "../constants/samples";
+
+/**
+ * サンプルページへの移動をコマンドパレットに登録するフック
+ *
+ * SAMPLES の各ページを「サンプル」グループのコマンドとして登録します。カテゴリ名でも検索できます。
+ *
+ * @example
+ * ```tsx
+ * useSampleCommands()
+ * ```
+ */
+export const useSampleCommands = () => {
+  const commands = useMemo<PaletteCommand[]>(
+    () =>
+      SAMPLES.map((sample) => ({
+        id: `sample:${sample.href}`,
+        title: sample.title,
+        group: "サンプル",
+        description: sample.category,
+        keywords: [sample.category],
+        href: sample.href,
+      })),
+    []
+  );
+
+  useRegisterCommands("samples", commands);
+};
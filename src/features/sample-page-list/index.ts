@@ -1,4 +1,5 @@
 export type { SampleItem } from "./constants/samples";
 export { SAMPLES } from "./constants/samples";
+export { useSampleCommands } from "./hooks/use-sample-commands";
 export { default } from "./routes/sample-page-list";
 export { default as SamplePageList } from "./routes/sample-page-list";
@@ -7,6 +7,7 @@ import { useForm } from "react-hook-form";
 import { useUpdateUser } from "@/features/sample-users";
 import { useUser } from "@/features/sample-users/api/get-user";
 import { userFormSchema, type UserFormValues } from "@/features/sample-users/types/forms";
+import { setValidationErrors } from "@/lib/form-errors";
 import type { Role } from "@/lib/validations/fields/role";
 
 /**
@@ -34,6 +35,7 @@ export const useEditUser = (userId: string) => {
     handleSubmit,
     formState: { errors },
     setError,
+    getValues,
   } = useForm<UserFormValues>({
     resolver: zodResolver(userFormSchema),
     // useSuspenseQueryなので最初からdataが存在し、useEffectが不要
@@ -53,7 +55,7 @@ export const useEditUser = (userId: string) => {
    * 処理フロー:
    * 1. FastAPIにユーザー更新リクエスト送信
    * 2. 成功時: ユーザー一覧ページへ遷移
-   * 3. エラー時: フォームにエラーメッセージを表示
+   * 3. エラー時: バリデーションエラーは該当するフィールドに、それ以外はフォームにエラーメッセージを表示
    */
   const onSubmit = handleSubmit(async (formData: UserFormValues) => {
     await updateUserMutation
@@ -64,10 +66,12 @@ export const useEditUser = (userId: string) => {
       .then(() => {
         router.push("/sample-users");
       })
-      .catch(() => {
-        setError("root", {
-          message: "ユーザーの更新に失敗しました",
-        });
+      .catch((error: unknown) => {
+        if (!setValidationErrors(error, { setError, getValues })) {
+          setError("root", {
+            message: "ユーザーの更新に失敗しました",
+          });
+        }
       });
   });
 
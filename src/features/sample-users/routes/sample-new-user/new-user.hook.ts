@@ -6,6 +6,7 @@ import { useForm } from "react-hook-form";
 
 import { useCreateUser } from "@/features/sample-users";
 import { userFormSchema, type UserFormValues } from "@/features/sample-users/types/forms";
+import { setValidationErrors } from "@/lib/form-errors";
 
 /**
  * 新規ユーザー作成ページのロジックを管理するカスタムフック
@@ -25,6 +26,7 @@ export const useNewUser = () => {
     handleSubmit,
     formState: { errors },
     setError,
+    getValues,
   } = useForm<UserFormValues>({
     resolver: zodResolver(userFormSchema),
     defaultValues: {
@@ -43,7 +45,7 @@ export const useNewUser = () => {
    * 処理フロー:
    * 1. FastAPIにユーザー作成リクエスト送信
    * 2. 成功時: ユーザー一覧ページへ遷移
-   * 3. エラー時: フォームにエラーメッセージを表示
+   * 3. エラー時: バリデーションエラーは該当するフィールドに、それ以外はフォームにエラーメッセージを表示
    */
   const onSubmit = handleSubmit(async (data: UserFormValues) => {
     await createUserMutation
@@ -51,10 +53,12 @@ export const useNewUser = () => {
       .then(() => {
         router.push("/sample-users");
       })
-      .catch(() => {
-        setError("root", {
-          message: "ユーザーの作成に失敗しました",
-        });
+      .catch((error: unknown) => {
+        if (!setValidationErrors(error, { setError, getValues })) {
+          setError("root", {
+            message: "ユーザーの作成に失敗しました",
+          });
+        }
       });
   });
 
@@ -125,3 +125,54 @@ export const WithError: Story = {
   },
   tags: ["skip"],
 };
+
+/**
+ * サーバー側のバリデーションエラー
+ */
+export const WithValidationError: Story = {
+  name: "バリデーションエラー（サーバー）",
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "APIがフィールドごとのバリデーションエラー（RFC 9457 の拡張メンバー errors）を返した場合の状態。エラーメッセージが該当するフィールドに表示されることを確認します。",
+      },
+    },
+    msw: {
+      handlers: [
+        http.post("*/api/v1/sample/users", () => {
+          return HttpResponse.json(
+            {
+              type: "https://api.example.com/problems/validation-error",
+              title: "Validation Error",
+              status: 422,
+              detail: "The request contains invalid fields",
+              instance: "/api/v1/sample/users",
+              errors: {
+                email: ["This email address is already in use"],
+              },
+            },
+            {
+              status: 422,
+              headers: { "Content-Type": "application/problem+json" },
+            }
+          );
+        }),
+      ],
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    // Formに入力
+    await userEvent.type(canvas.getByLabelText(/名前/i), "山田太郎");
+    await userEvent.type(canvas.getByLabelText(/メールアドレス/i), "john@example.com");
+
+    // 送信ボタンをクリック
+    await userEvent.click(canvas.getByRole("button", { name: /作成/i }));
+
+    // フィールドのエラーが表示され、汎用のエラーメッセージは表示されないことを確認
+    expect(await canvas.findByText("This email address is already in use")).toBeInTheDocument();
+    expect(canvas.queryByText(/ユーザーの作成に失敗しました/i)).not.toBeInTheDocument();
+  },
+};
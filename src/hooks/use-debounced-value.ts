@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+
+/**
+ * 値の変化を一定時間遅らせて反映するカスタムフック
+ *
+ * 入力のたびにAPIを呼び出さないよう、最後の変更から delay ミリ秒経過した時点の値を返します。
+ *
+ * @example
+ * ```tsx
+ * const [keyword, setKeyword] = useState("");
+ * const debouncedKeyword = useDebouncedValue(keyword, 300);
+ *
+ * const { data } = useSearchUsers({ query: debouncedKeyword });
+ * ```
+ *
+ * @param value - 遅延させる値
+ * @param delay - 遅延時間（ミリ秒）
+ * @returns 最後の変更から delay ミリ秒経過した時点の値
+ */
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedValue(value);
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [value, delay]);
+
+  return debouncedValue;
+};
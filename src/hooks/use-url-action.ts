@@ -0,0 +1,40 @@
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useEffect, useRef } from "react";
+
+/**
+ * URL の検索パラメータ action で指定された操作を一度だけ実行するカスタムフック
+ *
+ * コマンドパレットなど別のページから「遷移先で操作を開始する」ために使用します（例: /projects?action=create）。
+ * action が一致した場合は onAction を呼び出し、再読み込みで同じ操作が繰り返されないよう action を URL から取り除きます。
+ *
+ * @example
+ * ```tsx
+ * const [isOpen, setIsOpen] = useState(false);
+ * useUrlAction("create", () => setIsOpen(true));
+ * ```
+ *
+ * @param action - 実行する操作の名前
+ * @param onAction - action が一致した場合に呼び出す関数
+ */
+export const useUrlAction = (action: string, onAction: () => void) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const requestedAction = searchParams.get("action");
+  // 毎回の描画で変わる関数を依存配列に含めないよう、最新の onAction を参照で保持する
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  useEffect(() => {
+    if (requestedAction !== action) {
+      return;
+    }
+
+    onActionRef.current();
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("action");
+    const search = params.toString();
+    router.replace(search === "" ? pathname : `${pathname}?${search}`, { scroll: false });
+  }, [action, requestedAction, pathname, router, searchParams]);
+};
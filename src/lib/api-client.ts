@@ -1,149 +1,13 @@
 import Axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
 
-import { msalInstance } from "@/app/provider";
 import { env } from "@/config/env";
 import { loginRequest } from "@/config/msal";
+import { paths } from "@/config/paths";
 import { getCsrfHeaderName, getCsrfToken } from "@/lib/csrf";
+import { msalInstance } from "@/lib/msal";
 import { MOCK_AUTH } from "@/mocks/handlers/api/v1/auth/auth-handlers";
 
-// ================================================================================
-// RFC 9457: Problem Details for HTTP APIs
-// ================================================================================
-
-/**
- * RFC 9457: Problem Details for HTTP APIs
- *
- * @see https://www.rfc-editor.org/rfc/rfc9457.html
- */
-export type ProblemDetails = {
-  type?: string;
-  title?: string;
-  status?: number;
-  detail?: string;
-  instance?: string;
-  [key: string]: unknown;
-};
-
-/**
- * エラータイプ定数（型安全なエラー判定用）
- */
-export const ProblemTypes = {
-  // 認証エラー
-  UNAUTHORIZED: "https://api.example.com/problems/unauthorized",
-  FORBIDDEN: "https://api.example.com/problems/forbidden",
-  TOKEN_EXPIRED: "https://api.example.com/problems/token-expired",
-
-  // バリデーションエラー
-  VALIDATION_ERROR: "https://api.example.com/problems/validation-error",
-  INVALID_REQUEST: "https://api.example.com/problems/invalid-request",
-
-  // ビジネスロジックエラー
-  RESOURCE_NOT_FOUND: "https://api.example.com/problems/resource-not-found",
-  DUPLICATE_RESOURCE: "https://api.example.com/problems/duplicate-resource",
-  INSUFFICIENT_CREDIT: "https://api.example.com/problems/insufficient-credit",
-
-  // サーバーエラー
-  INTERNAL_SERVER_ERROR: "https://api.example.com/problems/internal-server-error",
-  SERVICE_UNAVAILABLE: "https://api.example.com/problems/service-unavailable",
-
-  // デフォルト
-  ABOUT_BLANK: "about:blank",
-} as const;
-
-export type ProblemType = (typeof ProblemTypes)[keyof typeof ProblemTypes];
-
-// ================================================================================
-// ApiError Class
-// ================================================================================
-
-/**
- * RFC 9457 Problem Details を扱いやすくするラッパー
- */
-export class ApiError extends Error {
-  public readonly problemDetails: ProblemDetails;
-  public readonly status: number;
-  public readonly originalError: AxiosError<ProblemDetails>;
-
-  constructor(axiosError: AxiosError<ProblemDetails>) {
-    const problemDetails = axiosError.response?.data ?? {};
-    const message = problemDetails.detail ?? problemDetails.title ?? axiosError.message ?? "エラーが発生しました";
-
-    super(message);
-
-    this.name = "ApiError";
-    this.problemDetails = problemDetails;
-    this.status = axiosError.response?.status ?? 0;
-    this.originalError = axiosError;
-
-    // スタックトレースを正しく保持
-    if (Error.captureStackTrace !== undefined) {
-      Error.captureStackTrace(this, ApiError);
-    }
-  }
-
-  get type(): string {
-    return this.problemDetails.type ?? "about:blank";
-  }
-
-  get title(): string {
-    return this.problemDetails.title ?? "エラー";
-  }
-
-  get detail(): string {
-    return this.problemDetails.detail ?? this.message;
-  }
-
-  get instance(): string | undefined {
-    return this.problemDetails.instance;
-  }
-
-  /**
-   * @example
-   * const validationErrors = error.getExtension<Record<string, string[]>>('errors');
-   */
-  getExtension<T = unknown>(key: string): T | undefined {
-    return this.problemDetails[key] as T;
-  }
-
-  /**
-   * @example
-   * if (error.isType(ProblemTypes.VALIDATION_ERROR)) {
-   *   // バリデーションエラー固有の処理
-   * }
-   */
-  isType(typeUri: string): boolean {
-    return this.type === typeUri;
-  }
-
-  /**
-   * @example
-   * if (error.isStatus(403)) {
-   *   // 403エラー固有の処理
-   * }
-   */
-  isStatus(statusCode: number): boolean {
-    return this.status === statusCode;
-  }
-
-  isClientError(): boolean {
-    return this.status >= 400 && this.status < 500;
-  }
-
-  isServerError(): boolean {
-    return this.status >= 500 && this.status < 600;
-  }
-
-  toJSON(): ProblemDetails {
-    return {
-      type: this.type,
-      title: this.title,
-      status: this.status,
-      detail: this.detail,
-      instance: this.instance,
-      ...this.problemDetails,
-    };
-  }
-}
+import { ApiError, type ProblemDetails, ProblemTypes } from "./api-error";
 
 // ================================================================================
 // Token Service
@@ -154,6 +18,8 @@ export class ApiError extends Error {
  */
 export type TokenService = {
   getAccessToken: () => Promise<string | null>;
+  /** キャッシュを使わずにアクセストークンを再取得する（取得できない場合は null） */
+  refreshAccessToken: () => Promise<string | null>;
 };
 
 /**
@@ -163,6 +29,17 @@ export type TokenService = {
  */
 class ProductionTokenService implements TokenService {
   async getAccessToken(): Promise<string | null> {
+    return this.acquireToken(false);
+  }
+
+  async refreshAccessToken(): Promise<string | null> {
+    return this.acquireToken(true);
+  }
+
+  /**
+   * @param forceRefresh - true の場合、キャッシュされたトークンを使わずに再取得する
+   */
+  private async acquireToken(forceRefresh: boolean): Promise<string | null> {
     if (!msalInstance) {
       console.error("[TokenService] MSAL instance is not initialized");
 
@@ -180,6 +57,7 @@ class ProductionTokenService implements TokenService {
       .acquireTokenSilent({
         ...loginRequest,
         account: accounts[0],
+        forceRefresh,
       })
       .then((response) => response.accessToken)
       .catch((error) => {
@@ -199,6 +77,10 @@ class DevelopmentTokenService implements TokenService {
   async getAccessToken(): Promise<string | null> {
     return MOCK_AUTH.TOKEN;
   }
+
+  async refreshAccessToken(): Promise<string | null> {
+    return MOCK_AUTH.TOKEN;
+  }
 }
 
 /**
@@ -208,6 +90,64 @@ class DevelopmentTokenService implements TokenService {
  */
 export const tokenService: TokenService = env.AUTH_MODE === "production" ? new ProductionTokenService() : new DevelopmentTokenService();
 
+// ================================================================================
+// Token Refresh
+// ================================================================================
+
+/**
+ * 実行中のトークン再取得
+ *
+ * トークンの期限切れで同時に失敗したリクエストは、同じ再取得の完了を待ってから順に再送します。
+ */
+let pendingRefresh: Promise<string | null> | null = null;
+
+/**
+ * トークン再取得後の再送かどうかを保持するリクエスト設定
+ *
+ * Axios は再送のたびにリクエスト設定を作り直すため、フラグは設定自体に持たせます（独自のプロパティも引き継がれる）。
+ * 再送でも 401 になった場合に、再取得を繰り返さないために使用します。
+ */
+type ReplayableRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+};
+
+/**
+ * アクセストークンを再取得する
+ *
+ * 再取得中に呼び出された場合は、新しく再取得せずに実行中の再取得の結果を返します。
+ */
+const refreshAccessToken = (): Promise<string | null> => {
+  pendingRefresh ??= tokenService.refreshAccessToken().finally(() => {
+    pendingRefresh = null;
+  });
+
+  return pendingRefresh;
+};
+
+/**
+ * 認証状態をクリアしてログインページへ遷移する
+ *
+ * 現在のURLを returnUrl としてログインページに渡し、再ログイン後に元のページへ戻れるようにします。
+ */
+const redirectToLogin = async () => {
+  const { pathname, search } = window.location;
+
+  if (pathname === paths.login.getHref()) {
+    return;
+  }
+
+  try {
+    // ストアをクリア（awaitで完了を待つ）
+    const { useAuthStore } = await import("@/features/auth/stores/auth-store");
+    useAuthStore.getState().logout();
+  } catch (err) {
+    console.error("[API Client] 認証エラー処理に失敗:", err);
+  }
+
+  // 認証状態のクリアが完了してからリダイレクト（失敗した場合も強制的にログインページへ）
+  window.location.href = paths.login.getHref(`${pathname}${search}`);
+};
+
 // ================================================================================
 // Axios Instance Configuration
 // ================================================================================
@@ -275,24 +215,23 @@ api.interceptors.response.use(
       });
     }
 
-    // 401エラー時の自動ログアウト・リダイレクト
     if (apiError.isStatus(401) && typeof window !== "undefined") {
-      const currentPath = window.location.pathname;
-
-      if (currentPath !== "/login") {
-        try {
-          // ストアをクリア（awaitで完了を待つ）
-          const { useAuthStore } = await import("@/features/auth/stores/auth-store");
-          useAuthStore.getState().logout();
-
-          // 認証状態のクリアが完了してからリダイレクト
-          window.location.href = "/login";
-        } catch (err) {
-          console.error("[API Client] 認証エラー処理に失敗:", err);
-          // フォールバック：強制的にログインページへ
-          window.location.href = "/login";
+      const config = error.config as ReplayableRequestConfig | undefined;
+
+      // アクセストークンの期限切れは、トークンを再取得して1回だけ再送する（再送でも期限切れの場合はログアウトする）
+      if (apiError.isType(ProblemTypes.TOKEN_EXPIRED) && config !== undefined && config._retry !== true) {
+        const token = await refreshAccessToken();
+
+        if (token !== null) {
+          config._retry = true;
+          config.headers.Authorization = `Bearer ${token}`;
+
+          return api(config);
         }
       }
+
+      // トークンを再取得できない場合・期限切れ以外の認証エラーの場合はログアウトする
+      await redirectToLogin();
     }
 
     // ApiErrorをreject
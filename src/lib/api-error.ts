@@ -0,0 +1,151 @@
+import { AxiosError } from "axios";
+
+// ================================================================================
+// RFC 9457: Problem Details for HTTP APIs
+// ================================================================================
+
+/**
+ * RFC 9457: Problem Details for HTTP APIs
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9457.html
+ */
+export type ProblemDetails = {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * エラータイプ定数（型安全なエラー判定用）
+ */
+export const ProblemTypes = {
+  // 認証エラー
+  UNAUTHORIZED: "https://api.example.com/problems/unauthorized",
+  FORBIDDEN: "https://api.example.com/problems/forbidden",
+  TOKEN_EXPIRED: "https://api.example.com/problems/token-expired",
+
+  // バリデーションエラー
+  VALIDATION_ERROR: "https://api.example.com/problems/validation-error",
+  INVALID_REQUEST: "https://api.example.com/problems/invalid-request",
+
+  // ビジネスロジックエラー
+  RESOURCE_NOT_FOUND: "https://api.example.com/problems/resource-not-found",
+  DUPLICATE_RESOURCE: "https://api.example.com/problems/duplicate-resource",
+  INSUFFICIENT_CREDIT: "https://api.example.com/problems/insufficient-credit",
+  ROLE_HIERARCHY_VIOLATION: "https://api.example.com/problems/role-hierarchy-violation",
+  LAST_PROJECT_MANAGER: "https://api.example.com/problems/last-project-manager",
+  INVITATION_EXPIRED: "https://api.example.com/problems/invitation-expired",
+  INVITATION_UNAVAILABLE: "https://api.example.com/problems/invitation-unavailable",
+
+  // サーバーエラー
+  INTERNAL_SERVER_ERROR: "https://api.example.com/problems/internal-server-error",
+  SERVICE_UNAVAILABLE: "https://api.example.com/problems/service-unavailable",
+
+  // デフォルト
+  ABOUT_BLANK: "about:blank",
+} as const;
+
+export type ProblemType = (typeof ProblemTypes)[keyof typeof ProblemTypes];
+
+// ================================================================================
+// ApiError Class
+// ================================================================================
+
+/**
+ * RFC 9457 Problem Details を扱いやすくするラッパー
+ */
+export class ApiError extends Error {
+  public readonly problemDetails: ProblemDetails;
+  public readonly status: number;
+  public readonly originalError: AxiosError<ProblemDetails>;
+
+  constructor(axiosError: AxiosError<ProblemDetails>) {
+    const problemDetails = axiosError.response?.data ?? {};
+    const message = problemDetails.detail ?? problemDetails.title ?? axiosError.message ?? "エラーが発生しました";
+
+    super(message);
+
+    this.name = "ApiError";
+    this.problemDetails = problemDetails;
+    this.status = axiosError.response?.status ?? 0;
+    this.originalError = axiosError;
+
+    // スタックトレースを正しく保持
+    if (Error.captureStackTrace !== undefined) {
+      Error.captureStackTrace(this, ApiError);
+    }
+  }
+
+  get type(): string {
+    return this.problemDetails.type ?? "about:blank";
+  }
+
+  get title(): string {
+    return this.problemDetails.title ?? "エラー";
+  }
+
+  get detail(): string {
+    return this.problemDetails.detail ?? this.message;
+  }
+
+  get instance(): string | undefined {
+    return this.problemDetails.instance;
+  }
+
+  /**
+   * @example
+   * const validationErrors = error.getExtension<Record<string, string[]>>('errors');
+   */
+  getExtension<T = unknown>(key: string): T | undefined {
+    return this.problemDetails[key] as T;
+  }
+
+  /**
+   * @example
+   * if (error.isType(ProblemTypes.VALIDATION_ERROR)) {
+   *   // バリデーションエラー固有の処理
+   * }
+   */
+  isType(typeUri: string): boolean {
+    return this.type === typeUri;
+  }
+
+  /**
+   * @example
+   * if (error.isStatus(403)) {
+   *   // 403エラー固有の処理
+   * }
+   */
+  isStatus(statusCode: number): boolean {
+    return this.status === statusCode;
+  }
+
+  isClientError(): boolean {
+    return this.status >= 400 && this.status < 500;
+  }
+
+  isServerError(): boolean {
+    return this.status >= 500 && this.status < 600;
+  }
+
+  /**
+   * レスポンスを受け取れなかったエラー（オフライン・タイムアウトなど、キャンセルは除く）かどうか
+   */
+  isNetworkError(): boolean {
+    return this.originalError.response === undefined && this.originalError.code !== AxiosError.ERR_CANCELED;
+  }
+
+  toJSON(): ProblemDetails {
+    return {
+      type: this.type,
+      title: this.title,
+      status: this.status,
+      detail: this.detail,
+      instance: this.instance,
+      ...this.problemDetails,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import type { FieldPath, FieldValues, UseFormGetValues, UseFormSetError } from "react-hook-form";
+
+import { ApiError, ProblemTypes } from "./api-error";
+
+// ================================================================================
+// Types
+// ================================================================================
+
+/**
+ * バリデーションエラーの詳細（Problem Details の拡張メンバー errors）
+ *
+ * キーはフィールドのパス、値はエラーメッセージです。パスは次の形式に対応しています:
+ * - ドット区切り: "settings.invite_policy", "members.0.role"
+ * - 配列の添字: "members[0].role"
+ * - JSON Pointer: "/members/0/role", "#/members/0/role"
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "https://api.example.com/problems/validation-error",
+ *   "status": 422,
+ *   "errors": { "name": ["Project name must not be blank"], "members[0].user_id": ["User is inactive"] }
+ * }
+ * ```
+ */
+export type ValidationErrors = Record<string, string | string[]>;
+
+type ValidationErrorsForm<T extends FieldValues> = {
+  /** react-hook-formのsetError */
+  setError: UseFormSetError<T>;
+  /** react-hook-formのgetValues（パスがフォームのフィールドかどうかの判定に使用） */
+  getValues: UseFormGetValues<T>;
+};
+
+type SetValidationErrorsOptions = {
+  /**
+   * APIのフィールドパスをフォームのフィールドパスに変換する
+   *
+   * リクエストとフォームで構造が異なる場合（送信時に配列の一部を除外する場合など）に指定します。
+   * 引数のパスはドット区切りに変換済みです。
+   */
+  mapPath?: (path: string) => string;
+};
+
+// ================================================================================
+// Helpers
+// ================================================================================
+
+/**
+ * フィールドのパスを react-hook-form の形式（ドット区切り）に変換する
+ */
+const toFieldPath = (path: string) =>
+  path
+    .replace(/^#?\//, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .replace(/\//g, ".");
+
+/**
+ * フォームの値にパスのフィールドが存在するかどうか
+ */
+const hasField = (values: unknown, keys: string[]): boolean => {
+  if (keys.length === 0) {
+    return true;
+  }
+
+  const [key, ...rest] = keys;
+
+  return typeof values === "object" && values !== null && key in values && hasField((values as Record<string, unknown>)[key], rest);
+};
+
+// ================================================================================
+// Public API
+// ================================================================================
+
+/**
+ * APIのバリデーションエラーをreact-hook-formのフィールドに設定する
+ *
+ * エラーが ProblemTypes.VALIDATION_ERROR で拡張メンバー errors を含む場合、
+ * フォームに存在するフィールドのエラーは setError でフィールドに、
+ * フォームに対応するフィールドがないエラーはまとめて root に設定します。
+ * フィールドのエラーがない場合は、Problem Details の detail を root に設定します。
+ *
+ * @param error - mutateAsync などで発生したエラー
+ * @param form - useForm の setError と getValues
+ * @param options - パスの変換などのオプション
+ * @returns エラーを設定した場合は true（バリデーションエラーでない場合は false を返すため、呼び出し側で汎用のエラーを表示してください）
+ *
+ * @example
+ * ```tsx
+ * createMutation.mutateAsync(data).catch((error: unknown) => {
+ *   if (!setValidationErrors(error, { setError, getValues })) {
+ *     setError("root", { message: error instanceof ApiError ? error.message : MESSAGES.ERRORS.CREATE_FAILED });
+ *   }
+ * });
+ * ```
+ */
+export const setValidationErrors = <T extends FieldValues>(
+  error: unknown,
+  form: ValidationErrorsForm<T>,
+  options: SetValidationErrorsOptions = {}
+): boolean => {
+  if (!(error instanceof ApiError) || !error.isType(ProblemTypes.VALIDATION_ERROR)) {
+    return false;
+  }
+
+  const validationErrors = error.getExtension<ValidationErrors>("errors");
+
+  if (typeof validationErrors !== "object" || validationErrors === null) {
+    return false;
+  }
+
+  const { mapPath = (path: string) => path } = options;
+  const values = form.getValues();
+  const entries = Object.entries(validationErrors).map(([path, messages]) => ({
+    name: mapPath(toFieldPath(path)),
+    message: [messages].flat().join(" "),
+  }));
+  const fieldErrors = entries.filter(({ name }) => name !== "" && hasField(values, name.split(".")));
+  const formErrors = entries.filter((entry) => !fieldErrors.includes(entry));
+
+  fieldErrors.forEach(({ name, message }, index) => {
+    form.setError(name as FieldPath<T>, { type: "server", message }, { shouldFocus: index === 0 });
+  });
+
+  if (formErrors.length > 0 || fieldErrors.length === 0) {
+    form.setError("root", {
+      type: "server",
+      message: formErrors.length > 0 ? formErrors.map(({ message }) => message).join(" ") : error.message,
+    });
+  }
+
+  return true;
+};
@@ -0,0 +1,11 @@
+import { PublicClientApplication } from "@azure/msal-browser";
+
+import { env } from "@/config/env";
+import { msalConfig } from "@/config/msal";
+
+/**
+ * MSALインスタンス（本番モードのみ初期化）
+ *
+ * MsalProvider と api-client のトークン取得で同じインスタンスを共有します。
+ */
+export const msalInstance: PublicClientApplication | null = env.AUTH_MODE === "production" ? new PublicClientApplication(msalConfig) : null;
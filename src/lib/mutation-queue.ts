@@ -0,0 +1,489 @@
+import {
+  dehydrate,
+  type DehydratedState,
+  hydrate,
+  type Mutation,
+  type MutationKey,
+  onlineManager,
+  type QueryClient,
+  type QueryKey,
+} from "@tanstack/react-query";
+import { create } from "zustand";
+
+import { logger } from "@/utils/logger";
+
+// auth-store（ログアウト時の clearMutationQueue）から読み込まれるため、api-client・app/provider には依存しない（循環参照になる）
+import { ApiError } from "./api-error";
+import { getProblemDisplay } from "./problem-types";
+import { toast } from "./toast";
+
+// ================================================================================
+// 型定義
+// ================================================================================
+
+/**
+ * 送信待ちにできるミューテーションの定義
+ *
+ * ページを再読み込みした後に再送する場合は、ミューテーションのオプション（onSuccess など）は復元されず、
+ * 変数（variables）とミューテーションキーのパラメーターだけから mutationFn で再送し、invalidates のクエリを無効化します。
+ * パラメーターには操作対象のリソースのID（プロジェクトIDなど）を指定します。同じリソースへの操作は実行した順に送信されます。
+ */
+export type QueueableMutationDefinition<TVariables, TParams extends string[] = []> = {
+  /** ミューテーションを識別する名前（ミューテーションキーの2番目の要素、保存したデータの再送に使用） */
+  name: string;
+  /** 送信待ちの一覧・競合の通知に表示する操作名 */
+  label: string;
+  /** 送信処理（params はミューテーションキーのパラメーター） */
+  mutationFn: (variables: TVariables, params: TParams) => Promise<unknown>;
+  /** 再読み込みした後に再送が成功した場合に無効化するクエリキー（呼び出し側の onSuccess の代わりに使用） */
+  invalidates: (variables: TVariables, params: TParams) => QueryKey[];
+};
+
+/**
+ * 再送時に反映できなかった操作（競合）
+ */
+export type MutationConflict = {
+  id: string;
+  /** 操作名 */
+  label: string;
+  /** 反映できなかった理由 */
+  message: string;
+};
+
+export type MutationQueueStore = {
+  // ================================================================================
+  // State
+  // ================================================================================
+  /** 再送時に反映できなかった操作（古い順） */
+  conflicts: MutationConflict[];
+
+  // ================================================================================
+  // Actions
+  // ================================================================================
+  addConflict: (conflict: Omit<MutationConflict, "id">) => void;
+  dismissConflict: (id: string) => void;
+  clearConflicts: () => void;
+};
+
+/**
+ * ミューテーションの型（ミューテーションキャッシュ・useMutationState のいずれのミューテーションも扱う）
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMutation = Mutation<any, any, any, any>;
+
+// ================================================================================
+// 定数
+// ================================================================================
+
+/** 送信待ちにできるミューテーションのキーの先頭要素 */
+export const MUTATION_QUEUE_KEY = "mutation-queue";
+
+/** オンラインなのに通信エラーになる場合（サーバーに接続できないなど）の再試行の上限 */
+const MAX_ONLINE_RETRIES = 10;
+
+const DB_NAME = "mutation-queue";
+const STORE_NAME = "mutations";
+
+// ================================================================================
+// Zustandストア
+// ================================================================================
+
+/** 競合のID（発生順に採番する） */
+let nextConflictId = 1;
+
+/**
+ * 再送時に反映できなかった操作のZustandストア
+ *
+ * 表示は MutationQueueIndicator コンポーネント（AppProvider で配置）が行います。
+ */
+export const useMutationQueueStore = create<MutationQueueStore>()((set) => ({
+  // State
+  conflicts: [],
+
+  // Actions
+  addConflict: (conflict) => {
+    set((state) => ({ conflicts: [...state.conflicts, { id: `conflict-${nextConflictId++}`, ...conflict }] }));
+  },
+
+  dismissConflict: (id) => {
+    set((state) => ({ conflicts: state.conflicts.filter((conflict) => conflict.id !== id) }));
+  },
+
+  clearConflicts: () => {
+    set({ conflicts: [] });
+  },
+}));
+
+// ================================================================================
+// Registry
+// ================================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const registry = new Map<string, QueueableMutationDefinition<any, string[]>>();
+
+/** 送信待ちになったミューテーション（オフライン中に実行・通信エラーで再試行中・保存したデータから復元） */
+const queuedMutations = new WeakSet<AnyMutation>();
+
+/** 保存・再送を開始した QueryClient（ログアウト時に送信待ちのミューテーションを破棄する） */
+const activeClients = new Set<QueryClient>();
+
+/**
+ * 通信エラーの場合だけ再試行する（間隔は TanStack Query の既定で最大30秒）
+ *
+ * オフラインの間は接続が回復するまで一時停止するため、回数を制限するのはオンラインの場合だけです。
+ */
+const retryWhileDisconnected = (failureCount: number, error: Error) => {
+  if (!(error instanceof ApiError) || !error.isNetworkError()) {
+    return false;
+  }
+
+  return !onlineManager.isOnline() || failureCount < MAX_ONLINE_RETRIES;
+};
+
+/**
+ * ミューテーションキーのパラメーター（操作対象のリソース）ごとのスコープID（同じスコープのミューテーションは順に実行される）
+ */
+const toScopeId = (params: readonly string[]) => [MUTATION_QUEUE_KEY, ...params].join("/");
+
+/**
+ * 送信待ちにできるミューテーションを登録する
+ *
+ * 登録したミューテーションは、オフライン中・通信エラーの場合に送信待ちとして IndexedDB に保存され、
+ * 接続が回復すると実行した順に再送されます（ページを再読み込みした場合も再送します）。
+ * 再送時に 4xx エラーになった場合は、競合として MutationQueueIndicator に表示します。
+ * feature 固有のミューテーションは、その feature の api で登録してください。
+ *
+ * @returns ミューテーションキーのパラメーターから、useMutation に指定するオプションを生成する関数
+ *
+ * @example
+ * ```ts
+ * const updateProjectQueue = registerQueueableMutation({
+ *   name: "projects/update",
+ *   label: "プロジェクトの編集",
+ *   mutationFn: updateProject,
+ *   invalidates: () => [["projects"]],
+ * });
+ *
+ * useMutation({ ...updateProjectQueue(projectId), mutationFn: updateProject });
+ * ```
+ */
+export const registerQueueableMutation = <TVariables, TParams extends string[] = []>(
+  definition: QueueableMutationDefinition<TVariables, TParams>
+) => {
+  registry.set(definition.name, definition as unknown as QueueableMutationDefinition<TVariables, string[]>);
+
+  return (...params: TParams) => ({
+    mutationKey: [MUTATION_QUEUE_KEY, definition.name, ...params],
+    scope: { id: toScopeId(params) },
+    retry: retryWhileDisconnected,
+  });
+};
+
+/**
+ * ミューテーションキーから、登録された定義とパラメーターを取得する
+ */
+const resolveMutationKey = (mutationKey: MutationKey = []) => {
+  const [, name, ...params] = mutationKey as string[];
+
+  return { name, params, definition: registry.get(name) };
+};
+
+/**
+ * 保存したデータから復元したミューテーションの送信処理
+ */
+const replayMutation = (variables: unknown, { mutationKey }: { mutationKey?: MutationKey }) => {
+  const { name, params, definition } = resolveMutationKey(mutationKey);
+
+  if (definition === undefined) {
+    logger.error("送信待ちの操作が登録されていないため再送できません", undefined, { name });
+
+    return Promise.reject(new Error(`送信待ちの操作 ${name} が登録されていません`));
+  }
+
+  return definition.mutationFn(variables, params);
+};
+
+/**
+ * 保存したデータから復元したミューテーションの再送が成功した場合に、定義の invalidates のクエリを無効化する
+ */
+const invalidateReplayedQueries = (
+  _data: unknown,
+  variables: unknown,
+  _onMutateResult: unknown,
+  { client, mutationKey }: { client: QueryClient; mutationKey?: MutationKey }
+) => {
+  const { params, definition } = resolveMutationKey(mutationKey);
+
+  definition?.invalidates(variables, params).forEach((queryKey) => {
+    client.invalidateQueries({ queryKey }).catch((error) => {
+      logger.error("再送した操作のクエリの無効化に失敗しました", error, { queryKey });
+    });
+  });
+};
+
+/**
+ * ミューテーションの操作名を取得する
+ */
+export const getQueuedMutationLabel = (mutation: AnyMutation) =>
+  resolveMutationKey(mutation.options.mutationKey).definition?.label ?? "操作";
+
+/**
+ * ミューテーションが送信待ち（オフライン中に実行・通信エラーで再試行中・保存したデータから復元）かどうか
+ */
+export const isQueuedMutation = (mutation: AnyMutation) => queuedMutations.has(mutation);
+
+/**
+ * ミューテーションの完了か、送信待ちになるのを待つ
+ *
+ * オフライン中は mutateAsync の Promise が接続の回復まで解決しないため、そのまま待つと画面が「更新中」の表示のまま止まります。
+ * 一時停止（isPaused）・送信待ちになった時点で "queued" を返すので、呼び出し側は送信待ちの通知を表示して操作を終えてください。
+ * 再送の結果は、MutationCache の共通処理（meta.successMessage のトースト・競合の通知）で通知されます。
+ *
+ * @param client - ミューテーションを実行する QueryClient
+ * @param mutate - ミューテーションを実行する関数（mutateAsync を呼び出す）
+ * @returns 完了した場合は "completed"、送信待ちになった場合は "queued"（失敗した場合は reject）
+ *
+ * @example
+ * ```ts
+ * const result = await waitUnlessQueued(queryClient, () => updateProjectMutation.mutateAsync({ projectId, data }));
+ * if (result === "queued") {
+ *   toast.show({ title: PROJECT_MESSAGES.SUCCESS.UPDATE_QUEUED });
+ * }
+ * ```
+ */
+export const waitUnlessQueued = (client: QueryClient, mutate: () => Promise<unknown>) =>
+  new Promise<"completed" | "queued">((resolve, reject) => {
+    const mutationCache = client.getMutationCache();
+    const promise = mutate();
+    // mutateAsync はミューテーションを同期的にキャッシュへ追加するため、直後の最後のミューテーションが実行したもの
+    const mutation = mutationCache.getAll().at(-1);
+    const isWaiting = () => mutation !== undefined && (mutation.state.isPaused || isQueuedMutation(mutation));
+
+    // オフライン中は実行した時点で一時停止している。通信エラーの再試行中にオフラインになった場合は、その時点で送信待ちになる
+    if (isWaiting()) {
+      resolve("queued");
+    }
+
+    const unsubscribe = mutationCache.subscribe((event) => {
+      if (event.mutation === mutation && isWaiting()) {
+        resolve("queued");
+      }
+    });
+
+    promise.then(() => resolve("completed"), reject).finally(unsubscribe);
+  });
+
+// ================================================================================
+// IndexedDB
+// ================================================================================
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 送信待ちのミューテーションはユーザーごとに保存する（他のユーザーがログインした場合に再送しない）
+ */
+const readState = async (userId: string) => {
+  const db = await openDatabase();
+
+  return new Promise<DehydratedState | undefined>((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(userId);
+
+    request.onsuccess = () => resolve(request.result as DehydratedState | undefined);
+    request.onerror = () => reject(request.error);
+  }).finally(() => db.close());
+};
+
+const writeState = async (userId: string, state: DehydratedState) => {
+  const db = await openDatabase();
+
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+
+    transaction.objectStore(STORE_NAME).put(state, userId);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  }).finally(() => db.close());
+};
+
+const deleteState = async (userId: string) => {
+  const db = await openDatabase();
+
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+
+    transaction.objectStore(STORE_NAME).delete(userId);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  }).finally(() => db.close());
+};
+
+/**
+ * 送信待ちのミューテーションを保存用に変換する
+ *
+ * 復元時に resumePausedMutations で再送されるよう一時停止中とし、
+ * 保存できない値（再試行中のエラー）は取り除きます。
+ */
+const dehydrateQueue = (client: QueryClient): DehydratedState => {
+  const { mutations } = dehydrate(client, {
+    shouldDehydrateQuery: () => false,
+    shouldDehydrateMutation: (mutation) => isQueuedMutation(mutation) && mutation.state.status === "pending",
+  });
+
+  return {
+    queries: [],
+    mutations: mutations.map((mutation) => ({
+      ...mutation,
+      state: { ...mutation.state, isPaused: true, failureCount: 0, failureReason: null },
+    })),
+  };
+};
+
+// ================================================================================
+// Public API
+// ================================================================================
+
+/** 保存・復元処理の完了待ち（復元の後に、保存を呼び出し順に行う） */
+let pendingWrite = Promise.resolve();
+
+/** QueryClient ごとの復元済みのユーザー（StrictMode で2回実行されても1回だけ復元する） */
+const restoredUsers = new WeakMap<QueryClient, string>();
+
+/**
+ * 送信待ちのミューテーションの保存・再送を開始する
+ *
+ * - 登録されたミューテーションの送信待ちの状態を監視し、変化するたびにログイン中のユーザーの送信待ちとして IndexedDB に保存
+ * - ログイン中のユーザーが保存した送信待ちのミューテーションを復元し、接続している場合は順に再送
+ *
+ * AppProvider で QueryClient を作成した後、ログイン中のユーザーが変わるたびに呼び出しています。
+ *
+ * @param userId - ログイン中のユーザーのID（ログインしていない場合は null、保存・復元しない）
+ * @returns 監視を終了する関数
+ */
+export const setupMutationQueue = (client: QueryClient, userId: string | null) => {
+  client.setMutationDefaults([MUTATION_QUEUE_KEY], {
+    mutationFn: replayMutation,
+    onSuccess: invalidateReplayedQueries,
+    retry: retryWhileDisconnected,
+  });
+  activeClients.add(client);
+
+  const unsubscribe = client.getMutationCache().subscribe((event) => {
+    const mutation = event.mutation;
+
+    if (mutation === undefined || mutation.options.mutationKey?.[0] !== MUTATION_QUEUE_KEY) {
+      return;
+    }
+
+    const { status, isPaused, failureReason } = mutation.state;
+    const isDisconnected = failureReason instanceof ApiError && failureReason.isNetworkError();
+    // 同じリソースへの送信待ちのミューテーションの後に実行したものは、順番が来るまで一時停止するため送信待ちとして扱う
+    const isWaiting =
+      isPaused &&
+      (!onlineManager.isOnline() ||
+        client
+          .getMutationCache()
+          .findAll({ mutationKey: [MUTATION_QUEUE_KEY], status: "pending" })
+          .some((other) => isQueuedMutation(other) && other.options.scope?.id === mutation.options.scope?.id));
+
+    if (status === "pending" && (isWaiting || isDisconnected)) {
+      queuedMutations.add(mutation);
+    }
+
+    if (userId === null) {
+      return;
+    }
+
+    const state = dehydrateQueue(client);
+    pendingWrite = pendingWrite
+      .then(() => writeState(userId, state))
+      .catch((error) => {
+        logger.error("送信待ちの操作の保存に失敗しました", error);
+      });
+  });
+
+  if (userId !== null && restoredUsers.get(client) !== userId) {
+    restoredUsers.set(client, userId);
+    pendingWrite = readState(userId)
+      .then((state) => {
+        if (state === undefined || state.mutations.length === 0) {
+          return;
+        }
+
+        hydrate(client, state);
+        client
+          .getMutationCache()
+          .findAll({ mutationKey: [MUTATION_QUEUE_KEY], status: "pending" })
+          .forEach((mutation) => queuedMutations.add(mutation));
+
+        // 再送の完了は待たずに、保存を再開する
+        client.resumePausedMutations().catch((error) => {
+          logger.error("送信待ちの操作の再送に失敗しました", error);
+        });
+      })
+      .catch((error) => {
+        logger.error("送信待ちの操作の復元に失敗しました", error);
+      });
+  }
+
+  return () => {
+    unsubscribe();
+    activeClients.delete(client);
+  };
+};
+
+/**
+ * 送信待ちのミューテーションと再送時の競合を破棄し、保存したデータを削除する
+ *
+ * ログアウトしたユーザーの操作を、次にログインしたユーザーとして再送しないよう、認証ストアの logout から呼び出します。
+ *
+ * @param userId - ログアウトするユーザーのID
+ */
+export const clearMutationQueue = (userId: string) => {
+  activeClients.forEach((client) => {
+    const mutationCache = client.getMutationCache();
+
+    mutationCache
+      .findAll({ mutationKey: [MUTATION_QUEUE_KEY], status: "pending" })
+      .filter(isQueuedMutation)
+      .forEach((mutation) => mutationCache.remove(mutation));
+  });
+  useMutationQueueStore.getState().clearConflicts();
+
+  // 破棄したことによる保存の後に削除する
+  pendingWrite = pendingWrite
+    .then(() => deleteState(userId))
+    .catch((error) => {
+      logger.error("送信待ちの操作の削除に失敗しました", error);
+    });
+};
+
+/**
+ * 送信待ちだったミューテーションの再送に失敗した場合に、競合として通知する
+ *
+ * 4xx エラー（他のユーザーの変更と競合した・権限がなくなったなど）の場合だけ通知し、
+ * それ以外のエラーは通常のミューテーションのエラーとして扱います（createMutationCache から呼び出します）。
+ *
+ * @returns 競合として通知した場合は true
+ */
+export const reportMutationConflict = (error: unknown, mutation: AnyMutation) => {
+  if (!isQueuedMutation(mutation) || !(error instanceof ApiError) || !error.isClientError()) {
+    return false;
+  }
+
+  const label = getQueuedMutationLabel(mutation);
+  const { message } = getProblemDisplay(error);
+
+  useMutationQueueStore.getState().addConflict({ label, message });
+  toast.error({ title: `送信待ちの${label}を反映できませんでした`, description: message });
+
+  return true;
+};
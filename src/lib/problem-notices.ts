@@ -0,0 +1,103 @@
+import { create } from "zustand";
+
+import { paths } from "@/config/paths";
+
+import { ApiError } from "./api-error";
+import { getProblemDisplay, getProblemTypeDefinition, type ProblemPolicy } from "./problem-types";
+import { toast } from "./toast";
+
+// ================================================================================
+// 型定義
+// ================================================================================
+
+/**
+ * メンテナンス中のバナーに表示する内容
+ */
+export type MaintenanceNotice = {
+  title: string;
+  message: string;
+};
+
+export type MaintenanceStore = {
+  // ================================================================================
+  // State
+  // ================================================================================
+  /** メンテナンス中のバナー（表示しない場合は null） */
+  maintenance: MaintenanceNotice | null;
+
+  // ================================================================================
+  // Actions
+  // ================================================================================
+  showMaintenance: (maintenance: MaintenanceNotice) => void;
+  dismissMaintenance: () => void;
+};
+
+// ================================================================================
+// Zustandストア
+// ================================================================================
+
+/**
+ * メンテナンス中のバナーのZustandストア
+ *
+ * 表示は MaintenanceBanner コンポーネント（AppProvider で配置）が行います。
+ */
+export const useMaintenanceStore = create<MaintenanceStore>()((set) => ({
+  // State
+  maintenance: null,
+
+  // Actions
+  showMaintenance: (maintenance) => {
+    set({ maintenance });
+  },
+
+  dismissMaintenance: () => {
+    set({ maintenance: null });
+  },
+}));
+
+// ================================================================================
+// Public API
+// ================================================================================
+
+/**
+ * 問題の種類の既定の表示方法に従ってエラーを処理する
+ *
+ * policies に含まれる表示方法の場合だけ処理し、それ以外（inline など）は呼び出し側に任せます。
+ * TanStack Query の共通設定から呼び出すため、通常は個別に呼び出す必要はありません。
+ *
+ * - ミューテーション: toast / maintenance（403 などはダイアログ内に表示するため遷移しない）
+ * - クエリ: forbidden / maintenance（画面はエラー境界でエラーを表示するため通知しない）
+ *
+ * @param error - 発生したエラー（ApiError 以外は何もしない）
+ * @param policies - 処理する表示方法
+ */
+export const handleProblem = (error: unknown, policies: readonly ProblemPolicy[]) => {
+  if (!(error instanceof ApiError)) {
+    return;
+  }
+
+  const { policy } = getProblemTypeDefinition(error);
+
+  if (!policies.includes(policy)) {
+    return;
+  }
+
+  switch (policy) {
+    case "toast": {
+      const { title, message } = getProblemDisplay(error);
+      toast.error({ title, description: message });
+      break;
+    }
+    case "maintenance":
+      useMaintenanceStore.getState().showMaintenance(getProblemDisplay(error));
+      break;
+    case "forbidden":
+      if (typeof window !== "undefined" && window.location.pathname !== paths.forbidden.getHref()) {
+        window.location.href = paths.forbidden.getHref();
+      }
+      break;
+    default:
+      // inline: 呼び出し側で表示する / reauthenticate: api-client のレスポンスインターセプターで処理する
+      break;
+  }
+};
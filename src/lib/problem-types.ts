@@ -0,0 +1,260 @@
+import { z } from "zod";
+
+import { formatDate } from "@/utils/date";
+import { formatNumber } from "@/utils/format";
+
+import { ApiError, ProblemTypes } from "./api-error";
+
+// ================================================================================
+// Types
+// ================================================================================
+
+/**
+ * 問題の種類ごとの既定の表示方法
+ *
+ * - toast: 画面の隅に通知を表示する（操作の失敗で、画面の表示は続けられる場合）
+ * - inline: 呼び出し側がフォーム・ダイアログ内にエラーを表示する（共通処理では何もしない）
+ * - forbidden: 403 ページへ遷移する（ページの表示に必要なデータを取得できない場合）
+ * - maintenance: 画面上部にメンテナンス中のバナーを表示する
+ * - reauthenticate: 再認証する（api-client のレスポンスインターセプターで処理する）
+ */
+export type ProblemPolicy = "toast" | "inline" | "forbidden" | "maintenance" | "reauthenticate";
+
+/**
+ * 問題の種類の定義
+ *
+ * describe は、拡張メンバーのスキーマがある場合は検証した拡張メンバーを受け取り、ない場合は引数なしで呼び出されます。
+ */
+export type ProblemTypeDefinition<TExtensions extends z.ZodType = z.ZodType> = {
+  /** 問題の種類を識別するURI（Problem Details の type） */
+  type: string;
+  /** 画面に表示するタイトル */
+  title: string;
+  /** 既定の表示方法 */
+  policy: ProblemPolicy;
+} & (
+  | {
+      /** 拡張メンバーのスキーマ（Problem Details 全体に対して検証する） */
+      extensions: TExtensions;
+      /** 画面に表示するメッセージを組み立てる（省略時・拡張メンバーがスキーマに合わない場合は detail を表示） */
+      describe?: (extensions: z.infer<TExtensions>) => string;
+    }
+  | {
+      /** 画面に表示するメッセージを組み立てる（省略時は detail を表示） */
+      describe?: () => string;
+    }
+);
+
+/**
+ * 登録された問題の種類
+ *
+ * 拡張メンバーの型に依存しないよう、拡張メンバーの検証とメッセージの組み立てを describe にまとめて保持します。
+ */
+type RegisteredProblemType = {
+  type: string;
+  title: string;
+  policy: ProblemPolicy;
+  /** 画面に表示するメッセージを組み立てる（組み立てられない場合は undefined） */
+  describe: (error: ApiError) => string | undefined;
+};
+
+/**
+ * 問題の種類（type）ごとの登録された定義
+ */
+type ProblemTypeRegistry = Partial<Record<string, RegisteredProblemType>>;
+
+// ================================================================================
+// Registry
+// ================================================================================
+
+/**
+ * 定義から、レジストリに保持する形に変換する
+ */
+const toRegisteredProblemType = <TExtensions extends z.ZodType>(definition: ProblemTypeDefinition<TExtensions>): RegisteredProblemType => {
+  const describe = (error: ApiError) => {
+    if (!("extensions" in definition)) {
+      return definition.describe?.();
+    }
+
+    const extensions = getProblemExtensions(error, definition);
+
+    return definition.describe !== undefined && extensions !== undefined ? definition.describe(extensions) : undefined;
+  };
+
+  return { type: definition.type, title: definition.title, policy: definition.policy, describe };
+};
+
+/**
+ * 問題の種類を定義する（レジストリには登録しない）
+ *
+ * 共通の問題の種類は、モジュールの読み込み時にレジストリを変更しないよう、この関数で定義して builtInProblemTypes にまとめます。
+ */
+const defineProblemType = <TExtensions extends z.ZodType = z.ZodNever>(definition: ProblemTypeDefinition<TExtensions>) => definition;
+
+/**
+ * feature から登録された問題の種類（共通の問題の種類より優先する）
+ */
+const registry: ProblemTypeRegistry = {};
+
+/**
+ * 問題の種類を登録する
+ *
+ * 同じ type で登録すると後から登録した定義で置き換わります。
+ * feature 固有の問題の種類は、その feature の constants で登録してください。
+ *
+ * @returns 登録した定義（getProblemExtensions で拡張メンバーを型付きで取得するために使用）
+ *
+ * @example
+ * ```ts
+ * export const lastProjectManagerProblem = registerProblemType({
+ *   type: ProblemTypes.LAST_PROJECT_MANAGER,
+ *   title: "プロジェクトマネージャーを変更できません",
+ *   policy: "inline",
+ * });
+ * ```
+ */
+export const registerProblemType = <TExtensions extends z.ZodType = z.ZodNever>(definition: ProblemTypeDefinition<TExtensions>) => {
+  registry[definition.type] = toRegisteredProblemType(definition);
+
+  return definition;
+};
+
+/**
+ * 登録されていない問題の種類の定義を、HTTPステータスから決める
+ */
+const toFallbackDefinition = (error: ApiError): RegisteredProblemType => {
+  const describe = () => undefined;
+
+  if (error.isStatus(401)) {
+    return { type: error.type, title: "認証が必要です", policy: "reauthenticate", describe };
+  }
+
+  if (error.isServerError()) {
+    return { type: error.type, title: "サーバーエラーが発生しました", policy: "toast", describe };
+  }
+
+  return { type: error.type, title: "エラーが発生しました", policy: "inline", describe };
+};
+
+/**
+ * エラーに対応する問題の種類の定義を取得する
+ *
+ * 登録されていない場合は、HTTPステータスから決めた既定の定義を返します。
+ */
+export const getProblemTypeDefinition = (error: ApiError): RegisteredProblemType =>
+  registry[error.type] ?? builtInProblemTypes[error.type] ?? toFallbackDefinition(error);
+
+/**
+ * エラーの拡張メンバーを、定義のスキーマで検証して取得する
+ *
+ * @returns エラーが定義の type と一致し、拡張メンバーがスキーマに合う場合はその値、それ以外は undefined
+ *
+ * @example
+ * ```ts
+ * const credit = getProblemExtensions(error, insufficientCreditProblem);
+ * if (credit !== undefined) {
+ *   console.log(credit.required - credit.balance);
+ * }
+ * ```
+ */
+export const getProblemExtensions = <TExtensions extends z.ZodType>(
+  error: unknown,
+  definition: ProblemTypeDefinition<TExtensions>
+): z.infer<TExtensions> | undefined => {
+  if (!(error instanceof ApiError) || !error.isType(definition.type) || !("extensions" in definition)) {
+    return undefined;
+  }
+
+  const result = definition.extensions.safeParse(error.problemDetails);
+
+  return result.success ? result.data : undefined;
+};
+
+/**
+ * エラーを画面に表示するためのタイトルとメッセージを取得する
+ *
+ * 登録された定義に describe がある場合は組み立てたメッセージ、それ以外（拡張メンバーが不正な場合を含む）は detail を返します。
+ */
+export const getProblemDisplay = (error: ApiError) => {
+  const definition = getProblemTypeDefinition(error);
+
+  return {
+    title: definition.title,
+    message: definition.describe(error) ?? error.message,
+  };
+};
+
+/**
+ * エラーを画面に表示するメッセージを取得する（ApiError 以外の場合は fallback）
+ *
+ * @example
+ * ```ts
+ * setActionError(getProblemMessage(error, PROJECT_MESSAGES.ERRORS.MEMBER_UPDATE_FAILED));
+ * ```
+ */
+export const getProblemMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiError ? getProblemDisplay(error).message : fallback;
+
+// ================================================================================
+// 共通の問題の種類
+// ================================================================================
+
+/**
+ * 入力値の検証エラー（フィールドごとのエラーは setValidationErrors でフォームに設定する）
+ */
+export const validationErrorProblem = defineProblemType({
+  type: ProblemTypes.VALIDATION_ERROR,
+  title: "入力内容に誤りがあります",
+  policy: "inline",
+  extensions: z.object({
+    errors: z.record(z.string(), z.union([z.string(), z.array(z.string())])),
+  }),
+});
+
+/**
+ * クレジット不足（必要なクレジットと残高を通知する）
+ */
+export const insufficientCreditProblem = defineProblemType({
+  type: ProblemTypes.INSUFFICIENT_CREDIT,
+  title: "クレジットが不足しています",
+  policy: "toast",
+  extensions: z.object({
+    balance: z.number(),
+    required: z.number(),
+  }),
+  describe: ({ balance, required }) =>
+    `この操作には ${formatNumber(required)} クレジットが必要です（残高: ${formatNumber(balance)} クレジット）。クレジットを追加してから再度お試しください。`,
+});
+
+/**
+ * サービス停止中（メンテナンス中のバナーを表示し、終了予定時刻を通知する）
+ */
+export const serviceUnavailableProblem = defineProblemType({
+  type: ProblemTypes.SERVICE_UNAVAILABLE,
+  title: "現在メンテナンス中です",
+  policy: "maintenance",
+  extensions: z.object({
+    /** メンテナンスの終了予定時刻（ISO 8601） */
+    maintenance_until: z.iso.datetime({ offset: true }),
+  }),
+  describe: ({ maintenance_until: maintenanceUntil }) =>
+    `${formatDate(maintenanceUntil, "M月d日 HH:mm")} 頃に再開する予定です。しばらくしてから再度お試しください。`,
+});
+
+/**
+ * 共通の問題の種類（type ごと）
+ */
+const builtInProblemTypes: ProblemTypeRegistry = Object.fromEntries(
+  [
+    toRegisteredProblemType({ type: ProblemTypes.UNAUTHORIZED, title: "認証が必要です", policy: "reauthenticate" }),
+    toRegisteredProblemType({ type: ProblemTypes.TOKEN_EXPIRED, title: "ログインの有効期限が切れました", policy: "reauthenticate" }),
+    toRegisteredProblemType({ type: ProblemTypes.FORBIDDEN, title: "権限がありません", policy: "forbidden" }),
+    toRegisteredProblemType({ type: ProblemTypes.INVALID_REQUEST, title: "リクエストが正しくありません", policy: "inline" }),
+    toRegisteredProblemType({ type: ProblemTypes.RESOURCE_NOT_FOUND, title: "対象が見つかりません", policy: "inline" }),
+    toRegisteredProblemType({ type: ProblemTypes.DUPLICATE_RESOURCE, title: "すでに登録されています", policy: "inline" }),
+    toRegisteredProblemType({ type: ProblemTypes.INTERNAL_SERVER_ERROR, title: "サーバーエラーが発生しました", policy: "toast" }),
+    toRegisteredProblemType(validationErrorProblem),
+    toRegisteredProblemType(insufficientCreditProblem),
+    toRegisteredProblemType(serviceUnavailableProblem),
+  ].map((definition) => [definition.type, definition])
+);
@@ -1,6 +1,46 @@
-import { DefaultOptions, UseMutationOptions } from "@tanstack/react-query";
+import { DefaultOptions, MutationCache, QueryCache, UseMutationOptions } from "@tanstack/react-query";
+import { z } from "zod";
 
-import { ApiError } from "./api-client";
+import { ApiError } from "./api-error";
+import { reportMutationConflict } from "./mutation-queue";
+import { handleProblem, useMaintenanceStore } from "./problem-notices";
+import { getProblemDisplay, getProblemTypeDefinition } from "./problem-types";
+import { toast } from "./toast";
+
+/**
+ * ミューテーションの meta に指定できる値（createMutationCache で使用）
+ *
+ * @example
+ * ```ts
+ * const createProjectMutation = useCreateProject({
+ *   mutationConfig: { meta: { successMessage: PROJECT_MESSAGES.SUCCESS.CREATED } },
+ * });
+ * ```
+ */
+const mutationMetaSchema = z.object({
+  /** 成功時にトーストで表示するメッセージ */
+  successMessage: z.string().optional(),
+  /**
+   * 失敗時にトーストで表示するメッセージ（Problem Details の detail を説明として表示）
+   *
+   * 省略時は、問題の種類の既定の表示方法が toast の場合だけ表示します。
+   * false の場合は表示しません（呼び出し側が画面内にエラーを表示する場合）。
+   */
+  errorMessage: z.union([z.string(), z.literal(false)]).optional(),
+  /** 失敗時のトーストに「再試行」ボタンを表示するかどうか（errorMessage にメッセージを指定した場合のみ） */
+  retryable: z.boolean().optional(),
+});
+
+export type MutationMeta = z.infer<typeof mutationMetaSchema>;
+
+/**
+ * ミューテーションの meta を検証して取得する（指定がない場合・形式が正しくない場合は空）
+ */
+const getMutationMeta = (meta: Record<string, unknown> | undefined): MutationMeta => {
+  const result = mutationMetaSchema.safeParse(meta ?? {});
+
+  return result.success ? result.data : {};
+};
 
 /**
  * アプリケーション全体で使用されるReact Queryの共通設定を定義します。
@@ -12,8 +52,8 @@ export const queryConfig = {
     retry: (failureCount, error) => {
       // ApiErrorの場合、リトライロジックをカスタマイズ
       if (error instanceof ApiError) {
-        // 4xxクライアントエラーはリトライしない
-        if (error.isClientError()) {
+        // 4xxクライアントエラー・メンテナンス中はリトライしない
+        if (error.isClientError() || getProblemTypeDefinition(error).policy === "maintenance") {
           return false;
         }
 
@@ -25,21 +65,85 @@ export const queryConfig = {
     },
     staleTime: 1000 * 60 * 5, // 5分（データの性質に応じて調整）
   },
-  mutations: {
+} satisfies DefaultOptions;
+
+/**
+ * クエリの結果に応じた共通処理（QueryClient の queryCache に設定します）
+ *
+ * - エラー時: 問題の種類の既定の表示方法に従い、403 ページへの遷移・メンテナンス中のバナーを表示
+ *   （画面はエラー境界でエラーを表示するため、通知はしない）
+ * - 成功時: メンテナンスが終了したとみなしてバナーを閉じる
+ */
+export const createQueryCache = () =>
+  new QueryCache({
     onError: (error) => {
+      handleProblem(error, ["forbidden", "maintenance"]);
+    },
+    onSuccess: () => {
+      if (useMaintenanceStore.getState().maintenance !== null) {
+        useMaintenanceStore.getState().dismissMaintenance();
+      }
+    },
+  });
+
+/**
+ * ミューテーションの結果に応じた共通処理（QueryClient の mutationCache に設定します）
+ *
+ * 呼び出し側で onError・onSuccess を指定した場合も実行されます。
+ * - 成功時: meta.successMessage をトーストで表示
+ * - エラー時: meta.errorMessage をトーストで表示（meta.retryable の場合は「再試行」ボタン付き）。
+ *   指定がない場合は、問題の種類の既定の表示方法に従い、トースト・メンテナンス中のバナーを表示
+ *   （403 などはダイアログ内に表示するため遷移しない）。meta.errorMessage が false の場合は、メンテナンス中のバナーだけを表示。
+ *   送信待ちだったミューテーションが 4xx エラーになった場合は、競合として通知
+ */
+export const createMutationCache = () =>
+  new MutationCache({
+    onSuccess: (_data, _variables, _onMutateResult, mutation) => {
+      const { successMessage } = getMutationMeta(mutation.meta);
+
+      if (successMessage !== undefined) {
+        toast.success({ title: successMessage });
+      }
+    },
+    onError: (error, variables, _onMutateResult, mutation) => {
       if (error instanceof ApiError) {
         console.error("[Mutation Error]", error.toJSON());
+      }
 
-        // TODO: 通知システムと統合
-        // useNotifications.getState().addNotification({
-        //   type: 'error',
-        //   title: error.title,
-        //   message: error.detail,
-        // });
+      if (reportMutationConflict(error, mutation)) {
+        return;
       }
+
+      const { errorMessage, retryable } = getMutationMeta(mutation.meta);
+
+      if (errorMessage === undefined) {
+        handleProblem(error, ["toast", "maintenance"]);
+
+        return;
+      }
+
+      if (errorMessage === false) {
+        handleProblem(error, ["maintenance"]);
+
+        return;
+      }
+
+      toast.error({
+        title: errorMessage,
+        description: error instanceof ApiError ? getProblemDisplay(error).message : undefined,
+        action: retryable
+          ? {
+              label: "再試行",
+              onClick: () => {
+                mutation.execute(variables).catch(() => {
+                  // 再試行の失敗は、この onError で再度トーストを表示する
+                });
+              },
+            }
+          : undefined,
+      });
     },
-  },
-} satisfies DefaultOptions;
+  });
 
 /**
  * @example
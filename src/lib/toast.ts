@@ -0,0 +1,126 @@
+import { create } from "zustand";
+
+// ================================================================================
+// 型定義
+// ================================================================================
+
+export type ToastVariant = "default" | "success" | "error";
+
+/**
+ * トーストに表示する操作ボタン（「元に戻す」「再試行」など）
+ */
+export type ToastAction = {
+  label: string;
+  /** ボタンのクリック時の処理（実行後にトーストは閉じる） */
+  onClick: () => void;
+};
+
+export type Toast = {
+  id: string;
+  variant: ToastVariant;
+  title: string;
+  description?: string;
+  action?: ToastAction;
+  /** 自動で閉じるまでの時間（ミリ秒、null の場合は閉じるまで表示） */
+  duration: number | null;
+};
+
+/**
+ * トーストを表示する際の指定（variant・duration は省略時に既定値を使用）
+ */
+export type ToastInput = Omit<Toast, "id" | "variant" | "duration"> & {
+  duration?: number | null;
+};
+
+export type ToastStore = {
+  // ================================================================================
+  // State
+  // ================================================================================
+  /** 表示待ちを含むトースト（古い順、先頭から TOAST_LIMIT 件を表示） */
+  toasts: Toast[];
+
+  // ================================================================================
+  // Actions
+  // ================================================================================
+  addToast: (toast: Omit<Toast, "id">) => string;
+  dismissToast: (id: string) => void;
+  clearToasts: () => void;
+};
+
+// ================================================================================
+// 定数
+// ================================================================================
+
+/** 同時に表示するトーストの最大数（超えた分は表示中のトーストが閉じるまで待つ） */
+export const TOAST_LIMIT = 3;
+
+/** 自動で閉じるまでの既定の時間（ミリ秒） */
+const DEFAULT_DURATION = {
+  default: 5000,
+  success: 5000,
+  error: 8000,
+} as const satisfies Record<ToastVariant, number>;
+
+// ================================================================================
+// Zustandストア
+// ================================================================================
+
+/** トーストのID（表示順に採番する） */
+let nextToastId = 1;
+
+/**
+ * トースト通知のZustandストア
+ *
+ * 表示は ToastViewport コンポーネント（AppProvider で配置）が行います。
+ * 直接使用せず、toast.success / toast.error などから表示してください。
+ */
+export const useToastStore = create<ToastStore>()((set) => ({
+  // State
+  toasts: [],
+
+  // Actions
+  addToast: (toast) => {
+    const id = `toast-${nextToastId++}`;
+    set((state) => ({ toasts: [...state.toasts, { id, ...toast }] }));
+
+    return id;
+  },
+
+  dismissToast: (id) => {
+    set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) }));
+  },
+
+  clearToasts: () => {
+    set({ toasts: [] });
+  },
+}));
+
+// ================================================================================
+// Public API
+// ================================================================================
+
+const showToast = (variant: ToastVariant, { duration = DEFAULT_DURATION[variant], ...input }: ToastInput) =>
+  useToastStore.getState().addToast({ variant, duration, ...input });
+
+/**
+ * トースト通知を表示する
+ *
+ * 表示中のトーストが TOAST_LIMIT 件ある場合は、表示中のトーストが閉じてから順に表示します。
+ * 自動で閉じるまでの時間は、マウスを乗せている間・フォーカスがある間は止まります。
+ *
+ * @returns トーストのID（toast.dismiss で閉じる場合に使用）
+ *
+ * @example
+ * ```ts
+ * toast.success({
+ *   title: PROJECT_MESSAGES.SUCCESS.DELETED,
+ *   action: { label: "元に戻す", onClick: () => restoreProjectMutation.mutate({ projectId }) },
+ * });
+ * ```
+ */
+export const toast = {
+  show: (input: ToastInput) => showToast("default", input),
+  success: (input: ToastInput) => showToast("success", input),
+  error: (input: ToastInput) => showToast("error", input),
+  dismiss: (id: string) => useToastStore.getState().dismissToast(id),
+};
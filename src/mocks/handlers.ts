@@ -1,10 +1,18 @@
+import { adminUserHandlers } from "./handlers/api/v1/admin/admin-user-handlers";
+import { projectTemplateHandlers } from "./handlers/api/v1/admin/project-template-handlers";
+import { auditLogHandlers } from "./handlers/api/v1/audit-logs/audit-log-handlers";
 import { azureAuthHandlers } from "./handlers/api/v1/auth/auth-handlers";
+import { projectAccessRequestHandlers } from "./handlers/api/v1/projects/project-access-request-handlers";
 import { projectHandlers } from "./handlers/api/v1/projects/project-handlers";
+import { projectInvitationHandlers } from "./handlers/api/v1/projects/project-invitation-handlers";
 import { projectMemberHandlers } from "./handlers/api/v1/projects/project-member-handlers";
+import { projectSettingsHandlers } from "./handlers/api/v1/projects/project-settings-handlers";
 import { sampleAuthHandlers } from "./handlers/api/v1/sample-auth/sample-auth-handlers";
 import { sampleChatHandlers } from "./handlers/api/v1/sample-chat/sample-chat-handlers";
 import { sampleFileHandlers } from "./handlers/api/v1/sample-file/sample-file-handlers";
 import { sampleUserHandlers } from "./handlers/api/v1/sample-users/sample-user-handlers";
+import { myMembershipHandlers } from "./handlers/api/v1/users/my-membership-handlers";
+import { userSearchHandlers } from "./handlers/api/v1/users/user-search-handlers";
 
 /**
  * MSW (Mock Service Worker) リクエストハンドラー
@@ -32,7 +40,15 @@ import { sampleUserHandlers } from "./handlers/api/v1/sample-users/sample-user-h
 export const handlers = [
   ...azureAuthHandlers, // Azure AD認証関連 (/auth/*)
   ...projectHandlers, // プロジェクト管理 (/api/v1/projects/*)
+  ...projectSettingsHandlers, // プロジェクト設定 (/api/v1/projects/*/settings)
   ...projectMemberHandlers, // プロジェクトメンバー管理 (/api/v1/projects/*/members/*)
+  ...projectInvitationHandlers, // プロジェクト招待 (/api/v1/projects/*/invitations/*, /api/v1/invitations/*)
+  ...projectAccessRequestHandlers, // 権限リクエスト (/api/v1/projects/*/access-requests/*)
+  ...userSearchHandlers, // ユーザー検索・照会 (/api/v1/users/search, /api/v1/users/lookup)
+  ...myMembershipHandlers, // ログインユーザーのプロジェクト所属 (/api/v1/users/me/memberships)
+  ...adminUserHandlers, // システム管理・ユーザー管理 (/api/v1/admin/users/*)
+  ...projectTemplateHandlers, // プロジェクトテンプレート (/api/v1/project-templates, /api/v1/admin/project-templates/*)
+  ...auditLogHandlers, // 監査ログ (/api/v1/audit-logs)
   ...sampleAuthHandlers, // サンプル認証関連 (/api/v1/sample/auth/*)
   ...sampleUserHandlers, // サンプルユーザー管理 (/api/v1/sample/users/*)
   ...sampleFileHandlers, // サンプルファイル操作 (/api/v1/sample/files/*)
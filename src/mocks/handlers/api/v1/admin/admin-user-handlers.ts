@@ -0,0 +1,220 @@
+/**
+ * システム管理（ユーザー管理）API用のMSWハンドラー
+ *
+ * ユーザー・プロジェクト所属のモックデータは project-member-handlers と共有します。
+ */
+
+import { http, HttpResponse } from "msw";
+
+import type { UpdateUserRolesInput, UpdateUserStatusInput } from "@/features/admin-users/types/forms";
+
+import { recordAuditLog } from "../audit-logs/audit-log-handlers";
+import { MOCK_AUTH } from "../auth/auth-handlers";
+import { mockProjectMembers, mockUsers } from "../projects/project-member-handlers";
+
+// ================================================================================
+// ヘルパー
+// ================================================================================
+
+/**
+ * ユーザーが見つからない場合の RFC 9457 エラーレスポンス
+ */
+const userNotFound = (instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/resource-not-found",
+      title: "Resource Not Found",
+      status: 404,
+      detail: "The specified user does not exist",
+      instance,
+    },
+    {
+      status: 404,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 自分自身のステータス・ロールを変更しようとした場合の RFC 9457 エラーレスポンス
+ *
+ * モックでは常に MOCK_AUTH.USER をログインユーザーとして扱います。
+ */
+const selfOperationForbidden = (instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/forbidden",
+      title: "Forbidden",
+      status: 403,
+      detail: "You cannot change your own status or system roles",
+      instance,
+    },
+    {
+      status: 403,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+export const adminUserHandlers = [
+  /**
+   * GET /api/v1/admin/users
+   * ユーザー一覧取得
+   *
+   * クエリパラメータ:
+   * - q: 表示名・メールアドレスの部分一致（大文字小文字を区別しない）
+   * - is_active: "true" / "false" でステータスを絞り込み
+   */
+  http.get("*/api/v1/admin/users", ({ request }) => {
+    const url = new URL(request.url);
+    const q = url.searchParams.get("q")?.trim().toLowerCase() ?? "";
+    const isActive = url.searchParams.get("is_active");
+
+    const users = mockUsers.filter((user) => {
+      const matchesKeyword = q === "" || user.email.toLowerCase().includes(q) || (user.display_name?.toLowerCase().includes(q) ?? false);
+      const matchesStatus = isActive === null || String(user.is_active) === isActive;
+
+      return matchesKeyword && matchesStatus;
+    });
+
+    return HttpResponse.json({
+      data: users,
+    });
+  }),
+
+  /**
+   * GET /api/v1/admin/users/:userId
+   * ユーザー詳細取得
+   */
+  http.get("*/api/v1/admin/users/:userId", ({ params }) => {
+    const { userId } = params;
+
+    const user = mockUsers.find((u) => u.id === userId);
+
+    if (!user) {
+      return userNotFound(`/api/v1/admin/users/${userId}`);
+    }
+
+    return HttpResponse.json({
+      data: user,
+    });
+  }),
+
+  /**
+   * GET /api/v1/admin/users/:userId/memberships
+   * ユーザーのプロジェクト所属一覧取得
+   */
+  http.get("*/api/v1/admin/users/:userId/memberships", ({ params }) => {
+    const { userId } = params;
+
+    if (!mockUsers.some((u) => u.id === userId)) {
+      return userNotFound(`/api/v1/admin/users/${userId}/memberships`);
+    }
+
+    const memberships = mockProjectMembers.filter((m) => m.user_id === userId);
+
+    return HttpResponse.json({
+      data: memberships,
+    });
+  }),
+
+  /**
+   * PATCH /api/v1/admin/users/:userId/status
+   * ユーザーの有効化・無効化
+   */
+  http.patch("*/api/v1/admin/users/:userId/status", async ({ params, request }) => {
+    const { userId } = params;
+    const body = (await request.json()) as UpdateUserStatusInput;
+    const instance = `/api/v1/admin/users/${userId}/status`;
+
+    const userIndex = mockUsers.findIndex((u) => u.id === userId);
+
+    if (userIndex === -1) {
+      return userNotFound(instance);
+    }
+
+    if (userId === MOCK_AUTH.USER.id) {
+      return selfOperationForbidden(instance);
+    }
+
+    const before = mockUsers[userIndex];
+
+    mockUsers[userIndex] = {
+      ...before,
+      is_active: body.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    recordAuditLog({
+      action: "user.status_changed",
+      targetType: "user",
+      targetId: before.id,
+      project: null,
+      changes: { before: { email: before.email, is_active: before.is_active }, after: { email: before.email, is_active: body.is_active } },
+    });
+
+    return HttpResponse.json({
+      data: mockUsers[userIndex],
+    });
+  }),
+
+  /**
+   * PATCH /api/v1/admin/users/:userId/roles
+   * ユーザーのシステムロール更新（system_admin の付与・剥奪）
+   */
+  http.patch("*/api/v1/admin/users/:userId/roles", async ({ params, request }) => {
+    const { userId } = params;
+    const body = (await request.json()) as UpdateUserRolesInput;
+    const instance = `/api/v1/admin/users/${userId}/roles`;
+
+    const userIndex = mockUsers.findIndex((u) => u.id === userId);
+
+    if (userIndex === -1) {
+      return userNotFound(instance);
+    }
+
+    if (userId === MOCK_AUTH.USER.id) {
+      return selfOperationForbidden(instance);
+    }
+
+    if (body.roles.length === 0) {
+      return HttpResponse.json(
+        {
+          type: "https://api.example.com/problems/validation-error",
+          title: "Validation Error",
+          status: 422,
+          detail: "At least one system role is required",
+          instance,
+        },
+        {
+          status: 422,
+          headers: { "Content-Type": "application/problem+json" },
+        }
+      );
+    }
+
+    const before = mockUsers[userIndex];
+
+    mockUsers[userIndex] = {
+      ...before,
+      roles: [...new Set(body.roles)],
+      updated_at: new Date().toISOString(),
+    };
+
+    recordAuditLog({
+      action: "user.roles_changed",
+      targetType: "user",
+      targetId: before.id,
+      project: null,
+      changes: { before: { email: before.email, roles: before.roles }, after: { email: before.email, roles: mockUsers[userIndex].roles } },
+    });
+
+    return HttpResponse.json({
+      data: mockUsers[userIndex],
+    });
+  }),
+];
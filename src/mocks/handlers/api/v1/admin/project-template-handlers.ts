@@ -0,0 +1,188 @@
+/**
+ * プロジェクトテンプレートAPI用のMSWハンドラー
+ *
+ * 一覧取得はすべてのユーザー、作成・更新・削除はシステム管理者向けのエンドポイントです。
+ * テンプレートからのプロジェクト作成では project-handlers がこのモックデータを参照します。
+ */
+
+import { http, HttpResponse } from "msw";
+
+import type { ProjectTemplate } from "@/features/project-templates/types";
+import type { ProjectTemplateInput } from "@/features/project-templates/types/forms";
+
+// ================================================================================
+// モックデータ
+// ================================================================================
+
+/**
+ * テンプレートのモックデータ
+ */
+export const mockProjectTemplates: ProjectTemplate[] = [
+  {
+    id: "template-1",
+    name: "受託開発",
+    description: "顧客向けの受託開発案件の標準構成です",
+    project_description: "顧客向けの開発プロジェクトです。要件定義から納品までを管理します。",
+    default_member_role: "member",
+    invite_policy: "managers_only",
+    created_at: "2024-01-10T00:00:00Z",
+    updated_at: "2024-01-10T00:00:00Z",
+  },
+  {
+    id: "template-2",
+    name: "社内プロジェクト",
+    description: "社内向けの改善・検証プロジェクトです",
+    project_description: null,
+    default_member_role: "member",
+    invite_policy: "managers_and_moderators",
+    created_at: "2024-02-01T00:00:00Z",
+    updated_at: "2024-03-15T00:00:00Z",
+  },
+  {
+    id: "template-3",
+    name: "外部共有",
+    description: "社外の関係者に閲覧のみを許可するプロジェクトです",
+    project_description: "社外の関係者と資料を共有するプロジェクトです。",
+    default_member_role: "viewer",
+    invite_policy: "managers_only",
+    created_at: "2024-04-01T00:00:00Z",
+    updated_at: "2024-04-01T00:00:00Z",
+  },
+];
+
+// ================================================================================
+// ヘルパー
+// ================================================================================
+
+/**
+ * テンプレートが見つからない場合の RFC 9457 エラーレスポンス
+ */
+const templateNotFound = (instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/resource-not-found",
+      title: "Resource Not Found",
+      status: 404,
+      detail: "The specified project template does not exist",
+      instance,
+    },
+    {
+      status: 404,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 同じ名前のテンプレートが存在する場合の RFC 9457 エラーレスポンス
+ */
+const duplicateTemplateName = (instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/duplicate-resource",
+      title: "Duplicate Resource",
+      status: 409,
+      detail: "A project template with the same name already exists",
+      instance,
+    },
+    {
+      status: 409,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+let templateSequence = mockProjectTemplates.length;
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+export const projectTemplateHandlers = [
+  /**
+   * GET /api/v1/project-templates
+   * テンプレート一覧取得（名前順）
+   */
+  http.get("*/api/v1/project-templates", () => {
+    return HttpResponse.json({
+      data: [...mockProjectTemplates].sort((a, b) => a.name.localeCompare(b.name, "ja")),
+    });
+  }),
+
+  /**
+   * POST /api/v1/admin/project-templates
+   * テンプレート作成
+   */
+  http.post("*/api/v1/admin/project-templates", async ({ request }) => {
+    const body = (await request.json()) as ProjectTemplateInput;
+
+    if (mockProjectTemplates.some((template) => template.name === body.name)) {
+      return duplicateTemplateName("/api/v1/admin/project-templates");
+    }
+
+    templateSequence += 1;
+    const now = new Date().toISOString();
+    const template: ProjectTemplate = {
+      id: `template-${templateSequence}`,
+      name: body.name,
+      description: body.description ?? null,
+      project_description: body.project_description ?? null,
+      default_member_role: body.default_member_role,
+      invite_policy: body.invite_policy,
+      created_at: now,
+      updated_at: now,
+    };
+    mockProjectTemplates.push(template);
+
+    return HttpResponse.json({ data: template }, { status: 201 });
+  }),
+
+  /**
+   * PUT /api/v1/admin/project-templates/:templateId
+   * テンプレート更新
+   */
+  http.put("*/api/v1/admin/project-templates/:templateId", async ({ params, request }) => {
+    const { templateId } = params;
+    const body = (await request.json()) as ProjectTemplateInput;
+    const instance = `/api/v1/admin/project-templates/${templateId}`;
+
+    const templateIndex = mockProjectTemplates.findIndex((template) => template.id === templateId);
+
+    if (templateIndex === -1) {
+      return templateNotFound(instance);
+    }
+
+    if (mockProjectTemplates.some((template) => template.id !== templateId && template.name === body.name)) {
+      return duplicateTemplateName(instance);
+    }
+
+    mockProjectTemplates[templateIndex] = {
+      ...mockProjectTemplates[templateIndex],
+      name: body.name,
+      description: body.description ?? null,
+      project_description: body.project_description ?? null,
+      default_member_role: body.default_member_role,
+      invite_policy: body.invite_policy,
+      updated_at: new Date().toISOString(),
+    };
+
+    return HttpResponse.json({ data: mockProjectTemplates[templateIndex] });
+  }),
+
+  /**
+   * DELETE /api/v1/admin/project-templates/:templateId
+   * テンプレート削除
+   */
+  http.delete("*/api/v1/admin/project-templates/:templateId", ({ params }) => {
+    const { templateId } = params;
+    const templateIndex = mockProjectTemplates.findIndex((template) => template.id === templateId);
+
+    if (templateIndex === -1) {
+      return templateNotFound(`/api/v1/admin/project-templates/${templateId}`);
+    }
+
+    mockProjectTemplates.splice(templateIndex, 1);
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+];
@@ -0,0 +1,187 @@
+/**
+ * 監査ログAPI用のMSWハンドラー
+ *
+ * プロジェクト・メンバー・ユーザーのモックハンドラーが更新系の操作を行う際に
+ * recordAuditLog を呼び出して監査ログを記録します。
+ */
+
+import { http, HttpResponse } from "msw";
+
+import { PAGINATION } from "@/config/constants";
+import type { AuditAction, AuditChanges, AuditLogEntry, AuditTargetType } from "@/features/audit-logs/types";
+
+import { MOCK_AUTH } from "../auth/auth-handlers";
+
+// ================================================================================
+// モックデータ
+// ================================================================================
+
+/**
+ * 操作の実行者（モックでは常に開発モードのログインユーザー）
+ */
+const MOCK_ACTOR = {
+  id: MOCK_AUTH.USER.id,
+  email: MOCK_AUTH.USER.email,
+  display_name: MOCK_AUTH.USER.name,
+};
+
+// モック監査ログ（新しい順）
+const mockAuditLogs: AuditLogEntry[] = [
+  {
+    id: "audit-4",
+    action: "project.updated",
+    actor: { id: "user-5", email: "admin@example.com", display_name: "山田 管理者" },
+    target_type: "project",
+    target_id: "project-4",
+    project_id: "project-4",
+    project_name: "データ基盤構築",
+    changes: {
+      before: { name: "データ基盤構築", description: "分析基盤の構築", is_active: true },
+      after: { name: "データ基盤構築", description: null, is_active: false },
+    },
+    created_at: "2024-04-20T00:00:00Z",
+  },
+  {
+    id: "audit-3",
+    action: "member.role_changed",
+    actor: { id: "user-1", email: "manager@example.com", display_name: "田中 太郎" },
+    target_type: "member",
+    target_id: "member-3",
+    project_id: "project-1",
+    project_name: "サンプルプロジェクト",
+    changes: {
+      before: { user_id: "user-3", role: "viewer" },
+      after: { user_id: "user-3", role: "member" },
+    },
+    created_at: "2024-04-01T09:30:00Z",
+  },
+  {
+    id: "audit-2",
+    action: "member.added",
+    actor: { id: "user-1", email: "manager@example.com", display_name: "田中 太郎" },
+    target_type: "member",
+    target_id: "member-2",
+    project_id: "project-1",
+    project_name: "サンプルプロジェクト",
+    changes: {
+      before: null,
+      after: { user_id: "user-2", role: "project_moderator" },
+    },
+    created_at: "2024-02-01T00:00:00Z",
+  },
+  {
+    id: "audit-1",
+    action: "project.created",
+    actor: { id: "user-1", email: "manager@example.com", display_name: "田中 太郎" },
+    target_type: "project",
+    target_id: "project-1",
+    project_id: "project-1",
+    project_name: "サンプルプロジェクト",
+    changes: {
+      before: null,
+      after: { name: "サンプルプロジェクト", description: "これはサンプルプロジェクトです", is_active: true },
+    },
+    created_at: "2024-01-01T00:00:00Z",
+  },
+];
+
+let auditLogSequence = mockAuditLogs.length;
+
+// ================================================================================
+// 記録用ヘルパー
+// ================================================================================
+
+/**
+ * 監査ログを記録する
+ *
+ * 更新系のモックハンドラーから呼び出します。実行者は MOCK_AUTH.USER として記録されます。
+ *
+ * @example
+ * ```ts
+ * recordAuditLog({
+ *   action: "member.removed",
+ *   targetType: "member",
+ *   targetId: member.id,
+ *   project,
+ *   changes: { before: { user_id: member.user_id, role: member.role }, after: null },
+ * });
+ * ```
+ */
+export const recordAuditLog = ({
+  action,
+  targetType,
+  targetId,
+  project,
+  changes,
+}: {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  project: { id: string; name: string } | null;
+  changes: AuditChanges;
+}) => {
+  auditLogSequence += 1;
+
+  mockAuditLogs.unshift({
+    id: `audit-${auditLogSequence}`,
+    action,
+    actor: MOCK_ACTOR,
+    target_type: targetType,
+    target_id: targetId,
+    project_id: project?.id ?? null,
+    project_name: project?.name ?? null,
+    changes,
+    created_at: new Date().toISOString(),
+  });
+};
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+export const auditLogHandlers = [
+  /**
+   * GET /api/v1/audit-logs
+   * 監査ログ一覧取得（カーソルページネーション）
+   *
+   * クエリパラメータ:
+   * - actor: 実行者の表示名・メールアドレスの部分一致
+   * - project_id: プロジェクトID
+   * - action: 操作種別
+   * - from / to: 期間（yyyy-MM-dd、両端を含む）
+   * - cursor: 前ページの next_cursor
+   * - limit: 1ページの件数
+   */
+  http.get("*/api/v1/audit-logs", ({ request }) => {
+    const { searchParams } = new URL(request.url);
+    const actor = searchParams.get("actor")?.toLowerCase();
+    const projectId = searchParams.get("project_id");
+    const action = searchParams.get("action");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const offset = Number(searchParams.get("cursor") ?? 0);
+    const limit = Number(searchParams.get("limit") ?? PAGINATION.DEFAULT_PAGE_SIZE);
+
+    const filtered = mockAuditLogs.filter((entry) => {
+      const date = entry.created_at.slice(0, 10);
+
+      return (
+        (actor === undefined ||
+          entry.actor.email.toLowerCase().includes(actor) ||
+          (entry.actor.display_name?.toLowerCase().includes(actor) ?? false)) &&
+        (projectId === null || entry.project_id === projectId) &&
+        (action === null || entry.action === action) &&
+        (from === null || date >= from) &&
+        (to === null || date <= to)
+      );
+    });
+
+    const page = filtered.slice(offset, offset + limit);
+    const nextOffset = offset + page.length;
+
+    return HttpResponse.json({
+      data: page,
+      next_cursor: nextOffset < filtered.length ? String(nextOffset) : null,
+    });
+  }),
+];
@@ -4,6 +4,7 @@
 
 import { http, HttpResponse } from "msw";
 
+import { env } from "@/config/env";
 import type { User } from "@/features/auth/stores/auth-store";
 
 // ================================================================================
@@ -13,7 +14,8 @@ import type { User } from "@/features/auth/stores/auth-store";
 /**
  * 開発モード用のモック認証データ
  *
- * MSWハンドラーとStorybookで使用されます
+ * MSWハンドラーとStorybookで使用されます。
+ * NEXT_PUBLIC_MOCK_SYSTEM_ADMIN=true の場合、ユーザーにシステム管理者ロールを付与します（管理画面の確認用）。
  */
 export const MOCK_AUTH = {
   TOKEN: "mock-access-token-dev-12345",
@@ -22,7 +24,7 @@ export const MOCK_AUTH = {
     email: "dev.user@example.com",
     name: "Development User",
     azureOid: "dev-azure-oid-12345",
-    roles: ["User"],
+    roles: env.MOCK_SYSTEM_ADMIN === true ? ["User", "System_Admin"] : ["User"],
   } satisfies User,
 } as const;
 
@@ -0,0 +1,339 @@
+/**
+ * 権限リクエストAPI用のMSWハンドラー
+ *
+ * 権限リクエストの状態（承認待ち・承認済み・却下）をメモリ上に保持します。
+ * 承認時のロール変更は、メンバーのロール更新（PATCH /members/:memberId）と同じ updateMockMember で行います。
+ *
+ * 開発ユーザーは project-3 の閲覧者のため、project-3 の詳細画面から権限リクエストを作成できます。
+ */
+
+import { http, HttpResponse } from "msw";
+
+import type { AccessRequest } from "@/features/projects/types";
+import type { CreateAccessRequestInput } from "@/features/projects/types/forms";
+import { getRequestableRoles } from "@/features/projects/utils/role-hierarchy";
+
+import { MOCK_AUTH } from "../auth/auth-handlers";
+import { ensureEditable, projectNotFound } from "./project-handlers";
+import {
+  findMockActorMembership,
+  getMockPermissions,
+  mockProjectMembers,
+  mockProjects,
+  mockUsers,
+  updateMockMember,
+} from "./project-member-handlers";
+
+// ================================================================================
+// モックデータ
+// ================================================================================
+
+/**
+ * 承認・却下したユーザーをIDで保持するモック権限リクエスト（APIレスポンスではユーザー情報を展開する）
+ */
+type MockAccessRequest = Omit<AccessRequest, "user" | "reviewed_by"> & { reviewed_by_id: string | null };
+
+const mockAccessRequests: MockAccessRequest[] = [
+  {
+    id: "access-request-1",
+    project_id: "project-1",
+    member_id: "member-3",
+    current_role: "member",
+    requested_role: "project_moderator",
+    justification: "新しく参加する協力会社のメンバー追加を担当するため",
+    status: "pending",
+    reviewed_by_id: null,
+    reviewed_at: null,
+    created_at: "2024-10-01T09:00:00Z",
+    updated_at: "2024-10-01T09:00:00Z",
+  },
+];
+
+let accessRequestSequence = mockAccessRequests.length;
+
+// ================================================================================
+// ヘルパー
+// ================================================================================
+
+/**
+ * APIレスポンス用の権限リクエスト（リクエストしたユーザーと承認・却下したユーザーを展開する）
+ */
+const toAccessRequestResponse = ({ reviewed_by_id: reviewedById, ...request }: MockAccessRequest): AccessRequest => ({
+  ...request,
+  user: mockProjectMembers.find((m) => m.id === request.member_id)?.user,
+  reviewed_by: reviewedById === null ? null : mockUsers.find((u) => u.id === reviewedById),
+});
+
+/**
+ * RFC 9457 エラーレスポンス
+ */
+const problem = ({
+  type,
+  title,
+  status,
+  detail,
+  instance,
+}: {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+}) => {
+  return HttpResponse.json(
+    {
+      type: `https://api.example.com/problems/${type}`,
+      title,
+      status,
+      detail,
+      instance,
+    },
+    {
+      status,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 権限リクエストの承認・却下を行えるかを確認する
+ *
+ * @returns 操作できない場合はエラーレスポンス、操作できる場合は対象のリクエスト
+ */
+const findReviewableRequest = (projectId: string, requestId: string, instance: string) => {
+  if (!getMockPermissions(projectId).has("project:manage_members")) {
+    return {
+      request: null,
+      error: problem({
+        type: "forbidden",
+        title: "Forbidden",
+        status: 403,
+        detail: "You do not have permission to review access requests",
+        instance,
+      }),
+    };
+  }
+
+  const request = mockAccessRequests.find((r) => r.id === requestId && r.project_id === projectId);
+
+  if (!request) {
+    return {
+      request: null,
+      error: problem({
+        type: "resource-not-found",
+        title: "Resource Not Found",
+        status: 404,
+        detail: "The specified access request does not exist",
+        instance,
+      }),
+    };
+  }
+
+  if (request.status !== "pending") {
+    return {
+      request: null,
+      error: problem({
+        type: "access-request-unavailable",
+        title: "Access Request Unavailable",
+        status: 409,
+        detail: `This access request has already been ${request.status}`,
+        instance,
+      }),
+    };
+  }
+
+  return { request, error: null };
+};
+
+/**
+ * 権限リクエストを承認・却下した状態にする
+ */
+const markReviewed = (request: MockAccessRequest, status: "approved" | "denied") => {
+  const now = new Date().toISOString();
+  request.status = status;
+  request.reviewed_by_id = MOCK_AUTH.USER.id;
+  request.reviewed_at = now;
+  request.updated_at = now;
+};
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+export const projectAccessRequestHandlers = [
+  /**
+   * GET /api/v1/projects/:projectId/access-requests
+   * 承認待ちの権限リクエスト一覧取得（古い順）
+   */
+  http.get("*/api/v1/projects/:projectId/access-requests", ({ params }) => {
+    const { projectId } = params;
+
+    const requests = mockAccessRequests
+      .filter((r) => r.project_id === projectId && r.status === "pending")
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return HttpResponse.json({
+      data: requests.map(toAccessRequestResponse),
+    });
+  }),
+
+  /**
+   * GET /api/v1/projects/:projectId/access-requests/me
+   * ログインユーザー自身の承認待ちの権限リクエスト取得（ない場合は data: null）
+   */
+  http.get("*/api/v1/projects/:projectId/access-requests/me", ({ params }) => {
+    const { projectId } = params;
+
+    const member = findMockActorMembership(projectId as string);
+    const request = member ? mockAccessRequests.find((r) => r.member_id === member.id && r.status === "pending") : undefined;
+
+    return HttpResponse.json({
+      data: request ? toAccessRequestResponse(request) : null,
+    });
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/access-requests
+   * 権限リクエスト作成
+   *
+   * プロジェクトのメンバーが、現在のロールより上位のロールをリクエストできます。
+   * 承認待ちのリクエストがある間は、新しいリクエストを作成できません。
+   */
+  http.post("*/api/v1/projects/:projectId/access-requests", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as CreateAccessRequestInput;
+    const instance = `/api/v1/projects/${projectId}/access-requests`;
+
+    const project = mockProjects.find((p) => p.id === projectId);
+
+    if (!project) {
+      return projectNotFound(projectId as string);
+    }
+
+    const notEditable = ensureEditable(project, instance);
+
+    if (notEditable) {
+      return notEditable;
+    }
+
+    const member = findMockActorMembership(project.id);
+
+    if (!member) {
+      return problem({
+        type: "forbidden",
+        title: "Forbidden",
+        status: 403,
+        detail: "Only project members can request access",
+        instance,
+      });
+    }
+
+    if (!getRequestableRoles(member.role).includes(body.requested_role)) {
+      return problem({
+        type: "validation-error",
+        title: "Validation Error",
+        status: 422,
+        detail: `You can only request a role higher than your current role "${member.role}"`,
+        instance,
+      });
+    }
+
+    if (body.justification.trim() === "") {
+      return problem({
+        type: "validation-error",
+        title: "Validation Error",
+        status: 422,
+        detail: "A justification is required",
+        instance,
+      });
+    }
+
+    if (mockAccessRequests.some((r) => r.member_id === member.id && r.status === "pending")) {
+      return problem({
+        type: "duplicate-resource",
+        title: "Duplicate Resource",
+        status: 409,
+        detail: "You already have a pending access request for this project",
+        instance,
+      });
+    }
+
+    accessRequestSequence += 1;
+    const now = new Date().toISOString();
+    const newRequest: MockAccessRequest = {
+      id: `access-request-${accessRequestSequence}`,
+      project_id: project.id,
+      member_id: member.id,
+      current_role: member.role,
+      requested_role: body.requested_role,
+      justification: body.justification.trim(),
+      status: "pending",
+      reviewed_by_id: null,
+      reviewed_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    mockAccessRequests.push(newRequest);
+
+    return HttpResponse.json({ data: toAccessRequestResponse(newRequest) }, { status: 201 });
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/access-requests/:requestId/approve
+   * 権限リクエスト承認
+   *
+   * メンバーのロール更新と同じ検証（ロール階層・最後のマネージャー保護）を経てロールを変更します。
+   * ロールを変更できない場合はリクエストを承認待ちのまま、ロール更新のエラーを返します。
+   */
+  http.post("*/api/v1/projects/:projectId/access-requests/:requestId/approve", ({ params }) => {
+    const { projectId, requestId } = params;
+    const instance = `/api/v1/projects/${projectId}/access-requests/${requestId}/approve`;
+
+    const { request, error } = findReviewableRequest(projectId as string, requestId as string, instance);
+
+    if (error) {
+      return error;
+    }
+
+    const result = updateMockMember({
+      projectId: request.project_id,
+      memberId: request.member_id,
+      data: { role: request.requested_role },
+    });
+
+    if (!result.ok) {
+      return result.response;
+    }
+
+    markReviewed(request, "approved");
+
+    return HttpResponse.json({
+      data: {
+        request: toAccessRequestResponse(request),
+        member: result.member,
+      },
+    });
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/access-requests/:requestId/deny
+   * 権限リクエスト却下
+   */
+  http.post("*/api/v1/projects/:projectId/access-requests/:requestId/deny", ({ params }) => {
+    const { projectId, requestId } = params;
+    const instance = `/api/v1/projects/${projectId}/access-requests/${requestId}/deny`;
+
+    const { request, error } = findReviewableRequest(projectId as string, requestId as string, instance);
+
+    if (error) {
+      return error;
+    }
+
+    markReviewed(request, "denied");
+
+    return HttpResponse.json({
+      data: toAccessRequestResponse(request),
+    });
+  }),
+];
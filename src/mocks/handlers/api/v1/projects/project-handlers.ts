@@ -4,10 +4,391 @@
 
 import { http, HttpResponse } from "msw";
 
-import type { Project } from "@/features/projects/types";
-import type { CreateProjectInput } from "@/features/projects/types/forms";
+import {
+  type Project,
+  projectLifecycleStatusSchema,
+  type ProjectMember,
+  type ProjectRole,
+  type ProjectSettings,
+} from "@/features/projects/types";
+import type { CopyMemberConflict, ProjectCopyPreviewOutput } from "@/features/projects/types/api";
+import {
+  type CopyProjectInput,
+  type CreateProjectInput,
+  type ProjectCopySource,
+  projectsListQuerySchema,
+  type ProjectSort,
+  type TransferOwnershipInput,
+  type UpdateProjectInput,
+} from "@/features/projects/types/forms";
+import { isMembershipExpired } from "@/features/projects/utils/membership-expiry";
+import { getProjectLifecycleStatus, getProjectPurgeDate } from "@/features/projects/utils/project-lifecycle";
 
-import { mockProjects } from "./project-member-handlers";
+import { mockProjectTemplates } from "../admin/project-template-handlers";
+import { recordAuditLog } from "../audit-logs/audit-log-handlers";
+import { MOCK_AUTH } from "../auth/auth-handlers";
+import {
+  findAuditProject,
+  getMockPermissions,
+  getMockProjectSettings,
+  mockProjectMembers,
+  mockProjects,
+  mockProjectSettings,
+  mockUsers,
+  nextMockMemberId,
+  nextMockProjectId,
+  toMemberSnapshot,
+} from "./project-member-handlers";
+
+// ================================================================================
+// ヘルパー
+// ================================================================================
+
+/**
+ * 監査ログに記録するプロジェクトのスナップショット
+ */
+const toProjectSnapshot = (project: Project) => ({
+  name: project.name,
+  description: project.description,
+  is_active: project.is_active,
+  deleted_at: project.deleted_at,
+});
+
+/**
+ * 並び順に従ってプロジェクトを比較する（先頭に "-" が付いている場合は降順）
+ */
+const compareProjects = (sort: ProjectSort) => {
+  const descending = sort.startsWith("-");
+  const key = (descending ? sort.slice(1) : sort) as "name" | "created_at" | "updated_at";
+
+  return (a: Project, b: Project) => {
+    const result = key === "name" ? a.name.localeCompare(b.name, "ja") : a[key].localeCompare(b[key]);
+
+    return descending ? -result : result;
+  };
+};
+
+/**
+ * プロジェクトとそのメンバーをモックデータから取り除く
+ */
+const removeProject = (projectIndex: number) => {
+  const [removed] = mockProjects.splice(projectIndex, 1);
+
+  for (let i = mockProjectMembers.length - 1; i >= 0; i--) {
+    if (mockProjectMembers[i].project_id === removed.id) {
+      mockProjectMembers.splice(i, 1);
+    }
+  }
+
+  return removed;
+};
+
+/**
+ * ゴミ箱の保持期間を過ぎたプロジェクトを完全に削除する
+ *
+ * 実際のAPIでは定期ジョブで削除する想定のため、モックではプロジェクトの取得時に削除します。
+ */
+const purgeExpiredProjects = () => {
+  const now = new Date();
+
+  for (let i = mockProjects.length - 1; i >= 0; i--) {
+    const purgeDate = getProjectPurgeDate(mockProjects[i]);
+
+    if (purgeDate !== null && purgeDate <= now) {
+      const purged = removeProject(i);
+
+      recordAuditLog({
+        action: "project.deleted",
+        targetType: "project",
+        targetId: purged.id,
+        project: purged,
+        changes: { before: toProjectSnapshot(purged), after: null },
+      });
+    }
+  }
+};
+
+/**
+ * プロジェクトが見つからない場合の RFC 9457 エラーレスポンス
+ */
+export const projectNotFound = (projectId: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/resource-not-found",
+      title: "Resource Not Found",
+      status: 404,
+      detail: "The specified project does not exist",
+      instance: `/api/v1/projects/${projectId}`,
+    },
+    {
+      status: 404,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 入力値がサーバー側の検証に失敗した場合の RFC 9457 エラーレスポンス
+ *
+ * 拡張メンバー errors にフィールドのパスごとのエラーメッセージを含めます。
+ */
+const validationFailed = (errors: Record<string, string[]>, instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/validation-error",
+      title: "Validation Error",
+      status: 422,
+      detail: "The request contains invalid fields",
+      instance,
+      errors,
+    },
+    {
+      status: 422,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * プロジェクトの入力値をサーバー側で検証する
+ *
+ * - 空白だけのプロジェクト名は不可
+ * - 完全削除されていない他のプロジェクトと同じ名前は不可（大文字・小文字は区別しない）
+ *
+ * @param excludeProjectId - 更新の場合、重複チェックから除外する自身のプロジェクトID
+ * @returns フィールドのパスごとのエラーメッセージ
+ */
+const validateProjectInput = (body: { name: string }, excludeProjectId?: string) => {
+  const errors: Record<string, string[]> = {};
+  const name = body.name.trim();
+
+  if (name === "") {
+    errors.name = ["Project name must not be blank"];
+  } else if (mockProjects.some((p) => p.id !== excludeProjectId && p.name.toLowerCase() === name.toLowerCase())) {
+    errors.name = ["A project with this name already exists"];
+  }
+
+  return errors;
+};
+
+/**
+ * オーナー移譲のリクエストが不正な場合の RFC 9457 エラーレスポンス
+ */
+const invalidOwnershipTransfer = (detail: string, instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/validation-error",
+      title: "Validation Error",
+      status: 422,
+      detail,
+      instance,
+    },
+    {
+      status: 422,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * プロジェクトの状態が操作と合わない場合の RFC 9457 エラーレスポンス
+ *
+ * - project-archived: アーカイブ済みのプロジェクトは変更できない
+ * - project-trashed: ゴミ箱のプロジェクトは復元・完全削除以外の操作ができない
+ * - project-not-trashed: ゴミ箱にないプロジェクトは復元・完全削除できない
+ */
+const projectStateConflict = (problem: "project-archived" | "project-trashed" | "project-not-trashed", instance: string) => {
+  const problems = {
+    "project-archived": { title: "Project Archived", detail: "Archived projects are read-only. Unarchive the project first." },
+    "project-trashed": { title: "Project In Trash", detail: "The project is in the trash. Restore the project first." },
+    "project-not-trashed": { title: "Project Not In Trash", detail: "Only projects in the trash can be restored or permanently deleted" },
+  } as const;
+
+  return HttpResponse.json(
+    {
+      type: `https://api.example.com/problems/${problem}`,
+      title: problems[problem].title,
+      status: 409,
+      detail: problems[problem].detail,
+      instance,
+    },
+    {
+      status: 409,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 変更操作の前に、プロジェクトが変更可能な状態（アクティブ）かを確認する
+ *
+ * @returns 変更できない場合はエラーレスポンス、変更できる場合は null
+ */
+export const ensureEditable = (project: Project, instance: string) => {
+  const status = getProjectLifecycleStatus(project);
+
+  if (status === "trashed") {
+    return projectStateConflict("project-trashed", instance);
+  }
+  if (status === "archived") {
+    return projectStateConflict("project-archived", instance);
+  }
+
+  return null;
+};
+
+/**
+ * 複製元からコピーする内容
+ */
+type MockCopySource = {
+  name: string;
+  description: string | null;
+  settings: Pick<ProjectSettings, "default_member_role" | "invite_policy">;
+  members: ProjectMember[];
+};
+
+/**
+ * 複製元の指定が不正な場合の RFC 9457 エラーレスポンス
+ */
+const invalidCopyRequest = (detail: string, instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/validation-error",
+      title: "Validation Error",
+      status: 422,
+      detail,
+      instance,
+    },
+    {
+      status: 422,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 複製元（テンプレート・プロジェクト）からコピーする内容を取得する
+ *
+ * プロジェクトを複製する場合は、閲覧権限のあるゴミ箱以外のプロジェクトのみ複製できます。
+ * ログインユーザー自身はメンバーに含めません（作成者としてプロジェクトマネージャーになるため）。
+ *
+ * @returns 複製できない場合はエラーレスポンス
+ */
+const resolveCopySource = (source: ProjectCopySource, instance: string): MockCopySource | Response => {
+  if (source.type === "template") {
+    const template = mockProjectTemplates.find((t) => t.id === source.template_id);
+
+    if (!template) {
+      return invalidCopyRequest("The specified project template does not exist", instance);
+    }
+
+    return {
+      name: "",
+      description: template.project_description,
+      settings: { default_member_role: template.default_member_role, invite_policy: template.invite_policy },
+      members: [],
+    };
+  }
+
+  const project = mockProjects.find((p) => p.id === source.project_id);
+
+  if (!project || !getMockPermissions(project.id).has("project:view")) {
+    return invalidCopyRequest("The specified project does not exist or you do not have access to it", instance);
+  }
+  if (getProjectLifecycleStatus(project) === "trashed") {
+    return projectStateConflict("project-trashed", instance);
+  }
+
+  const settings = getMockProjectSettings(project.id);
+
+  return {
+    name: `${project.name}のコピー`,
+    description: project.description,
+    settings: { default_member_role: settings.default_member_role, invite_policy: settings.invite_policy },
+    members: source.include_members ? mockProjectMembers.filter((m) => m.project_id === project.id && m.user_id !== MOCK_AUTH.USER.id) : [],
+  };
+};
+
+/**
+ * 複製元のメンバーをコピーするときの競合
+ */
+const getCopyMemberConflict = (member: ProjectMember): CopyMemberConflict | null => {
+  const user = mockUsers.find((u) => u.id === member.user_id);
+
+  if (!user?.is_active) {
+    return "inactive_user";
+  }
+  if (isMembershipExpired(member)) {
+    return "expired_membership";
+  }
+
+  return null;
+};
+
+/**
+ * 作成したプロジェクトにメンバーを追加し、監査ログに記録する
+ */
+const addInitialMember = (project: Project, row: { user_id: string; role: ProjectRole }, now: string) => {
+  const newMember: ProjectMember = {
+    id: nextMockMemberId(),
+    project_id: project.id,
+    user_id: row.user_id,
+    role: row.role,
+    joined_at: now,
+    updated_at: now,
+    user: mockUsers.find((u) => u.id === row.user_id),
+    project,
+  };
+
+  mockProjectMembers.push(newMember);
+
+  recordAuditLog({
+    action: "member.added",
+    targetType: "member",
+    targetId: newMember.id,
+    project: findAuditProject(project.id),
+    changes: { before: null, after: toMemberSnapshot(newMember) },
+  });
+};
+
+/**
+ * アーカイブ・アーカイブ解除の共通処理
+ *
+ * ゴミ箱のプロジェクトは変更できません。既に同じ状態の場合は何もせずにプロジェクトを返します。
+ */
+const changeActiveState = (projectId: string, isActive: boolean) => {
+  const instance = `/api/v1/projects/${projectId}/${isActive ? "unarchive" : "archive"}`;
+  const projectIndex = mockProjects.findIndex((p) => p.id === projectId);
+
+  if (projectIndex === -1) {
+    return projectNotFound(projectId);
+  }
+
+  const before = mockProjects[projectIndex];
+
+  if (before.deleted_at !== null) {
+    return projectStateConflict("project-trashed", instance);
+  }
+  if (before.is_active === isActive) {
+    return HttpResponse.json({ data: before });
+  }
+
+  const updatedProject: Project = { ...before, is_active: isActive, updated_at: new Date().toISOString() };
+
+  mockProjects[projectIndex] = updatedProject;
+
+  recordAuditLog({
+    action: isActive ? "project.unarchived" : "project.archived",
+    targetType: "project",
+    targetId: updatedProject.id,
+    project: updatedProject,
+    changes: { before: toProjectSnapshot(before), after: toProjectSnapshot(updatedProject) },
+  });
+
+  return HttpResponse.json({
+    data: updatedProject,
+  });
+};
 
 // ================================================================================
 // ハンドラー
@@ -17,31 +398,189 @@ export const projectHandlers = [
   /**
    * GET /api/v1/projects
    * プロジェクト一覧取得
+   *
+   * クエリパラメータ:
+   * - page: ページ番号（1始まり、省略時は 1）
+   * - size: 1ページの件数（PAGINATION.PAGE_SIZE_OPTIONS のいずれか、省略時は PAGINATION.DEFAULT_PAGE_SIZE）
+   * - sort: 並び順（name / created_at / updated_at、先頭に "-" で降順、省略時は -updated_at）
+   * - q: プロジェクト名・説明の部分一致（大文字・小文字を区別しない）
+   * - status: active / archived / trashed（省略時はゴミ箱以外のすべて）
+   *
+   * 不正な値は省略時と同じ扱いにします。
    */
-  http.get("*/api/v1/projects", () => {
+  http.get("*/api/v1/projects", ({ request }) => {
+    purgeExpiredProjects();
+
+    const url = new URL(request.url);
+    const status = projectLifecycleStatusSchema.safeParse(url.searchParams.get("status"));
+    const { page, size, sort, q } = projectsListQuerySchema.omit({ status: true }).parse(Object.fromEntries(url.searchParams));
+    const keyword = q.toLowerCase();
+
+    const projects = mockProjects
+      .filter((p) => (status.success ? getProjectLifecycleStatus(p) === status.data : getProjectLifecycleStatus(p) !== "trashed"))
+      .filter((p) => keyword === "" || `${p.name} ${p.description ?? ""}`.toLowerCase().includes(keyword))
+      .sort(compareProjects(sort));
+
     return HttpResponse.json({
-      data: mockProjects,
+      data: projects.slice((page - 1) * size, page * size),
+      total: projects.length,
+      page,
+      size,
+      total_pages: Math.ceil(projects.length / size),
     });
   }),
 
   /**
    * POST /api/v1/projects
    * プロジェクト作成
+   *
+   * 作成者（MOCK_AUTH.USER）はプロジェクトマネージャーとして追加されます。作成したプロジェクトはアクティブです。
    */
   http.post("*/api/v1/projects", async ({ request }) => {
     const body = (await request.json()) as CreateProjectInput;
+    const errors = validateProjectInput(body);
+
+    if (Object.keys(errors).length > 0) {
+      return validationFailed(errors, "/api/v1/projects");
+    }
 
+    const now = new Date().toISOString();
     const newProject: Project = {
-      id: `project-${mockProjects.length + 1}`,
+      id: nextMockProjectId(),
       name: body.name,
       description: body.description ?? null,
-      is_active: body.is_active ?? true,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      created_by: "user-1", // モックでは固定値
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+      created_by: MOCK_AUTH.USER.id,
+      deleted_at: null,
+    };
+
+    mockProjects.push(newProject);
+
+    recordAuditLog({
+      action: "project.created",
+      targetType: "project",
+      targetId: newProject.id,
+      project: newProject,
+      changes: { before: null, after: toProjectSnapshot(newProject) },
+    });
+
+    addInitialMember(newProject, { user_id: MOCK_AUTH.USER.id, role: "project_manager" }, now);
+
+    return HttpResponse.json(
+      {
+        data: newProject,
+      },
+      { status: 201 }
+    );
+  }),
+
+  /**
+   * GET /api/v1/projects/copy-preview
+   * テンプレート・既存のプロジェクトから作成する場合にコピーされる内容の取得
+   *
+   * クエリパラメータ:
+   * - template_id: テンプレートから作成する場合のテンプレートID
+   * - project_id: 既存のプロジェクトを複製する場合のプロジェクトID
+   * - include_members: "true" の場合、複製元のメンバーとロールもコピーの対象にする
+   *
+   * /projects/:projectId より先に登録しないと "copy-preview" がプロジェクトIDとして扱われます。
+   */
+  http.get("*/api/v1/projects/copy-preview", ({ request }) => {
+    const url = new URL(request.url);
+    const templateId = url.searchParams.get("template_id");
+    const projectId = url.searchParams.get("project_id");
+    const instance = "/api/v1/projects/copy-preview";
+
+    if (templateId === null && projectId === null) {
+      return invalidCopyRequest("Either template_id or project_id is required", instance);
+    }
+
+    const source = resolveCopySource(
+      templateId !== null
+        ? { type: "template", template_id: templateId }
+        : { type: "project", project_id: projectId ?? "", include_members: url.searchParams.get("include_members") === "true" },
+      instance
+    );
+
+    if (source instanceof Response) {
+      return source;
+    }
+
+    const preview: ProjectCopyPreviewOutput["data"] = {
+      name: source.name,
+      description: source.description,
+      ...source.settings,
+      members: source.members.flatMap((member) => {
+        const user = mockUsers.find((u) => u.id === member.user_id);
+
+        return user ? [{ user, role: member.role, conflict: getCopyMemberConflict(member) }] : [];
+      }),
+    };
+
+    return HttpResponse.json({ data: preview });
+  }),
+
+  /**
+   * POST /api/v1/projects/copy
+   * テンプレート・既存のプロジェクトからプロジェクトを作成
+   *
+   * 複製元の設定をコピーし、指定されたメンバーを追加します（複製元のメンバーシップの有効期限はコピーしません）。
+   * 作成者（MOCK_AUTH.USER）はプロジェクトマネージャーとして追加されます。
+   * プロジェクト名が不正な場合や無効化されたユーザーが含まれている場合は、プロジェクトを作成せずにフィールドごとのエラーを返します。
+   */
+  http.post("*/api/v1/projects/copy", async ({ request }) => {
+    const body = (await request.json()) as CopyProjectInput;
+    const instance = "/api/v1/projects/copy";
+
+    const source = resolveCopySource(body.source, instance);
+
+    if (source instanceof Response) {
+      return source;
+    }
+
+    const errors = validateProjectInput(body);
+
+    // 無効化されたユーザーは、リクエストの members の添字ごとにエラーを返す
+    body.members.forEach((row, index) => {
+      if (row.user_id !== MOCK_AUTH.USER.id && mockUsers.find((u) => u.id === row.user_id)?.is_active !== true) {
+        errors[`members[${index}].user_id`] = ["User is inactive or does not exist"];
+      }
+    });
+
+    if (Object.keys(errors).length > 0) {
+      return validationFailed(errors, instance);
+    }
+
+    const members = body.members.filter((row) => row.user_id !== MOCK_AUTH.USER.id);
+
+    const now = new Date().toISOString();
+    const newProject: Project = {
+      id: nextMockProjectId(),
+      name: body.name,
+      description: body.description ?? null,
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+      created_by: MOCK_AUTH.USER.id,
+      deleted_at: null,
     };
 
     mockProjects.push(newProject);
+    mockProjectSettings.push({ project_id: newProject.id, ...source.settings, updated_at: now });
+
+    recordAuditLog({
+      action: "project.created",
+      targetType: "project",
+      targetId: newProject.id,
+      project: newProject,
+      changes: { before: null, after: toProjectSnapshot(newProject) },
+    });
+
+    for (const row of [{ user_id: MOCK_AUTH.USER.id, role: "project_manager" as const }, ...members]) {
+      addInitialMember(newProject, row, now);
+    }
 
     return HttpResponse.json(
       {
@@ -53,31 +592,294 @@ export const projectHandlers = [
 
   /**
    * GET /api/v1/projects/:projectId
-   * プロジェクト詳細取得
+   * プロジェクト詳細取得（ゴミ箱のプロジェクトも取得できます）
    */
   http.get("*/api/v1/projects/:projectId", ({ params }) => {
     const { projectId } = params;
 
+    purgeExpiredProjects();
+
     const project = mockProjects.find((p) => p.id === projectId);
 
     if (!project) {
+      return projectNotFound(projectId as string);
+    }
+
+    return HttpResponse.json({
+      data: project,
+    });
+  }),
+
+  /**
+   * PUT /api/v1/projects/:projectId
+   * プロジェクト更新（アーカイブ済み・ゴミ箱のプロジェクトは更新できません）
+   *
+   * 名前と説明だけを更新します。アクティブかどうか（is_active）はアーカイブ・アーカイブ解除のエンドポイントで変更します。
+   */
+  http.put("*/api/v1/projects/:projectId", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as UpdateProjectInput;
+
+    const projectIndex = mockProjects.findIndex((p) => p.id === projectId);
+
+    if (projectIndex === -1) {
+      return projectNotFound(projectId as string);
+    }
+
+    const before = mockProjects[projectIndex];
+    const notEditable = ensureEditable(before, `/api/v1/projects/${projectId}`);
+
+    if (notEditable) {
+      return notEditable;
+    }
+
+    const errors = validateProjectInput(body, before.id);
+
+    if (Object.keys(errors).length > 0) {
+      return validationFailed(errors, `/api/v1/projects/${projectId}`);
+    }
+
+    const updatedProject: Project = {
+      ...before,
+      name: body.name,
+      description: body.description ?? null,
+      updated_at: new Date().toISOString(),
+    };
+
+    mockProjects[projectIndex] = updatedProject;
+
+    recordAuditLog({
+      action: "project.updated",
+      targetType: "project",
+      targetId: updatedProject.id,
+      project: updatedProject,
+      changes: { before: toProjectSnapshot(before), after: toProjectSnapshot(updatedProject) },
+    });
+
+    return HttpResponse.json({
+      data: updatedProject,
+    });
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/transfer-ownership
+   * オーナー移譲
+   *
+   * プロジェクトの created_by を新オーナーに変更し、新オーナーを project_manager、
+   * 現オーナー（メンバーの場合）を previous_owner_role に変更します。
+   * すべての検証が通ってからプロジェクトと両メンバーを一括で更新するため、途中で失敗して一部だけ更新されることはありません。
+   */
+  http.post("*/api/v1/projects/:projectId/transfer-ownership", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as TransferOwnershipInput;
+    const instance = `/api/v1/projects/${projectId}/transfer-ownership`;
+
+    const projectIndex = mockProjects.findIndex((p) => p.id === projectId);
+
+    if (projectIndex === -1) {
+      return projectNotFound(projectId as string);
+    }
+
+    if (!getMockPermissions(projectId as string).has("project:manage_settings")) {
       return HttpResponse.json(
         {
-          type: "https://api.example.com/problems/resource-not-found",
-          title: "Resource Not Found",
-          status: 404,
-          detail: "The specified project does not exist",
-          instance: `/api/v1/projects/${projectId}`,
+          type: "https://api.example.com/problems/forbidden",
+          title: "Forbidden",
+          status: 403,
+          detail: "Only project managers can transfer project ownership",
+          instance,
         },
         {
-          status: 404,
+          status: 403,
           headers: { "Content-Type": "application/problem+json" },
         }
       );
     }
 
+    const project = mockProjects[projectIndex];
+    const notEditable = ensureEditable(project, instance);
+
+    if (notEditable) {
+      return notEditable;
+    }
+
+    if (body.new_owner_id === project.created_by) {
+      return invalidOwnershipTransfer("The specified user is already the owner of this project", instance);
+    }
+
+    const newOwnerIndex = mockProjectMembers.findIndex((m) => m.project_id === projectId && m.user_id === body.new_owner_id);
+
+    if (newOwnerIndex === -1) {
+      return invalidOwnershipTransfer("The new owner must be a member of the project", instance);
+    }
+
+    const previousOwnerIndex = mockProjectMembers.findIndex((m) => m.project_id === projectId && m.user_id === project.created_by);
+    const now = new Date().toISOString();
+
+    // 検証が終わってから、プロジェクトと新旧オーナーのメンバー情報をまとめて更新する
+    const updatedProject: Project = { ...project, created_by: body.new_owner_id, updated_at: now };
+    const newOwnerBefore = mockProjectMembers[newOwnerIndex];
+    const newOwner: ProjectMember = { ...newOwnerBefore, role: "project_manager", updated_at: now, project: updatedProject };
+    const previousOwnerBefore = previousOwnerIndex === -1 ? null : mockProjectMembers[previousOwnerIndex];
+    const previousOwner: ProjectMember | null =
+      previousOwnerBefore === null
+        ? null
+        : { ...previousOwnerBefore, role: body.previous_owner_role, updated_at: now, project: updatedProject };
+
+    mockProjects[projectIndex] = updatedProject;
+    mockProjectMembers[newOwnerIndex] = newOwner;
+
+    if (previousOwner !== null) {
+      mockProjectMembers[previousOwnerIndex] = previousOwner;
+    }
+
+    recordAuditLog({
+      action: "project.ownership_transferred",
+      targetType: "project",
+      targetId: updatedProject.id,
+      project: updatedProject,
+      changes: {
+        before: {
+          created_by: project.created_by,
+          previous_owner_role: previousOwnerBefore?.role ?? null,
+          new_owner_role: newOwnerBefore.role,
+        },
+        after: {
+          created_by: updatedProject.created_by,
+          previous_owner_role: previousOwner?.role ?? null,
+          new_owner_role: newOwner.role,
+        },
+      },
+    });
+
     return HttpResponse.json({
-      data: project,
+      data: {
+        project: updatedProject,
+        new_owner: newOwner,
+        previous_owner: previousOwner,
+      },
     });
   }),
+
+  /**
+   * POST /api/v1/projects/:projectId/archive
+   * プロジェクトのアーカイブ（is_active を false にする）
+   */
+  http.post("*/api/v1/projects/:projectId/archive", ({ params }) => {
+    return changeActiveState(params.projectId as string, false);
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/unarchive
+   * プロジェクトのアーカイブ解除（is_active を true にする）
+   */
+  http.post("*/api/v1/projects/:projectId/unarchive", ({ params }) => {
+    return changeActiveState(params.projectId as string, true);
+  }),
+
+  /**
+   * DELETE /api/v1/projects/:projectId
+   * プロジェクトをゴミ箱に移動（deleted_at を設定する）
+   *
+   * 保持期間（PROJECT_TRASH_RETENTION_DAYS）を過ぎると完全に削除されます。
+   */
+  http.delete("*/api/v1/projects/:projectId", ({ params }) => {
+    const { projectId } = params;
+
+    const projectIndex = mockProjects.findIndex((p) => p.id === projectId);
+
+    if (projectIndex === -1) {
+      return projectNotFound(projectId as string);
+    }
+
+    const before = mockProjects[projectIndex];
+
+    if (before.deleted_at !== null) {
+      return projectStateConflict("project-trashed", `/api/v1/projects/${projectId}`);
+    }
+
+    const now = new Date().toISOString();
+    const trashedProject: Project = { ...before, deleted_at: now, updated_at: now };
+
+    mockProjects[projectIndex] = trashedProject;
+
+    recordAuditLog({
+      action: "project.trashed",
+      targetType: "project",
+      targetId: trashedProject.id,
+      project: trashedProject,
+      changes: { before: toProjectSnapshot(before), after: toProjectSnapshot(trashedProject) },
+    });
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/restore
+   * ゴミ箱からプロジェクトを復元（deleted_at を null に戻す）
+   */
+  http.post("*/api/v1/projects/:projectId/restore", ({ params }) => {
+    const { projectId } = params;
+    const instance = `/api/v1/projects/${projectId}/restore`;
+
+    purgeExpiredProjects();
+
+    const projectIndex = mockProjects.findIndex((p) => p.id === projectId);
+
+    if (projectIndex === -1) {
+      return projectNotFound(projectId as string);
+    }
+
+    const before = mockProjects[projectIndex];
+
+    if (before.deleted_at === null) {
+      return projectStateConflict("project-not-trashed", instance);
+    }
+
+    const restoredProject: Project = { ...before, deleted_at: null, updated_at: new Date().toISOString() };
+
+    mockProjects[projectIndex] = restoredProject;
+
+    recordAuditLog({
+      action: "project.restored",
+      targetType: "project",
+      targetId: restoredProject.id,
+      project: restoredProject,
+      changes: { before: toProjectSnapshot(before), after: toProjectSnapshot(restoredProject) },
+    });
+
+    return HttpResponse.json({
+      data: restoredProject,
+    });
+  }),
+
+  /**
+   * DELETE /api/v1/projects/:projectId/purge
+   * ゴミ箱のプロジェクトを完全に削除（メンバー情報も合わせて削除）
+   */
+  http.delete("*/api/v1/projects/:projectId/purge", ({ params }) => {
+    const { projectId } = params;
+
+    const projectIndex = mockProjects.findIndex((p) => p.id === projectId);
+
+    if (projectIndex === -1) {
+      return projectNotFound(projectId as string);
+    }
+
+    if (mockProjects[projectIndex].deleted_at === null) {
+      return projectStateConflict("project-not-trashed", `/api/v1/projects/${projectId}/purge`);
+    }
+
+    const deletedProject = removeProject(projectIndex);
+
+    recordAuditLog({
+      action: "project.deleted",
+      targetType: "project",
+      targetId: deletedProject.id,
+      project: deletedProject,
+      changes: { before: toProjectSnapshot(deletedProject), after: null },
+    });
+
+    return new HttpResponse(null, { status: 204 });
+  }),
 ];
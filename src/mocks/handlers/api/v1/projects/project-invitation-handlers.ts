@@ -0,0 +1,420 @@
+/**
+ * プロジェクト招待API用のMSWハンドラー
+ *
+ * 招待の状態（承諾待ち・承諾済み・取り消し済み・期限切れ）をメモリ上に保持します。
+ * 招待メールは送信されないため、開発中は以下のトークンで承諾画面（/invitations/[token]）を確認できます。
+ *
+ * - invite-token-dev-user: 開発ユーザー宛ての承諾待ちの招待（データ基盤構築）
+ * - invite-token-expired: 期限切れの招待
+ * - invite-token-other-user: 別のメールアドレス宛ての招待（承諾すると403）
+ */
+
+import { http, HttpResponse } from "msw";
+
+import type { ProjectInvitation, ProjectMember } from "@/features/projects/types";
+import type { CreateInvitationInput } from "@/features/projects/types/forms";
+import { getAssignableRoles } from "@/features/projects/utils/role-hierarchy";
+
+import { recordAuditLog } from "../audit-logs/audit-log-handlers";
+import { MOCK_AUTH } from "../auth/auth-handlers";
+import {
+  ensureInvitePolicy,
+  findAuditProject,
+  getMockActor,
+  mockProjectMembers,
+  mockProjects,
+  mockUsers,
+  nextMockMemberId,
+  toMemberSnapshot,
+} from "./project-member-handlers";
+
+// ================================================================================
+// モックデータ
+// ================================================================================
+
+/**
+ * 招待の有効期間（7日）
+ */
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 招待トークンを含むモック招待（トークンはAPIレスポンスには含めない）
+ */
+type MockInvitation = Omit<ProjectInvitation, "invited_by"> & { token: string; invited_by_id: string };
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const mockInvitations: MockInvitation[] = [
+  {
+    id: "invitation-1",
+    token: "invite-token-new-hire",
+    project_id: "project-1",
+    email: "new.hire@example.com",
+    role: "member",
+    status: "pending",
+    invited_by_id: MOCK_AUTH.USER.id,
+    expires_at: daysFromNow(5),
+    created_at: daysFromNow(-2),
+    updated_at: daysFromNow(-2),
+  },
+  {
+    id: "invitation-2",
+    token: "invite-token-expired",
+    project_id: "project-1",
+    email: "contractor@example.com",
+    role: "viewer",
+    status: "pending",
+    invited_by_id: "user-1",
+    expires_at: daysFromNow(-1),
+    created_at: daysFromNow(-8),
+    updated_at: daysFromNow(-8),
+  },
+  {
+    id: "invitation-3",
+    token: "invite-token-dev-user",
+    project_id: "project-4",
+    email: MOCK_AUTH.USER.email,
+    role: "member",
+    status: "pending",
+    invited_by_id: "user-5",
+    expires_at: daysFromNow(7),
+    created_at: daysFromNow(0),
+    updated_at: daysFromNow(0),
+  },
+  {
+    id: "invitation-4",
+    token: "invite-token-other-user",
+    project_id: "project-2",
+    email: "someone.else@example.com",
+    role: "viewer",
+    status: "pending",
+    invited_by_id: "user-2",
+    expires_at: daysFromNow(3),
+    created_at: daysFromNow(-4),
+    updated_at: daysFromNow(-4),
+  },
+];
+
+let invitationSequence = mockInvitations.length;
+
+// ================================================================================
+// ヘルパー
+// ================================================================================
+
+/**
+ * 有効期限を過ぎた承諾待ちの招待を期限切れとして扱う
+ */
+const resolveStatus = (invitation: MockInvitation): ProjectInvitation["status"] => {
+  if (invitation.status === "pending" && new Date(invitation.expires_at).getTime() <= Date.now()) {
+    return "expired";
+  }
+
+  return invitation.status;
+};
+
+/**
+ * APIレスポンス用の招待（トークンを除き、招待者を展開する）
+ */
+const toInvitationResponse = (invitation: MockInvitation): ProjectInvitation => ({
+  id: invitation.id,
+  project_id: invitation.project_id,
+  email: invitation.email,
+  role: invitation.role,
+  status: resolveStatus(invitation),
+  invited_by: mockUsers.find((u) => u.id === invitation.invited_by_id),
+  expires_at: invitation.expires_at,
+  created_at: invitation.created_at,
+  updated_at: invitation.updated_at,
+});
+
+/**
+ * RFC 9457 エラーレスポンス
+ */
+const problem = ({
+  type,
+  title,
+  status,
+  detail,
+  instance,
+}: {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+}) => {
+  return HttpResponse.json(
+    {
+      type: `https://api.example.com/problems/${type}`,
+      title,
+      status,
+      detail,
+      instance,
+    },
+    {
+      status,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+const invitationNotFound = (instance: string) =>
+  problem({
+    type: "resource-not-found",
+    title: "Resource Not Found",
+    status: 404,
+    detail: "The specified invitation does not exist",
+    instance,
+  });
+
+/**
+ * 承諾済み・取り消し済みの招待に対する操作のエラーレスポンス
+ */
+const invitationUnavailable = (invitation: MockInvitation, instance: string) =>
+  problem({
+    type: "invitation-unavailable",
+    title: "Invitation Unavailable",
+    status: 409,
+    detail: `This invitation has already been ${invitation.status}`,
+    instance,
+  });
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+export const projectInvitationHandlers = [
+  /**
+   * GET /api/v1/projects/:projectId/invitations
+   * プロジェクト招待一覧取得（承諾待ち・期限切れ）
+   */
+  http.get("*/api/v1/projects/:projectId/invitations", ({ params }) => {
+    const { projectId } = params;
+
+    const invitations = mockInvitations
+      .filter((invitation) => invitation.project_id === projectId)
+      .map(toInvitationResponse)
+      .filter((invitation) => invitation.status === "pending" || invitation.status === "expired");
+
+    return HttpResponse.json({
+      data: invitations,
+    });
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/invitations
+   * メールアドレスでプロジェクトに招待
+   */
+  http.post("*/api/v1/projects/:projectId/invitations", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as CreateInvitationInput;
+    const instance = `/api/v1/projects/${projectId}/invitations`;
+    const email = body.email.toLowerCase();
+    const notAllowed = ensureInvitePolicy(projectId as string, instance);
+
+    if (notAllowed) {
+      return notAllowed;
+    }
+
+    if (!getAssignableRoles(getMockActor(projectId as string)).includes(body.role)) {
+      return problem({
+        type: "role-hierarchy-violation",
+        title: "Role Hierarchy Violation",
+        status: 403,
+        detail: `You cannot grant the role "${body.role}" because it is higher than your own`,
+        instance,
+      });
+    }
+
+    if (mockProjectMembers.some((m) => m.project_id === projectId && m.user?.email.toLowerCase() === email)) {
+      return problem({
+        type: "duplicate-resource",
+        title: "Duplicate Resource",
+        status: 409,
+        detail: "User is already a member of this project",
+        instance,
+      });
+    }
+
+    if (mockInvitations.some((i) => i.project_id === projectId && i.email.toLowerCase() === email && resolveStatus(i) === "pending")) {
+      return problem({
+        type: "duplicate-resource",
+        title: "Duplicate Resource",
+        status: 409,
+        detail: "A pending invitation for this email already exists",
+        instance,
+      });
+    }
+
+    invitationSequence += 1;
+    const now = new Date().toISOString();
+    const invitation: MockInvitation = {
+      id: `invitation-${invitationSequence}`,
+      token: `invite-token-${invitationSequence}`,
+      project_id: projectId as string,
+      email: body.email,
+      role: body.role,
+      status: "pending",
+      invited_by_id: MOCK_AUTH.USER.id,
+      expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+      created_at: now,
+      updated_at: now,
+    };
+
+    mockInvitations.push(invitation);
+
+    return HttpResponse.json(
+      {
+        data: toInvitationResponse(invitation),
+      },
+      { status: 201 }
+    );
+  }),
+
+  /**
+   * POST /api/v1/projects/:projectId/invitations/:invitationId/resend
+   * プロジェクト招待の再送（有効期限を延長し、期限切れの招待は承諾待ちに戻す）
+   */
+  http.post("*/api/v1/projects/:projectId/invitations/:invitationId/resend", ({ params }) => {
+    const { projectId, invitationId } = params;
+    const instance = `/api/v1/projects/${projectId}/invitations/${invitationId}/resend`;
+
+    const invitation = mockInvitations.find((i) => i.id === invitationId && i.project_id === projectId);
+
+    if (!invitation) {
+      return invitationNotFound(instance);
+    }
+    if (invitation.status !== "pending") {
+      return invitationUnavailable(invitation, instance);
+    }
+
+    invitation.expires_at = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+    invitation.updated_at = new Date().toISOString();
+
+    return HttpResponse.json({
+      data: toInvitationResponse(invitation),
+    });
+  }),
+
+  /**
+   * DELETE /api/v1/projects/:projectId/invitations/:invitationId
+   * プロジェクト招待の取り消し
+   */
+  http.delete("*/api/v1/projects/:projectId/invitations/:invitationId", ({ params }) => {
+    const { projectId, invitationId } = params;
+    const instance = `/api/v1/projects/${projectId}/invitations/${invitationId}`;
+
+    const invitation = mockInvitations.find((i) => i.id === invitationId && i.project_id === projectId);
+
+    if (!invitation) {
+      return invitationNotFound(instance);
+    }
+    if (invitation.status !== "pending") {
+      return invitationUnavailable(invitation, instance);
+    }
+
+    invitation.status = "revoked";
+    invitation.updated_at = new Date().toISOString();
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  /**
+   * GET /api/v1/invitations/:token
+   * 招待内容取得（取り消し済み・期限切れの招待も status とともに返す）
+   */
+  http.get("*/api/v1/invitations/:token", ({ params }) => {
+    const { token } = params;
+
+    const invitation = mockInvitations.find((i) => i.token === token);
+    const project = invitation && mockProjects.find((p) => p.id === invitation.project_id);
+
+    if (!invitation || !project) {
+      return invitationNotFound(`/api/v1/invitations/${token}`);
+    }
+
+    return HttpResponse.json({
+      data: { ...toInvitationResponse(invitation), project },
+    });
+  }),
+
+  /**
+   * POST /api/v1/invitations/:token/accept
+   * 招待を承諾し、ログインユーザー（MOCK_AUTH.USER）をプロジェクトに追加
+   */
+  http.post("*/api/v1/invitations/:token/accept", ({ params }) => {
+    const { token } = params;
+    const instance = `/api/v1/invitations/${token}/accept`;
+
+    const invitation = mockInvitations.find((i) => i.token === token);
+
+    if (!invitation) {
+      return invitationNotFound(instance);
+    }
+
+    const status = resolveStatus(invitation);
+    if (status === "expired") {
+      return problem({
+        type: "invitation-expired",
+        title: "Invitation Expired",
+        status: 410,
+        detail: "This invitation has expired. Ask the project manager to resend it.",
+        instance,
+      });
+    }
+    if (status !== "pending") {
+      return invitationUnavailable(invitation, instance);
+    }
+
+    if (invitation.email.toLowerCase() !== MOCK_AUTH.USER.email.toLowerCase()) {
+      return problem({
+        type: "forbidden",
+        title: "Forbidden",
+        status: 403,
+        detail: "This invitation was sent to a different email address",
+        instance,
+      });
+    }
+
+    if (mockProjectMembers.some((m) => m.project_id === invitation.project_id && m.user_id === MOCK_AUTH.USER.id)) {
+      return problem({
+        type: "duplicate-resource",
+        title: "Duplicate Resource",
+        status: 409,
+        detail: "You are already a member of this project",
+        instance,
+      });
+    }
+
+    const now = new Date().toISOString();
+    const newMember: ProjectMember = {
+      id: nextMockMemberId(),
+      project_id: invitation.project_id,
+      user_id: MOCK_AUTH.USER.id,
+      role: invitation.role,
+      joined_at: now,
+      updated_at: now,
+      user: mockUsers.find((u) => u.id === MOCK_AUTH.USER.id),
+      project: mockProjects.find((p) => p.id === invitation.project_id),
+    };
+
+    mockProjectMembers.push(newMember);
+    invitation.status = "accepted";
+    invitation.updated_at = now;
+
+    recordAuditLog({
+      action: "member.added",
+      targetType: "member",
+      targetId: newMember.id,
+      project: findAuditProject(newMember.project_id),
+      changes: { before: null, after: toMemberSnapshot(newMember) },
+    });
+
+    return HttpResponse.json(
+      {
+        data: newMember,
+      },
+      { status: 201 }
+    );
+  }),
+];
@@ -2,17 +2,37 @@
  * プロジェクトメンバーAPI用のMSWハンドラー
  */
 
+import { addDays, endOfDay, subDays } from "date-fns";
 import { http, HttpResponse } from "msw";
 
-import type { Project, ProjectMember, ProjectRole, User } from "@/features/projects/types";
-import type { AddProjectMemberInput, BulkUpdateRolesInput, UpdateMemberRoleInput } from "@/features/projects/types/forms";
+import type { Project, ProjectMember, ProjectRole, ProjectSettings, User } from "@/features/projects/types";
+import type { BulkAddFailureReason, BulkAddMembersOutput, BulkRemoveMembersOutput } from "@/features/projects/types/api";
+import type {
+  AddProjectMemberInput,
+  BulkAddMembersInput,
+  BulkRemoveMembersInput,
+  BulkUpdateRolesInput,
+  UpdateMemberRoleInput,
+} from "@/features/projects/types/forms";
+import { isMembershipExpired } from "@/features/projects/utils/membership-expiry";
+import { resolvePermissions, toSystemRoles } from "@/features/projects/utils/permissions";
+import {
+  canInviteMembers,
+  getAssignableRoles,
+  getMemberRestriction,
+  type MemberRestrictionReason,
+  type RoleActor,
+} from "@/features/projects/utils/role-hierarchy";
+
+import { recordAuditLog } from "../audit-logs/audit-log-handlers";
+import { MOCK_AUTH } from "../auth/auth-handlers";
 
 // ================================================================================
 // モックデータ
 // ================================================================================
 
 // モックユーザー
-const mockUsers: User[] = [
+export const mockUsers: User[] = [
   {
     id: "user-1",
     azure_oid: "azure-oid-1",
@@ -68,6 +88,32 @@ const mockUsers: User[] = [
     updated_at: "2024-01-01T00:00:00Z",
     last_login: "2024-10-05T14:00:00Z",
   },
+  {
+    // 開発モードのログインユーザー（MOCK_AUTH.USER）
+    id: MOCK_AUTH.USER.id,
+    azure_oid: MOCK_AUTH.USER.azureOid,
+    email: MOCK_AUTH.USER.email,
+    display_name: MOCK_AUTH.USER.name,
+    roles: toSystemRoles(MOCK_AUTH.USER.roles),
+    is_active: true,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    last_login: "2024-10-06T09:00:00Z",
+  },
+];
+
+/**
+ * 生成するモックプロジェクトの分野（プロジェクト名に使用する）
+ */
+const SEED_PROJECT_AREAS = [
+  "業務改善",
+  "データ分析",
+  "インフラ刷新",
+  "採用サイト",
+  "社内研修",
+  "顧客サポート",
+  "セキュリティ対策",
+  "経費精算",
 ];
 
 // モックプロジェクト
@@ -80,6 +126,7 @@ export const mockProjects: Project[] = [
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
     created_by: "user-1",
+    deleted_at: null,
   },
   {
     id: "project-2",
@@ -89,6 +136,7 @@ export const mockProjects: Project[] = [
     created_at: "2024-02-15T00:00:00Z",
     updated_at: "2024-03-01T00:00:00Z",
     created_by: "user-2",
+    deleted_at: null,
   },
   {
     id: "project-3",
@@ -98,6 +146,7 @@ export const mockProjects: Project[] = [
     created_at: "2024-03-10T00:00:00Z",
     updated_at: "2024-03-10T00:00:00Z",
     created_by: "user-1",
+    deleted_at: null,
   },
   {
     id: "project-4",
@@ -107,11 +156,41 @@ export const mockProjects: Project[] = [
     created_at: "2024-01-05T00:00:00Z",
     updated_at: "2024-04-20T00:00:00Z",
     created_by: "user-5",
+    deleted_at: null,
   },
+  {
+    // ゴミ箱のプロジェクト（保持期間の表示確認用に、10日前に移動したことにする）
+    id: "project-5",
+    name: "旧社内ポータル",
+    description: "社内ポータルの旧バージョン",
+    is_active: false,
+    created_at: "2023-06-01T00:00:00Z",
+    updated_at: "2023-12-20T00:00:00Z",
+    created_by: MOCK_AUTH.USER.id,
+    deleted_at: subDays(new Date(), 10).toISOString(),
+  },
+  // ページネーション・並び替え・検索の確認用に、機械的に生成したプロジェクトを追加する（project-6 〜 project-45）
+  ...Array.from({ length: 40 }, (_, index): Project => {
+    const seq = index + 6;
+    const area = SEED_PROJECT_AREAS[index % SEED_PROJECT_AREAS.length];
+    const createdAt = new Date(Date.UTC(2024, 4, 1 + index * 3, 0, 0, 0));
+
+    return {
+      id: `project-${seq}`,
+      name: `${area}プロジェクト ${String(seq).padStart(2, "0")}`,
+      description: index % 4 === 0 ? null : `${area}に関する施策を進めるプロジェクト`,
+      // 7件に1件はアーカイブ済み
+      is_active: index % 7 !== 0,
+      created_at: createdAt.toISOString(),
+      updated_at: new Date(createdAt.getTime() + ((index * 5) % 17) * 24 * 60 * 60 * 1000).toISOString(),
+      created_by: `user-${(index % 5) + 1}`,
+      deleted_at: null,
+    };
+  }),
 ];
 
 // モックプロジェクトメンバー
-const mockProjectMembers: ProjectMember[] = [
+export const mockProjectMembers: ProjectMember[] = [
   {
     id: "member-1",
     project_id: "project-1",
@@ -139,6 +218,8 @@ const mockProjectMembers: ProjectMember[] = [
     role: "member" as ProjectRole,
     joined_at: "2024-03-01T00:00:00Z",
     updated_at: "2024-03-01T00:00:00Z",
+    // 期間を限って参加しているメンバー（有効期限が近い状態の確認用）
+    expires_at: endOfDay(addDays(new Date(), 5)).toISOString(),
     user: mockUsers[2],
     project: mockProjects[0],
   },
@@ -149,11 +230,423 @@ const mockProjectMembers: ProjectMember[] = [
     role: "viewer" as ProjectRole,
     joined_at: "2024-04-01T00:00:00Z",
     updated_at: "2024-04-01T00:00:00Z",
+    // 有効期限が過ぎたメンバー（権限を失った状態の確認用）
+    expires_at: subDays(new Date(), 3).toISOString(),
     user: mockUsers[3],
     project: mockProjects[0],
   },
+  // 開発ユーザーはプロジェクトごとに異なるロールを持つ（権限制御の確認用）
+  {
+    id: "member-5",
+    project_id: "project-1",
+    user_id: MOCK_AUTH.USER.id,
+    role: "project_manager" as ProjectRole,
+    joined_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    user: mockUsers[5],
+    project: mockProjects[0],
+  },
+  {
+    id: "member-6",
+    project_id: "project-2",
+    user_id: MOCK_AUTH.USER.id,
+    role: "project_moderator" as ProjectRole,
+    joined_at: "2024-02-15T00:00:00Z",
+    updated_at: "2024-02-15T00:00:00Z",
+    user: mockUsers[5],
+    project: mockProjects[1],
+  },
+  {
+    id: "member-7",
+    project_id: "project-3",
+    user_id: MOCK_AUTH.USER.id,
+    role: "viewer" as ProjectRole,
+    joined_at: "2024-03-10T00:00:00Z",
+    updated_at: "2024-03-10T00:00:00Z",
+    user: mockUsers[5],
+    project: mockProjects[2],
+  },
+  {
+    id: "member-8",
+    project_id: "project-5",
+    user_id: MOCK_AUTH.USER.id,
+    role: "project_manager" as ProjectRole,
+    joined_at: "2023-06-01T00:00:00Z",
+    updated_at: "2023-06-01T00:00:00Z",
+    user: mockUsers[5],
+    project: mockProjects[4],
+  },
+  {
+    id: "member-9",
+    project_id: "project-12",
+    user_id: MOCK_AUTH.USER.id,
+    role: "member" as ProjectRole,
+    joined_at: "2024-06-01T00:00:00Z",
+    updated_at: "2024-06-01T00:00:00Z",
+    user: mockUsers[5],
+    project: mockProjects[11],
+  },
+  {
+    // アーカイブ済みのプロジェクトへの所属
+    id: "member-10",
+    project_id: "project-20",
+    user_id: MOCK_AUTH.USER.id,
+    role: "member" as ProjectRole,
+    joined_at: "2024-07-01T00:00:00Z",
+    updated_at: "2024-07-01T00:00:00Z",
+    user: mockUsers[5],
+    project: mockProjects[19],
+  },
 ];
 
+let projectSequence = mockProjects.length;
+let memberSequence = mockProjectMembers.length;
+
+// モックプロジェクト設定（保存されていないプロジェクトは getMockProjectSettings が既定値を返す）
+export const mockProjectSettings: ProjectSettings[] = [
+  {
+    // 開発ユーザーがモデレーターとして参加しているプロジェクト（招待できない状態の確認用）
+    project_id: "project-2",
+    default_member_role: "member",
+    invite_policy: "managers_only",
+    updated_at: "2024-03-01T00:00:00Z",
+  },
+];
+
+// ================================================================================
+// ヘルパー
+// ================================================================================
+
+/**
+ * 新しいプロジェクトのIDを採番する（削除で件数が減っても、削除したプロジェクトのIDは再利用しない）
+ */
+export const nextMockProjectId = () => {
+  projectSequence += 1;
+
+  return `project-${projectSequence}`;
+};
+
+/**
+ * 新しいメンバーのIDを採番する（削除で件数が減っても、削除したメンバーのIDは再利用しない）
+ */
+export const nextMockMemberId = () => {
+  memberSequence += 1;
+
+  return `member-${memberSequence}`;
+};
+
+/**
+ * 監査ログに記録するメンバーのスナップショット
+ */
+export const toMemberSnapshot = (member: ProjectMember) => ({
+  user_id: member.user_id,
+  email: member.user?.email ?? null,
+  role: member.role,
+  expires_at: member.expires_at ?? null,
+});
+
+/**
+ * 監査ログに記録するプロジェクト（存在しない場合は null）
+ */
+export const findAuditProject = (projectId: string) => mockProjects.find((p) => p.id === projectId) ?? null;
+
+/**
+ * 操作を行うユーザー（MOCK_AUTH.USER）の有効なメンバー情報
+ *
+ * 有効期限が過ぎたメンバーシップは、メンバーでない場合と同じく undefined を返します。
+ */
+export const findMockActorMembership = (projectId: string) => {
+  return mockProjectMembers.find((m) => m.project_id === projectId && m.user_id === MOCK_AUTH.USER.id && !isMembershipExpired(m));
+};
+
+/**
+ * 操作を行うユーザー（MOCK_AUTH.USER）のプロジェクトでの実効権限
+ *
+ * UIと同じロール・権限のマッピング（resolvePermissions）で算出するため、画面の表示制御とAPIの権限チェックが食い違いません。
+ */
+export const getMockPermissions = (projectId: string) => {
+  const member = findMockActorMembership(projectId);
+  const user = mockUsers.find((u) => u.id === MOCK_AUTH.USER.id);
+
+  return resolvePermissions({ systemRoles: user?.roles ?? [], projectRole: member?.role ?? null });
+};
+
+/**
+ * 操作を行うユーザー（MOCK_AUTH.USER）のプロジェクトでのロール情報
+ */
+export const getMockActor = (projectId: string): RoleActor => {
+  const member = findMockActorMembership(projectId);
+  const permissions = getMockPermissions(projectId);
+
+  return {
+    userId: MOCK_AUTH.USER.id,
+    projectRole: member?.role ?? null,
+    isSystemAdmin: permissions.has("system:admin"),
+    canManageMembers: permissions.has("project:manage_members"),
+  };
+};
+
+/**
+ * プロジェクト設定を取得（保存されていない場合は既定値）
+ */
+export const getMockProjectSettings = (projectId: string): ProjectSettings => {
+  return (
+    mockProjectSettings.find((settings) => settings.project_id === projectId) ?? {
+      project_id: projectId,
+      default_member_role: "member",
+      invite_policy: "managers_and_moderators",
+      updated_at: mockProjects.find((p) => p.id === projectId)?.created_at ?? new Date().toISOString(),
+    }
+  );
+};
+
+/**
+ * メンバー管理権限（project:manage_members）がない場合の RFC 9457 エラーレスポンス
+ */
+const manageMembersForbidden = (instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/forbidden",
+      title: "Forbidden",
+      status: 403,
+      detail: "You do not have permission to manage members of this project",
+      instance,
+    },
+    {
+      status: 403,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 操作を行うユーザーがメンバー管理権限（project:manage_members）を持つかを確認する
+ *
+ * @returns 権限がない場合はエラーレスポンス、権限がある場合は null
+ */
+const ensureManageMembersPermission = (projectId: string, instance: string) => {
+  return getMockPermissions(projectId).has("project:manage_members") ? null : manageMembersForbidden(instance);
+};
+
+/**
+ * メンバーの招待・追加がプロジェクトの招待ポリシーで許可されているかを確認する
+ *
+ * @returns 許可されていない場合はエラーレスポンス、許可されている場合は null
+ */
+export const ensureInvitePolicy = (projectId: string, instance: string) => {
+  if (canInviteMembers(getMockActor(projectId), getMockProjectSettings(projectId).invite_policy)) {
+    return null;
+  }
+
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/invite-policy-violation",
+      title: "Invite Policy Violation",
+      status: 403,
+      detail: "Only project managers can invite or add members to this project",
+      instance,
+    },
+    {
+      status: 403,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 指定された有効期限が既に過ぎているか（null・省略は期限なしのため false）
+ */
+const isExpiredExpiry = (expiresAt: string | null | undefined) => {
+  return expiresAt !== null && expiresAt !== undefined && isMembershipExpired({ expires_at: expiresAt });
+};
+
+/**
+ * 過去の日時を有効期限に指定した場合の RFC 9457 エラーレスポンス
+ */
+const invalidMembershipExpiry = (instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/validation-error",
+      title: "Validation Error",
+      status: 422,
+      detail: "Membership expiry must be in the future",
+      instance,
+    },
+    {
+      status: 422,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * ロール階層・最後のマネージャー保護に違反した場合の RFC 9457 エラーレスポンス
+ */
+const memberRestrictionProblem = (reason: MemberRestrictionReason, instance: string) => {
+  if (reason === "no_permission") {
+    return manageMembersForbidden(instance);
+  }
+  if (reason === "last_manager") {
+    return HttpResponse.json(
+      {
+        type: "https://api.example.com/problems/last-project-manager",
+        title: "Last Project Manager",
+        status: 409,
+        detail: "A project must have at least one project manager. Assign another project manager first.",
+        instance,
+      },
+      {
+        status: 409,
+        headers: { "Content-Type": "application/problem+json" },
+      }
+    );
+  }
+
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/role-hierarchy-violation",
+      title: "Role Hierarchy Violation",
+      status: 403,
+      detail:
+        reason === "self"
+          ? "You cannot change or remove your own membership"
+          : "You cannot modify a member whose role is higher than yours",
+      instance,
+    },
+    {
+      status: 403,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * 自分より上位のロールを付与しようとした場合の RFC 9457 エラーレスポンス
+ */
+const roleNotAssignable = (role: ProjectRole, instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/role-hierarchy-violation",
+      title: "Role Hierarchy Violation",
+      status: 403,
+      detail: `You cannot grant the role "${role}" because it is higher than your own`,
+      instance,
+    },
+    {
+      status: 403,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * メンバーのロール変更がロール階層のルールを満たすか検証
+ *
+ * 最後のマネージャーを project_manager のまま更新する場合（変更なし）は許可します。
+ * 有効期限切れのマネージャーは、最後のマネージャーの判定で数えません（getMemberRestriction と同じ判定）。
+ *
+ * @returns 違反している場合はエラーレスポンス、問題がない場合は null
+ */
+const validateRoleChange = ({
+  actor,
+  member,
+  members,
+  role,
+  instance,
+}: {
+  actor: RoleActor;
+  member: ProjectMember;
+  members: readonly ProjectMember[];
+  role: ProjectRole;
+  instance: string;
+}) => {
+  const restriction = getMemberRestriction({ actor, member, members });
+
+  if (restriction.reason !== null && !(restriction.reason === "last_manager" && role === "project_manager")) {
+    return memberRestrictionProblem(restriction.reason, instance);
+  }
+  if (!getAssignableRoles(actor).includes(role)) {
+    return roleNotAssignable(role, instance);
+  }
+
+  return null;
+};
+
+/**
+ * メンバーのロール・有効期限を更新する
+ *
+ * PATCH /members/:memberId と権限リクエストの承認で共有し、ロール階層・最後のマネージャー保護・有効期限の検証と監査ログの記録を行います。
+ * expires_at を省略した場合は有効期限を変更しません。
+ *
+ * @returns 更新できた場合は更新後のメンバー、検証に失敗した場合はエラーレスポンス
+ */
+export const updateMockMember = ({
+  projectId,
+  memberId,
+  data,
+}: {
+  projectId: string;
+  memberId: string;
+  data: UpdateMemberRoleInput;
+}): { ok: true; member: ProjectMember } | { ok: false; response: Response } => {
+  const instance = `/api/v1/projects/${projectId}/members/${memberId}`;
+  const memberIndex = mockProjectMembers.findIndex((m) => m.id === memberId && m.project_id === projectId);
+
+  if (memberIndex === -1) {
+    return {
+      ok: false,
+      response: HttpResponse.json(
+        {
+          type: "https://api.example.com/problems/resource-not-found",
+          title: "Resource Not Found",
+          status: 404,
+          detail: "The specified project member does not exist",
+          instance,
+        },
+        {
+          status: 404,
+          headers: { "Content-Type": "application/problem+json" },
+        }
+      ),
+    };
+  }
+
+  const before = mockProjectMembers[memberIndex];
+
+  const violation = validateRoleChange({
+    actor: getMockActor(projectId),
+    member: before,
+    members: mockProjectMembers.filter((m) => m.project_id === projectId),
+    role: data.role,
+    instance,
+  });
+  if (violation) {
+    return { ok: false, response: violation };
+  }
+
+  if (isExpiredExpiry(data.expires_at)) {
+    return { ok: false, response: invalidMembershipExpiry(instance) };
+  }
+
+  const updated: ProjectMember = {
+    ...before,
+    role: data.role,
+    expires_at: data.expires_at === undefined ? before.expires_at : data.expires_at,
+    updated_at: new Date().toISOString(),
+  };
+  mockProjectMembers[memberIndex] = updated;
+
+  recordAuditLog({
+    action: "member.role_changed",
+    targetType: "member",
+    targetId: before.id,
+    project: findAuditProject(before.project_id),
+    changes: { before: toMemberSnapshot(before), after: toMemberSnapshot(updated) },
+  });
+
+  return { ok: true, member: updated };
+};
+
 // ================================================================================
 // ハンドラー
 // ================================================================================
@@ -173,6 +666,23 @@ export const projectMemberHandlers = [
     });
   }),
 
+  /**
+   * GET /api/v1/projects/:projectId/members/me
+   * ログインユーザー自身のメンバー情報取得
+   *
+   * モックでは常に MOCK_AUTH.USER をログインユーザーとして扱います。
+   * メンバーでない場合・メンバーシップの有効期限が過ぎている場合は data: null を返します。
+   */
+  http.get("*/api/v1/projects/:projectId/members/me", ({ params }) => {
+    const { projectId } = params;
+
+    const member = findMockActorMembership(projectId as string);
+
+    return HttpResponse.json({
+      data: member ?? null,
+    });
+  }),
+
   /**
    * POST /api/v1/projects/:projectId/members
    * プロジェクトメンバー追加
@@ -181,6 +691,17 @@ export const projectMemberHandlers = [
     const { projectId } = params;
     const body = (await request.json()) as AddProjectMemberInput;
 
+    const forbidden = ensureManageMembersPermission(projectId as string, `/api/v1/projects/${projectId}/members`);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    // 招待ポリシーの確認
+    const notAllowed = ensureInvitePolicy(projectId as string, `/api/v1/projects/${projectId}/members`);
+    if (notAllowed) {
+      return notAllowed;
+    }
+
     // ユーザーの存在確認
     const user = mockUsers.find((u) => u.id === body.user_id);
     if (!user) {
@@ -199,6 +720,15 @@ export const projectMemberHandlers = [
       );
     }
 
+    // 自分より上位のロールは付与できない
+    if (!getAssignableRoles(getMockActor(projectId as string)).includes(body.role)) {
+      return roleNotAssignable(body.role, `/api/v1/projects/${projectId}/members`);
+    }
+
+    if (isExpiredExpiry(body.expires_at)) {
+      return invalidMembershipExpiry(`/api/v1/projects/${projectId}/members`);
+    }
+
     // 既にメンバーかチェック
     const existingMember = mockProjectMembers.find((m) => m.project_id === projectId && m.user_id === body.user_id);
     if (existingMember) {
@@ -218,18 +748,27 @@ export const projectMemberHandlers = [
     }
 
     const newMember: ProjectMember = {
-      id: `member-${mockProjectMembers.length + 1}`,
+      id: nextMockMemberId(),
       project_id: projectId as string,
       user_id: body.user_id,
       role: body.role,
       joined_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
+      expires_at: body.expires_at ?? null,
       user,
       project: mockProjects.find((p) => p.id === projectId),
     };
 
     mockProjectMembers.push(newMember);
 
+    recordAuditLog({
+      action: "member.added",
+      targetType: "member",
+      targetId: newMember.id,
+      project: findAuditProject(newMember.project_id),
+      changes: { before: null, after: toMemberSnapshot(newMember) },
+    });
+
     return HttpResponse.json(
       {
         data: newMember,
@@ -238,40 +777,232 @@ export const projectMemberHandlers = [
     );
   }),
 
+  /**
+   * POST /api/v1/projects/:projectId/members/bulk
+   * プロジェクトメンバー一括追加
+   *
+   * 行ごとに検証し、追加できる行だけを追加します。
+   * 追加できなかった行は failed に失敗理由とともに返します。
+   */
+  http.post("*/api/v1/projects/:projectId/members/bulk", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as BulkAddMembersInput;
+
+    const forbidden = ensureManageMembersPermission(projectId as string, `/api/v1/projects/${projectId}/members/bulk`);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const notAllowed = ensureInvitePolicy(projectId as string, `/api/v1/projects/${projectId}/members/bulk`);
+
+    if (notAllowed) {
+      return notAllowed;
+    }
+
+    const assignableRoles = getAssignableRoles(getMockActor(projectId as string));
+    const result: BulkAddMembersOutput["data"] = { added: [], failed: [] };
+
+    const fail = (row: BulkAddMembersInput["members"][number], reason: BulkAddFailureReason, detail: string) => {
+      result.failed.push({ user_id: row.user_id, role: row.role, reason, detail });
+    };
+
+    for (const row of body.members) {
+      const user = mockUsers.find((u) => u.id === row.user_id);
+
+      if (!assignableRoles.includes(row.role)) {
+        fail(row, "role_not_assignable", `You cannot grant the role "${row.role}" because it is higher than your own`);
+        continue;
+      }
+      if (!user) {
+        fail(row, "user_not_found", "The specified user does not exist");
+        continue;
+      }
+      if (!user.is_active) {
+        fail(row, "user_inactive", "The specified user is inactive");
+        continue;
+      }
+      if (mockProjectMembers.some((m) => m.project_id === projectId && m.user_id === row.user_id)) {
+        fail(row, "already_member", "User is already a member of this project");
+        continue;
+      }
+
+      const newMember: ProjectMember = {
+        id: nextMockMemberId(),
+        project_id: projectId as string,
+        user_id: row.user_id,
+        role: row.role,
+        joined_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        user,
+        project: mockProjects.find((p) => p.id === projectId),
+      };
+
+      mockProjectMembers.push(newMember);
+      result.added.push(newMember);
+
+      recordAuditLog({
+        action: "member.added",
+        targetType: "member",
+        targetId: newMember.id,
+        project: findAuditProject(newMember.project_id),
+        changes: { before: null, after: toMemberSnapshot(newMember) },
+      });
+    }
+
+    return HttpResponse.json({
+      data: result,
+    });
+  }),
+
+  /**
+   * PATCH /api/v1/projects/:projectId/members/bulk
+   * プロジェクトメンバーのロール一括更新
+   *
+   * /members/:memberId より先に登録しないと "bulk" がメンバーIDとして扱われるため、
+   * 一括操作のハンドラーは個別操作より前に定義します。
+   */
+  http.patch("*/api/v1/projects/:projectId/members/bulk", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as BulkUpdateRolesInput;
+
+    const forbidden = ensureManageMembersPermission(projectId as string, `/api/v1/projects/${projectId}/members/bulk`);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    // 全件を検証してから適用する（途中で違反があれば何も更新しない）
+    const actor = getMockActor(projectId as string);
+    const simulatedMembers = mockProjectMembers.filter((m) => m.project_id === projectId).map((m) => ({ ...m }));
+
+    for (const update of body.updates) {
+      const member = simulatedMembers.find((m) => m.id === update.member_id);
+
+      if (member) {
+        const violation = validateRoleChange({
+          actor,
+          member,
+          members: simulatedMembers,
+          role: update.role,
+          instance: `/api/v1/projects/${projectId}/members/bulk`,
+        });
+        if (violation) {
+          return violation;
+        }
+        member.role = update.role;
+      }
+    }
+
+    const updatedMembers: ProjectMember[] = [];
+
+    for (const update of body.updates) {
+      const memberIndex = mockProjectMembers.findIndex((m) => m.id === update.member_id && m.project_id === projectId);
+
+      if (memberIndex !== -1) {
+        const before = mockProjectMembers[memberIndex];
+
+        mockProjectMembers[memberIndex] = {
+          ...before,
+          role: update.role,
+          updated_at: new Date().toISOString(),
+        };
+        updatedMembers.push(mockProjectMembers[memberIndex]);
+
+        recordAuditLog({
+          action: "member.role_changed",
+          targetType: "member",
+          targetId: before.id,
+          project: findAuditProject(before.project_id),
+          changes: { before: toMemberSnapshot(before), after: toMemberSnapshot(mockProjectMembers[memberIndex]) },
+        });
+      }
+    }
+
+    return HttpResponse.json({
+      data: updatedMembers,
+    });
+  }),
+  /**
+   * DELETE /api/v1/projects/:projectId/members/bulk
+   * プロジェクトメンバー一括削除
+   *
+   * メンバーごとに検証し、削除できるメンバーだけを削除します。
+   * 最後のマネージャー判定は、先に削除したメンバーを除いた状態で行います。
+   */
+  http.delete("*/api/v1/projects/:projectId/members/bulk", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as BulkRemoveMembersInput;
+
+    const forbidden = ensureManageMembersPermission(projectId as string, `/api/v1/projects/${projectId}/members/bulk`);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const actor = getMockActor(projectId as string);
+    const result: BulkRemoveMembersOutput["data"] = { removed: [], failed: [] };
+
+    for (const memberId of body.member_ids) {
+      const memberIndex = mockProjectMembers.findIndex((m) => m.id === memberId && m.project_id === projectId);
+
+      if (memberIndex === -1) {
+        result.failed.push({ member_id: memberId, reason: "member_not_found", detail: "The specified project member does not exist" });
+        continue;
+      }
+
+      const restriction = getMemberRestriction({
+        actor,
+        member: mockProjectMembers[memberIndex],
+        members: mockProjectMembers.filter((m) => m.project_id === projectId),
+      });
+      if (restriction.reason !== null) {
+        result.failed.push({
+          member_id: memberId,
+          reason: restriction.reason,
+          detail:
+            restriction.reason === "last_manager"
+              ? "A project must have at least one project manager"
+              : "You cannot remove this member because of the role hierarchy",
+        });
+        continue;
+      }
+
+      const [removedMember] = mockProjectMembers.splice(memberIndex, 1);
+      result.removed.push(removedMember.id);
+
+      recordAuditLog({
+        action: "member.removed",
+        targetType: "member",
+        targetId: removedMember.id,
+        project: findAuditProject(removedMember.project_id),
+        changes: { before: toMemberSnapshot(removedMember), after: null },
+      });
+    }
+
+    return HttpResponse.json({
+      data: result,
+    });
+  }),
+
   /**
    * PATCH /api/v1/projects/:projectId/members/:memberId
-   * プロジェクトメンバーのロール更新
+   * プロジェクトメンバーのロール・有効期限更新
    */
   http.patch("*/api/v1/projects/:projectId/members/:memberId", async ({ params, request }) => {
     const { projectId, memberId } = params;
     const body = (await request.json()) as UpdateMemberRoleInput;
 
-    const memberIndex = mockProjectMembers.findIndex((m) => m.id === memberId && m.project_id === projectId);
-
-    if (memberIndex === -1) {
-      return HttpResponse.json(
-        {
-          type: "https://api.example.com/problems/resource-not-found",
-          title: "Resource Not Found",
-          status: 404,
-          detail: "The specified project member does not exist",
-          instance: `/api/v1/projects/${projectId}/members/${memberId}`,
-        },
-        {
-          status: 404,
-          headers: { "Content-Type": "application/problem+json" },
-        }
-      );
+    const forbidden = ensureManageMembersPermission(projectId as string, `/api/v1/projects/${projectId}/members/${memberId}`);
+    if (forbidden) {
+      return forbidden;
     }
 
-    mockProjectMembers[memberIndex] = {
-      ...mockProjectMembers[memberIndex],
-      role: body.role,
-      updated_at: new Date().toISOString(),
-    };
+    const result = updateMockMember({ projectId: projectId as string, memberId: memberId as string, data: body });
+
+    if (!result.ok) {
+      return result.response;
+    }
 
     return HttpResponse.json({
-      data: mockProjectMembers[memberIndex],
+      data: result.member,
     });
   }),
 
@@ -282,6 +1013,11 @@ export const projectMemberHandlers = [
   http.delete("*/api/v1/projects/:projectId/members/:memberId", ({ params }) => {
     const { projectId, memberId } = params;
 
+    const forbidden = ensureManageMembersPermission(projectId as string, `/api/v1/projects/${projectId}/members/${memberId}`);
+    if (forbidden) {
+      return forbidden;
+    }
+
     const memberIndex = mockProjectMembers.findIndex((m) => m.id === memberId && m.project_id === projectId);
 
     if (memberIndex === -1) {
@@ -300,36 +1036,25 @@ export const projectMemberHandlers = [
       );
     }
 
-    mockProjectMembers.splice(memberIndex, 1);
-
-    return new HttpResponse(null, { status: 204 });
-  }),
-
-  /**
-   * PATCH /api/v1/projects/:projectId/members/bulk
-   * プロジェクトメンバーのロール一括更新
-   */
-  http.patch("*/api/v1/projects/:projectId/members/bulk", async ({ params, request }) => {
-    const { projectId } = params;
-    const body = (await request.json()) as BulkUpdateRolesInput;
-
-    const updatedMembers: ProjectMember[] = [];
-
-    for (const update of body.updates) {
-      const memberIndex = mockProjectMembers.findIndex((m) => m.id === update.member_id && m.project_id === projectId);
-
-      if (memberIndex !== -1) {
-        mockProjectMembers[memberIndex] = {
-          ...mockProjectMembers[memberIndex],
-          role: update.role,
-          updated_at: new Date().toISOString(),
-        };
-        updatedMembers.push(mockProjectMembers[memberIndex]);
-      }
+    const restriction = getMemberRestriction({
+      actor: getMockActor(projectId as string),
+      member: mockProjectMembers[memberIndex],
+      members: mockProjectMembers.filter((m) => m.project_id === projectId),
+    });
+    if (restriction.reason !== null) {
+      return memberRestrictionProblem(restriction.reason, `/api/v1/projects/${projectId}/members/${memberId}`);
     }
 
-    return HttpResponse.json({
-      data: updatedMembers,
+    const [removedMember] = mockProjectMembers.splice(memberIndex, 1);
+
+    recordAuditLog({
+      action: "member.removed",
+      targetType: "member",
+      targetId: removedMember.id,
+      project: findAuditProject(removedMember.project_id),
+      changes: { before: toMemberSnapshot(removedMember), after: null },
     });
+
+    return new HttpResponse(null, { status: 204 });
   }),
 ];
@@ -0,0 +1,100 @@
+/**
+ * プロジェクト設定API用のMSWハンドラー
+ *
+ * 設定のモックデータは project-member-handlers と共有します（メンバーの招待・追加で招待ポリシーを参照するため）。
+ */
+
+import { http, HttpResponse } from "msw";
+
+import type { ProjectSettings } from "@/features/projects/types";
+import type { UpdateProjectSettingsInput } from "@/features/projects/types/forms";
+
+import { recordAuditLog } from "../audit-logs/audit-log-handlers";
+import { ensureEditable, projectNotFound } from "./project-handlers";
+import { getMockPermissions, getMockProjectSettings, mockProjects, mockProjectSettings } from "./project-member-handlers";
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+export const projectSettingsHandlers = [
+  /**
+   * GET /api/v1/projects/:projectId/settings
+   * プロジェクト設定取得（設定が保存されていないプロジェクトは既定値を返します）
+   */
+  http.get("*/api/v1/projects/:projectId/settings", ({ params }) => {
+    const { projectId } = params;
+
+    return HttpResponse.json({
+      data: getMockProjectSettings(projectId as string),
+    });
+  }),
+
+  /**
+   * PUT /api/v1/projects/:projectId/settings
+   * プロジェクト設定更新（project:manage_settings 権限が必要。アーカイブ済み・ゴミ箱のプロジェクトは更新できません）
+   */
+  http.put("*/api/v1/projects/:projectId/settings", async ({ params, request }) => {
+    const { projectId } = params;
+    const body = (await request.json()) as UpdateProjectSettingsInput;
+    const instance = `/api/v1/projects/${projectId}/settings`;
+
+    const project = mockProjects.find((p) => p.id === projectId);
+
+    if (!project) {
+      return projectNotFound(projectId as string);
+    }
+
+    if (!getMockPermissions(projectId as string).has("project:manage_settings")) {
+      return HttpResponse.json(
+        {
+          type: "https://api.example.com/problems/forbidden",
+          title: "Forbidden",
+          status: 403,
+          detail: "Only project managers can change project settings",
+          instance,
+        },
+        {
+          status: 403,
+          headers: { "Content-Type": "application/problem+json" },
+        }
+      );
+    }
+
+    const notEditable = ensureEditable(project, instance);
+
+    if (notEditable) {
+      return notEditable;
+    }
+
+    const before = getMockProjectSettings(project.id);
+    const updatedSettings: ProjectSettings = {
+      ...before,
+      default_member_role: body.default_member_role,
+      invite_policy: body.invite_policy,
+      updated_at: new Date().toISOString(),
+    };
+    const settingsIndex = mockProjectSettings.findIndex((settings) => settings.project_id === project.id);
+
+    if (settingsIndex === -1) {
+      mockProjectSettings.push(updatedSettings);
+    } else {
+      mockProjectSettings[settingsIndex] = updatedSettings;
+    }
+
+    recordAuditLog({
+      action: "project.settings_updated",
+      targetType: "project",
+      targetId: project.id,
+      project,
+      changes: {
+        before: { default_member_role: before.default_member_role, invite_policy: before.invite_policy },
+        after: { default_member_role: updatedSettings.default_member_role, invite_policy: updatedSettings.invite_policy },
+      },
+    });
+
+    return HttpResponse.json({
+      data: updatedSettings,
+    });
+  }),
+];
@@ -17,11 +17,31 @@ export const sampleAuthHandlers = [
    * @example
    * テスト用の認証情報:
    * - email: 任意のメールアドレス
-   * - password: 任意のパスワード（空でなければOK）
+   * - password: 8文字以上の任意のパスワード（8文字未満の場合はフィールドごとのバリデーションエラー）
    */
   http.post("*/api/v1/sample/auth/login", async ({ request }) => {
     const body = (await request.json()) as { email: string; password: string };
 
+    // パスワードの形式チェック（モック用）
+    if (body.password && body.password.length < 8) {
+      return HttpResponse.json(
+        {
+          type: "https://api.example.com/problems/validation-error",
+          title: "Validation Error",
+          status: 422,
+          detail: "The request contains invalid fields",
+          instance: "/api/v1/sample/auth/login",
+          errors: {
+            password: ["Password must be at least 8 characters"],
+          },
+        },
+        {
+          status: 422,
+          headers: { "Content-Type": "application/problem+json" },
+        }
+      );
+    }
+
     // 簡易的な認証チェック（モック用）
     if (body.email && body.password) {
       // 成功レスポンス
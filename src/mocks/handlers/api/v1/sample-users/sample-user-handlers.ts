@@ -31,6 +31,36 @@ const mockUsers: User[] = [
   },
 ];
 
+/**
+ * メールアドレスが他のユーザーと重複している場合の RFC 9457 エラーレスポンス
+ *
+ * 拡張メンバー errors にフィールドごとのエラーメッセージを含めます。
+ */
+const emailAlreadyInUse = (instance: string) => {
+  return HttpResponse.json(
+    {
+      type: "https://api.example.com/problems/validation-error",
+      title: "Validation Error",
+      status: 422,
+      detail: "The request contains invalid fields",
+      instance,
+      errors: {
+        email: ["This email address is already in use"],
+      },
+    },
+    {
+      status: 422,
+      headers: { "Content-Type": "application/problem+json" },
+    }
+  );
+};
+
+/**
+ * メールアドレスが他のユーザーと重複しているかどうか（大文字・小文字は区別しない）
+ */
+const isEmailInUse = (email: string, excludeUserId?: string) =>
+  mockUsers.some((u) => u.id !== excludeUserId && u.email.toLowerCase() === email.toLowerCase());
+
 export const sampleUserHandlers = [
   /**
    * GET /api/v1/sample/users
@@ -73,11 +103,15 @@ export const sampleUserHandlers = [
 
   /**
    * POST /api/v1/sample/users
-   * ユーザー作成
+   * ユーザー作成（メールアドレスが重複している場合は 422）
    */
   http.post("*/api/v1/sample/users", async ({ request }) => {
     const body = (await request.json()) as CreateUserInput;
 
+    if (isEmailInUse(body.email)) {
+      return emailAlreadyInUse("/api/v1/sample/users");
+    }
+
     const newUser: User = {
       id: String(mockUsers.length + 1),
       name: body.name,
@@ -93,7 +127,7 @@ export const sampleUserHandlers = [
 
   /**
    * PUT /api/v1/sample/users/:id
-   * ユーザー更新
+   * ユーザー更新（メールアドレスが他のユーザーと重複している場合は 422）
    */
   http.put("*/api/v1/sample/users/:id", async ({ params, request }) => {
     const { id } = params;
@@ -117,6 +151,10 @@ export const sampleUserHandlers = [
       );
     }
 
+    if (isEmailInUse(body.email, mockUsers[userIndex].id)) {
+      return emailAlreadyInUse(`/api/v1/sample/users/${id}`);
+    }
+
     mockUsers[userIndex] = {
       ...mockUsers[userIndex],
       name: body.name,
@@ -0,0 +1,45 @@
+/**
+ * ログインユーザーのプロジェクト所属API用のMSWハンドラー
+ *
+ * ダッシュボードで使用します。
+ * プロジェクト・メンバーのモックデータは project-member-handlers と共有します。
+ */
+
+import { http, HttpResponse } from "msw";
+
+import { isMembershipExpired } from "@/features/projects/utils/membership-expiry";
+
+import { MOCK_AUTH } from "../auth/auth-handlers";
+import { mockProjectMembers, mockProjects } from "../projects/project-member-handlers";
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+export const myMembershipHandlers = [
+  /**
+   * GET /api/v1/users/me/memberships
+   * ログインユーザーのプロジェクト所属一覧取得
+   *
+   * モックでは常に MOCK_AUTH.USER をログインユーザーとして扱います。
+   * 有効期限が過ぎた所属と、ゴミ箱に移動したプロジェクトへの所属は含めません。
+   * member_count は各プロジェクトの有効なメンバー数です。
+   */
+  http.get("*/api/v1/users/me/memberships", () => {
+    const memberships = mockProjectMembers.flatMap((member) => {
+      const project = mockProjects.find((p) => p.id === member.project_id);
+
+      if (member.user_id !== MOCK_AUTH.USER.id || isMembershipExpired(member) || !project || project.deleted_at !== null) {
+        return [];
+      }
+
+      const memberCount = mockProjectMembers.filter((m) => m.project_id === project.id && !isMembershipExpired(m)).length;
+
+      return [{ ...member, user: undefined, project, member_count: memberCount }];
+    });
+
+    return HttpResponse.json({
+      data: memberships,
+    });
+  }),
+];
@@ -0,0 +1,69 @@
+/**
+ * ユーザー検索・照会API用のMSWハンドラー
+ *
+ * メンバー追加ダイアログのユーザー検索と、メンバーインポートのメールアドレス照会で使用します。
+ * ユーザーのモックデータは project-member-handlers と共有します。
+ */
+
+import { delay, http, HttpResponse } from "msw";
+
+import { mockUsers } from "../projects/project-member-handlers";
+
+// ================================================================================
+// ハンドラー
+// ================================================================================
+
+/**
+ * 検索結果の最大件数
+ */
+const SEARCH_LIMIT = 10;
+
+export const userSearchHandlers = [
+  /**
+   * GET /api/v1/users/search
+   * ユーザー検索
+   *
+   * クエリパラメータ:
+   * - q: 表示名・メールアドレスの部分一致（大文字小文字を区別しない）
+   *
+   * 無効化されたユーザーは結果に含めません。
+   * デバウンス・リクエストのキャンセルを確認しやすいよう、応答を少し遅らせています。
+   */
+  http.get("*/api/v1/users/search", async ({ request }) => {
+    const url = new URL(request.url);
+    const q = url.searchParams.get("q")?.trim().toLowerCase() ?? "";
+
+    await delay(300);
+
+    if (q === "") {
+      return HttpResponse.json({
+        data: [],
+      });
+    }
+
+    const users = mockUsers
+      .filter((user) => user.is_active)
+      .filter((user) => user.email.toLowerCase().includes(q) || (user.display_name?.toLowerCase().includes(q) ?? false))
+      .slice(0, SEARCH_LIMIT);
+
+    return HttpResponse.json({
+      data: users,
+    });
+  }),
+
+  /**
+   * POST /api/v1/users/lookup
+   * メールアドレスによるユーザー照会
+   *
+   * リクエストボディ: { emails: string[] }
+   * メールアドレスは大文字小文字を区別せずに完全一致で照会します。無効化されたユーザーも返します。
+   */
+  http.post("*/api/v1/users/lookup", async ({ request }) => {
+    const body = (await request.json()) as { emails: string[] };
+    const emails = new Set(body.emails.map((email) => email.trim().toLowerCase()));
+
+    return HttpResponse.json({
+      data: mockUsers.filter((user) => emails.has(user.email.toLowerCase())),
+    });
+  }),
+];
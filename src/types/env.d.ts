@@ -50,6 +50,14 @@ declare global {
        */
       NEXT_PUBLIC_MOCK_API_PORT?: string;
 
+      /**
+       * モック認証のユーザーをシステム管理者にするフラグ
+       * true の場合、開発モードのログインユーザーに system_admin ロールを付与し、管理画面を確認できるようにする
+       *
+       * @example "true" | "false"
+       */
+      NEXT_PUBLIC_MOCK_SYSTEM_ADMIN?: string;
+
       /**
        * Storybookポート番号
        * Storybook環境でのみ設定される